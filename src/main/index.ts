@@ -42,7 +42,10 @@ import { cleanupTempFiles } from './ipc/files';
 import { readSettings } from './ipc/settings';
 import { registerWindowHandlers } from './ipc/window';
 import { registerClaudeBridgeIpcHandlers } from './services/claude/ClaudeIdeBridge';
-import { unwatchClaudeSettings } from './services/claude/ClaudeProviderManager';
+import {
+  cleanupSessionProviderSettings,
+  unwatchClaudeSettings,
+} from './services/claude/ClaudeProviderManager';
 import {
   isAllowedLocalFilePath,
   registerAllowedLocalFileRoot,
@@ -322,6 +325,8 @@ app.whenReady().then(async () => {
 
   // Clean up temp files from previous sessions
   await cleanupTempFiles();
+  // Provider settings of sessions that did not exit cleanly still hold plaintext tokens
+  cleanupSessionProviderSettings();
 
   // Register protocol to handle local file:// URLs for markdown images
   protocol.handle('local-file', (request) => {
@@ -1,11 +1,68 @@
-import { IPC_CHANNELS } from '@shared/types';
-import { ipcMain } from 'electron';
+import { type AcpSessionCreateOptions, IPC_CHANNELS } from '@shared/types';
+import { ipcMain, type WebContents } from 'electron';
+import { AcpSessionManager } from '../services/agent/AcpSessionManager';
 import { AgentRegistry, BUILTIN_AGENTS } from '../services/agent/AgentRegistry';
 
 const registry = new AgentRegistry(BUILTIN_AGENTS);
+const acpSessions = new AcpSessionManager(registry);
+const acpCleanupOwners = new Set<number>();
+
+function ensureAcpCleanup(sender: WebContents): void {
+  const ownerId = sender.id;
+  if (acpCleanupOwners.has(ownerId)) {
+    return;
+  }
+
+  acpCleanupOwners.add(ownerId);
+  sender.once('destroyed', () => {
+    acpCleanupOwners.delete(ownerId);
+    acpSessions.destroyByOwner(ownerId);
+  });
+}
+
+export function destroyAllAcpSessions(): void {
+  acpCleanupOwners.clear();
+  acpSessions.destroyAll();
+}
 
 export function registerAgentHandlers(): void {
   ipcMain.handle(IPC_CHANNELS.AGENT_LIST, async () => {
     return registry.list();
   });
+
+  ipcMain.handle(
+    IPC_CHANNELS.AGENT_ACP_CREATE,
+    async (event, id: string, options: AcpSessionCreateOptions) => {
+      ensureAcpCleanup(event.sender);
+      acpSessions.create(
+        id,
+        options,
+        (acpEvent) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send(IPC_CHANNELS.AGENT_ACP_EVENT, { id, event: acpEvent });
+          }
+        },
+        event.sender.id
+      );
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.AGENT_ACP_PROMPT, async (_, id: string, text: string) => {
+    await acpSessions.prompt(id, text);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.AGENT_ACP_CANCEL, async (_, id: string) => {
+    await acpSessions.cancel(id);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.AGENT_ACP_PERMISSION_RESPOND,
+    async (_, id: string, requestId: string, optionId: string | null) => {
+      acpSessions.respondPermission(id, requestId, optionId);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.AGENT_ACP_DESTROY, async (_, id: string) => {
+    acpSessions.destroy(id);
+  });
 }
@@ -0,0 +1,48 @@
+import type { ConfigurableAgentId, McpServer } from '@shared/types';
+import { IPC_CHANNELS } from '@shared/types';
+import { ipcMain } from 'electron';
+import {
+  deleteCodexMcpServer,
+  readCodexAgentsMd,
+  readCodexMcpServers,
+  upsertCodexMcpServer,
+  writeCodexAgentsMd,
+} from '../services/codex/CodexConfigManager';
+import {
+  deleteGeminiMcpServer,
+  readGeminiMcpServers,
+  readGeminiMd,
+  upsertGeminiMcpServer,
+  writeGeminiMd,
+} from '../services/gemini/GeminiConfigManager';
+
+export function registerAgentConfigHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.AGENT_CONFIG_MCP_READ, (_, agent: ConfigurableAgentId) => {
+    return agent === 'codex' ? readCodexMcpServers() : readGeminiMcpServers();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.AGENT_CONFIG_MCP_UPSERT,
+    (_, agent: ConfigurableAgentId, server: McpServer) => {
+      return agent === 'codex' ? upsertCodexMcpServer(server) : upsertGeminiMcpServer(server);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.AGENT_CONFIG_MCP_DELETE,
+    (_, agent: ConfigurableAgentId, serverId: string) => {
+      return agent === 'codex' ? deleteCodexMcpServer(serverId) : deleteGeminiMcpServer(serverId);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.AGENT_CONFIG_INSTRUCTIONS_READ, (_, agent: ConfigurableAgentId) => {
+    return agent === 'codex' ? readCodexAgentsMd() : readGeminiMd();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.AGENT_CONFIG_INSTRUCTIONS_WRITE,
+    (_, agent: ConfigurableAgentId, content: string) => {
+      return agent === 'codex' ? writeCodexAgentsMd(content) : writeGeminiMd(content);
+    }
+  );
+}
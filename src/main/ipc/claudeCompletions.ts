@@ -23,8 +23,8 @@ export function registerClaudeCompletionsHandlers(): void {
     console.warn('[ClaudeCompletions] watcher 启动失败：', err);
   });
 
-  ipcMain.handle(IPC_CHANNELS.CLAUDE_COMPLETIONS_GET, () => {
-    return getClaudeSlashCompletionsSnapshot();
+  ipcMain.handle(IPC_CHANNELS.CLAUDE_COMPLETIONS_GET, (_event, projectRoot?: string) => {
+    return getClaudeSlashCompletionsSnapshot(projectRoot);
   });
 
   ipcMain.handle(IPC_CHANNELS.CLAUDE_COMPLETIONS_REFRESH, () => {
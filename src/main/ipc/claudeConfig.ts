@@ -1,8 +1,24 @@
-import type { McpServer } from '@shared/types';
+import type {
+  ClaudeCommandRef,
+  ClaudeConfigScope,
+  McpServer,
+  ProjectMemoryFile,
+} from '@shared/types';
 import { IPC_CHANNELS } from '@shared/types';
 import { ipcMain } from 'electron';
+import {
+  deleteClaudeCommand,
+  moveClaudeCommand,
+  readClaudeCommand,
+  writeClaudeCommand,
+} from '../services/claude/ClaudeCommandsManager';
+import {
+  listClaudeCommands,
+  refreshClaudeSlashCompletions,
+} from '../services/claude/ClaudeCompletionsManager';
 import {
   deleteMcpServer,
+  getProjectMcpEnv,
   readMcpServers,
   syncMcpServers,
   upsertMcpServer,
@@ -22,35 +38,88 @@ import { backupClaudeMd, readClaudeMd, writeClaudeMd } from '../services/claude/
 
 export function registerClaudeConfigHandlers(): void {
   // MCP Management
-  ipcMain.handle(IPC_CHANNELS.CLAUDE_MCP_READ, () => {
-    return readMcpServers();
+  ipcMain.handle(IPC_CHANNELS.CLAUDE_MCP_READ, (_, projectRoot?: string) => {
+    return readMcpServers(projectRoot);
   });
 
   ipcMain.handle(IPC_CHANNELS.CLAUDE_MCP_SYNC, (_, servers: McpServer[]) => {
     return syncMcpServers(servers);
   });
 
-  ipcMain.handle(IPC_CHANNELS.CLAUDE_MCP_UPSERT, (_, server: McpServer) => {
-    return upsertMcpServer(server);
+  ipcMain.handle(IPC_CHANNELS.CLAUDE_MCP_UPSERT, (_, server: McpServer, projectRoot?: string) => {
+    return upsertMcpServer(server, projectRoot);
   });
 
-  ipcMain.handle(IPC_CHANNELS.CLAUDE_MCP_DELETE, (_, serverId: string) => {
-    return deleteMcpServer(serverId);
+  ipcMain.handle(IPC_CHANNELS.CLAUDE_MCP_DELETE, (_, serverId: string, projectRoot?: string) => {
+    return deleteMcpServer(serverId, projectRoot);
   });
 
+  ipcMain.handle(
+    IPC_CHANNELS.CLAUDE_MCP_PROJECT_ENV,
+    (_, projectRoot: string, serverId?: string) => {
+      return getProjectMcpEnv(projectRoot, serverId);
+    }
+  );
+
   // Prompts Management
-  ipcMain.handle(IPC_CHANNELS.CLAUDE_PROMPTS_READ, () => {
-    return readClaudeMd();
-  });
+  ipcMain.handle(
+    IPC_CHANNELS.CLAUDE_PROMPTS_READ,
+    (_, projectRoot?: string, fileName?: ProjectMemoryFile) => {
+      return readClaudeMd(projectRoot, fileName);
+    }
+  );
 
-  ipcMain.handle(IPC_CHANNELS.CLAUDE_PROMPTS_WRITE, (_, content: string) => {
-    return writeClaudeMd(content);
-  });
+  ipcMain.handle(
+    IPC_CHANNELS.CLAUDE_PROMPTS_WRITE,
+    (_, content: string, projectRoot?: string, fileName?: ProjectMemoryFile) => {
+      return writeClaudeMd(content, projectRoot, fileName);
+    }
+  );
 
   ipcMain.handle(IPC_CHANNELS.CLAUDE_PROMPTS_BACKUP, () => {
     return backupClaudeMd();
   });
 
+  // Commands & Skills Management
+  ipcMain.handle(IPC_CHANNELS.CLAUDE_COMMANDS_LIST, (_, projectRoot?: string) => {
+    return listClaudeCommands(projectRoot);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.CLAUDE_COMMANDS_READ,
+    (_, ref: ClaudeCommandRef, projectRoot?: string) => {
+      return readClaudeCommand(ref, projectRoot);
+    }
+  );
+
+  // 变更后刷新补全，已打开的输入框会重新拉取项目级条目
+  ipcMain.handle(
+    IPC_CHANNELS.CLAUDE_COMMANDS_WRITE,
+    async (_, ref: ClaudeCommandRef, content: string, projectRoot?: string) => {
+      const success = writeClaudeCommand(ref, content, projectRoot);
+      if (success) await refreshClaudeSlashCompletions();
+      return success;
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.CLAUDE_COMMANDS_DELETE,
+    async (_, ref: ClaudeCommandRef, projectRoot?: string) => {
+      const success = deleteClaudeCommand(ref, projectRoot);
+      if (success) await refreshClaudeSlashCompletions();
+      return success;
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.CLAUDE_COMMANDS_MOVE,
+    async (_, ref: ClaudeCommandRef, toScope: ClaudeConfigScope, projectRoot?: string) => {
+      const success = moveClaudeCommand(ref, toScope, projectRoot);
+      if (success) await refreshClaudeSlashCompletions();
+      return success;
+    }
+  );
+
   // Plugins Management
   ipcMain.handle(IPC_CHANNELS.CLAUDE_PLUGINS_LIST, () => {
     return getPlugins();
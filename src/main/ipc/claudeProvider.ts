@@ -3,10 +3,12 @@ import { IPC_CHANNELS } from '@shared/types';
 import { type BrowserWindow, ipcMain } from 'electron';
 import {
   applyProvider,
+  deleteSessionProviderSettings,
   extractProviderFromSettings,
   readClaudeSettings,
   unwatchClaudeSettings,
   watchClaudeSettings,
+  writeSessionProviderSettings,
 } from '../services/claude/ClaudeProviderManager';
 
 export function registerClaudeProviderHandlers(): void {
@@ -21,6 +23,22 @@ export function registerClaudeProviderHandlers(): void {
   ipcMain.handle(IPC_CHANNELS.CLAUDE_PROVIDER_APPLY, (_, provider: ClaudeProvider) => {
     return applyProvider(provider);
   });
+
+  // 为单个会话生成 Provider settings 文件
+  ipcMain.handle(
+    IPC_CHANNELS.CLAUDE_PROVIDER_SESSION_SETTINGS,
+    (_, provider: ClaudeProvider, cwd?: string) => {
+      return writeSessionProviderSettings(provider, cwd);
+    }
+  );
+
+  // 会话退出后删除其 Provider settings 文件
+  ipcMain.handle(
+    IPC_CHANNELS.CLAUDE_PROVIDER_SESSION_SETTINGS_DELETE,
+    (_, settingsPath: string) => {
+      deleteSessionProviderSettings(settingsPath);
+    }
+  );
 }
 
 // Keep a reference to the window for dynamic watcher toggling
@@ -1,7 +1,22 @@
 import { rmSync } from 'node:fs';
-import { copyFile, mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import {
+  chmod,
+  copyFile,
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from 'node:fs/promises';
 import { basename, dirname, join, relative, resolve, sep } from 'node:path';
-import { type FileEntry, type FileReadResult, IPC_CHANNELS } from '@shared/types';
+import {
+  type FileBatchWriteEntry,
+  type FileEntry,
+  type FileReadResult,
+  IPC_CHANNELS,
+} from '@shared/types';
 import { app, ipcMain, shell, type WebContents } from 'electron';
 import iconv from 'iconv-lite';
 import { isBinaryFile } from 'isbinaryfile';
@@ -572,6 +587,11 @@ export function registerFileHandlers(): void {
     }
   );
 
+  // FILE_BATCH_WRITE: Replace the content of multiple files, all or nothing
+  ipcMain.handle(IPC_CHANNELS.FILE_BATCH_WRITE, async (_, entries: FileBatchWriteEntry[]) => {
+    await writeFilesAtomically(entries);
+  });
+
   // FILE_BATCH_MOVE: Move multiple files/directories with conflict resolution
   ipcMain.handle(
     IPC_CHANNELS.FILE_BATCH_MOVE,
@@ -661,6 +681,50 @@ async function copyDirectory(source: string, target: string): Promise<void> {
   }
 }
 
+/**
+ * Write several files as one unit: every file is staged to a temp file first, then
+ * renamed into place. If anything fails, files already replaced are restored.
+ */
+async function writeFilesAtomically(entries: FileBatchWriteEntry[]): Promise<void> {
+  const staged: Array<{ path: string; tempPath: string; original: Buffer }> = [];
+
+  try {
+    for (const entry of entries) {
+      const original = await readFile(entry.path);
+      const encoding = entry.encoding || 'utf-8';
+      if (
+        entry.expectedContent !== undefined &&
+        iconv.decode(original, encoding) !== entry.expectedContent
+      ) {
+        throw new Error(`File changed on disk: ${entry.path}`);
+      }
+
+      const tempPath = `${entry.path}.enso-${process.pid}-${Date.now()}.tmp`;
+      staged.push({ path: entry.path, tempPath, original });
+      await writeFile(tempPath, iconv.encode(entry.content, encoding));
+      // Keep permissions (e.g. executable scripts) of the replaced file
+      await chmod(tempPath, (await stat(entry.path)).mode);
+    }
+  } catch (error) {
+    await Promise.all(staged.map(({ tempPath }) => rm(tempPath, { force: true })));
+    throw error;
+  }
+
+  const replaced: typeof staged = [];
+  try {
+    for (const item of staged) {
+      await rename(item.tempPath, item.path);
+      replaced.push(item);
+    }
+  } catch (error) {
+    for (const item of replaced) {
+      await writeFile(item.path, item.original).catch(() => {});
+    }
+    await Promise.all(staged.map(({ tempPath }) => rm(tempPath, { force: true })));
+    throw error;
+  }
+}
+
 export async function stopAllFileWatchers(): Promise<void> {
   const keys = Array.from(watchers.keys());
   await Promise.all(keys.map((key) => stopWatcherEntry(key)));
@@ -1,12 +1,21 @@
 import { existsSync, statSync } from 'node:fs';
 import path from 'node:path';
-import { type FileChangeStatus, IPC_CHANNELS } from '@shared/types';
-import type { ClaudeEffort } from '@shared/types/ai';
+import {
+  type FileChangeStatus,
+  type GitStashCreateOptions,
+  IPC_CHANNELS,
+  type PullRequestCreateOptions,
+  type PullRequestMergeMethod,
+  type PullRequestReviewCommentInput,
+  type WorkingTreeSnapshot,
+} from '@shared/types';
+import type { ClaudeEffort, CodeReviewMode, CodeReviewScope } from '@shared/types/ai';
 import { ipcMain } from 'electron';
 import {
   type AIProvider,
   generateBranchName,
   generateCommitMessage,
+  generatePullRequestDescription,
   type ModelId,
   type ReasoningEffort,
   startCodeReview as startCodeReviewService,
@@ -209,6 +218,24 @@ export function registerGitHandlers(): void {
     return git.getDiffStats();
   });
 
+  ipcMain.handle(IPC_CHANNELS.GIT_SNAPSHOT_CREATE, async (_, workdir: string) => {
+    const git = getGitService(workdir);
+    return git.createWorkingTreeSnapshot();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_CHANGED_FILES_SINCE,
+    async (_, workdir: string, snapshot: WorkingTreeSnapshot) => {
+      const git = getGitService(workdir);
+      return git.getChangedFilesSince(snapshot);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.GIT_APPLY_PATCH, async (_, workdir: string, patch: string) => {
+    const git = getGitService(workdir);
+    await git.applyPatch(patch);
+  });
+
   ipcMain.handle(
     IPC_CHANNELS.GIT_GENERATE_COMMIT_MSG,
     async (
@@ -258,6 +285,8 @@ export function registerGitHandlers(): void {
         reviewId: string;
         sessionId?: string; // Support sessionId for "Continue Conversation"
         prompt?: string; // Custom prompt template
+        mode?: string; // 'markdown' | 'structured'
+        scope?: CodeReviewScope;
         // AI Performance settings from renderer
         bareEnabled?: boolean;
         effortEnabled?: boolean;
@@ -280,6 +309,8 @@ export function registerGitHandlers(): void {
         reviewId: options.reviewId,
         sessionId: options.sessionId, // Pass sessionId for session preservation
         prompt: options.prompt, // Pass custom prompt template
+        mode: options.mode as CodeReviewMode | undefined,
+        scope: options.scope,
         onChunk: (chunk) => {
           if (!sender.isDestroyed()) {
             sender.send(IPC_CHANNELS.GIT_CODE_REVIEW_DATA, {
@@ -289,12 +320,13 @@ export function registerGitHandlers(): void {
             });
           }
         },
-        onComplete: () => {
+        onComplete: (result) => {
           if (!sender.isDestroyed()) {
             sender.send(IPC_CHANNELS.GIT_CODE_REVIEW_DATA, {
               reviewId: options.reviewId,
               type: 'exit',
               exitCode: 0,
+              continuable: result?.continuable ?? true,
             });
           }
         },
@@ -339,6 +371,103 @@ export function registerGitHandlers(): void {
     }
   );
 
+  ipcMain.handle(IPC_CHANNELS.GIT_PR_FOR_BRANCH, async (_, workdir: string, branch: string) => {
+    const git = getGitService(workdir);
+    return git.getPullRequestForBranch(branch);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.GIT_PR_DETAILS, async (_, workdir: string, prNumber: number) => {
+    const git = getGitService(workdir);
+    return git.getPullRequestDetails(prNumber);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.GIT_PR_DIFF, async (_, workdir: string, prNumber: number) => {
+    const git = getGitService(workdir);
+    return git.getPullRequestDiff(prNumber);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_PR_CREATE,
+    async (_, workdir: string, branch: string, options: PullRequestCreateOptions) => {
+      const git = getGitService(workdir);
+      return git.createPullRequest(branch, options);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_PR_REVIEW,
+    async (
+      _,
+      workdir: string,
+      prNumber: number,
+      comments: PullRequestReviewCommentInput[],
+      body?: string
+    ) => {
+      const git = getGitService(workdir);
+      return git.submitPullRequestReview(prNumber, comments, body);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_PR_MERGE,
+    async (_, workdir: string, prNumber: number, method: PullRequestMergeMethod) => {
+      const git = getGitService(workdir);
+      return git.mergePullRequest(prNumber, method);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.GIT_PR_CLOSE, async (_, workdir: string, prNumber: number) => {
+    const git = getGitService(workdir);
+    return git.closePullRequest(prNumber);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.GIT_ISSUE_LIST, async (_, workdir: string) => {
+    const git = getGitService(workdir);
+    return git.listIssues();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_ISSUE_CLOSE,
+    async (_, workdir: string, issueNumber: number, comment?: string) => {
+      const git = getGitService(workdir);
+      return git.closeIssue(issueNumber, comment);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GENERATE_PR_DESCRIPTION,
+    async (
+      _,
+      workdir: string,
+      options: {
+        base: string;
+        maxDiffLines: number;
+        timeout: number;
+        provider: string;
+        model: string;
+        reasoningEffort?: string;
+        bareEnabled?: boolean;
+        effortEnabled?: boolean;
+        effortLevel?: string;
+      }
+    ): Promise<{ success: boolean; title?: string; body?: string; error?: string }> => {
+      const resolved = validateWorkdir(workdir);
+      return generatePullRequestDescription({
+        workdir: resolved,
+        base: options.base,
+        maxDiffLines: options.maxDiffLines,
+        timeout: options.timeout,
+        provider: (options.provider ?? 'claude-code') as AIProvider,
+        model: options.model as ModelId,
+        reasoningEffort: options.reasoningEffort as ReasoningEffort | undefined,
+        bare: options.bareEnabled,
+        claudeEffort: options.effortEnabled
+          ? ((options.effortLevel as ClaudeEffort) ?? 'low')
+          : undefined,
+      });
+    }
+  );
+
   // Git Clone - Validate URL
   ipcMain.handle(
     IPC_CHANNELS.GIT_VALIDATE_URL,
@@ -433,6 +562,48 @@ export function registerGitHandlers(): void {
     }
   );
 
+  // Git Stash
+  ipcMain.handle(IPC_CHANNELS.GIT_STASH_LIST, async (_, workdir: string) => {
+    const git = getGitService(workdir);
+    return git.listStashes();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.GIT_STASH_FILES, async (_, workdir: string, ref: string) => {
+    const git = getGitService(workdir);
+    return git.getStashFiles(ref);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STASH_FILE_DIFF,
+    async (_, workdir: string, ref: string, filePath: string, untracked?: boolean) => {
+      const git = getGitService(workdir);
+      return git.getStashFileDiff(ref, filePath, untracked);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STASH_CREATE,
+    async (_, workdir: string, options?: GitStashCreateOptions) => {
+      const git = getGitService(workdir);
+      await git.createStash(options);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.GIT_STASH_APPLY, async (_, workdir: string, hash: string) => {
+    const git = getGitService(workdir);
+    await git.applyStash(hash);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.GIT_STASH_POP, async (_, workdir: string, hash: string) => {
+    const git = getGitService(workdir);
+    await git.popStash(hash);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.GIT_STASH_DROP, async (_, workdir: string, hash: string) => {
+    const git = getGitService(workdir);
+    await git.dropStash(hash);
+  });
+
   // Git Auto Fetch
   ipcMain.handle(IPC_CHANNELS.GIT_AUTO_FETCH_SET_ENABLED, async (_, enabled: boolean) => {
     gitAutoFetchService.setEnabled(enabled);
@@ -3,7 +3,8 @@ import { disposeClaudeIdeBridge } from '../services/claude/ClaudeIdeBridge';
 import { autoUpdaterService } from '../services/updater/AutoUpdater';
 import { webInspectorServer } from '../services/webInspector';
 import { cleanupExecInPtys, cleanupExecInPtysSync } from '../utils/shell';
-import { registerAgentHandlers } from './agent';
+import { destroyAllAcpSessions, registerAgentHandlers } from './agent';
+import { registerAgentConfigHandlers } from './agentConfig';
 import { registerAppHandlers } from './app';
 import {
   registerClaudeCompletionsHandlers,
@@ -26,10 +27,14 @@ import { autoStartHapi, cleanupHapi, cleanupHapiSync, registerHapiHandlers } fro
 export { autoStartHapi };
 
 import { registerLogHandlers } from './log';
+import { registerLspHandlers, stopAllLanguageServers } from './lsp';
+import { registerMcpInspectorHandlers, stopAllMcpInspectors } from './mcpInspector';
 import { registerNotificationHandlers } from './notification';
 import { registerSearchHandlers } from './search';
+import { registerSecretsHandlers } from './secrets';
 import { registerSettingsHandlers } from './settings';
 import { registerShellHandlers } from './shell';
+import { registerTasksHandlers } from './tasks';
 import { registerTempWorkspaceHandlers } from './tempWorkspace';
 import {
   destroyAllTerminals,
@@ -40,7 +45,11 @@ import { cleanupTmuxSync, registerTmuxHandlers } from './tmux';
 import { cleanupTodo, cleanupTodoSync, registerTodoHandlers } from './todo';
 import { registerUpdaterHandlers } from './updater';
 import { registerWebInspectorHandlers } from './webInspector';
-import { clearAllWorktreeServices, registerWorktreeHandlers } from './worktree';
+import {
+  clearAllWorktreeServices,
+  registerWorktreeHandlers,
+  stopAllWorktreeHooks,
+} from './worktree';
 
 export function registerIpcHandlers(): void {
   registerGitHandlers();
@@ -57,14 +66,19 @@ export function registerIpcHandlers(): void {
   registerNotificationHandlers();
   registerUpdaterHandlers();
   registerSearchHandlers();
+  registerLspHandlers();
   registerHapiHandlers();
   registerClaudeProviderHandlers();
   registerClaudeConfigHandlers();
+  registerAgentConfigHandlers();
+  registerMcpInspectorHandlers();
   registerClaudeCompletionsHandlers();
   registerWebInspectorHandlers();
   registerTempWorkspaceHandlers();
   registerTmuxHandlers();
   registerTodoHandlers();
+  registerTasksHandlers();
+  registerSecretsHandlers();
 }
 
 export async function cleanupAllResources(): Promise<void> {
@@ -118,6 +132,10 @@ export async function cleanupAllResources(): Promise<void> {
   }
   webInspectorServer.stop();
   stopAllCodeReviews();
+  destroyAllAcpSessions();
+  stopAllMcpInspectors();
+  stopAllLanguageServers();
+  stopAllWorktreeHooks();
   clearAllGitServices();
   clearAllWorktreeServices();
   autoUpdaterService.cleanup();
@@ -148,6 +166,18 @@ export function cleanupAllResourcesSync(): void {
   // Kill all PTY sessions immediately (sync)
   destroyAllTerminals();
 
+  // Kill ACP agent processes (sync)
+  destroyAllAcpSessions();
+
+  // Kill MCP servers started by the inspector (sync)
+  stopAllMcpInspectors();
+
+  // Kill language server processes (sync)
+  stopAllLanguageServers();
+
+  // Kill running worktree hook commands (sync)
+  stopAllWorktreeHooks();
+
   // Stop all code review processes (sync)
   stopAllCodeReviews();
 
@@ -0,0 +1,59 @@
+import {
+  IPC_CHANNELS,
+  type LspChangeDocumentParams,
+  type LspCloseDocumentParams,
+  type LspOpenDocumentParams,
+  type LspRequestParams,
+} from '@shared/types';
+import { ipcMain, type WebContents, webContents } from 'electron';
+import { LspManager } from '../services/lsp/LspManager';
+
+const lspManager = new LspManager((ownerIds, event) => {
+  for (const ownerId of ownerIds) {
+    const sender = webContents.fromId(ownerId);
+    if (sender && !sender.isDestroyed()) {
+      sender.send(IPC_CHANNELS.LSP_DIAGNOSTICS, event);
+    }
+  }
+});
+const lspCleanupOwners = new Set<number>();
+
+function ensureLspCleanup(sender: WebContents): void {
+  const ownerId = sender.id;
+  if (lspCleanupOwners.has(ownerId)) {
+    return;
+  }
+
+  lspCleanupOwners.add(ownerId);
+  sender.once('destroyed', () => {
+    lspCleanupOwners.delete(ownerId);
+    lspManager.destroyByOwner(ownerId);
+  });
+}
+
+export function stopAllLanguageServers(): void {
+  lspCleanupOwners.clear();
+  lspManager.destroyAll();
+}
+
+export function registerLspHandlers(): void {
+  ipcMain.handle(
+    IPC_CHANNELS.LSP_OPEN_DOCUMENT,
+    async (event, params: LspOpenDocumentParams): Promise<boolean> => {
+      ensureLspCleanup(event.sender);
+      return lspManager.openDocument(params, event.sender.id);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.LSP_CHANGE_DOCUMENT, async (_, params: LspChangeDocumentParams) => {
+    lspManager.changeDocument(params);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.LSP_CLOSE_DOCUMENT, async (_, params: LspCloseDocumentParams) => {
+    lspManager.closeDocument(params);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.LSP_REQUEST, async (_, params: LspRequestParams) => {
+    return lspManager.request(params);
+  });
+}
@@ -0,0 +1,45 @@
+import { IPC_CHANNELS, type McpServer } from '@shared/types';
+import { ipcMain, type WebContents } from 'electron';
+import { McpInspectorManager } from '../services/mcp/McpInspectorManager';
+
+const inspector = new McpInspectorManager();
+const inspectorCleanupOwners = new Set<number>();
+
+function ensureInspectorCleanup(sender: WebContents): void {
+  const ownerId = sender.id;
+  if (inspectorCleanupOwners.has(ownerId)) {
+    return;
+  }
+
+  inspectorCleanupOwners.add(ownerId);
+  sender.once('destroyed', () => {
+    inspectorCleanupOwners.delete(ownerId);
+    inspector.stopByOwner(ownerId);
+  });
+}
+
+export function stopAllMcpInspectors(): void {
+  inspectorCleanupOwners.clear();
+  inspector.stopAll();
+}
+
+export function registerMcpInspectorHandlers(): void {
+  ipcMain.handle(
+    IPC_CHANNELS.MCP_INSPECTOR_START,
+    async (event, server: McpServer, cwd?: string) => {
+      ensureInspectorCleanup(event.sender);
+      return inspector.start(server, cwd, event.sender.id);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.MCP_INSPECTOR_CALL_TOOL,
+    async (_, sessionId: string, name: string, args: Record<string, unknown>) => {
+      return inspector.callTool(sessionId, name, args);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.MCP_INSPECTOR_STOP, async (_, sessionId: string) => {
+    inspector.stop(sessionId);
+  });
+}
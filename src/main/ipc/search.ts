@@ -13,4 +13,8 @@ export function registerSearchHandlers(): void {
     const results = await searchService.searchContent(params);
     return results;
   });
+
+  ipcMain.handle(IPC_CHANNELS.SEARCH_CONTENT_FILES, async (_, params: ContentSearchParams) => {
+    return searchService.listContentFiles(params);
+  });
 }
@@ -0,0 +1,17 @@
+import { IPC_CHANNELS } from '@shared/types';
+import { ipcMain } from 'electron';
+import { secretVault } from '../services/secrets/SecretVault';
+
+export function registerSecretsHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.SECRETS_STORE, async (_, value: string, ref?: string) => {
+    return secretVault.store(value, ref);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SECRETS_DELETE, async (_, ref: string) => {
+    secretVault.delete(ref);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SECRETS_STATUS, async () => {
+    return secretVault.getStatus();
+  });
+}
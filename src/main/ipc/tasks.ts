@@ -0,0 +1,10 @@
+import { IPC_CHANNELS } from '@shared/types';
+import { ipcMain } from 'electron';
+import { discoverTasks } from '../services/tasks/taskDiscovery';
+import { getShellForCommand, getShellQuoteStyle } from '../utils/shell';
+
+export function registerTasksHandlers(): void {
+  ipcMain.handle(IPC_CHANNELS.TASKS_DISCOVER, async (_, workdir: string) => {
+    return await discoverTasks(workdir, getShellQuoteStyle(getShellForCommand().shell));
+  });
+}
@@ -1,10 +1,20 @@
+import { copyFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { translate } from '@shared/i18n';
 import {
   IPC_CHANNELS,
   type TerminalCreateOptions,
   type TerminalResizeOptions,
 } from '@shared/types';
-import { ipcMain, type WebContents } from 'electron';
+import { BrowserWindow, dialog, ipcMain, type WebContents, webContents } from 'electron';
+import { getCurrentLocale } from '../services/i18n';
 import { PtyManager } from '../services/terminal/PtyManager';
+import {
+  deleteRecording,
+  listRecordings,
+  readRecording,
+  resolveRecordingPath,
+} from '../services/terminal/TerminalRecorder';
 
 export const ptyManager = new PtyManager();
 const terminalCleanupOwners = new Set<number>();
@@ -37,6 +47,13 @@ export async function destroyAllTerminalsAndWait(): Promise<void> {
 }
 
 export function registerTerminalHandlers(): void {
+  ptyManager.setPortsListener((ownerId, event) => {
+    const owner = ownerId !== null ? webContents.fromId(ownerId) : undefined;
+    if (owner && !owner.isDestroyed()) {
+      owner.send(IPC_CHANNELS.TERMINAL_PORTS_CHANGED, event);
+    }
+  });
+
   ipcMain.handle(
     IPC_CHANNELS.TERMINAL_CREATE,
     async (event, options: TerminalCreateOptions = {}) => {
@@ -80,4 +97,46 @@ export function registerTerminalHandlers(): void {
   ipcMain.handle(IPC_CHANNELS.TERMINAL_GET_ACTIVITY, async (_, id: string) => {
     return ptyManager.getProcessActivity(id);
   });
+
+  ipcMain.handle(
+    IPC_CHANNELS.TERMINAL_RECORDING_START,
+    async (_, id: string, workdir: string, title: string) => {
+      return ptyManager.startRecording(id, workdir, title);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.TERMINAL_RECORDING_STOP, async (_, id: string) => {
+    return ptyManager.stopRecording(id);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TERMINAL_RECORDING_LIST, async (_, workdir: string) => {
+    return listRecordings(workdir);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TERMINAL_RECORDING_READ, async (_, filePath: string) => {
+    return readRecording(filePath);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TERMINAL_RECORDING_DELETE, async (_, filePath: string) => {
+    await deleteRecording(filePath);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TERMINAL_RECORDING_EXPORT, async (event, filePath: string) => {
+    const source = resolveRecordingPath(filePath);
+    const window = BrowserWindow.fromWebContents(event.sender) ?? BrowserWindow.getFocusedWindow();
+    const t = (key: string) => translate(getCurrentLocale(), key);
+    const options = {
+      title: t('Export recording'),
+      defaultPath: basename(source),
+      filters: [{ name: 'asciicast', extensions: ['cast'] }],
+    };
+    const result = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return null;
+    }
+    await copyFile(source, result.filePath);
+    return result.filePath;
+  });
 }
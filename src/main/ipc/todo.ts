@@ -1,4 +1,11 @@
-import { IPC_CHANNELS } from '@shared/types';
+import {
+  IPC_CHANNELS,
+  type TodoColumnData,
+  type TodoTaskData,
+  type TodoTaskRunData,
+  type TodoTaskRunUpdates,
+  type TodoTaskUpdates,
+} from '@shared/types';
 import type { ClaudeEffort } from '@shared/types/ai';
 import { ipcMain } from 'electron';
 import type { AIProvider, ModelId, ReasoningEffort } from '../services/ai';
@@ -22,35 +29,19 @@ export function registerTodoHandlers(): void {
     return todoService.getTasks(repoPath);
   });
 
-  ipcMain.handle(
-    IPC_CHANNELS.TODO_ADD_TASK,
-    async (
-      _,
-      repoPath: string,
-      task: {
-        id: string;
-        title: string;
-        description: string;
-        priority: string;
-        status: string;
-        order: number;
-        createdAt: number;
-        updatedAt: number;
-      }
-    ) => {
-      await ensureReady();
-      return todoService.addTask(repoPath, task);
-    }
-  );
+  ipcMain.handle(IPC_CHANNELS.TODO_GET_TASK_BY_WORKTREE, async (_, worktreePath: string) => {
+    await ensureReady();
+    return todoService.getTaskByWorktree(worktreePath);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TODO_ADD_TASK, async (_, repoPath: string, task: TodoTaskData) => {
+    await ensureReady();
+    return todoService.addTask(repoPath, task);
+  });
 
   ipcMain.handle(
     IPC_CHANNELS.TODO_UPDATE_TASK,
-    async (
-      _,
-      repoPath: string,
-      taskId: string,
-      updates: { title?: string; description?: string; priority?: string; status?: string }
-    ) => {
+    async (_, repoPath: string, taskId: string, updates: TodoTaskUpdates) => {
       await ensureReady();
       return todoService.updateTask(repoPath, taskId, updates);
     }
@@ -77,6 +68,56 @@ export function registerTodoHandlers(): void {
     }
   );
 
+  ipcMain.handle(IPC_CHANNELS.TODO_GET_COLUMNS, async (_, repoPath: string) => {
+    await ensureReady();
+    return todoService.getColumns(repoPath);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.TODO_ADD_COLUMN,
+    async (_, repoPath: string, column: TodoColumnData) => {
+      await ensureReady();
+      return todoService.addColumn(repoPath, column);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.TODO_UPDATE_COLUMN,
+    async (_, repoPath: string, columnId: string, updates: { title?: string; order?: number }) => {
+      await ensureReady();
+      return todoService.updateColumn(repoPath, columnId, updates);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.TODO_DELETE_COLUMN,
+    async (_, repoPath: string, columnId: string, fallbackStatus: string) => {
+      await ensureReady();
+      return todoService.deleteColumn(repoPath, columnId, fallbackStatus);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.TODO_GET_TASK_RUNS, async (_, repoPath: string, taskId: string) => {
+    await ensureReady();
+    return todoService.getTaskRuns(repoPath, taskId);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.TODO_ADD_TASK_RUN,
+    async (_, repoPath: string, run: TodoTaskRunData) => {
+      await ensureReady();
+      return todoService.addTaskRun(repoPath, run);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.TODO_UPDATE_TASK_RUN,
+    async (_, repoPath: string, runId: string, updates: TodoTaskRunUpdates) => {
+      await ensureReady();
+      return todoService.updateTaskRun(repoPath, runId, updates);
+    }
+  );
+
   ipcMain.handle(IPC_CHANNELS.TODO_MIGRATE, async (_, boardsJson: string) => {
     await ensureReady();
     return todoService.migrateFromLocalStorage(boardsJson);
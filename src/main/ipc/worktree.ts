@@ -1,20 +1,44 @@
 import {
   type ConflictResolution,
   IPC_CHANNELS,
+  type WorktreeCherryPickOptions,
   type WorktreeCreateOptions,
+  type WorktreeHookName,
+  type WorktreeHookRun,
   type WorktreeMergeCleanupOptions,
   type WorktreeMergeOptions,
+  type WorktreeRebaseOptions,
   type WorktreeRemoveOptions,
+  type WorktreeRemoveResult,
 } from '@shared/types';
-import { ipcMain } from 'electron';
+import { BrowserWindow, ipcMain } from 'electron';
 import { updateClaudeWorkspaceFolders } from '../services/claude/ClaudeIdeBridge';
 import { gitAutoFetchService } from '../services/git/GitAutoFetchService';
+import { readEnsoRepoConfig, WorktreeHookRunner } from '../services/git/WorktreeHookRunner';
+import { WorktreeHookTrust } from '../services/git/WorktreeHookTrust';
 import { WorktreeService } from '../services/git/WorktreeService';
 import { stopWatchersInDirectory } from './files';
 import { ptyManager } from './terminal';
 
 const worktreeServices = new Map<string, WorktreeService>();
 
+const hookRunner = new WorktreeHookRunner((run: WorktreeHookRun) => {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) {
+      window.webContents.send(IPC_CHANNELS.WORKTREE_HOOK_UPDATE, run);
+    }
+  }
+}, new WorktreeHookTrust());
+
+function runHookInBackground(
+  hook: WorktreeHookName,
+  context: Parameters<WorktreeHookRunner['run']>[1]
+): void {
+  hookRunner.run(hook, context).catch((error) => {
+    console.warn(`[worktree] ${hook} hook failed to start:`, error);
+  });
+}
+
 function getWorktreeService(workdir: string): WorktreeService {
   if (!worktreeServices.has(workdir)) {
     worktreeServices.set(workdir, new WorktreeService(workdir));
@@ -30,6 +54,10 @@ export function clearAllWorktreeServices(): void {
   worktreeServices.clear();
 }
 
+export function stopAllWorktreeHooks(): void {
+  hookRunner.stopAll();
+}
+
 export function registerWorktreeHandlers(): void {
   ipcMain.handle(IPC_CHANNELS.WORKTREE_LIST, async (_, workdir: string) => {
     const service = getWorktreeService(workdir);
@@ -49,12 +77,40 @@ export function registerWorktreeHandlers(): void {
     async (_, workdir: string, options: WorktreeCreateOptions) => {
       const service = getWorktreeService(workdir);
       await service.add(options);
+      // Not awaited: the worktree is usable (but not ready) while post-create runs
+      runHookInBackground('post-create', {
+        repoPath: workdir,
+        worktreePath: options.path,
+        branch: options.newBranch || options.branch,
+      });
     }
   );
 
   ipcMain.handle(
     IPC_CHANNELS.WORKTREE_REMOVE,
-    async (_, workdir: string, options: WorktreeRemoveOptions) => {
+    async (_, workdir: string, options: WorktreeRemoveOptions): Promise<WorktreeRemoveResult> => {
+      const result: WorktreeRemoveResult = {};
+      const preRemove = await hookRunner.run('pre-remove', {
+        repoPath: workdir,
+        worktreePath: options.path,
+        branch: options.branch,
+      });
+      if (preRemove && preRemove.status !== 'success') {
+        // An invalid or unapproved config never ran anything; only failed commands keep the worktree
+        const commandsFailed =
+          preRemove.status === 'timeout' ||
+          (preRemove.status === 'failed' && preRemove.exitCode !== null);
+        const reason = `pre-remove hook failed: ${preRemove.error ?? preRemove.status}`;
+        if (!commandsFailed) {
+          result.hookWarning = `pre-remove hook skipped: ${preRemove.error ?? preRemove.status}`;
+          console.warn(`[worktree] ${result.hookWarning}`);
+        } else if (!options.ignoreHookFailure) {
+          throw new Error(reason);
+        } else {
+          console.warn(`[worktree] ${reason}; removing ${options.path} anyway`);
+        }
+      }
+
       // Stop all resources using the worktree directory before removal
       await stopWatchersInDirectory(options.path);
       ptyManager.destroyByWorkdir(options.path);
@@ -67,6 +123,8 @@ export function registerWorktreeHandlers(): void {
 
       const service = getWorktreeService(workdir);
       await service.remove(options);
+      hookRunner.clearWorktree(options.path);
+      return result;
     }
   );
 
@@ -74,12 +132,55 @@ export function registerWorktreeHandlers(): void {
     updateClaudeWorkspaceFolders(worktreePaths);
   });
 
+  ipcMain.handle(IPC_CHANNELS.WORKTREE_HOOK_CONFIG, async (_, repoPath: string) => {
+    return readEnsoRepoConfig(repoPath);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.WORKTREE_HOOK_APPROVE,
+    async (
+      _,
+      repoPath: string,
+      worktreePath: string,
+      hook: WorktreeHookName,
+      branch?: string | null
+    ) => {
+      return hookRunner.approveAndRun(hook, { repoPath, worktreePath, branch });
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.WORKTREE_HOOK_RUNS, async () => {
+    return hookRunner.getRuns();
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.WORKTREE_HOOK_RUN,
+    async (
+      _,
+      repoPath: string,
+      worktreePath: string,
+      hook: WorktreeHookName,
+      branch?: string | null
+    ) => {
+      return hookRunner.run(hook, { repoPath, worktreePath, branch });
+    }
+  );
+
   // Merge handlers
   ipcMain.handle(
     IPC_CHANNELS.WORKTREE_MERGE,
     async (_, workdir: string, options: WorktreeMergeOptions) => {
       const service = getWorktreeService(workdir);
-      return service.merge(options);
+      const result = await service.merge(options);
+      if (result.success && result.merged) {
+        // The merge lands in the main worktree, run the hook there
+        runHookInBackground('post-merge', {
+          repoPath: workdir,
+          worktreePath: options.worktreePath,
+          cwd: await service.getMainWorktreePath(),
+        });
+      }
+      return result;
     }
   );
 
@@ -118,7 +219,55 @@ export function registerWorktreeHandlers(): void {
     IPC_CHANNELS.WORKTREE_MERGE_CONTINUE,
     async (_, workdir: string, message?: string, cleanupOptions?: WorktreeMergeCleanupOptions) => {
       const service = getWorktreeService(workdir);
-      return service.continueMerge(workdir, message, cleanupOptions);
+      const result = await service.continueMerge(workdir, message, cleanupOptions);
+      if (result.success && result.merged && cleanupOptions?.worktreePath) {
+        runHookInBackground('post-merge', {
+          repoPath: workdir,
+          worktreePath: cleanupOptions.worktreePath,
+          cwd: workdir,
+        });
+      }
+      return result;
     }
   );
+
+  // Interactive rebase handlers
+  ipcMain.handle(
+    IPC_CHANNELS.WORKTREE_REBASE_COMMITS,
+    async (_, workdir: string, worktreePath: string, targetBranch: string) => {
+      const service = getWorktreeService(workdir);
+      return service.getRebaseCommits(worktreePath, targetBranch);
+    }
+  );
+
+  ipcMain.handle(
+    IPC_CHANNELS.WORKTREE_REBASE_START,
+    async (_, workdir: string, options: WorktreeRebaseOptions) => {
+      const service = getWorktreeService(workdir);
+      return service.startRebase(options);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.WORKTREE_REBASE_CONTINUE, async (_, workdir: string) => {
+    const service = getWorktreeService(workdir);
+    return service.continueRebase(workdir);
+  });
+
+  ipcMain.handle(
+    IPC_CHANNELS.WORKTREE_CHERRY_PICK,
+    async (_, workdir: string, options: WorktreeCherryPickOptions) => {
+      const service = getWorktreeService(workdir);
+      return service.cherryPick(options);
+    }
+  );
+
+  ipcMain.handle(IPC_CHANNELS.WORKTREE_CHERRY_PICK_STATE, async (_, workdir: string) => {
+    const service = getWorktreeService(workdir);
+    return service.getCherryPickState(workdir);
+  });
+
+  ipcMain.handle(IPC_CHANNELS.WORKTREE_CHERRY_PICK_CONTINUE, async (_, workdir: string) => {
+    const service = getWorktreeService(workdir);
+    return service.continueCherryPick(workdir);
+  });
 }
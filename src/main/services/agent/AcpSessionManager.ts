@@ -0,0 +1,357 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { Readable, Writable } from 'node:stream';
+import * as acp from '@agentclientprotocol/sdk';
+import type {
+  AcpSessionCreateOptions,
+  AcpSessionEvent,
+  AgentMessage,
+  ToolCall,
+} from '@shared/types';
+import { killProcessTree } from '../../utils/processUtils';
+import {
+  buildShellCommand,
+  getEnvForCommand,
+  getShellForCommand,
+  getShellQuoteStyle,
+} from '../../utils/shell';
+import type { AgentRegistry } from './AgentRegistry';
+
+type AcpEventListener = (event: AcpSessionEvent) => void;
+
+interface AcpSession {
+  proc: ChildProcess;
+  connection: acp.ClientSideConnection;
+  ownerId?: number;
+  // Session ID assigned by the agent (set once newSession resolves)
+  acpSessionId: string | null;
+  messages: AgentMessage[];
+  // Assistant message receiving updates for the running prompt turn
+  reply: AgentMessage | null;
+  pendingPermissions: Map<string, (response: acp.RequestPermissionResponse) => void>;
+  stderrTail: string;
+  closed: boolean;
+  onEvent: AcpEventListener;
+}
+
+const TOOL_STATUS: Record<acp.ToolCallStatus, ToolCall['status']> = {
+  pending: 'pending',
+  in_progress: 'running',
+  completed: 'completed',
+  failed: 'failed',
+};
+
+const STDERR_TAIL_LENGTH = 2000;
+// Agents that never answer initialize/newSession are killed after this long
+const INITIALIZE_TIMEOUT_MS = 60000;
+
+function contentToText(content: acp.ToolCallContent[] | null | undefined): string | undefined {
+  if (!content?.length) return undefined;
+  const parts = content.map((item) => {
+    switch (item.type) {
+      case 'content':
+        return item.content.type === 'text' ? item.content.text : `[${item.content.type}]`;
+      case 'diff':
+        return `Edit ${item.path}`;
+      default:
+        return `[terminal ${item.terminalId}]`;
+    }
+  });
+  return parts.join('\n');
+}
+
+function toToolCall(update: acp.ToolCall | acp.ToolCallUpdate, previous?: ToolCall): ToolCall {
+  return {
+    id: update.toolCallId,
+    name: update.title ?? previous?.name ?? update.toolCallId,
+    status: update.status ? TOOL_STATUS[update.status] : (previous?.status ?? 'pending'),
+    input: update.rawInput ?? previous?.input,
+    output: update.rawOutput ?? contentToText(update.content) ?? previous?.output,
+  };
+}
+
+/**
+ * Runs agents as Agent Client Protocol servers over stdio and turns their
+ * session updates into AgentMessage/ToolCall snapshots for the renderer.
+ */
+export class AcpSessionManager {
+  private sessions = new Map<string, AcpSession>();
+
+  constructor(private registry: AgentRegistry) {}
+
+  create(
+    id: string,
+    options: AcpSessionCreateOptions,
+    onEvent: AcpEventListener,
+    ownerId?: number
+  ): void {
+    this.destroy(id);
+
+    const agent = this.registry.get(options.agentId);
+    const command = options.command ?? agent?.acp?.command;
+    if (!command) {
+      throw new Error(`Agent ${options.agentId} does not support ACP sessions`);
+    }
+    const args = options.args ?? agent?.acp?.args ?? [];
+
+    const { shell, args: shellArgs } = getShellForCommand();
+    const fullCommand = buildShellCommand(command, args, getShellQuoteStyle(shell));
+    const proc = spawn(shell, [...shellArgs, fullCommand], {
+      cwd: options.cwd,
+      env: getEnvForCommand() as NodeJS.ProcessEnv,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    const stream = acp.ndJsonStream(
+      Writable.toWeb(proc.stdin!) as WritableStream<Uint8Array>,
+      Readable.toWeb(proc.stdout!) as ReadableStream<Uint8Array>
+    );
+
+    // Client callbacks only run after the session below is in place
+    const connection = new acp.ClientSideConnection(() => this.createClient(() => session), stream);
+    const session: AcpSession = {
+      proc,
+      connection,
+      ownerId,
+      acpSessionId: null,
+      messages: [],
+      reply: null,
+      pendingPermissions: new Map(),
+      stderrTail: '',
+      closed: false,
+      onEvent,
+    };
+    this.sessions.set(id, session);
+
+    proc.stdin?.on('error', (err) => {
+      if ((err as NodeJS.ErrnoException).code !== 'EPIPE') {
+        console.error('[acp] stdin error:', err.message);
+      }
+    });
+    proc.stderr?.on('data', (chunk: Buffer) => {
+      session.stderrTail = (session.stderrTail + chunk.toString()).slice(-STDERR_TAIL_LENGTH);
+    });
+    proc.on('error', (err) => {
+      this.fail(id, session, err.message);
+    });
+    proc.on('exit', (code) => {
+      if (session.closed) return;
+      if (code) {
+        this.fail(id, session, session.stderrTail.trim() || `Agent exited with code ${code}`);
+      } else {
+        this.close(id, session);
+        onEvent({ type: 'status', status: 'closed' });
+      }
+    });
+
+    onEvent({ type: 'status', status: 'starting' });
+    const initializeTimer = setTimeout(() => {
+      if (session.closed) return;
+      this.fail(id, session, `Agent did not respond within ${INITIALIZE_TIMEOUT_MS / 1000}s`);
+    }, INITIALIZE_TIMEOUT_MS);
+    this.initialize(session, options.cwd)
+      .then(
+        () => {
+          if (!session.closed) onEvent({ type: 'status', status: 'ready' });
+        },
+        (err) => this.fail(id, session, err instanceof Error ? err.message : String(err))
+      )
+      .finally(() => clearTimeout(initializeTimer));
+  }
+
+  async prompt(id: string, text: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session?.acpSessionId) {
+      throw new Error('ACP session is not ready');
+    }
+
+    this.pushMessage(session, { role: 'user', content: text });
+    session.onEvent({ type: 'status', status: 'prompting' });
+    try {
+      const { stopReason } = await session.connection.prompt({
+        sessionId: session.acpSessionId,
+        prompt: [{ type: 'text', text }],
+      });
+      if (session.closed) return;
+      session.onEvent({
+        type: 'status',
+        status: 'ready',
+        error: stopReason === 'refusal' ? 'The agent refused the request' : undefined,
+      });
+    } catch (err) {
+      if (session.closed) return;
+      session.onEvent({
+        type: 'status',
+        status: 'ready',
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      session.reply = null;
+    }
+  }
+
+  async cancel(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session?.acpSessionId) return;
+    this.cancelPermissions(session);
+    await session.connection.cancel({ sessionId: session.acpSessionId });
+  }
+
+  respondPermission(id: string, requestId: string, optionId: string | null): void {
+    const session = this.sessions.get(id);
+    const resolve = session?.pendingPermissions.get(requestId);
+    if (!session || !resolve) return;
+    session.pendingPermissions.delete(requestId);
+    resolve({
+      outcome: optionId ? { outcome: 'selected', optionId } : { outcome: 'cancelled' },
+    });
+    session.onEvent({ type: 'permissionResolved', requestId });
+  }
+
+  destroy(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.close(id, session);
+    killProcessTree(session.proc);
+  }
+
+  destroyByOwner(ownerId: number): void {
+    for (const [id, session] of this.sessions) {
+      if (session.ownerId === ownerId) this.destroy(id);
+    }
+  }
+
+  destroyAll(): void {
+    for (const id of Array.from(this.sessions.keys())) {
+      this.destroy(id);
+    }
+  }
+
+  private async initialize(session: AcpSession, cwd: string): Promise<void> {
+    await session.connection.initialize({
+      protocolVersion: acp.PROTOCOL_VERSION,
+      clientCapabilities: { fs: { readTextFile: false, writeTextFile: false }, terminal: false },
+    });
+    const { sessionId } = await session.connection.newSession({ cwd, mcpServers: [] });
+    session.acpSessionId = sessionId;
+  }
+
+  private createClient(getSession: () => AcpSession): acp.Client {
+    return {
+      sessionUpdate: async ({ update }) => {
+        const session = getSession();
+        switch (update.sessionUpdate) {
+          case 'agent_message_chunk': {
+            const reply = this.ensureReply(session);
+            reply.content +=
+              update.content.type === 'text' ? update.content.text : `[${update.content.type}]`;
+            this.emitMessage(session, reply);
+            break;
+          }
+          case 'tool_call': {
+            const reply = this.ensureReply(session);
+            reply.toolCalls = [...(reply.toolCalls ?? []), toToolCall(update)];
+            this.emitMessage(session, reply);
+            break;
+          }
+          case 'tool_call_update': {
+            const message = this.findToolCallMessage(session, update.toolCallId);
+            if (!message?.toolCalls) break;
+            message.toolCalls = message.toolCalls.map((call) =>
+              call.id === update.toolCallId ? toToolCall(update, call) : call
+            );
+            this.emitMessage(session, message);
+            break;
+          }
+          default:
+            // Thoughts, plans, mode and command updates are not shown
+            break;
+        }
+      },
+
+      requestPermission: (params) =>
+        new Promise((resolve) => {
+          const session = getSession();
+          if (session.closed) {
+            resolve({ outcome: { outcome: 'cancelled' } });
+            return;
+          }
+          const requestId = randomUUID();
+          session.pendingPermissions.set(requestId, resolve);
+          const known = this.findToolCallMessage(session, params.toolCall.toolCallId)?.toolCalls;
+          session.onEvent({
+            type: 'permission',
+            request: {
+              requestId,
+              toolCall: toToolCall(
+                params.toolCall,
+                known?.find((call) => call.id === params.toolCall.toolCallId)
+              ),
+              options: params.options.map(({ optionId, name, kind }) => ({ optionId, name, kind })),
+            },
+          });
+        }),
+    };
+  }
+
+  private ensureReply(session: AcpSession): AgentMessage {
+    if (!session.reply) {
+      session.reply = this.pushMessage(session, { role: 'assistant', content: '' });
+    }
+    return session.reply;
+  }
+
+  private pushMessage(
+    session: AcpSession,
+    message: Pick<AgentMessage, 'role' | 'content'>
+  ): AgentMessage {
+    const entry: AgentMessage = { id: randomUUID(), timestamp: Date.now(), ...message };
+    session.messages.push(entry);
+    this.emitMessage(session, entry);
+    return entry;
+  }
+
+  private findToolCallMessage(session: AcpSession, toolCallId: string): AgentMessage | undefined {
+    for (let i = session.messages.length - 1; i >= 0; i--) {
+      if (session.messages[i].toolCalls?.some((call) => call.id === toolCallId)) {
+        return session.messages[i];
+      }
+    }
+    return undefined;
+  }
+
+  private emitMessage(session: AcpSession, message: AgentMessage): void {
+    if (session.closed) return;
+    session.onEvent({
+      type: 'message',
+      message: { ...message, toolCalls: message.toolCalls && [...message.toolCalls] },
+    });
+  }
+
+  private cancelPermissions(session: AcpSession): void {
+    for (const [requestId, resolve] of session.pendingPermissions) {
+      resolve({ outcome: { outcome: 'cancelled' } });
+      session.onEvent({ type: 'permissionResolved', requestId });
+    }
+    session.pendingPermissions.clear();
+  }
+
+  private fail(id: string, session: AcpSession, error: string): void {
+    if (session.closed) return;
+    this.close(id, session);
+    // A failed handshake leaves the agent running; skip processes that already exited
+    if (session.proc.exitCode === null && session.proc.signalCode === null) {
+      killProcessTree(session.proc);
+    }
+    session.onEvent({ type: 'status', status: 'error', error });
+  }
+
+  private close(id: string, session: AcpSession): void {
+    if (session.closed) return;
+    this.cancelPermissions(session);
+    session.closed = true;
+    if (this.sessions.get(id) === session) {
+      this.sessions.delete(id);
+    }
+  }
+}
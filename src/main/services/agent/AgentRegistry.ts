@@ -7,6 +7,7 @@ export const BUILTIN_AGENTS: AgentMetadata[] = [
     description: 'Anthropic Claude AI Assistant',
     icon: 'claude',
     binary: 'claude',
+    acp: { command: 'claude-code-acp' },
     capabilities: {
       chat: true,
       codeEdit: true,
@@ -21,6 +22,7 @@ export const BUILTIN_AGENTS: AgentMetadata[] = [
     description: 'OpenAI Codex CLI',
     icon: 'codex',
     binary: 'codex',
+    acp: { command: 'codex-acp' },
     capabilities: {
       chat: true,
       codeEdit: true,
@@ -35,6 +37,7 @@ export const BUILTIN_AGENTS: AgentMetadata[] = [
     description: 'Google Gemini CLI',
     icon: 'gemini',
     binary: 'gemini',
+    acp: { command: 'gemini', args: ['--experimental-acp'] },
     capabilities: {
       chat: true,
       codeEdit: true,
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { buildAPIRequest, parseErrorBody, parseStreamEvent, SSEParser } from '../api-stream';
+
+describe('SSEParser', () => {
+  it('parses events split across chunks', () => {
+    const parser = new SSEParser();
+
+    expect(parser.parse('event: content_block_delta\nda')).toEqual([]);
+    expect(parser.parse('ta: {"a":1}\n\ndata: [DONE]\n\n')).toEqual([
+      { event: 'content_block_delta', data: '{"a":1}' },
+      { event: undefined, data: '[DONE]' },
+    ]);
+  });
+
+  it('handles CRLF line endings, comments and multi-line data', () => {
+    const parser = new SSEParser();
+
+    expect(parser.parse(': keep-alive\r\n\r\ndata: a\r\ndata: b\r\n\r\n')).toEqual([
+      { event: undefined, data: 'a\nb' },
+    ]);
+  });
+
+  it('flushes a trailing event without a blank line', () => {
+    const parser = new SSEParser();
+
+    expect(parser.parse('data: last')).toEqual([]);
+    expect(parser.flush()).toEqual([{ event: undefined, data: 'last' }]);
+    expect(parser.flush()).toEqual([]);
+  });
+});
+
+describe('parseStreamEvent', () => {
+  it('extracts OpenAI-compatible deltas', () => {
+    expect(
+      parseStreamEvent('openai-compatible', {
+        data: '{"choices":[{"delta":{"content":"Hi"}}]}',
+      })
+    ).toEqual({ text: 'Hi' });
+    expect(
+      parseStreamEvent('openai-compatible', {
+        data: '{"choices":[{"delta":{"role":"assistant"}}]}',
+      })
+    ).toEqual({});
+    expect(parseStreamEvent('openai-compatible', { data: '[DONE]' })).toEqual({ done: true });
+  });
+
+  it('extracts Anthropic text deltas and skips other events', () => {
+    expect(
+      parseStreamEvent('anthropic-api', {
+        event: 'content_block_delta',
+        data: '{"type":"content_block_delta","index":0,"delta":{"type":"text_delta","text":"Hi"}}',
+      })
+    ).toEqual({ text: 'Hi' });
+    expect(
+      parseStreamEvent('anthropic-api', {
+        data: '{"type":"content_block_delta","delta":{"type":"thinking_delta","thinking":"..."}}',
+      })
+    ).toEqual({});
+    expect(parseStreamEvent('anthropic-api', { data: '{"type":"message_stop"}' })).toEqual({
+      done: true,
+    });
+  });
+
+  it('reports streamed errors', () => {
+    expect(
+      parseStreamEvent('anthropic-api', {
+        data: '{"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}',
+      })
+    ).toEqual({ error: 'Overloaded' });
+    expect(parseStreamEvent('openai-compatible', { data: '{"error":"model not found"}' })).toEqual({
+      error: 'model not found',
+    });
+  });
+});
+
+describe('buildAPIRequest', () => {
+  it('targets chat completions with a bearer key for OpenAI-compatible servers', () => {
+    const request = buildAPIRequest(
+      'openai-compatible',
+      { baseUrl: 'http://localhost:11434/v1/', apiKey: 'sk-1', model: 'llama3' },
+      'hello'
+    );
+
+    expect(request.url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(request.headers.authorization).toBe('Bearer sk-1');
+    expect(JSON.parse(request.body)).toEqual({
+      model: 'llama3',
+      messages: [{ role: 'user', content: 'hello' }],
+      stream: true,
+    });
+  });
+
+  it('omits the authorization header without a key', () => {
+    const request = buildAPIRequest(
+      'openai-compatible',
+      { baseUrl: 'http://localhost:1234/v1', apiKey: '', model: 'qwen' },
+      'hello'
+    );
+
+    expect(request.headers.authorization).toBeUndefined();
+  });
+
+  it('targets the messages endpoint for Anthropic with or without /v1 in the base URL', () => {
+    const config = { baseUrl: 'https://api.anthropic.com', apiKey: 'key', model: 'claude' };
+
+    expect(buildAPIRequest('anthropic-api', config, 'hi').url).toBe(
+      'https://api.anthropic.com/v1/messages'
+    );
+    expect(
+      buildAPIRequest('anthropic-api', { ...config, baseUrl: 'https://proxy.local/v1' }, 'hi').url
+    ).toBe('https://proxy.local/v1/messages');
+
+    const request = buildAPIRequest('anthropic-api', config, 'hi');
+    expect(request.headers['x-api-key']).toBe('key');
+    expect(JSON.parse(request.body)).toMatchObject({ model: 'claude', stream: true });
+  });
+});
+
+describe('parseErrorBody', () => {
+  it('prefers the message of a JSON error body', () => {
+    expect(parseErrorBody(401, '{"error":{"message":"invalid x-api-key"}}')).toBe(
+      'HTTP 401: invalid x-api-key'
+    );
+    expect(parseErrorBody(502, 'Bad Gateway')).toBe('HTTP 502: Bad Gateway');
+    expect(parseErrorBody(500, '')).toBe('HTTP 500');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { chunkDiff, splitDiffByFile } from '../review-diff';
+
+function fileDiff(file: string, body = '+x'): string {
+  return [
+    `diff --git a/${file} b/${file}`,
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    '@@ -1 +1 @@',
+    body,
+  ].join('\n');
+}
+
+describe('splitDiffByFile', () => {
+  it('splits on file headers and keeps the preamble with the first file', () => {
+    const diff = ['Submodule lib 1..2:', fileDiff('a.ts'), fileDiff('dir/b.ts')].join('\n');
+
+    expect(splitDiffByFile(diff)).toEqual([
+      { file: 'a.ts', diff: `Submodule lib 1..2:\n${fileDiff('a.ts')}` },
+      { file: 'dir/b.ts', diff: fileDiff('dir/b.ts') },
+    ]);
+  });
+
+  it('uses the new path for renames', () => {
+    expect(splitDiffByFile('diff --git a/old.ts b/new.ts\nsimilarity index 100%')).toEqual([
+      { file: 'new.ts', diff: 'diff --git a/old.ts b/new.ts\nsimilarity index 100%' },
+    ]);
+  });
+
+  it('returns nothing for an empty diff', () => {
+    expect(splitDiffByFile('')).toEqual([]);
+  });
+});
+
+describe('chunkDiff', () => {
+  it('packs whole files up to the size limit', () => {
+    const diff = [fileDiff('a.ts'), fileDiff('b.ts'), fileDiff('c.ts')].join('\n');
+    const limit = fileDiff('a.ts').length * 2 + 1;
+
+    expect(chunkDiff(diff, limit)).toEqual([
+      { files: ['a.ts', 'b.ts'], diff: `${fileDiff('a.ts')}\n${fileDiff('b.ts')}` },
+      { files: ['c.ts'], diff: fileDiff('c.ts') },
+    ]);
+  });
+
+  it('truncates a file larger than the limit into its own chunk', () => {
+    const big = fileDiff('big.ts', '+'.repeat(200));
+    const chunks = chunkDiff([fileDiff('a.ts'), big, fileDiff('b.ts')].join('\n'), 100);
+
+    expect(chunks.map((c) => c.files)).toEqual([['a.ts'], ['big.ts'], ['b.ts']]);
+    expect(chunks[1].diff).toBe(`${big.slice(0, 100)}\n... (diff truncated)`);
+  });
+});
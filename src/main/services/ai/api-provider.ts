@@ -0,0 +1,115 @@
+import type { AIApiProvider, AIApiProviderConfig } from '@shared/types/ai';
+import { readSettings } from '../../ipc/settings';
+import { secretVault } from '../secrets/SecretVault';
+import { buildAPIRequest, parseErrorBody, parseStreamEvent, SSEParser } from './api-stream';
+import type { ParsedCLIResult } from './providers';
+
+export interface APICompletionOptions {
+  provider: AIApiProvider;
+  prompt: string;
+  timeout?: number; // in seconds
+  onChunk?: (chunk: string) => void;
+}
+
+export interface APICompletionHandle {
+  result: Promise<ParsedCLIResult>;
+  abort: () => void;
+}
+
+/**
+ * Read the endpoint of an HTTP provider from the persisted settings, so the key
+ * never has to travel through IPC with every request.
+ */
+function getAPIProviderConfig(provider: AIApiProvider): AIApiProviderConfig | null {
+  const settings = readSettings();
+  // zustand stores settings under 'enso-settings.state'
+  const zustandState = (settings?.['enso-settings'] as { state?: Record<string, unknown> })?.state;
+  const providers = zustandState?.aiApiProviders as
+    | Partial<Record<AIApiProvider, AIApiProviderConfig>>
+    | undefined;
+  const config = providers?.[provider];
+  if (!config?.baseUrl?.trim() || !config.model?.trim()) return null;
+  return { ...config, apiKey: secretVault.resolve(config.apiKey) };
+}
+
+/**
+ * Stream a completion for a single prompt from an HTTP provider.
+ * Resolves with the full text; chunks are forwarded to onChunk as they arrive.
+ */
+export function requestAPICompletion(options: APICompletionOptions): APICompletionHandle {
+  const { provider, prompt, timeout, onChunk } = options;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const run = async (): Promise<ParsedCLIResult> => {
+    const config = getAPIProviderConfig(provider);
+    if (!config) {
+      return { success: false, error: `${provider} is not configured (base URL and model)` };
+    }
+
+    const request = buildAPIRequest(provider, config, prompt);
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.text().catch(() => '');
+      return { success: false, error: parseErrorBody(response.status, body) };
+    }
+
+    const parser = new SSEParser();
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+    let text = '';
+
+    const handleEvents = (events: ReturnType<SSEParser['parse']>): ParsedCLIResult | null => {
+      for (const event of events) {
+        const parsed = parseStreamEvent(provider, event);
+        if (parsed.error) return { success: false, error: parsed.error };
+        if (parsed.text) {
+          text += parsed.text;
+          onChunk?.(parsed.text);
+        }
+      }
+      return null;
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const failed = handleEvents(parser.parse(decoder.decode(value, { stream: true })));
+      if (failed) {
+        controller.abort();
+        return failed;
+      }
+    }
+    const failed = handleEvents(parser.flush());
+    if (failed) return failed;
+
+    return text ? { success: true, text } : { success: false, error: 'Empty response' };
+  };
+
+  const timer = timeout
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout * 1000)
+    : undefined;
+
+  const result = run()
+    .catch((error): ParsedCLIResult => {
+      if (timedOut) return { success: false, error: 'timeout' };
+      if (controller.signal.aborted) return { success: false, error: 'Aborted' };
+      console.error(`[api-provider] ${provider} request failed:`, error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    })
+    .finally(() => clearTimeout(timer));
+
+  return {
+    result,
+    abort: () => controller.abort(),
+  };
+}
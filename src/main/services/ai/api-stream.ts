@@ -0,0 +1,152 @@
+import type { AIApiProvider, AIApiProviderConfig } from '@shared/types/ai';
+
+// Anthropic requires an explicit output cap
+const ANTHROPIC_MAX_TOKENS = 8192;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+export interface APIRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Build a streaming completion request for a single user prompt.
+ * OpenAI-compatible base URLs include the version (e.g. http://localhost:11434/v1),
+ * Anthropic base URLs may or may not.
+ */
+export function buildAPIRequest(
+  provider: AIApiProvider,
+  config: AIApiProviderConfig,
+  prompt: string
+): APIRequest {
+  const baseUrl = config.baseUrl.trim().replace(/\/+$/, '');
+  const messages = [{ role: 'user', content: prompt }];
+
+  if (provider === 'anthropic-api') {
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      'anthropic-version': ANTHROPIC_VERSION,
+    };
+    if (config.apiKey) headers['x-api-key'] = config.apiKey;
+    return {
+      url: `${baseUrl.replace(/\/v1$/, '')}/v1/messages`,
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        messages,
+        stream: true,
+      }),
+    };
+  }
+
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  // Local servers usually run without a key
+  if (config.apiKey) headers.authorization = `Bearer ${config.apiKey}`;
+  return {
+    url: `${baseUrl}/chat/completions`,
+    headers,
+    body: JSON.stringify({ model: config.model, messages, stream: true }),
+  };
+}
+
+// Server-sent events parser, fed with arbitrary chunks of the response body
+export class SSEParser {
+  private buffer = '';
+
+  parse(data: string): SSEEvent[] {
+    this.buffer += data.replace(/\r\n?/g, '\n');
+    const events: SSEEvent[] = [];
+
+    let boundary = this.buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = this.buffer.slice(0, boundary);
+      this.buffer = this.buffer.slice(boundary + 2);
+
+      const event = parseBlock(block);
+      if (event) events.push(event);
+
+      boundary = this.buffer.indexOf('\n\n');
+    }
+
+    return events;
+  }
+
+  // Some servers close the stream without a trailing blank line
+  flush(): SSEEvent[] {
+    const event = parseBlock(this.buffer);
+    this.buffer = '';
+    return event ? [event] : [];
+  }
+}
+
+function parseBlock(block: string): SSEEvent | null {
+  let event: string | undefined;
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+export interface StreamEventResult {
+  text?: string;
+  error?: string;
+  done?: boolean;
+}
+
+// Extract the text delta (or error) carried by one streamed event
+export function parseStreamEvent(provider: AIApiProvider, event: SSEEvent): StreamEventResult {
+  if (event.data === '[DONE]') return { done: true };
+
+  let obj: Record<string, unknown>;
+  try {
+    obj = JSON.parse(event.data);
+  } catch {
+    return {};
+  }
+
+  const error = obj.error as { message?: string } | string | undefined;
+  if (error) {
+    return { error: typeof error === 'string' ? error : error.message || 'Unknown error' };
+  }
+
+  if (provider === 'anthropic-api') {
+    if (obj.type === 'content_block_delta') {
+      const delta = obj.delta as { type?: string; text?: string } | undefined;
+      return delta?.type === 'text_delta' && delta.text ? { text: delta.text } : {};
+    }
+    return obj.type === 'message_stop' ? { done: true } : {};
+  }
+
+  const choice = (obj.choices as { delta?: { content?: string } }[] | undefined)?.[0];
+  const text = choice?.delta?.content;
+  return text ? { text } : {};
+}
+
+// Best-effort message from a non-2xx response body
+export function parseErrorBody(status: number, body: string): string {
+  try {
+    const obj = JSON.parse(body);
+    const message = typeof obj.error === 'string' ? obj.error : obj.error?.message;
+    if (message) return `HTTP ${status}: ${message}`;
+  } catch {
+    // Not JSON
+  }
+  const text = body.trim().slice(0, 500);
+  return text ? `HTTP ${status}: ${text}` : `HTTP ${status}`;
+}
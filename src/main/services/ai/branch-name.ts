@@ -1,4 +1,5 @@
-import type { CommonAICLIOptions } from '@shared/types/ai';
+import { type CommonAICLIOptions, isAIApiProvider } from '@shared/types/ai';
+import { requestAPICompletion } from './api-provider';
 import { parseCLIOutput, spawnCLI } from './providers';
 
 export interface BranchNameOptions extends CommonAICLIOptions {
@@ -25,6 +26,13 @@ export async function generateBranchName(options: BranchNameOptions): Promise<Br
     timeout = 120,
   } = options;
 
+  if (isAIApiProvider(provider)) {
+    const result = await requestAPICompletion({ provider, prompt, timeout }).result;
+    return result.success && result.text
+      ? { success: true, branchName: result.text.trim() }
+      : { success: false, error: result.error || 'Unknown error' };
+  }
+
   return new Promise((resolve) => {
     const timeoutMs = timeout * 1000;
 
@@ -1,7 +1,13 @@
-import type { ChildProcess } from 'node:child_process';
-import type { CommonAICLIOptions } from '@shared/types/ai';
+import {
+  type CodeReviewMode,
+  type CodeReviewScope,
+  type CommonAICLIOptions,
+  isAIApiProvider,
+} from '@shared/types/ai';
 import { spawnGit } from '../git/runtime';
-import { spawnCLI, stripAnsi } from './providers';
+import { requestAPICompletion } from './api-provider';
+import { type ParsedCLIResult, parseCLIOutput, spawnCLI, stripAnsi } from './providers';
+import { chunkDiff, type DiffChunk } from './review-diff';
 
 export interface CodeReviewOptions extends CommonAICLIOptions {
   workdir: string;
@@ -9,18 +15,31 @@ export interface CodeReviewOptions extends CommonAICLIOptions {
   reviewId: string;
   sessionId?: string; // Support session preservation for "Continue Conversation"
   prompt?: string; // Custom prompt template
+  mode?: CodeReviewMode; // Structured mode uses the built-in JSON prompt
+  scope?: CodeReviewScope; // Defaults to the uncommitted changes of the current branch
   onChunk: (chunk: string) => void;
-  onComplete: () => void;
+  // continuable is false when there is no single session to continue (chunked reviews)
+  onComplete: (result?: { continuable: boolean }) => void;
   onError: (error: string) => void;
 }
 
 interface ActiveReview {
-  proc: ChildProcess;
   kill: () => void;
 }
 
 const activeReviews = new Map<string, ActiveReview>();
 
+// Diffs larger than this are split into per-file chunks that are reviewed in parallel
+const MAX_REVIEW_DIFF_CHARS = 60_000;
+const CHUNK_CONCURRENCY = 3;
+// Per CLI run (a whole small review, or one chunk); a stuck agent would otherwise never finish
+const REVIEW_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Hash of git's empty tree, the base of a range that starts at the root commit
+const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+const DIFF_ARGS = ['--no-pager', 'diff', '--submodule=diff'];
+
 async function runGit(args: string[], cwd: string): Promise<string> {
   return await new Promise((resolve) => {
     let stdout = '';
@@ -64,6 +83,84 @@ async function getDefaultBranch(workdir: string): Promise<string> {
   return 'main';
 }
 
+async function getBranchLog(workdir: string): Promise<string> {
+  const defaultBranch = await getDefaultBranch(workdir);
+  const gitLog = await runGit(
+    ['--no-pager', 'log', `origin/${defaultBranch}..HEAD`, '--oneline'],
+    workdir
+  );
+  return gitLog || (await runGit(['--no-pager', 'log', '-10', '--oneline'], workdir));
+}
+
+async function collectScope(
+  workdir: string,
+  scope: CodeReviewScope
+): Promise<{ gitDiff: string; gitLog: string }> {
+  switch (scope.type) {
+    case 'staged':
+    case 'unstaged': {
+      const args = scope.type === 'staged' ? [...DIFF_ARGS, '--cached'] : DIFF_ARGS;
+      const [gitDiff, gitLog] = await Promise.all([runGit(args, workdir), getBranchLog(workdir)]);
+      return { gitDiff, gitLog };
+    }
+    case 'commit': {
+      const [gitDiff, gitLog] = await Promise.all([
+        runGit(['--no-pager', 'show', '--format=', '--submodule=diff', scope.hash], workdir),
+        runGit(['--no-pager', 'log', '-1', '--oneline', scope.hash], workdir),
+      ]);
+      return { gitDiff, gitLog };
+    }
+    case 'range': {
+      const [from, to] = await Promise.all(
+        [scope.from, scope.to].map((ref) =>
+          runGit(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], workdir)
+        )
+      );
+      // Only a resolvable root commit may fall back to the empty tree
+      if (!from || !to) {
+        throw new Error(`Cannot resolve ${from ? scope.to : scope.from}`);
+      }
+      const parent = await runGit(['rev-parse', '--verify', '--quiet', `${from}^`], workdir);
+      const base = parent || EMPTY_TREE_HASH;
+      const [gitDiff, gitLog] = await Promise.all([
+        runGit([...DIFF_ARGS, base, scope.to], workdir),
+        runGit(
+          ['--no-pager', 'log', '--oneline', parent ? `${parent}..${scope.to}` : scope.to],
+          workdir
+        ),
+      ]);
+      return { gitDiff, gitLog };
+    }
+    case 'branch': {
+      const [gitDiff, gitLog] = await Promise.all([
+        runGit([...DIFF_ARGS, `${scope.base}...HEAD`], workdir),
+        runGit(['--no-pager', 'log', `${scope.base}..HEAD`, '--oneline'], workdir),
+      ]);
+      return { gitDiff, gitLog };
+    }
+    default: {
+      const [gitDiff, gitLog] = await Promise.all([
+        runGit([...DIFF_ARGS, 'HEAD'], workdir),
+        getBranchLog(workdir),
+      ]);
+      return { gitDiff, gitLog };
+    }
+  }
+}
+
+// Refs come from the renderer; one starting with '-' would be parsed as an option
+function hasOptionLikeRef(scope: CodeReviewScope): boolean {
+  const refs =
+    scope.type === 'commit'
+      ? [scope.hash]
+      : scope.type === 'range'
+        ? [scope.from, scope.to]
+        : scope.type === 'branch'
+          ? [scope.base]
+          : [];
+  return refs.some((ref) => !ref || ref.startsWith('-'));
+}
+
 function buildPrompt(
   gitDiff: string,
   gitLog: string,
@@ -135,6 +232,33 @@ ${gitDiff || '(No diff available)'}
 ${gitLog || '(No commit history available)'}`;
 }
 
+function buildStructuredPrompt(gitDiff: string, gitLog: string, language: string): string {
+  return `You are performing a code review on the changes in the current branch. The complete git diff and commit history are included below.
+
+**DO NOT run git diff, git log, git status, or ANY other git commands. DO NOT use any tools.**
+
+Report each issue you find (bugs, edge cases, readability, performance, missing tests) as one finding. Don't be overly pedantic.
+
+Output ONLY a JSON array, no explanation and no markdown fences. Each element has these fields:
+- "file": path of the changed file, relative to the repository root, as shown in the diff
+- "startLine", "endLine": line numbers in the NEW version of the file (use the diff hunk headers)
+- "severity": one of "critical", "major", "minor", "info"
+- "category": short category such as "bug", "security", "performance", "readability", "tests"
+- "title": one-line summary of the issue
+- "suggestion": how to fix it
+- "patch" (optional): a unified diff against the new version of the file that fixes the issue, with "--- a/<file>" and "+++ b/<file>" headers, so it applies with \`git apply\`
+
+Write "title" and "suggestion" in ${language}. Output [] if there are no issues.
+
+## Full Diff
+
+${gitDiff || '(No diff available)'}
+
+## Commit History
+
+${gitLog || '(No commit history available)'}`;
+}
+
 // Stream JSON parser for Claude's stream-json output
 class ClaudeStreamParser {
   private buffer = '';
@@ -307,27 +431,58 @@ export async function startCodeReview(options: CodeReviewOptions): Promise<void>
     language,
     reviewId,
     prompt: customPrompt,
+    mode = 'markdown',
     onChunk,
     onComplete,
     onError,
   } = options;
 
-  const gitDiff = await runGit(['--no-pager', 'diff', 'HEAD', '--submodule=diff'], workdir);
-  const defaultBranch = await getDefaultBranch(workdir);
-  let gitLog = await runGit(
-    ['--no-pager', 'log', `origin/${defaultBranch}..HEAD`, '--oneline'],
-    workdir
-  );
-  if (!gitLog) {
-    gitLog = await runGit(['--no-pager', 'log', '-10', '--oneline'], workdir);
+  const scope: CodeReviewScope = options.scope ?? { type: 'changes' };
+  if (hasOptionLikeRef(scope)) {
+    onError('Invalid review scope');
+    return;
   }
 
-  if (!gitDiff && !gitLog) {
+  let collected: { gitDiff: string; gitLog: string };
+  try {
+    collected = await collectScope(workdir, scope);
+  } catch (error) {
+    onError(error instanceof Error ? error.message : String(error));
+    return;
+  }
+  const { gitDiff, gitLog } = collected;
+
+  // Only the default scope is worth reviewing by its commit log alone
+  if (!gitDiff && (scope.type !== 'changes' || !gitLog)) {
     onError('No changes to review');
     return;
   }
 
-  const prompt = buildPrompt(gitDiff, gitLog, language, customPrompt);
+  if (gitDiff.length > MAX_REVIEW_DIFF_CHARS) {
+    await runChunkedReview(options, chunkDiff(gitDiff, MAX_REVIEW_DIFF_CHARS), gitLog);
+    return;
+  }
+
+  const prompt =
+    mode === 'structured'
+      ? buildStructuredPrompt(gitDiff, gitLog, language)
+      : buildPrompt(gitDiff, gitLog, language, customPrompt);
+
+  // HTTP providers stream deltas directly; there is no session to continue
+  if (isAIApiProvider(provider)) {
+    const request = requestAPICompletion({ provider, prompt, onChunk });
+    const { result, kill } = withReviewTimeout({ result: request.result, kill: request.abort });
+    activeReviews.set(reviewId, { kill });
+
+    const { success, error } = await result;
+    activeReviews.delete(reviewId);
+    if (success) {
+      onComplete();
+    } else {
+      onError(error || 'Unknown error');
+    }
+    return;
+  }
 
   // Use stream-json for Claude, Cursor, and Gemini; json for Codex (doesn't support streaming well)
   const outputFormat = provider === 'codex-cli' ? 'json' : 'stream-json';
@@ -347,7 +502,15 @@ export async function startCodeReview(options: CodeReviewOptions): Promise<void>
     preserveSession: !!options.sessionId, // Preserve session if sessionId is provided
   });
 
-  activeReviews.set(reviewId, { proc, kill });
+  activeReviews.set(reviewId, { kill });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    kill();
+    activeReviews.delete(reviewId);
+    onError(`Timed out after ${REVIEW_TIMEOUT_MS / 60000} minutes`);
+  }, REVIEW_TIMEOUT_MS);
 
   const claudeParser = new ClaudeStreamParser();
   const geminiParser = new GeminiStreamParser();
@@ -377,6 +540,8 @@ export async function startCodeReview(options: CodeReviewOptions): Promise<void>
   });
 
   proc.on('close', (code) => {
+    clearTimeout(timer);
+    if (timedOut) return;
     const review = activeReviews.get(reviewId);
     if (review) {
       // Kill the entire process tree to clean up any child processes (e.g., MCP servers)
@@ -401,6 +566,8 @@ export async function startCodeReview(options: CodeReviewOptions): Promise<void>
   });
 
   proc.on('error', (err) => {
+    clearTimeout(timer);
+    if (timedOut) return;
     const review = activeReviews.get(reviewId);
     if (review) {
       review.kill();
@@ -411,6 +578,189 @@ export async function startCodeReview(options: CodeReviewOptions): Promise<void>
   });
 }
 
+/** Run one review prompt to completion without streaming, killed after REVIEW_TIMEOUT_MS */
+function runReviewPrompt(
+  options: CodeReviewOptions,
+  prompt: string
+): { result: Promise<ParsedCLIResult>; kill: () => void } {
+  return withReviewTimeout(startReviewPrompt(options, prompt));
+}
+
+/** Abort a request that has not settled within REVIEW_TIMEOUT_MS and fail its result */
+function withReviewTimeout({
+  result,
+  kill,
+}: {
+  result: Promise<ParsedCLIResult>;
+  kill: () => void;
+}): { result: Promise<ParsedCLIResult>; kill: () => void } {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<ParsedCLIResult>((resolve) => {
+    timer = setTimeout(() => {
+      kill();
+      resolve({ success: false, error: `Timed out after ${REVIEW_TIMEOUT_MS / 60000} minutes` });
+    }, REVIEW_TIMEOUT_MS);
+  });
+  return {
+    result: Promise.race([result, timeout]).finally(() => clearTimeout(timer)),
+    kill,
+  };
+}
+
+function startReviewPrompt(
+  options: CodeReviewOptions,
+  prompt: string
+): { result: Promise<ParsedCLIResult>; kill: () => void } {
+  const { provider } = options;
+
+  if (isAIApiProvider(provider)) {
+    const { result, abort } = requestAPICompletion({ provider, prompt });
+    return { result, kill: abort };
+  }
+
+  const { proc, kill } = spawnCLI({
+    provider,
+    model: options.model,
+    prompt,
+    cwd: options.workdir,
+    reasoningEffort: options.reasoningEffort,
+    bare: options.bare,
+    claudeEffort: options.claudeEffort,
+    outputFormat: 'json',
+    disallowedTools: ['"Bash(git:*)"', 'Edit'],
+  });
+
+  const result = new Promise<ParsedCLIResult>((resolve) => {
+    let stdout = '';
+    let stderr = '';
+
+    proc.stdout?.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    proc.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      kill();
+      if (code !== 0) {
+        resolve({ success: false, error: stderr.trim() || `Process exited with code ${code}` });
+        return;
+      }
+      resolve(parseCLIOutput(provider, stdout));
+    });
+
+    proc.on('error', (err) => {
+      kill();
+      resolve({ success: false, error: err.message });
+    });
+  });
+
+  return { result, kill };
+}
+
+function formatChunkHeading(chunk: DiffChunk, index: number, total: number): string {
+  const shown = chunk.files.slice(0, 3).map((file) => `\`${file}\``);
+  const more = chunk.files.length > shown.length ? ` +${chunk.files.length - shown.length}` : '';
+  return `## [${index + 1}/${total}] ${shown.join(', ')}${more}`;
+}
+
+function extractFindingsArray(text: string): unknown[] {
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start === -1 || end <= start) return [];
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Review a large diff chunk by chunk, a few chunks at a time. Markdown sections
+ * are streamed in file order as they finish; structured findings are merged
+ * into a single JSON array once every chunk is done. Each chunk runs in its own
+ * session, so the review cannot be continued as one conversation.
+ */
+async function runChunkedReview(
+  options: CodeReviewOptions,
+  chunks: DiffChunk[],
+  gitLog: string
+): Promise<void> {
+  const { language, reviewId, prompt: customPrompt, mode = 'markdown' } = options;
+  const kills = new Set<() => void>();
+  let stopped = false;
+
+  activeReviews.set(reviewId, {
+    kill: () => {
+      stopped = true;
+      for (const kill of kills) {
+        kill();
+      }
+    },
+  });
+
+  const outputs: (ParsedCLIResult | undefined)[] = new Array(chunks.length);
+  let nextChunk = 0;
+  let emitted = 0;
+
+  const emitReady = () => {
+    while (emitted < chunks.length && outputs[emitted]) {
+      const { success, text, error } = outputs[emitted] as ParsedCLIResult;
+      const heading = formatChunkHeading(chunks[emitted], emitted, chunks.length);
+      const body = success ? text?.trim() || '' : `> ${error || 'Unknown error'}`;
+      options.onChunk(`${emitted === 0 ? '' : '\n\n'}${heading}\n\n${body}`);
+      emitted++;
+    }
+  };
+
+  const worker = async () => {
+    while (!stopped && nextChunk < chunks.length) {
+      const index = nextChunk++;
+      const note = `\n\nNote: this diff is part ${index + 1} of ${chunks.length} of a larger change. Review only the files it contains.`;
+      const prompt =
+        (mode === 'structured'
+          ? buildStructuredPrompt(chunks[index].diff, gitLog, language)
+          : buildPrompt(chunks[index].diff, gitLog, language, customPrompt)) + note;
+
+      const { result, kill } = runReviewPrompt(options, prompt);
+      kills.add(kill);
+      outputs[index] = await result;
+      kills.delete(kill);
+
+      if (!outputs[index]?.success) {
+        console.error(`[code-review] Chunk ${index + 1} failed:`, outputs[index]?.error);
+      }
+      if (mode === 'markdown' && !stopped) {
+        emitReady();
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, worker));
+
+  // Stopped by the user; the renderer no longer listens
+  if (stopped) return;
+  activeReviews.delete(reviewId);
+
+  const results = outputs.filter((output): output is ParsedCLIResult => !!output);
+  if (!results.some((output) => output.success)) {
+    options.onError(results.find((output) => output.error)?.error || 'Unknown error');
+    return;
+  }
+
+  if (mode === 'structured') {
+    const findings = results.flatMap((output) =>
+      output.success && output.text ? extractFindingsArray(output.text) : []
+    );
+    options.onChunk(JSON.stringify(findings, null, 2));
+  }
+
+  options.onComplete({ continuable: false });
+}
+
 export function stopCodeReview(reviewId: string): void {
   const review = activeReviews.get(reviewId);
   if (review) {
@@ -1,6 +1,7 @@
 import { execSync } from 'node:child_process';
-import type { CommonAICLIOptions } from '@shared/types/ai';
+import { type CommonAICLIOptions, isAIApiProvider } from '@shared/types/ai';
 import { isWslGitRepository, spawnGit } from '../git/runtime';
+import { requestAPICompletion } from './api-provider';
 import { parseCLIOutput, spawnCLI, stripCodeFence } from './providers';
 
 export interface CommitMessageOptions extends CommonAICLIOptions {
@@ -16,7 +17,7 @@ export interface CommitMessageResult {
   error?: string;
 }
 
-function runGit(args: string[], cwd: string): Promise<string> {
+export function runGit(args: string[], cwd: string): Promise<string> {
   if (!isWslGitRepository(cwd)) {
     try {
       return Promise.resolve(
@@ -113,6 +114,13 @@ ${stagedStat || '(no stats)'}
 变更详情：
 ${truncatedDiff}`;
 
+  if (isAIApiProvider(provider)) {
+    const result = await requestAPICompletion({ provider, prompt, timeout }).result;
+    return result.success && result.text
+      ? { success: true, message: stripCodeFence(result.text) }
+      : { success: false, error: result.error || 'Unknown error' };
+  }
+
   return new Promise((resolve) => {
     const timeoutMs = timeout * 1000;
 
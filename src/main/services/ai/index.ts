@@ -10,6 +10,11 @@ export {
   type CommitMessageResult,
   generateCommitMessage,
 } from './commit-message';
+export {
+  generatePullRequestDescription,
+  type PullRequestDescriptionOptions,
+  type PullRequestDescriptionResult,
+} from './pr-description';
 export type { AIProvider, ModelId, ReasoningEffort } from './providers';
 export {
   polishTodoTask,
@@ -0,0 +1,143 @@
+import { type CommonAICLIOptions, isAIApiProvider } from '@shared/types/ai';
+import { requestAPICompletion } from './api-provider';
+import { runGit } from './commit-message';
+import { parseCLIOutput, spawnCLI, stripCodeFence } from './providers';
+
+export interface PullRequestDescriptionOptions extends CommonAICLIOptions {
+  workdir: string;
+  base: string;
+  maxDiffLines: number;
+  timeout: number;
+}
+
+export interface PullRequestDescriptionResult {
+  success: boolean;
+  title?: string;
+  body?: string;
+  error?: string;
+}
+
+/** First line is the title, the rest is the markdown body */
+function parseDraft(text: string): { title: string; body: string } {
+  const lines = stripCodeFence(text).split('\n');
+  const titleIndex = lines.findIndex((line) => line.trim());
+  const title = (lines[titleIndex] ?? '')
+    .replace(/^#+\s*/, '')
+    .replace(/^(title|标题)\s*[:：]\s*/i, '')
+    .trim();
+  return {
+    title,
+    body: lines
+      .slice(titleIndex + 1)
+      .join('\n')
+      .trim(),
+  };
+}
+
+export async function generatePullRequestDescription(
+  options: PullRequestDescriptionOptions
+): Promise<PullRequestDescriptionResult> {
+  const {
+    workdir,
+    base,
+    maxDiffLines,
+    timeout,
+    provider,
+    model,
+    reasoningEffort,
+    bare,
+    claudeEffort,
+  } = options;
+
+  // Prefer the remote base, the local one may be stale or missing
+  const remoteBase = `origin/${base}`;
+  const hasRemoteBase = !!(await runGit(['rev-parse', '--verify', '--quiet', remoteBase], workdir));
+  const baseRef = hasRemoteBase ? remoteBase : base;
+
+  const [commits, diffStat, diff] = await Promise.all([
+    runGit(['--no-pager', 'log', `${baseRef}..HEAD`, '--format=%s'], workdir),
+    runGit(['--no-pager', 'diff', `${baseRef}...HEAD`, '--stat'], workdir),
+    runGit(['--no-pager', 'diff', `${baseRef}...HEAD`], workdir),
+  ]);
+
+  if (!commits && !diff) {
+    return { success: false, error: `No commits ahead of ${base}` };
+  }
+
+  const truncatedDiff = diff.split('\n').slice(0, maxDiffLines).join('\n') || '(no diff)';
+
+  const prompt = `你无法调用任何工具，我消息里已经包含了所有你需要的信息，无需解释。
+为下面的分支变更撰写一个 Pull Request：第一行是简短的标题，空一行后是 Markdown 格式的描述（变更概要、主要改动点）。
+标题和描述使用与提交信息相同的语言。
+
+提交记录：
+${commits || '(no commits)'}
+
+变更摘要：
+${diffStat || '(no stats)'}
+
+变更详情：
+${truncatedDiff}`;
+
+  if (isAIApiProvider(provider)) {
+    const result = await requestAPICompletion({ provider, prompt, timeout }).result;
+    return result.success && result.text
+      ? { success: true, ...parseDraft(result.text) }
+      : { success: false, error: result.error || 'Unknown error' };
+  }
+
+  return new Promise((resolve) => {
+    const timeoutMs = timeout * 1000;
+
+    const { proc, kill } = spawnCLI({
+      provider,
+      model,
+      prompt,
+      cwd: workdir,
+      reasoningEffort,
+      bare,
+      claudeEffort,
+      outputFormat: 'json',
+    });
+
+    let stdout = '';
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      kill();
+      resolve({ success: false, error: 'timeout' });
+    }, timeoutMs);
+
+    proc.stdout?.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    proc.stderr?.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    proc.on('close', (code) => {
+      clearTimeout(timer);
+
+      if (code !== 0) {
+        console.error(`[pr-description] Exit code: ${code}, stderr: ${stderr}`);
+        resolve({ success: false, error: stderr || `Exit code: ${code}` });
+        return;
+      }
+
+      const result = parseCLIOutput(provider, stdout);
+
+      if (result.success && result.text) {
+        resolve({ success: true, ...parseDraft(result.text) });
+      } else {
+        resolve({ success: false, error: result.error || 'Unknown error' });
+      }
+    });
+
+    proc.on('error', (err) => {
+      clearTimeout(timer);
+      console.error(`[pr-description] Process error:`, err);
+      resolve({ success: false, error: err.message });
+    });
+  });
+}
@@ -0,0 +1,72 @@
+export interface FileDiff {
+  file: string;
+  diff: string;
+}
+
+export interface DiffChunk {
+  files: string[];
+  diff: string;
+}
+
+const FILE_HEADER = /^diff --git a\/(.+?) b\/(.+)$/;
+
+/**
+ * Splits a unified diff into one section per file. Lines before the first
+ * `diff --git` header (e.g. submodule summaries) stay with the first file.
+ */
+export function splitDiffByFile(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let preamble: string[] = [];
+  let current: { file: string; lines: string[] } | null = null;
+
+  for (const line of diff.split('\n')) {
+    const match = line.match(FILE_HEADER);
+    if (match) {
+      if (current) {
+        files.push({ file: current.file, diff: current.lines.join('\n') });
+      }
+      current = { file: match[2], lines: [...preamble, line] };
+      preamble = [];
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  if (current) {
+    files.push({ file: current.file, diff: current.lines.join('\n') });
+  }
+  return files;
+}
+
+/**
+ * Packs per-file diffs into chunks of at most maxChars so each fits in one
+ * review prompt. Files are never split across chunks; a single file larger
+ * than maxChars gets a chunk of its own, truncated to the limit.
+ */
+export function chunkDiff(diff: string, maxChars: number): DiffChunk[] {
+  const chunks: DiffChunk[] = [];
+  let current: DiffChunk | null = null;
+
+  for (const { file, diff: fileDiff } of splitDiffByFile(diff)) {
+    if (fileDiff.length > maxChars) {
+      chunks.push({
+        files: [file],
+        diff: `${fileDiff.slice(0, maxChars)}\n... (diff truncated)`,
+      });
+      current = null;
+      continue;
+    }
+
+    if (current && current.diff.length + fileDiff.length + 1 <= maxChars) {
+      current.files.push(file);
+      current.diff += `\n${fileDiff}`;
+    } else {
+      current = { files: [file], diff: fileDiff };
+      chunks.push(current);
+    }
+  }
+
+  return chunks;
+}
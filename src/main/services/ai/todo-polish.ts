@@ -1,4 +1,5 @@
-import type { CommonAICLIOptions } from '@shared/types/ai';
+import { type CommonAICLIOptions, isAIApiProvider } from '@shared/types/ai';
+import { requestAPICompletion } from './api-provider';
 import { parseCLIOutput, spawnCLI, stripCodeFence } from './providers';
 
 export interface TodoPolishOptions extends CommonAICLIOptions {
@@ -68,6 +69,17 @@ Raw requirement:
   const promptTemplate = customPrompt || defaultPrompt;
   const prompt = promptTemplate.replace(/\{text\}/g, () => text);
 
+  if (isAIApiProvider(provider)) {
+    const result = await requestAPICompletion({ provider, prompt, timeout }).result;
+    if (!result.success || !result.text) {
+      return { success: false, error: result.error || 'Unknown error' };
+    }
+    const parsed = parsePolishOutput(result.text);
+    return parsed
+      ? { success: true, title: parsed.title, description: parsed.description }
+      : { success: false, error: 'Failed to parse AI output as JSON' };
+  }
+
   return new Promise((resolve) => {
     const timeoutMs = timeout * 1000;
 
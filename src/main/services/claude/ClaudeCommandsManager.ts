@@ -0,0 +1,141 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ClaudeCommandRef, ClaudeConfigScope } from '@shared/types';
+import {
+  getClaudeConfigDir,
+  getClaudeConfigDirs,
+  getProjectClaudeDir,
+} from './ClaudeCompletionsManager';
+
+// 命令 / 技能名只允许作为单个路径片段使用
+const NAME_PATTERN = /^[\w.-]+$/;
+
+function isValidName(name: string): boolean {
+  return NAME_PATTERN.test(name) && name !== '.' && name !== '..';
+}
+
+/**
+ * 命令或技能在某个配置目录下的路径
+ * - 命令：`commands/<name>.md`
+ * - 技能：`skills/<name>/SKILL.md`
+ */
+function getPathInDir(configDir: string, ref: Pick<ClaudeCommandRef, 'kind' | 'name'>): string {
+  if (ref.kind === 'skill') {
+    return path.join(configDir, 'skills', ref.name, 'SKILL.md');
+  }
+  return path.join(configDir, 'commands', `${ref.name}.md`);
+}
+
+/**
+ * 获取命令或技能文件路径
+ * 用户级优先返回已存在的文件（~/.claude 或 CLAUDE_CONFIG_DIR），否则落在主配置目录
+ */
+function getCommandPath(ref: ClaudeCommandRef, projectRoot?: string): string | null {
+  if (!isValidName(ref.name)) return null;
+
+  if (ref.scope === 'project') {
+    return projectRoot ? getPathInDir(getProjectClaudeDir(projectRoot), ref) : null;
+  }
+
+  for (const dir of getClaudeConfigDirs()) {
+    const candidate = getPathInDir(dir, ref);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return getPathInDir(getClaudeConfigDir(), ref);
+}
+
+/**
+ * 需要整体移动 / 删除的路径：技能为所在目录，命令为文件本身
+ */
+function getEntryRoot(ref: ClaudeCommandRef, filePath: string): string {
+  return ref.kind === 'skill' ? path.dirname(filePath) : filePath;
+}
+
+/**
+ * 读取命令或技能内容
+ */
+export function readClaudeCommand(ref: ClaudeCommandRef, projectRoot?: string): string | null {
+  try {
+    const filePath = getCommandPath(ref, projectRoot);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return null;
+    }
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    console.error('[ClaudeCommandsManager] Failed to read command:', error);
+    return null;
+  }
+}
+
+/**
+ * 写入命令或技能（不存在时创建）
+ */
+export function writeClaudeCommand(
+  ref: ClaudeCommandRef,
+  content: string,
+  projectRoot?: string
+): boolean {
+  try {
+    const filePath = getCommandPath(ref, projectRoot);
+    if (!filePath) return false;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o755 });
+    fs.writeFileSync(filePath, content, { mode: 0o644 });
+    console.log(`[ClaudeCommandsManager] Wrote ${filePath}`);
+    return true;
+  } catch (error) {
+    console.error('[ClaudeCommandsManager] Failed to write command:', error);
+    return false;
+  }
+}
+
+/**
+ * 删除命令或技能（技能会删除整个目录）
+ */
+export function deleteClaudeCommand(ref: ClaudeCommandRef, projectRoot?: string): boolean {
+  try {
+    const filePath = getCommandPath(ref, projectRoot);
+    if (!filePath || !fs.existsSync(filePath)) return false;
+
+    fs.rmSync(getEntryRoot(ref, filePath), { recursive: true, force: true });
+    return true;
+  } catch (error) {
+    console.error('[ClaudeCommandsManager] Failed to delete command:', error);
+    return false;
+  }
+}
+
+/**
+ * 在用户级与项目级之间移动命令或技能
+ * 目标位置已存在同名项时不覆盖
+ */
+export function moveClaudeCommand(
+  ref: ClaudeCommandRef,
+  toScope: ClaudeConfigScope,
+  projectRoot?: string
+): boolean {
+  if (ref.scope === toScope) return true;
+
+  try {
+    const sourcePath = getCommandPath(ref, projectRoot);
+    const targetPath = getCommandPath({ ...ref, scope: toScope }, projectRoot);
+    if (!sourcePath || !targetPath || !fs.existsSync(sourcePath)) return false;
+
+    const sourceRoot = getEntryRoot(ref, sourcePath);
+    const targetRoot = getEntryRoot(ref, targetPath);
+    if (fs.existsSync(targetRoot)) {
+      console.warn(`[ClaudeCommandsManager] ${targetRoot} already exists`);
+      return false;
+    }
+
+    // 复制后删除，兼容跨磁盘移动
+    fs.mkdirSync(path.dirname(targetRoot), { recursive: true, mode: 0o755 });
+    fs.cpSync(sourceRoot, targetRoot, { recursive: true });
+    fs.rmSync(sourceRoot, { recursive: true, force: true });
+    console.log(`[ClaudeCommandsManager] Moved ${sourceRoot} to ${targetRoot}`);
+    return true;
+  } catch (error) {
+    console.error('[ClaudeCommandsManager] Failed to move command:', error);
+    return false;
+  }
+}
@@ -2,9 +2,13 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { type AsyncSubscription, subscribe } from '@parcel/watcher';
-import type { ClaudeSlashCompletionItem, ClaudeSlashCompletionsSnapshot } from '@shared/types';
+import type {
+  ClaudeCommandEntry,
+  ClaudeSlashCompletionItem,
+  ClaudeSlashCompletionsSnapshot,
+} from '@shared/types';
 
-function getClaudeConfigDir(): string {
+export function getClaudeConfigDir(): string {
   if (process.env.CLAUDE_CONFIG_DIR) {
     return process.env.CLAUDE_CONFIG_DIR;
   }
@@ -20,7 +24,7 @@ type LearnedSlashCacheV1 = {
   items: Record<string, { count: number; lastUsedAt: number }>;
 };
 
-function getClaudeConfigDirs(): string[] {
+export function getClaudeConfigDirs(): string[] {
   const homeDir = path.join(os.homedir(), '.claude');
   const envDir = process.env.CLAUDE_CONFIG_DIR;
 
@@ -45,6 +49,13 @@ function getClaudeSkillsDirs(): string[] {
   return getClaudeConfigDirs().map((d) => path.join(d, 'skills'));
 }
 
+/**
+ * Project-level config dir (`<project>/.claude`)
+ */
+export function getProjectClaudeDir(projectRoot: string): string {
+  return path.join(projectRoot, '.claude');
+}
+
 function getLearnedCacheFilePath(): string {
   // The learned cache follows CLAUDE_CONFIG_DIR (if set); otherwise it defaults to ~/.claude.
   return path.join(getPrimaryClaudeConfigDir(), 'cache', 'ensoai-slash-learned.json');
@@ -231,10 +242,15 @@ async function loadLearnedCommands(): Promise<ClaudeSlashCompletionItem[]> {
   return items;
 }
 
-async function loadUserCommands(): Promise<ClaudeSlashCompletionItem[]> {
+type CustomSource = 'user' | 'project';
+
+async function loadCommands(
+  dirs: string[],
+  source: CustomSource
+): Promise<ClaudeSlashCompletionItem[]> {
   const items: ClaudeSlashCompletionItem[] = [];
 
-  for (const dir of getClaudeCommandsDirs()) {
+  for (const dir of dirs) {
     if (!fs.existsSync(dir)) continue;
 
     let entries: fs.Dirent[];
@@ -258,7 +274,8 @@ async function loadUserCommands(): Promise<ClaudeSlashCompletionItem[]> {
         label: `/${commandName}`,
         insertText: `/${commandName} `,
         description: heading ?? undefined,
-        source: 'user',
+        source,
+        filePath,
       });
     }
   }
@@ -291,9 +308,12 @@ async function walkDirForSkillFiles(root: string): Promise<string[]> {
   return result;
 }
 
-async function loadUserSkills(): Promise<ClaudeSlashCompletionItem[]> {
+async function loadSkills(
+  dirs: string[],
+  source: CustomSource
+): Promise<ClaudeSlashCompletionItem[]> {
   const items: ClaudeSlashCompletionItem[] = [];
-  for (const dir of getClaudeSkillsDirs()) {
+  for (const dir of dirs) {
     if (!fs.existsSync(dir)) continue;
 
     const skillFiles = await walkDirForSkillFiles(dir);
@@ -311,7 +331,8 @@ async function loadUserSkills(): Promise<ClaudeSlashCompletionItem[]> {
         label: `/${name}`,
         insertText: `/${name} `,
         description,
-        source: 'user',
+        source,
+        filePath,
       });
     }
   }
@@ -367,7 +388,10 @@ function loadBuiltinCommands(): ClaudeSlashCompletionItem[] {
 async function buildSnapshot(): Promise<ClaudeSlashCompletionsSnapshot> {
   const learned = await loadLearnedCommands();
   const builtin = loadBuiltinCommands();
-  const [commands, skills] = await Promise.all([loadUserCommands(), loadUserSkills()]);
+  const [commands, skills] = await Promise.all([
+    loadCommands(getClaudeCommandsDirs(), 'user'),
+    loadSkills(getClaudeSkillsDirs(), 'user'),
+  ]);
   const dedup = new Map<string, ClaudeSlashCompletionItem>();
   // Let user-defined items override built-ins (same label: last write wins).
   // Learned items have the lowest priority; they are only used as a fallback for discovery.
@@ -448,9 +472,58 @@ export async function stopClaudeSlashCompletionsWatcher(): Promise<void> {
   starting = null;
 }
 
-export async function getClaudeSlashCompletionsSnapshot(): Promise<ClaudeSlashCompletionsSnapshot> {
+async function loadProjectItems(projectRoot: string): Promise<ClaudeSlashCompletionItem[]> {
+  const claudeDir = getProjectClaudeDir(projectRoot);
+  const [commands, skills] = await Promise.all([
+    loadCommands([path.join(claudeDir, 'commands')], 'project'),
+    loadSkills([path.join(claudeDir, 'skills')], 'project'),
+  ]);
+  return [...commands, ...skills];
+}
+
+/**
+ * Get completion items; with a project root, that project's commands and skills are read
+ * on demand (not watched) and override user items with the same label.
+ */
+export async function getClaudeSlashCompletionsSnapshot(
+  projectRoot?: string
+): Promise<ClaudeSlashCompletionsSnapshot> {
   await ensureStarted();
-  return snapshot;
+  if (!projectRoot) return snapshot;
+
+  const dedup = new Map<string, ClaudeSlashCompletionItem>();
+  for (const item of [...snapshot.items, ...(await loadProjectItems(projectRoot))]) {
+    dedup.set(item.label, item);
+  }
+  return { items: Array.from(dedup.values()), updatedAt: snapshot.updatedAt };
+}
+
+/**
+ * List user-level (and project-level, when a project root is given) commands and skills
+ */
+export async function listClaudeCommands(projectRoot?: string): Promise<ClaudeCommandEntry[]> {
+  const [commands, skills, projectItems] = await Promise.all([
+    loadCommands(getClaudeCommandsDirs(), 'user'),
+    loadSkills(getClaudeSkillsDirs(), 'user'),
+    projectRoot ? loadProjectItems(projectRoot) : Promise.resolve([]),
+  ]);
+
+  return [...commands, ...skills, ...projectItems].flatMap((item) => {
+    if (!item.filePath || item.source === 'builtin' || item.source === 'learned') return [];
+    const name =
+      item.kind === 'skill'
+        ? path.basename(path.dirname(item.filePath))
+        : path.basename(item.filePath, path.extname(item.filePath));
+    return [
+      {
+        kind: item.kind,
+        name,
+        scope: item.source,
+        filePath: item.filePath,
+        description: item.description,
+      },
+    ];
+  });
 }
 
 export async function refreshClaudeSlashCompletions(): Promise<ClaudeSlashCompletionsSnapshot> {
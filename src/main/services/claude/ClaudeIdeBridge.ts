@@ -3,7 +3,14 @@ import * as fs from 'node:fs';
 import * as http from 'node:http';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import { IPC_CHANNELS } from '@shared/types';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import {
+  type IdeDiffDecision,
+  type IdeToolName,
+  type IdeToolRequest,
+  type IdeToolResponse,
+  IPC_CHANNELS,
+} from '@shared/types';
 import { BrowserWindow, ipcMain } from 'electron';
 import { type RawData, type WebSocket, WebSocketServer } from 'ws';
 import {
@@ -18,7 +25,7 @@ import {
   removeStatusLineHook,
   removeStopHook,
 } from './ClaudeHookManager';
-import { MCP_TOOLS } from './mcpTools';
+import { errorResult, jsonResult, MCP_TOOLS, type McpToolResult, textResult } from './mcpTools';
 import { checkTaskCompletion, readLastAssistantMessages } from './sessionLogReader';
 
 interface LockFilePayload {
@@ -65,6 +72,27 @@ interface ClientConnection {
   workspace: string | null; // null means not yet identified
 }
 
+// Tool call forwarded to the renderer, settled by MCP_TOOL_RESPONSE
+interface PendingToolCall {
+  ws: WebSocket;
+  webContents: Electron.WebContents;
+  tool: IdeToolName;
+  args: Record<string, unknown>;
+  timer: NodeJS.Timeout | null;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+type CallTool = (
+  ws: WebSocket,
+  name: string,
+  args: Record<string, unknown>
+) => Promise<McpToolResult>;
+
+// Renderer tools answer quickly; openDiff waits for the user and has no timeout,
+// it ends with the client connection or the renderer that shows the review
+const TOOL_CALL_TIMEOUT_MS = 10_000;
+
 interface ClaudeIdeBridgeInstance {
   port: number;
   authToken: string;
@@ -135,7 +163,7 @@ function safeJsonParse(s: string): JsonRpcRequest | null {
   }
 }
 
-function createJsonRpcHandler({ ideName }: { ideName: string }) {
+function createJsonRpcHandler({ ideName, callTool }: { ideName: string; callTool: CallTool }) {
   let initialized = false;
 
   function reply(ws: WebSocket, id: number | string, result: unknown): void {
@@ -198,7 +226,15 @@ function createJsonRpcHandler({ ideName }: { ideName: string }) {
 
     if (method === 'tools/call') {
       const toolName = params?.name as string | undefined;
-      return error(ws, id, -32601, `Tool not found: ${toolName}`);
+      if (!toolName || !MCP_TOOLS.some((tool) => tool.name === toolName)) {
+        return error(ws, id, -32601, `Tool not found: ${toolName}`);
+      }
+      const args = (params?.arguments as Record<string, unknown> | undefined) ?? {};
+      try {
+        return reply(ws, id, await callTool(ws, toolName, args));
+      } catch (err) {
+        return reply(ws, id, errorResult(err instanceof Error ? err.message : String(err)));
+      }
     }
 
     return error(ws, id, -32601, `Method not found: ${method}`);
@@ -321,11 +357,13 @@ export async function startClaudeIdeBridge(
 
               // Check for task completion marker in session log (async)
               let taskCompletionStatus: 'completed' | 'unknown' = 'unknown';
+              let lastAssistantMessage: string | undefined;
 
               if (data.cwd) {
                 try {
                   const lastMessages = await readLastAssistantMessages(data.cwd, sessionId, 3);
                   if (lastMessages.length > 0) {
+                    lastAssistantMessage = lastMessages[lastMessages.length - 1];
                     const result = checkTaskCompletion(lastMessages);
                     if (result.completed) {
                       taskCompletionStatus = 'completed';
@@ -346,6 +384,7 @@ export async function startClaudeIdeBridge(
                     sessionId,
                     cwd: data.cwd,
                     taskCompletionStatus,
+                    lastAssistantMessage,
                   });
                 }
               }
@@ -424,12 +463,175 @@ export async function startClaudeIdeBridge(
   });
   const wss = new WebSocketServer({ server: httpServer });
 
-  const jsonRpcHandler = createJsonRpcHandler({ ideName });
-
   // Map of client connections, keyed by unique client ID
   const clients = new Map<string, ClientConnection>();
   let clientIdCounter = 0;
 
+  const pendingToolCalls = new Map<string, PendingToolCall>();
+  // Renderers whose reload or destruction already cancels their pending calls
+  const watchedWebContents = new WeakSet<Electron.WebContents>();
+
+  // The renderer keeps its review queue in memory only, so a reload loses it
+  function watchWebContents(webContents: Electron.WebContents): void {
+    if (watchedWebContents.has(webContents)) return;
+    watchedWebContents.add(webContents);
+    const cancel = () => cancelToolCalls((pending) => pending.webContents === webContents);
+    webContents.on('did-start-navigation', (details) => {
+      if (details.isMainFrame && !details.isSameDocument) cancel();
+    });
+    webContents.on('render-process-gone', cancel);
+    webContents.once('destroyed', cancel);
+  }
+
+  // Forward a tool call to the renderer and wait for its response
+  function requestRenderer(
+    ws: WebSocket,
+    tool: IdeToolName,
+    args: Record<string, unknown>,
+    timeoutMs: number | null = TOOL_CALL_TIMEOUT_MS
+  ): Promise<unknown> {
+    const window =
+      BrowserWindow.getFocusedWindow() ??
+      BrowserWindow.getAllWindows().find((w) => !w.isDestroyed());
+    if (!window) {
+      return Promise.reject(new Error('No EnsoAI window is open'));
+    }
+
+    const requestId = crypto.randomUUID();
+    return new Promise((resolve, reject) => {
+      const timer =
+        timeoutMs === null
+          ? null
+          : setTimeout(() => {
+              pendingToolCalls.delete(requestId);
+              reject(new Error(`${tool} timed out`));
+            }, timeoutMs);
+      const { webContents } = window;
+      watchWebContents(webContents);
+      pendingToolCalls.set(requestId, { ws, webContents, tool, args, timer, resolve, reject });
+      const request: IdeToolRequest = { requestId, tool, args };
+      webContents.send(IPC_CHANNELS.MCP_TOOL_REQUEST, request);
+    });
+  }
+
+  const onToolResponse = (_: Electron.IpcMainEvent, response: IdeToolResponse) => {
+    const pending = pendingToolCalls.get(response.requestId);
+    if (!pending) return;
+    pendingToolCalls.delete(response.requestId);
+    if (pending.timer) clearTimeout(pending.timer);
+    if (response.error) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.result);
+    }
+  };
+
+  // Reject pending calls (the matching ones, or all) and let the renderer close their UI
+  function cancelToolCalls(match?: (pending: PendingToolCall) => boolean): number {
+    let cancelled = 0;
+    for (const [requestId, pending] of pendingToolCalls) {
+      if (match && !match(pending)) continue;
+      cancelled++;
+      pendingToolCalls.delete(requestId);
+      if (pending.timer) clearTimeout(pending.timer);
+      pending.reject(new Error('Cancelled'));
+      for (const window of BrowserWindow.getAllWindows()) {
+        if (!window.isDestroyed()) {
+          window.webContents.send(IPC_CHANNELS.MCP_TOOL_CANCEL, requestId);
+        }
+      }
+    }
+    return cancelled;
+  }
+
+  // Pending reviews opened by one client, optionally only those of one tab
+  function isDiffReview(ws: WebSocket, tabName?: string) {
+    return (pending: PendingToolCall) =>
+      pending.ws === ws &&
+      pending.tool === 'openDiff' &&
+      (tabName === undefined || pending.args.tabName === tabName);
+  }
+
+  // Resolve tool path arguments (plain or file:// URI) against the client's workspace
+  function resolveToolPath(ws: WebSocket, value: unknown): string {
+    if (typeof value !== 'string' || !value) {
+      throw new Error('Missing file path');
+    }
+    const filePath = value.startsWith('file://') ? fileURLToPath(value) : value;
+    if (path.isAbsolute(filePath)) {
+      return filePath;
+    }
+    const client = [...clients.values()].find((c) => c.ws === ws);
+    const base = client?.workspace ?? currentWorkspaceFolders[0] ?? process.cwd();
+    return path.resolve(base, filePath);
+  }
+
+  const callTool: CallTool = async (ws, name, args) => {
+    switch (name) {
+      case 'getWorkspaceFolders':
+        return jsonResult({
+          success: true,
+          folders: currentWorkspaceFolders.map((folder) => ({
+            name: path.basename(folder),
+            uri: pathToFileURL(folder).href,
+            path: folder,
+          })),
+          rootPath: currentWorkspaceFolders[0] ?? null,
+        });
+
+      case 'openFile': {
+        const filePath = resolveToolPath(ws, args.filePath);
+        await requestRenderer(ws, 'openFile', { ...args, filePath });
+        return textResult(`Opened file: ${filePath}`);
+      }
+
+      case 'openDiff': {
+        const tabName = String(args.tab_name ?? '');
+        const decision = (await requestRenderer(
+          ws,
+          'openDiff',
+          {
+            oldFilePath: resolveToolPath(ws, args.old_file_path),
+            newFilePath: resolveToolPath(ws, args.new_file_path),
+            newContents: String(args.new_file_contents ?? ''),
+            tabName,
+          },
+          null
+        )) as IdeDiffDecision;
+        // Claude Code applies the accepted contents itself
+        return decision.accepted
+          ? textResult('FILE_SAVED', decision.contents)
+          : textResult('DIFF_REJECTED', tabName);
+      }
+
+      // Sent after openDiff settles, or when the CLI abandons a review
+      case 'close_tab':
+        cancelToolCalls(isDiffReview(ws, String(args.tab_name ?? '')));
+        return textResult('TAB_CLOSED');
+
+      case 'closeAllDiffTabs':
+        return textResult(`CLOSED_${cancelToolCalls(isDiffReview(ws))}_DIFF_TABS`);
+
+      case 'getOpenEditors':
+        return jsonResult(await requestRenderer(ws, 'getOpenEditors', {}));
+
+      case 'getDiagnostics': {
+        const filePath = args.uri ? resolveToolPath(ws, args.uri) : undefined;
+        return jsonResult(await requestRenderer(ws, 'getDiagnostics', { filePath }));
+      }
+
+      case 'saveDocument': {
+        const filePath = resolveToolPath(ws, args.filePath);
+        return jsonResult(await requestRenderer(ws, 'saveDocument', { filePath }));
+      }
+
+      default:
+        return errorResult(`Tool not found: ${name}`);
+    }
+  };
+
+  const jsonRpcHandler = createJsonRpcHandler({ ideName, callTool });
+
   // Find matching workspace folder for a file path
   function findWorkspaceForPath(filePath: string): string | null {
     let bestMatch: string | null = null;
@@ -518,6 +720,7 @@ export async function startClaudeIdeBridge(
   };
   ipcMain.on(IPC_CHANNELS.MCP_SELECTION_CHANGED, onSelectionChanged);
   ipcMain.on(IPC_CHANNELS.MCP_AT_MENTIONED, onAtMentioned);
+  ipcMain.on(IPC_CHANNELS.MCP_TOOL_RESPONSE, onToolResponse);
 
   wss.on('connection', (ws, req) => {
     const token = req.headers['x-claude-code-ide-authorization'];
@@ -559,6 +762,7 @@ export async function startClaudeIdeBridge(
 
     ws.on('close', () => {
       clients.delete(clientId);
+      cancelToolCalls((pending) => pending.ws === ws);
     });
   });
 
@@ -621,6 +825,8 @@ export async function startClaudeIdeBridge(
       deleteLockFile(port);
       ipcMain.removeListener(IPC_CHANNELS.MCP_SELECTION_CHANGED, onSelectionChanged);
       ipcMain.removeListener(IPC_CHANNELS.MCP_AT_MENTIONED, onAtMentioned);
+      ipcMain.removeListener(IPC_CHANNELS.MCP_TOOL_RESPONSE, onToolResponse);
+      cancelToolCalls();
       try {
         wss.close();
       } catch {
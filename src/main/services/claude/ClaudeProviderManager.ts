@@ -1,9 +1,16 @@
+import { randomUUID } from 'node:crypto';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import type { ClaudeProvider, ClaudeSettings } from '@shared/types';
+import type { ClaudeProvider, ClaudeSessionSettings, ClaudeSettings } from '@shared/types';
 import { IPC_CHANNELS } from '@shared/types';
-import type { BrowserWindow } from 'electron';
+import {
+  getClaudeProviderEnv,
+  getOverriddenProviderKeys,
+  mergeClaudeSettingsEnv,
+} from '@shared/utils/claudeProvider';
+import { app, type BrowserWindow } from 'electron';
+import { secretVault } from '../secrets/SecretVault';
 
 function getClaudeConfigDir(): string {
   if (process.env.CLAUDE_CONFIG_DIR) {
@@ -16,6 +23,31 @@ function getClaudeSettingsPath(): string {
   return path.join(getClaudeConfigDir(), 'settings.json');
 }
 
+/**
+ * 托管策略 settings 路径，优先级高于命令行 --settings
+ */
+function getManagedSettingsPath(): string {
+  if (process.platform === 'darwin') {
+    return '/Library/Application Support/ClaudeCode/managed-settings.json';
+  }
+  if (process.platform === 'win32') {
+    return 'C:\\Program Files\\ClaudeCode\\managed-settings.json';
+  }
+  return '/etc/claude-code/managed-settings.json';
+}
+
+function readSettingsFile(filePath: string): ClaudeSettings | null {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ClaudeSettings;
+  } catch (error) {
+    console.warn(`[ClaudeProviderManager] Failed to read ${filePath}:`, error);
+    return null;
+  }
+}
+
 let settingsWatcher: fs.FSWatcher | null = null;
 let debounceTimer: NodeJS.Timeout | null = null;
 let maxWaitTimer: NodeJS.Timeout | null = null;
@@ -209,9 +241,11 @@ export function extractProviderFromSettings(): Partial<ClaudeProvider> | null {
     return null;
   }
 
+  const authToken = settings.env.ANTHROPIC_AUTH_TOKEN;
   return {
     baseUrl: settings.env.ANTHROPIC_BASE_URL,
-    authToken: settings.env.ANTHROPIC_AUTH_TOKEN,
+    // Saved providers only hold vault references, match against those
+    authToken: secretVault.findRef(authToken) ?? authToken,
     defaultSonnetModel: settings.env.ANTHROPIC_DEFAULT_SONNET_MODEL,
     defaultOpusModel: settings.env.ANTHROPIC_DEFAULT_OPUS_MODEL,
     defaultHaikuModel: settings.env.ANTHROPIC_DEFAULT_HAIKU_MODEL,
@@ -245,24 +279,7 @@ export function applyProvider(provider: ClaudeProvider): boolean {
     delete existingEnv.ANTHROPIC_DEFAULT_HAIKU_MODEL;
 
     // 构建 Provider env 字段
-    const providerEnv: Record<string, string> = {
-      ANTHROPIC_BASE_URL: provider.baseUrl,
-      ANTHROPIC_AUTH_TOKEN: provider.authToken,
-    };
-
-    // 可选字段
-    if (provider.smallFastModel) {
-      providerEnv.ANTHROPIC_SMALL_FAST_MODEL = provider.smallFastModel;
-    }
-    if (provider.defaultSonnetModel) {
-      providerEnv.ANTHROPIC_DEFAULT_SONNET_MODEL = provider.defaultSonnetModel;
-    }
-    if (provider.defaultOpusModel) {
-      providerEnv.ANTHROPIC_DEFAULT_OPUS_MODEL = provider.defaultOpusModel;
-    }
-    if (provider.defaultHaikuModel) {
-      providerEnv.ANTHROPIC_DEFAULT_HAIKU_MODEL = provider.defaultHaikuModel;
-    }
+    const providerEnv = secretVault.resolveRecord(getClaudeProviderEnv(provider));
 
     // 合并 env（Provider 字段覆盖现有值）
     settings.env = { ...existingEnv, ...providerEnv };
@@ -292,3 +309,73 @@ export function applyProvider(provider: ClaudeProvider): boolean {
     return false;
   }
 }
+
+/**
+ * 会话 settings 文件目录，文件含明文 token，会话结束或应用启动时删除
+ */
+function getSessionSettingsDir(): string {
+  return path.join(app.getPath('userData'), 'claude-providers');
+}
+
+/**
+ * 为绑定了 Provider 的会话写入独立 settings 文件，通过 --settings 传给 Claude Code
+ * 命令行 settings 覆盖 ~/.claude/settings.json 和项目设置中的 env，PTY 环境变量则会被它们覆盖
+ * 写入后按 Claude Code 的优先级合并各层 env，校验会话实际使用的 Provider
+ * 每个会话一个文件，删除时不影响同一 Provider 的其他会话
+ */
+export function writeSessionProviderSettings(
+  provider: ClaudeProvider,
+  cwd?: string
+): ClaudeSessionSettings {
+  const env = secretVault.resolveRecord(getClaudeProviderEnv(provider));
+  const sessionSettings: ClaudeSettings = {
+    env,
+    ...(provider.model && { model: provider.model }),
+  };
+
+  const dir = getSessionSettingsDir();
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const fileName = `${provider.id.replace(/[^\w-]/g, '_')}-${randomUUID()}.json`;
+  const settingsPath = path.join(dir, fileName);
+  fs.writeFileSync(settingsPath, JSON.stringify(sessionSettings, null, 2), { mode: 0o600 });
+
+  // 优先级从低到高：用户、项目、项目本地、命令行、托管策略
+  const effective = mergeClaudeSettingsEnv([
+    readClaudeSettings()?.env,
+    cwd ? readSettingsFile(path.join(cwd, '.claude', 'settings.json'))?.env : undefined,
+    cwd ? readSettingsFile(path.join(cwd, '.claude', 'settings.local.json'))?.env : undefined,
+    readSettingsFile(settingsPath)?.env,
+    readSettingsFile(getManagedSettingsPath())?.env,
+  ]);
+  const overriddenKeys = getOverriddenProviderKeys(env, effective);
+  if (overriddenKeys.length > 0) {
+    console.warn(
+      `[ClaudeProviderManager] Managed settings override ${overriddenKeys.join(', ')} for provider ${provider.name}`
+    );
+  }
+
+  return { settingsPath, overriddenKeys };
+}
+
+/**
+ * 会话退出后删除其 settings 文件，只接受会话 settings 目录中的文件
+ */
+export function deleteSessionProviderSettings(settingsPath: string): void {
+  const resolved = path.resolve(settingsPath);
+  if (path.dirname(resolved) !== getSessionSettingsDir()) {
+    console.warn(`[ClaudeProviderManager] Refusing to delete ${settingsPath}`);
+    return;
+  }
+  fs.rmSync(resolved, { force: true });
+}
+
+/**
+ * 启动时清理上次运行遗留的会话 settings 文件（应用异常退出时未删除）
+ */
+export function cleanupSessionProviderSettings(): void {
+  try {
+    fs.rmSync(getSessionSettingsDir(), { recursive: true, force: true });
+  } catch (error) {
+    console.warn('[ClaudeProviderManager] Failed to clean up session settings:', error);
+  }
+}
@@ -1,17 +1,19 @@
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import type {
-  McpHttpConfig,
-  McpHttpServer,
-  McpServer,
-  McpServerConfig,
-  McpStdioConfig,
-  McpStdioServer,
-} from '@shared/types';
-import { isHttpMcpConfig, isHttpMcpServer, isStdioMcpServer } from '@shared/types';
-
-function getClaudeJsonPath(): string {
+import type { McpHttpServer, McpServer, McpServerConfig, McpStdioServer } from '@shared/types';
+import { isHttpMcpConfig } from '@shared/types';
+import { app } from 'electron';
+import { secretVault } from '../secrets/SecretVault';
+import { buildMcpConfig, restoreSecretRefs, toProjectMcpConfig } from './mcpConfig';
+
+/**
+ * 获取 MCP 配置文件路径：用户级为 ~/.claude.json，项目级为 <project>/.mcp.json
+ */
+function getClaudeJsonPath(projectRoot?: string): string {
+  if (projectRoot) {
+    return path.join(projectRoot, '.mcp.json');
+  }
   return path.join(os.homedir(), '.claude.json');
 }
 
@@ -21,11 +23,11 @@ interface ClaudeJson {
 }
 
 /**
- * 读取 ~/.claude.json
+ * 读取 ~/.claude.json 或项目 .mcp.json
  */
-function readClaudeJson(): ClaudeJson {
+function readClaudeJson(projectRoot?: string): ClaudeJson {
   try {
-    const jsonPath = getClaudeJsonPath();
+    const jsonPath = getClaudeJsonPath(projectRoot);
     if (!fs.existsSync(jsonPath)) {
       return {};
     }
@@ -38,11 +40,16 @@ function readClaudeJson(): ClaudeJson {
 }
 
 /**
- * 写入 ~/.claude.json
+ * 写入 ~/.claude.json 或项目 .mcp.json
  */
-function writeClaudeJson(data: ClaudeJson): boolean {
+function writeClaudeJson(data: ClaudeJson, projectRoot?: string): boolean {
   try {
-    const jsonPath = getClaudeJsonPath();
+    const jsonPath = getClaudeJsonPath(projectRoot);
+    if (projectRoot) {
+      // .mcp.json 通常会提交到仓库，保持常规权限
+      fs.writeFileSync(jsonPath, `${JSON.stringify(data, null, 2)}\n`, { mode: 0o644 });
+      return true;
+    }
     fs.writeFileSync(jsonPath, JSON.stringify(data, null, 2), { mode: 0o600 });
     return true;
   } catch (error) {
@@ -51,12 +58,87 @@ function writeClaudeJson(data: ClaudeJson): boolean {
   }
 }
 
+// 项目路径 -> 服务器 ID -> 占位符变量名 -> 密钥引用
+type ProjectMcpVariables = Record<string, Record<string, Record<string, string>>>;
+
+function getProjectVariablesPath(): string {
+  return path.join(app.getPath('userData'), 'project-mcp-variables.json');
+}
+
 /**
- * 读取当前 MCP 服务器配置
+ * 读取项目 .mcp.json 占位符与密钥引用的对应关系（只含引用，不含明文）
  */
-export function readMcpServers(): Record<string, McpServerConfig> {
-  const data = readClaudeJson();
-  return data.mcpServers ?? {};
+function readProjectVariables(): ProjectMcpVariables {
+  try {
+    const filePath = getProjectVariablesPath();
+    if (!fs.existsSync(filePath)) {
+      return {};
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ProjectMcpVariables;
+  } catch (error) {
+    console.error('[McpManager] Failed to read project MCP variables:', error);
+    return {};
+  }
+}
+
+function writeProjectVariables(
+  projectRoot: string,
+  serverId: string,
+  variables: Record<string, string> | null
+): void {
+  const all = readProjectVariables();
+  const key = path.resolve(projectRoot);
+  const servers = { ...all[key] };
+  if (variables && Object.keys(variables).length > 0) {
+    servers[serverId] = variables;
+  } else {
+    delete servers[serverId];
+  }
+  if (Object.keys(servers).length > 0) {
+    all[key] = servers;
+  } else {
+    delete all[key];
+  }
+  try {
+    fs.writeFileSync(getProjectVariablesPath(), JSON.stringify(all, null, 2), { mode: 0o600 });
+  } catch (error) {
+    console.error('[McpManager] Failed to write project MCP variables:', error);
+  }
+}
+
+/**
+ * 读取当前 MCP 服务器配置（传入 projectRoot 时读取项目 .mcp.json）
+ * 项目级配置中由本应用写入的占位符会还原为密钥引用
+ */
+export function readMcpServers(projectRoot?: string): Record<string, McpServerConfig> {
+  const data = readClaudeJson(projectRoot);
+  const servers = data.mcpServers ?? {};
+  if (!projectRoot) {
+    return servers;
+  }
+  const variables = readProjectVariables()[path.resolve(projectRoot)] ?? {};
+  return Object.fromEntries(
+    Object.entries(servers).map(([id, config]) => [
+      id,
+      variables[id] ? restoreSecretRefs(config, variables[id]) : config,
+    ])
+  );
+}
+
+/**
+ * 获取项目 .mcp.json 中占位符需要的环境变量（取值为密钥引用，在启动终端时解析）
+ * @param serverId 只返回该服务器的变量
+ */
+export function getProjectMcpEnv(projectRoot: string, serverId?: string): Record<string, string> {
+  const configured = readClaudeJson(projectRoot).mcpServers ?? {};
+  const variables = readProjectVariables()[path.resolve(projectRoot)] ?? {};
+  const env: Record<string, string> = {};
+  for (const [id, record] of Object.entries(variables)) {
+    // 已从 .mcp.json 中手动删除的服务器不再需要
+    if (!configured[id] || (serverId && id !== serverId)) continue;
+    Object.assign(env, record);
+  }
+  return env;
 }
 
 /**
@@ -85,29 +167,10 @@ function configToServer(id: string, config: McpServerConfig): McpServer {
 }
 
 /**
- * 将 McpServer 转换为配置
- * 兼容旧数据：没有 transportType 但有 command 的服务器视为 stdio 类型
+ * 将 McpServer 转换为配置，解析密钥引用（仅用于用户级配置）
  */
 function serverToConfig(server: McpServer): McpServerConfig | null {
-  if (isHttpMcpServer(server)) {
-    return {
-      type: server.transportType,
-      url: server.url,
-      ...(server.headers && Object.keys(server.headers).length > 0 && { headers: server.headers }),
-    } as McpHttpConfig;
-  }
-  // 兼容旧数据：检查 command 字段是否存在
-  const command = isStdioMcpServer(server)
-    ? server.command
-    : (server as { command?: string }).command;
-  if (!command) {
-    return null;
-  }
-  return {
-    command,
-    ...(server.args && server.args.length > 0 && { args: server.args }),
-    ...(server.env && Object.keys(server.env).length > 0 && { env: server.env }),
-  } as McpStdioConfig;
+  return buildMcpConfig(server, (record) => secretVault.resolveRecord(record));
 }
 
 /**
@@ -153,11 +216,11 @@ export function syncMcpServers(servers: McpServer[]): boolean {
 }
 
 /**
- * 添加或更新单个 MCP 服务器
+ * 添加或更新单个 MCP 服务器（传入 projectRoot 时写入项目 .mcp.json）
  * 保留现有配置，只修改指定的服务器
  */
-export function upsertMcpServer(server: McpServer): boolean {
-  const data = readClaudeJson();
+export function upsertMcpServer(server: McpServer, projectRoot?: string): boolean {
+  const data = readClaudeJson(projectRoot);
 
   if (!data.mcpServers) {
     data.mcpServers = {};
@@ -166,8 +229,15 @@ export function upsertMcpServer(server: McpServer): boolean {
   const existingConfig = data.mcpServers[server.id];
 
   if (server.enabled) {
-    // 转换 server 为配置
-    const config = serverToConfig(server);
+    // 转换 server 为配置；项目级不解析密钥，避免明文写入仓库
+    let config: McpServerConfig | null;
+    if (projectRoot) {
+      const project = toProjectMcpConfig(server);
+      config = project.config;
+      writeProjectVariables(projectRoot, server.id, project.variables);
+    } else {
+      config = serverToConfig(server);
+    }
     if (config) {
       data.mcpServers[server.id] = config;
     } else if (existingConfig) {
@@ -180,20 +250,24 @@ export function upsertMcpServer(server: McpServer): boolean {
     delete data.mcpServers[server.id];
   }
 
-  return writeClaudeJson(data);
+  return writeClaudeJson(data, projectRoot);
 }
 
 /**
  * 删除 MCP 服务器
  */
-export function deleteMcpServer(serverId: string): boolean {
-  const data = readClaudeJson();
+export function deleteMcpServer(serverId: string, projectRoot?: string): boolean {
+  const data = readClaudeJson(projectRoot);
 
   if (data.mcpServers) {
     delete data.mcpServers[serverId];
   }
+  if (projectRoot) {
+    // 密钥本身由渲染进程决定是否释放（移动到用户级时仍在使用）
+    writeProjectVariables(projectRoot, serverId, null);
+  }
 
-  return writeClaudeJson(data);
+  return writeClaudeJson(data, projectRoot);
 }
 
 // Re-export utility functions
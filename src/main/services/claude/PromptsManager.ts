@@ -1,17 +1,24 @@
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import type { ProjectMemoryFile } from '@shared/types';
 
-function getClaudeMdPath(): string {
+/**
+ * 获取记忆文件路径：未指定项目时为 ~/.claude/CLAUDE.md，否则为项目根目录下的 CLAUDE.md / AGENTS.md
+ */
+function getClaudeMdPath(projectRoot?: string, fileName: ProjectMemoryFile = 'CLAUDE.md'): string {
+  if (projectRoot) {
+    return path.join(projectRoot, fileName);
+  }
   return path.join(os.homedir(), '.claude', 'CLAUDE.md');
 }
 
 /**
- * 读取 ~/.claude/CLAUDE.md 内容
+ * 读取 ~/.claude/CLAUDE.md 或项目记忆文件内容
  */
-export function readClaudeMd(): string | null {
+export function readClaudeMd(projectRoot?: string, fileName?: ProjectMemoryFile): string | null {
   try {
-    const mdPath = getClaudeMdPath();
+    const mdPath = getClaudeMdPath(projectRoot, fileName);
     if (!fs.existsSync(mdPath)) {
       return null;
     }
@@ -23,11 +30,15 @@ export function readClaudeMd(): string | null {
 }
 
 /**
- * 写入内容到 ~/.claude/CLAUDE.md
+ * 写入内容到 ~/.claude/CLAUDE.md 或项目记忆文件
  */
-export function writeClaudeMd(content: string): boolean {
+export function writeClaudeMd(
+  content: string,
+  projectRoot?: string,
+  fileName?: ProjectMemoryFile
+): boolean {
   try {
-    const mdPath = getClaudeMdPath();
+    const mdPath = getClaudeMdPath(projectRoot, fileName);
     const dir = path.dirname(mdPath);
 
     // 确保目录存在
@@ -36,7 +47,7 @@ export function writeClaudeMd(content: string): boolean {
     }
 
     fs.writeFileSync(mdPath, content, { mode: 0o644 });
-    console.log('[PromptsManager] Wrote CLAUDE.md');
+    console.log(`[PromptsManager] Wrote ${mdPath}`);
     return true;
   } catch (error) {
     console.error('[PromptsManager] Failed to write CLAUDE.md:', error);
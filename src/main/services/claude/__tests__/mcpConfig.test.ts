@@ -0,0 +1,95 @@
+import type { McpServer } from '@shared/types';
+import { describe, expect, it } from 'vitest';
+import { buildMcpConfig, restoreSecretRefs, toProjectMcpConfig } from '../mcpConfig';
+
+const TOKEN_REF = 'enso-secret:0b6f1c3e-7a52-4c1d-9e8f-2d4a6b8c0e1f';
+const KEY_REF = 'enso-secret:5c3a9e71-2b4d-4f60-8a1c-7e9d0b2f4a63';
+const SECRETS: Record<string, string> = {
+  [TOKEN_REF]: 'ghp_resolved_token',
+  [KEY_REF]: 'sk-resolved-key',
+};
+
+function resolve(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      value.replace(/enso-secret:[0-9a-f-]{36}/g, (ref) => SECRETS[ref]),
+    ])
+  );
+}
+
+describe('toProjectMcpConfig', () => {
+  it('writes env placeholders instead of resolved secrets for stdio servers', () => {
+    const server: McpServer = {
+      id: 'search',
+      name: 'search',
+      transportType: 'stdio',
+      command: 'npx',
+      args: ['-y', 'search-mcp'],
+      env: { SEARCH_API_KEY: KEY_REF, LOG_LEVEL: 'debug' },
+      enabled: true,
+    };
+
+    // The user-level path resolves the same server
+    expect(JSON.stringify(buildMcpConfig(server, resolve))).toContain('sk-resolved-key');
+
+    expect(toProjectMcpConfig(server)).toEqual({
+      config: {
+        command: 'npx',
+        args: ['-y', 'search-mcp'],
+        env: { SEARCH_API_KEY: `\${SEARCH_API_KEY}`, LOG_LEVEL: 'debug' },
+      },
+      variables: { SEARCH_API_KEY: KEY_REF },
+    });
+  });
+
+  it('writes header placeholders named after the server', () => {
+    const server: McpServer = {
+      id: 'github-remote',
+      name: 'github-remote',
+      transportType: 'http',
+      url: 'https://api.example.com/mcp',
+      headers: { Authorization: `Bearer ${TOKEN_REF}`, 'X-Api-Key': `${KEY_REF}:${TOKEN_REF}` },
+      enabled: true,
+    };
+
+    const { config, variables } = toProjectMcpConfig(server);
+    const json = JSON.stringify(config);
+    for (const value of Object.values(SECRETS)) {
+      expect(json).not.toContain(value);
+    }
+    expect(json).not.toContain('enso-secret:');
+    expect(config).toEqual({
+      type: 'http',
+      url: 'https://api.example.com/mcp',
+      headers: {
+        Authorization: `Bearer \${GITHUB_REMOTE_AUTHORIZATION}`,
+        'X-Api-Key': `\${GITHUB_REMOTE_X_API_KEY}:\${GITHUB_REMOTE_X_API_KEY_2}`,
+      },
+    });
+    expect(variables).toEqual({
+      GITHUB_REMOTE_AUTHORIZATION: TOKEN_REF,
+      GITHUB_REMOTE_X_API_KEY: KEY_REF,
+      GITHUB_REMOTE_X_API_KEY_2: TOKEN_REF,
+    });
+  });
+});
+
+describe('restoreSecretRefs', () => {
+  it('turns written placeholders back into vault references', () => {
+    const server: McpServer = {
+      id: 'search',
+      name: 'search',
+      transportType: 'stdio',
+      command: 'npx',
+      env: { SEARCH_API_KEY: KEY_REF, HOME_DIR: `\${HOME}` },
+      enabled: true,
+    };
+    const { config, variables } = toProjectMcpConfig(server);
+
+    expect(restoreSecretRefs(config!, variables)).toEqual({
+      command: 'npx',
+      env: { SEARCH_API_KEY: KEY_REF, HOME_DIR: `\${HOME}` },
+    });
+  });
+});
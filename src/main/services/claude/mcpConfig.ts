@@ -0,0 +1,109 @@
+import type { McpHttpConfig, McpServer, McpServerConfig, McpStdioConfig } from '@shared/types';
+import { isHttpMcpConfig, isHttpMcpServer, isStdioMcpServer } from '@shared/types';
+import { SECRET_REF_PATTERN } from '@shared/utils/secretRef';
+
+/** 转换 env / headers 的取值，例如解析密钥引用 */
+type RecordMapper = (record: Record<string, string>) => Record<string, string>;
+
+/**
+ * 将 McpServer 转换为配置，env / headers 经 mapRecord 处理
+ * 兼容旧数据：没有 transportType 但有 command 的服务器视为 stdio 类型
+ */
+export function buildMcpConfig(server: McpServer, mapRecord: RecordMapper): McpServerConfig | null {
+  if (isHttpMcpServer(server)) {
+    return {
+      type: server.transportType,
+      url: server.url,
+      ...(server.headers &&
+        Object.keys(server.headers).length > 0 && { headers: mapRecord(server.headers) }),
+    } as McpHttpConfig;
+  }
+  // 兼容旧数据：检查 command 字段是否存在
+  const command = isStdioMcpServer(server)
+    ? server.command
+    : (server as { command?: string }).command;
+  if (!command) {
+    return null;
+  }
+  return {
+    command,
+    ...(server.args && server.args.length > 0 && { args: server.args }),
+    ...(server.env && Object.keys(server.env).length > 0 && { env: mapRecord(server.env) }),
+  } as McpStdioConfig;
+}
+
+function toEnvName(...parts: string[]): string {
+  return parts
+    .join('_')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase();
+}
+
+/** 项目级配置及其占位符对应的密钥引用（变量名 -> enso-secret:...） */
+export interface ProjectMcpConfig {
+  config: McpServerConfig | null;
+  variables: Record<string, string>;
+}
+
+/**
+ * 将密钥引用替换为 ${VAR} 占位符，由 Claude Code 从环境变量展开
+ * env 使用变量名本身，headers 使用 <服务器>_<请求头>
+ */
+function toPlaceholders(
+  record: Record<string, string>,
+  nameFor: (key: string) => string,
+  variables: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => {
+      let index = 0;
+      const replaced = value.replace(SECRET_REF_PATTERN, (ref) => {
+        index++;
+        const name = index > 1 ? `${nameFor(key)}_${index}` : nameFor(key);
+        variables[name] = ref;
+        return `\${${name}}`;
+      });
+      return [key, replaced];
+    })
+  );
+}
+
+/**
+ * 生成写入项目 .mcp.json 的配置
+ * .mcp.json 通常会提交到仓库，不解析密钥引用，改写为环境变量占位符；
+ * 密钥仍保存在密钥库中，由 variables 记录每个占位符对应的引用
+ */
+export function toProjectMcpConfig(server: McpServer): ProjectMcpConfig {
+  const variables: Record<string, string> = {};
+  const config = isHttpMcpServer(server)
+    ? buildMcpConfig(server, (headers) =>
+        toPlaceholders(headers, (key) => toEnvName(server.id, key), variables)
+      )
+    : buildMcpConfig(server, (env) => toPlaceholders(env, (key) => toEnvName(key), variables));
+  return { config, variables };
+}
+
+/**
+ * 将 .mcp.json 中由本应用写入的 ${VAR} 占位符还原为密钥引用
+ * 其他占位符（例如用户手写的）保持不变
+ */
+export function restoreSecretRefs(
+  config: McpServerConfig,
+  variables: Record<string, string>
+): McpServerConfig {
+  const restore = (record: Record<string, string> | undefined) =>
+    record &&
+    Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [
+        key,
+        value.replace(/\$\{([A-Za-z0-9_]+)\}/g, (placeholder, name: string) =>
+          Object.hasOwn(variables, name) ? variables[name] : placeholder
+        ),
+      ])
+    );
+  if (isHttpMcpConfig(config)) {
+    return config.headers ? { ...config, headers: restore(config.headers) } : config;
+  }
+  return config.env ? { ...config, env: restore(config.env) } : config;
+}
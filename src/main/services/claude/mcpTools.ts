@@ -11,5 +11,118 @@ export interface McpTool {
   };
 }
 
-// No tools exposed - only selection_changed and at_mentioned notifications are used
-export const MCP_TOOLS: McpTool[] = [];
+// tools/call result content
+export interface McpToolResult {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+}
+
+export function textResult(...texts: string[]): McpToolResult {
+  return { content: texts.map((text) => ({ type: 'text' as const, text })) };
+}
+
+export function jsonResult(value: unknown): McpToolResult {
+  return textResult(JSON.stringify(value, null, 2));
+}
+
+export function errorResult(message: string): McpToolResult {
+  return { ...textResult(message), isError: true };
+}
+
+const SCHEMA = 'http://json-schema.org/draft-07/schema#';
+
+// Tools Claude Code can call on the IDE; names and arguments match its IDE integration
+export const MCP_TOOLS: McpTool[] = [
+  {
+    name: 'openFile',
+    description: 'Open a file in the editor and optionally select a range of lines',
+    inputSchema: {
+      $schema: SCHEMA,
+      type: 'object',
+      properties: {
+        filePath: { type: 'string', description: 'Path to the file to open' },
+        startLine: { type: 'integer', description: 'First line to select (1-based)' },
+        endLine: { type: 'integer', description: 'Last line to select (1-based, inclusive)' },
+        makeFrontmost: {
+          type: 'boolean',
+          description: 'Whether to switch to the editor tab',
+          default: true,
+        },
+      },
+      required: ['filePath'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'openDiff',
+    description:
+      'Show a proposed edit as a diff for the user to review. Blocks until the user accepts or rejects it.',
+    inputSchema: {
+      $schema: SCHEMA,
+      type: 'object',
+      properties: {
+        old_file_path: { type: 'string', description: 'Path of the file before the edit' },
+        new_file_path: { type: 'string', description: 'Path of the file after the edit' },
+        new_file_contents: { type: 'string', description: 'Proposed contents of the file' },
+        tab_name: { type: 'string', description: 'Name shown for the review' },
+      },
+      required: ['old_file_path', 'new_file_path', 'new_file_contents', 'tab_name'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'close_tab',
+    description: 'Close the diff review opened under a tab name',
+    inputSchema: {
+      $schema: SCHEMA,
+      type: 'object',
+      properties: {
+        tab_name: { type: 'string', description: 'Name the review was opened with' },
+      },
+      required: ['tab_name'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'closeAllDiffTabs',
+    description: 'Close every diff review still open',
+    inputSchema: { $schema: SCHEMA, type: 'object', properties: {} },
+  },
+  {
+    name: 'getOpenEditors',
+    description: 'List the files open in the editor',
+    inputSchema: { $schema: SCHEMA, type: 'object', properties: {} },
+  },
+  {
+    name: 'getWorkspaceFolders',
+    description: 'List the workspace folders open in EnsoAI',
+    inputSchema: { $schema: SCHEMA, type: 'object', properties: {} },
+  },
+  {
+    name: 'getDiagnostics',
+    description: 'Get language diagnostics (errors, warnings) from the editor',
+    inputSchema: {
+      $schema: SCHEMA,
+      type: 'object',
+      properties: {
+        uri: {
+          type: 'string',
+          description: 'File to get diagnostics for. Omit for all open files.',
+        },
+      },
+    },
+  },
+  {
+    name: 'saveDocument',
+    description: 'Save unsaved changes of a file open in the editor',
+    inputSchema: {
+      $schema: SCHEMA,
+      type: 'object',
+      properties: {
+        filePath: { type: 'string', description: 'Path to the file to save' },
+      },
+      required: ['filePath'],
+      additionalProperties: false,
+    },
+  },
+];
@@ -0,0 +1,122 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { McpServer, McpServerConfig } from '@shared/types';
+import { serverToConfig } from '../claude/McpManager';
+import { hasInlineCodexMcpServers, parseCodexMcpServers, setCodexMcpServer } from './codexToml';
+
+/**
+ * Codex keeps its config in $CODEX_HOME (default ~/.codex)
+ */
+function getCodexHome(): string {
+  return process.env.CODEX_HOME?.trim() || path.join(os.homedir(), '.codex');
+}
+
+function getConfigTomlPath(): string {
+  return path.join(getCodexHome(), 'config.toml');
+}
+
+function getAgentsMdPath(): string {
+  return path.join(getCodexHome(), 'AGENTS.md');
+}
+
+/**
+ * Returns null when the file exists but cannot be read, so it is never overwritten
+ */
+function readConfigToml(): string | null {
+  try {
+    return fs.readFileSync(getConfigTomlPath(), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return '';
+    }
+    console.error('[CodexConfigManager] Failed to read config.toml:', error);
+    return null;
+  }
+}
+
+/**
+ * Read config.toml for a table-by-table rewrite; null when that is not safe
+ */
+function readEditableConfigToml(): string | null {
+  const content = readConfigToml();
+  if (content !== null && hasInlineCodexMcpServers(content)) {
+    console.error(
+      '[CodexConfigManager] config.toml defines mcp_servers inline or with dotted keys; not editing it'
+    );
+    return null;
+  }
+  return content;
+}
+
+function writeConfigToml(content: string): boolean {
+  try {
+    const tomlPath = getConfigTomlPath();
+    fs.mkdirSync(path.dirname(tomlPath), { recursive: true, mode: 0o755 });
+    // config.toml may carry resolved tokens in env / http_headers
+    fs.writeFileSync(tomlPath, content, { mode: 0o600 });
+    return true;
+  } catch (error) {
+    console.error('[CodexConfigManager] Failed to write config.toml:', error);
+    return false;
+  }
+}
+
+/**
+ * Read the [mcp_servers] tables of ~/.codex/config.toml
+ */
+export function readCodexMcpServers(): Record<string, McpServerConfig> {
+  return parseCodexMcpServers(readConfigToml() ?? '');
+}
+
+/**
+ * Add or replace one MCP server, leaving the rest of config.toml untouched
+ */
+export function upsertCodexMcpServer(server: McpServer): boolean {
+  const content = readEditableConfigToml();
+  const config = serverToConfig(server);
+  if (content === null || !config) {
+    return false;
+  }
+  return writeConfigToml(setCodexMcpServer(content, server.id, config));
+}
+
+export function deleteCodexMcpServer(serverId: string): boolean {
+  const content = readEditableConfigToml();
+  if (content === null) {
+    return false;
+  }
+  if (!(serverId in parseCodexMcpServers(content))) {
+    return true;
+  }
+  return writeConfigToml(setCodexMcpServer(content, serverId, null));
+}
+
+/**
+ * Read ~/.codex/AGENTS.md, the global instructions for Codex
+ */
+export function readCodexAgentsMd(): string | null {
+  try {
+    const mdPath = getAgentsMdPath();
+    if (!fs.existsSync(mdPath)) {
+      return null;
+    }
+    return fs.readFileSync(mdPath, 'utf-8');
+  } catch (error) {
+    console.error('[CodexConfigManager] Failed to read AGENTS.md:', error);
+    return null;
+  }
+}
+
+export function writeCodexAgentsMd(content: string): boolean {
+  try {
+    const mdPath = getAgentsMdPath();
+    fs.mkdirSync(path.dirname(mdPath), { recursive: true, mode: 0o755 });
+    fs.writeFileSync(mdPath, content, { mode: 0o644 });
+    console.log(`[CodexConfigManager] Wrote ${mdPath}`);
+    return true;
+  } catch (error) {
+    console.error('[CodexConfigManager] Failed to write AGENTS.md:', error);
+    return false;
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { hasInlineCodexMcpServers, parseCodexMcpServers, setCodexMcpServer } from '../codexToml';
+
+const CONFIG = `model = "gpt-5.2-codex"
+
+# Docs server
+[mcp_servers.docs]
+command = "npx"
+args = [
+  "-y",
+  "@acme/docs-mcp", # pinned by the team
+]
+env = { API_KEY = "secret", "X-MODE" = 'fast' }
+
+[mcp_servers."search.v2"]
+url = "https://mcp.example.com/mcp"
+
+[mcp_servers.search.v2.http_headers]
+Ignored = "nested path"
+
+[mcp_servers.fs]
+command = "mcp-fs"
+
+[mcp_servers.fs.env]
+ROOT = "C:\\\\work"
+
+[profiles.fast]
+model = "gpt-5.2"
+`;
+
+describe('parseCodexMcpServers', () => {
+  it('reads stdio and http servers with inline and nested tables', () => {
+    expect(parseCodexMcpServers(CONFIG)).toEqual({
+      docs: {
+        command: 'npx',
+        args: ['-y', '@acme/docs-mcp'],
+        env: { API_KEY: 'secret', 'X-MODE': 'fast' },
+      },
+      'search.v2': { type: 'http', url: 'https://mcp.example.com/mcp' },
+      fs: { command: 'mcp-fs', env: { ROOT: 'C:\\work' } },
+    });
+  });
+
+  it('returns nothing without MCP tables', () => {
+    expect(parseCodexMcpServers('model = "o3"\n')).toEqual({});
+  });
+});
+
+describe('setCodexMcpServer', () => {
+  it('replaces a server in place and keeps the rest of the file', () => {
+    const next = setCodexMcpServer(CONFIG, 'fs', { command: 'mcp-fs', args: ['--ro'] });
+
+    expect(next).toContain(
+      '[mcp_servers.fs]\ncommand = "mcp-fs"\nargs = ["--ro"]\n\n[profiles.fast]'
+    );
+    expect(next).not.toContain('[mcp_servers.fs.env]');
+    expect(next.startsWith('model = "gpt-5.2-codex"')).toBe(true);
+    expect(parseCodexMcpServers(next).docs).toEqual(parseCodexMcpServers(CONFIG).docs);
+  });
+
+  it('appends new servers and round-trips quoted keys and headers', () => {
+    const next = setCodexMcpServer('model = "o3"\n', 'team.tools', {
+      type: 'http',
+      url: 'https://tools.example.com',
+      headers: { Authorization: 'Bearer "x"' },
+    });
+
+    expect(next).toBe(
+      'model = "o3"\n\n[mcp_servers."team.tools"]\nurl = "https://tools.example.com"\n' +
+        'http_headers = { Authorization = "Bearer \\"x\\"" }\n'
+    );
+    expect(parseCodexMcpServers(next)).toEqual({
+      'team.tools': {
+        type: 'http',
+        url: 'https://tools.example.com',
+        headers: { Authorization: 'Bearer "x"' },
+      },
+    });
+  });
+
+  it('removes a server with its sub-tables', () => {
+    const next = setCodexMcpServer(CONFIG, 'fs', null);
+    expect(Object.keys(parseCodexMcpServers(next))).toEqual(['docs', 'search.v2']);
+    expect(next).toContain('[profiles.fast]');
+  });
+});
+
+describe('hasInlineCodexMcpServers', () => {
+  it('accepts servers declared with [mcp_servers.<id>] tables', () => {
+    expect(hasInlineCodexMcpServers(CONFIG)).toBe(false);
+    expect(hasInlineCodexMcpServers('')).toBe(false);
+  });
+
+  it('detects an inline table or dotted keys at the root', () => {
+    expect(hasInlineCodexMcpServers('mcp_servers = { docs = { command = "npx" } }\n')).toBe(true);
+    expect(hasInlineCodexMcpServers('mcp_servers.docs.command = "npx"\n')).toBe(true);
+  });
+
+  it('detects keys under a bare [mcp_servers] table', () => {
+    expect(hasInlineCodexMcpServers('[mcp_servers]\ndocs = { command = "npx" }\n')).toBe(true);
+    expect(hasInlineCodexMcpServers('[mcp_servers]\ndocs.command = "npx"\n')).toBe(true);
+  });
+
+  it('ignores same-named keys inside other tables', () => {
+    expect(hasInlineCodexMcpServers('[profiles.fast]\nmcp_servers = {}\n')).toBe(false);
+  });
+});
@@ -0,0 +1,348 @@
+import type { McpServerConfig } from '@shared/types';
+import { isHttpMcpConfig } from '@shared/types';
+
+/**
+ * Minimal handling of the `[mcp_servers.<name>]` tables in Codex `config.toml`.
+ * Only the MCP tables are parsed and rewritten; every other line of the file is
+ * kept byte for byte so user settings and comments survive.
+ */
+
+type TomlValue = string | string[] | Record<string, string>;
+
+interface ParsedValue {
+  value: TomlValue | null;
+  end: number;
+}
+
+const BARE_KEY_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function skipSpaces(text: string, index: number): number {
+  let i = index;
+  while (i < text.length && /[ \t\r\n]/.test(text[i])) i++;
+  return i;
+}
+
+function parseBasicString(text: string, start: number): { value: string; end: number } {
+  let i = start + 1;
+  let value = '';
+  while (i < text.length && text[i] !== '"') {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      const next = text[i + 1];
+      const escapes: Record<string, string> = {
+        n: '\n',
+        t: '\t',
+        r: '\r',
+        b: '\b',
+        f: '\f',
+        '"': '"',
+        '\\': '\\',
+      };
+      if (next === 'u' || next === 'U') {
+        const length = next === 'u' ? 4 : 8;
+        value += String.fromCodePoint(Number.parseInt(text.slice(i + 2, i + 2 + length), 16));
+        i += 2 + length;
+        continue;
+      }
+      value += escapes[next] ?? next;
+      i += 2;
+      continue;
+    }
+    value += text[i];
+    i++;
+  }
+  return { value, end: i + 1 };
+}
+
+function parseKey(text: string, start: number): { key: string; end: number } {
+  const i = skipSpaces(text, start);
+  if (text[i] === '"') {
+    const { value, end } = parseBasicString(text, i);
+    return { key: value, end };
+  }
+  if (text[i] === "'") {
+    const close = text.indexOf("'", i + 1);
+    return { key: text.slice(i + 1, close), end: close + 1 };
+  }
+  let end = i;
+  while (end < text.length && /[A-Za-z0-9_-]/.test(text[end])) end++;
+  return { key: text.slice(i, end), end };
+}
+
+/**
+ * Split a dotted key such as `mcp_servers."my.server".env`
+ */
+function parseDottedKey(text: string): string[] {
+  const parts: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const { key, end } = parseKey(text, i);
+    parts.push(key);
+    i = skipSpaces(text, end);
+    if (text[i] !== '.') break;
+    i++;
+  }
+  return parts;
+}
+
+function parseValue(text: string, start: number): ParsedValue {
+  const i = skipSpaces(text, start);
+  const ch = text[i];
+
+  if (ch === '"') {
+    return parseBasicString(text, i);
+  }
+  if (ch === "'") {
+    const close = text.indexOf("'", i + 1);
+    return { value: text.slice(i + 1, close), end: close + 1 };
+  }
+  if (ch === '[') {
+    const items: string[] = [];
+    let j = i + 1;
+    while (j < text.length) {
+      j = skipSpaces(text, j);
+      if (text[j] === '#') {
+        j = text.indexOf('\n', j);
+        if (j === -1) break;
+        continue;
+      }
+      if (text[j] === ']') return { value: items, end: j + 1 };
+      if (text[j] === ',') {
+        j++;
+        continue;
+      }
+      const item = parseValue(text, j);
+      if (typeof item.value === 'string') items.push(item.value);
+      j = item.end;
+    }
+    return { value: items, end: text.length };
+  }
+  if (ch === '{') {
+    const table: Record<string, string> = {};
+    let j = i + 1;
+    while (j < text.length) {
+      j = skipSpaces(text, j);
+      if (text[j] === '}') return { value: table, end: j + 1 };
+      if (text[j] === ',') {
+        j++;
+        continue;
+      }
+      const { key, end } = parseKey(text, j);
+      const eq = text.indexOf('=', end);
+      const item = parseValue(text, eq + 1);
+      if (typeof item.value === 'string') table[key] = item.value;
+      j = item.end;
+    }
+    return { value: table, end: text.length };
+  }
+
+  // Numbers, booleans and dates: kept as their raw text
+  let end = i;
+  while (end < text.length && !/[,\]}\r\n#]/.test(text[end])) end++;
+  const raw = text.slice(i, end).trim();
+  return { value: raw || null, end };
+}
+
+/**
+ * Parse a table header line (`[a.b]`); array-of-tables headers return null
+ */
+function parseHeader(line: string): string[] | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('[') || trimmed.startsWith('[[')) return null;
+  const close = trimmed.lastIndexOf(']');
+  if (close <= 0) return null;
+  return parseDottedKey(trimmed.slice(1, close));
+}
+
+function isHeaderLine(line: string): boolean {
+  return line.trim().startsWith('[');
+}
+
+interface McpTableData {
+  command?: string;
+  args?: string[];
+  url?: string;
+  env?: Record<string, string>;
+  http_headers?: Record<string, string>;
+}
+
+function toConfig(data: McpTableData): McpServerConfig | null {
+  if (data.url) {
+    return {
+      type: 'http',
+      url: data.url,
+      ...(data.http_headers && { headers: data.http_headers }),
+    };
+  }
+  if (!data.command) return null;
+  return {
+    command: data.command,
+    ...(data.args && data.args.length > 0 && { args: data.args }),
+    ...(data.env && Object.keys(data.env).length > 0 && { env: data.env }),
+  };
+}
+
+/**
+ * Read the MCP servers declared in a Codex `config.toml`
+ */
+export function parseCodexMcpServers(content: string): Record<string, McpServerConfig> {
+  const tables = new Map<string, McpTableData>();
+  const lines = content.split(/\r?\n/);
+  let current: { id: string; sub?: 'env' | 'http_headers' } | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    if (isHeaderLine(line)) {
+      const path = parseHeader(line);
+      current = null;
+      if (path && path[0] === 'mcp_servers' && path.length >= 2) {
+        const sub = path[2];
+        if (path.length === 2) {
+          current = { id: path[1] };
+        } else if (path.length === 3 && (sub === 'env' || sub === 'http_headers')) {
+          current = { id: path[1], sub };
+        }
+        if (current && !tables.has(current.id)) tables.set(current.id, {});
+      }
+      continue;
+    }
+    if (!current) continue;
+
+    const eq = line.indexOf('=');
+    if (eq <= 0) continue;
+    const key = parseDottedKey(line.slice(0, eq))[0];
+
+    // Values (arrays, inline tables) may span several lines
+    let text = line.slice(eq + 1);
+    let parsed = parseValue(text, 0);
+    while (parsed.end >= text.length && index + 1 < lines.length && /^\s*[[{]/.test(text)) {
+      const balance = (s: string) =>
+        (s.match(/[[{]/g)?.length ?? 0) - (s.match(/[\]}]/g)?.length ?? 0);
+      if (balance(text) <= 0) break;
+      index++;
+      text += `\n${lines[index]}`;
+      parsed = parseValue(text, 0);
+    }
+
+    const table = tables.get(current.id);
+    if (!table || parsed.value === null) continue;
+
+    if (current.sub) {
+      if (typeof parsed.value === 'string') {
+        table[current.sub] = { ...table[current.sub], [key]: parsed.value };
+      }
+    } else if (key === 'command' || key === 'url') {
+      if (typeof parsed.value === 'string') table[key] = parsed.value;
+    } else if (key === 'args') {
+      if (Array.isArray(parsed.value)) table.args = parsed.value;
+    } else if (key === 'env' || key === 'http_headers') {
+      if (typeof parsed.value === 'object' && !Array.isArray(parsed.value)) {
+        table[key] = { ...table[key], ...parsed.value };
+      }
+    }
+  }
+
+  const servers: Record<string, McpServerConfig> = {};
+  for (const [id, data] of tables) {
+    const config = toConfig(data);
+    if (config) servers[id] = config;
+  }
+  return servers;
+}
+
+/**
+ * Whether `mcp_servers` is (partly) defined outside `[mcp_servers.<id>]` headers:
+ * an inline table or dotted keys at the root, or keys under a bare `[mcp_servers]`.
+ * Such files cannot be rewritten table by table without producing duplicate keys.
+ */
+export function hasInlineCodexMcpServers(content: string): boolean {
+  // null: inside an array of tables, which cannot hold mcp_servers
+  let section: string[] | null = [];
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    if (isHeaderLine(line)) {
+      section = parseHeader(line);
+      continue;
+    }
+    const eq = line.indexOf('=');
+    if (!section || eq <= 0 || !/^[A-Za-z0-9_"'-]/.test(trimmed)) continue;
+    const inMcpTable = section.length === 1 && section[0] === 'mcp_servers';
+    const atRoot = section.length === 0 && parseDottedKey(line.slice(0, eq))[0] === 'mcp_servers';
+    if (inMcpTable || atRoot) return true;
+  }
+  return false;
+}
+
+function formatKey(key: string): string {
+  return BARE_KEY_PATTERN.test(key) ? key : JSON.stringify(key);
+}
+
+function formatInlineTable(record: Record<string, string>): string {
+  const entries = Object.entries(record).map(
+    ([key, value]) => `${formatKey(key)} = ${JSON.stringify(value)}`
+  );
+  return `{ ${entries.join(', ')} }`;
+}
+
+/**
+ * Serialize one MCP server as a `[mcp_servers.<id>]` table
+ */
+export function formatCodexMcpServer(id: string, config: McpServerConfig): string {
+  const lines = [`[mcp_servers.${formatKey(id)}]`];
+  if (isHttpMcpConfig(config)) {
+    lines.push(`url = ${JSON.stringify(config.url)}`);
+    if (config.headers && Object.keys(config.headers).length > 0) {
+      lines.push(`http_headers = ${formatInlineTable(config.headers)}`);
+    }
+  } else {
+    lines.push(`command = ${JSON.stringify(config.command)}`);
+    if (config.args && config.args.length > 0) {
+      lines.push(`args = [${config.args.map((arg) => JSON.stringify(arg)).join(', ')}]`);
+    }
+    if (config.env && Object.keys(config.env).length > 0) {
+      lines.push(`env = ${formatInlineTable(config.env)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Replace (or remove, when `config` is null) the tables of one MCP server.
+ * The new table takes the place of the old one, or is appended at the end.
+ */
+export function setCodexMcpServer(
+  content: string,
+  id: string,
+  config: McpServerConfig | null
+): string {
+  const lines = content.split(/\r?\n/);
+  const kept: string[] = [];
+  let insertAt = -1;
+  let skipping = false;
+
+  for (const line of lines) {
+    if (isHeaderLine(line)) {
+      const path = parseHeader(line) ?? [];
+      skipping = path[0] === 'mcp_servers' && path[1] === id;
+      if (skipping && insertAt === -1) insertAt = kept.length;
+    }
+    if (!skipping) kept.push(line);
+  }
+
+  if (config) {
+    const block = formatCodexMcpServer(id, config).split('\n');
+    if (insertAt === -1) {
+      while (kept.length > 0 && kept[kept.length - 1].trim() === '') kept.pop();
+      if (kept.length > 0) kept.push('');
+      kept.push(...block);
+    } else {
+      kept.splice(insertAt, 0, ...block, '');
+    }
+  }
+
+  while (kept.length > 0 && kept[kept.length - 1].trim() === '') kept.pop();
+  return kept.length > 0 ? `${kept.join('\n')}\n` : '';
+}
@@ -0,0 +1,172 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { McpServer, McpServerConfig } from '@shared/types';
+import { isHttpMcpConfig } from '@shared/types';
+import { serverToConfig } from '../claude/McpManager';
+
+/**
+ * One entry of `mcpServers` in ~/.gemini/settings.json.
+ * `url` is an SSE endpoint, `httpUrl` a streamable HTTP one; fields such as
+ * `cwd`, `timeout` or `trust` are preserved when a server is updated.
+ */
+interface GeminiMcpEntry {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  httpUrl?: string;
+  headers?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+interface GeminiSettings {
+  mcpServers?: Record<string, GeminiMcpEntry>;
+  [key: string]: unknown;
+}
+
+function getGeminiDir(): string {
+  return path.join(os.homedir(), '.gemini');
+}
+
+function getSettingsPath(): string {
+  return path.join(getGeminiDir(), 'settings.json');
+}
+
+function getGeminiMdPath(): string {
+  return path.join(getGeminiDir(), 'GEMINI.md');
+}
+
+/**
+ * Returns null when the file exists but cannot be parsed, so it is never overwritten
+ */
+function readSettings(): GeminiSettings | null {
+  try {
+    const settingsPath = getSettingsPath();
+    if (!fs.existsSync(settingsPath)) {
+      return {};
+    }
+    const content = fs.readFileSync(settingsPath, 'utf-8');
+    return content.trim() ? (JSON.parse(content) as GeminiSettings) : {};
+  } catch (error) {
+    console.error('[GeminiConfigManager] Failed to read settings.json:', error);
+    return null;
+  }
+}
+
+function writeSettings(data: GeminiSettings): boolean {
+  try {
+    const settingsPath = getSettingsPath();
+    fs.mkdirSync(path.dirname(settingsPath), { recursive: true, mode: 0o755 });
+    fs.writeFileSync(settingsPath, `${JSON.stringify(data, null, 2)}\n`, { mode: 0o600 });
+    return true;
+  } catch (error) {
+    console.error('[GeminiConfigManager] Failed to write settings.json:', error);
+    return false;
+  }
+}
+
+function entryToConfig(entry: GeminiMcpEntry): McpServerConfig | null {
+  const url = entry.httpUrl ?? entry.url;
+  if (url) {
+    return {
+      type: entry.httpUrl ? 'http' : 'sse',
+      url,
+      ...(entry.headers && { headers: entry.headers }),
+    };
+  }
+  if (!entry.command) {
+    return null;
+  }
+  return {
+    command: entry.command,
+    ...(entry.args && entry.args.length > 0 && { args: entry.args }),
+    ...(entry.env && Object.keys(entry.env).length > 0 && { env: entry.env }),
+  };
+}
+
+function configToEntry(config: McpServerConfig, previous: GeminiMcpEntry = {}): GeminiMcpEntry {
+  const { command, args, env, url, httpUrl, headers, ...extra } = previous;
+  if (isHttpMcpConfig(config)) {
+    return {
+      ...extra,
+      [config.type === 'sse' ? 'url' : 'httpUrl']: config.url,
+      ...(config.headers && Object.keys(config.headers).length > 0 && { headers: config.headers }),
+    };
+  }
+  return {
+    ...extra,
+    command: config.command,
+    ...(config.args && config.args.length > 0 && { args: config.args }),
+    ...(config.env && Object.keys(config.env).length > 0 && { env: config.env }),
+  };
+}
+
+/**
+ * Read `mcpServers` from ~/.gemini/settings.json
+ */
+export function readGeminiMcpServers(): Record<string, McpServerConfig> {
+  const entries = readSettings()?.mcpServers ?? {};
+  const servers: Record<string, McpServerConfig> = {};
+  for (const [id, entry] of Object.entries(entries)) {
+    const config = entryToConfig(entry);
+    if (config) servers[id] = config;
+  }
+  return servers;
+}
+
+/**
+ * Add or replace one MCP server, keeping Gemini-only fields of an existing entry
+ */
+export function upsertGeminiMcpServer(server: McpServer): boolean {
+  const data = readSettings();
+  const config = serverToConfig(server);
+  if (!data || !config) {
+    return false;
+  }
+  const mcpServers = data.mcpServers ?? {};
+  mcpServers[server.id] = configToEntry(config, mcpServers[server.id]);
+  data.mcpServers = mcpServers;
+  return writeSettings(data);
+}
+
+export function deleteGeminiMcpServer(serverId: string): boolean {
+  const data = readSettings();
+  if (!data) {
+    return false;
+  }
+  if (!data.mcpServers?.[serverId]) {
+    return true;
+  }
+  delete data.mcpServers[serverId];
+  return writeSettings(data);
+}
+
+/**
+ * Read ~/.gemini/GEMINI.md, the global context file for Gemini CLI
+ */
+export function readGeminiMd(): string | null {
+  try {
+    const mdPath = getGeminiMdPath();
+    if (!fs.existsSync(mdPath)) {
+      return null;
+    }
+    return fs.readFileSync(mdPath, 'utf-8');
+  } catch (error) {
+    console.error('[GeminiConfigManager] Failed to read GEMINI.md:', error);
+    return null;
+  }
+}
+
+export function writeGeminiMd(content: string): boolean {
+  try {
+    const mdPath = getGeminiMdPath();
+    fs.mkdirSync(path.dirname(mdPath), { recursive: true, mode: 0o755 });
+    fs.writeFileSync(mdPath, content, { mode: 0o644 });
+    console.log(`[GeminiConfigManager] Wrote ${mdPath}`);
+    return true;
+  } catch (error) {
+    console.error('[GeminiConfigManager] Failed to write GEMINI.md:', error);
+    return false;
+  }
+}
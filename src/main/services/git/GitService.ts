@@ -1,4 +1,4 @@
-import { exec } from 'node:child_process';
+import { exec, execFile } from 'node:child_process';
 import { existsSync, promises as fs } from 'node:fs';
 import path from 'node:path';
 import { promisify } from 'node:util';
@@ -12,15 +12,37 @@ import type {
   GhCliStatus,
   GitBlameLineInfo,
   GitBranch,
+  GitHubIssue,
   GitLogEntry,
+  GitStash,
+  GitStashCreateOptions,
+  GitStashFile,
   GitStatus,
   GitSubmodule,
   PullRequest,
+  PullRequestCreateOptions,
+  PullRequestDetails,
+  PullRequestMergeMethod,
+  PullRequestReviewCommentInput,
   SubmoduleStatus,
+  WorkingTreeSnapshot,
 } from '@shared/types';
 import type { SimpleGit, StatusResult } from 'simple-git';
 import { decodeBuffer, detectBinaryFile, gitShow } from './encoding';
 import { GIT_LOG_PRETTY_FORMAT, parseGitLogOutput } from './gitLogFormat';
+import { GIT_STASH_PRETTY_FORMAT, parseGitStashOutput } from './gitStashFormat';
+import {
+  GH_ISSUE_LIST_FIELDS,
+  GH_PR_LIST_FIELDS,
+  GH_PR_VIEW_FIELDS,
+  type GhIssue,
+  type GhPullRequest,
+  type GhPullRequestView,
+  type GhReviewComment,
+  parseIssue,
+  parsePullRequest,
+  parsePullRequestDetails,
+} from './pullRequestFormat';
 import {
   createGitEnv,
   createSimpleGit,
@@ -844,6 +866,67 @@ export class GitService {
     };
   }
 
+  private async listUntrackedFiles(): Promise<string[]> {
+    const output = await this.git.raw(['ls-files', '--others', '--exclude-standard']);
+    return output.split('\n').filter((line) => line.trim());
+  }
+
+  /**
+   * Records the current working tree without touching it. `git stash create` makes a
+   * commit of tracked changes (empty output when clean); untracked files are listed.
+   */
+  async createWorkingTreeSnapshot(): Promise<WorkingTreeSnapshot> {
+    const stashRef = (await this.git.raw(['stash', 'create'])).trim();
+    const ref = stashRef || (await this.git.raw(['rev-parse', 'HEAD'])).trim();
+    return { ref, untracked: await this.listUntrackedFiles() };
+  }
+
+  /**
+   * Files changed since the snapshot, committed or not. Untracked files count as
+   * added unless they were already there when the snapshot was taken.
+   */
+  async getChangedFilesSince(snapshot: WorkingTreeSnapshot): Promise<CommitFileChange[]> {
+    const diff = await this.git.raw(['diff', '--name-status', snapshot.ref]);
+    const files: CommitFileChange[] = [];
+    for (const line of diff.split('\n')) {
+      const match = line.match(/^([MADRCUX])(\d+)?\t(.+)$/);
+      if (!match) continue;
+      const [, status, , filePath] = match;
+      files.push({
+        path: filePath.includes('\t') ? filePath.split('\t')[1] : filePath,
+        status: status as FileChangeStatus,
+      });
+    }
+
+    const existing = new Set(snapshot.untracked);
+    for (const filePath of await this.listUntrackedFiles()) {
+      if (!existing.has(filePath)) {
+        files.push({ path: filePath, status: 'A' });
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Apply a unified diff to the working tree. The patch is written inside the git
+   * dir so the path resolves the same way for native and WSL git.
+   */
+  async applyPatch(patch: string): Promise<void> {
+    const patchPath = (await this.git.raw(['rev-parse', '--git-path', 'enso-apply.patch'])).trim();
+    const absolutePath = path.resolve(this.workdir, patchPath);
+    const content = patch.endsWith('\n') ? patch : `${patch}\n`;
+    try {
+      await fs.writeFile(absolutePath, content, 'utf-8');
+      await this.git.raw(['apply', '--recount', '--whitespace=nowarn', patchPath]);
+    } catch (error) {
+      throw new Error(
+        `Failed to apply patch: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    } finally {
+      await fs.rm(absolutePath, { force: true });
+    }
+  }
+
   async getDiffStats(): Promise<{ insertions: number; deletions: number }> {
     try {
       // Get stats for both staged and unstaged changes
@@ -889,35 +972,43 @@ export class GitService {
     }
   }
 
-  async listPullRequests(): Promise<PullRequest[]> {
-    try {
-      const { stdout } = await execAsync(
-        'gh pr list --state open --json number,title,headRefName,state,author,updatedAt,isDraft --limit 50',
-        {
-          cwd: this.workdir,
-          env: this.getGitEnv(),
+  /**
+   * Runs gh without a shell so titles, bodies and branch names need no quoting.
+   * `input` is written to stdin (for `--input -`).
+   */
+  private runGh(args: string[], input?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        'gh',
+        args,
+        { cwd: this.workdir, env: this.getGitEnv(), maxBuffer: 50 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(new Error(stderr.trim() || error.message));
+            return;
+          }
+          resolve(stdout);
         }
       );
+      if (input !== undefined) {
+        child.stdin?.end(input);
+      }
+    });
+  }
 
-      const prs = JSON.parse(stdout) as Array<{
-        number: number;
-        title: string;
-        headRefName: string;
-        state: string;
-        author: { login: string };
-        updatedAt: string;
-        isDraft: boolean;
-      }>;
-
-      return prs.map((pr) => ({
-        number: pr.number,
-        title: pr.title,
-        headRefName: pr.headRefName,
-        state: pr.state as 'OPEN' | 'CLOSED' | 'MERGED',
-        author: pr.author.login,
-        updatedAt: pr.updatedAt,
-        isDraft: pr.isDraft,
-      }));
+  async listPullRequests(): Promise<PullRequest[]> {
+    try {
+      const stdout = await this.runGh([
+        'pr',
+        'list',
+        '--state',
+        'open',
+        '--json',
+        GH_PR_LIST_FIELDS,
+        '--limit',
+        '50',
+      ]);
+      return (JSON.parse(stdout) as GhPullRequest[]).map(parsePullRequest);
     } catch (error) {
       throw new Error(
         `Failed to list PRs: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -925,6 +1016,205 @@ export class GitService {
     }
   }
 
+  /**
+   * Latest PR (in any state) whose head is the given branch, or null if there is none
+   */
+  async getPullRequestForBranch(branch: string): Promise<PullRequest | null> {
+    try {
+      const stdout = await this.runGh([
+        'pr',
+        'list',
+        '--head',
+        branch,
+        '--state',
+        'all',
+        '--json',
+        GH_PR_LIST_FIELDS,
+        '--limit',
+        '1',
+      ]);
+      const [pr] = JSON.parse(stdout) as GhPullRequest[];
+      return pr ? parsePullRequest(pr) : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to get PR for ${branch}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async getPullRequestDetails(prNumber: number): Promise<PullRequestDetails> {
+    try {
+      const [view, reviewComments] = await Promise.all([
+        this.runGh(['pr', 'view', String(prNumber), '--json', GH_PR_VIEW_FIELDS]),
+        // Inline review comments are not part of `gh pr view --json`
+        this.runGh(['api', `repos/{owner}/{repo}/pulls/${prNumber}/comments?per_page=100`]),
+      ]);
+      return parsePullRequestDetails(
+        JSON.parse(view) as GhPullRequestView,
+        JSON.parse(reviewComments) as GhReviewComment[]
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to load PR #${prNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async getPullRequestDiff(prNumber: number): Promise<string> {
+    try {
+      return await this.runGh(['pr', 'diff', String(prNumber), '--color', 'never']);
+    } catch (error) {
+      throw new Error(
+        `Failed to load diff of PR #${prNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Pushes the branch (setting upstream) and opens a PR for it
+   */
+  async createPullRequest(branch: string, options: PullRequestCreateOptions): Promise<PullRequest> {
+    await this.push('origin', branch, true);
+
+    try {
+      const args = [
+        'pr',
+        'create',
+        '--head',
+        branch,
+        '--base',
+        options.base,
+        '--title',
+        options.title,
+        '--body',
+        options.body,
+      ];
+      if (options.draft) {
+        args.push('--draft');
+      }
+      await this.runGh(args);
+    } catch (error) {
+      throw new Error(
+        `Failed to create PR: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const pr = await this.getPullRequestForBranch(branch);
+    if (!pr) {
+      throw new Error(`Failed to create PR: no pull request found for ${branch}`);
+    }
+    return pr;
+  }
+
+  /**
+   * Submits the comments as one review on the PR head commit
+   */
+  async submitPullRequestReview(
+    prNumber: number,
+    comments: PullRequestReviewCommentInput[],
+    body = ''
+  ): Promise<void> {
+    try {
+      const headRefOid = (
+        await this.runGh([
+          'pr',
+          'view',
+          String(prNumber),
+          '--json',
+          'headRefOid',
+          '-q',
+          '.headRefOid',
+        ])
+      ).trim();
+      const payload = {
+        commit_id: headRefOid,
+        event: 'COMMENT',
+        body,
+        comments: comments.map((comment) => ({
+          path: comment.path,
+          body: comment.body,
+          line: comment.line,
+          side: 'RIGHT',
+          ...(comment.startLine && comment.startLine < comment.line
+            ? { start_line: comment.startLine, start_side: 'RIGHT' }
+            : {}),
+        })),
+      };
+      await this.runGh(
+        [
+          'api',
+          '--method',
+          'POST',
+          `repos/{owner}/{repo}/pulls/${prNumber}/reviews`,
+          '--input',
+          '-',
+        ],
+        JSON.stringify(payload)
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to post review to PR #${prNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async mergePullRequest(prNumber: number, method: PullRequestMergeMethod): Promise<void> {
+    try {
+      await this.runGh(['pr', 'merge', String(prNumber), `--${method}`]);
+    } catch (error) {
+      throw new Error(
+        `Failed to merge PR #${prNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async closePullRequest(prNumber: number): Promise<void> {
+    try {
+      await this.runGh(['pr', 'close', String(prNumber)]);
+    } catch (error) {
+      throw new Error(
+        `Failed to close PR #${prNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async listIssues(): Promise<GitHubIssue[]> {
+    try {
+      const stdout = await this.runGh([
+        'issue',
+        'list',
+        '--state',
+        'open',
+        '--json',
+        GH_ISSUE_LIST_FIELDS,
+        '--limit',
+        '200',
+      ]);
+      return (JSON.parse(stdout) as GhIssue[]).map(parseIssue);
+    } catch (error) {
+      throw new Error(
+        `Failed to list issues: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Closes the issue as completed, posting `comment` first when given
+   */
+  async closeIssue(issueNumber: number, comment?: string): Promise<void> {
+    try {
+      const args = ['issue', 'close', String(issueNumber), '--reason', 'completed'];
+      if (comment?.trim()) {
+        args.push('--comment', comment.trim());
+      }
+      await this.runGh(args);
+    } catch (error) {
+      throw new Error(
+        `Failed to close issue #${issueNumber}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   async fetchPullRequest(prNumber: number, localBranch: string): Promise<void> {
     try {
       // Fetch PR head to local branch without checking out
@@ -1670,4 +1960,110 @@ export class GitService {
   async reset(commitHash: string, mode: 'soft' | 'mixed' | 'hard' = 'mixed'): Promise<void> {
     await this.git.reset([`--${mode}`, commitHash]);
   }
+
+  // Stash
+
+  async listStashes(): Promise<GitStash[]> {
+    const output = await this.git.raw(['stash', 'list', `--format=${GIT_STASH_PRETTY_FORMAT}`]);
+    return parseGitStashOutput(output);
+  }
+
+  /**
+   * List files stored in a stash.
+   * Tracked changes are diffed against the stash base (stash^1); untracked files
+   * live in the optional third parent (stash^3) when created with --include-untracked.
+   */
+  async getStashFiles(ref: string): Promise<GitStashFile[]> {
+    const stashRef = ref.trim();
+    const files: GitStashFile[] = [];
+
+    const diffTree = await this.git.raw([
+      'diff-tree',
+      '--no-commit-id',
+      '--name-status',
+      '-r',
+      `${stashRef}^1`,
+      stashRef,
+    ]);
+    for (const line of diffTree.split('\n')) {
+      const match = line.match(/^([MADRCUX])(\d+)?\t(.+)$/);
+      if (match) {
+        const [, status, , filePath] = match;
+        const finalPath = filePath.includes('\t') ? filePath.split('\t')[1] : filePath;
+        files.push({ path: finalPath, status: status as FileChangeStatus });
+      }
+    }
+
+    const untrackedTree = await this.git
+      .raw(['ls-tree', '-r', '--name-only', `${stashRef}^3`])
+      .catch(() => '');
+    for (const filePath of untrackedTree.split('\n')) {
+      if (filePath.trim()) {
+        files.push({ path: filePath, status: 'A', untracked: true });
+      }
+    }
+
+    return files;
+  }
+
+  async getStashFileDiff(ref: string, filePath: string, untracked = false): Promise<FileDiff> {
+    const stashRef = ref.trim();
+    const show = (spec: string) => this.git.show([spec]).catch(() => '');
+
+    if (untracked) {
+      return { path: filePath, original: '', modified: await show(`${stashRef}^3:${filePath}`) };
+    }
+
+    const numstat = await this.git
+      .raw(['diff', '--numstat', `${stashRef}^1`, stashRef, '--', filePath])
+      .catch(() => '');
+    if (numstat.startsWith('-\t-\t')) {
+      return { path: filePath, original: '', modified: '', isBinary: true };
+    }
+
+    const [original, modified] = await Promise.all([
+      show(`${stashRef}^1:${filePath}`),
+      show(`${stashRef}:${filePath}`),
+    ]);
+    return { path: filePath, original, modified };
+  }
+
+  async createStash(options: GitStashCreateOptions = {}): Promise<void> {
+    const args = ['stash', 'push'];
+    if (options.includeUntracked) args.push('--include-untracked');
+    if (options.keepIndex) args.push('--keep-index');
+    if (options.message?.trim()) args.push('-m', options.message.trim());
+    if (options.paths && options.paths.length > 0) {
+      args.push('--', ...this.normalizePathsForGit(options.paths));
+    }
+    await this.git.raw(args);
+  }
+
+  /**
+   * Resolve a stash commit to its current `stash@{n}`. Indexes shift whenever a
+   * stash is created elsewhere (a terminal, a merge auto-stash), so actions are
+   * addressed by hash and resolved right before running.
+   */
+  private async resolveStashRef(hash: string): Promise<string> {
+    const stash = (await this.listStashes()).find((entry) => entry.hash === hash.trim());
+    if (!stash) {
+      throw new Error(`Stash ${hash.trim().slice(0, 8)} no longer exists`);
+    }
+    return stash.ref;
+  }
+
+  async applyStash(hash: string): Promise<void> {
+    await this.git.raw(['stash', 'apply', await this.resolveStashRef(hash)]);
+  }
+
+  /**
+   * Apply a stash and drop it. If applying conflicts, git keeps the stash entry.
+   */
+  async popStash(hash: string): Promise<void> {
+    await this.git.raw(['stash', 'pop', await this.resolveStashRef(hash)]);
+  }
+
+  async dropStash(hash: string): Promise<void> {
+    await this.git.raw(['stash', 'drop', await this.resolveStashRef(hash)]);
+  }
 }
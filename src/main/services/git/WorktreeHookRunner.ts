@@ -0,0 +1,309 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { EnsoRepoConfig, WorktreeHookName, WorktreeHookRun } from '@shared/types';
+import { killProcessTree } from '../../utils/processUtils';
+import { getEnvForCommand, getShellForCommand } from '../../utils/shell';
+import type { WorktreeHookTrust } from './WorktreeHookTrust';
+import {
+  ENSO_CONFIG_PATH,
+  getEnsoConfigHash,
+  hasHook,
+  parseEnsoRepoConfig,
+  resolveInside,
+} from './worktreeHookConfig';
+
+// Keep the tail of long installs; the start is rarely what explains a failure
+const MAX_OUTPUT_LENGTH = 200 * 1024;
+const UPDATE_THROTTLE_MS = 250;
+
+export interface WorktreeHookContext {
+  repoPath: string; // main worktree, where `.enso/config.json` is read from
+  worktreePath: string;
+  branch?: string | null;
+  cwd?: string; // defaults to the worktree
+}
+
+type RunListener = (run: WorktreeHookRun) => void;
+
+interface LoadedEnsoRepoConfig {
+  config: EnsoRepoConfig;
+  hash: string; // of the raw file, see getEnsoConfigHash
+}
+
+async function loadEnsoRepoConfig(repoPath: string): Promise<LoadedEnsoRepoConfig | null> {
+  const configPath = path.join(repoPath, ENSO_CONFIG_PATH);
+  let content: string;
+  try {
+    content = await fs.readFile(configPath, 'utf-8');
+  } catch {
+    return null;
+  }
+  try {
+    return { config: parseEnsoRepoConfig(JSON.parse(content)), hash: getEnsoConfigHash(content) };
+  } catch (error) {
+    throw new Error(
+      `Invalid ${ENSO_CONFIG_PATH}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/** Reads `.enso/config.json` of the repository, null when there is none */
+export async function readEnsoRepoConfig(repoPath: string): Promise<EnsoRepoConfig | null> {
+  return (await loadEnsoRepoConfig(repoPath))?.config ?? null;
+}
+
+function getRunKey(worktreePath: string, hook: WorktreeHookName): string {
+  return `${path.resolve(worktreePath)}\0${hook}`;
+}
+
+/**
+ * Runs repository lifecycle hooks in the main process, keeping the latest run of
+ * each hook per worktree (output, exit status) so the renderer can show it.
+ */
+export class WorktreeHookRunner {
+  private readonly runs = new Map<string, WorktreeHookRun>();
+  private readonly active = new Map<string, Promise<WorktreeHookRun>>();
+  private readonly processes = new Set<ChildProcess>();
+
+  constructor(
+    private readonly onUpdate: RunListener,
+    private readonly trust: WorktreeHookTrust
+  ) {}
+
+  getRuns(): WorktreeHookRun[] {
+    return Array.from(this.runs.values());
+  }
+
+  /** Forgets the runs of a removed worktree */
+  clearWorktree(worktreePath: string): void {
+    const prefix = `${path.resolve(worktreePath)}\0`;
+    for (const key of this.runs.keys()) {
+      if (key.startsWith(prefix)) {
+        this.runs.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Runs the hook if the repository configures it. Resolves null when it doesn't;
+   * a run already in progress for the same worktree and hook is reused. An invalid
+   * config resolves a failed run without an exit code, and every hook waits in
+   * `approval` until the user approves the current content of the config.
+   */
+  async run(hook: WorktreeHookName, context: WorktreeHookContext): Promise<WorktreeHookRun | null> {
+    const key = getRunKey(context.worktreePath, hook);
+    const inProgress = this.active.get(key);
+    if (inProgress) return inProgress;
+
+    let loaded: LoadedEnsoRepoConfig | null;
+    try {
+      loaded = await loadEnsoRepoConfig(context.repoPath);
+    } catch (error) {
+      return this.record(key, hook, [], context, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    if (!loaded || !hasHook(loaded.config, hook)) return null;
+    const { config, hash } = loaded;
+
+    if (!this.trust.isApproved(context.repoPath, hash)) {
+      return this.record(key, hook, config.hooks[hook] ?? [], context, {
+        status: 'approval',
+        error: `${ENSO_CONFIG_PATH} has not been approved to run`,
+      });
+    }
+
+    const promise = this.execute(key, hook, config, context).finally(() => {
+      this.active.delete(key);
+    });
+    this.active.set(key, promise);
+    return promise;
+  }
+
+  /** Trusts the repository's current config, then runs the hook */
+  async approveAndRun(
+    hook: WorktreeHookName,
+    context: WorktreeHookContext
+  ): Promise<WorktreeHookRun | null> {
+    const loaded = await loadEnsoRepoConfig(context.repoPath);
+    if (loaded) {
+      this.trust.approve(context.repoPath, loaded.hash);
+    }
+    return this.run(hook, context);
+  }
+
+  stopAll(): void {
+    for (const proc of this.processes) {
+      killProcessTree(proc);
+    }
+    this.processes.clear();
+  }
+
+  /** Stores a run that finished without executing anything */
+  private record(
+    key: string,
+    hook: WorktreeHookName,
+    commands: string[],
+    context: WorktreeHookContext,
+    result: Pick<WorktreeHookRun, 'status' | 'error'>
+  ): WorktreeHookRun {
+    const now = Date.now();
+    const run: WorktreeHookRun = {
+      id: randomUUID(),
+      hook,
+      repoPath: context.repoPath,
+      worktreePath: context.worktreePath,
+      commands,
+      exitCode: null,
+      output: '',
+      startedAt: now,
+      finishedAt: now,
+      ...result,
+    };
+    this.runs.set(key, run);
+    this.onUpdate({ ...run });
+    return { ...run };
+  }
+
+  private async execute(
+    key: string,
+    hook: WorktreeHookName,
+    config: EnsoRepoConfig,
+    context: WorktreeHookContext
+  ): Promise<WorktreeHookRun> {
+    const commands = config.hooks[hook] ?? [];
+    const run: WorktreeHookRun = {
+      id: randomUUID(),
+      hook,
+      repoPath: context.repoPath,
+      worktreePath: context.worktreePath,
+      commands,
+      status: 'running',
+      exitCode: null,
+      output: '',
+      startedAt: Date.now(),
+    };
+    this.runs.set(key, run);
+
+    let updateTimer: NodeJS.Timeout | null = null;
+    const emit = () => {
+      if (updateTimer) {
+        clearTimeout(updateTimer);
+        updateTimer = null;
+      }
+      this.onUpdate({ ...run });
+    };
+    const append = (text: string) => {
+      run.output = (run.output + text).slice(-MAX_OUTPUT_LENGTH);
+      updateTimer ??= setTimeout(emit, UPDATE_THROTTLE_MS);
+    };
+    emit();
+
+    const deadline = run.startedAt + config.hookTimeout * 1000;
+    try {
+      if (hook === 'post-create') {
+        await this.copyFiles(config.copyFiles, context, append);
+      }
+      for (const command of commands) {
+        append(`$ ${command}\n`);
+        const exitCode = await this.runCommand(command, hook, context, deadline, append);
+        run.exitCode = exitCode;
+        if (exitCode === null) {
+          run.status = 'timeout';
+          run.error = `Timed out after ${config.hookTimeout}s`;
+          break;
+        }
+        if (exitCode !== 0) {
+          run.status = 'failed';
+          run.error = `"${command}" exited with code ${exitCode}`;
+          break;
+        }
+      }
+      if (run.status === 'running') {
+        run.status = 'success';
+      }
+    } catch (error) {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+    }
+
+    run.finishedAt = Date.now();
+    emit();
+    return { ...run };
+  }
+
+  private async copyFiles(
+    files: string[],
+    context: WorktreeHookContext,
+    append: (text: string) => void
+  ): Promise<void> {
+    for (const file of files) {
+      const source = resolveInside(context.repoPath, file);
+      const target = resolveInside(context.worktreePath, file);
+      if (!source || !target) {
+        append(`Skipped ${file}: path is outside the repository\n`);
+        continue;
+      }
+      if (!existsSync(source)) {
+        append(`Skipped ${file}: not found in the main worktree\n`);
+        continue;
+      }
+      if (existsSync(target)) {
+        append(`Skipped ${file}: already exists\n`);
+        continue;
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.cp(source, target, { recursive: true });
+      append(`Copied ${file}\n`);
+    }
+  }
+
+  /** Resolves the exit code, or null when the deadline was hit */
+  private runCommand(
+    command: string,
+    hook: WorktreeHookName,
+    context: WorktreeHookContext,
+    deadline: number,
+    append: (text: string) => void
+  ): Promise<number | null> {
+    const { shell, args } = getShellForCommand();
+    const proc = spawn(shell, [...args, command], {
+      cwd: context.cwd ?? context.worktreePath,
+      env: {
+        ...(getEnvForCommand() as NodeJS.ProcessEnv),
+        ENSO_HOOK: hook,
+        ENSO_ROOT_PATH: context.repoPath,
+        ENSO_WORKTREE_PATH: context.worktreePath,
+        ENSO_BRANCH: context.branch ?? '',
+      },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    this.processes.add(proc);
+
+    return new Promise((resolve) => {
+      let timedOut = false;
+      const timer = setTimeout(
+        () => {
+          timedOut = true;
+          killProcessTree(proc);
+        },
+        Math.max(0, deadline - Date.now())
+      );
+
+      proc.stdout?.on('data', (data: Buffer) => append(data.toString('utf-8')));
+      proc.stderr?.on('data', (data: Buffer) => append(data.toString('utf-8')));
+
+      proc.on('error', (error) => {
+        append(`${error.message}\n`);
+      });
+      proc.on('close', (code) => {
+        clearTimeout(timer);
+        this.processes.delete(proc);
+        resolve(timedOut ? null : (code ?? 1));
+      });
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { app } from 'electron';
+
+type Approvals = Record<string, string>; // repository path -> approved config hash
+
+function getTrustPath(): string {
+  return path.join(app.getPath('userData'), 'worktree-hook-trust.json');
+}
+
+/**
+ * Remembers which `.enso/config.json` of each repository the user approved, so
+ * hooks only execute commands the user has seen.
+ */
+export class WorktreeHookTrust {
+  private approvals: Approvals | null = null;
+
+  isApproved(repoPath: string, configHash: string): boolean {
+    return this.load()[path.resolve(repoPath)] === configHash;
+  }
+
+  approve(repoPath: string, configHash: string): void {
+    const approvals = this.load();
+    approvals[path.resolve(repoPath)] = configHash;
+    writeFileSync(getTrustPath(), JSON.stringify(approvals, null, 2), { mode: 0o600 });
+  }
+
+  private load(): Approvals {
+    if (this.approvals) return this.approvals;
+    try {
+      const filePath = getTrustPath();
+      this.approvals = existsSync(filePath)
+        ? (JSON.parse(readFileSync(filePath, 'utf-8')) as Approvals)
+        : {};
+    } catch (error) {
+      // Unreadable approvals only mean asking again
+      console.warn('[WorktreeHookTrust] Failed to read approvals:', error);
+      this.approvals = {};
+    }
+    return this.approvals;
+  }
+}
@@ -1,26 +1,36 @@
 import { exec } from 'node:child_process';
 import { existsSync } from 'node:fs';
-import { readFile, rm, writeFile } from 'node:fs/promises';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { promisify } from 'node:util';
-import type {
-  ConflictResolution,
-  GitWorktree,
-  MergeConflict,
-  MergeConflictContent,
-  MergeState,
-  StashStatus,
-  WorktreeCreateOptions,
-  WorktreeMergeCleanupOptions,
-  WorktreeMergeOptions,
-  WorktreeMergeResult,
-  WorktreeRemoveOptions,
+import {
+  type CherryPickState,
+  type ConflictResolution,
+  type GitLogEntry,
+  type GitWorktree,
+  MERGE_AUTO_STASH_MESSAGE,
+  type MergeConflict,
+  type MergeConflictContent,
+  type MergeState,
+  type StashStatus,
+  type WorktreeCherryPickOptions,
+  type WorktreeCherryPickResult,
+  type WorktreeCreateOptions,
+  type WorktreeMergeCleanupOptions,
+  type WorktreeMergeOptions,
+  type WorktreeMergeResult,
+  type WorktreeRebaseOptions,
+  type WorktreeRebaseResult,
+  type WorktreeRemoveOptions,
 } from '@shared/types';
 import iconv from 'iconv-lite';
 import jschardet from 'jschardet';
 import type { SimpleGit } from 'simple-git';
 import { gitShow } from './encoding';
+import { GIT_LOG_PRETTY_FORMAT, parseGitLogOutput } from './gitLogFormat';
+import { buildRebaseTodo, findRebasePlanMismatch, validateRebaseTodo } from './rebaseTodo';
 import {
+  createGitEnv,
   createSimpleGit,
   fromGitPath as fromRuntimeGitPath,
   toGitPath as toRuntimeGitPath,
@@ -35,6 +45,21 @@ function createGit(workdir: string): SimpleGit {
   return createSimpleGit(workdir);
 }
 
+// Directory inside the git dir holding the generated todo script and reword messages
+const REBASE_PLAN_DIR = 'enso-rebase';
+
+/**
+ * Create a simpleGit instance for rebase/cherry-pick commands that never waits on an editor.
+ * Prepared and combined (squash) commit messages are accepted as-is.
+ */
+function createRebaseGit(workdir: string, sequenceEditor?: string): SimpleGit {
+  return createSimpleGit(workdir).env({
+    ...createGitEnv(workdir),
+    GIT_EDITOR: 'true',
+    ...(sequenceEditor ? { GIT_SEQUENCE_EDITOR: sequenceEditor } : {}),
+  });
+}
+
 /**
  * Kill processes that have their working directory under the specified path (Windows only)
  */
@@ -75,6 +100,22 @@ export class WorktreeService {
     return fromRuntimeGitPath(this.workdir, inputPath);
   }
 
+  /**
+   * Path as seen by the git process, with forward slashes so it can be used in shell commands
+   */
+  private toShellPath(inputPath: string): string {
+    return this.toGitPath(inputPath).replace(/\\/g, '/');
+  }
+
+  /**
+   * Resolve the git directory of a worktree (`.git` is a file in linked worktrees)
+   */
+  private async getGitDir(workdir: string): Promise<string> {
+    const git = createGit(workdir);
+    const gitDir = await git.revparse(['--absolute-git-dir']);
+    return this.fromGitPath(gitDir.trim());
+  }
+
   /**
    * Safely delete a branch, ignoring errors if branch doesn't exist or is in use
    */
@@ -371,7 +412,7 @@ export class WorktreeService {
     if (!worktreeStatus.isClean()) {
       if (autoStash) {
         try {
-          await worktreeGit.stash(['push', '-m', 'Auto stash before merge']);
+          await worktreeGit.stash(['push', '-m', MERGE_AUTO_STASH_MESSAGE]);
           worktreeStashed = true;
         } catch (stashError) {
           return {
@@ -394,7 +435,7 @@ export class WorktreeService {
     if (!mainStatus.isClean()) {
       if (autoStash) {
         try {
-          await mainGit.stash(['push', '-m', 'Auto stash before merge']);
+          await mainGit.stash(['push', '-m', MERGE_AUTO_STASH_MESSAGE]);
           mainStashed = true;
         } catch (stashError) {
           // Restore worktree stash if we stashed it (reuse restoreStashes)
@@ -671,7 +712,7 @@ export class WorktreeService {
     const { join } = await import('node:path');
 
     // Determine git dir (could be .git file for worktrees)
-    const gitDir = join(workdir, '.git');
+    const gitDir = await this.getGitDir(workdir).catch(() => join(workdir, '.git'));
 
     // Check for rebase in progress
     const rebaseDir = existsSync(join(gitDir, 'rebase-merge'))
@@ -682,6 +723,13 @@ export class WorktreeService {
 
     if (rebaseDir) {
       await git.rebase(['--abort']);
+      await rm(join(gitDir, REBASE_PLAN_DIR), { recursive: true, force: true });
+      return;
+    }
+
+    // Check for cherry-pick in progress
+    if (existsSync(join(gitDir, 'CHERRY_PICK_HEAD'))) {
+      await git.raw(['cherry-pick', '--abort']);
       return;
     }
 
@@ -758,4 +806,212 @@ export class WorktreeService {
       };
     }
   }
+
+  /**
+   * List commits on the worktree branch that are not on the target branch, oldest first
+   */
+  async getRebaseCommits(worktreePath: string, targetBranch: string): Promise<GitLogEntry[]> {
+    const git = createGit(worktreePath);
+    const output = await git.raw([
+      'log',
+      '--reverse',
+      '--no-merges',
+      `--pretty=format:${GIT_LOG_PRETTY_FORMAT}`,
+      `${targetBranch}..HEAD`,
+    ]);
+    return parseGitLogOutput(output);
+  }
+
+  /**
+   * Run an interactive rebase of the worktree branch onto the target branch
+   * using a generated todo script instead of the user's editor.
+   */
+  async startRebase(options: WorktreeRebaseOptions): Promise<WorktreeRebaseResult> {
+    const validationError = validateRebaseTodo(options.todo);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    // Agents may have committed since the plan was loaded; the generated todo replaces git's own
+    const commits = await this.getRebaseCommits(options.worktreePath, options.targetBranch);
+    const mismatch = findRebasePlanMismatch(
+      options.todo,
+      commits.map((commit) => commit.hash)
+    );
+    if (mismatch) {
+      return { success: false, error: mismatch };
+    }
+
+    const planDir = join(await this.getGitDir(options.worktreePath), REBASE_PLAN_DIR);
+    await rm(planDir, { recursive: true, force: true });
+    await mkdir(planDir, { recursive: true });
+
+    const getMessageFile = (index: number) => join(planDir, `message-${index}`);
+    await Promise.all(
+      options.todo.map((item, index) =>
+        item.action === 'reword' ? writeFile(getMessageFile(index), item.message) : null
+      )
+    );
+    const todoPath = join(planDir, 'git-rebase-todo');
+    await writeFile(
+      todoPath,
+      buildRebaseTodo(options.todo, (index) => this.toShellPath(getMessageFile(index)))
+    );
+
+    // git invokes the sequence editor with the todo file path appended
+    const git = createRebaseGit(options.worktreePath, `cp "${this.toShellPath(todoPath)}"`);
+    // Still refuse if a commit appears between the check above and git reading the todo
+    const args = ['-c', 'rebase.missingCommitsCheck=error', 'rebase', '--interactive'];
+    if (options.autoStash) {
+      args.push('--autostash');
+    }
+    args.push(options.targetBranch);
+
+    try {
+      await git.raw(args);
+      await rm(planDir, { recursive: true, force: true });
+      return { success: true };
+    } catch (error) {
+      return this.handleRebaseStop(options.worktreePath, planDir, error, true);
+    }
+  }
+
+  /**
+   * Continue an interactive rebase after resolving conflicts.
+   * May stop again when a later commit conflicts.
+   */
+  async continueRebase(worktreePath: string): Promise<WorktreeRebaseResult> {
+    const conflicts = await this.getConflicts(worktreePath);
+    if (conflicts.length > 0) {
+      return { success: false, conflicts, error: 'There are still unresolved conflicts' };
+    }
+
+    const planDir = join(await this.getGitDir(worktreePath), REBASE_PLAN_DIR);
+    try {
+      await createRebaseGit(worktreePath).rebase(['--continue']);
+      await rm(planDir, { recursive: true, force: true });
+      return { success: true };
+    } catch (error) {
+      return this.handleRebaseStop(worktreePath, planDir, error, false);
+    }
+  }
+
+  private async handleRebaseStop(
+    worktreePath: string,
+    planDir: string,
+    error: unknown,
+    abortOnError: boolean
+  ): Promise<WorktreeRebaseResult> {
+    const conflicts = await this.getConflicts(worktreePath);
+    if (conflicts.length > 0) {
+      // Keep the plan dir: remaining reword steps still reference their message files
+      return { success: false, conflicts };
+    }
+
+    if (abortOnError) {
+      try {
+        await createGit(worktreePath).rebase(['--abort']);
+      } catch {
+        // Rebase may not have started at all
+      }
+      await rm(planDir, { recursive: true, force: true });
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Rebase failed: ${errorMessage}` };
+  }
+
+  /**
+   * Cherry-pick commits into another worktree of the same repository.
+   * Stops on the first conflicting commit, leaving the rest queued for continueCherryPick.
+   */
+  async cherryPick(options: WorktreeCherryPickOptions): Promise<WorktreeCherryPickResult> {
+    if (options.commits.length === 0) {
+      return { success: false, error: 'No commits selected' };
+    }
+
+    const args = ['cherry-pick'];
+    if (options.recordOrigin) {
+      args.push('-x');
+    }
+    args.push(...options.commits);
+
+    try {
+      await createRebaseGit(options.worktreePath).raw(args);
+      return { success: true };
+    } catch (error) {
+      return this.handleCherryPickStop(options.worktreePath, error, true);
+    }
+  }
+
+  /**
+   * Get the cherry-pick state of a worktree
+   */
+  async getCherryPickState(worktreePath: string): Promise<CherryPickState> {
+    const gitDir = await this.getGitDir(worktreePath).catch(() => join(worktreePath, '.git'));
+
+    let currentCommit: string;
+    try {
+      currentCommit = (await readFile(join(gitDir, 'CHERRY_PICK_HEAD'), 'utf-8')).trim();
+    } catch {
+      return { inProgress: false };
+    }
+
+    // The sequencer todo lists the current commit followed by the queued ones
+    let remaining = 0;
+    try {
+      const todo = await readFile(join(gitDir, 'sequencer', 'todo'), 'utf-8');
+      const lines = todo.split('\n').filter((line) => line.trim() && !line.startsWith('#'));
+      remaining = Math.max(0, lines.length - 1);
+    } catch {
+      // Single-commit cherry-picks have no sequencer
+    }
+
+    return {
+      inProgress: true,
+      currentCommit,
+      remaining,
+      conflicts: await this.getConflicts(worktreePath),
+    };
+  }
+
+  /**
+   * Continue a cherry-pick after resolving conflicts.
+   * May stop again when a queued commit conflicts.
+   */
+  async continueCherryPick(worktreePath: string): Promise<WorktreeCherryPickResult> {
+    const conflicts = await this.getConflicts(worktreePath);
+    if (conflicts.length > 0) {
+      return { success: false, conflicts, error: 'There are still unresolved conflicts' };
+    }
+
+    try {
+      await createRebaseGit(worktreePath).raw(['cherry-pick', '--continue']);
+      return { success: true };
+    } catch (error) {
+      return this.handleCherryPickStop(worktreePath, error, false);
+    }
+  }
+
+  private async handleCherryPickStop(
+    worktreePath: string,
+    error: unknown,
+    abortOnError: boolean
+  ): Promise<WorktreeCherryPickResult> {
+    const conflicts = await this.getConflicts(worktreePath);
+    if (conflicts.length > 0) {
+      return { success: false, conflicts };
+    }
+
+    if (abortOnError) {
+      try {
+        await createGit(worktreePath).raw(['cherry-pick', '--abort']);
+      } catch {
+        // Cherry-pick may not have started at all
+      }
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: `Cherry-pick failed: ${errorMessage}` };
+  }
 }
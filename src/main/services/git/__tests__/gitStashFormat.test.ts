@@ -0,0 +1,89 @@
+import { MERGE_AUTO_STASH_MESSAGE } from '@shared/types';
+import { describe, expect, it } from 'vitest';
+import { GIT_LOG_FIELD_SEPARATOR, GIT_LOG_RECORD_SEPARATOR } from '../gitLogFormat';
+import { parseGitStashOutput } from '../gitStashFormat';
+
+function stashRecord(ref: string, hash: string, date: string, subject: string): string {
+  return [ref, hash, date, subject].join(GIT_LOG_FIELD_SEPARATOR) + GIT_LOG_RECORD_SEPARATOR;
+}
+
+describe('parseGitStashOutput', () => {
+  it('returns an empty list for empty output', () => {
+    expect(parseGitStashOutput('')).toEqual([]);
+    expect(parseGitStashOutput('\n')).toEqual([]);
+  });
+
+  it('keeps separator-like characters inside the message', () => {
+    const output =
+      stashRecord('stash@{0}', 'abc123', '2026-03-24 10:38:45 +0800', 'On main: fix: a | b: c') +
+      stashRecord(
+        'stash@{1}',
+        'def456',
+        '2026-03-23 09:00:00 +0800',
+        'WIP on feature/x: 1a2b3c4 feat(ui): add {placeholder}'
+      );
+
+    expect(parseGitStashOutput(output)).toEqual([
+      {
+        index: 0,
+        ref: 'stash@{0}',
+        hash: 'abc123',
+        date: '2026-03-24 10:38:45 +0800',
+        message: 'fix: a | b: c',
+        branch: 'main',
+        isAutoStash: false,
+      },
+      {
+        index: 1,
+        ref: 'stash@{1}',
+        hash: 'def456',
+        date: '2026-03-23 09:00:00 +0800',
+        message: '1a2b3c4 feat(ui): add {placeholder}',
+        branch: 'feature/x',
+        isAutoStash: false,
+      },
+    ]);
+  });
+
+  it('parses non-ASCII branch names and messages', () => {
+    const output = stashRecord(
+      'stash@{2}',
+      'abc123',
+      '2026-03-24 10:38:45 +0800',
+      'On 功能/审批: 增加预下载开关 🚀'
+    );
+
+    expect(parseGitStashOutput(output)).toEqual([
+      {
+        index: 2,
+        ref: 'stash@{2}',
+        hash: 'abc123',
+        date: '2026-03-24 10:38:45 +0800',
+        message: '增加预下载开关 🚀',
+        branch: '功能/审批',
+        isAutoStash: false,
+      },
+    ]);
+  });
+
+  it('detects merge auto stashes and detached HEAD stashes', () => {
+    const output = stashRecord(
+      'stash@{0}',
+      'abc123',
+      '2026-03-24 10:38:45 +0800',
+      `On (no branch): ${MERGE_AUTO_STASH_MESSAGE}`
+    );
+
+    expect(parseGitStashOutput(output)).toEqual([
+      {
+        index: 0,
+        ref: 'stash@{0}',
+        hash: 'abc123',
+        date: '2026-03-24 10:38:45 +0800',
+        message: MERGE_AUTO_STASH_MESSAGE,
+        branch: null,
+        isAutoStash: true,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type GhPullRequestView,
+  parseIssue,
+  parsePullRequestDetails,
+  parseStatusCheckRollup,
+} from '../pullRequestFormat';
+
+describe('parseStatusCheckRollup', () => {
+  it('normalizes check runs and commit statuses', () => {
+    expect(
+      parseStatusCheckRollup([
+        {
+          __typename: 'CheckRun',
+          name: 'test',
+          workflowName: 'CI',
+          status: 'COMPLETED',
+          conclusion: 'SUCCESS',
+          detailsUrl: 'https://example.com/1',
+        },
+        { __typename: 'CheckRun', name: 'lint', status: 'IN_PROGRESS', conclusion: '' },
+        { __typename: 'CheckRun', name: 'e2e', status: 'COMPLETED', conclusion: 'CANCELLED' },
+        { __typename: 'StatusContext', context: 'deploy', state: 'PENDING', targetUrl: '' },
+      ])
+    ).toEqual([
+      { name: 'test', workflow: 'CI', state: 'success', url: 'https://example.com/1' },
+      { name: 'lint', workflow: undefined, state: 'pending', url: undefined },
+      { name: 'e2e', workflow: undefined, state: 'failure', url: undefined },
+      { name: 'deploy', state: 'pending', url: undefined },
+    ]);
+    expect(parseStatusCheckRollup(null)).toEqual([]);
+  });
+});
+
+describe('parsePullRequestDetails', () => {
+  const view: GhPullRequestView = {
+    number: 7,
+    title: 'Add feature',
+    headRefName: 'feature',
+    state: 'OPEN',
+    author: { login: 'alice' },
+    updatedAt: '2026-01-02T00:00:00Z',
+    isDraft: false,
+    url: 'https://github.com/o/r/pull/7',
+    body: 'Body',
+    baseRefName: 'main',
+    headRefOid: 'abc',
+    mergeable: 'MERGEABLE',
+    reviewDecision: '',
+    additions: 3,
+    deletions: 1,
+    statusCheckRollup: [],
+    reviews: [
+      {
+        author: { login: 'bob' },
+        state: 'COMMENTED',
+        body: '',
+        submittedAt: '2026-01-01T02:00:00Z',
+      },
+      {
+        author: { login: 'bob' },
+        state: 'APPROVED',
+        body: '',
+        submittedAt: '2026-01-01T03:00:00Z',
+      },
+    ],
+    comments: [
+      { id: 'c1', author: { login: 'bob' }, body: 'Later', createdAt: '2026-01-01T05:00:00Z' },
+    ],
+  };
+
+  it('merges conversation and inline comments in time order', () => {
+    const details = parsePullRequestDetails(view, [
+      {
+        id: 42,
+        user: { login: 'carol' },
+        body: 'Nit',
+        created_at: '2026-01-01T04:00:00Z',
+        path: 'src/a.ts',
+        line: null,
+        original_line: 12,
+      },
+    ]);
+
+    expect(details.comments.map((c) => [c.id, c.path, c.line])).toEqual([
+      ['42', 'src/a.ts', 12],
+      ['c1', undefined, undefined],
+    ]);
+    expect(details.reviewDecision).toBeNull();
+    // The empty COMMENTED review only wraps inline comments
+    expect(details.reviews.map((r) => r.state)).toEqual(['APPROVED']);
+  });
+});
+
+describe('parseIssue', () => {
+  it('flattens author and labels and tolerates a missing body', () => {
+    expect(
+      parseIssue({
+        number: 12,
+        title: 'Crash on startup',
+        body: null,
+        url: 'https://github.com/o/r/issues/12',
+        author: { login: 'dave' },
+        labels: [{ name: 'bug' }, { name: 'p1' }],
+        updatedAt: '2026-01-02T00:00:00Z',
+      })
+    ).toEqual({
+      number: 12,
+      title: 'Crash on startup',
+      body: '',
+      url: 'https://github.com/o/r/issues/12',
+      author: 'dave',
+      labels: ['bug', 'p1'],
+      updatedAt: '2026-01-02T00:00:00Z',
+    });
+  });
+});
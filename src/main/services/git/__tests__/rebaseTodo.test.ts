@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { buildRebaseTodo, findRebasePlanMismatch, validateRebaseTodo } from '../rebaseTodo';
+
+describe('buildRebaseTodo', () => {
+  it('keeps the plan order and amends reworded commits from a message file', () => {
+    const todo = buildRebaseTodo(
+      [
+        { hash: 'bbb222', action: 'pick', message: 'feat: second' },
+        { hash: 'aaa111', action: 'reword', message: 'feat: first\n\nwith body' },
+        { hash: 'ccc333', action: 'fixup', message: 'fixup! feat: first' },
+        { hash: 'ddd444', action: 'drop', message: 'wip' },
+      ],
+      (index) => `/tmp/rebase/message-${index}`
+    );
+
+    expect(todo).toBe(
+      [
+        'pick bbb222 feat: second',
+        'pick aaa111 feat: first',
+        'exec git commit --amend --only --no-verify -F "/tmp/rebase/message-1"',
+        'fixup ccc333 fixup! feat: first',
+        'drop ddd444 wip',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('validateRebaseTodo', () => {
+  it('rejects squashing into nothing', () => {
+    expect(
+      validateRebaseTodo([
+        { hash: 'aaa111', action: 'drop', message: 'a' },
+        { hash: 'bbb222', action: 'squash', message: 'b' },
+      ])
+    ).toMatch(/Cannot squash/);
+  });
+
+  it('rejects empty reword messages', () => {
+    expect(validateRebaseTodo([{ hash: 'aaa11122', action: 'reword', message: '  ' }])).toMatch(
+      /Empty commit message/
+    );
+  });
+
+  it('accepts a valid plan', () => {
+    expect(
+      validateRebaseTodo([
+        { hash: 'aaa111', action: 'pick', message: 'a' },
+        { hash: 'bbb222', action: 'squash', message: 'b' },
+      ])
+    ).toBeNull();
+  });
+});
+
+describe('findRebasePlanMismatch', () => {
+  const plan = [
+    { hash: 'bbb222', action: 'pick' as const, message: 'feat: second' },
+    { hash: 'aaa111', action: 'drop' as const, message: 'feat: first' },
+  ];
+
+  it('accepts a reordered plan of the same commits', () => {
+    expect(findRebasePlanMismatch(plan, ['aaa111', 'bbb222'])).toBeNull();
+  });
+
+  it('rejects commits added to the branch after the plan was made', () => {
+    expect(findRebasePlanMismatch(plan, ['aaa111', 'bbb222', 'ccc333'])).toContain('1 new');
+  });
+
+  it('rejects planned commits that are no longer on the branch', () => {
+    expect(findRebasePlanMismatch(plan, ['aaa111'])).toContain('1 missing');
+  });
+});
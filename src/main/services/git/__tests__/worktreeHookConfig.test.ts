@@ -0,0 +1,69 @@
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  getEnsoConfigHash,
+  hasHook,
+  parseEnsoRepoConfig,
+  resolveInside,
+} from '../worktreeHookConfig';
+
+describe('parseEnsoRepoConfig', () => {
+  it('normalizes hooks to command lists and drops malformed values', () => {
+    const config = parseEnsoRepoConfig({
+      hooks: {
+        'post-create': 'pnpm install',
+        'pre-remove': ['docker compose down', '', 42],
+        'post-merge': [],
+        unknown: 'echo hi',
+      },
+      copyFiles: ['.env', 7],
+      hookTimeout: 'soon',
+    });
+
+    expect(config).toEqual({
+      hooks: {
+        'post-create': ['pnpm install'],
+        'pre-remove': ['docker compose down'],
+      },
+      copyFiles: ['.env'],
+      hookTimeout: 600,
+    });
+  });
+
+  it('treats copyFiles alone as a post-create hook', () => {
+    const config = parseEnsoRepoConfig({ copyFiles: ['.env.local'], hookTimeout: 30 });
+    expect(config.hookTimeout).toBe(30);
+    expect(hasHook(config, 'post-create')).toBe(true);
+    expect(hasHook(config, 'on-activate')).toBe(false);
+    expect(hasHook(parseEnsoRepoConfig(null), 'post-create')).toBe(false);
+  });
+});
+
+describe('resolveInside', () => {
+  const root = path.resolve('/repo');
+
+  it('rejects paths outside the root', () => {
+    expect(resolveInside(root, '.env')).toBe(path.join(root, '.env'));
+    expect(resolveInside(root, 'config/.env')).toBe(path.join(root, 'config', '.env'));
+    expect(resolveInside(root, '../secrets')).toBeNull();
+    expect(resolveInside(root, path.resolve('/etc/passwd'))).toBeNull();
+    expect(resolveInside(root, '.')).toBeNull();
+  });
+});
+
+describe('getEnsoConfigHash', () => {
+  it('changes with any change to the file content', () => {
+    const content = JSON.stringify({ hooks: { 'post-create': 'pnpm install' } });
+    const hash = getEnsoConfigHash(content);
+
+    expect(getEnsoConfigHash(content)).toBe(hash);
+    expect(getEnsoConfigHash(JSON.stringify({ hooks: { 'post-create': 'curl x | sh' } }))).not.toBe(
+      hash
+    );
+    expect(
+      getEnsoConfigHash(
+        JSON.stringify({ hooks: { 'post-create': 'pnpm install' }, hookTimeout: 60 })
+      )
+    ).not.toBe(hash);
+  });
+});
@@ -0,0 +1,33 @@
+import { type GitStash, MERGE_AUTO_STASH_MESSAGE } from '@shared/types';
+import { GIT_LOG_FIELD_SEPARATOR, GIT_LOG_RECORD_SEPARATOR } from './gitLogFormat';
+
+// %gd = stash@{n}, %gs = reflog subject ("On main: message" / "WIP on main: abc123 subject")
+export const GIT_STASH_PRETTY_FORMAT = '%gd%x1f%H%x1f%ai%x1f%gs%x1e';
+
+export function parseGitStashOutput(output: string): GitStash[] {
+  return output
+    .split(GIT_LOG_RECORD_SEPARATOR)
+    .map((record) => record.trim())
+    .filter((record) => record.length > 0)
+    .map((record, position) => {
+      const parts = record.split(GIT_LOG_FIELD_SEPARATOR);
+      const ref = parts[0] || `stash@{${position}}`;
+      const indexMatch = ref.match(/\{(\d+)\}$/);
+      const subject = (parts[3] || '').trim();
+
+      // git prefixes custom messages with "On <branch>: " and default ones with "WIP on <branch>: "
+      const subjectMatch = subject.match(/^(?:WIP on|On) ([^:]+): ([\s\S]*)$/);
+      const branch = subjectMatch ? subjectMatch[1] : null;
+      const message = subjectMatch ? subjectMatch[2] : subject;
+
+      return {
+        index: indexMatch ? Number.parseInt(indexMatch[1], 10) : position,
+        ref,
+        hash: parts[1] || '',
+        date: parts[2] || '',
+        message,
+        branch: branch === '(no branch)' ? null : branch,
+        isAutoStash: message === MERGE_AUTO_STASH_MESSAGE,
+      };
+    });
+}
@@ -0,0 +1,221 @@
+import type {
+  GitHubIssue,
+  PullRequest,
+  PullRequestCheck,
+  PullRequestCheckState,
+  PullRequestComment,
+  PullRequestDetails,
+  PullRequestReview,
+} from '@shared/types';
+
+export const GH_PR_LIST_FIELDS = 'number,title,headRefName,state,author,updatedAt,isDraft,url';
+
+export const GH_PR_VIEW_FIELDS = [
+  GH_PR_LIST_FIELDS,
+  'body',
+  'baseRefName',
+  'headRefOid',
+  'mergeable',
+  'reviewDecision',
+  'additions',
+  'deletions',
+  'statusCheckRollup',
+  'reviews',
+  'comments',
+].join(',');
+
+interface GhAuthor {
+  login?: string;
+}
+
+export interface GhPullRequest {
+  number: number;
+  title: string;
+  headRefName: string;
+  state: string;
+  author?: GhAuthor | null;
+  updatedAt: string;
+  isDraft: boolean;
+  url?: string;
+}
+
+// statusCheckRollup mixes check runs (GitHub Actions, apps) and commit statuses
+interface GhCheckRun {
+  __typename: 'CheckRun';
+  name: string;
+  workflowName?: string;
+  status: string;
+  conclusion: string;
+  detailsUrl?: string;
+}
+
+interface GhStatusContext {
+  __typename: 'StatusContext';
+  context: string;
+  state: string;
+  targetUrl?: string;
+}
+
+export interface GhPullRequestView extends GhPullRequest {
+  body: string;
+  baseRefName: string;
+  headRefOid: string;
+  mergeable: string;
+  reviewDecision: string;
+  additions: number;
+  deletions: number;
+  statusCheckRollup?: Array<GhCheckRun | GhStatusContext> | null;
+  reviews?: Array<{ author?: GhAuthor | null; state: string; body: string; submittedAt: string }>;
+  comments?: Array<{
+    id: string;
+    author?: GhAuthor | null;
+    body: string;
+    createdAt: string;
+    url?: string;
+  }>;
+}
+
+/** Review comment as returned by the REST API (`repos/{owner}/{repo}/pulls/{n}/comments`) */
+export interface GhReviewComment {
+  id: number;
+  user?: GhAuthor | null;
+  body: string;
+  created_at: string;
+  html_url?: string;
+  path: string;
+  line?: number | null;
+  original_line?: number | null;
+}
+
+export function parsePullRequest(pr: GhPullRequest): PullRequest {
+  return {
+    number: pr.number,
+    title: pr.title,
+    headRefName: pr.headRefName,
+    state: pr.state as PullRequest['state'],
+    author: pr.author?.login ?? '',
+    updatedAt: pr.updatedAt,
+    isDraft: pr.isDraft,
+    url: pr.url,
+  };
+}
+
+function getCheckRunState(status: string, conclusion: string): PullRequestCheckState {
+  if (status !== 'COMPLETED') return 'pending';
+  switch (conclusion) {
+    case 'SUCCESS':
+      return 'success';
+    case 'SKIPPED':
+      return 'skipped';
+    case 'NEUTRAL':
+      return 'neutral';
+    default:
+      // FAILURE, CANCELLED, TIMED_OUT, ACTION_REQUIRED, STARTUP_FAILURE, STALE
+      return 'failure';
+  }
+}
+
+function getStatusContextState(state: string): PullRequestCheckState {
+  switch (state) {
+    case 'SUCCESS':
+      return 'success';
+    case 'PENDING':
+    case 'EXPECTED':
+      return 'pending';
+    default:
+      return 'failure';
+  }
+}
+
+export function parseStatusCheckRollup(
+  rollup: GhPullRequestView['statusCheckRollup']
+): PullRequestCheck[] {
+  return (rollup ?? []).map((item) =>
+    item.__typename === 'StatusContext'
+      ? {
+          name: item.context,
+          state: getStatusContextState(item.state),
+          url: item.targetUrl || undefined,
+        }
+      : {
+          name: item.name,
+          workflow: item.workflowName || undefined,
+          state: getCheckRunState(item.status, item.conclusion),
+          url: item.detailsUrl || undefined,
+        }
+  );
+}
+
+/**
+ * Merges the PR conversation comments with the inline review comments, oldest first.
+ */
+export function parsePullRequestDetails(
+  pr: GhPullRequestView,
+  reviewComments: GhReviewComment[]
+): PullRequestDetails {
+  const comments: PullRequestComment[] = [
+    ...(pr.comments ?? []).map((comment) => ({
+      id: comment.id,
+      author: comment.author?.login ?? '',
+      body: comment.body,
+      createdAt: comment.createdAt,
+      url: comment.url,
+    })),
+    ...reviewComments.map((comment) => ({
+      id: String(comment.id),
+      author: comment.user?.login ?? '',
+      body: comment.body,
+      createdAt: comment.created_at,
+      url: comment.html_url,
+      path: comment.path,
+      line: comment.line ?? comment.original_line ?? undefined,
+    })),
+  ].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  return {
+    ...parsePullRequest(pr),
+    url: pr.url ?? '',
+    body: pr.body,
+    baseRefName: pr.baseRefName,
+    headRefOid: pr.headRefOid,
+    mergeable: (pr.mergeable || 'UNKNOWN') as PullRequestDetails['mergeable'],
+    reviewDecision: (pr.reviewDecision || null) as PullRequestDetails['reviewDecision'],
+    additions: pr.additions,
+    deletions: pr.deletions,
+    checks: parseStatusCheckRollup(pr.statusCheckRollup),
+    // Reviews without a summary are just containers for inline comments
+    reviews: (pr.reviews ?? [])
+      .filter((review) => review.body.trim() || review.state !== 'COMMENTED')
+      .map((review) => ({
+        author: review.author?.login ?? '',
+        state: review.state as PullRequestReview['state'],
+        body: review.body,
+        submittedAt: review.submittedAt,
+      })),
+    comments,
+  };
+}
+
+export const GH_ISSUE_LIST_FIELDS = 'number,title,body,url,author,labels,updatedAt';
+
+export interface GhIssue {
+  number: number;
+  title: string;
+  body?: string | null;
+  url: string;
+  author?: GhAuthor | null;
+  labels?: Array<{ name: string }> | null;
+  updatedAt: string;
+}
+
+export function parseIssue(issue: GhIssue): GitHubIssue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body ?? '',
+    url: issue.url,
+    author: issue.author?.login ?? '',
+    labels: (issue.labels ?? []).map((label) => label.name),
+    updatedAt: issue.updatedAt,
+  };
+}
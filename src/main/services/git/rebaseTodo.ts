@@ -0,0 +1,68 @@
+import type { RebaseTodoItem } from '@shared/types';
+
+/**
+ * Validate an interactive rebase plan before handing it to git.
+ * Returns an error message, or null when the plan is valid.
+ */
+export function validateRebaseTodo(items: RebaseTodoItem[]): string | null {
+  if (items.length === 0) {
+    return 'No commits to rebase';
+  }
+
+  const firstKept = items.find((item) => item.action !== 'drop');
+  if (firstKept && (firstKept.action === 'squash' || firstKept.action === 'fixup')) {
+    return `Cannot ${firstKept.action} without a previous commit`;
+  }
+
+  for (const item of items) {
+    if (item.action === 'reword' && !item.message.trim()) {
+      return `Empty commit message for ${item.hash.slice(0, 8)}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compare a plan with the commits the rebase would currently replay (`base..HEAD`).
+ * Returns an error message when the branch moved since the plan was made, so
+ * new commits are never silently dropped by the replaced todo.
+ */
+export function findRebasePlanMismatch(
+  items: RebaseTodoItem[],
+  commitHashes: string[]
+): string | null {
+  const planned = new Set(items.map((item) => item.hash));
+  const current = new Set(commitHashes);
+  const missing = commitHashes.filter((hash) => !planned.has(hash));
+  const gone = items.filter((item) => !current.has(item.hash));
+  if (missing.length > 0 || gone.length > 0) {
+    return `The branch changed since the rebase was planned (${missing.length} new, ${gone.length} missing commits). Reload the commits and try again.`;
+  }
+  return null;
+}
+
+/**
+ * Build the git-rebase-todo script for a plan.
+ * Reworded commits are picked and then amended from a message file, so the
+ * rebase never has to open an interactive editor.
+ * @param getMessageFile - Path of the message file written for the item at `index`
+ */
+export function buildRebaseTodo(
+  items: RebaseTodoItem[],
+  getMessageFile: (index: number) => string
+): string {
+  const lines: string[] = [];
+
+  items.forEach((item, index) => {
+    const subject = item.message.split('\n')[0];
+    if (item.action === 'reword') {
+      lines.push(`pick ${item.hash} ${subject}`);
+      lines.push(`exec git commit --amend --only --no-verify -F "${getMessageFile(index)}"`);
+    } else {
+      lines.push(`${item.action} ${item.hash} ${subject}`);
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+}
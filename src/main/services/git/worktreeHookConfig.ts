@@ -0,0 +1,68 @@
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import { type EnsoRepoConfig, WORKTREE_HOOK_NAMES, type WorktreeHookName } from '@shared/types';
+
+export const ENSO_CONFIG_PATH = path.join('.enso', 'config.json');
+
+const DEFAULT_HOOK_TIMEOUT_SECONDS = 600;
+
+function toCommandList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : [value];
+  return list.filter((item): item is string => typeof item === 'string' && !!item.trim());
+}
+
+/**
+ * Normalizes the parsed `.enso/config.json`. Unknown keys are ignored and malformed
+ * values are dropped, so a partly wrong file still runs the hooks it can.
+ */
+export function parseEnsoRepoConfig(raw: unknown): EnsoRepoConfig {
+  const source = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const rawHooks =
+    source.hooks && typeof source.hooks === 'object'
+      ? (source.hooks as Record<string, unknown>)
+      : {};
+
+  const hooks: EnsoRepoConfig['hooks'] = {};
+  for (const name of WORKTREE_HOOK_NAMES) {
+    const commands = toCommandList(rawHooks[name]);
+    if (commands.length > 0) {
+      hooks[name] = commands;
+    }
+  }
+
+  const timeout = Number(source.hookTimeout);
+
+  return {
+    hooks,
+    copyFiles: Array.isArray(source.copyFiles)
+      ? source.copyFiles.filter((item): item is string => typeof item === 'string' && !!item)
+      : [],
+    hookTimeout: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_HOOK_TIMEOUT_SECONDS,
+  };
+}
+
+/**
+ * Fingerprint of the raw `.enso/config.json`; approvals are tied to it so any
+ * change to the file has to be approved again.
+ */
+export function getEnsoConfigHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function hasHook(config: EnsoRepoConfig, hook: WorktreeHookName): boolean {
+  return (
+    (config.hooks[hook]?.length ?? 0) > 0 || (hook === 'post-create' && config.copyFiles.length > 0)
+  );
+}
+
+/**
+ * Resolves a copyFiles entry inside `root`. Returns null for paths that would
+ * escape it (absolute paths, `..`).
+ */
+export function resolveInside(root: string, relativePath: string): string | null {
+  if (path.isAbsolute(relativePath)) return null;
+  const resolved = path.resolve(root, relativePath);
+  const relative = path.relative(root, resolved);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) return null;
+  return resolved;
+}
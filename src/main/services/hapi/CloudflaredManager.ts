@@ -6,6 +6,7 @@ import { promisify } from 'node:util';
 import { install, Tunnel, use } from 'cloudflared';
 import { app } from 'electron';
 import { killProcessTree } from '../../utils/processUtils';
+import { secretVault } from '../secrets/SecretVault';
 
 const execFileAsync = promisify(execFile);
 
@@ -104,7 +105,7 @@ class CloudflaredManager extends EventEmitter {
         this.tunnel = Tunnel.quick(localUrl, options);
       } else if (config.mode === 'auth' && config.token) {
         console.log('[cloudflared] Auth tunnel mode');
-        this.tunnel = Tunnel.withToken(config.token, options);
+        this.tunnel = Tunnel.withToken(secretVault.resolve(config.token), options);
       } else {
         this.status = {
           installed: true,
@@ -5,6 +5,7 @@ import { EventEmitter } from 'node:events';
 import { promisify } from 'node:util';
 import { killProcessTree } from '../../utils/processUtils';
 import { execInPty, getEnvForCommand, getShellForCommand } from '../../utils/shell';
+import { secretVault } from '../secrets/SecretVault';
 
 const execAsync = promisify(exec);
 
@@ -172,10 +173,10 @@ class HapiServerManager extends EventEmitter {
     };
 
     if (config.cliApiToken) {
-      env.CLI_API_TOKEN = config.cliApiToken;
+      env.CLI_API_TOKEN = secretVault.resolve(config.cliApiToken);
     }
     if (config.telegramBotToken) {
-      env.TELEGRAM_BOT_TOKEN = config.telegramBotToken;
+      env.TELEGRAM_BOT_TOKEN = secretVault.resolve(config.telegramBotToken);
     }
     if (config.webappUrl) {
       env.WEBAPP_URL = config.webappUrl;
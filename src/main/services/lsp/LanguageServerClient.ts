@@ -0,0 +1,189 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import { basename } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { LanguageServerConfig } from '@shared/types';
+import { JsonRpcRequests } from '../../utils/jsonRpc';
+import { killProcessTree } from '../../utils/processUtils';
+import {
+  buildShellCommand,
+  getEnvForCommand,
+  getShellForCommand,
+  getShellQuoteStyle,
+} from '../../utils/shell';
+import { encodeMessage, type JsonRpcMessage, MessageReader } from './jsonRpc';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const INITIALIZE_TIMEOUT_MS = 30000;
+const SHUTDOWN_TIMEOUT_MS = 2000;
+
+type NotificationListener = (method: string, params: unknown) => void;
+
+/**
+ * One language server process speaking LSP over stdio for a single worktree.
+ */
+export class LanguageServerClient {
+  private proc: ChildProcess | null = null;
+  private readonly reader = new MessageReader();
+  private readonly requests = new JsonRpcRequests();
+  private exited = false;
+  readonly openDocuments = new Set<string>();
+
+  constructor(
+    readonly config: LanguageServerConfig,
+    readonly rootPath: string,
+    private readonly onNotification: NotificationListener,
+    private readonly onExit: () => void
+  ) {}
+
+  get isRunning(): boolean {
+    return this.proc !== null && !this.exited;
+  }
+
+  async start(): Promise<void> {
+    const { shell, args: shellArgs } = getShellForCommand();
+    const fullCommand = buildShellCommand(
+      this.config.command,
+      this.config.args,
+      getShellQuoteStyle(shell)
+    );
+    const proc = spawn(shell, [...shellArgs, fullCommand], {
+      cwd: this.rootPath,
+      env: getEnvForCommand() as NodeJS.ProcessEnv,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.proc = proc;
+
+    proc.stdout?.on('data', (chunk: Buffer) => {
+      for (const message of this.reader.push(chunk)) {
+        this.handleMessage(message);
+      }
+    });
+    // Servers log to stderr; keep it out of the way unless debugging
+    proc.stderr?.on('data', () => {});
+    proc.stdin?.on('error', () => {});
+    proc.on('error', (error) => this.handleExit(error));
+    proc.on('exit', (code) => {
+      this.handleExit(new Error(`${this.config.name} exited with code ${code ?? 'null'}`));
+    });
+
+    const rootUri = pathToFileURL(this.rootPath).href;
+    await this.request(
+      'initialize',
+      {
+        processId: process.pid,
+        clientInfo: { name: 'EnsoAI' },
+        rootPath: this.rootPath,
+        rootUri,
+        workspaceFolders: [{ uri: rootUri, name: basename(this.rootPath) }],
+        capabilities: {
+          textDocument: {
+            synchronization: { dynamicRegistration: false, didSave: false },
+            hover: { contentFormat: ['markdown', 'plaintext'] },
+            definition: { linkSupport: true },
+            references: {},
+            rename: { prepareSupport: false },
+            completion: {
+              contextSupport: true,
+              completionItem: {
+                snippetSupport: true,
+                documentationFormat: ['markdown', 'plaintext'],
+                labelDetailsSupport: true,
+              },
+            },
+            publishDiagnostics: { relatedInformation: false },
+          },
+          workspace: { workspaceFolders: true, configuration: true },
+        },
+      },
+      INITIALIZE_TIMEOUT_MS
+    );
+    this.notify('initialized', {});
+  }
+
+  request<T = unknown>(
+    method: string,
+    params: unknown,
+    timeoutMs = REQUEST_TIMEOUT_MS
+  ): Promise<T> {
+    if (this.exited) {
+      return Promise.reject(new Error(`${this.config.name} is not running`));
+    }
+    const { id, response } = this.requests.create<T>(method, timeoutMs, (expiredId) =>
+      this.send({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: expiredId } })
+    );
+    this.send({ jsonrpc: '2.0', id, method, params });
+    return response;
+  }
+
+  notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  async shutdown(): Promise<void> {
+    if (!this.isRunning) return;
+    try {
+      await this.request('shutdown', null, SHUTDOWN_TIMEOUT_MS);
+      this.notify('exit', null);
+    } catch {
+      // Server is unresponsive; kill it below
+    }
+    this.dispose();
+  }
+
+  dispose(): void {
+    if (this.proc && !this.exited) {
+      killProcessTree(this.proc);
+    }
+    this.handleExit(new Error(`${this.config.name} was stopped`));
+  }
+
+  private send(message: JsonRpcMessage): void {
+    if (this.exited || !this.proc?.stdin?.writable) return;
+    this.proc.stdin.write(encodeMessage(message));
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (!message.method) {
+      this.requests.handleResponse(message);
+      return;
+    }
+
+    // Request from the server
+    if (message.id !== undefined && message.id !== null) {
+      this.send({ jsonrpc: '2.0', id: message.id, ...this.handleServerRequest(message) });
+      return;
+    }
+
+    this.onNotification(message.method, message.params);
+  }
+
+  private handleServerRequest(message: JsonRpcMessage): Pick<JsonRpcMessage, 'result' | 'error'> {
+    switch (message.method) {
+      case 'workspace/configuration': {
+        // No client-side settings: answer null for every requested section
+        const items = (message.params as { items?: unknown[] } | undefined)?.items ?? [];
+        return { result: items.map(() => null) };
+      }
+      case 'workspace/workspaceFolders': {
+        const uri = pathToFileURL(this.rootPath).href;
+        return { result: [{ uri, name: basename(this.rootPath) }] };
+      }
+      case 'client/registerCapability':
+      case 'client/unregisterCapability':
+      case 'window/workDoneProgress/create':
+      case 'window/showMessageRequest':
+        return { result: null };
+      default:
+        return { error: { code: -32601, message: `Unhandled method ${message.method}` } };
+    }
+  }
+
+  private handleExit(error: Error): void {
+    if (this.exited) return;
+    this.exited = true;
+    this.requests.rejectAll(error);
+    this.openDocuments.clear();
+    this.onExit();
+  }
+}
@@ -0,0 +1,155 @@
+import type {
+  LspChangeDocumentParams,
+  LspCloseDocumentParams,
+  LspDiagnosticsEvent,
+  LspOpenDocumentParams,
+  LspRequestParams,
+  LspServerTarget,
+} from '@shared/types';
+import { LanguageServerClient } from './LanguageServerClient';
+
+type DiagnosticsListener = (ownerIds: number[], event: LspDiagnosticsEvent) => void;
+
+interface ServerEntry {
+  client: LanguageServerClient;
+  ready: Promise<boolean>;
+  owners: Set<number>;
+}
+
+function getServerKey({ rootPath, serverId }: LspServerTarget): string {
+  return `${rootPath}\0${serverId}`;
+}
+
+/**
+ * Starts language servers on demand (one per worktree and server config) and routes
+ * document sync, requests and diagnostics between them and the renderer.
+ */
+export class LspManager {
+  private readonly servers = new Map<string, ServerEntry>();
+  // Servers that failed to start (e.g. not installed); not retried until the command changes
+  private readonly failed = new Map<string, string>();
+
+  constructor(private readonly onDiagnostics: DiagnosticsListener) {}
+
+  /** Opens a document, starting its server if needed. Resolves false when no server is available */
+  async openDocument(params: LspOpenDocumentParams, ownerId: number): Promise<boolean> {
+    const entry = this.ensureServer(params, ownerId);
+    if (!entry || !(await entry.ready)) return false;
+
+    const { client } = entry;
+    if (client.openDocuments.has(params.uri)) {
+      // Already open in another editor: just sync the content
+      client.notify('textDocument/didChange', {
+        textDocument: { uri: params.uri, version: params.version },
+        contentChanges: [{ text: params.text }],
+      });
+      return true;
+    }
+
+    client.openDocuments.add(params.uri);
+    client.notify('textDocument/didOpen', {
+      textDocument: {
+        uri: params.uri,
+        languageId: params.languageId,
+        version: params.version,
+        text: params.text,
+      },
+    });
+    return true;
+  }
+
+  changeDocument(params: LspChangeDocumentParams): void {
+    const client = this.getRunningClient(params);
+    if (!client?.openDocuments.has(params.uri)) return;
+    client.notify('textDocument/didChange', {
+      textDocument: { uri: params.uri, version: params.version },
+      contentChanges: [{ text: params.text }],
+    });
+  }
+
+  closeDocument(params: LspCloseDocumentParams): void {
+    const client = this.getRunningClient(params);
+    if (!client?.openDocuments.delete(params.uri)) return;
+    client.notify('textDocument/didClose', { textDocument: { uri: params.uri } });
+  }
+
+  async request(params: LspRequestParams): Promise<unknown> {
+    const entry = this.servers.get(getServerKey(params));
+    if (!entry || !(await entry.ready)) return null;
+    try {
+      return await entry.client.request(params.method, params.params);
+    } catch (error) {
+      console.warn(`[lsp] ${params.method} failed:`, error);
+      return null;
+    }
+  }
+
+  destroyByOwner(ownerId: number): void {
+    for (const [key, entry] of this.servers) {
+      entry.owners.delete(ownerId);
+      if (entry.owners.size === 0) {
+        this.servers.delete(key);
+        void entry.client.shutdown();
+      }
+    }
+  }
+
+  destroyAll(): void {
+    for (const entry of this.servers.values()) {
+      entry.client.dispose();
+    }
+    this.servers.clear();
+  }
+
+  private getRunningClient(target: LspServerTarget): LanguageServerClient | null {
+    const entry = this.servers.get(getServerKey(target));
+    return entry?.client.isRunning ? entry.client : null;
+  }
+
+  private ensureServer(params: LspOpenDocumentParams, ownerId: number): ServerEntry | null {
+    const { rootPath, server } = params;
+    const key = getServerKey({ rootPath, serverId: server.id });
+    const commandLine = [server.command, ...server.args].join(' ');
+
+    const existing = this.servers.get(key);
+    if (existing) {
+      existing.owners.add(ownerId);
+      return existing;
+    }
+    if (this.failed.get(key) === commandLine) return null;
+    this.failed.delete(key);
+
+    const client = new LanguageServerClient(
+      server,
+      rootPath,
+      (method, notificationParams) => {
+        if (method !== 'textDocument/publishDiagnostics') return;
+        const entry = this.servers.get(key);
+        if (entry?.client !== client) return;
+        this.onDiagnostics(Array.from(entry.owners), notificationParams as LspDiagnosticsEvent);
+      },
+      () => {
+        // Drop the entry so the next open restarts a server that crashed later on
+        if (this.servers.get(key)?.client === client) {
+          this.servers.delete(key);
+        }
+      }
+    );
+
+    const entry: ServerEntry = {
+      client,
+      owners: new Set([ownerId]),
+      ready: client.start().then(
+        () => true,
+        (error) => {
+          console.warn(`[lsp] Failed to start ${server.name} in ${rootPath}:`, error);
+          this.failed.set(key, commandLine);
+          client.dispose();
+          return false;
+        }
+      ),
+    };
+    this.servers.set(key, entry);
+    return entry;
+  }
+}
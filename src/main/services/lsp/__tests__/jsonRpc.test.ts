@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { encodeMessage, MessageReader } from '../jsonRpc';
+
+describe('MessageReader', () => {
+  it('decodes messages split across chunks', () => {
+    const encoded = encodeMessage({ jsonrpc: '2.0', id: 1, result: { text: 'héllo' } });
+    const reader = new MessageReader();
+
+    expect(reader.push(encoded.subarray(0, 10))).toEqual([]);
+    expect(reader.push(encoded.subarray(10, encoded.length - 3))).toEqual([]);
+    expect(reader.push(encoded.subarray(encoded.length - 3))).toEqual([
+      { jsonrpc: '2.0', id: 1, result: { text: 'héllo' } },
+    ]);
+  });
+
+  it('decodes several messages from one chunk', () => {
+    const chunk = Buffer.concat([
+      encodeMessage({ jsonrpc: '2.0', method: 'a' }),
+      encodeMessage({ jsonrpc: '2.0', method: 'b' }),
+    ]);
+    expect(new MessageReader().push(chunk).map((m) => m.method)).toEqual(['a', 'b']);
+  });
+
+  it('skips malformed headers', () => {
+    const chunk = Buffer.concat([
+      Buffer.from('Bogus: 1\r\n\r\n'),
+      encodeMessage({ jsonrpc: '2.0', method: 'ok' }),
+    ]);
+    expect(new MessageReader().push(chunk).map((m) => m.method)).toEqual(['ok']);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Minimal JSON-RPC 2.0 framing for language servers over stdio
+ * (`Content-Length` header, blank line, UTF-8 JSON body).
+ */
+
+import type { JsonRpcMessage } from '../../utils/jsonRpc';
+
+export type { JsonRpcMessage };
+
+const HEADER_DELIMITER = Buffer.from('\r\n\r\n');
+
+export function encodeMessage(message: JsonRpcMessage): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf8');
+  return Buffer.concat([Buffer.from(`Content-Length: ${body.length}\r\n\r\n`, 'ascii'), body]);
+}
+
+/** Accumulates stdout chunks and yields complete messages */
+export class MessageReader {
+  private buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): JsonRpcMessage[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const messages: JsonRpcMessage[] = [];
+
+    while (true) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) break;
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /Content-Length:\s*(\d+)/i.exec(header);
+      if (!match) {
+        // Malformed header: drop it and resync on the next one
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_DELIMITER.length);
+        continue;
+      }
+
+      const bodyStart = headerEnd + HEADER_DELIMITER.length;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (this.buffer.length < bodyEnd) break;
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+      try {
+        messages.push(JSON.parse(body) as JsonRpcMessage);
+      } catch {
+        // Ignore bodies that are not valid JSON
+      }
+    }
+
+    return messages;
+  }
+}
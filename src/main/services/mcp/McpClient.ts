@@ -0,0 +1,378 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import { type JsonRpcMessage, JsonRpcRequests } from '../../utils/jsonRpc';
+import { killProcessTree } from '../../utils/processUtils';
+import {
+  buildShellCommand,
+  getEnvForCommand,
+  getShellForCommand,
+  getShellQuoteStyle,
+} from '../../utils/shell';
+import { SSEParser } from '../ai/api-stream';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CONNECT_TIMEOUT_MS = 30000;
+const REQUEST_TIMEOUT_MS = 30000;
+const CLOSE_TIMEOUT_MS = 5000;
+
+/**
+ * Minimal transport contract shared by stdio, streamable HTTP and legacy SSE
+ */
+export interface McpTransport {
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): void;
+  /** Called once initialize has negotiated the protocol version */
+  setProtocolVersion?(version: string): void;
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (reason: string) => void;
+}
+
+function parseMessages(text: string): JsonRpcMessage[] {
+  const parsed = JSON.parse(text) as JsonRpcMessage | JsonRpcMessage[];
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+  const emit = (events: ReturnType<SSEParser['parse']>) => {
+    for (const { event, data } of events) onEvent(event ?? 'message', data);
+  };
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    emit(parser.parse(decoder.decode(value, { stream: true })));
+  }
+  emit(parser.flush());
+}
+
+async function describeHttpError(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  return `HTTP ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 500)}` : ''}`;
+}
+
+/**
+ * Launches the server through the user's shell and speaks newline-delimited JSON-RPC
+ */
+export class StdioTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (reason: string) => void;
+  private proc: ChildProcess | null = null;
+  private stdoutBuffer = '';
+
+  constructor(
+    private command: string,
+    private args: string[],
+    private env: Record<string, string>,
+    private cwd: string,
+    private onStderr: (text: string) => void
+  ) {}
+
+  start(): Promise<void> {
+    const { shell, args: shellArgs } = getShellForCommand();
+    const fullCommand = buildShellCommand(this.command, this.args, getShellQuoteStyle(shell));
+    const proc = spawn(shell, [...shellArgs, fullCommand], {
+      cwd: this.cwd,
+      env: { ...getEnvForCommand(), ...this.env } as NodeJS.ProcessEnv,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.proc = proc;
+
+    proc.stdin?.on('error', (err) => {
+      if ((err as NodeJS.ErrnoException).code !== 'EPIPE') {
+        console.error('[mcp-inspector] stdin error:', err.message);
+      }
+    });
+    proc.stdout?.on('data', (chunk: Buffer) => this.handleStdout(chunk.toString()));
+    proc.stderr?.on('data', (chunk: Buffer) => this.onStderr(chunk.toString()));
+    // 'close' fires after stdio is drained, so the stderr tail is complete
+    proc.on('close', (code, signal) => {
+      this.onclose?.(
+        signal ? `Server was stopped (${signal})` : `Server exited with code ${code ?? 0}`
+      );
+    });
+
+    return new Promise((resolve, reject) => {
+      proc.once('spawn', () => resolve());
+      proc.once('error', (err) => reject(err));
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.proc?.stdin?.writable) {
+      throw new Error('Server is not running');
+    }
+    this.proc.stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  close(): void {
+    if (!this.proc) return;
+    const proc = this.proc;
+    this.proc = null;
+    killProcessTree(proc);
+  }
+
+  private handleStdout(text: string): void {
+    this.stdoutBuffer += text;
+    const lines = this.stdoutBuffer.split('\n');
+    this.stdoutBuffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      try {
+        for (const message of parseMessages(trimmed)) this.onmessage?.(message);
+      } catch {
+        // Anything that is not JSON-RPC on stdout breaks real clients; surface it with stderr
+        this.onStderr(`[stdout] ${trimmed}\n`);
+      }
+    }
+  }
+}
+
+/**
+ * Streamable HTTP: every message is a POST, answered with JSON or an SSE stream
+ */
+export class StreamableHttpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (reason: string) => void;
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private abort = new AbortController();
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string>
+  ) {}
+
+  async start(): Promise<void> {}
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        ...this.sessionHeaders(),
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(message),
+      signal: this.abort.signal,
+    });
+    this.sessionId = response.headers.get('mcp-session-id') ?? this.sessionId;
+
+    if (!response.ok) {
+      throw new Error(await describeHttpError(response));
+    }
+    if (response.status === 202 || !response.body) return;
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.includes('text/event-stream')) {
+      // Read in the background; responses are matched by id in McpClient
+      readEventStream(response.body, (event, data) => {
+        if (event === 'message') this.dispatch(data);
+      }).catch((err) => {
+        if (!this.abort.signal.aborted) {
+          console.warn('[mcp-inspector] SSE response error:', err);
+        }
+      });
+      return;
+    }
+    const text = await response.text();
+    if (text.trim()) this.dispatch(text);
+  }
+
+  close(): void {
+    this.abort.abort();
+    if (!this.sessionId) return;
+    // Terminate the session; servers that do not support it answer 405
+    fetch(this.url, {
+      method: 'DELETE',
+      headers: this.sessionHeaders(),
+      signal: AbortSignal.timeout(CLOSE_TIMEOUT_MS),
+    }).catch((err) => {
+      console.warn('[mcp-inspector] Failed to terminate the session:', err);
+    });
+    this.sessionId = null;
+  }
+
+  private sessionHeaders(): Record<string, string> {
+    return {
+      ...this.headers,
+      ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+      ...(this.protocolVersion && { 'MCP-Protocol-Version': this.protocolVersion }),
+    };
+  }
+
+  private dispatch(data: string): void {
+    try {
+      for (const message of parseMessages(data)) this.onmessage?.(message);
+    } catch {
+      console.warn('[mcp-inspector] Ignoring non JSON-RPC payload:', data.slice(0, 200));
+    }
+  }
+}
+
+/**
+ * Legacy HTTP+SSE: a long-lived GET stream announces the POST endpoint and
+ * carries every server message
+ */
+export class SseTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (reason: string) => void;
+  private endpoint: string | null = null;
+  private abort = new AbortController();
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string>
+  ) {}
+
+  async start(): Promise<void> {
+    const response = await fetch(this.url, {
+      headers: { ...this.headers, Accept: 'text/event-stream' },
+      signal: this.abort.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(await describeHttpError(response));
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      readEventStream(response.body!, (event, data) => {
+        if (event === 'endpoint') {
+          this.endpoint = new URL(data, this.url).toString();
+          resolve();
+        } else if (event === 'message') {
+          try {
+            for (const message of parseMessages(data)) this.onmessage?.(message);
+          } catch {
+            console.warn('[mcp-inspector] Ignoring non JSON-RPC payload:', data.slice(0, 200));
+          }
+        }
+      }).then(
+        () => {
+          reject(new Error('Stream ended before the server announced its endpoint'));
+          this.onclose?.('Connection closed by the server');
+        },
+        (err) => {
+          reject(err);
+          if (!this.abort.signal.aborted) {
+            this.onclose?.(err instanceof Error ? err.message : String(err));
+          }
+        }
+      );
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error('Not connected');
+    }
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: this.abort.signal,
+    });
+    if (!response.ok) {
+      throw new Error(await describeHttpError(response));
+    }
+  }
+
+  close(): void {
+    this.abort.abort();
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export interface McpInitializeResult {
+  protocolVersion?: string;
+  capabilities?: { tools?: unknown; prompts?: unknown; resources?: unknown };
+  serverInfo?: { name: string; version?: string };
+  instructions?: string;
+}
+
+/**
+ * JSON-RPC client for the MCP lifecycle: initialize handshake, then requests
+ * matched to responses by id. Server-initiated requests other than ping are
+ * declined since the inspector advertises no client capabilities.
+ */
+export class McpClient {
+  private requests = new JsonRpcRequests();
+  private closedReason: string | null = null;
+
+  constructor(private transport: McpTransport) {
+    transport.onmessage = (message) => this.handleMessage(message);
+    transport.onclose = (reason) => this.handleClose(reason);
+  }
+
+  async connect(clientVersion: string): Promise<McpInitializeResult> {
+    await withTimeout(
+      this.transport.start(),
+      CONNECT_TIMEOUT_MS,
+      'Timed out connecting to the server'
+    );
+    const result = await this.request<McpInitializeResult>('initialize', {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: 'EnsoAI', version: clientVersion },
+    });
+    // Every later HTTP request must carry the negotiated version
+    this.transport.setProtocolVersion?.(result.protocolVersion ?? PROTOCOL_VERSION);
+    await this.transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+    return result;
+  }
+
+  request<T>(method: string, params?: unknown, timeoutMs = REQUEST_TIMEOUT_MS): Promise<T> {
+    if (this.closedReason) {
+      return Promise.reject(new Error(this.closedReason));
+    }
+    const { id, response } = this.requests.create<T>(method, timeoutMs);
+    this.transport.send({ jsonrpc: '2.0', id, method, params }).catch((err) => {
+      this.requests.reject(id, err instanceof Error ? err : new Error(String(err)));
+    });
+    return response;
+  }
+
+  close(): void {
+    this.handleClose('Inspector session closed');
+    this.transport.close();
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (message.method) {
+      if (message.id === undefined || message.id === null) return;
+      // Requests from the server (ping, sampling, roots, elicitation)
+      const reply: JsonRpcMessage =
+        message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : {
+              jsonrpc: '2.0',
+              id: message.id,
+              error: { code: -32601, message: `Method not supported: ${message.method}` },
+            };
+      this.transport.send(reply).catch(() => {});
+      return;
+    }
+    this.requests.handleResponse(message);
+  }
+
+  private handleClose(reason: string): void {
+    if (this.closedReason) return;
+    this.closedReason = reason;
+    this.requests.rejectAll(new Error(reason));
+  }
+}
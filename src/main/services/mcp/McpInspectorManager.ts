@@ -0,0 +1,178 @@
+import { randomUUID } from 'node:crypto';
+import * as os from 'node:os';
+import type {
+  McpInspectorPrompt,
+  McpInspectorResource,
+  McpInspectorTool,
+  McpInspectResult,
+  McpServer,
+  McpToolCallResult,
+} from '@shared/types';
+import { isHttpMcpServer } from '@shared/types';
+import { app } from 'electron';
+import { secretVault } from '../secrets/SecretVault';
+import {
+  McpClient,
+  type McpTransport,
+  SseTransport,
+  StdioTransport,
+  StreamableHttpTransport,
+} from './McpClient';
+
+const STDERR_TAIL_LENGTH = 20000;
+const TOOL_CALL_TIMEOUT_MS = 120000;
+// Guard against servers that keep returning a cursor
+const MAX_LIST_PAGES = 20;
+
+interface InspectorSession {
+  client: McpClient;
+  stderr: string;
+  ownerId?: number;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function listAll<T>(client: McpClient, method: string, key: string): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = await client.request<Record<string, unknown>>(method, cursor ? { cursor } : {});
+    items.push(...((result[key] as T[] | undefined) ?? []));
+    cursor = typeof result.nextCursor === 'string' ? result.nextCursor : undefined;
+    if (!cursor) break;
+  }
+  return items;
+}
+
+function createTransport(
+  server: McpServer,
+  cwd: string,
+  onStderr: (text: string) => void
+): McpTransport {
+  if (isHttpMcpServer(server)) {
+    // Settings hold secret refs; they are only resolved for the connection
+    const headers = secretVault.resolveRecord(server.headers ?? {});
+    return server.transportType === 'sse'
+      ? new SseTransport(server.url, headers)
+      : new StreamableHttpTransport(server.url, headers);
+  }
+  return new StdioTransport(
+    server.command,
+    server.args ?? [],
+    secretVault.resolveRecord(server.env ?? {}),
+    cwd,
+    onStderr
+  );
+}
+
+/**
+ * Short-lived MCP client sessions used by the settings inspector to check that
+ * a configured server starts, and to browse and call what it exposes.
+ */
+export class McpInspectorManager {
+  private sessions = new Map<string, InspectorSession>();
+
+  async start(server: McpServer, cwd?: string, ownerId?: number): Promise<McpInspectResult> {
+    if (!isHttpMcpServer(server) && !server.command) {
+      return { ok: false, error: 'No command configured', stderr: '' };
+    }
+
+    const sessionId = randomUUID();
+    // The process is only spawned on connect, after the session is registered
+    const appendStderr = (text: string) => {
+      const current = this.sessions.get(sessionId);
+      if (current) current.stderr = (current.stderr + text).slice(-STDERR_TAIL_LENGTH);
+    };
+    const session: InspectorSession = {
+      client: new McpClient(createTransport(server, cwd || os.homedir(), appendStderr)),
+      stderr: '',
+      ownerId,
+    };
+    this.sessions.set(sessionId, session);
+
+    try {
+      const init = await session.client.connect(app.getVersion());
+      const capabilities = init.capabilities ?? {};
+      const [tools, prompts, resources] = await Promise.all([
+        capabilities.tools ? listAll<McpInspectorTool>(session.client, 'tools/list', 'tools') : [],
+        capabilities.prompts
+          ? listAll<McpInspectorPrompt>(session.client, 'prompts/list', 'prompts')
+          : [],
+        capabilities.resources
+          ? listAll<McpInspectorResource>(session.client, 'resources/list', 'resources')
+          : [],
+      ]);
+      return {
+        ok: true,
+        snapshot: {
+          sessionId,
+          protocolVersion: init.protocolVersion,
+          serverInfo: init.serverInfo,
+          instructions: init.instructions,
+          tools,
+          prompts,
+          resources,
+        },
+        stderr: session.stderr,
+      };
+    } catch (err) {
+      this.stop(sessionId);
+      return { ok: false, error: errorMessage(err), stderr: session.stderr };
+    }
+  }
+
+  async callTool(
+    sessionId: string,
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<McpToolCallResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return { ok: false, error: 'Inspector session is not running', durationMs: 0, stderr: '' };
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await session.client.request<{ isError?: boolean }>(
+        'tools/call',
+        { name, arguments: args },
+        TOOL_CALL_TIMEOUT_MS
+      );
+      return {
+        ok: true,
+        result,
+        isError: result?.isError === true,
+        durationMs: Date.now() - startedAt,
+        stderr: session.stderr,
+      };
+    } catch (err) {
+      return {
+        ok: false,
+        error: errorMessage(err),
+        durationMs: Date.now() - startedAt,
+        stderr: session.stderr,
+      };
+    }
+  }
+
+  stop(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    session.client.close();
+  }
+
+  stopByOwner(ownerId: number): void {
+    for (const [id, session] of this.sessions) {
+      if (session.ownerId === ownerId) this.stop(id);
+    }
+  }
+
+  stopAll(): void {
+    for (const id of Array.from(this.sessions.keys())) {
+      this.stop(id);
+    }
+  }
+}
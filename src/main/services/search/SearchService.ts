@@ -1,6 +1,7 @@
 import { spawn } from 'node:child_process';
 import { basename, relative } from 'node:path';
 import type {
+  ContentSearchFileList,
   ContentSearchMatch,
   ContentSearchParams,
   ContentSearchResult,
@@ -26,6 +27,18 @@ const EXCLUDE_GLOBS = [
 
 const rgPath = originalRgPath.replace(/\.asar([\\/])/, '.asar.unpacked$1');
 
+// 内容搜索与替换共用的过滤参数
+function getContentFilterArgs(params: ContentSearchParams): string[] {
+  const args = EXCLUDE_GLOBS.flatMap((g) => ['--glob', g]);
+  // ripgrep 默认遵循 .gitignore，如果不使用则添加 --no-ignore
+  if (params.useGitignore === false) args.push('--no-ignore');
+  if (!params.caseSensitive) args.push('-i');
+  if (params.wholeWord) args.push('-w');
+  if (!params.regex) args.push('-F');
+  if (params.filePattern) args.push('--glob', params.filePattern);
+  return args;
+}
+
 // 模糊匹配分数计算
 function fuzzyMatch(query: string, target: string): number {
   const queryLower = query.toLowerCase();
@@ -183,21 +196,20 @@ export class SearchService {
         '100',
         '--max-filesize',
         '1M',
+        ...getContentFilterArgs({
+          rootPath,
+          query,
+          caseSensitive,
+          wholeWord,
+          regex,
+          filePattern,
+          useGitignore,
+        }),
+        '--',
+        query,
+        rootPath,
       ];
 
-      // 忽略常见目录
-      args.push(...EXCLUDE_GLOBS.flatMap((g) => ['--glob', g]));
-
-      // ripgrep 默认遵循 .gitignore，如果不使用则添加 --no-ignore
-      if (!useGitignore) args.push('--no-ignore');
-
-      if (!caseSensitive) args.push('-i');
-      if (wholeWord) args.push('-w');
-      if (!regex) args.push('-F');
-      if (filePattern) args.push('--glob', filePattern);
-
-      args.push('--', query, rootPath);
-
       const matches: ContentSearchMatch[] = [];
       const fileSet = new Set<string>();
       let totalMatches = 0;
@@ -312,6 +324,64 @@ export class SearchService {
       });
     });
   }
+
+  /**
+   * 列出所有包含匹配项的文件，供全局替换使用
+   * 不受结果数量、单文件匹配数和文件大小限制；超时时 truncated 为 true
+   */
+  async listContentFiles(params: ContentSearchParams): Promise<ContentSearchFileList> {
+    const { rootPath, query } = params;
+    if (!query.trim()) {
+      return { files: [], truncated: false };
+    }
+
+    return new Promise((resolve) => {
+      const args = ['--files-with-matches', ...getContentFilterArgs(params), '--', query, rootPath];
+      const files = new Set<string>();
+      let buffer = '';
+      let stderr = '';
+
+      const rg = spawn(rgPath, args);
+      const toList = () =>
+        Array.from(files, (path) => ({ path, relativePath: relative(rootPath, path) }));
+
+      rg.stdout.on('data', (data) => {
+        buffer += data.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          if (line.trim()) files.add(line);
+        }
+      });
+
+      rg.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      const timeoutId = setTimeout(() => {
+        rg.stdout.removeAllListeners('data');
+        rg.removeAllListeners('close');
+        rg.removeAllListeners('error');
+        killProcessTree(rg);
+        resolve({ files: toList(), truncated: true });
+      }, SEARCH_TIMEOUT_MS);
+
+      rg.on('close', (code) => {
+        clearTimeout(timeoutId);
+        if (buffer.trim()) files.add(buffer);
+        if (code === 2 && stderr) {
+          console.error('[SearchService] ripgrep error:', stderr);
+        }
+        resolve({ files: toList(), truncated: false });
+      });
+
+      rg.on('error', (err) => {
+        clearTimeout(timeoutId);
+        console.error('[SearchService] ripgrep spawn error:', err.message);
+        resolve({ files: [], truncated: true });
+      });
+    });
+  }
 }
 
 export const searchService = new SearchService();
@@ -0,0 +1,215 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import { copyFileSync, existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { SecretVaultBackend, SecretVaultStatus } from '@shared/types';
+import { createSecretRef, isSecretRef, parseSecretRef } from '@shared/utils/secretRef';
+import { app, safeStorage } from 'electron';
+import { decryptWithKey, encryptWithKey, SECRET_KEY_LENGTH } from './secretCipher';
+
+interface StoredSecret {
+  backend: SecretVaultBackend;
+  data: string;
+}
+
+interface SecretFile {
+  version: 1;
+  secrets: Record<string, StoredSecret>;
+}
+
+function getSecretsPath(): string {
+  return join(app.getPath('userData'), 'secrets.json');
+}
+
+function getLocalKeyPath(): string {
+  return join(app.getPath('userData'), 'secrets.key');
+}
+
+/**
+ * Encrypted store for provider tokens and integration secrets. Settings only hold
+ * `enso-secret:<id>` references; values are resolved here when a process is
+ * spawned or a config file is written, and never sent to the renderer.
+ *
+ * Uses Electron safeStorage (OS keyring) when available, otherwise AES-GCM with a
+ * key kept next to the vault file.
+ */
+class SecretVault {
+  private file: SecretFile | null = null;
+  // Set when secrets.json exists but can't be read; saving would destroy it
+  private loadError: string | null = null;
+  private localKey: Buffer | null = null;
+  // Decrypted values by id, so resolving does not hit the keyring every time
+  private cache = new Map<string, string>();
+
+  getStatus(): SecretVaultStatus {
+    return { backend: this.getBackend() };
+  }
+
+  /**
+   * Store a value, replacing the entry of `ref` when it exists
+   * @returns Reference to keep in settings
+   */
+  store(value: string, ref?: string): string {
+    const file = this.loadWritable();
+    const existingId = parseSecretRef(ref);
+    const id = existingId && file.secrets[existingId] ? existingId : randomUUID();
+    const backend = this.getBackend();
+
+    file.secrets[id] = { backend, data: this.encrypt(value, backend) };
+    this.cache.set(id, value);
+    this.save();
+    return createSecretRef(id);
+  }
+
+  delete(ref: string): void {
+    const id = parseSecretRef(ref);
+    const file = this.loadWritable();
+    if (!id || !file.secrets[id]) return;
+    delete file.secrets[id];
+    this.cache.delete(id);
+    this.save();
+  }
+
+  /**
+   * Resolve a settings value: references are decrypted, plain values (not yet
+   * migrated) are returned as-is, and missing entries resolve to ''.
+   */
+  resolve(value: string | undefined): string {
+    if (!value) return '';
+    const id = parseSecretRef(value);
+    if (!id) return value;
+
+    const cached = this.cache.get(id);
+    if (cached !== undefined) return cached;
+
+    const entry = this.load().secrets[id];
+    if (!entry) {
+      console.warn(`[SecretVault] Missing secret ${id}`);
+      return '';
+    }
+    try {
+      const decrypted = this.decrypt(entry);
+      this.cache.set(id, decrypted);
+      return decrypted;
+    } catch (error) {
+      console.error(`[SecretVault] Failed to decrypt secret ${id}:`, error);
+      return '';
+    }
+  }
+
+  resolveRecord(record: Record<string, string>): Record<string, string>;
+  resolveRecord(record: Record<string, string> | undefined): Record<string, string> | undefined;
+  resolveRecord(record: Record<string, string> | undefined): Record<string, string> | undefined {
+    if (!record) return record;
+    return Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key, this.resolve(value)])
+    );
+  }
+
+  /** Find the reference holding `value`, used to match external configs to saved ones */
+  findRef(value: string | undefined): string | null {
+    if (!value || isSecretRef(value)) return null;
+    for (const id of Object.keys(this.load().secrets)) {
+      if (this.resolve(createSecretRef(id)) === value) {
+        return createSecretRef(id);
+      }
+    }
+    return null;
+  }
+
+  private getBackend(): SecretVaultBackend {
+    // Linux without a keyring falls back to a hardcoded password ("basic_text"),
+    // which is no better than our local key
+    const keyringAvailable =
+      safeStorage.isEncryptionAvailable() &&
+      (process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text');
+    return keyringAvailable ? 'keychain' : 'file';
+  }
+
+  private encrypt(value: string, backend: SecretVaultBackend): string {
+    if (backend === 'keychain') {
+      return safeStorage.encryptString(value).toString('base64');
+    }
+    return encryptWithKey(value, this.getLocalKey());
+  }
+
+  private decrypt(entry: StoredSecret): string {
+    if (entry.backend === 'keychain') {
+      return safeStorage.decryptString(Buffer.from(entry.data, 'base64'));
+    }
+    return decryptWithKey(entry.data, this.getLocalKey());
+  }
+
+  private getLocalKey(): Buffer {
+    if (this.localKey) return this.localKey;
+
+    const keyPath = getLocalKeyPath();
+    if (existsSync(keyPath)) {
+      const key = Buffer.from(readFileSync(keyPath, 'utf-8').trim(), 'base64');
+      if (key.length !== SECRET_KEY_LENGTH) {
+        // Replacing it would make every secret encrypted with it unreadable
+        throw new Error(`Invalid secret key in ${keyPath}`);
+      }
+      this.localKey = key;
+      return key;
+    }
+
+    const key = randomBytes(SECRET_KEY_LENGTH);
+    // 'wx' fails instead of overwriting a key created in the meantime
+    writeFileSync(keyPath, key.toString('base64'), { mode: 0o600, flag: 'wx' });
+    this.localKey = key;
+    return key;
+  }
+
+  private load(): SecretFile {
+    if (this.file) return this.file;
+
+    const secretsPath = getSecretsPath();
+    try {
+      if (existsSync(secretsPath)) {
+        const parsed = JSON.parse(readFileSync(secretsPath, 'utf-8')) as Partial<SecretFile>;
+        if (parsed.secrets !== undefined && typeof parsed.secrets !== 'object') {
+          throw new Error('"secrets" is not an object');
+        }
+        this.file = { version: 1, secrets: parsed.secrets ?? {} };
+        return this.file;
+      }
+    } catch (error) {
+      console.error('[SecretVault] Failed to read vault:', error);
+      this.loadError = this.backUpUnreadable(secretsPath, error);
+    }
+    this.file = { version: 1, secrets: {} };
+    return this.file;
+  }
+
+  /** Keep a copy of an unreadable vault for recovery; returns the error to report on save */
+  private backUpUnreadable(secretsPath: string, error: unknown): string {
+    const reason = error instanceof Error ? error.message : String(error);
+    const backupPath = `${secretsPath}.${Date.now()}.bak`;
+    try {
+      copyFileSync(secretsPath, backupPath);
+      return `Secret vault ${secretsPath} could not be read (${reason}); a copy was saved to ${backupPath}`;
+    } catch (backupError) {
+      console.error('[SecretVault] Failed to back up vault:', backupError);
+      return `Secret vault ${secretsPath} could not be read (${reason})`;
+    }
+  }
+
+  /** The vault for a change, refusing when an unreadable file would be overwritten */
+  private loadWritable(): SecretFile {
+    const file = this.load();
+    if (this.loadError) {
+      throw new Error(`${this.loadError}. Refusing to overwrite it.`);
+    }
+    return file;
+  }
+
+  private save(): void {
+    const file = this.loadWritable();
+    const secretsPath = getSecretsPath();
+    const tempPath = `${secretsPath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    renameSync(tempPath, secretsPath);
+  }
+}
+
+export const secretVault = new SecretVault();
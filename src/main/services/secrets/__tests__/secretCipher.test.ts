@@ -0,0 +1,26 @@
+import { randomBytes } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { decryptWithKey, encryptWithKey, SECRET_KEY_LENGTH } from '../secretCipher';
+
+describe('secretCipher', () => {
+  const key = randomBytes(SECRET_KEY_LENGTH);
+
+  it('round-trips values with the same key', () => {
+    const encrypted = encryptWithKey('sk-ant-secret', key);
+    expect(encrypted).not.toContain('sk-ant-secret');
+    expect(decryptWithKey(encrypted, key)).toBe('sk-ant-secret');
+  });
+
+  it('uses a fresh iv for every encryption', () => {
+    expect(encryptWithKey('token', key)).not.toBe(encryptWithKey('token', key));
+  });
+
+  it('rejects a different key or tampered data', () => {
+    const encrypted = encryptWithKey('token', key);
+    expect(() => decryptWithKey(encrypted, randomBytes(SECRET_KEY_LENGTH))).toThrow();
+
+    const raw = Buffer.from(encrypted, 'base64');
+    raw[raw.length - 1] ^= 1;
+    expect(() => decryptWithKey(raw.toString('base64'), key)).toThrow();
+  });
+});
@@ -0,0 +1,30 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+export const SECRET_KEY_LENGTH = 32;
+
+/**
+ * Encrypts a value with a local key, used when no OS keyring is available.
+ * Output is base64 of iv + auth tag + ciphertext.
+ */
+export function encryptWithKey(value: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+}
+
+/** Reverses encryptWithKey; throws when the data was tampered with or the key differs */
+export function decryptWithKey(data: string, key: Buffer): string {
+  const raw = Buffer.from(data, 'base64');
+  const iv = raw.subarray(0, IV_LENGTH);
+  const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectPackageManager,
+  parseJustfileRecipes,
+  parseMakefileTargets,
+  parsePackageScripts,
+} from '../taskDiscovery';
+
+describe('detectPackageManager', () => {
+  it('prefers the lockfile', () => {
+    expect(detectPackageManager(['package.json', 'pnpm-lock.yaml'])).toBe('pnpm');
+    expect(detectPackageManager(['yarn.lock'], { packageManager: 'pnpm@9.0.0' })).toBe('yarn');
+    expect(detectPackageManager(['bun.lockb'])).toBe('bun');
+    expect(detectPackageManager(['package-lock.json'])).toBe('npm');
+  });
+
+  it('falls back to the packageManager field, then npm', () => {
+    expect(detectPackageManager(['package.json'], { packageManager: 'yarn@4.1.0' })).toBe('yarn');
+    expect(detectPackageManager(['package.json'], { packageManager: 'deno@2' })).toBe('npm');
+    expect(detectPackageManager(['package.json'])).toBe('npm');
+  });
+});
+
+describe('parsePackageScripts', () => {
+  it('runs scripts with the package manager and quotes unusual names', () => {
+    const tasks = parsePackageScripts(
+      { scripts: { dev: 'vite', 'test:unit': 'vitest', 'build all': 'tsc', bad: 1 } },
+      'pnpm'
+    );
+
+    expect(tasks.map((task) => [task.id, task.command, task.description])).toEqual([
+      ['package:dev', 'pnpm run dev', 'vite'],
+      ['package:test:unit', 'pnpm run test:unit', 'vitest'],
+      ['package:build all', "pnpm run 'build all'", 'tsc'],
+    ]);
+  });
+
+  it('quotes names for the shell that runs the task', () => {
+    const scripts = { scripts: { "it's": 'echo' } };
+    expect(parsePackageScripts(scripts, 'npm', 'powershell')[0].command).toBe("npm run 'it''s'");
+    expect(parsePackageScripts(scripts, 'npm', 'cmd')[0].command).toBe(`npm run "it's"`);
+  });
+
+  it('returns nothing without scripts', () => {
+    expect(parsePackageScripts({ name: 'x' }, 'npm')).toEqual([]);
+    expect(parsePackageScripts(undefined, 'npm')).toEqual([]);
+  });
+});
+
+describe('parseMakefileTargets', () => {
+  it('lists explicit targets with ## descriptions', () => {
+    const makefile = [
+      'CC := gcc',
+      'PREFIX ?= /usr/local',
+      'VERSION ::= 1.0',
+      '.PHONY: build test',
+      '',
+      'build: deps ## Build the app',
+      '\t$(CC) -o app main.c',
+      '%.o: %.c',
+      '\t$(CC) -c $<',
+      'test lint:',
+      '\t./run-tests',
+      'install:: build',
+    ].join('\n');
+
+    expect(parseMakefileTargets(makefile).map((task) => [task.name, task.description])).toEqual([
+      ['build', 'Build the app'],
+      ['test', undefined],
+      ['lint', undefined],
+      ['install', undefined],
+    ]);
+    expect(parseMakefileTargets('build:\n').at(0)?.command).toBe('make build');
+  });
+});
+
+describe('parseJustfileRecipes', () => {
+  it('lists public recipes with the comment above them', () => {
+    const justfile = [
+      'set shell := ["bash", "-c"]',
+      'alias b := build',
+      'version := "1.0"',
+      '',
+      '# Build the project',
+      'build target="debug": _prepare',
+      '    cargo build',
+      '',
+      '@fmt:',
+      '    cargo fmt',
+      '',
+      '_prepare:',
+      '    mkdir -p out',
+      '',
+      '[private]',
+      'hidden:',
+      '    echo hidden',
+    ].join('\n');
+
+    expect(
+      parseJustfileRecipes(justfile).map((task) => [task.name, task.command, task.description])
+    ).toEqual([
+      ['build', 'just build', 'Build the project'],
+      ['fmt', 'just fmt', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  PackageManager,
+  ProjectTask,
+  ProjectTaskDiscovery,
+  ProjectTaskSource,
+} from '@shared/types';
+// Imported directly: utils/shell loads node-pty, which this pure module must not need
+import { quoteShellArg, type ShellQuoteStyle } from '@shared/utils/shellQuote';
+
+const LOCKFILES: [string, PackageManager][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+];
+
+const MAKEFILE_NAMES = ['GNUmakefile', 'makefile', 'Makefile'];
+const JUSTFILE_NAMES = ['justfile', 'Justfile', '.justfile'];
+
+const CARGO_COMMANDS = ['build', 'test', 'run', 'clippy'];
+const GO_COMMANDS = ['build', 'test', 'vet'];
+
+// `build: deps ## Build the app` (also `a b: deps`), but not `FOO := bar` or `%.o: %.c`
+const MAKE_TARGET_REGEX = /^([A-Za-z0-9_][\w./-]*(?:\s+[A-Za-z0-9_][\w./-]*)*)\s*::?(?![:=])(.*)$/;
+// `name param1 param2='x': deps`, optionally prefixed with `@` to run quietly
+const JUST_RECIPE_REGEX = /^@?([A-Za-z_][\w-]*)(\s+[^:]*)?:(?!=)/;
+const JUST_KEYWORDS = new Set(['alias', 'export', 'import', 'mod', 'set']);
+
+function task(source: ProjectTaskSource, name: string, command: string, description?: string) {
+  return { id: `${source}:${name}`, name, command, source, description } satisfies ProjectTask;
+}
+
+/**
+ * Picks the package manager from the lockfile in the worktree, falling back to
+ * the `packageManager` field of package.json and then npm.
+ */
+export function detectPackageManager(fileNames: string[], packageJson?: unknown): PackageManager {
+  const files = new Set(fileNames);
+  for (const [lockfile, manager] of LOCKFILES) {
+    if (files.has(lockfile)) return manager;
+  }
+
+  const field = (packageJson as { packageManager?: unknown } | undefined)?.packageManager;
+  if (typeof field === 'string') {
+    const name = field.split('@')[0];
+    if (name === 'pnpm' || name === 'yarn' || name === 'bun' || name === 'npm') return name;
+  }
+  return 'npm';
+}
+
+export function parsePackageScripts(
+  packageJson: unknown,
+  manager: PackageManager,
+  quoteStyle: ShellQuoteStyle = 'posix'
+): ProjectTask[] {
+  const scripts = (packageJson as { scripts?: unknown } | undefined)?.scripts;
+  if (!scripts || typeof scripts !== 'object') return [];
+
+  return Object.entries(scripts as Record<string, unknown>)
+    .filter(([, script]) => typeof script === 'string')
+    .map(([name, script]) =>
+      task('package', name, `${manager} run ${quoteShellArg(name, quoteStyle)}`, script as string)
+    );
+}
+
+/**
+ * Lists the explicit targets of a Makefile. Special targets (`.PHONY`), pattern
+ * rules and variable assignments are skipped; a trailing `## comment` becomes
+ * the description, following the common self-documenting Makefile convention.
+ */
+export function parseMakefileTargets(
+  content: string,
+  quoteStyle: ShellQuoteStyle = 'posix'
+): ProjectTask[] {
+  const tasks = new Map<string, ProjectTask>();
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line || /^\s/.test(line) || line.startsWith('#')) continue;
+    const match = MAKE_TARGET_REGEX.exec(line);
+    if (!match) continue;
+
+    const description = /##\s*(.+)$/.exec(match[2])?.[1].trim();
+    for (const name of match[1].split(/\s+/)) {
+      if (!tasks.has(name)) {
+        tasks.set(name, task('make', name, `make ${quoteShellArg(name, quoteStyle)}`, description));
+      } else if (description) {
+        tasks.set(name, { ...(tasks.get(name) as ProjectTask), description });
+      }
+    }
+  }
+
+  return [...tasks.values()];
+}
+
+/**
+ * Lists the public recipes of a justfile. Recipes starting with `_` or marked
+ * `[private]` are skipped; the comment line right above a recipe becomes its
+ * description, as `just --list` shows it.
+ */
+export function parseJustfileRecipes(
+  content: string,
+  quoteStyle: ShellQuoteStyle = 'posix'
+): ProjectTask[] {
+  const tasks: ProjectTask[] = [];
+  let comment: string | undefined;
+  let isPrivate = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || /^\s/.test(line)) {
+      comment = undefined;
+      isPrivate = false;
+      continue;
+    }
+    if (line.startsWith('#')) {
+      comment = line.replace(/^#+\s*/, '').trim() || undefined;
+      continue;
+    }
+    if (line.startsWith('[')) {
+      if (/\bprivate\b/.test(line)) isPrivate = true;
+      continue;
+    }
+
+    const match = JUST_RECIPE_REGEX.exec(line);
+    const name = match?.[1];
+    if (name && !JUST_KEYWORDS.has(name) && !name.startsWith('_') && !isPrivate) {
+      tasks.push(task('just', name, `just ${quoteShellArg(name, quoteStyle)}`, comment));
+    }
+    comment = undefined;
+    isPrivate = false;
+  }
+
+  return tasks;
+}
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Discovers the runnable tasks defined in the root of a worktree. Names in the
+ * generated commands are quoted for the shell the task terminal runs.
+ */
+export async function discoverTasks(
+  workdir: string,
+  quoteStyle: ShellQuoteStyle = 'posix'
+): Promise<ProjectTaskDiscovery> {
+  const fileNames = await readdir(workdir);
+  const files = new Set(fileNames);
+  const tasks: ProjectTask[] = [];
+  let packageManager: PackageManager | undefined;
+
+  if (files.has('package.json')) {
+    const text = await readText(path.join(workdir, 'package.json'));
+    let packageJson: unknown;
+    try {
+      packageJson = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Invalid package.json: still report the package manager, without scripts
+    }
+    packageManager = detectPackageManager(fileNames, packageJson);
+    tasks.push(...parsePackageScripts(packageJson, packageManager, quoteStyle));
+  }
+
+  const makefile = MAKEFILE_NAMES.find((name) => files.has(name));
+  if (makefile) {
+    const text = await readText(path.join(workdir, makefile));
+    if (text) tasks.push(...parseMakefileTargets(text, quoteStyle));
+  }
+
+  const justfile = JUSTFILE_NAMES.find((name) => files.has(name));
+  if (justfile) {
+    const text = await readText(path.join(workdir, justfile));
+    if (text) tasks.push(...parseJustfileRecipes(text, quoteStyle));
+  }
+
+  if (files.has('Cargo.toml')) {
+    tasks.push(...CARGO_COMMANDS.map((name) => task('cargo', name, `cargo ${name}`)));
+  }
+
+  if (files.has('go.mod')) {
+    tasks.push(...GO_COMMANDS.map((name) => task('go', name, `go ${name} ./...`)));
+  }
+
+  return { tasks, packageManager };
+}
@@ -0,0 +1,257 @@
+import { execFile } from 'node:child_process';
+import type { DevServerPort } from '@shared/types';
+import pidtree from 'pidtree';
+
+const isWindows = process.platform === 'win32';
+
+const SCAN_INTERVAL_MS = 5000;
+const COMMAND_TIMEOUT_MS = 3000;
+// Enough to catch a URL split across two data chunks
+const OUTPUT_TAIL_LENGTH = 256;
+
+// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape sequences require ESC character
+const ANSI_ESCAPE_REGEX = /\x1b\[[0-9;?]*[a-zA-Z]|\x1b\][^\x07]*\x07/g;
+// "Local: http://localhost:5173/", "http://127.0.0.1:3000", "http://[::1]:8080/app"
+const LOCAL_URL_REGEX =
+  /\b(https?):\/\/(localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\])(?::(\d{2,5}))(\/[^\s'"`<>)\]]*)?/g;
+
+type PortsListener = (id: string, cwd: string, ports: DevServerPort[]) => void;
+
+interface TrackedSession {
+  pid: number;
+  cwd: string;
+  tail: string;
+  // Ports announced in the output, with the URL the server printed
+  announced: Map<number, string>;
+  listening: number[];
+  ports: DevServerPort[];
+}
+
+/**
+ * Extracts local server URLs from terminal output. Wildcard hosts are shown as
+ * localhost so the URL can be opened directly.
+ */
+export function parseLocalUrls(text: string): DevServerPort[] {
+  const ports = new Map<number, string>();
+  const plain = text.replace(ANSI_ESCAPE_REGEX, '');
+
+  for (const match of plain.matchAll(LOCAL_URL_REGEX)) {
+    const [, protocol, host, rawPort, rawPath = '/'] = match;
+    const port = Number(rawPort);
+    if (port < 1 || port > 65535 || ports.has(port)) continue;
+    const displayHost = host === '0.0.0.0' || host.startsWith('[') ? 'localhost' : host;
+    const path = rawPath.replace(/[.,;:]+$/, '') || '/';
+    ports.set(port, `${protocol}://${displayHost}:${port}${path}`);
+  }
+
+  return [...ports].map(([port, url]) => ({ port, url }));
+}
+
+/** Parses `lsof -F pn` output into listening ports by pid */
+export function parseLsofListeningPorts(output: string): Map<number, number[]> {
+  const result = new Map<number, number[]>();
+  let pid = 0;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('p')) {
+      pid = Number(line.slice(1));
+    } else if (line.startsWith('n') && pid) {
+      const port = Number(/:(\d+)$/.exec(line)?.[1]);
+      if (!port) continue;
+      const ports = result.get(pid) ?? [];
+      if (!ports.includes(port)) ports.push(port);
+      result.set(pid, ports);
+    }
+  }
+
+  return result;
+}
+
+/** Parses `netstat -ano -p TCP` output (Windows) into listening ports by pid */
+export function parseNetstatListeningPorts(output: string): Map<number, number[]> {
+  const result = new Map<number, number[]>();
+
+  for (const line of output.split(/\r?\n/)) {
+    const columns = line.trim().split(/\s+/);
+    if (columns.length < 5 || !columns[0].startsWith('TCP') || columns[3] !== 'LISTENING') {
+      continue;
+    }
+    const port = Number(/:(\d+)$/.exec(columns[1])?.[1]);
+    const pid = Number(columns[4]);
+    if (!port || !pid) continue;
+    const ports = result.get(pid) ?? [];
+    if (!ports.includes(port)) ports.push(port);
+    result.set(pid, ports);
+  }
+
+  return result;
+}
+
+/** Returns `root` and all of its descendants from a list of parent/child pairs */
+export function collectProcessTree(root: number, pairs: { ppid: number; pid: number }[]): number[] {
+  const children = new Map<number, number[]>();
+  for (const { ppid, pid } of pairs) {
+    const list = children.get(ppid) ?? [];
+    list.push(pid);
+    children.set(ppid, list);
+  }
+
+  const tree: number[] = [];
+  const queue = [root];
+  const seen = new Set<number>();
+  while (queue.length > 0) {
+    const pid = queue.shift() as number;
+    if (seen.has(pid)) continue;
+    seen.add(pid);
+    tree.push(pid);
+    queue.push(...(children.get(pid) ?? []));
+  }
+  return tree;
+}
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: COMMAND_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+      // lsof exits with 1 when nothing matches, which is not an error here
+      if (error && !stdout && typeof error.code !== 'number') {
+        reject(error);
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+async function getListeningPorts(pids: number[]): Promise<Map<number, number[]>> {
+  if (isWindows) {
+    return parseNetstatListeningPorts(await run('netstat', ['-ano', '-p', 'TCP']));
+  }
+  const output = await run('lsof', [
+    '-nP',
+    '-a',
+    '-iTCP',
+    '-sTCP:LISTEN',
+    '-p',
+    pids.join(','),
+    '-F',
+    'pn',
+  ]);
+  return parseLsofListeningPorts(output);
+}
+
+function samePorts(a: DevServerPort[], b: DevServerPort[]): boolean {
+  return a.length === b.length && a.every((port, i) => port.url === b[i].url);
+}
+
+/**
+ * Tracks the dev servers started from terminal sessions: ports announced in the
+ * output and TCP ports listened on by the session's process tree. Output-only
+ * ports are kept while a command is running in the session, so servers that run
+ * elsewhere (e.g. in a container) still show up.
+ */
+export class DevServerPortTracker {
+  private sessions = new Map<string, TrackedSession>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private scanning = false;
+  // Cleared when lsof/netstat is not installed, leaving only output detection
+  private canScan = true;
+
+  constructor(private readonly listener: PortsListener) {}
+
+  track(id: string, pid: number, cwd: string): void {
+    this.sessions.set(id, { pid, cwd, tail: '', announced: new Map(), listening: [], ports: [] });
+    if (!this.timer) {
+      this.timer = setInterval(() => this.scan(), SCAN_INTERVAL_MS);
+    }
+  }
+
+  output(id: string, data: string): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    const text = session.tail + data;
+    session.tail = text.slice(-OUTPUT_TAIL_LENGTH);
+    // Cheap check before running the regex on every chunk
+    if (!text.includes('://')) return;
+
+    let changed = false;
+    for (const { port, url } of parseLocalUrls(text)) {
+      if (session.announced.get(port) !== url) {
+        session.announced.set(port, url);
+        changed = true;
+      }
+    }
+    if (changed) this.update(id, session);
+  }
+
+  untrack(id: string): void {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+    if (session.ports.length > 0) {
+      this.listener(id, session.cwd, []);
+    }
+    if (this.sessions.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private update(id: string, session: TrackedSession): void {
+    const urls = new Map<number, string>();
+    for (const port of session.listening) {
+      urls.set(port, session.announced.get(port) ?? `http://localhost:${port}`);
+    }
+    for (const [port, url] of session.announced) {
+      if (!urls.has(port)) urls.set(port, url);
+    }
+
+    const ports = [...urls].sort(([a], [b]) => a - b).map(([port, url]) => ({ port, url }));
+    if (samePorts(ports, session.ports)) return;
+    session.ports = ports;
+    this.listener(id, session.cwd, ports);
+  }
+
+  private async scan(): Promise<void> {
+    if (this.scanning || this.sessions.size === 0) return;
+    this.scanning = true;
+
+    try {
+      const pairs = await pidtree(-1, { advanced: true });
+      const trees = new Map<string, number[]>();
+      for (const [id, session] of this.sessions) {
+        trees.set(id, collectProcessTree(session.pid, pairs));
+      }
+
+      // Only sessions running something besides their shell can own a server
+      const busyPids = [...trees.values()].filter((tree) => tree.length > 1).flat();
+      let listening = new Map<number, number[]>();
+      if (busyPids.length > 0 && this.canScan) {
+        try {
+          listening = await getListeningPorts(busyPids);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            console.warn('[pty] Port scan unavailable, using terminal output only');
+            this.canScan = false;
+          }
+        }
+      }
+
+      for (const [id, tree] of trees) {
+        const session = this.sessions.get(id);
+        if (!session) continue;
+        if (tree.length <= 1) {
+          // The command finished: whatever it announced is gone
+          session.announced.clear();
+          session.tail = '';
+        }
+        session.listening = [...new Set(tree.flatMap((pid) => listening.get(pid) ?? []))];
+        this.update(id, session);
+      }
+    } catch {
+      // Process listing failed (e.g. a process exited mid-scan); retry next tick
+    } finally {
+      this.scanning = false;
+    }
+  }
+}
@@ -2,13 +2,20 @@ import { execSync } from 'node:child_process';
 import { existsSync, readdirSync } from 'node:fs';
 import { homedir } from 'node:os';
 import { delimiter, join } from 'node:path';
-import type { TerminalCreateOptions } from '@shared/types';
+import type {
+  TerminalCreateOptions,
+  TerminalPortsEvent,
+  TerminalRecordingInfo,
+} from '@shared/types';
 import * as pty from 'node-pty';
 import pidtree from 'pidtree';
 import pidusage from 'pidusage';
 import { killProcessTree } from '../../utils/processUtils';
 import { getProxyEnvVars } from '../proxy/ProxyConfig';
+import { secretVault } from '../secrets/SecretVault';
+import { DevServerPortTracker } from './DevServerPorts';
 import { detectShell, shellDetector } from './ShellDetector';
+import { TerminalRecorder } from './TerminalRecorder';
 
 const isWindows = process.platform === 'win32';
 
@@ -355,6 +362,12 @@ export class PtyManager {
     }
   >();
   private readonly ACTIVITY_CACHE_TTL_MS = 2000; // 缓存 2 秒
+  private recorder = new TerminalRecorder();
+  private portsListener: ((ownerId: number | null, event: TerminalPortsEvent) => void) | null =
+    null;
+  private ports = new DevServerPortTracker((id, cwd, ports) => {
+    this.portsListener?.(this.sessions.get(id)?.ownerId ?? null, { id, cwd, ports });
+  });
 
   create(
     options: TerminalCreateOptions,
@@ -365,20 +378,26 @@ export class PtyManager {
     const id = `pty-${++this.counter}`;
     const home = process.env.HOME || process.env.USERPROFILE || homedir();
     const cwd = options.cwd || home;
+    // Vault references are only resolved right before spawning, and only where the launch
+    // code marked them: a reference typed into a command would otherwise be echoed in clear
+    const optionArgs = options.args?.map((arg, index) =>
+      options.secretArgs?.includes(index) ? secretVault.resolve(arg) : arg
+    );
+    const optionsEnv = secretVault.resolveRecord(options.env);
 
     let shell: string;
     let args: string[];
 
     if (options.shell) {
       shell = options.shell;
-      args = options.args || [];
+      args = optionArgs || [];
     } else if (options.shellConfig) {
       const resolved = shellDetector.resolveShellConfig(options.shellConfig);
       shell = resolved.shell;
       args = resolved.args;
     } else {
       shell = detectShell();
-      args = options.args || [];
+      args = optionArgs || [];
     }
 
     if (!isWindows && shell.includes('/') && !existsSync(shell)) {
@@ -390,16 +409,21 @@ export class PtyManager {
 
     const initialCommand = options.initialCommand?.trim();
     if (initialCommand) {
+      const keepShell = !options.exitAfterCommand;
       if (isWindows) {
         const isPowerShell =
           shell.toLowerCase().includes('powershell') || shell.toLowerCase().includes('pwsh');
         if (isPowerShell) {
-          args = ['-NoExit', '-Command', initialCommand];
+          args = [...(keepShell ? ['-NoExit'] : []), '-Command', initialCommand];
         } else {
-          args = ['/k', initialCommand];
+          args = [keepShell ? '/k' : '/c', initialCommand];
         }
       } else {
-        args = [...args.filter((a) => a !== '-c'), '-c', `${initialCommand}; exec ${shell}`];
+        args = [
+          ...args.filter((a) => a !== '-c'),
+          '-c',
+          keepShell ? `${initialCommand}; exec ${shell}` : initialCommand,
+        ];
       }
     }
 
@@ -407,7 +431,7 @@ export class PtyManager {
     const baseEnv: Record<string, string> = {
       ...process.env,
       ...getProxyEnvVars(),
-      ...options.env,
+      ...optionsEnv,
       TERM: 'xterm-256color',
       COLORTERM: 'truecolor',
       // Ensure proper locale for UTF-8 support (GUI apps may not inherit LANG)
@@ -438,7 +462,7 @@ export class PtyManager {
             env: {
               ...process.env,
               ...getProxyEnvVars(),
-              ...options.env,
+              ...optionsEnv,
               TERM: 'xterm-256color',
               COLORTERM: 'truecolor',
               // Ensure proper locale for UTF-8 support (GUI apps may not inherit LANG)
@@ -458,11 +482,14 @@ export class PtyManager {
 
     const dataDisposable = ptyProcess.onData((data) => {
       onData(data);
+      this.recorder.output(id, data);
+      this.ports.output(id, data);
     });
 
     // Store session first so onExit callback can access it
     const session: PtySession = { pty: ptyProcess, cwd, ownerId, onData, onExit, dataDisposable };
     this.sessions.set(id, session);
+    this.ports.track(id, ptyProcess.pid, cwd);
 
     const exitDisposable = ptyProcess.onExit(({ exitCode, signal }) => {
       // Read onExit from session to allow it to be replaced during cleanup
@@ -481,8 +508,10 @@ export class PtyManager {
         // Ignore
       }
 
+      this.ports.untrack(id);
       this.sessions.delete(id);
       this.activityCache.delete(id);
+      this.recorder.stop(id);
       exitHandler?.(exitCode, signal);
     });
     session.exitDisposable = exitDisposable;
@@ -501,9 +530,36 @@ export class PtyManager {
     const session = this.sessions.get(id);
     if (session) {
       session.pty.resize(cols, rows);
+      this.recorder.resize(id, cols, rows);
     }
   }
 
+  /**
+   * Start recording the output of a session to an asciicast file under
+   * `<workdir>/.enso/recordings`. Recording stops with the session.
+   */
+  startRecording(id: string, workdir: string, title: string): TerminalRecordingInfo {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new Error(`Terminal session not found: ${id}`);
+    }
+    return this.recorder.start(id, {
+      workdir,
+      title,
+      cols: session.pty.cols,
+      rows: session.pty.rows,
+    });
+  }
+
+  stopRecording(id: string): TerminalRecordingInfo | null {
+    return this.recorder.stop(id);
+  }
+
+  /** Receive the dev server ports detected in each session as they change */
+  setPortsListener(listener: (ownerId: number | null, event: TerminalPortsEvent) => void): void {
+    this.portsListener = listener;
+  }
+
   destroy(id: string): void {
     const session = this.sessions.get(id);
     if (session) {
@@ -519,8 +575,10 @@ export class PtyManager {
         // Ignore
       }
       killProcessTree(session.pty);
+      this.ports.untrack(id);
       this.sessions.delete(id);
       this.activityCache.delete(id);
+      this.recorder.stop(id);
     }
   }
 
@@ -554,6 +612,7 @@ export class PtyManager {
           } catch {
             // Ignore
           }
+          this.ports.untrack(id);
           this.sessions.delete(id);
           this.activityCache.delete(id);
           resolve();
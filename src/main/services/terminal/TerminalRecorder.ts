@@ -0,0 +1,196 @@
+import { createWriteStream, existsSync, mkdirSync, type WriteStream, writeFileSync } from 'node:fs';
+import { open, readdir, readFile, unlink } from 'node:fs/promises';
+import { basename, dirname, join, resolve, sep } from 'node:path';
+import type { TerminalRecordingInfo } from '@shared/types';
+
+/** Recordings live next to the repository's other EnsoAI data, ignored by git */
+export const RECORDINGS_DIR = join('.enso', 'recordings');
+
+const RECORDING_EXT = '.cast';
+
+interface ActiveRecording {
+  stream: WriteStream;
+  startedAt: number;
+  info: TerminalRecordingInfo;
+}
+
+function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return slug || 'terminal';
+}
+
+function formatFileTimestamp(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  );
+}
+
+function ensureRecordingsDir(workdir: string): string {
+  const dir = join(workdir, RECORDINGS_DIR);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+    // Keep recordings out of `git status` without touching the repository's .gitignore
+    writeFileSync(join(dir, '.gitignore'), '*\n');
+  }
+  return dir;
+}
+
+/**
+ * Only files inside a recordings directory may be read or deleted through IPC.
+ * Returns the resolved path, or throws.
+ */
+export function resolveRecordingPath(filePath: string): string {
+  const resolved = resolve(filePath);
+  if (!resolved.endsWith(RECORDING_EXT) || !dirname(resolved).endsWith(`${sep}${RECORDINGS_DIR}`)) {
+    throw new Error('Not a terminal recording');
+  }
+  return resolved;
+}
+
+/**
+ * Writes PTY output to asciicast v2 files: a JSON header line followed by one
+ * `[seconds, "o", data]` event per output chunk and `"r"` events on resize.
+ */
+export class TerminalRecorder {
+  private recordings = new Map<string, ActiveRecording>();
+
+  start(
+    id: string,
+    options: { workdir: string; title: string; cols: number; rows: number }
+  ): TerminalRecordingInfo {
+    this.stop(id);
+
+    const now = new Date();
+    const dir = ensureRecordingsDir(options.workdir);
+    const name = `${formatFileTimestamp(now)}-${slugify(options.title)}${RECORDING_EXT}`;
+    const path = join(dir, name);
+
+    const stream = createWriteStream(path, { encoding: 'utf-8' });
+    stream.on('error', (error) => {
+      console.error(`[recorder] Failed to write ${path}:`, error);
+      this.recordings.delete(id);
+    });
+    stream.write(
+      `${JSON.stringify({
+        version: 2,
+        width: options.cols,
+        height: options.rows,
+        timestamp: Math.floor(now.getTime() / 1000),
+        title: options.title,
+        env: { TERM: 'xterm-256color', SHELL: process.env.SHELL ?? '' },
+      })}\n`
+    );
+
+    const info: TerminalRecordingInfo = {
+      path,
+      name,
+      title: options.title,
+      size: 0,
+      createdAt: now.getTime(),
+    };
+    this.recordings.set(id, { stream, startedAt: now.getTime(), info });
+    return info;
+  }
+
+  isRecording(id: string): boolean {
+    return this.recordings.has(id);
+  }
+
+  output(id: string, data: string): void {
+    this.writeEvent(id, 'o', data);
+  }
+
+  resize(id: string, cols: number, rows: number): void {
+    this.writeEvent(id, 'r', `${cols}x${rows}`);
+  }
+
+  stop(id: string): TerminalRecordingInfo | null {
+    const recording = this.recordings.get(id);
+    if (!recording) return null;
+    this.recordings.delete(id);
+    recording.stream.end();
+    return recording.info;
+  }
+
+  stopAll(): void {
+    for (const id of Array.from(this.recordings.keys())) {
+      this.stop(id);
+    }
+  }
+
+  private writeEvent(id: string, type: 'o' | 'r', data: string): void {
+    const recording = this.recordings.get(id);
+    if (!recording) return;
+    const seconds = (Date.now() - recording.startedAt) / 1000;
+    recording.stream.write(`${JSON.stringify([Number(seconds.toFixed(6)), type, data])}\n`);
+  }
+}
+
+// The header is the first line; avoid reading whole recordings just to list them
+async function readHeader(
+  path: string
+): Promise<{ header: Record<string, unknown>; size: number; mtimeMs: number }> {
+  const file = await open(path, 'r');
+  try {
+    const stats = await file.stat();
+    const buffer = Buffer.alloc(Math.min(4096, stats.size));
+    await file.read(buffer, 0, buffer.length, 0);
+    const text = buffer.toString('utf-8');
+    const end = text.indexOf('\n');
+    return {
+      header: JSON.parse(end === -1 ? text : text.slice(0, end)),
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+    };
+  } finally {
+    await file.close();
+  }
+}
+
+export async function listRecordings(workdir: string): Promise<TerminalRecordingInfo[]> {
+  const dir = join(workdir, RECORDINGS_DIR);
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const recordings = await Promise.all(
+    names
+      .filter((name) => name.endsWith(RECORDING_EXT))
+      .map(async (name): Promise<TerminalRecordingInfo | null> => {
+        const path = join(dir, name);
+        try {
+          const { header, size, mtimeMs } = await readHeader(path);
+          return {
+            path,
+            name,
+            title: typeof header.title === 'string' ? header.title : basename(name, RECORDING_EXT),
+            size,
+            createdAt: typeof header.timestamp === 'number' ? header.timestamp * 1000 : mtimeMs,
+          };
+        } catch {
+          return null;
+        }
+      })
+  );
+
+  return recordings
+    .filter((recording): recording is TerminalRecordingInfo => recording !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function readRecording(filePath: string): Promise<string> {
+  return readFile(resolveRecordingPath(filePath), 'utf-8');
+}
+
+export async function deleteRecording(filePath: string): Promise<void> {
+  await unlink(resolveRecordingPath(filePath));
+}
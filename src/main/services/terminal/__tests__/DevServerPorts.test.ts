@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collectProcessTree,
+  parseLocalUrls,
+  parseLsofListeningPorts,
+  parseNetstatListeningPorts,
+} from '../DevServerPorts';
+
+describe('parseLocalUrls', () => {
+  it('finds the URLs dev servers print', () => {
+    const output = [
+      '  \x1b[32m➜\x1b[39m  \x1b[1mLocal\x1b[22m:   \x1b[36mhttp://localhost:\x1b[1m5173\x1b[22m/\x1b[39m',
+      '  - Local:        http://127.0.0.1:3000',
+      'Listening on http://0.0.0.0:8080/api.',
+      'Server running at https://[::1]:4443/app',
+    ].join('\n');
+
+    expect(parseLocalUrls(output)).toEqual([
+      { port: 5173, url: 'http://localhost:5173/' },
+      { port: 3000, url: 'http://127.0.0.1:3000/' },
+      { port: 8080, url: 'http://localhost:8080/api' },
+      { port: 4443, url: 'https://localhost:4443/app' },
+    ]);
+  });
+
+  it('ignores remote hosts and URLs without a port', () => {
+    expect(parseLocalUrls('see https://example.com:8443 and http://localhost/')).toEqual([]);
+  });
+});
+
+describe('parseLsofListeningPorts', () => {
+  it('groups ports by pid', () => {
+    const output = [
+      'p100',
+      'f21',
+      'n*:5173',
+      'f22',
+      'n[::1]:5173',
+      'p200',
+      'f5',
+      'n127.0.0.1:9229',
+      '',
+    ];
+
+    expect(parseLsofListeningPorts(output.join('\n'))).toEqual(
+      new Map([
+        [100, [5173]],
+        [200, [9229]],
+      ])
+    );
+  });
+});
+
+describe('parseNetstatListeningPorts', () => {
+  it('keeps listening TCP sockets only', () => {
+    const output = [
+      'Active Connections',
+      '',
+      '  Proto  Local Address          Foreign Address        State           PID',
+      '  TCP    0.0.0.0:3000           0.0.0.0:0              LISTENING       4321',
+      '  TCP    [::]:3000              [::]:0                 LISTENING       4321',
+      '  TCP    127.0.0.1:52000        127.0.0.1:3000         ESTABLISHED     999',
+    ].join('\r\n');
+
+    expect(parseNetstatListeningPorts(output)).toEqual(new Map([[4321, [3000]]]));
+  });
+});
+
+describe('collectProcessTree', () => {
+  it('returns the root and its descendants', () => {
+    const pairs = [
+      { ppid: 1, pid: 10 },
+      { ppid: 10, pid: 11 },
+      { ppid: 11, pid: 12 },
+      { ppid: 1, pid: 20 },
+    ];
+
+    expect(collectProcessTree(10, pairs)).toEqual([10, 11, 12]);
+    expect(collectProcessTree(30, pairs)).toEqual([30]);
+  });
+});
@@ -1,4 +1,11 @@
 import { join } from 'node:path';
+import type {
+  TodoColumnData,
+  TodoTaskData,
+  TodoTaskRunData,
+  TodoTaskRunUpdates,
+  TodoTaskUpdates,
+} from '@shared/types';
 import { app } from 'electron';
 import sqlite3 from 'sqlite3';
 
@@ -14,6 +21,40 @@ export interface TodoTaskRow {
   order: number;
   created_at: number;
   updated_at: number;
+  labels: string;
+  parent_id: string | null;
+  blocked_by: string;
+  branch: string | null;
+  worktree_path: string | null;
+  due_date: number | null;
+  issue_number: number | null;
+}
+
+interface TodoTaskRunRow {
+  id: string;
+  repo_path: string;
+  task_id: string;
+  session_id: string;
+  agent_id: string;
+  agent_name: string;
+  cwd: string;
+  status: string;
+  started_at: number;
+  ended_at: number | null;
+  snapshot: string | null;
+  model: string | null;
+  cost_usd: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  changed_files: string;
+  final_message: string | null;
+}
+
+interface TodoColumnRow {
+  id: string;
+  repo_path: string;
+  title: string;
+  order: number;
 }
 
 type DbCallback<T> = (err: Error | null, result: T) => void;
@@ -61,17 +102,19 @@ function dbExec(database: sqlite3.Database, sql: string): Promise<void> {
   });
 }
 
+/** Parse a JSON string array column, tolerating malformed values */
+function parseStringArray(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item) => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
 /** Convert a DB row to the frontend TodoTask shape */
-function rowToTask(row: TodoTaskRow): {
-  id: string;
-  title: string;
-  description: string;
-  priority: string;
-  status: string;
-  createdAt: number;
-  updatedAt: number;
-  order: number;
-} {
+function rowToTask(row: TodoTaskRow): TodoTaskData {
   return {
     id: row.id,
     title: row.title,
@@ -81,9 +124,131 @@ function rowToTask(row: TodoTaskRow): {
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     order: row.order,
+    labels: parseStringArray(row.labels),
+    parentId: row.parent_id ?? undefined,
+    blockedBy: parseStringArray(row.blocked_by),
+    branch: row.branch ?? undefined,
+    worktreePath: row.worktree_path ?? undefined,
+    dueDate: row.due_date ?? undefined,
+    issueNumber: row.issue_number ?? undefined,
+  };
+}
+
+/** Parse a JSON column, falling back when it is empty or malformed */
+function parseJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+function rowToTaskRun(row: TodoTaskRunRow): TodoTaskRunData {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    sessionId: row.session_id,
+    agentId: row.agent_id,
+    agentName: row.agent_name,
+    cwd: row.cwd,
+    status: row.status as TodoTaskRunData['status'],
+    startedAt: row.started_at,
+    endedAt: row.ended_at ?? undefined,
+    snapshot: parseJson(row.snapshot, undefined),
+    model: row.model ?? undefined,
+    costUsd: row.cost_usd ?? undefined,
+    inputTokens: row.input_tokens ?? undefined,
+    outputTokens: row.output_tokens ?? undefined,
+    changedFiles: parseJson(row.changed_files, []),
+    finalMessage: row.final_message ?? undefined,
   };
 }
 
+/**
+ * Schema migrations, applied in order. `PRAGMA user_version` stores how many ran,
+ * so only append to this list and never edit an entry that has shipped.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS tasks (
+    id            TEXT PRIMARY KEY,
+    repo_path     TEXT NOT NULL,
+    title         TEXT NOT NULL,
+    description   TEXT NOT NULL DEFAULT '',
+    priority      TEXT NOT NULL DEFAULT 'medium',
+    status        TEXT NOT NULL DEFAULT 'todo',
+    "order"       INTEGER NOT NULL DEFAULT 0,
+    created_at    INTEGER NOT NULL,
+    updated_at    INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tasks_repo_status ON tasks(repo_path, status);
+  `,
+  `
+  ALTER TABLE tasks ADD COLUMN labels TEXT NOT NULL DEFAULT '[]';
+  ALTER TABLE tasks ADD COLUMN parent_id TEXT;
+  ALTER TABLE tasks ADD COLUMN blocked_by TEXT NOT NULL DEFAULT '[]';
+  ALTER TABLE tasks ADD COLUMN branch TEXT;
+  ALTER TABLE tasks ADD COLUMN worktree_path TEXT;
+  ALTER TABLE tasks ADD COLUMN due_date INTEGER;
+  CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_id);
+  CREATE TABLE IF NOT EXISTS columns (
+    id            TEXT NOT NULL,
+    repo_path     TEXT NOT NULL,
+    title         TEXT NOT NULL,
+    "order"       INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (repo_path, id)
+  );
+  `,
+  `
+  ALTER TABLE tasks ADD COLUMN issue_number INTEGER;
+  CREATE INDEX IF NOT EXISTS idx_tasks_worktree ON tasks(worktree_path);
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS task_runs (
+    id            TEXT PRIMARY KEY,
+    repo_path     TEXT NOT NULL,
+    task_id       TEXT NOT NULL,
+    session_id    TEXT NOT NULL,
+    agent_id      TEXT NOT NULL,
+    agent_name    TEXT NOT NULL,
+    cwd           TEXT NOT NULL,
+    status        TEXT NOT NULL,
+    started_at    INTEGER NOT NULL,
+    ended_at      INTEGER,
+    snapshot      TEXT,
+    model         TEXT,
+    cost_usd      REAL,
+    input_tokens  INTEGER,
+    output_tokens INTEGER,
+    changed_files TEXT NOT NULL DEFAULT '[]',
+    final_message TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_task_runs_task ON task_runs(repo_path, task_id);
+  `,
+];
+
+async function migrate(database: sqlite3.Database): Promise<void> {
+  const [{ user_version: version }] = await dbAll<{ user_version: number }>(
+    database,
+    'PRAGMA user_version'
+  );
+
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    await dbRun(database, 'BEGIN TRANSACTION');
+    try {
+      await dbExec(database, MIGRATIONS[i]);
+      // PRAGMA does not accept bound parameters
+      await dbExec(database, `PRAGMA user_version = ${i + 1}`);
+      await dbRun(database, 'COMMIT');
+    } catch (err) {
+      await dbRun(database, 'ROLLBACK').catch(() => {});
+      throw err;
+    }
+    console.log(`[TodoService] Applied schema migration ${i + 1}`);
+  }
+}
+
 export async function initialize(): Promise<void> {
   const dbPath = getDbPath();
 
@@ -95,28 +260,12 @@ export async function initialize(): Promise<void> {
     });
   });
 
-  await dbExec(
-    db!,
-    `
-    CREATE TABLE IF NOT EXISTS tasks (
-      id            TEXT PRIMARY KEY,
-      repo_path     TEXT NOT NULL,
-      title         TEXT NOT NULL,
-      description   TEXT NOT NULL DEFAULT '',
-      priority      TEXT NOT NULL DEFAULT 'medium',
-      status        TEXT NOT NULL DEFAULT 'todo',
-      "order"       INTEGER NOT NULL DEFAULT 0,
-      created_at    INTEGER NOT NULL,
-      updated_at    INTEGER NOT NULL
-    );
-    CREATE INDEX IF NOT EXISTS idx_tasks_repo_status ON tasks(repo_path, status);
-    `
-  );
+  await migrate(db!);
 
   console.log('[TodoService] Database initialized at', dbPath);
 }
 
-export async function getTasks(repoPath: string): Promise<ReturnType<typeof rowToTask>[]> {
+export async function getTasks(repoPath: string): Promise<TodoTaskData[]> {
   const rows = await dbAll<TodoTaskRow>(
     getDb(),
     'SELECT * FROM tasks WHERE repo_path = ? ORDER BY status, "order"',
@@ -125,23 +274,22 @@ export async function getTasks(repoPath: string): Promise<ReturnType<typeof rowT
   return rows.map(rowToTask);
 }
 
-export async function addTask(
-  repoPath: string,
-  task: {
-    id: string;
-    title: string;
-    description: string;
-    priority: string;
-    status: string;
-    order: number;
-    createdAt: number;
-    updatedAt: number;
-  }
-): Promise<ReturnType<typeof rowToTask>> {
+/** Most recently updated task linked to the worktree, across all repositories */
+export async function getTaskByWorktree(worktreePath: string): Promise<TodoTaskData | null> {
+  const [row] = await dbAll<TodoTaskRow>(
+    getDb(),
+    'SELECT * FROM tasks WHERE worktree_path = ? ORDER BY updated_at DESC LIMIT 1',
+    [worktreePath]
+  );
+  return row ? rowToTask(row) : null;
+}
+
+export async function addTask(repoPath: string, task: TodoTaskData): Promise<TodoTaskData> {
   await dbRun(
     getDb(),
-    `INSERT INTO tasks (id, repo_path, title, description, priority, status, "order", created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO tasks (id, repo_path, title, description, priority, status, "order", created_at, updated_at,
+                        labels, parent_id, blocked_by, branch, worktree_path, due_date, issue_number)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       task.id,
       repoPath,
@@ -152,44 +300,49 @@ export async function addTask(
       task.order,
       task.createdAt,
       task.updatedAt,
+      JSON.stringify(task.labels ?? []),
+      task.parentId ?? null,
+      JSON.stringify(task.blockedBy ?? []),
+      task.branch ?? null,
+      task.worktreePath ?? null,
+      task.dueDate ?? null,
+      task.issueNumber ?? null,
     ]
   );
 
-  return {
-    id: task.id,
-    title: task.title,
-    description: task.description,
-    priority: task.priority,
-    status: task.status,
-    createdAt: task.createdAt,
-    updatedAt: task.updatedAt,
-    order: task.order,
-  };
+  return task;
 }
 
+/** Column name and value conversion for each updatable field */
+const UPDATE_COLUMNS: {
+  [K in keyof Required<TodoTaskUpdates>]: [string, (value: TodoTaskUpdates[K]) => unknown];
+} = {
+  title: ['title', (v) => v],
+  description: ['description', (v) => v],
+  priority: ['priority', (v) => v],
+  status: ['status', (v) => v],
+  labels: ['labels', (v) => JSON.stringify(v ?? [])],
+  parentId: ['parent_id', (v) => v ?? null],
+  blockedBy: ['blocked_by', (v) => JSON.stringify(v ?? [])],
+  branch: ['branch', (v) => v ?? null],
+  worktreePath: ['worktree_path', (v) => v ?? null],
+  dueDate: ['due_date', (v) => v ?? null],
+  issueNumber: ['issue_number', (v) => v ?? null],
+};
+
 export async function updateTask(
   repoPath: string,
   taskId: string,
-  updates: { title?: string; description?: string; priority?: string; status?: string }
+  updates: TodoTaskUpdates
 ): Promise<void> {
   const fields: string[] = [];
   const values: unknown[] = [];
 
-  if (updates.title !== undefined) {
-    fields.push('title = ?');
-    values.push(updates.title);
-  }
-  if (updates.description !== undefined) {
-    fields.push('description = ?');
-    values.push(updates.description);
-  }
-  if (updates.priority !== undefined) {
-    fields.push('priority = ?');
-    values.push(updates.priority);
-  }
-  if (updates.status !== undefined) {
-    fields.push('status = ?');
-    values.push(updates.status);
+  for (const key of Object.keys(UPDATE_COLUMNS) as (keyof TodoTaskUpdates)[]) {
+    if (updates[key] === undefined) continue;
+    const [column, toValue] = UPDATE_COLUMNS[key] as [string, (value: unknown) => unknown];
+    fields.push(`${column} = ?`);
+    values.push(toValue(updates[key]));
   }
 
   if (fields.length === 0) return;
@@ -205,8 +358,49 @@ export async function updateTask(
   );
 }
 
+/**
+ * Deletes a task together with its subtasks and drops them from the blocked-by
+ * lists of the remaining tasks.
+ */
 export async function deleteTask(repoPath: string, taskId: string): Promise<void> {
-  await dbRun(getDb(), 'DELETE FROM tasks WHERE repo_path = ? AND id = ?', [repoPath, taskId]);
+  const database = getDb();
+  const rows = await dbAll<Pick<TodoTaskRow, 'id' | 'parent_id' | 'blocked_by'>>(
+    database,
+    'SELECT id, parent_id, blocked_by FROM tasks WHERE repo_path = ?',
+    [repoPath]
+  );
+
+  const removed = new Set([taskId]);
+  for (const row of rows) {
+    if (row.parent_id === taskId) removed.add(row.id);
+  }
+
+  await dbRun(database, 'BEGIN TRANSACTION');
+  try {
+    for (const id of removed) {
+      await dbRun(database, 'DELETE FROM tasks WHERE repo_path = ? AND id = ?', [repoPath, id]);
+      await dbRun(database, 'DELETE FROM task_runs WHERE repo_path = ? AND task_id = ?', [
+        repoPath,
+        id,
+      ]);
+    }
+    for (const row of rows) {
+      if (removed.has(row.id)) continue;
+      const blockedBy = parseStringArray(row.blocked_by);
+      const remaining = blockedBy.filter((id) => !removed.has(id));
+      if (remaining.length !== blockedBy.length) {
+        await dbRun(database, 'UPDATE tasks SET blocked_by = ? WHERE repo_path = ? AND id = ?', [
+          JSON.stringify(remaining),
+          repoPath,
+          row.id,
+        ]);
+      }
+    }
+    await dbRun(database, 'COMMIT');
+  } catch (err) {
+    await dbRun(database, 'ROLLBACK').catch(() => {});
+    throw err;
+  }
 }
 
 export async function moveTask(
@@ -247,6 +441,155 @@ export async function reorderTasks(
   }
 }
 
+export async function getColumns(repoPath: string): Promise<TodoColumnData[]> {
+  const rows = await dbAll<TodoColumnRow>(
+    getDb(),
+    'SELECT * FROM columns WHERE repo_path = ? ORDER BY "order"',
+    [repoPath]
+  );
+  return rows.map((row) => ({ id: row.id, title: row.title, order: row.order }));
+}
+
+export async function addColumn(repoPath: string, column: TodoColumnData): Promise<void> {
+  await dbRun(getDb(), 'INSERT INTO columns (id, repo_path, title, "order") VALUES (?, ?, ?, ?)', [
+    column.id,
+    repoPath,
+    column.title,
+    column.order,
+  ]);
+}
+
+export async function updateColumn(
+  repoPath: string,
+  columnId: string,
+  updates: { title?: string; order?: number }
+): Promise<void> {
+  const fields: string[] = [];
+  const values: unknown[] = [];
+
+  if (updates.title !== undefined) {
+    fields.push('title = ?');
+    values.push(updates.title);
+  }
+  if (updates.order !== undefined) {
+    fields.push('"order" = ?');
+    values.push(updates.order);
+  }
+
+  if (fields.length === 0) return;
+
+  values.push(repoPath, columnId);
+  await dbRun(
+    getDb(),
+    `UPDATE columns SET ${fields.join(', ')} WHERE repo_path = ? AND id = ?`,
+    values
+  );
+}
+
+/** Deletes a column and moves its tasks back to `fallbackStatus` */
+export async function deleteColumn(
+  repoPath: string,
+  columnId: string,
+  fallbackStatus: string
+): Promise<void> {
+  const database = getDb();
+  await dbRun(database, 'BEGIN TRANSACTION');
+  try {
+    await dbRun(database, 'DELETE FROM columns WHERE repo_path = ? AND id = ?', [
+      repoPath,
+      columnId,
+    ]);
+    await dbRun(
+      database,
+      'UPDATE tasks SET status = ?, updated_at = ? WHERE repo_path = ? AND status = ?',
+      [fallbackStatus, Date.now(), repoPath, columnId]
+    );
+    await dbRun(database, 'COMMIT');
+  } catch (err) {
+    await dbRun(database, 'ROLLBACK').catch(() => {});
+    throw err;
+  }
+}
+
+/** Runs of a task, newest first */
+export async function getTaskRuns(repoPath: string, taskId: string): Promise<TodoTaskRunData[]> {
+  const rows = await dbAll<TodoTaskRunRow>(
+    getDb(),
+    'SELECT * FROM task_runs WHERE repo_path = ? AND task_id = ? ORDER BY started_at DESC',
+    [repoPath, taskId]
+  );
+  return rows.map(rowToTaskRun);
+}
+
+export async function addTaskRun(repoPath: string, run: TodoTaskRunData): Promise<void> {
+  await dbRun(
+    getDb(),
+    `INSERT INTO task_runs (id, repo_path, task_id, session_id, agent_id, agent_name, cwd, status,
+                            started_at, ended_at, snapshot, model, cost_usd, input_tokens,
+                            output_tokens, changed_files, final_message)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      run.id,
+      repoPath,
+      run.taskId,
+      run.sessionId,
+      run.agentId,
+      run.agentName,
+      run.cwd,
+      run.status,
+      run.startedAt,
+      run.endedAt ?? null,
+      run.snapshot ? JSON.stringify(run.snapshot) : null,
+      run.model ?? null,
+      run.costUsd ?? null,
+      run.inputTokens ?? null,
+      run.outputTokens ?? null,
+      JSON.stringify(run.changedFiles),
+      run.finalMessage ?? null,
+    ]
+  );
+}
+
+/** Column name and value conversion for each updatable run field */
+const RUN_UPDATE_COLUMNS: {
+  [K in keyof Required<TodoTaskRunUpdates>]: [string, (value: TodoTaskRunUpdates[K]) => unknown];
+} = {
+  status: ['status', (v) => v],
+  endedAt: ['ended_at', (v) => v ?? null],
+  snapshot: ['snapshot', (v) => (v ? JSON.stringify(v) : null)],
+  model: ['model', (v) => v ?? null],
+  costUsd: ['cost_usd', (v) => v ?? null],
+  inputTokens: ['input_tokens', (v) => v ?? null],
+  outputTokens: ['output_tokens', (v) => v ?? null],
+  changedFiles: ['changed_files', (v) => JSON.stringify(v ?? [])],
+  finalMessage: ['final_message', (v) => v ?? null],
+};
+
+export async function updateTaskRun(
+  repoPath: string,
+  runId: string,
+  updates: TodoTaskRunUpdates
+): Promise<void> {
+  const fields: string[] = [];
+  const values: unknown[] = [];
+
+  for (const key of Object.keys(RUN_UPDATE_COLUMNS) as (keyof TodoTaskRunUpdates)[]) {
+    if (updates[key] === undefined) continue;
+    const [column, toValue] = RUN_UPDATE_COLUMNS[key] as [string, (value: unknown) => unknown];
+    fields.push(`${column} = ?`);
+    values.push(toValue(updates[key]));
+  }
+
+  if (fields.length === 0) return;
+
+  values.push(repoPath, runId);
+  await dbRun(
+    getDb(),
+    `UPDATE task_runs SET ${fields.join(', ')} WHERE repo_path = ? AND id = ?`,
+    values
+  );
+}
+
 export async function migrateFromLocalStorage(boardsJson: string): Promise<void> {
   const boards = JSON.parse(boardsJson) as Record<
     string,
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { JsonRpcRequests } from '../jsonRpc';
+
+describe('JsonRpcRequests', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('settles requests from their responses', async () => {
+    const requests = new JsonRpcRequests();
+    const first = requests.create('a', 1000);
+    const second = requests.create('b', 1000);
+
+    expect(requests.handleResponse({ jsonrpc: '2.0', id: 99, result: 1 })).toBe(false);
+    expect(requests.handleResponse({ jsonrpc: '2.0', id: second.id, method: 'ping' })).toBe(false);
+    expect(requests.handleResponse({ jsonrpc: '2.0', id: first.id, result: { ok: true } })).toBe(
+      true
+    );
+    requests.handleResponse({
+      jsonrpc: '2.0',
+      id: second.id,
+      error: { code: -32601, message: 'Method not found' },
+    });
+
+    await expect(first.response).resolves.toEqual({ ok: true });
+    await expect(second.response).rejects.toThrow('Method not found');
+  });
+
+  it('times out and rejects everything on close', async () => {
+    vi.useFakeTimers();
+    const requests = new JsonRpcRequests();
+    const onTimeout = vi.fn();
+    const slow = requests.create('tools/list', 2000, onTimeout);
+    const pending = requests.create('tools/call', 60000);
+
+    vi.advanceTimersByTime(2000);
+    await expect(slow.response).rejects.toThrow('tools/list timed out after 2s');
+    expect(onTimeout).toHaveBeenCalledWith(slow.id);
+
+    requests.rejectAll(new Error('Server exited with code 1'));
+    await expect(pending.response).rejects.toThrow('Server exited with code 1');
+  });
+});
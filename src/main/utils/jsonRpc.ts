@@ -0,0 +1,85 @@
+/**
+ * Transport-independent JSON-RPC 2.0 pieces shared by the stdio clients
+ * (language servers, MCP inspector).
+ */
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Numbers outgoing requests and settles them from responses, timeouts or
+ * a closed connection. Sending is left to the caller.
+ */
+export class JsonRpcRequests {
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+
+  /**
+   * Allocate an id and a promise for its response. `onTimeout` runs when the
+   * request expires, e.g. to send a cancellation.
+   */
+  create<T>(
+    method: string,
+    timeoutMs: number,
+    onTimeout?: (id: number) => void
+  ): { id: number; response: Promise<T> } {
+    const id = this.nextId++;
+    const response = new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        onTimeout?.(id);
+        reject(new Error(`${method} timed out after ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+      this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject, timer });
+    });
+    return { id, response };
+  }
+
+  /**
+   * Settle the request a response answers. Returns false for anything that is
+   * not a response to a pending request.
+   */
+  handleResponse(message: JsonRpcMessage): boolean {
+    if (message.method || message.id === undefined || message.id === null) return false;
+    const id = Number(message.id);
+    const pending = this.pending.get(id);
+    if (!pending) return false;
+
+    this.pending.delete(id);
+    clearTimeout(pending.timer);
+    if (message.error) {
+      pending.reject(new Error(message.error.message));
+    } else {
+      pending.resolve(message.result ?? null);
+    }
+    return true;
+  }
+
+  reject(id: number, error: Error): void {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+    this.pending.delete(id);
+    clearTimeout(pending.timer);
+    pending.reject(error);
+  }
+
+  rejectAll(error: Error): void {
+    for (const { reject, timer } of this.pending.values()) {
+      clearTimeout(timer);
+      reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -10,6 +10,12 @@ import { findLoginShell, getEnhancedPath, mergePathLists } from '../services/ter
 import { shellDetector } from '../services/terminal/ShellDetector';
 import { killProcessTree } from './processUtils';
 
+export {
+  buildShellCommand,
+  getShellQuoteStyle,
+  quoteShellArg,
+  type ShellQuoteStyle,
+} from '@shared/utils/shellQuote';
 // Re-export for convenience
 export { killProcessTree } from './processUtils';
 
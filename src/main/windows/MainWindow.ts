@@ -61,6 +61,11 @@ function saveWindowState(win: BrowserWindow): void {
   } catch {}
 }
 
+// Dev server previews (webviews) may only show pages served from this machine
+function isLocalPreviewUrl(url: string): boolean {
+  return /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?(\/|$)/.test(url);
+}
+
 export function createMainWindow(): BrowserWindow {
   const state = loadWindowState();
 
@@ -90,9 +95,37 @@ export function createMainWindow(): BrowserWindow {
       webSecurity: true,
       allowRunningInsecureContent: false,
       preload: join(__dirname, '../preload/index.cjs'),
+      // Used by the dev server preview
+      webviewTag: true,
     },
   });
 
+  // Dev server previews only load local pages, without preload or Node access
+  win.webContents.on('will-attach-webview', (event, webPreferences, params) => {
+    delete webPreferences.preload;
+    webPreferences.nodeIntegration = false;
+    webPreferences.contextIsolation = true;
+    if (!isLocalPreviewUrl(params.src)) {
+      event.preventDefault();
+    }
+  });
+
+  win.webContents.on('did-attach-webview', (_, contents) => {
+    contents.setWindowOpenHandler(({ url }) => {
+      if (/^https?:/.test(url)) shell.openExternal(url);
+      return { action: 'deny' };
+    });
+    // Keep the preview on local pages: links leave for the browser, redirects are dropped
+    contents.on('will-navigate', (event, url) => {
+      if (isLocalPreviewUrl(url)) return;
+      event.preventDefault();
+      if (/^https?:/.test(url)) shell.openExternal(url);
+    });
+    contents.on('will-redirect', (event, url) => {
+      if (!isLocalPreviewUrl(url)) event.preventDefault();
+    });
+  });
+
   // Enable native context menu for editable fields (input/textarea/contenteditable)
   // so EnhancedInput and other text fields support Cut/Copy/Paste/SelectAll.
   win.webContents.on('context-menu', (event, params) => {
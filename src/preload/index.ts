@@ -4,14 +4,24 @@ import type { Locale } from '@shared/i18n';
 import type {
   AgentCliInfo,
   AgentMetadata,
+  CherryPickState,
+  ClaudeCommandEntry,
+  ClaudeCommandRef,
+  ClaudeConfigScope,
   CloneProgress,
   CloneResult,
+  CodeReviewMode,
+  CodeReviewScope,
   CommitFileChange,
+  ConfigurableAgentId,
   ConflictResolution,
+  ContentSearchFileList,
   ContentSearchParams,
   ContentSearchResult,
   CustomAgent,
   DetectedApp,
+  EnsoRepoConfig,
+  FileBatchWriteEntry,
   FileChange,
   FileChangeEvent,
   FileChangesResult,
@@ -22,35 +32,74 @@ import type {
   FileSearchResult,
   GhCliStatus,
   GitBranch,
+  GitHubIssue,
   GitLogEntry,
+  GitStash,
+  GitStashCreateOptions,
+  GitStashFile,
   GitStatus,
   GitSubmodule,
   GitWorktree,
+  IdeToolRequest,
+  IdeToolResponse,
+  LspChangeDocumentParams,
+  LspCloseDocumentParams,
+  LspDiagnosticsEvent,
+  LspOpenDocumentParams,
+  LspRequestParams,
+  McpInspectResult,
   McpServer,
   McpServerConfig,
+  McpToolCallResult,
   MergeConflict,
   MergeConflictContent,
   MergeState,
+  ProjectMemoryFile,
+  ProjectTaskDiscovery,
   ProxySettings,
   PullRequest,
+  PullRequestCreateOptions,
+  PullRequestDetails,
+  PullRequestMergeMethod,
+  PullRequestReviewCommentInput,
   RecentEditorProject,
+  SecretVaultStatus,
   ShellConfig,
   ShellInfo,
   TempWorkspaceCheckResult,
   TempWorkspaceCreateResult,
   TempWorkspaceRemoveResult,
   TerminalCreateOptions,
+  TerminalPortsEvent,
+  TerminalRecordingInfo,
   TerminalResizeOptions,
+  TodoColumnData,
+  TodoTaskData,
+  TodoTaskRunData,
+  TodoTaskRunUpdates,
+  TodoTaskUpdates,
   ValidateLocalPathResult,
   ValidateUrlResult,
+  WorkingTreeSnapshot,
+  WorktreeCherryPickOptions,
+  WorktreeCherryPickResult,
   WorktreeCreateOptions,
+  WorktreeHookName,
+  WorktreeHookRun,
   WorktreeMergeCleanupOptions,
   WorktreeMergeOptions,
   WorktreeMergeResult,
+  WorktreeRebaseOptions,
+  WorktreeRebaseResult,
   WorktreeRemoveOptions,
+  WorktreeRemoveResult,
 } from '@shared/types';
 import { IPC_CHANNELS } from '@shared/types';
-import type { AgentStopNotificationData } from '@shared/types/agent';
+import type {
+  AcpSessionCreateOptions,
+  AcpSessionEvent,
+  AgentStopNotificationData,
+} from '@shared/types/agent';
 import type { InspectPayload, WebInspectorStatus } from '@shared/types/webInspector';
 import { contextBridge, ipcRenderer, shell, webUtils } from 'electron';
 import pkg from '../../package.json';
@@ -124,6 +173,15 @@ const electronAPI = {
       ),
     getDiffStats: (workdir: string): Promise<{ insertions: number; deletions: number }> =>
       ipcRenderer.invoke(IPC_CHANNELS.GIT_DIFF_STATS, workdir),
+    createWorkingTreeSnapshot: (workdir: string): Promise<WorkingTreeSnapshot> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_SNAPSHOT_CREATE, workdir),
+    getChangedFilesSince: (
+      workdir: string,
+      snapshot: WorkingTreeSnapshot
+    ): Promise<CommitFileChange[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_CHANGED_FILES_SINCE, workdir, snapshot),
+    applyPatch: (workdir: string, patch: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_APPLY_PATCH, workdir, patch),
     blame: (
       workdir: string,
       filePath: string
@@ -133,6 +191,26 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.GIT_REVERT, workdir, commitHash),
     reset: (workdir: string, commitHash: string, mode?: 'soft' | 'mixed' | 'hard'): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.GIT_RESET, workdir, commitHash, mode),
+    listStashes: (workdir: string): Promise<GitStash[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_LIST, workdir),
+    getStashFiles: (workdir: string, ref: string): Promise<GitStashFile[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_FILES, workdir, ref),
+    getStashFileDiff: (
+      workdir: string,
+      ref: string,
+      filePath: string,
+      untracked?: boolean
+    ): Promise<FileDiff> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_FILE_DIFF, workdir, ref, filePath, untracked),
+    createStash: (workdir: string, options?: GitStashCreateOptions): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_CREATE, workdir, options),
+    // Addressed by stash commit hash; the main process resolves the current stash@{n}
+    applyStash: (workdir: string, hash: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_APPLY, workdir, hash),
+    popStash: (workdir: string, hash: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_POP, workdir, hash),
+    dropStash: (workdir: string, hash: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_DROP, workdir, hash),
     generateCommitMessage: (
       workdir: string,
       options: {
@@ -174,6 +252,8 @@ const electronAPI = {
         language?: string;
         sessionId?: string; // Restore this parameter for "Continue Conversation"
         prompt?: string; // Custom prompt template
+        mode?: CodeReviewMode;
+        scope?: CodeReviewScope;
       }
     ): Promise<{ success: boolean; error?: string; sessionId?: string }> =>
       ipcRenderer.invoke(IPC_CHANNELS.GIT_CODE_REVIEW_START, workdir, options),
@@ -185,6 +265,7 @@ const electronAPI = {
         type: 'data' | 'error' | 'exit';
         data?: string;
         exitCode?: number;
+        continuable?: boolean; // false when the review has no session to continue
       }) => void
     ): (() => void) => {
       const handler = (
@@ -194,6 +275,7 @@ const electronAPI = {
           type: 'data' | 'error' | 'exit';
           data?: string;
           exitCode?: number;
+          continuable?: boolean;
         }
       ) => callback(event);
       ipcRenderer.on(IPC_CHANNELS.GIT_CODE_REVIEW_DATA, handler);
@@ -206,6 +288,51 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.GIT_PR_LIST, workdir),
     fetchPullRequest: (workdir: string, prNumber: number, localBranch: string): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.GIT_PR_FETCH, workdir, prNumber, localBranch),
+    getPullRequestForBranch: (workdir: string, branch: string): Promise<PullRequest | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PR_FOR_BRANCH, workdir, branch),
+    getPullRequestDetails: (workdir: string, prNumber: number): Promise<PullRequestDetails> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PR_DETAILS, workdir, prNumber),
+    getPullRequestDiff: (workdir: string, prNumber: number): Promise<string> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PR_DIFF, workdir, prNumber),
+    createPullRequest: (
+      workdir: string,
+      branch: string,
+      options: PullRequestCreateOptions
+    ): Promise<PullRequest> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PR_CREATE, workdir, branch, options),
+    submitPullRequestReview: (
+      workdir: string,
+      prNumber: number,
+      comments: PullRequestReviewCommentInput[],
+      body?: string
+    ): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PR_REVIEW, workdir, prNumber, comments, body),
+    mergePullRequest: (
+      workdir: string,
+      prNumber: number,
+      method: PullRequestMergeMethod
+    ): Promise<void> => ipcRenderer.invoke(IPC_CHANNELS.GIT_PR_MERGE, workdir, prNumber, method),
+    closePullRequest: (workdir: string, prNumber: number): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PR_CLOSE, workdir, prNumber),
+    listIssues: (workdir: string): Promise<GitHubIssue[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_ISSUE_LIST, workdir),
+    closeIssue: (workdir: string, issueNumber: number, comment?: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_ISSUE_CLOSE, workdir, issueNumber, comment),
+    generatePullRequestDescription: (
+      workdir: string,
+      options: {
+        base: string;
+        maxDiffLines: number;
+        timeout: number;
+        provider: string;
+        model: string;
+        reasoningEffort?: string;
+        bareEnabled?: boolean;
+        effortEnabled?: boolean;
+        effortLevel?: string;
+      }
+    ): Promise<{ success: boolean; title?: string; body?: string; error?: string }> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GENERATE_PR_DESCRIPTION, workdir, options),
     // Git Clone
     validateUrl: (url: string): Promise<ValidateUrlResult> =>
       ipcRenderer.invoke(IPC_CHANNELS.GIT_VALIDATE_URL, url),
@@ -280,10 +407,34 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_LIST, workdir),
     add: (workdir: string, options: WorktreeCreateOptions): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_ADD, workdir, options),
-    remove: (workdir: string, options: WorktreeRemoveOptions): Promise<void> =>
+    remove: (workdir: string, options: WorktreeRemoveOptions): Promise<WorktreeRemoveResult> =>
       ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_REMOVE, workdir, options),
     activate: (worktreePaths: string[]): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_ACTIVATE, worktreePaths),
+    // Lifecycle hooks (.enso/config.json)
+    getHookConfig: (repoPath: string): Promise<EnsoRepoConfig | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_HOOK_CONFIG, repoPath),
+    getHookRuns: (): Promise<WorktreeHookRun[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_HOOK_RUNS),
+    runHook: (
+      repoPath: string,
+      worktreePath: string,
+      hook: WorktreeHookName,
+      branch?: string | null
+    ): Promise<WorktreeHookRun | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_HOOK_RUN, repoPath, worktreePath, hook, branch),
+    approveHook: (
+      repoPath: string,
+      worktreePath: string,
+      hook: WorktreeHookName,
+      branch?: string | null
+    ): Promise<WorktreeHookRun | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_HOOK_APPROVE, repoPath, worktreePath, hook, branch),
+    onHookUpdate: (callback: (run: WorktreeHookRun) => void): (() => void) => {
+      const handler = (_: unknown, run: WorktreeHookRun) => callback(run);
+      ipcRenderer.on(IPC_CHANNELS.WORKTREE_HOOK_UPDATE, handler);
+      return () => ipcRenderer.off(IPC_CHANNELS.WORKTREE_HOOK_UPDATE, handler);
+    },
     // Merge operations
     merge: (workdir: string, options: WorktreeMergeOptions): Promise<WorktreeMergeResult> =>
       ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_MERGE, workdir, options),
@@ -303,6 +454,27 @@ const electronAPI = {
       cleanupOptions?: WorktreeMergeCleanupOptions
     ): Promise<WorktreeMergeResult> =>
       ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_MERGE_CONTINUE, workdir, message, cleanupOptions),
+    // Interactive rebase operations
+    getRebaseCommits: (
+      workdir: string,
+      worktreePath: string,
+      targetBranch: string
+    ): Promise<GitLogEntry[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_REBASE_COMMITS, workdir, worktreePath, targetBranch),
+    startRebase: (workdir: string, options: WorktreeRebaseOptions): Promise<WorktreeRebaseResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_REBASE_START, workdir, options),
+    continueRebase: (worktreePath: string): Promise<WorktreeRebaseResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_REBASE_CONTINUE, worktreePath),
+    // Cherry-pick operations
+    cherryPick: (
+      workdir: string,
+      options: WorktreeCherryPickOptions
+    ): Promise<WorktreeCherryPickResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_CHERRY_PICK, workdir, options),
+    getCherryPickState: (worktreePath: string): Promise<CherryPickState> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_CHERRY_PICK_STATE, worktreePath),
+    continueCherryPick: (worktreePath: string): Promise<WorktreeCherryPickResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.WORKTREE_CHERRY_PICK_CONTINUE, worktreePath),
   },
 
   // Temporary Workspace
@@ -364,6 +536,8 @@ const electronAPI = {
       conflicts: Array<{ path: string; action: 'replace' | 'skip' | 'rename'; newName?: string }>
     ): Promise<{ success: string[]; failed: Array<{ path: string; error: string }> }> =>
       ipcRenderer.invoke(IPC_CHANNELS.FILE_BATCH_MOVE, sources, targetDir, conflicts),
+    batchWrite: (entries: FileBatchWriteEntry[]): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.FILE_BATCH_WRITE, entries),
     delete: (targetPath: string, options?: { recursive?: boolean }): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.FILE_DELETE, targetPath, options),
     list: (dirPath: string, gitRoot?: string): Promise<FileEntry[]> =>
@@ -394,6 +568,18 @@ const electronAPI = {
     destroy: (id: string): Promise<void> => ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_DESTROY, id),
     getActivity: (id: string): Promise<boolean> =>
       ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_GET_ACTIVITY, id),
+    startRecording: (id: string, workdir: string, title: string): Promise<TerminalRecordingInfo> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_RECORDING_START, id, workdir, title),
+    stopRecording: (id: string): Promise<TerminalRecordingInfo | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_RECORDING_STOP, id),
+    listRecordings: (workdir: string): Promise<TerminalRecordingInfo[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_RECORDING_LIST, workdir),
+    readRecording: (filePath: string): Promise<string> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_RECORDING_READ, filePath),
+    deleteRecording: (filePath: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_RECORDING_DELETE, filePath),
+    exportRecording: (filePath: string): Promise<string | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TERMINAL_RECORDING_EXPORT, filePath),
     onData: (callback: (event: { id: string; data: string }) => void): (() => void) => {
       const handler = (_: unknown, event: { id: string; data: string }) => callback(event);
       ipcRenderer.on(IPC_CHANNELS.TERMINAL_DATA, handler);
@@ -407,11 +593,34 @@ const electronAPI = {
       ipcRenderer.on(IPC_CHANNELS.TERMINAL_EXIT, handler);
       return () => ipcRenderer.off(IPC_CHANNELS.TERMINAL_EXIT, handler);
     },
+    onPortsChanged: (callback: (event: TerminalPortsEvent) => void): (() => void) => {
+      const handler = (_: unknown, event: TerminalPortsEvent) => callback(event);
+      ipcRenderer.on(IPC_CHANNELS.TERMINAL_PORTS_CHANGED, handler);
+      return () => ipcRenderer.off(IPC_CHANNELS.TERMINAL_PORTS_CHANGED, handler);
+    },
   },
 
   // Agent
   agent: {
     list: (): Promise<AgentMetadata[]> => ipcRenderer.invoke(IPC_CHANNELS.AGENT_LIST),
+    // Structured sessions over the Agent Client Protocol (id is the renderer session id)
+    acp: {
+      create: (id: string, options: AcpSessionCreateOptions): Promise<void> =>
+        ipcRenderer.invoke(IPC_CHANNELS.AGENT_ACP_CREATE, id, options),
+      prompt: (id: string, text: string): Promise<void> =>
+        ipcRenderer.invoke(IPC_CHANNELS.AGENT_ACP_PROMPT, id, text),
+      cancel: (id: string): Promise<void> => ipcRenderer.invoke(IPC_CHANNELS.AGENT_ACP_CANCEL, id),
+      respondPermission: (id: string, requestId: string, optionId: string | null): Promise<void> =>
+        ipcRenderer.invoke(IPC_CHANNELS.AGENT_ACP_PERMISSION_RESPOND, id, requestId, optionId),
+      destroy: (id: string): Promise<void> =>
+        ipcRenderer.invoke(IPC_CHANNELS.AGENT_ACP_DESTROY, id),
+      onEvent: (callback: (data: { id: string; event: AcpSessionEvent }) => void): (() => void) => {
+        const handler = (_: unknown, data: { id: string; event: AcpSessionEvent }) =>
+          callback(data);
+        ipcRenderer.on(IPC_CHANNELS.AGENT_ACP_EVENT, handler);
+        return () => ipcRenderer.off(IPC_CHANNELS.AGENT_ACP_EVENT, handler);
+      },
+    },
   },
 
   // App
@@ -547,24 +756,11 @@ const electronAPI = {
   todo: {
     getTasks: (repoPath: string): Promise<unknown[]> =>
       ipcRenderer.invoke(IPC_CHANNELS.TODO_GET_TASKS, repoPath),
-    addTask: (
-      repoPath: string,
-      task: {
-        id: string;
-        title: string;
-        description: string;
-        priority: string;
-        status: string;
-        order: number;
-        createdAt: number;
-        updatedAt: number;
-      }
-    ): Promise<unknown> => ipcRenderer.invoke(IPC_CHANNELS.TODO_ADD_TASK, repoPath, task),
-    updateTask: (
-      repoPath: string,
-      taskId: string,
-      updates: { title?: string; description?: string; priority?: string; status?: string }
-    ): Promise<void> =>
+    getTaskByWorktree: (worktreePath: string): Promise<TodoTaskData | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TODO_GET_TASK_BY_WORKTREE, worktreePath),
+    addTask: (repoPath: string, task: TodoTaskData): Promise<unknown> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TODO_ADD_TASK, repoPath, task),
+    updateTask: (repoPath: string, taskId: string, updates: TodoTaskUpdates): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.TODO_UPDATE_TASK, repoPath, taskId, updates),
     deleteTask: (repoPath: string, taskId: string): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.TODO_DELETE_TASK, repoPath, taskId),
@@ -577,6 +773,24 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.TODO_MOVE_TASK, repoPath, taskId, newStatus, newOrder),
     reorderTasks: (repoPath: string, status: string, orderedIds: string[]): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.TODO_REORDER_TASKS, repoPath, status, orderedIds),
+    getColumns: (repoPath: string): Promise<TodoColumnData[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TODO_GET_COLUMNS, repoPath),
+    addColumn: (repoPath: string, column: TodoColumnData): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TODO_ADD_COLUMN, repoPath, column),
+    updateColumn: (
+      repoPath: string,
+      columnId: string,
+      updates: { title?: string; order?: number }
+    ): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TODO_UPDATE_COLUMN, repoPath, columnId, updates),
+    deleteColumn: (repoPath: string, columnId: string, fallbackStatus: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TODO_DELETE_COLUMN, repoPath, columnId, fallbackStatus),
+    getTaskRuns: (repoPath: string, taskId: string): Promise<TodoTaskRunData[]> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TODO_GET_TASK_RUNS, repoPath, taskId),
+    addTaskRun: (repoPath: string, run: TodoTaskRunData): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TODO_ADD_TASK_RUN, repoPath, run),
+    updateTaskRun: (repoPath: string, runId: string, updates: TodoTaskRunUpdates): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TODO_UPDATE_TASK_RUN, repoPath, runId, updates),
     migrate: (boardsJson: string): Promise<void> =>
       ipcRenderer.invoke(IPC_CHANNELS.TODO_MIGRATE, boardsJson),
     aiPolish: (options: {
@@ -592,6 +806,20 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.TODO_AI_POLISH, options),
   },
 
+  // Project tasks
+  tasks: {
+    discover: (workdir: string): Promise<ProjectTaskDiscovery> =>
+      ipcRenderer.invoke(IPC_CHANNELS.TASKS_DISCOVER, workdir),
+  },
+
+  // Credential vault: values go in, only references come back
+  secrets: {
+    store: (value: string, ref?: string): Promise<string> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SECRETS_STORE, value, ref),
+    delete: (ref: string): Promise<void> => ipcRenderer.invoke(IPC_CHANNELS.SECRETS_DELETE, ref),
+    getStatus: (): Promise<SecretVaultStatus> => ipcRenderer.invoke(IPC_CHANNELS.SECRETS_STATUS),
+  },
+
   // Environment
   env: {
     HOME: process.env.HOME || process.env.USERPROFILE || '',
@@ -774,6 +1002,20 @@ const electronAPI = {
     sendAtMentioned: (params: { filePath: string; lineStart: number; lineEnd: number }): void => {
       ipcRenderer.send(IPC_CHANNELS.MCP_AT_MENTIONED, params);
     },
+    // Tool calls from Claude Code that need the editor (openFile, openDiff, ...)
+    onToolRequest: (callback: (request: IdeToolRequest) => void): (() => void) => {
+      const handler = (_: unknown, request: IdeToolRequest) => callback(request);
+      ipcRenderer.on(IPC_CHANNELS.MCP_TOOL_REQUEST, handler);
+      return () => ipcRenderer.off(IPC_CHANNELS.MCP_TOOL_REQUEST, handler);
+    },
+    onToolCancel: (callback: (requestId: string) => void): (() => void) => {
+      const handler = (_: unknown, requestId: string) => callback(requestId);
+      ipcRenderer.on(IPC_CHANNELS.MCP_TOOL_CANCEL, handler);
+      return () => ipcRenderer.off(IPC_CHANNELS.MCP_TOOL_CANCEL, handler);
+    },
+    sendToolResponse: (response: IdeToolResponse): void => {
+      ipcRenderer.send(IPC_CHANNELS.MCP_TOOL_RESPONSE, response);
+    },
     setStopHookEnabled: (enabled: boolean): Promise<boolean> =>
       ipcRenderer.invoke(IPC_CHANNELS.MCP_STOP_HOOK_SET, enabled),
     setStatusLineHookEnabled: (enabled: boolean): Promise<boolean> =>
@@ -794,6 +1036,13 @@ const electronAPI = {
     }> => ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_PROVIDER_READ_SETTINGS),
     apply: (provider: import('@shared/types').ClaudeProvider): Promise<boolean> =>
       ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_PROVIDER_APPLY, provider),
+    writeSessionSettings: (
+      provider: import('@shared/types').ClaudeProvider,
+      cwd?: string
+    ): Promise<import('@shared/types').ClaudeSessionSettings> =>
+      ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_PROVIDER_SESSION_SETTINGS, provider, cwd),
+    deleteSessionSettings: (settingsPath: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_PROVIDER_SESSION_SETTINGS_DELETE, settingsPath),
     onSettingsChanged: (
       callback: (data: {
         settings: import('@shared/types').ClaudeSettings | null;
@@ -810,22 +1059,49 @@ const electronAPI = {
   claudeConfig: {
     // MCP Management
     mcp: {
-      read: (): Promise<Record<string, McpServerConfig>> =>
-        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_MCP_READ),
+      // projectRoot: 读写该项目的 .mcp.json，省略时为 ~/.claude.json
+      read: (projectRoot?: string): Promise<Record<string, McpServerConfig>> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_MCP_READ, projectRoot),
       sync: (servers: McpServer[]): Promise<boolean> =>
         ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_MCP_SYNC, servers),
-      upsert: (server: McpServer): Promise<boolean> =>
-        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_MCP_UPSERT, server),
-      delete: (serverId: string): Promise<boolean> =>
-        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_MCP_DELETE, serverId),
+      upsert: (server: McpServer, projectRoot?: string): Promise<boolean> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_MCP_UPSERT, server, projectRoot),
+      delete: (serverId: string, projectRoot?: string): Promise<boolean> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_MCP_DELETE, serverId, projectRoot),
+      // .mcp.json 占位符需要的环境变量，取值为密钥引用
+      getProjectEnv: (projectRoot: string, serverId?: string): Promise<Record<string, string>> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_MCP_PROJECT_ENV, projectRoot, serverId),
     },
     // Prompts Management
     prompts: {
-      read: (): Promise<string | null> => ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_PROMPTS_READ),
-      write: (content: string): Promise<boolean> =>
-        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_PROMPTS_WRITE, content),
+      // projectRoot: 读写该项目的 CLAUDE.md / AGENTS.md，省略时为 ~/.claude/CLAUDE.md
+      read: (projectRoot?: string, fileName?: ProjectMemoryFile): Promise<string | null> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_PROMPTS_READ, projectRoot, fileName),
+      write: (
+        content: string,
+        projectRoot?: string,
+        fileName?: ProjectMemoryFile
+      ): Promise<boolean> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_PROMPTS_WRITE, content, projectRoot, fileName),
       backup: (): Promise<string | null> => ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_PROMPTS_BACKUP),
     },
+    // Commands & Skills Management
+    commands: {
+      list: (projectRoot?: string): Promise<ClaudeCommandEntry[]> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_COMMANDS_LIST, projectRoot),
+      read: (ref: ClaudeCommandRef, projectRoot?: string): Promise<string | null> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_COMMANDS_READ, ref, projectRoot),
+      write: (ref: ClaudeCommandRef, content: string, projectRoot?: string): Promise<boolean> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_COMMANDS_WRITE, ref, content, projectRoot),
+      delete: (ref: ClaudeCommandRef, projectRoot?: string): Promise<boolean> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_COMMANDS_DELETE, ref, projectRoot),
+      move: (
+        ref: ClaudeCommandRef,
+        toScope: ClaudeConfigScope,
+        projectRoot?: string
+      ): Promise<boolean> =>
+        ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_COMMANDS_MOVE, ref, toScope, projectRoot),
+    },
     // Plugins Management
     plugins: {
       list: (): Promise<import('@shared/types').Plugin[]> =>
@@ -851,10 +1127,44 @@ const electronAPI = {
     },
   },
 
+  // Codex / Gemini Config (MCP, instruction files)
+  agentConfig: {
+    mcp: {
+      read: (agent: ConfigurableAgentId): Promise<Record<string, McpServerConfig>> =>
+        ipcRenderer.invoke(IPC_CHANNELS.AGENT_CONFIG_MCP_READ, agent),
+      upsert: (agent: ConfigurableAgentId, server: McpServer): Promise<boolean> =>
+        ipcRenderer.invoke(IPC_CHANNELS.AGENT_CONFIG_MCP_UPSERT, agent, server),
+      delete: (agent: ConfigurableAgentId, serverId: string): Promise<boolean> =>
+        ipcRenderer.invoke(IPC_CHANNELS.AGENT_CONFIG_MCP_DELETE, agent, serverId),
+    },
+    // ~/.codex/AGENTS.md or ~/.gemini/GEMINI.md
+    instructions: {
+      read: (agent: ConfigurableAgentId): Promise<string | null> =>
+        ipcRenderer.invoke(IPC_CHANNELS.AGENT_CONFIG_INSTRUCTIONS_READ, agent),
+      write: (agent: ConfigurableAgentId, content: string): Promise<boolean> =>
+        ipcRenderer.invoke(IPC_CHANNELS.AGENT_CONFIG_INSTRUCTIONS_WRITE, agent, content),
+    },
+  },
+
+  // MCP server health check and inspector
+  mcpInspector: {
+    // cwd: stdio 服务器的工作目录，省略时为用户主目录
+    start: (server: McpServer, cwd?: string): Promise<McpInspectResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.MCP_INSPECTOR_START, server, cwd),
+    callTool: (
+      sessionId: string,
+      name: string,
+      args: Record<string, unknown>
+    ): Promise<McpToolCallResult> =>
+      ipcRenderer.invoke(IPC_CHANNELS.MCP_INSPECTOR_CALL_TOOL, sessionId, name, args),
+    stop: (sessionId: string): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.MCP_INSPECTOR_STOP, sessionId),
+  },
+
   // Claude Slash Completions (/ commands + skills)
   claudeCompletions: {
-    get: (): Promise<import('@shared/types').ClaudeSlashCompletionsSnapshot> =>
-      ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_COMPLETIONS_GET),
+    get: (projectRoot?: string): Promise<import('@shared/types').ClaudeSlashCompletionsSnapshot> =>
+      ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_COMPLETIONS_GET, projectRoot),
     refresh: (): Promise<import('@shared/types').ClaudeSlashCompletionsSnapshot> =>
       ipcRenderer.invoke(IPC_CHANNELS.CLAUDE_COMPLETIONS_REFRESH),
     learn: (label: string): Promise<import('@shared/types').ClaudeSlashCompletionsSnapshot> =>
@@ -874,6 +1184,26 @@ const electronAPI = {
       ipcRenderer.invoke(IPC_CHANNELS.SEARCH_FILES, params),
     content: (params: ContentSearchParams): Promise<ContentSearchResult> =>
       ipcRenderer.invoke(IPC_CHANNELS.SEARCH_CONTENT, params),
+    // Every file with a match, without the result caps of content(); used by replace
+    contentFiles: (params: ContentSearchParams): Promise<ContentSearchFileList> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SEARCH_CONTENT_FILES, params),
+  },
+
+  // Language servers
+  lsp: {
+    openDocument: (params: LspOpenDocumentParams): Promise<boolean> =>
+      ipcRenderer.invoke(IPC_CHANNELS.LSP_OPEN_DOCUMENT, params),
+    changeDocument: (params: LspChangeDocumentParams): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.LSP_CHANGE_DOCUMENT, params),
+    closeDocument: (params: LspCloseDocumentParams): Promise<void> =>
+      ipcRenderer.invoke(IPC_CHANNELS.LSP_CLOSE_DOCUMENT, params),
+    request: <T = unknown>(params: LspRequestParams): Promise<T | null> =>
+      ipcRenderer.invoke(IPC_CHANNELS.LSP_REQUEST, params),
+    onDiagnostics: (callback: (event: LspDiagnosticsEvent) => void): (() => void) => {
+      const handler = (_: unknown, event: LspDiagnosticsEvent) => callback(event);
+      ipcRenderer.on(IPC_CHANNELS.LSP_DIAGNOSTICS, handler);
+      return () => ipcRenderer.off(IPC_CHANNELS.LSP_DIAGNOSTICS, handler);
+    },
   },
 
   // Hapi Remote Sharing
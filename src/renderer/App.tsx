@@ -3,6 +3,7 @@ import type {
   WorktreeCreateOptions,
   WorktreeMergeOptions,
   WorktreeMergeResult,
+  WorktreeRebaseResult,
 } from '@shared/types';
 import { getPathBasename } from '@shared/utils/path';
 import { AnimatePresence, motion } from 'framer-motion';
@@ -23,15 +24,18 @@ import {
   useFileDragDrop,
   useFocusSession,
   useGroupSync,
+  useIdeToolRequests,
   useMenuActions,
   useMergeState,
   useOpenPathListener,
   usePanelState,
+  useRebaseState,
   useRepositoryState,
   useSettingsEvents,
   useSettingsState,
   useTempWorkspaceSync,
   useTerminalNavigation,
+  useWorktreeHookEvents,
   useWorktreeSelection,
   useWorktreeState,
   useWorktreeSync,
@@ -59,6 +63,7 @@ import { TreeSidebar } from './components/layout/TreeSidebar';
 import { WindowTitleBar } from './components/layout/WindowTitleBar';
 import { WorktreePanel } from './components/layout/WorktreePanel';
 import { DraggableSettingsWindow } from './components/settings/DraggableSettingsWindow';
+import { IdeDiffReviewDialog } from './components/source-control/IdeDiffReviewDialog';
 import { TempWorkspaceDialogs } from './components/temp-workspace/TempWorkspaceDialogs';
 import { UpdateNotification } from './components/UpdateNotification';
 import { Button } from './components/ui/button';
@@ -71,7 +76,7 @@ import {
   DialogTitle,
 } from './components/ui/dialog';
 import { addToast, toastManager } from './components/ui/toast';
-import { MergeEditor, MergeWorktreeDialog } from './components/worktree';
+import { InteractiveRebaseDialog, MergeEditor, MergeWorktreeDialog } from './components/worktree';
 import { useAutoFetchListener, useGitBranches, useGitInit } from './hooks/useGit';
 import { useWebInspector } from './hooks/useWebInspector';
 import {
@@ -80,11 +85,13 @@ import {
   useWorktreeMerge,
   useWorktreeMergeAbort,
   useWorktreeMergeContinue,
+  useWorktreeRebaseContinue,
   useWorktreeRemove,
   useWorktreeResolveConflict,
 } from './hooks/useWorktree';
 import { useI18n } from './i18n';
 import { initCloneProgressListener } from './stores/cloneTasks';
+import { initDevServersListener } from './stores/devServers';
 import { useEditorStore } from './stores/editor';
 import { useInitScriptStore } from './stores/initScript';
 import { useSettingsStore } from './stores/settings';
@@ -103,6 +110,11 @@ export default function App() {
     return initAgentActivityListener();
   }, []);
 
+  // Track dev server ports opened by terminal sessions, shown per worktree
+  useEffect(() => {
+    return initDevServersListener();
+  }, []);
+
   // Listen for auto-fetch completion events to refresh git status
   useAutoFetchListener();
 
@@ -214,6 +226,16 @@ export default function App() {
     handleOpenMergeDialog,
   } = useMergeState();
 
+  const {
+    rebaseDialogOpen,
+    rebaseWorktree,
+    rebaseConflicts,
+    setRebaseDialogOpen,
+    setRebaseConflicts,
+    handleOpenRebaseDialog,
+    clearRebaseState,
+  } = useRebaseState();
+
   // Layout mode from settings
   const layoutMode = useSettingsStore((s) => s.layoutMode);
   const autoUpdateEnabled = useSettingsStore((s) => s.autoUpdateEnabled);
@@ -382,6 +404,7 @@ export default function App() {
   const resolveConflictMutation = useWorktreeResolveConflict();
   const abortMergeMutation = useWorktreeMergeAbort();
   const continueMergeMutation = useWorktreeMergeContinue();
+  const continueRebaseMutation = useWorktreeRebaseContinue();
 
   useEffect(() => {
     rehydrateTempWorkspaces();
@@ -448,6 +471,8 @@ export default function App() {
     onSwitchTab: handleTabChange,
   });
   useClaudeIntegration(activeWorktree?.path ?? null);
+  useIdeToolRequests();
+  useWorktreeHookEvents();
   useCodeReviewContinue(activeWorktree, handleTabChange);
   useWorktreeSync(worktrees, activeWorktree, worktreesFetching, setActiveWorktree);
 
@@ -771,7 +796,7 @@ export default function App() {
 
   const handleRemoveWorktree = (
     worktree: GitWorktree,
-    options?: { deleteBranch?: boolean; force?: boolean }
+    options?: { deleteBranch?: boolean; force?: boolean; ignoreHookFailure?: boolean }
   ) => {
     if (!selectedRepo) return;
 
@@ -792,9 +817,10 @@ export default function App() {
           force: worktree.prunable || options?.force,
           deleteBranch: options?.deleteBranch,
           branch: worktree.branch || undefined,
+          ignoreHookFailure: options?.ignoreHookFailure,
         },
       })
-      .then(() => {
+      .then((result) => {
         // Clear editor state for the removed worktree
         clearEditorWorktreeState(worktree.path);
         // Clear selection if the active worktree was removed
@@ -810,19 +836,38 @@ export default function App() {
           title: t('Worktree deleted'),
           description: worktree.branch || worktree.path,
         });
+        if (result.hookWarning) {
+          toastManager.add({
+            type: 'warning',
+            title: t('pre-remove hook was skipped'),
+            description: result.hookWarning,
+          });
+        }
       })
       .catch((err) => {
         const message = err instanceof Error ? err.message : String(err);
         const hasUncommitted = message.includes('modified or untracked');
+        const hookFailed = message.includes('pre-remove hook failed');
 
         // Show error toast
         toastManager.close(toastId);
-        toastManager.add({
+        addToast({
           type: 'error',
           title: t('Delete failed'),
           description: hasUncommitted
             ? t('This directory contains uncommitted changes. Please check "Force delete".')
             : message,
+          // Skips only the hook; git still refuses to drop uncommitted changes unless forced
+          actions: hookFailed
+            ? [
+                {
+                  label: t('Delete anyway'),
+                  onClick: () =>
+                    handleRemoveWorktree(worktree, { ...options, ignoreHookFailure: true }),
+                  variant: 'ghost',
+                },
+              ]
+            : undefined,
         });
       });
   };
@@ -871,7 +916,7 @@ export default function App() {
         title: t('Changes stashed'),
         description:
           t(
-            'Your uncommitted changes were stashed. After resolving conflicts, run "git stash pop" in:'
+            'Your uncommitted changes were stashed. After resolving conflicts, restore them from Version Control > Stashes in:'
           ) +
           '\n' +
           stashedPaths.join('\n'),
@@ -923,6 +968,66 @@ export default function App() {
     return window.electronAPI.worktree.getConflictContent(selectedRepo, file);
   };
 
+  // Rebase conflicts live in the rebased worktree, not in the main repository
+  const handleRebaseConflicts = (result: WorktreeRebaseResult, worktreePath: string) => {
+    setRebaseConflicts({
+      worktreePath,
+      branch: rebaseWorktree?.branch ?? null,
+      conflicts: result.conflicts ?? [],
+      step: 0,
+    });
+  };
+
+  const handleResolveRebaseConflict = async (file: string, content: string) => {
+    if (!rebaseConflicts) return;
+    await resolveConflictMutation.mutateAsync({
+      workdir: rebaseConflicts.worktreePath,
+      resolution: { file, content },
+    });
+  };
+
+  const handleAbortRebase = async () => {
+    if (!rebaseConflicts) return;
+    await abortMergeMutation.mutateAsync({ workdir: rebaseConflicts.worktreePath });
+    clearRebaseState();
+    refetch();
+  };
+
+  const handleContinueRebase = async () => {
+    if (!rebaseConflicts) return;
+    const result = await continueRebaseMutation.mutateAsync({
+      worktreePath: rebaseConflicts.worktreePath,
+    });
+    if (result.success) {
+      toastManager.add({
+        type: 'success',
+        title: t('Rebase completed'),
+        description: rebaseConflicts.branch ?? rebaseConflicts.worktreePath,
+      });
+      clearRebaseState();
+      refetch();
+      refetchBranches();
+    } else if (result.conflicts && result.conflicts.length > 0) {
+      // The next commit in the plan stopped on new conflicts
+      setRebaseConflicts({
+        ...rebaseConflicts,
+        conflicts: result.conflicts,
+        step: rebaseConflicts.step + 1,
+      });
+    } else if (result.error) {
+      toastManager.add({
+        type: 'error',
+        title: t('Rebase failed'),
+        description: result.error,
+      });
+    }
+  };
+
+  const getRebaseConflictContent = async (file: string) => {
+    if (!rebaseConflicts) throw new Error('No rebase in progress');
+    return window.electronAPI.worktree.getConflictContent(rebaseConflicts.worktreePath, file);
+  };
+
   useEffect(() => {
     const isSettingsOpen =
       (settingsDisplayMode === 'tab' && activeTab === 'settings') ||
@@ -988,6 +1093,7 @@ export default function App() {
                   onCreateWorktree={handleCreateWorktree}
                   onRemoveWorktree={handleRemoveWorktree}
                   onMergeWorktree={handleOpenMergeDialog}
+                  onRebaseWorktree={handleOpenRebaseDialog}
                   onReorderRepositories={handleReorderRepositories}
                   onReorderWorktrees={handleReorderWorktrees}
                   onRefresh={() => {
@@ -1111,6 +1217,7 @@ export default function App() {
                       onCreateWorktree={handleCreateWorktree}
                       onRemoveWorktree={handleRemoveWorktree}
                       onMergeWorktree={handleOpenMergeDialog}
+                      onRebaseWorktree={handleOpenRebaseDialog}
                       onReorderWorktrees={handleReorderWorktrees}
                       onInitGit={handleInitGit}
                       onRefresh={() => {
@@ -1304,6 +1411,44 @@ export default function App() {
           </Dialog>
         )}
 
+        {/* Interactive Rebase Dialog */}
+        {rebaseWorktree && selectedRepo && (
+          <InteractiveRebaseDialog
+            open={rebaseDialogOpen}
+            onOpenChange={setRebaseDialogOpen}
+            repoPath={selectedRepo}
+            worktree={rebaseWorktree}
+            branches={branches}
+            onConflicts={handleRebaseConflicts}
+            onSuccess={() => {
+              refetch();
+              refetchBranches();
+            }}
+          />
+        )}
+
+        {/* Rebase Conflict Editor */}
+        {rebaseConflicts && rebaseConflicts.conflicts.length > 0 && (
+          <Dialog open={true} onOpenChange={() => {}}>
+            <DialogPopup className="h-[90vh] max-w-[95vw] p-0" showCloseButton={false}>
+              <MergeEditor
+                key={rebaseConflicts.step}
+                mode="rebase"
+                conflicts={rebaseConflicts.conflicts}
+                workdir={rebaseConflicts.worktreePath}
+                sourceBranch={rebaseConflicts.branch || undefined}
+                onResolve={handleResolveRebaseConflict}
+                onComplete={handleContinueRebase}
+                onAbort={handleAbortRebase}
+                getConflictContent={getRebaseConflictContent}
+              />
+            </DialogPopup>
+          </Dialog>
+        )}
+
+        {/* Edits proposed by Claude Code through the IDE bridge */}
+        <IdeDiffReviewDialog />
+
         {/* Clone Progress Float - shows clone progress in bottom right corner */}
         <CloneProgressFloat onCloneComplete={handleCloneRepository} />
 
@@ -2,7 +2,7 @@
 export const panelTransition = { type: 'spring' as const, stiffness: 400, damping: 30 };
 
 // Tab types
-export type TabId = 'chat' | 'file' | 'terminal' | 'source-control' | 'todo' | 'settings';
+export type TabId = 'chat' | 'file' | 'terminal' | 'tasks' | 'source-control' | 'todo' | 'settings';
 
 // Tab metadata configuration
 export interface TabConfig {
@@ -12,7 +12,14 @@ export interface TabConfig {
 }
 
 // Default tab order
-export const DEFAULT_TAB_ORDER: TabId[] = ['chat', 'file', 'terminal', 'source-control', 'todo'];
+export const DEFAULT_TAB_ORDER: TabId[] = [
+  'chat',
+  'file',
+  'terminal',
+  'tasks',
+  'source-control',
+  'todo',
+];
 
 // ========== Repository Group ==========
 
@@ -6,15 +6,18 @@ export { useCodeReviewContinue } from './useCodeReviewContinue';
 export { useFileDragDrop } from './useFileDragDrop';
 export { useFocusSession } from './useFocusSession';
 export { useGroupSync } from './useGroupSync';
+export { useIdeToolRequests } from './useIdeToolRequests';
 export { useMenuActions } from './useMenuActions';
 export { useMergeState } from './useMergeState';
 export { useOpenPathListener } from './useOpenPathListener';
 export { usePanelState } from './usePanelState';
+export { useRebaseState } from './useRebaseState';
 export { useRepositoryState } from './useRepositoryState';
 export { useSettingsEvents } from './useSettingsEvents';
 export { useSettingsState } from './useSettingsState';
 export { useTempWorkspaceSync } from './useTempWorkspaceSync';
 export { useTerminalNavigation } from './useTerminalNavigation';
+export { useWorktreeHookEvents } from './useWorktreeHookEvents';
 export { useWorktreeSelection } from './useWorktreeSelection';
 export { useWorktreeState } from './useWorktreeState';
 export { useWorktreeSync } from './useWorktreeSync';
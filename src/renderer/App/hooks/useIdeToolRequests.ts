@@ -0,0 +1,158 @@
+import type { IdeToolRequest } from '@shared/types';
+import { useEffect } from 'react';
+import { monaco } from '@/components/files/monacoSetup';
+import { useEditorStore } from '@/stores/editor';
+import { useIdeDiffStore } from '@/stores/ideDiff';
+import { useNavigationStore } from '@/stores/navigation';
+
+const SEVERITY_NAMES: Record<number, string> = {
+  [monaco.MarkerSeverity.Error]: 'Error',
+  [monaco.MarkerSeverity.Warning]: 'Warning',
+  [monaco.MarkerSeverity.Info]: 'Information',
+  [monaco.MarkerSeverity.Hint]: 'Hint',
+};
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+async function openFile(args: Record<string, unknown>) {
+  const path = String(args.filePath);
+  const line = optionalNumber(args.startLine);
+  const endLine = optionalNumber(args.endLine);
+
+  if (args.makeFrontmost !== false) {
+    useNavigationStore.getState().navigateToFile({ path, line, endLine });
+    return { opened: true };
+  }
+
+  // Open in the background: load the tab without switching to the file panel
+  const editor = useEditorStore.getState();
+  if (!editor.tabs.some((tab) => tab.path === path)) {
+    const { content, encoding } = await window.electronAPI.file.read(path);
+    editor.openFile({ path, content, encoding, isDirty: false });
+  } else {
+    editor.setActiveFile(path);
+  }
+  if (line) {
+    editor.setPendingCursor({ path, line, endLine });
+  }
+  return { opened: true };
+}
+
+function getOpenEditors() {
+  const { tabs, activeTabPath } = useEditorStore.getState();
+  return {
+    tabs: tabs.map((tab) => ({
+      uri: monaco.Uri.file(tab.path).toString(),
+      filePath: tab.path,
+      label: tab.title,
+      isActive: tab.path === activeTabPath,
+      isDirty: tab.isDirty,
+    })),
+  };
+}
+
+function getDiagnostics(args: Record<string, unknown>) {
+  const filePath = typeof args.filePath === 'string' ? args.filePath : undefined;
+  const markers = monaco.editor.getModelMarkers(
+    filePath ? { resource: monaco.Uri.file(filePath) } : {}
+  );
+
+  // Group by file; diff and commit views use non-file models and are skipped
+  const byUri = new Map<string, { uri: string; filePath: string; diagnostics: unknown[] }>();
+  for (const marker of markers) {
+    if (marker.resource.scheme !== 'file') continue;
+    const uri = marker.resource.toString();
+    let entry = byUri.get(uri);
+    if (!entry) {
+      entry = { uri, filePath: marker.resource.fsPath, diagnostics: [] };
+      byUri.set(uri, entry);
+    }
+    entry.diagnostics.push({
+      message: marker.message,
+      severity: SEVERITY_NAMES[marker.severity] ?? 'Information',
+      source: marker.source,
+      code: typeof marker.code === 'string' ? marker.code : marker.code?.value,
+      // LSP-style 0-based positions
+      range: {
+        start: { line: marker.startLineNumber - 1, character: marker.startColumn - 1 },
+        end: { line: marker.endLineNumber - 1, character: marker.endColumn - 1 },
+      },
+    });
+  }
+  return [...byUri.values()];
+}
+
+async function saveDocument(args: Record<string, unknown>) {
+  const filePath = String(args.filePath);
+  const tab = useEditorStore.getState().tabs.find((t) => t.path === filePath);
+  if (!tab) {
+    return { success: false, saved: false, message: 'File is not open in the editor' };
+  }
+  if (!tab.isDirty) {
+    return { success: true, saved: false, message: 'File has no unsaved changes' };
+  }
+  await window.electronAPI.file.write(tab.path, tab.content, tab.encoding);
+  useEditorStore.getState().markFileSaved(tab.path);
+  return { success: true, saved: true, message: `Saved ${tab.path}` };
+}
+
+async function queueDiffReview(requestId: string, args: Record<string, unknown>) {
+  const oldFilePath = String(args.oldFilePath);
+  let originalContents = '';
+  try {
+    ({ content: originalContents } = await window.electronAPI.file.read(oldFilePath));
+  } catch {
+    // New file: diff against empty contents
+  }
+  useIdeDiffStore.getState().addReview({
+    requestId,
+    filePath: String(args.newFilePath),
+    tabName: String(args.tabName ?? ''),
+    originalContents,
+    newContents: String(args.newContents ?? ''),
+  });
+}
+
+async function handleToolRequest({ requestId, tool, args }: IdeToolRequest): Promise<void> {
+  const respond = (result: unknown) =>
+    window.electronAPI.mcp.sendToolResponse({ requestId, result });
+
+  switch (tool) {
+    case 'openFile':
+      return respond(await openFile(args));
+    case 'openDiff':
+      // Answered by IdeDiffReviewDialog once the user accepts or rejects
+      return queueDiffReview(requestId, args);
+    case 'getOpenEditors':
+      return respond(getOpenEditors());
+    case 'getDiagnostics':
+      return respond(getDiagnostics(args));
+    case 'saveDocument':
+      return respond(await saveDocument(args));
+  }
+}
+
+/**
+ * Answers Claude Code tool calls forwarded by the IDE bridge.
+ */
+export function useIdeToolRequests() {
+  useEffect(() => {
+    const offRequest = window.electronAPI.mcp.onToolRequest((request) => {
+      handleToolRequest(request).catch((err) => {
+        window.electronAPI.mcp.sendToolResponse({
+          requestId: request.requestId,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      });
+    });
+    const offCancel = window.electronAPI.mcp.onToolCancel((requestId) => {
+      useIdeDiffStore.getState().removeReview(requestId);
+    });
+    return () => {
+      offRequest();
+      offCancel();
+    };
+  }, []);
+}
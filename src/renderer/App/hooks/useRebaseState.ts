@@ -0,0 +1,36 @@
+import type { GitWorktree, MergeConflict } from '@shared/types';
+import { useState } from 'react';
+
+interface RebaseConflictState {
+  worktreePath: string;
+  branch: string | null;
+  conflicts: MergeConflict[];
+  // Bumped on every rebase stop so the merge editor remounts with fresh state
+  step: number;
+}
+
+export function useRebaseState() {
+  const [rebaseDialogOpen, setRebaseDialogOpen] = useState(false);
+  const [rebaseWorktree, setRebaseWorktree] = useState<GitWorktree | null>(null);
+  const [rebaseConflicts, setRebaseConflicts] = useState<RebaseConflictState | null>(null);
+
+  const handleOpenRebaseDialog = (worktree: GitWorktree) => {
+    setRebaseWorktree(worktree);
+    setRebaseDialogOpen(true);
+  };
+
+  const clearRebaseState = () => {
+    setRebaseConflicts(null);
+  };
+
+  return {
+    rebaseDialogOpen,
+    rebaseWorktree,
+    rebaseConflicts,
+    setRebaseDialogOpen,
+    setRebaseWorktree,
+    setRebaseConflicts,
+    handleOpenRebaseDialog,
+    clearRebaseState,
+  };
+}
@@ -14,10 +14,10 @@ export function useTerminalNavigation(
   useEffect(() => {
     if (!pendingNavigation) return;
 
-    const { path, line, column, previewMode } = pendingNavigation;
+    const { path, line, column, endLine, previewMode } = pendingNavigation;
 
     // Open the file and set cursor position
-    navigateToFile(path, line, column, undefined, previewMode);
+    navigateToFile(path, line, column, undefined, previewMode, endLine);
 
     // Switch to file tab and update worktree tab map
     setActiveTab('file');
@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+import { useWorktreeHooksStore } from '@/stores/worktreeHooks';
+
+/**
+ * Mirrors lifecycle hook runs from the main process and reports failures.
+ */
+export function useWorktreeHookEvents() {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const { setRun, setRuns } = useWorktreeHooksStore.getState();
+    window.electronAPI.worktree
+      .getHookRuns()
+      .then(setRuns)
+      .catch(() => {});
+
+    return window.electronAPI.worktree.onHookUpdate((run) => {
+      setRun(run);
+      if (run.status === 'failed' || run.status === 'timeout') {
+        toastManager.add({
+          type: 'error',
+          title: t('{{hook}} hook failed', { hook: run.hook }),
+          description: run.error,
+          timeout: 8000,
+        });
+      }
+    });
+  }, [t]);
+}
@@ -7,7 +7,7 @@ import { useI18n } from '@/i18n';
 import { useEditorStore } from '@/stores/editor';
 import { useSettingsStore } from '@/stores/settings';
 import { requestUnsavedChoice } from '@/stores/unsavedPrompt';
-import type { TabId } from '../constants';
+import { type TabId, TEMP_REPO_ID } from '../constants';
 
 export function useWorktreeSelection(
   activeWorktree: GitWorktree | null,
@@ -138,6 +138,13 @@ export function useWorktreeSelection(
       // Switch to new worktree
       setActiveWorktree(worktree);
 
+      const repoPath = nextRepoPath ?? selectedRepo;
+      if (repoPath && repoPath !== TEMP_REPO_ID && worktree.path !== activeWorktree?.path) {
+        window.electronAPI.worktree
+          .runHook(repoPath, worktree.path, 'on-activate', worktree.branch)
+          .catch(() => {});
+      }
+
       // Restore the new worktree's tab state
       const savedTab = worktreeTabMap[worktree.path] || 'chat';
       setActiveTab(savedTab);
@@ -32,6 +32,7 @@ export const STORAGE_KEYS = {
   SC_REPO_LIST_EXPANDED: 'enso-sc-repo-list-expanded',
   SC_CHANGES_EXPANDED: 'enso-sc-changes-expanded',
   SC_HISTORY_EXPANDED: 'enso-sc-history-expanded',
+  SC_STASHES_EXPANDED: 'enso-sc-stashes-expanded',
 } as const;
 
 // Helper to get initial value from localStorage
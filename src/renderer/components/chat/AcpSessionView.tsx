@@ -0,0 +1,250 @@
+import type { AcpPermissionRequest, AgentMessage, ToolCall } from '@shared/types';
+import {
+  AlertCircle,
+  Check,
+  CircleDashed,
+  Loader2,
+  Send,
+  ShieldQuestion,
+  Square,
+  SquareTerminal,
+  Wrench,
+  X,
+} from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import Markdown from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import remarkGfm from 'remark-gfm';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { useAcpSession } from '@/hooks/useAcpSession';
+import { useI18n } from '@/i18n';
+
+interface AcpSessionViewProps {
+  id: string;
+  agentId: string;
+  cwd: string;
+  // Sent as the first message once the agent is ready (e.g. from a todo task)
+  initialPrompt?: string;
+  onInitialized?: () => void;
+  onActivated?: () => void;
+  onFocus?: () => void;
+  // Reopen this session as a plain terminal (PTY mode)
+  onFallbackToTerminal?: () => void;
+}
+
+const TOOL_STATUS_ICON: Record<ToolCall['status'], React.ReactNode> = {
+  pending: <CircleDashed className="h-3.5 w-3.5 text-muted-foreground" />,
+  running: <Loader2 className="h-3.5 w-3.5 animate-spin text-blue-500" />,
+  completed: <Check className="h-3.5 w-3.5 text-green-500" />,
+  failed: <X className="h-3.5 w-3.5 text-destructive" />,
+};
+
+function formatToolValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+function ToolCallItem({ call }: { call: ToolCall }) {
+  const [expanded, setExpanded] = useState(false);
+  const detail = call.output ?? call.input;
+
+  return (
+    <div className="rounded-md border bg-muted/30 text-xs">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-2 py-1.5 text-left"
+        onClick={() => setExpanded((prev) => !prev)}
+        disabled={detail === undefined}
+      >
+        {TOOL_STATUS_ICON[call.status]}
+        <Wrench className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+        <span className="min-w-0 flex-1 truncate font-mono">{call.name}</span>
+      </button>
+      {expanded && detail !== undefined && (
+        <pre className="max-h-48 overflow-auto border-t px-2 py-1.5 whitespace-pre-wrap break-all text-muted-foreground">
+          {formatToolValue(detail)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+function MessageItem({ message }: { message: AgentMessage }) {
+  if (message.role === 'user') {
+    return (
+      <div className="ml-auto max-w-[85%] rounded-lg bg-primary/10 px-3 py-2 text-sm whitespace-pre-wrap select-text">
+        {message.content}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {message.content && (
+        <div className="text-sm text-foreground select-text [&_code]:font-mono [&_p]:my-1.5 [&_pre]:overflow-x-auto">
+          <Markdown remarkPlugins={[remarkGfm, remarkBreaks]}>{message.content}</Markdown>
+        </div>
+      )}
+      {message.toolCalls?.map((call) => (
+        <ToolCallItem key={call.id} call={call} />
+      ))}
+    </div>
+  );
+}
+
+function PermissionPrompt({
+  request,
+  onRespond,
+}: {
+  request: AcpPermissionRequest;
+  onRespond: (optionId: string | null) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm">
+      <div className="flex items-center gap-2 font-medium">
+        <ShieldQuestion className="h-4 w-4 shrink-0 text-yellow-600 dark:text-yellow-400" />
+        <span className="min-w-0 truncate">
+          {t('Allow {{tool}}?', { tool: request.toolCall.name })}
+        </span>
+      </div>
+      {request.toolCall.input !== undefined && (
+        <pre className="max-h-32 overflow-auto rounded bg-background/60 p-2 text-xs whitespace-pre-wrap break-all">
+          {formatToolValue(request.toolCall.input)}
+        </pre>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {request.options.map((option) => (
+          <Button
+            key={option.optionId}
+            size="xs"
+            variant={option.kind.startsWith('allow') ? 'default' : 'outline'}
+            onClick={() => onRespond(option.optionId)}
+          >
+            {option.name}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Chat-style view of an agent running over the Agent Client Protocol.
+ * Used instead of AgentTerminal for sessions in ACP mode.
+ */
+export function AcpSessionView({
+  id,
+  agentId,
+  cwd,
+  initialPrompt,
+  onInitialized,
+  onActivated,
+  onFocus,
+  onFallbackToTerminal,
+}: AcpSessionViewProps) {
+  const { t } = useI18n();
+  const { status, error, messages, permissions, prompt, cancel, respondPermission } = useAcpSession(
+    id,
+    { agentId, cwd }
+  );
+  const [input, setInput] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const initializedRef = useRef(false);
+
+  const isPrompting = status === 'prompting';
+  const canSend = status === 'ready' && input.trim().length > 0;
+
+  useEffect(() => {
+    if (status !== 'ready' || initializedRef.current) return;
+    initializedRef.current = true;
+    if (initialPrompt) {
+      onActivated?.();
+      prompt(initialPrompt);
+    }
+    onInitialized?.();
+  }, [status, initialPrompt, onActivated, onInitialized, prompt]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: scroll when the transcript grows
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, permissions]);
+
+  const handleSend = () => {
+    if (!canSend) return;
+    const text = input.trim();
+    setInput('');
+    onActivated?.();
+    prompt(text);
+  };
+
+  return (
+    <div className="flex h-full flex-col bg-background" onFocusCapture={onFocus}>
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="mx-auto max-w-3xl space-y-4 px-4 pt-14 pb-4">
+          {messages.map((message) => (
+            <MessageItem key={message.id} message={message} />
+          ))}
+          {permissions.map((request) => (
+            <PermissionPrompt
+              key={request.requestId}
+              request={request}
+              onRespond={(optionId) => respondPermission(request.requestId, optionId)}
+            />
+          ))}
+          {status === 'starting' && (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t('Starting agent...')}
+            </div>
+          )}
+          {isPrompting && permissions.length === 0 && (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+          {error && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span className="min-w-0 flex-1 break-all whitespace-pre-wrap">{error}</span>
+            </div>
+          )}
+          {(status === 'error' || status === 'closed') && onFallbackToTerminal && (
+            <div className="flex justify-center">
+              <Button size="sm" variant="outline" onClick={onFallbackToTerminal}>
+                <SquareTerminal className="h-4 w-4" />
+                {t('Open in terminal mode')}
+              </Button>
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      <div className="mx-auto flex w-full max-w-3xl items-end gap-2 px-4 pb-4">
+        <Textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder={t('Message the agent...')}
+          disabled={status === 'error' || status === 'closed'}
+          className="max-h-48 flex-1 overflow-y-auto"
+        />
+        {isPrompting ? (
+          <Button size="icon" variant="outline" onClick={cancel} title={t('Stop')}>
+            <Square className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button size="icon" disabled={!canSend} onClick={handleSend} title={t('Send')}>
+            <Send className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
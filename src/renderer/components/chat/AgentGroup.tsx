@@ -22,6 +22,7 @@ interface AgentGroupProps {
   onSessionNew: () => void;
   onSessionNewWithAgent: (agentId: string, agentCommand: string) => void;
   onSessionRename: (sessionId: string, name: string) => void;
+  onSessionProviderChange?: (sessionId: string, providerId: string | undefined) => void;
   onSessionReorder: (fromIndex: number, toIndex: number) => void;
   onGroupClick: () => void;
   // Quick Terminal props
@@ -42,6 +43,7 @@ export function AgentGroup({
   onSessionNew,
   onSessionNewWithAgent,
   onSessionRename,
+  onSessionProviderChange,
   onSessionReorder,
   onGroupClick,
   quickTerminalOpen,
@@ -163,6 +165,7 @@ export function AgentGroup({
       onNewSession={onSessionNew}
       onNewSessionWithAgent={onSessionNewWithAgent}
       onRenameSession={onSessionRename}
+      onSessionProviderChange={onSessionProviderChange}
       onReorderSessions={onSessionReorder}
       quickTerminalOpen={quickTerminalOpen}
       quickTerminalHasProcess={quickTerminalHasProcess}
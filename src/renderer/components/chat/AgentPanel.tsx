@@ -24,6 +24,7 @@ import { useCodeReviewContinueStore } from '@/stores/codeReviewContinue';
 import { BUILTIN_AGENT_IDS, useSettingsStore } from '@/stores/settings';
 import { useTerminalStore } from '@/stores/terminal';
 import { useWorktreeActivityStore } from '@/stores/worktreeActivity';
+import { AcpSessionView } from './AcpSessionView';
 import { AgentGroup } from './AgentGroup';
 import { AgentTerminal } from './AgentTerminal';
 import { EnhancedInputContainer } from './EnhancedInputContainer';
@@ -109,7 +110,13 @@ function createSession(
   customAgents: Array<{ id: string; name: string; command: string }>,
   agentSettings: Record<
     string,
-    { enabled: boolean; isDefault: boolean; customPath?: string; customArgs?: string }
+    {
+      enabled: boolean;
+      isDefault: boolean;
+      customPath?: string;
+      customArgs?: string;
+      acpMode?: boolean;
+    }
   >
 ): Session {
   // Handle Hapi and Happy agent IDs
@@ -134,6 +141,8 @@ function createSession(
   const agentConfig = agentSettings[baseId];
   const customPath = agentConfig?.customPath;
   const customArgs = agentConfig?.customArgs;
+  // Hapi/Happy wrap the CLI in their own runner, so they always use a terminal
+  const mode = agentConfig?.acpMode && environment === 'native' ? 'acp' : undefined;
 
   const id = crypto.randomUUID();
   return {
@@ -148,6 +157,7 @@ function createSession(
     repoPath,
     cwd,
     environment,
+    mode,
   };
 }
 
@@ -248,6 +258,12 @@ export function AgentPanel({ repoPath, cwd, isActive = false, onSwitchWorktree }
     return getXtermTheme(terminalTheme)?.background ?? defaultDarkTheme.background;
   }, [terminalTheme, bgImageEnabled]);
   const statusLineEnabled = claudeCodeIntegration.statusLineEnabled;
+
+  // Claude providers by id, applied only to the sessions bound to them
+  const providersById = useMemo(
+    () => new Map(claudeCodeIntegration.providers.map((provider) => [provider.id, provider])),
+    [claudeCodeIntegration.providers]
+  );
   const defaultAgentId = useMemo(() => getDefaultAgentId(agentSettings), [agentSettings]);
   const { setAgentCount, registerAgentCloseHandler } = useWorktreeActivityStore();
 
@@ -534,7 +550,7 @@ export function AgentPanel({ repoPath, cwd, isActive = false, onSwitchWorktree }
 
   // Map AI provider (code review) to agent id for "Continue Conversation"
   const continueAgentId = useMemo(() => {
-    const map: Record<AIProvider, string> = {
+    const map: Partial<Record<AIProvider, string>> = {
       'claude-code': 'claude',
       'codex-cli': 'codex',
       'cursor-cli': 'cursor',
@@ -970,6 +986,13 @@ export function AgentPanel({ repoPath, cwd, isActive = false, onSwitchWorktree }
     [updateSession]
   );
 
+  const handleSessionProviderChange = useCallback(
+    (id: string, providerId: string | undefined) => {
+      updateSession(id, { providerId });
+    },
+    [updateSession]
+  );
+
   const handleReorderSessions = useCallback(
     (groupId: string, fromIndex: number, toIndex: number) => {
       const group = groups.find((g) => g.id === groupId);
@@ -1685,51 +1708,69 @@ export function AgentPanel({ repoPath, cwd, isActive = false, onSwitchWorktree }
               {shouldShow && !isGroupActive && (
                 <div className="absolute inset-0 z-10 bg-background/10 pointer-events-none" />
               )}
-              <AgentTerminal
-                id={session.id}
-                cwd={session.cwd}
-                sessionId={session.sessionId || session.id}
-                agentId={session.agentId}
-                agentCommand={session.agentCommand || 'claude'}
-                customPath={session.customPath}
-                customArgs={session.customArgs}
-                environment={session.environment || 'native'}
-                initialized={session.initialized}
-                activated={session.activated}
-                isActive={isTerminalActive}
-                hasPendingCommand={!!session.pendingCommand}
-                initialPrompt={session.pendingCommand}
-                onInitialized={() => handleInitialized(sessionId)}
-                onActivated={() => handleActivated(sessionId)}
-                onActivatedWithFirstLine={(line) => handleActivatedWithFirstLine(sessionId, line)}
-                onExit={() => handleCloseSession(sessionId, groupId || undefined)}
-                onTerminalTitleChange={(title) => {
-                  if (session.userRenamed) return;
-                  const syncName =
-                    title &&
-                    isCursorAgent(session.agentId) &&
-                    session.name === getDefaultSessionName(session.agentId);
-                  updateSession(sessionId, {
-                    terminalTitle: title,
-                    ...(syncName ? { name: title } : {}),
-                  });
-                }}
-                onSplit={() => groupId && handleSplit(groupId)}
-                canMerge={info ? info.groupIndex > 0 : false}
-                onMerge={() => groupId && handleMerge(groupId)}
-                onFocus={() => groupId && handleSelectSession(sessionId, groupId)}
-                enhancedInputOpen={getEnhancedInputState(sessionId).open}
-                onEnhancedInputOpenChange={(open) => {
-                  // EnhancedInput open state is now stored per-session in the store
-                  setEnhancedInputOpen(sessionId, open);
-                }}
-                onRegisterEnhancedInputSender={(senderSessionId, sender) => {
-                  enhancedInputSenderRef.current.set(senderSessionId, sender);
-                }}
-                onUnregisterEnhancedInputSender={(senderSessionId) => {
-                  enhancedInputSenderRef.current.delete(senderSessionId);
-                }}
-              />
+              {session.mode === 'acp' ? (
+                <AcpSessionView
+                  id={session.id}
+                  agentId={session.agentId}
+                  cwd={session.cwd}
+                  initialPrompt={session.pendingCommand}
+                  onInitialized={() => handleInitialized(sessionId)}
+                  onActivated={() => handleActivated(sessionId)}
+                  onFocus={() => groupId && handleSelectSession(sessionId, groupId)}
+                  onFallbackToTerminal={() =>
+                    updateSession(sessionId, { mode: 'pty', initialized: false })
+                  }
+                />
+              ) : (
+                <AgentTerminal
+                  // Restart the agent when its provider changes: settings are read at spawn
+                  key={session.providerId ?? 'global'}
+                  id={session.id}
+                  cwd={session.cwd}
+                  sessionId={session.sessionId || session.id}
+                  agentId={session.agentId}
+                  agentCommand={session.agentCommand || 'claude'}
+                  customPath={session.customPath}
+                  customArgs={session.customArgs}
+                  environment={session.environment || 'native'}
+                  provider={session.providerId ? providersById.get(session.providerId) : undefined}
+                  initialized={session.initialized}
+                  activated={session.activated}
+                  isActive={isTerminalActive}
+                  hasPendingCommand={!!session.pendingCommand}
+                  initialPrompt={session.pendingCommand}
+                  onInitialized={() => handleInitialized(sessionId)}
+                  onActivated={() => handleActivated(sessionId)}
+                  onActivatedWithFirstLine={(line) => handleActivatedWithFirstLine(sessionId, line)}
+                  onExit={() => handleCloseSession(sessionId, groupId || undefined)}
+                  onTerminalTitleChange={(title) => {
+                    if (session.userRenamed) return;
+                    const syncName =
+                      title &&
+                      isCursorAgent(session.agentId) &&
+                      session.name === getDefaultSessionName(session.agentId);
+                    updateSession(sessionId, {
+                      terminalTitle: title,
+                      ...(syncName ? { name: title } : {}),
+                    });
+                  }}
+                  onSplit={() => groupId && handleSplit(groupId)}
+                  canMerge={info ? info.groupIndex > 0 : false}
+                  onMerge={() => groupId && handleMerge(groupId)}
+                  onFocus={() => groupId && handleSelectSession(sessionId, groupId)}
+                  enhancedInputOpen={getEnhancedInputState(sessionId).open}
+                  onEnhancedInputOpenChange={(open) => {
+                    // EnhancedInput open state is now stored per-session in the store
+                    setEnhancedInputOpen(sessionId, open);
+                  }}
+                  onRegisterEnhancedInputSender={(senderSessionId, sender) => {
+                    enhancedInputSenderRef.current.set(senderSessionId, sender);
+                  }}
+                  onUnregisterEnhancedInputSender={(senderSessionId) => {
+                    enhancedInputSenderRef.current.delete(senderSessionId);
+                  }}
+                />
+              )}
             </div>
           );
         })}
@@ -1770,6 +1811,7 @@ export function AgentPanel({ repoPath, cwd, isActive = false, onSwitchWorktree }
                 handleNewSessionWithAgent(agentId, cmd, group.id)
               }
               onSessionRename={handleRenameSession}
+              onSessionProviderChange={handleSessionProviderChange}
               onSessionReorder={(from, to) => handleReorderSessions(group.id, from, to)}
               onGroupClick={() => handleGroupClick(group.id)}
               quickTerminalOpen={quickTerminalOpen}
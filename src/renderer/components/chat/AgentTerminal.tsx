@@ -1,10 +1,15 @@
+import type { ClaudeProvider } from '@shared/types';
+import { getShellQuoteStyle, quoteShellArg } from '@shared/utils/shellQuote';
 import { ArrowDown } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { RecordingIndicator } from '@/components/terminal/RecordingIndicator';
 import {
   TerminalSearchBar,
   type TerminalSearchBarRef,
 } from '@/components/terminal/TerminalSearchBar';
+import { toastManager } from '@/components/ui/toast';
 import { useFileDrop } from '@/hooks/useFileDrop';
+import { useTerminalRecording } from '@/hooks/useTerminalRecording';
 import { useTerminalScrollToBottom } from '@/hooks/useTerminalScrollToBottom';
 import { useXterm } from '@/hooks/useXterm';
 import { useI18n } from '@/i18n';
@@ -22,6 +27,7 @@ interface AgentTerminalProps {
   customPath?: string; // custom absolute path to the agent CLI
   customArgs?: string; // additional arguments to pass to the agent
   environment?: 'native' | 'hapi' | 'happy';
+  provider?: ClaudeProvider; // Claude provider bound to this session only
   initialized?: boolean;
   activated?: boolean;
   isActive?: boolean;
@@ -66,6 +72,7 @@ export function AgentTerminal({
   customPath,
   customArgs,
   environment = 'native',
+  provider,
   initialized,
   activated,
   isActive = false,
@@ -99,6 +106,17 @@ export function AgentTerminal({
   // Track if hapi is globally installed (cached in main process)
   const [hapiGlobalInstalled, setHapiGlobalInstalled] = useState<boolean | null>(null);
 
+  // Per-session provider settings file passed with --settings (undefined while it is written)
+  const [providerSettingsPath, setProviderSettingsPath] = useState<string | null | undefined>(
+    provider ? undefined : null
+  );
+
+  // Credentials behind the ${VAR} placeholders of the project .mcp.json (values are vault references)
+  const usesProjectMcp = (agentCommand?.startsWith('claude') ?? false) && !!cwd;
+  const [projectMcpEnv, setProjectMcpEnv] = useState<Record<string, string> | undefined>(
+    usesProjectMcp ? undefined : {}
+  );
+
   // Resolved shell for command execution
   const [resolvedShell, setResolvedShell] = useState<{
     shell: string;
@@ -110,6 +128,73 @@ export function AgentTerminal({
     window.electronAPI.shell.resolveForCommand(shellConfig).then(setResolvedShell);
   }, [shellConfig]);
 
+  // Settings files written for this session hold plaintext tokens; deleted once it exits
+  const providerSettingsFilesRef = useRef<string[]>([]);
+  const deleteProviderSettings = useCallback(() => {
+    for (const settingsPath of providerSettingsFilesRef.current.splice(0)) {
+      window.electronAPI.claudeProvider.deleteSessionSettings(settingsPath);
+    }
+  }, []);
+
+  useEffect(() => deleteProviderSettings, [deleteProviderSettings]);
+
+  // Write the provider settings before spawning; settings.json env would override a PTY env
+  useEffect(() => {
+    if (!provider) {
+      setProviderSettingsPath(null);
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI.claudeProvider.writeSessionSettings(provider, cwd).then(
+      ({ settingsPath, overriddenKeys }) => {
+        providerSettingsFilesRef.current.push(settingsPath);
+        if (cancelled) return;
+        setProviderSettingsPath(settingsPath);
+        if (overriddenKeys.length > 0) {
+          toastManager.add({
+            type: 'warning',
+            title: t('Managed settings override the provider of this session'),
+            description: overriddenKeys.join(', '),
+          });
+        }
+      },
+      (error) => {
+        if (cancelled) return;
+        console.error('[AgentTerminal] Failed to write provider settings:', error);
+        setProviderSettingsPath(null);
+        toastManager.add({
+          type: 'error',
+          title: t('Failed to apply provider to this session'),
+          description: provider.name,
+        });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, cwd, t]);
+
+  useEffect(() => {
+    if (!usesProjectMcp || !cwd) {
+      setProjectMcpEnv({});
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI.claudeConfig.mcp.getProjectEnv(cwd).then(
+      (env) => {
+        if (!cancelled) setProjectMcpEnv(env);
+      },
+      (error) => {
+        if (cancelled) return;
+        console.error('[AgentTerminal] Failed to read project MCP variables:', error);
+        setProjectMcpEnv({});
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [usesProjectMcp, cwd]);
+
   // Check hapi global installation on mount (only for hapi environment)
   useEffect(() => {
     if (environment === 'hapi') {
@@ -286,8 +371,8 @@ export function AgentTerminal({
 
   // Build command with session args
   const { command, env } = useMemo(() => {
-    // Wait for shell config to be resolved
-    if (!resolvedShell) {
+    // Wait for shell config, provider settings and project MCP variables to be resolved
+    if (!resolvedShell || providerSettingsPath === undefined || projectMcpEnv === undefined) {
       return { command: undefined, env: undefined };
     }
 
@@ -313,6 +398,14 @@ export function AgentTerminal({
       agentArgs.push('--ide');
     }
 
+    // --settings outranks ~/.claude/settings.json, so the session provider wins over the global one
+    if (providerSettingsPath && agentCommand?.startsWith('claude')) {
+      agentArgs.push(
+        '--settings',
+        quoteShellArg(providerSettingsPath, getShellQuoteStyle(resolvedShell.shell))
+      );
+    }
+
     // Append custom args if provided
     if (customArgs) {
       agentArgs.push(customArgs);
@@ -346,7 +439,9 @@ export function AgentTerminal({
     }
 
     const isWindows = window.electronAPI?.env?.platform === 'win32';
-    let envVars: Record<string, string> | undefined;
+    // The PTY resolves the vault references right before spawning
+    let envVars: Record<string, string> | undefined =
+      Object.keys(projectMcpEnv).length > 0 ? { ...projectMcpEnv } : undefined;
 
     // Hapi environment: run through hapi (global) or npx @twsxtd/hapi with CLI_API_TOKEN
     if (environment === 'hapi') {
@@ -363,7 +458,7 @@ export function AgentTerminal({
 
       // Pass CLI_API_TOKEN from hapiSettings
       if (hapiSettings.cliApiToken) {
-        envVars = { CLI_API_TOKEN: hapiSettings.cliApiToken };
+        envVars = { ...envVars, CLI_API_TOKEN: hapiSettings.cliApiToken };
       }
 
       return {
@@ -410,7 +505,12 @@ export function AgentTerminal({
     let finalCommand = fullCommand;
     if (tmuxSessionName) {
       const escaped = fullCommand.replace(/'/g, "'\\''");
-      finalCommand = `env -u TMUX tmux -L enso -f /dev/null new-session -A -s ${tmuxSessionName} '${escaped}'`;
+      // A running tmux server keeps its own environment; forward the variables by name so
+      // the shell expands them from the PTY env and no value ends up in the command line
+      const forwardEnv = Object.keys(envVars ?? {})
+        .map((name) => ` -e "${name}=$${name}"`)
+        .join('');
+      finalCommand = `env -u TMUX tmux -L enso -f /dev/null new-session -A -s ${tmuxSessionName}${forwardEnv} '${escaped}'`;
     }
 
     // WSL: detect from shell name (wsl.exe)
@@ -455,6 +555,8 @@ export function AgentTerminal({
     resumeSessionId,
     initialized,
     environment,
+    providerSettingsPath,
+    projectMcpEnv,
     hapiSettings.cliApiToken,
     hapiGlobalInstalled,
     resolvedShell,
@@ -464,6 +566,7 @@ export function AgentTerminal({
 
   // Handle exit with auto-close logic
   const handleExit = useCallback(() => {
+    deleteProviderSettings();
     const runtime = startTimeRef.current ? Date.now() - startTimeRef.current : 0;
     const isSessionNotFound = outputBufferRef.current.includes(
       'No conversation found with session ID'
@@ -473,7 +576,7 @@ export function AgentTerminal({
       onExit?.();
     }
     // Quick exit without session error - keep tab open for debugging
-  }, [onExit]);
+  }, [onExit, deleteProviderSettings]);
 
   // Track output for error detection and idle notification
   const handleData = useCallback(
@@ -714,7 +817,7 @@ export function AgentTerminal({
 
   // Wait for shell config and hapi check to complete before activating terminal
   const effectiveIsActive = useMemo(() => {
-    if (!resolvedShell) {
+    if (!resolvedShell || providerSettingsPath === undefined) {
       return false;
     }
     if (environment === 'hapi' && hapiGlobalInstalled === null) {
@@ -722,7 +825,14 @@ export function AgentTerminal({
     }
     // Force activation when there's a pending command (auto-execute)
     return isActive || hasPendingCommand;
-  }, [environment, hapiGlobalInstalled, isActive, resolvedShell, hasPendingCommand]);
+  }, [
+    environment,
+    hapiGlobalInstalled,
+    isActive,
+    resolvedShell,
+    providerSettingsPath,
+    hasPendingCommand,
+  ]);
 
   const {
     containerRef,
@@ -735,6 +845,7 @@ export function AgentTerminal({
     clear,
     refreshRenderer,
     write,
+    getPtyId,
   } = useXterm({
     cwd,
     command,
@@ -750,6 +861,12 @@ export function AgentTerminal({
   });
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const searchBarRef = useRef<TerminalSearchBarRef>(null);
+  const getRecordingTitle = useCallback(() => agentId, [agentId]);
+  const { isRecording, canRecord, toggleRecording } = useTerminalRecording({
+    getPtyId,
+    cwd,
+    getTitle: getRecordingTitle,
+  });
 
   // Mirror the side effects that used to live in EnhancedInput.onOpenChange:
   // - Treat opening EnhancedInput as active user interaction (reset idle timers)
@@ -817,6 +934,11 @@ export function AgentTerminal({
         { id: 'separator-0', label: '', type: 'separator' as const },
         { id: 'clear', label: t('Clear terminal') },
         { id: 'refresh', label: t('Refresh terminal') },
+        {
+          id: 'record',
+          label: isRecording ? t('Stop recording') : t('Start recording'),
+          disabled: !canRecord,
+        },
         { id: 'separator-1', label: '', type: 'separator' as const },
         { id: 'copy', label: t('Copy'), disabled: !terminal?.hasSelection() },
         { id: 'paste', label: t('Paste') },
@@ -849,6 +971,9 @@ export function AgentTerminal({
         case 'refresh':
           refreshRenderer();
           break;
+        case 'record':
+          toggleRecording();
+          break;
         case 'copy':
           if (terminal?.hasSelection()) {
             const selection = terminal.getSelection();
@@ -871,7 +996,19 @@ export function AgentTerminal({
           break;
       }
     },
-    [terminal, clear, refreshRenderer, t, onSplit, canMerge, onMerge, onFocus]
+    [
+      terminal,
+      clear,
+      refreshRenderer,
+      t,
+      onSplit,
+      canMerge,
+      onMerge,
+      onFocus,
+      isRecording,
+      canRecord,
+      toggleRecording,
+    ]
   );
 
   useEffect(() => {
@@ -970,6 +1107,7 @@ export function AgentTerminal({
       onClick={handleClick}
     >
       <div ref={containerRef} className="h-full w-full" />
+      {isRecording && <RecordingIndicator onStop={toggleRecording} />}
       <TerminalSearchBar
         ref={searchBarRef}
         isOpen={isSearchOpen}
@@ -991,6 +1129,7 @@ export function AgentTerminal({
       )}
       {(isLoading ||
         !resolvedShell ||
+        providerSettingsPath === undefined ||
         (environment === 'hapi' && hapiGlobalInstalled === null)) && (
         <div className="absolute inset-0 flex items-center justify-center">
           <div className="flex flex-col items-center gap-3">
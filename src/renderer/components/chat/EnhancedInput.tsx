@@ -68,7 +68,7 @@ export function EnhancedInput({
   const [mentionIndex, setMentionIndex] = useState(0);
   const mentionListRef = useRef<HTMLDivElement>(null);
 
-  // Slash command completions (indexed in main process from ~/.claude/commands and ~/.claude/skills)
+  // Slash command completions (indexed in main process from ~/.claude and <cwd>/.claude commands/skills)
   const [slashItems, setSlashItems] = useState<ClaudeSlashCompletionItem[]>([]);
   const [slashQuery, setSlashQuery] = useState<string | null>(null);
   const [slashResults, setSlashResults] = useState<ClaudeSlashCompletionItem[]>([]);
@@ -80,27 +80,46 @@ export function EnhancedInput({
     const api = window.electronAPI?.claudeCompletions;
     if (!api) return;
 
-    api
-      .get()
-      .then((data: ClaudeSlashCompletionsSnapshot) => {
-        if (!alive) return;
-        setSlashItems(data.items ?? []);
-      })
-      .catch(() => {
-        if (!alive) return;
-        setSlashItems([]);
-      });
+    const load = () =>
+      api
+        .get(cwd)
+        .then((data: ClaudeSlashCompletionsSnapshot) => {
+          if (!alive) return;
+          setSlashItems(data.items ?? []);
+        })
+        .catch(() => {
+          if (!alive) return;
+          setSlashItems([]);
+        });
 
-    const cleanup = api.onUpdated((data: ClaudeSlashCompletionsSnapshot) => {
+    load();
+    // Broadcast snapshots only hold user-level items; reload to merge the project ones
+    const cleanup = api.onUpdated(() => {
       if (!alive) return;
-      setSlashItems(data.items ?? []);
+      load();
     });
 
     return () => {
       alive = false;
       cleanup?.();
     };
-  }, []);
+  }, [cwd]);
+
+  // Project commands are not watched; re-read them whenever the popup opens
+  const slashOpen = slashQuery !== null;
+  useEffect(() => {
+    if (!slashOpen || !cwd) return;
+    let alive = true;
+    window.electronAPI?.claudeCompletions
+      ?.get(cwd)
+      .then((data) => {
+        if (alive) setSlashItems(data.items ?? []);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [slashOpen, cwd]);
 
   // Extract mention query from text before cursor
   const extractMentionQuery = useCallback((text: string, cursorPos: number): string | null => {
@@ -736,6 +755,11 @@ export function EnhancedInput({
                 <div className="flex items-center justify-between gap-2">
                   <span className="font-mono">{item.label}</span>
                   <span className="text-muted-foreground text-xs shrink-0">
+                    {(item.source === 'user' || item.source === 'project') && (
+                      <span className="mr-1.5 rounded bg-muted px-1 py-0.5 text-[10px]">
+                        {item.source === 'project' ? t('Project') : t('User')}
+                      </span>
+                    )}
                     {item.kind === 'command' ? '命令' : '技能'}
                   </span>
                 </div>
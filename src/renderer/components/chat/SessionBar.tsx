@@ -46,6 +46,8 @@ export interface Session {
   terminalTitle?: string; // current terminal title from OSC escape sequence
   userRenamed?: boolean; // true when user has manually renamed this session
   pendingCommand?: string; // command to send after agent is ready (e.g., from todo task)
+  mode?: 'pty' | 'acp'; // acp = structured session over the Agent Client Protocol (default: pty)
+  providerId?: string; // Claude provider bound to this session (default: global settings.json)
 }
 
 interface SessionBarProps {
@@ -56,6 +58,7 @@ interface SessionBarProps {
   onNewSession: () => void;
   onNewSessionWithAgent?: (agentId: string, agentCommand: string) => void;
   onRenameSession: (id: string, name: string) => void;
+  onSessionProviderChange?: (id: string, providerId: string | undefined) => void;
   onReorderSessions?: (fromIndex: number, toIndex: number) => void;
   // Quick Terminal props
   quickTerminalOpen?: boolean;
@@ -457,6 +460,7 @@ export function SessionBar({
   onNewSession,
   onNewSessionWithAgent,
   onRenameSession,
+  onSessionProviderChange,
   onReorderSessions,
   quickTerminalOpen,
   quickTerminalHasProcess,
@@ -493,13 +497,25 @@ export function SessionBar({
     staleTime: 30000, // 30秒缓存避免频繁查询
   });
 
-  // 计算当前激活的 Provider
-  const activeProvider = useMemo(() => {
+  // 计算全局 settings.json 中激活的 Provider
+  const globalProvider = useMemo(() => {
     const currentConfig = claudeData?.extracted;
     if (!currentConfig) return null;
     return providers.find((p) => isClaudeProviderMatch(p, currentConfig)) ?? null;
   }, [providers, claudeData?.extracted]);
 
+  // Claude sessions get their own provider; other agents keep switching the global one
+  const activeSession = sessions.find((s) => s.id === activeSessionId);
+  const bindSessionId =
+    onSessionProviderChange && activeSession?.agentCommand?.startsWith('claude')
+      ? activeSession.id
+      : null;
+  const sessionProvider = useMemo(() => {
+    const providerId = bindSessionId ? activeSession?.providerId : undefined;
+    return providerId ? (providers.find((p) => p.id === providerId) ?? null) : null;
+  }, [providers, bindSessionId, activeSession?.providerId]);
+  const activeProvider = bindSessionId ? (sessionProvider ?? globalProvider) : globalProvider;
+
   // Provider 切换 mutation
   const applyProvider = useMutation({
     mutationFn: (provider: ClaudeProvider) => window.electronAPI.claudeProvider.apply(provider),
@@ -535,8 +551,7 @@ export function SessionBar({
     return `${name.slice(0, 14)}...`;
   };
 
-  // 稳定的 Provider 回调函数
-  const handleApplyProvider = useCallback(
+  const handleApplyGlobalProvider = useCallback(
     (provider: ClaudeProvider) => {
       markClaudeProviderSwitch(provider);
       applyProvider.mutate(provider);
@@ -544,6 +559,23 @@ export function SessionBar({
     [applyProvider]
   );
 
+  // 稳定的 Provider 回调函数
+  const handleApplyProvider = useCallback(
+    (provider: ClaudeProvider) => {
+      if (!bindSessionId) {
+        handleApplyGlobalProvider(provider);
+        return;
+      }
+      onSessionProviderChange?.(bindSessionId, provider.id);
+      toastManager.add({
+        type: 'success',
+        title: t('Provider switched for this session'),
+        description: provider.name,
+      });
+    },
+    [bindSessionId, onSessionProviderChange, handleApplyGlobalProvider, t]
+  );
+
   const handleCloseProviderMenu = useCallback(() => {
     setShowProviderMenu(false);
   }, []);
@@ -980,7 +1012,13 @@ export function SessionBar({
                     type="button"
                     onClick={() => setShowProviderMenu(!showProviderMenu)}
                     className="flex h-7 shrink-0 items-center gap-1.5 rounded-full border px-3 text-sm text-muted-foreground hover:bg-accent/50 hover:text-foreground transition-colors whitespace-nowrap"
-                    title={activeProvider?.name ?? t('Select Provider')}
+                    title={
+                      sessionProvider
+                        ? t('{{name}} (this session)', { name: sessionProvider.name })
+                        : globalProvider
+                          ? t('{{name}} (global settings)', { name: globalProvider.name })
+                          : t('Select Provider')
+                    }
                   >
                     <svg
                       fill="currentColor"
@@ -997,6 +1035,9 @@ export function SessionBar({
                     {activeProvider ? (
                       <span>{truncateProviderName(activeProvider.name)}</span>
                     ) : null}
+                    {sessionProvider && (
+                      <span className="h-1.5 w-1.5 shrink-0 rounded-full bg-primary" />
+                    )}
                   </button>
 
                   {/* Provider 选择菜单 */}
@@ -1033,8 +1074,33 @@ export function SessionBar({
                             <TooltipPopup side="right">{t('Manage Providers')}</TooltipPopup>
                           </Tooltip>
                         </div>
+                        {bindSessionId && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              if (sessionProvider)
+                                onSessionProviderChange?.(bindSessionId, undefined);
+                              setShowProviderMenu(false);
+                            }}
+                            className="flex w-full items-center gap-2 whitespace-nowrap rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-accent hover:text-accent-foreground"
+                          >
+                            {sessionProvider ? (
+                              <Circle className="h-4 w-4 shrink-0" />
+                            ) : (
+                              <CheckCircle className="h-4 w-4 shrink-0" />
+                            )}
+                            <span>{t('Global settings')}</span>
+                            {globalProvider && (
+                              <span className="text-xs text-muted-foreground">
+                                {globalProvider.name}
+                              </span>
+                            )}
+                          </button>
+                        )}
                         {providers.map((provider) => {
-                          const isActive = activeProvider?.id === provider.id;
+                          const isActive = bindSessionId
+                            ? sessionProvider?.id === provider.id
+                            : globalProvider?.id === provider.id;
                           const isDisabled = provider.enabled === false;
 
                           return (
@@ -1044,7 +1110,9 @@ export function SessionBar({
                               isActive={isActive}
                               isDisabled={isDisabled}
                               isPending={applyProvider.isPending}
-                              activeProviderId={activeProvider?.id}
+                              activeProviderId={
+                                bindSessionId ? sessionProvider?.id : globalProvider?.id
+                              }
                               providers={providers}
                               onApplyProvider={handleApplyProvider}
                               onCloseMenu={handleCloseProviderMenu}
@@ -1054,6 +1122,23 @@ export function SessionBar({
                             />
                           );
                         })}
+                        {sessionProvider && sessionProvider.id !== globalProvider?.id && (
+                          <>
+                            <div className="my-1 h-px bg-border" />
+                            <button
+                              type="button"
+                              disabled={applyProvider.isPending}
+                              onClick={() => {
+                                handleApplyGlobalProvider(sessionProvider);
+                                setShowProviderMenu(false);
+                              }}
+                              className="flex w-full items-center gap-2 whitespace-nowrap rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-accent hover:text-accent-foreground"
+                            >
+                              <Settings className="h-4 w-4 shrink-0" />
+                              {t('Apply to global settings')}
+                            </button>
+                          </>
+                        )}
                       </div>
                     </div>
                   )}
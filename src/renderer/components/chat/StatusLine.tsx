@@ -17,6 +17,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Popover, PopoverPopup, PopoverTrigger } from '@/components/ui/popover';
 import { toastManager } from '@/components/ui/toast';
 import { useI18n } from '@/i18n';
+import { formatCost, formatDuration, formatTokens } from '@/lib/statusFormat';
 import { type StatusData, useAgentStatusStore } from '@/stores/agentStatus';
 import { type StatusLineFieldSettings, useSettingsStore } from '@/stores/settings';
 
@@ -25,31 +26,6 @@ interface StatusLineProps {
   onHeightChange?: (height: number) => void;
 }
 
-function formatDuration(ms: number): string {
-  const seconds = Math.floor(ms / 1000);
-  if (seconds < 60) {
-    return `${seconds}s`;
-  }
-  const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = seconds % 60;
-  if (minutes < 60) {
-    return remainingSeconds > 0 ? `${minutes}m${remainingSeconds}s` : `${minutes}m`;
-  }
-  const hours = Math.floor(minutes / 60);
-  const remainingMinutes = minutes % 60;
-  return `${hours}h${remainingMinutes}m`;
-}
-
-function formatCost(usd: number): string {
-  if (usd < 0.01) {
-    return `$${usd.toFixed(4)}`;
-  }
-  if (usd < 1) {
-    return `$${usd.toFixed(3)}`;
-  }
-  return `$${usd.toFixed(2)}`;
-}
-
 function formatContextPercent(status: StatusData): number {
   const { contextWindow } = status;
   if (!contextWindow?.currentUsage || !contextWindow.contextWindowSize) {
@@ -64,15 +40,6 @@ function formatContextPercent(status: StatusData): number {
   return Math.round((totalUsed / contextWindowSize) * 100);
 }
 
-function formatTokens(input: number, output: number): string {
-  const formatNum = (n: number): string => {
-    if (n >= 1000000) return `${(n / 1000000).toFixed(1)}M`;
-    if (n >= 1000) return `${(n / 1000).toFixed(1)}K`;
-    return String(n);
-  };
-  return `${formatNum(input)}/${formatNum(output)}`;
-}
-
 function formatCacheTokens(status: StatusData): string {
   const { contextWindow } = status;
   if (!contextWindow?.currentUsage) return '0';
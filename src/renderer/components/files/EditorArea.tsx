@@ -40,6 +40,7 @@ import { addToast } from '@/components/ui/toast';
 import { useDebouncedSave } from '@/hooks/useDebouncedSave';
 import { useI18n } from '@/i18n';
 import { toMonacoFileUri } from '@/lib/monacoModelPath';
+import { toRepoRelativePath } from '@/lib/reviewFindings';
 import { useActiveSessionId } from '@/stores/agentSessions';
 import type { EditorTab, NavEntry, PendingCursor } from '@/stores/editor';
 import { useEditorStore } from '@/stores/editor';
@@ -50,6 +51,7 @@ import { CommentForm, useEditorLineComment } from './EditorLineComment';
 import { EditorTabs } from './EditorTabs';
 import { ExternalModificationBanner } from './ExternalModificationBanner';
 import { setupDefinitionNavigation } from './editorDefinitionProvider';
+import { setupLanguageClient } from './editorLanguageClient';
 import { setupDoubleClickScope } from './editorScopeSelection';
 import { isImageFile, isPdfFile } from './fileIcons';
 import { ImagePreview } from './ImagePreview';
@@ -57,6 +59,7 @@ import { MarkdownPreview } from './MarkdownPreview';
 import { CUSTOM_THEME_NAME, defineMonacoTheme } from './monacoTheme';
 import { PdfPreview } from './PdfPreview';
 import { useEditorBlame } from './useEditorBlame';
+import { useReviewFindingMarkers } from './useReviewFindingMarkers';
 // Import for side effects (Monaco setup)
 import './monacoSetup';
 
@@ -140,6 +143,21 @@ function isMarkdownFile(path: string | null): boolean {
   return ext === 'md' || ext === 'markdown';
 }
 
+// Selection covering whole lines startLine..endLine (1-based, inclusive)
+function getLineRangeSelection(
+  editor: monaco.editor.IStandaloneCodeEditor,
+  startLine: number,
+  endLine: number
+) {
+  const lastLine = Math.min(endLine, editor.getModel()?.getLineCount() ?? endLine);
+  return {
+    startLineNumber: startLine,
+    startColumn: 1,
+    endLineNumber: lastLine,
+    endColumn: editor.getModel()?.getLineMaxColumn(lastLine) ?? 1,
+  };
+}
+
 interface EditorAreaProps {
   tabs: EditorTab[];
   activeTab: EditorTab | null;
@@ -290,6 +308,7 @@ export const EditorArea = forwardRef<EditorAreaRef, EditorAreaProps>(function Ed
   const editorForPathRef = useRef<string | null>(null);
   const rootPathRef = useRef<string | undefined>(rootPath);
   const definitionNavDisposableRef = useRef<{ dispose: () => void } | null>(null);
+  const languageClientDisposableRef = useRef<{ dispose: () => void } | null>(null);
   // Flag to suppress onChange events triggered by programmatic setValue calls (not user input)
   const isProgrammaticUpdateRef = useRef(false);
   // Debounce timer for recording edit positions into navigation history
@@ -367,6 +386,14 @@ export const EditorArea = forwardRef<EditorAreaRef, EditorAreaProps>(function Ed
     t,
   });
 
+  // Findings of the last structured code review
+  useReviewFindingMarkers({
+    editor: editorInstance,
+    rootPath,
+    relativePath: rootPath && activeTabPath ? toRepoRelativePath(rootPath, activeTabPath) : null,
+    enabled: editorReady,
+  });
+
   // Wrap onSave to refresh blame after save
   const handleSaveWithBlameRefresh = useCallback(
     (path: string) => {
@@ -587,10 +614,14 @@ export const EditorArea = forwardRef<EditorAreaRef, EditorAreaProps>(function Ed
     }
 
     const editor = editorRef.current;
-    const { line, column, matchLength } = pendingCursor;
+    const { line, column, matchLength, endLine } = pendingCursor;
     const startColumn = (column ?? 0) + 1;
 
-    if (matchLength && matchLength > 0) {
+    if (endLine && endLine >= line) {
+      const selection = getLineRangeSelection(editor, line, endLine);
+      editor.setSelection(selection);
+      editor.revealRangeInCenter(selection);
+    } else if (matchLength && matchLength > 0) {
       const selection = {
         startLineNumber: line,
         startColumn,
@@ -681,6 +712,14 @@ export const EditorArea = forwardRef<EditorAreaRef, EditorAreaProps>(function Ed
         () => rootPathRef.current
       );
 
+      // Sync models with configured language servers (hover, completion, diagnostics, ...)
+      languageClientDisposableRef.current?.dispose();
+      languageClientDisposableRef.current = setupLanguageClient(
+        editor,
+        m,
+        () => rootPathRef.current
+      );
+
       // Restore view state if available
       if (activeTab?.viewState) {
         editor.restoreViewState(activeTab.viewState as monaco.editor.ICodeEditorViewState);
@@ -690,11 +729,15 @@ export const EditorArea = forwardRef<EditorAreaRef, EditorAreaProps>(function Ed
       // Use ref to get latest value since onMount may be called after state update
       const cursor = pendingCursorRef.current;
       if (cursor && cursor.path === activeTabPath) {
-        const { line, column, matchLength } = cursor;
+        const { line, column, matchLength, endLine } = cursor;
         const startColumn = (column ?? 0) + 1;
 
         setTimeout(() => {
-          if (matchLength && matchLength > 0) {
+          if (endLine && endLine >= line) {
+            const selection = getLineRangeSelection(editor, line, endLine);
+            editor.setSelection(selection);
+            editor.revealRangeInCenter(selection);
+          } else if (matchLength && matchLength > 0) {
             const selection = {
               startLineNumber: line,
               startColumn,
@@ -1,10 +1,12 @@
-import { MessageSquare, Plus, Send } from 'lucide-react';
+import { Bookmark, MessageSquare, Plus, Send } from 'lucide-react';
 import type * as monaco from 'monaco-editor';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { createRoot, type Root } from 'react-dom/client';
 import { Button } from '@/components/ui/button';
 import { useI18n } from '@/i18n';
+import { getAnchorText } from '@/lib/reviewThreads';
 import { useActiveSessionId } from '@/stores/agentSessions';
+import { useReviewCommentsStore } from '@/stores/reviewComments';
 import { useTerminalWriteStore } from '@/stores/terminalWrite';
 
 type Monaco = typeof monaco;
@@ -15,6 +17,8 @@ interface CommentFormProps {
   filePath: string;
   onSubmit: (text: string) => void;
   onCancel: () => void;
+  // Keep the comment in the worktree's review threads instead of sending it
+  onSave?: (text: string) => void;
   submitLabel?: 'send' | 'add';
 }
 
@@ -24,6 +28,7 @@ export function CommentForm({
   filePath,
   onSubmit,
   onCancel,
+  onSave,
   submitLabel = 'send',
 }: CommentFormProps) {
   const { t } = useI18n();
@@ -79,6 +84,20 @@ export function CommentForm({
         <Button variant="ghost" size="sm" onClick={onCancel}>
           {t('Cancel')}
         </Button>
+        {onSave && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!text.trim()}
+            onClick={() => {
+              onSave(text.trim());
+              setText('');
+            }}
+          >
+            <Bookmark className="h-3.5 w-3.5 mr-1.5" />
+            {t('Save for review')}
+          </Button>
+        )}
         <Button size="sm" onClick={handleSubmit}>
           {submitLabel === 'add' ? (
             <>
@@ -116,6 +135,7 @@ export function useEditorLineComment({
   const { t } = useI18n();
   const write = useTerminalWriteStore((state) => state.write);
   const focus = useTerminalWriteStore((state) => state.focus);
+  const addThread = useReviewCommentsStore((state) => state.addThread);
 
   const [hoveredLine, setHoveredLine] = useState<number | null>(null);
   const [commentingLine, setCommentingLine] = useState<number | null>(null);
@@ -165,6 +185,24 @@ export function useEditorLineComment({
     [sessionId, filePath, rootPath, write, focus]
   );
 
+  // Save comment as a review thread (shown in Diff Review)
+  const handleSaveComment = useCallback(
+    (lineNumber: number, text: string) => {
+      if (!rootPath || !filePath || !filePath.startsWith(rootPath)) return;
+      const content = editor?.getModel()?.getValue() ?? '';
+      addThread(rootPath, {
+        filePath: filePath.slice(rootPath.length).replace(/^[\\/]/, ''),
+        startLine: lineNumber,
+        endLine: lineNumber,
+        anchorText: getAnchorText(content, lineNumber, lineNumber),
+        commit: null,
+        text,
+      });
+      setCommentingLine(null);
+    },
+    [editor, filePath, rootPath, addThread]
+  );
+
   // Cleanup widgets on unmount or when disabled
   useEffect(() => {
     return () => {
@@ -348,6 +386,7 @@ export function useEditorLineComment({
         filePath={filePath}
         onSubmit={(text) => handleSubmitComment(commentingLine, text)}
         onCancel={() => setCommentingLine(null)}
+        onSave={(text) => handleSaveComment(commentingLine, text)}
       />
     );
 
@@ -357,7 +396,15 @@ export function useEditorLineComment({
         commentWidgetRef.current = null;
       }
     };
-  }, [editor, monacoInstance, commentingLine, filePath, enabled, handleSubmitComment]);
+  }, [
+    editor,
+    monacoInstance,
+    commentingLine,
+    filePath,
+    enabled,
+    handleSubmitComment,
+    handleSaveComment,
+  ]);
 
   // Cleanup when file changes
   // biome-ignore lint/correctness/useExhaustiveDependencies: intentionally trigger cleanup when file changes
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { applyTextEdits, getWorkspaceEditsByUri, offsetAt } from '../lspTextEdits';
+
+const range = (line: number, start: number, end: number) => ({
+  start: { line, character: start },
+  end: { line, character: end },
+});
+
+describe('offsetAt', () => {
+  it('clamps positions past the end of a line or file', () => {
+    const content = 'ab\ncd';
+    expect(offsetAt(content, { line: 1, character: 1 })).toBe(4);
+    expect(offsetAt(content, { line: 0, character: 10 })).toBe(2);
+    expect(offsetAt(content, { line: 5, character: 0 })).toBe(5);
+  });
+});
+
+describe('applyTextEdits', () => {
+  it('applies unordered edits against the original content', () => {
+    const content = 'const foo = 1;\nuse(foo, foo);\n';
+    const edits = [
+      { range: range(1, 9, 12), newText: 'bar' },
+      { range: range(0, 6, 9), newText: 'bar' },
+      { range: range(1, 4, 7), newText: 'bar' },
+    ];
+    expect(applyTextEdits(content, edits)).toBe('const bar = 1;\nuse(bar, bar);\n');
+  });
+
+  it('supports insertions and multi-line replacements', () => {
+    const content = 'a\nb\nc';
+    const edits = [
+      { range: { start: { line: 0, character: 1 }, end: { line: 2, character: 0 } }, newText: '-' },
+      { range: range(0, 0, 0), newText: '>' },
+    ];
+    expect(applyTextEdits(content, edits)).toBe('>a-c');
+  });
+});
+
+describe('getWorkspaceEditsByUri', () => {
+  it('reads both changes and documentChanges', () => {
+    const edit = { range: range(0, 0, 1), newText: 'x' };
+    expect(getWorkspaceEditsByUri({ changes: { 'file:///a': [edit] } }).get('file:///a')).toEqual([
+      edit,
+    ]);
+    const grouped = getWorkspaceEditsByUri({
+      documentChanges: [
+        { textDocument: { uri: 'file:///b', version: 1 }, edits: [edit] },
+        { textDocument: { uri: 'file:///b', version: 1 }, edits: [edit] },
+      ],
+    });
+    expect(grouped.get('file:///b')).toHaveLength(2);
+  });
+});
@@ -4,6 +4,7 @@ import { createRoot, type Root } from 'react-dom/client';
 
 import { useEditorStore } from '@/stores/editor';
 import { useNavigationStore } from '@/stores/navigation';
+import { findLspDefinitions } from './editorLanguageClient';
 
 type Monaco = typeof monaco;
 
@@ -543,7 +544,7 @@ function getOwnerIdentifier(lineText: string, wordStartColumn: number): string |
 
 /**
  * Register Cmd/Ctrl+Click and F12 handlers for go-to-definition navigation.
- * Uses ripgrep to find declaration patterns; cross-file navigation is handled
+ * Asks the file's language server first and falls back to ripgrep declaration patterns; cross-file navigation is handled
  * via the navigation store; same-file navigation updates the editor directly.
  * When multiple results are found, an inline picker widget is shown.
  *
@@ -593,6 +594,25 @@ export function setupDefinitionNavigation(
     if (!word || word.word.length < 2) return;
 
     const langId = model.getLanguageId();
+    const requestId = ++currentRequestId;
+    const currentPath = model.uri.fsPath;
+
+    // A running language server gives exact results; regex search is the fallback.
+    const lspResults = await findLspDefinitions(m, model, position);
+    if (requestId !== currentRequestId) return;
+    if (lspResults && lspResults.length > 0) {
+      if (lspResults.length === 1) {
+        navigateTo(lspResults[0], currentPath);
+      } else {
+        const items: PickerItem[] = lspResults.map((loc) => ({
+          location: loc,
+          symbolName: word.word,
+          displayPath: relativePath(loc.path, rootPath),
+        }));
+        showDefinitionPicker(editor, m, position, items, (loc) => navigateTo(loc, currentPath));
+      }
+      return;
+    }
 
     // For unsupported languages, fall back to Monaco's built-in action.
     if (!LANG_ID_MAP[langId]) {
@@ -600,7 +620,6 @@ export function setupDefinitionNavigation(
       return;
     }
 
-    const requestId = ++currentRequestId;
     const results = await findDefinitions(word.word, langId, rootPath);
     if (requestId !== currentRequestId) return;
 
@@ -621,7 +640,6 @@ export function setupDefinitionNavigation(
 
     // Exclude the exact cursor position (avoids jumping to self).
     // Normalize paths to handle macOS symlinks (e.g. /private/Volumes vs /Volumes).
-    const currentPath = model.uri.fsPath;
     const normCurrent = currentPath.replace(/^\/private/, '');
     const currentLine = position.lineNumber;
     const candidates = unique.filter(
@@ -0,0 +1,500 @@
+import type {
+  FileBatchWriteEntry,
+  LanguageServerConfig,
+  LspCompletionItem,
+  LspCompletionList,
+  LspHover,
+  LspLocation,
+  LspLocationLink,
+  LspMarkedString,
+  LspMarkupContent,
+  LspRange,
+  LspWorkspaceEdit,
+} from '@shared/types';
+import type * as monaco from 'monaco-editor';
+
+import { useEditorStore } from '@/stores/editor';
+import { useSettingsStore } from '@/stores/settings';
+import { applyTextEdits, getWorkspaceEditsByUri } from './lspTextEdits';
+
+type Monaco = typeof monaco;
+
+// ---------------------------------------------------------------------------
+// Bridges Monaco models to language servers running in the main process.
+// Documents are synced as full text; providers answer only for models that
+// have a running server, so Monaco's built-in providers keep working otherwise.
+// ---------------------------------------------------------------------------
+
+const SYNC_DEBOUNCE_MS = 150;
+const MARKER_OWNER = 'lsp';
+// Upper bound of files loaded as models to show peek/reference results
+const MAX_RESULT_MODELS = 50;
+
+const COMPLETION_KINDS = [
+  'Text',
+  'Method',
+  'Function',
+  'Constructor',
+  'Field',
+  'Variable',
+  'Class',
+  'Interface',
+  'Module',
+  'Property',
+  'Unit',
+  'Value',
+  'Enum',
+  'Keyword',
+  'Snippet',
+  'Color',
+  'File',
+  'Reference',
+  'Folder',
+  'EnumMember',
+  'Constant',
+  'Struct',
+  'Event',
+  'Operator',
+  'TypeParameter',
+] as const;
+
+interface LspDocument {
+  rootPath: string;
+  serverId: string;
+  version: number;
+  ready: Promise<boolean>;
+  syncTimer: ReturnType<typeof setTimeout> | null;
+  disposables: monaco.IDisposable[];
+}
+
+/** Definition target in the same shape as the regex-based provider */
+export interface LspDefinitionLocation {
+  path: string;
+  line: number;
+  /** 0-based column pointing at the symbol name. */
+  column: number;
+}
+
+const documents = new Map<string, LspDocument>();
+const registeredLanguages = new Set<string>();
+let diagnosticsListening = false;
+
+// ---------------------------------------------------------------------------
+// Conversions
+// ---------------------------------------------------------------------------
+
+function toMonacoRange(range: LspRange): monaco.IRange {
+  return {
+    startLineNumber: range.start.line + 1,
+    startColumn: range.start.character + 1,
+    endLineNumber: range.end.line + 1,
+    endColumn: range.end.character + 1,
+  };
+}
+
+function toLspPosition(position: monaco.IPosition) {
+  return { line: position.lineNumber - 1, character: position.column - 1 };
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
+
+function toMarkdown(
+  content: LspMarkupContent | LspMarkedString | undefined
+): monaco.IMarkdownString | undefined {
+  if (content === undefined) return undefined;
+  if (typeof content === 'string') return { value: content };
+  if ('kind' in content) {
+    return { value: content.kind === 'markdown' ? content.value : escapeMarkdown(content.value) };
+  }
+  return { value: `\`\`\`${content.language}\n${content.value}\n\`\`\`` };
+}
+
+function normalizeLocations(
+  result: LspLocation | LspLocation[] | LspLocationLink[] | null
+): LspLocation[] {
+  if (!result) return [];
+  const list = Array.isArray(result) ? result : [result];
+  return list.map((item) =>
+    'targetUri' in item ? { uri: item.targetUri, range: item.targetSelectionRange } : item
+  );
+}
+
+function toCompletionItem(
+  m: Monaco,
+  item: LspCompletionItem,
+  defaultRange: monaco.IRange
+): monaco.languages.CompletionItem {
+  const labelText = typeof item.label === 'string' ? item.label : item.label.label;
+  const textEdit = item.textEdit;
+  let range: monaco.languages.CompletionItem['range'] = defaultRange;
+  if (textEdit) {
+    range =
+      'range' in textEdit
+        ? toMonacoRange(textEdit.range)
+        : { insert: toMonacoRange(textEdit.insert), replace: toMonacoRange(textEdit.replace) };
+  }
+  const kindName = item.kind ? COMPLETION_KINDS[item.kind - 1] : undefined;
+
+  return {
+    label:
+      typeof item.label === 'string'
+        ? item.label
+        : { label: labelText, detail: item.label.detail, description: item.label.description },
+    kind: m.languages.CompletionItemKind[kindName ?? 'Text'],
+    detail: item.detail,
+    documentation:
+      typeof item.documentation === 'string' ? item.documentation : toMarkdown(item.documentation),
+    sortText: item.sortText,
+    filterText: item.filterText,
+    insertText: textEdit?.newText ?? item.insertText ?? labelText,
+    insertTextRules:
+      item.insertTextFormat === 2
+        ? m.languages.CompletionItemInsertTextRule.InsertAsSnippet
+        : undefined,
+    range,
+    additionalTextEdits: item.additionalTextEdits?.map((edit) => ({
+      range: toMonacoRange(edit.range),
+      text: edit.newText,
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Document sync
+// ---------------------------------------------------------------------------
+
+function getServerForLanguage(languageId: string): LanguageServerConfig | undefined {
+  const { languageServers } = useSettingsStore.getState().editorSettings;
+  return languageServers?.find(
+    (server) => server.enabled && server.command && server.languages.includes(languageId)
+  );
+}
+
+function syncDocument(uri: string, model: monaco.editor.ITextModel): void {
+  const doc = documents.get(uri);
+  if (!doc) return;
+  if (doc.syncTimer) {
+    clearTimeout(doc.syncTimer);
+    doc.syncTimer = null;
+  }
+  doc.version++;
+  void window.electronAPI.lsp.changeDocument({
+    rootPath: doc.rootPath,
+    serverId: doc.serverId,
+    uri,
+    version: doc.version,
+    text: model.getValue(),
+  });
+}
+
+function detachModel(m: Monaco, model: monaco.editor.ITextModel, notifyServer = true): void {
+  const uri = model.uri.toString();
+  const doc = documents.get(uri);
+  if (!doc) return;
+  documents.delete(uri);
+  if (doc.syncTimer) clearTimeout(doc.syncTimer);
+  for (const disposable of doc.disposables) disposable.dispose();
+  m.editor.setModelMarkers(model, MARKER_OWNER, []);
+  if (notifyServer) {
+    void window.electronAPI.lsp.closeDocument({
+      rootPath: doc.rootPath,
+      serverId: doc.serverId,
+      uri,
+    });
+  }
+}
+
+function attachModel(m: Monaco, model: monaco.editor.ITextModel, rootPath: string): void {
+  const uri = model.uri.toString();
+  if (model.uri.scheme !== 'file' || documents.has(uri)) return;
+
+  const languageId = model.getLanguageId();
+  const server = getServerForLanguage(languageId);
+  if (!server) return;
+
+  registerProviders(m, languageId);
+  listenForDiagnostics(m);
+
+  const doc: LspDocument = {
+    rootPath,
+    serverId: server.id,
+    version: 1,
+    ready: window.electronAPI.lsp
+      .openDocument({ rootPath, server, uri, languageId, version: 1, text: model.getValue() })
+      .catch(() => false),
+    syncTimer: null,
+    disposables: [],
+  };
+  doc.disposables.push(
+    model.onDidChangeContent(() => {
+      if (doc.syncTimer) clearTimeout(doc.syncTimer);
+      doc.syncTimer = setTimeout(() => syncDocument(uri, model), SYNC_DEBOUNCE_MS);
+    }),
+    model.onWillDispose(() => detachModel(m, model))
+  );
+  documents.set(uri, doc);
+
+  void doc.ready.then((ok) => {
+    // No server available: forget the model so providers fall through to Monaco/regex
+    if (!ok && documents.get(uri) === doc) detachModel(m, model, false);
+  });
+}
+
+async function lspRequest<T>(
+  model: monaco.editor.ITextModel,
+  method: string,
+  params: Record<string, unknown>
+): Promise<T | null> {
+  const uri = model.uri.toString();
+  const doc = documents.get(uri);
+  if (!doc || !(await doc.ready)) return null;
+  // Make sure the server sees pending edits before answering
+  if (doc.syncTimer) syncDocument(uri, model);
+
+  return window.electronAPI.lsp.request<T>({
+    rootPath: doc.rootPath,
+    serverId: doc.serverId,
+    method,
+    params: { textDocument: { uri }, ...params },
+  });
+}
+
+/** Loads files as Monaco models so peek widgets can show results from unopened files */
+async function ensureModels(m: Monaco, uris: string[]): Promise<void> {
+  const missing = Array.from(new Set(uris))
+    .map((uri) => m.Uri.parse(uri))
+    .filter((uri) => uri.scheme === 'file' && !m.editor.getModel(uri))
+    .slice(0, MAX_RESULT_MODELS);
+
+  await Promise.all(
+    missing.map(async (uri) => {
+      try {
+        const { content, isBinary } = await window.electronAPI.file.read(uri.fsPath);
+        if (!isBinary && !m.editor.getModel(uri)) {
+          m.editor.createModel(content, undefined, uri);
+        }
+      } catch {
+        // File is gone or unreadable; Monaco will skip it
+      }
+    })
+  );
+}
+
+/**
+ * Applies a rename across the workspace the same way search & replace does: open tabs are
+ * edited in memory (left modified), other files are written to disk in one batch.
+ */
+async function applyWorkspaceEdit(m: Monaco, edit: LspWorkspaceEdit): Promise<void> {
+  const { tabs } = useEditorStore.getState();
+  const tabEdits: Array<{ path: string; content: string }> = [];
+  const diskEntries: FileBatchWriteEntry[] = [];
+
+  for (const [uri, edits] of getWorkspaceEditsByUri(edit)) {
+    const target = m.Uri.parse(uri);
+    const tab = tabs.find((t) => m.Uri.file(t.path).toString() === target.toString());
+    if (tab) {
+      tabEdits.push({ path: tab.path, content: applyTextEdits(tab.content, edits) });
+      continue;
+    }
+    const { content, encoding, isBinary } = await window.electronAPI.file.read(target.fsPath);
+    if (isBinary) continue;
+    diskEntries.push({
+      path: target.fsPath,
+      content: applyTextEdits(content, edits),
+      encoding,
+      expectedContent: content,
+    });
+  }
+
+  if (diskEntries.length > 0) {
+    await window.electronAPI.file.batchWrite(diskEntries);
+  }
+  const { updateFileContent } = useEditorStore.getState();
+  for (const { path, content } of tabEdits) {
+    updateFileContent(path, content, true);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Providers & diagnostics
+// ---------------------------------------------------------------------------
+
+function listenForDiagnostics(m: Monaco): void {
+  if (diagnosticsListening) return;
+  diagnosticsListening = true;
+
+  const severities: Record<number, monaco.MarkerSeverity> = {
+    1: m.MarkerSeverity.Error,
+    2: m.MarkerSeverity.Warning,
+    3: m.MarkerSeverity.Info,
+    4: m.MarkerSeverity.Hint,
+  };
+
+  window.electronAPI.lsp.onDiagnostics(({ uri, diagnostics }) => {
+    const model = m.editor.getModel(m.Uri.parse(uri));
+    if (!model || !documents.has(model.uri.toString())) return;
+    m.editor.setModelMarkers(
+      model,
+      MARKER_OWNER,
+      diagnostics.map((d) => ({
+        ...toMonacoRange(d.range),
+        severity: severities[d.severity ?? 1] ?? m.MarkerSeverity.Error,
+        message: d.message,
+        source: d.source,
+        code: d.code === undefined ? undefined : String(d.code),
+      }))
+    );
+  });
+}
+
+function registerProviders(m: Monaco, languageId: string): void {
+  if (registeredLanguages.has(languageId)) return;
+  registeredLanguages.add(languageId);
+
+  m.languages.registerHoverProvider(languageId, {
+    provideHover: async (model, position) => {
+      const hover = await lspRequest<LspHover>(model, 'textDocument/hover', {
+        position: toLspPosition(position),
+      });
+      if (!hover) return null;
+      const contents = (Array.isArray(hover.contents) ? hover.contents : [hover.contents])
+        .map((content) => toMarkdown(content))
+        .filter((content): content is monaco.IMarkdownString => !!content?.value.trim());
+      if (contents.length === 0) return null;
+      return { contents, range: hover.range ? toMonacoRange(hover.range) : undefined };
+    },
+  });
+
+  m.languages.registerDefinitionProvider(languageId, {
+    provideDefinition: async (model, position) => {
+      const locations = normalizeLocations(
+        await lspRequest<LspLocation | LspLocation[] | LspLocationLink[]>(
+          model,
+          'textDocument/definition',
+          { position: toLspPosition(position) }
+        )
+      );
+      if (locations.length === 0) return null;
+      await ensureModels(
+        m,
+        locations.map((l) => l.uri)
+      );
+      return locations.map((l) => ({ uri: m.Uri.parse(l.uri), range: toMonacoRange(l.range) }));
+    },
+  });
+
+  m.languages.registerReferenceProvider(languageId, {
+    provideReferences: async (model, position, context) => {
+      const locations = await lspRequest<LspLocation[]>(model, 'textDocument/references', {
+        position: toLspPosition(position),
+        context: { includeDeclaration: context.includeDeclaration },
+      });
+      if (!locations?.length) return null;
+      await ensureModels(
+        m,
+        locations.map((l) => l.uri)
+      );
+      return locations.map((l) => ({ uri: m.Uri.parse(l.uri), range: toMonacoRange(l.range) }));
+    },
+  });
+
+  m.languages.registerRenameProvider(languageId, {
+    provideRenameEdits: async (model, position, newName) => {
+      const edit = await lspRequest<LspWorkspaceEdit>(model, 'textDocument/rename', {
+        position: toLspPosition(position),
+        newName,
+      });
+      if (!edit) return null;
+      await applyWorkspaceEdit(m, edit);
+      // Edits were applied above (including files without a model); nothing left for Monaco
+      return { edits: [] };
+    },
+  });
+
+  m.languages.registerCompletionItemProvider(languageId, {
+    triggerCharacters: ['.', ':', '/', '"', "'", '<', '@', '#'],
+    provideCompletionItems: async (model, position, context) => {
+      const result = await lspRequest<LspCompletionList | LspCompletionItem[]>(
+        model,
+        'textDocument/completion',
+        {
+          position: toLspPosition(position),
+          // Monaco trigger kinds are 0-based, LSP ones 1-based
+          context: {
+            triggerKind: context.triggerKind + 1,
+            triggerCharacter: context.triggerCharacter,
+          },
+        }
+      );
+      if (!result) return null;
+
+      const word = model.getWordUntilPosition(position);
+      const defaultRange = {
+        startLineNumber: position.lineNumber,
+        startColumn: word.startColumn,
+        endLineNumber: position.lineNumber,
+        endColumn: word.endColumn,
+      };
+      const items = Array.isArray(result) ? result : result.items;
+      return {
+        incomplete: !Array.isArray(result) && result.isIncomplete,
+        suggestions: items.map((item) => toCompletionItem(m, item, defaultRange)),
+      };
+    },
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Asks the language server for definitions at the position.
+ * Returns null when no server is running for the model (callers fall back to regex search).
+ */
+export async function findLspDefinitions(
+  m: Monaco,
+  model: monaco.editor.ITextModel,
+  position: monaco.IPosition
+): Promise<LspDefinitionLocation[] | null> {
+  if (!documents.has(model.uri.toString())) return null;
+  const result = await lspRequest<LspLocation | LspLocation[] | LspLocationLink[]>(
+    model,
+    'textDocument/definition',
+    { position: toLspPosition(position) }
+  );
+  if (result === null) return null;
+
+  return normalizeLocations(result).map((location) => {
+    return {
+      path: m.Uri.parse(location.uri).fsPath,
+      line: location.range.start.line + 1,
+      column: location.range.start.character,
+    };
+  });
+}
+
+/**
+ * Connects the editor's models to configured language servers for the worktree.
+ * Returns a disposable that stops following model changes of this editor.
+ */
+export function setupLanguageClient(
+  editor: monaco.editor.IStandaloneCodeEditor,
+  m: Monaco,
+  getRootPath: () => string | undefined
+): { dispose: () => void } {
+  const attach = () => {
+    const model = editor.getModel();
+    const rootPath = getRootPath();
+    if (model && rootPath) attachModel(m, model, rootPath);
+  };
+
+  attach();
+  const modelDisposable = editor.onDidChangeModel(attach);
+
+  return {
+    dispose: () => modelDisposable.dispose(),
+  };
+}
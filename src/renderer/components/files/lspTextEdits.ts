@@ -0,0 +1,55 @@
+import type { LspPosition, LspTextEdit, LspWorkspaceEdit } from '@shared/types';
+
+/** Converts an LSP position (0-based line/character) to an offset in the content */
+export function offsetAt(content: string, position: LspPosition): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = content.indexOf('\n', offset);
+    if (next === -1) return content.length;
+    offset = next + 1;
+  }
+  const lineEnd = content.indexOf('\n', offset);
+  const lineLength = (lineEnd === -1 ? content.length : lineEnd) - offset;
+  return offset + Math.min(position.character, lineLength);
+}
+
+/** Applies non-overlapping LSP text edits to the content (edits may be in any order) */
+export function applyTextEdits(content: string, edits: LspTextEdit[]): string {
+  const resolved = edits
+    .map((edit) => ({
+      start: offsetAt(content, edit.range.start),
+      end: offsetAt(content, edit.range.end),
+      text: edit.newText,
+    }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  let result = '';
+  let cursor = 0;
+  for (const edit of resolved) {
+    result += content.slice(cursor, edit.start) + edit.text;
+    cursor = Math.max(cursor, edit.end);
+  }
+  return result + content.slice(cursor);
+}
+
+/** Groups the edits of a workspace edit by document URI */
+export function getWorkspaceEditsByUri(edit: LspWorkspaceEdit): Map<string, LspTextEdit[]> {
+  const byUri = new Map<string, LspTextEdit[]>();
+  const add = (uri: string, edits: LspTextEdit[]) => {
+    byUri.set(uri, [...(byUri.get(uri) ?? []), ...edits]);
+  };
+
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      // Resource operations (create/rename/delete files) carry no edits and are not supported
+      if (change.textDocument && Array.isArray(change.edits)) {
+        add(change.textDocument.uri, change.edits);
+      }
+    }
+  } else if (edit.changes) {
+    for (const [uri, edits] of Object.entries(edit.changes)) {
+      add(uri, edits);
+    }
+  }
+  return byUri;
+}
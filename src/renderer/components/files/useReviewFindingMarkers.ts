@@ -0,0 +1,92 @@
+import type { ReviewFindingSeverity } from '@shared/types';
+import { useEffect } from 'react';
+import { pathsEqual } from '@/App/storage';
+import { getFileFindings } from '@/lib/reviewFindings';
+import { useCodeReviewContinueStore } from '@/stores/codeReviewContinue';
+import { monaco } from './monacoSetup';
+
+const MARKER_OWNER = 'code-review';
+
+const SEVERITIES: Record<ReviewFindingSeverity, monaco.MarkerSeverity> = {
+  critical: monaco.MarkerSeverity.Error,
+  major: monaco.MarkerSeverity.Warning,
+  minor: monaco.MarkerSeverity.Info,
+  info: monaco.MarkerSeverity.Hint,
+};
+
+interface UseReviewFindingMarkersOptions {
+  editor: monaco.editor.ICodeEditor | null;
+  rootPath: string | null | undefined;
+  relativePath: string | null; // file shown in the editor, relative to rootPath
+  enabled?: boolean;
+}
+
+/**
+ * Shows the findings of the last structured code review of this repository as
+ * markers on the editor's model (squiggles, hover, overview ruler).
+ */
+export function useReviewFindingMarkers({
+  editor,
+  rootPath,
+  relativePath,
+  enabled = true,
+}: UseReviewFindingMarkersOptions): void {
+  const findings = useCodeReviewContinueStore((s) => s.review.findings);
+  const reviewRepoPath = useCodeReviewContinueStore((s) => s.review.repoPath);
+
+  useEffect(() => {
+    if (!editor) return;
+
+    const isReviewedRepo = !!rootPath && !!reviewRepoPath && pathsEqual(rootPath, reviewRepoPath);
+    const fileFindings =
+      enabled && isReviewedRepo && findings && relativePath
+        ? getFileFindings(findings, relativePath)
+        : [];
+
+    let markedModel: monaco.editor.ITextModel | null = null;
+    const clear = () => {
+      if (markedModel && !markedModel.isDisposed()) {
+        monaco.editor.setModelMarkers(markedModel, MARKER_OWNER, []);
+      }
+      markedModel = null;
+    };
+
+    const apply = () => {
+      clear();
+      const model = editor.getModel();
+      if (!model || fileFindings.length === 0) return;
+
+      const lineCount = model.getLineCount();
+      monaco.editor.setModelMarkers(
+        model,
+        MARKER_OWNER,
+        fileFindings.map((finding) => {
+          const startLineNumber = Math.min(finding.startLine, lineCount);
+          const endLineNumber = Math.min(finding.endLine, lineCount);
+          return {
+            startLineNumber,
+            startColumn: 1,
+            endLineNumber,
+            endColumn: model.getLineMaxColumn(endLineNumber),
+            severity: SEVERITIES[finding.severity],
+            message: finding.suggestion
+              ? `${finding.title}\n\n${finding.suggestion}`
+              : finding.title,
+            source: 'Code Review',
+            code: finding.category,
+          };
+        })
+      );
+      markedModel = model;
+    };
+
+    apply();
+    // The editor may swap models after the file path changes
+    const disposable = editor.onDidChangeModel(apply);
+
+    return () => {
+      disposable.dispose();
+      clear();
+    };
+  }, [editor, rootPath, relativePath, enabled, findings, reviewRepoPath]);
+}
@@ -0,0 +1,70 @@
+import type { PullRequest } from '@shared/types';
+import { GitMerge, GitPullRequest, GitPullRequestClosed, GitPullRequestDraft } from 'lucide-react';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface PullRequestBadgeProps {
+  pullRequest: PullRequest;
+  className?: string;
+  onClick?: () => void;
+}
+
+export function PullRequestBadge({ pullRequest, className, onClick }: PullRequestBadgeProps) {
+  const { t } = useI18n();
+  const { number, state, isDraft, title } = pullRequest;
+
+  const { Icon, color, label } =
+    state === 'MERGED'
+      ? {
+          Icon: GitMerge,
+          color: 'text-purple-600 dark:text-purple-400',
+          label: t('Merged pull request'),
+        }
+      : state === 'CLOSED'
+        ? {
+            Icon: GitPullRequestClosed,
+            color: 'text-red-600 dark:text-red-400',
+            label: t('Closed pull request'),
+          }
+        : isDraft
+          ? {
+              Icon: GitPullRequestDraft,
+              color: 'text-muted-foreground',
+              label: t('Draft pull request'),
+            }
+          : {
+              Icon: GitPullRequest,
+              color: 'text-emerald-600 dark:text-emerald-400',
+              label: t('Open pull request'),
+            };
+
+  const content = (
+    <>
+      <Icon className="h-3 w-3" />#{number}
+    </>
+  );
+  const classes = cn('flex shrink-0 items-center gap-0.5 text-xs tabular-nums', color, className);
+  const tooltip = `${label} · ${title}`;
+
+  if (!onClick) {
+    return (
+      <span className={classes} title={tooltip}>
+        {content}
+      </span>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      className={cn(classes, 'rounded hover:underline')}
+      title={tooltip}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+    >
+      {content}
+    </button>
+  );
+}
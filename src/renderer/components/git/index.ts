@@ -4,4 +4,5 @@ export { CommitForm } from './CommitForm';
 export { CommitHistory } from './CommitHistory';
 export { FileChanges } from './FileChanges';
 export { GitSyncButton } from './GitSyncButton';
+export { PullRequestBadge } from './PullRequestBadge';
 export { SyncStatus } from './SyncStatus';
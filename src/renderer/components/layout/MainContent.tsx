@@ -4,6 +4,7 @@ import {
   FolderOpen,
   GitBranch,
   KanbanSquare,
+  ListChecks,
   MessageSquare,
   PanelLeft,
   RectangleEllipsis,
@@ -22,6 +23,7 @@ import { SettingsContent } from '@/components/settings';
 import type { SettingsCategory } from '@/components/settings/constants';
 import { SourceControlPanel } from '@/components/source-control';
 import { DiffReviewModal } from '@/components/source-control/DiffReviewModal';
+import { TasksPanel } from '@/components/tasks';
 import { TodoPanel } from '@/components/todo';
 import { Button } from '@/components/ui/button';
 import {
@@ -124,6 +126,7 @@ export function MainContent({
     chat: { icon: Sparkles, label: t('Agent') },
     file: { icon: FileCode, label: t('File') },
     terminal: { icon: Terminal, label: t('Terminal') },
+    tasks: { icon: ListChecks, label: t('Tasks') },
     'source-control': { icon: GitBranch, label: t('Version Control') },
     todo: { icon: KanbanSquare, label: t('Todo') },
   };
@@ -499,6 +502,19 @@ export function MainContent({
             isActive={activeTab === 'terminal' && hasActiveWorktree}
           />
         </div>
+        {/* Tasks tab - keep mounted so running tasks keep their output */}
+        <div
+          className={cn(
+            'absolute inset-0',
+            innerBg,
+            activeTab === 'tasks' ? 'z-10' : 'invisible pointer-events-none z-0'
+          )}
+        >
+          <TasksPanel
+            cwd={effectiveWorktreePath ?? undefined}
+            isActive={activeTab === 'tasks' && hasActiveWorktree}
+          />
+        </div>
         {/* File tab - keep mounted to preserve editor state */}
         <div
           className={cn(
@@ -542,6 +558,7 @@ export function MainContent({
               worktreePath={effectiveWorktreePath ?? undefined}
               isActive={activeTab === 'todo'}
               onSwitchToAgent={() => onTabChange('chat')}
+              onSwitchWorktree={onSwitchWorktree}
             />
           </div>
         )}
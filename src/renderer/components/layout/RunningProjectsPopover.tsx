@@ -16,6 +16,7 @@ import type { TabId } from '@/App/constants';
 import type { Session } from '@/components/chat/SessionBar';
 import { Dialog, DialogPopup } from '@/components/ui/dialog';
 import { toastManager } from '@/components/ui/toast';
+import { DevServerPorts } from '@/components/worktree/DevServerPorts';
 import { useWorktreeListMultiple } from '@/hooks/useWorktree';
 import { useI18n } from '@/i18n';
 import { matchesKeybinding } from '@/lib/keybinding';
@@ -386,6 +387,10 @@ export function RunningProjectsPopover({
                             <span className="mx-1 text-muted-foreground/50">/</span>
                             <span>{item.project.branchName}</span>
                           </span>
+                          <DevServerPorts
+                            worktreePath={item.project.path}
+                            label={item.project.branchName}
+                          />
                           <span className="shrink-0 text-xs text-muted-foreground">
                             {item.project.agents.length + item.project.terminals.length}
                           </span>
@@ -17,6 +17,7 @@ import {
   GitBranch,
   GitMerge,
   List,
+  ListOrdered,
   PanelLeftClose,
   Plus,
   RefreshCw,
@@ -47,6 +48,7 @@ import {
   saveRepositorySettings,
 } from '@/App/storage';
 import { GitSyncButton } from '@/components/git/GitSyncButton';
+import { PullRequestBadge } from '@/components/git/PullRequestBadge';
 import {
   CreateGroupDialog,
   GroupEditDialog,
@@ -77,8 +79,11 @@ import {
 import { GlowBorder, type GlowState, useGlowEffectEnabled } from '@/components/ui/glow-card';
 import { toastManager } from '@/components/ui/toast';
 import { CreateWorktreeDialog } from '@/components/worktree/CreateWorktreeDialog';
+import { DevServerPorts } from '@/components/worktree/DevServerPorts';
+import { WorktreeHookIndicator } from '@/components/worktree/WorktreeHookIndicator';
 import { useGitSync } from '@/hooks/useGitSync';
 import { useWorktreeOutputState } from '@/hooks/useOutputState';
+import { useBranchPullRequest } from '@/hooks/usePullRequest';
 import { useShouldPoll } from '@/hooks/useWindowFocus';
 import { useWorktreeListMultiple } from '@/hooks/useWorktree';
 import { useI18n } from '@/i18n';
@@ -107,6 +112,7 @@ interface TreeSidebarProps {
     options?: { deleteBranch?: boolean; force?: boolean }
   ) => void;
   onMergeWorktree?: (worktree: GitWorktree) => void;
+  onRebaseWorktree?: (worktree: GitWorktree) => void;
   onReorderRepositories?: (fromIndex: number, toIndex: number) => void;
   onReorderWorktrees?: (fromIndex: number, toIndex: number) => void;
   onRefresh: () => void;
@@ -154,6 +160,7 @@ export function TreeSidebar({
   onCreateWorktree,
   onRemoveWorktree,
   onMergeWorktree,
+  onRebaseWorktree,
   onReorderRepositories,
   onReorderWorktrees,
   onRefresh,
@@ -918,6 +925,7 @@ export function TreeSidebar({
                     }}
                     onDelete={() => setWorktreeToDelete(worktree)}
                     onMerge={onMergeWorktree ? () => onMergeWorktree(worktree) : undefined}
+                    onRebase={onRebaseWorktree ? () => onRebaseWorktree(worktree) : undefined}
                     draggable={!searchQuery && !!onReorderWorktrees && isSelected}
                     onDragStart={(e) => handleWorktreeDragStart(e, wtIndex, worktree)}
                     onDragEnd={handleWorktreeDragEnd}
@@ -1629,6 +1637,7 @@ interface WorktreeTreeItemProps {
   onClick: () => void;
   onDelete: () => void;
   onMerge?: () => void;
+  onRebase?: () => void;
   draggable?: boolean;
   onDragStart?: (e: React.DragEvent) => void;
   onDragEnd?: () => void;
@@ -1646,6 +1655,7 @@ function WorktreeTreeItem({
   onClick,
   onDelete,
   onMerge,
+  onRebase,
   draggable,
   onDragStart,
   onDragEnd,
@@ -1716,6 +1726,10 @@ function WorktreeTreeItem({
     handleSync,
     handlePublish,
   } = useGitSync({ workdir: worktree.path, enabled: isActive });
+  const { data: pullRequest } = useBranchPullRequest(
+    worktree.path,
+    isMain ? null : worktree.branch
+  );
 
   const handleCopyPath = useCallback(async () => {
     try {
@@ -1822,6 +1836,9 @@ function WorktreeTreeItem({
             {t('Merged')}
           </span>
         ) : null}
+        {pullRequest && <PullRequestBadge pullRequest={pullRequest} />}
+        <WorktreeHookIndicator worktreePath={worktree.path} branch={worktree.branch} />
+        <DevServerPorts worktreePath={worktree.path} label={branchDisplay} />
         {/* Git sync status */}
         <GitSyncButton
           ahead={aheadCount}
@@ -1995,6 +2012,21 @@ function WorktreeTreeItem({
               </button>
             )}
 
+            {/* Interactive Rebase */}
+            {onRebase && !isMain && !isPrunable && (
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent/50"
+                onClick={() => {
+                  setMenuOpen(false);
+                  onRebase();
+                }}
+              >
+                <ListOrdered className="h-4 w-4" />
+                {t('Interactive Rebase...')}
+              </button>
+            )}
+
             {/* Separator before delete */}
             <div className="my-1 h-px bg-border" />
 
@@ -6,6 +6,7 @@ import {
   FolderOpen,
   GitBranch,
   GitMerge,
+  ListOrdered,
   PanelLeftClose,
   Plus,
   RefreshCw,
@@ -17,6 +18,7 @@ import {
 } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { GitSyncButton } from '@/components/git/GitSyncButton';
+import { PullRequestBadge } from '@/components/git/PullRequestBadge';
 import {
   AlertDialog,
   AlertDialogClose,
@@ -37,8 +39,11 @@ import {
 import { GlowBorder, type GlowState, useGlowEffectEnabled } from '@/components/ui/glow-card';
 import { toastManager } from '@/components/ui/toast';
 import { CreateWorktreeDialog } from '@/components/worktree/CreateWorktreeDialog';
+import { DevServerPorts } from '@/components/worktree/DevServerPorts';
+import { WorktreeHookIndicator } from '@/components/worktree/WorktreeHookIndicator';
 import { useGitSync } from '@/hooks/useGitSync';
 import { useWorktreeOutputState } from '@/hooks/useOutputState';
+import { useBranchPullRequest } from '@/hooks/usePullRequest';
 import { useShouldPoll } from '@/hooks/useWindowFocus';
 import { useI18n } from '@/i18n';
 import { springFast } from '@/lib/motion';
@@ -60,6 +65,7 @@ interface WorktreePanelProps {
     options?: { deleteBranch?: boolean; force?: boolean }
   ) => void;
   onMergeWorktree?: (worktree: GitWorktree) => void;
+  onRebaseWorktree?: (worktree: GitWorktree) => void;
   onReorderWorktrees?: (fromIndex: number, toIndex: number) => void;
   onRefresh: () => void;
   onInitGit?: () => Promise<void>;
@@ -82,6 +88,7 @@ export function WorktreePanel({
   onCreateWorktree,
   onRemoveWorktree,
   onMergeWorktree,
+  onRebaseWorktree,
   onReorderWorktrees,
   onRefresh,
   onInitGit,
@@ -330,6 +337,7 @@ export function WorktreePanel({
                   onClick={() => onSelectWorktree(worktree)}
                   onDelete={() => setWorktreeToDelete(worktree)}
                   onMerge={onMergeWorktree ? () => onMergeWorktree(worktree) : undefined}
+                  onRebase={onRebaseWorktree ? () => onRebaseWorktree(worktree) : undefined}
                   draggable={!searchQuery && !!onReorderWorktrees}
                   onDragStart={(e) => handleDragStart(e, originalIndex, worktree)}
                   onDragEnd={handleDragEnd}
@@ -462,6 +470,7 @@ interface WorktreeItemProps {
   onClick: () => void;
   onDelete: () => void;
   onMerge?: () => void;
+  onRebase?: () => void;
   // Drag reorder props
   draggable?: boolean;
   onDragStart?: (e: React.DragEvent) => void;
@@ -480,6 +489,7 @@ function WorktreeItem({
   onClick,
   onDelete,
   onMerge,
+  onRebase,
   draggable,
   onDragStart,
   onDragEnd,
@@ -504,6 +514,10 @@ function WorktreeItem({
   // Git sync operations
   const { ahead, behind, tracking, currentBranch, isSyncing, handleSync, handlePublish } =
     useGitSync({ workdir: worktree.path, enabled: isActive });
+  const { data: pullRequest } = useBranchPullRequest(
+    worktree.path,
+    isMain ? null : worktree.branch
+  );
 
   // Check if branch is merged to main
   const isMerged = useMemo(() => {
@@ -644,6 +658,9 @@ function WorktreeItem({
               {t('Merged')}
             </span>
           ) : null}
+          {pullRequest && <PullRequestBadge pullRequest={pullRequest} />}
+          <WorktreeHookIndicator worktreePath={worktree.path} branch={worktree.branch} />
+          <DevServerPorts worktreePath={worktree.path} label={branchDisplay} />
           {/* Git sync status - inline with branch name */}
           <GitSyncButton
             ahead={ahead}
@@ -826,6 +843,21 @@ function WorktreeItem({
               </button>
             )}
 
+            {/* Interactive Rebase */}
+            {onRebase && !isMain && !isPrunable && (
+              <button
+                type="button"
+                className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent/50"
+                onClick={() => {
+                  setMenuOpen(false);
+                  onRebase();
+                }}
+              >
+                <ListOrdered className="h-4 w-4" />
+                {t('Interactive Rebase...')}
+              </button>
+            )}
+
             {/* Separator before delete */}
             <div className="my-1 h-px bg-border" />
 
@@ -1,3 +1,4 @@
+import { type EnsoRepoConfig, WORKTREE_HOOK_NAMES } from '@shared/types';
 import { CircleHelp } from 'lucide-react';
 import { useCallback, useEffect, useState } from 'react';
 import {
@@ -37,10 +38,20 @@ export function RepositorySettingsDialog({
 }: RepositorySettingsDialogProps) {
   const { t } = useI18n();
   const [settings, setSettings] = useState<RepositorySettings>(DEFAULT_REPOSITORY_SETTINGS);
+  const [hookConfig, setHookConfig] = useState<EnsoRepoConfig | null>(null);
+  const [hookConfigError, setHookConfigError] = useState<string | null>(null);
 
   useEffect(() => {
     if (open && repoPath) {
       setSettings(getRepositorySettings(repoPath));
+      setHookConfigError(null);
+      window.electronAPI.worktree
+        .getHookConfig(repoPath)
+        .then(setHookConfig)
+        .catch((error) => {
+          setHookConfig(null);
+          setHookConfigError(error instanceof Error ? error.message : String(error));
+        });
     }
   }, [open, repoPath]);
 
@@ -127,6 +138,53 @@ export function RepositorySettingsDialog({
               </div>
             )}
           </div>
+
+          {/* Lifecycle hooks, read from the checked-in .enso/config.json */}
+          <div className="space-y-2">
+            <div className="space-y-0.5">
+              <div className="text-sm font-medium">{t('Lifecycle hooks')}</div>
+              <p className="text-xs text-muted-foreground">
+                {t('Configured in .enso/config.json and shared with everyone using the repository')}
+              </p>
+            </div>
+            {hookConfigError ? (
+              <p className="text-xs text-destructive">{hookConfigError}</p>
+            ) : hookConfig ? (
+              <div className="space-y-2 rounded-md border p-3 text-xs">
+                {WORKTREE_HOOK_NAMES.map((hook) => (
+                  <div key={hook} className="flex gap-3">
+                    <span className="w-24 shrink-0 font-medium">{hook}</span>
+                    <div className="min-w-0 flex-1 space-y-0.5 font-mono text-muted-foreground">
+                      {hook === 'post-create' &&
+                        hookConfig.copyFiles.map((file) => (
+                          <div key={file} className="truncate">
+                            {t('copy {{file}}', { file })}
+                          </div>
+                        ))}
+                      {(hookConfig.hooks[hook] ?? []).map((command) => (
+                        <div key={command} className="truncate">
+                          {command}
+                        </div>
+                      ))}
+                      {!hookConfig.hooks[hook]?.length &&
+                        !(hook === 'post-create' && hookConfig.copyFiles.length > 0) && (
+                          <div className="font-sans">-</div>
+                        )}
+                    </div>
+                  </div>
+                ))}
+                <p className="text-muted-foreground">
+                  {t('Timeout: {{seconds}}s', { seconds: hookConfig.hookTimeout })}
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {t(
+                  'No .enso/config.json found. Add one to run scripts when worktrees are created, removed, merged or activated.'
+                )}
+              </p>
+            )}
+          </div>
         </DialogPanel>
 
         <DialogFooter variant="bare">
@@ -6,18 +6,24 @@ import {
   FileText,
   Filter,
   Regex,
+  Replace,
+  ReplaceAll,
   Search,
+  Undo2,
   WholeWord,
   X,
 } from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import { Dialog, DialogBackdrop, DialogPortal, DialogViewport } from '@/components/ui/dialog';
+import { addToast } from '@/components/ui/toast';
 import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
 import { Z_INDEX } from '@/lib/z-index';
+import { ReplacePreviewList } from './ReplacePreviewList';
 import { SearchPreviewPanel } from './SearchPreviewPanel';
 import { SearchResultList } from './SearchResultList';
 import { type SearchMode, useGlobalSearch } from './useGlobalSearch';
+import { useSearchReplace } from './useSearchReplace';
 
 interface GlobalSearchDialogProps {
   open: boolean;
@@ -37,6 +43,9 @@ export function GlobalSearchDialog({
   const { t } = useI18n();
   const inputRef = useRef<HTMLInputElement>(null);
   const [dividerY, setDividerY] = useState(50);
+  const [replaceMode, setReplaceMode] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  const [isReplacing, setIsReplacing] = useState(false);
 
   const {
     mode,
@@ -49,12 +58,24 @@ export function GlobalSearchDialog({
     setQuery,
     setMode,
     setOptions,
+    refresh,
     setSelectedIndex,
     moveSelection,
     getSelectedItem,
     reset,
   } = useGlobalSearch(rootPath);
 
+  const isReplaceActive = replaceMode && mode === 'content';
+  const replace = useSearchReplace({
+    enabled: open && isReplaceActive,
+    rootPath,
+    query,
+    replacement,
+    options,
+    contentResults,
+  });
+  const { applyAll, undoLast } = replace;
+
   // Set initial mode when opening
   useEffect(() => {
     if (open) {
@@ -68,14 +89,52 @@ export function GlobalSearchDialog({
       setTimeout(() => inputRef.current?.focus(), 50);
     } else {
       reset();
+      setReplaceMode(false);
+      setReplacement('');
     }
   }, [open, initialMode, setMode, setQuery, reset]);
 
+  const handleUndoReplace = useCallback(async () => {
+    try {
+      await undoLast();
+      refresh();
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: t('Undo failed'),
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, [undoLast, refresh, t]);
+
+  const handleReplaceAll = useCallback(async () => {
+    setIsReplacing(true);
+    try {
+      const { count, files } = await applyAll();
+      addToast({
+        type: 'success',
+        title: t('Replaced {{count}} occurrences in {{files}} files', { count, files }),
+        actions: [{ label: t('Undo'), onClick: handleUndoReplace, variant: 'ghost' }],
+      });
+      refresh();
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: t('Replace failed'),
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsReplacing(false);
+    }
+  }, [applyAll, handleUndoReplace, refresh, t]);
+
   // Handle keyboard navigation
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
       // 中文输入法正在输入时不处理
       if (e.nativeEvent.isComposing) return;
+      // The replace preview is operated with the mouse; keep Enter/arrows for the inputs
+      if (isReplaceActive && e.key !== 'Escape') return;
 
       switch (e.key) {
         case 'ArrowDown':
@@ -107,7 +166,7 @@ export function GlobalSearchDialog({
           break;
       }
     },
-    [moveSelection, getSelectedItem, onOpenFile, onOpenChange]
+    [isReplaceActive, moveSelection, getSelectedItem, onOpenFile, onOpenChange]
   );
 
   // Resizer handling
@@ -175,7 +234,21 @@ export function GlobalSearchDialog({
             <div className="flex shrink-0 flex-col border-b">
               {/* Search Input Row */}
               <div className="flex h-12 items-center gap-2 px-3">
-                <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+                {mode === 'content' ? (
+                  <button
+                    type="button"
+                    className={cn(
+                      'flex h-6 w-6 shrink-0 items-center justify-center rounded text-muted-foreground hover:bg-accent/50 hover:text-foreground',
+                      replaceMode && 'bg-primary/20 text-primary'
+                    )}
+                    onClick={() => setReplaceMode((prev) => !prev)}
+                    title={t('Toggle replace')}
+                  >
+                    <Replace className="h-4 w-4" />
+                  </button>
+                ) : (
+                  <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+                )}
                 <input
                   ref={inputRef}
                   type="text"
@@ -243,6 +316,36 @@ export function GlobalSearchDialog({
                 </button>
               </div>
 
+              {/* Replace Input Row */}
+              {isReplaceActive && (
+                <div className="flex h-10 items-center gap-2 border-t px-3">
+                  <ReplaceAll className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <input
+                    type="text"
+                    className="h-full min-w-0 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+                    placeholder={
+                      options.regex ? t('Replace with ($1 for groups)...') : t('Replace with...')
+                    }
+                    value={replacement}
+                    onChange={(e) => setReplacement(e.target.value)}
+                  />
+                  <button
+                    type="button"
+                    className="flex h-6 shrink-0 items-center gap-1 rounded bg-primary px-2 text-xs text-primary-foreground hover:bg-primary/90 disabled:pointer-events-none disabled:opacity-50"
+                    disabled={
+                      replace.selected.count === 0 ||
+                      isReplacing ||
+                      replace.isLoading ||
+                      replace.truncated ||
+                      replace.unmatchedFiles.length > 0
+                    }
+                    onClick={handleReplaceAll}
+                  >
+                    {t('Replace {{count}}', { count: replace.selected.count })}
+                  </button>
+                </div>
+              )}
+
               {/* Mode Tabs + Stats */}
               <div className="flex h-8 items-center gap-2 px-3 text-xs">
                 <button
@@ -286,33 +389,52 @@ export function GlobalSearchDialog({
             </div>
 
             {/* Results Area */}
-            <div className="flex min-h-0 flex-1 flex-col">
-              {/* Result List */}
-              <div style={{ height: `${dividerY}%` }} className="min-h-0 overflow-hidden">
-                <SearchResultList
-                  mode={mode}
-                  fileResults={fileResults}
-                  contentResults={contentResults}
-                  selectedIndex={selectedIndex}
-                  onSelect={setSelectedIndex}
-                  onOpen={handleItemSelect}
-                  query={query}
+            {isReplaceActive ? (
+              <div className="min-h-0 flex-1 overflow-hidden">
+                <ReplacePreviewList
+                  previews={replace.previews}
+                  excluded={replace.excluded}
+                  isLoading={replace.isLoading}
+                  error={replace.error}
+                  truncated={replace.truncated}
+                  unmatchedFiles={replace.unmatchedFiles}
+                  onToggleMatch={replace.toggleMatch}
+                  onToggleFile={replace.toggleFile}
+                  onOpen={(path, match) => {
+                    onOpenFile(path, match.line, match.column, match.length);
+                    onOpenChange(false);
+                  }}
                 />
               </div>
+            ) : (
+              <div className="flex min-h-0 flex-1 flex-col">
+                {/* Result List */}
+                <div style={{ height: `${dividerY}%` }} className="min-h-0 overflow-hidden">
+                  <SearchResultList
+                    mode={mode}
+                    fileResults={fileResults}
+                    contentResults={contentResults}
+                    selectedIndex={selectedIndex}
+                    onSelect={setSelectedIndex}
+                    onOpen={handleItemSelect}
+                    query={query}
+                  />
+                </div>
 
-              {/* Resizer */}
-              <div
-                className="group relative h-1 shrink-0 cursor-row-resize bg-border hover:bg-primary/50 transition-colors"
-                onMouseDown={handleDividerMouseDown}
-              >
-                <div className="absolute inset-x-0 -top-1 -bottom-1" />
-              </div>
+                {/* Resizer */}
+                <div
+                  className="group relative h-1 shrink-0 cursor-row-resize bg-border hover:bg-primary/50 transition-colors"
+                  onMouseDown={handleDividerMouseDown}
+                >
+                  <div className="absolute inset-x-0 -top-1 -bottom-1" />
+                </div>
 
-              {/* Preview Panel */}
-              <div style={{ height: `${100 - dividerY}%` }} className="min-h-0 overflow-hidden">
-                <SearchPreviewPanel path={previewPath} line={previewLine} query={query} />
+                {/* Preview Panel */}
+                <div style={{ height: `${100 - dividerY}%` }} className="min-h-0 overflow-hidden">
+                  <SearchPreviewPanel path={previewPath} line={previewLine} query={query} />
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Footer */}
             <div className="flex h-8 shrink-0 items-center justify-between border-t px-3 text-xs text-muted-foreground">
@@ -320,6 +442,16 @@ export function GlobalSearchDialog({
                 <span>↑↓ {t('Navigate')}</span>
                 <span>↵ {t('Open')}</span>
                 <span>Esc {t('Close')}</span>
+                {replace.canUndo && (
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 rounded px-1.5 py-0.5 hover:bg-accent/50 hover:text-foreground"
+                    onClick={handleUndoReplace}
+                  >
+                    <Undo2 className="h-3 w-3" />
+                    {t('Undo replace')}
+                  </button>
+                )}
               </div>
               {mode === 'content' && (
                 <div className="flex items-center gap-1">
@@ -0,0 +1,186 @@
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { useState } from 'react';
+import { useShallow } from 'zustand/shallow';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import { useSettingsStore } from '@/stores/settings';
+import type { ReplaceMatch } from './searchReplace';
+import { getMatchKey, type ReplaceFilePreview } from './useSearchReplace';
+
+interface ReplacePreviewListProps {
+  previews: ReplaceFilePreview[];
+  excluded: Set<string>;
+  isLoading: boolean;
+  error: string | null;
+  // Replace is disabled while either is set, see useSearchReplace
+  truncated: boolean;
+  unmatchedFiles: string[];
+  onToggleMatch: (key: string) => void;
+  onToggleFile: (file: ReplaceFilePreview) => void;
+  onOpen: (path: string, match: ReplaceMatch) => void;
+}
+
+// Show the matched text struck through, followed by its replacement
+function ReplaceLine({ match }: { match: ReplaceMatch }) {
+  const start = match.column;
+  const end = Math.min(start + match.length, match.lineContent.length);
+  const before = match.lineContent.slice(0, start).trimStart();
+  const after = match.lineContent.slice(end);
+
+  return (
+    <>
+      <span>{before}</span>
+      <del className="rounded-sm bg-red-500/25 px-0.5 text-inherit">
+        {match.lineContent.slice(start, end)}
+      </del>
+      <ins className="rounded-sm bg-green-500/25 px-0.5 text-inherit no-underline">
+        {match.replacement}
+      </ins>
+      <span>{after}</span>
+    </>
+  );
+}
+
+export function ReplacePreviewList({
+  previews,
+  excluded,
+  isLoading,
+  error,
+  truncated,
+  unmatchedFiles,
+  onToggleMatch,
+  onToggleFile,
+  onOpen,
+}: ReplacePreviewListProps) {
+  const { t } = useI18n();
+  const editorSettings = useSettingsStore(useShallow((s) => s.editorSettings));
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  if (error) {
+    return (
+      <div className="flex h-full items-center justify-center px-4 text-sm text-destructive">
+        {error}
+      </div>
+    );
+  }
+
+  const warning = isLoading
+    ? null
+    : truncated
+      ? t('The search did not finish, so replacing could miss files. Narrow it with a file filter.')
+      : unmatchedFiles.length > 0
+        ? t(
+            'Search (ripgrep syntax) matched {{count}} files the replace preview (JavaScript syntax) does not, e.g. {{file}}. Adjust the regular expression to replace.',
+            { count: unmatchedFiles.length, file: unmatchedFiles[0] }
+          )
+        : null;
+  const warningBanner = warning && (
+    <div className="flex items-start gap-2 border-b bg-yellow-500/10 px-3 py-2 text-xs text-yellow-700 dark:text-yellow-400">
+      <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+      <span>{warning}</span>
+    </div>
+  );
+
+  if (previews.length === 0) {
+    return (
+      <div className="flex h-full flex-col">
+        {warningBanner}
+        <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+          {isLoading ? t('Loading...') : t('No matches found')}
+        </div>
+      </div>
+    );
+  }
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(path)) next.add(path);
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      {warningBanner}
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="p-1">
+          {previews.map((file) => {
+            const keys = file.matches.map((m) => getMatchKey(file.path, m));
+            const includedCount = keys.filter((key) => !excluded.has(key)).length;
+            const isCollapsed = collapsed.has(file.path);
+
+            return (
+              <div key={file.path}>
+                <div className="flex h-7 items-center gap-1.5 rounded px-1 text-sm hover:bg-accent/50">
+                  <button
+                    type="button"
+                    className="flex h-5 w-5 items-center justify-center text-muted-foreground"
+                    onClick={() => toggleCollapsed(file.path)}
+                  >
+                    {isCollapsed ? (
+                      <ChevronRight className="h-3.5 w-3.5" />
+                    ) : (
+                      <ChevronDown className="h-3.5 w-3.5" />
+                    )}
+                  </button>
+                  <input
+                    type="checkbox"
+                    className="h-3.5 w-3.5 accent-primary"
+                    checked={includedCount > 0}
+                    ref={(el) => {
+                      if (el) el.indeterminate = includedCount > 0 && includedCount < keys.length;
+                    }}
+                    onChange={() => onToggleFile(file)}
+                  />
+                  <span className="min-w-0 flex-1 truncate" title={file.relativePath}>
+                    {file.relativePath}
+                  </span>
+                  {file.openInTab && (
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {t('Open in editor')}
+                    </span>
+                  )}
+                  <span className="shrink-0 rounded bg-muted px-1.5 text-xs text-muted-foreground">
+                    {includedCount}/{keys.length}
+                  </span>
+                </div>
+
+                {!isCollapsed &&
+                  file.matches.map((match, index) => {
+                    const key = keys[index];
+                    const isIncluded = !excluded.has(key);
+                    return (
+                      <div
+                        key={key}
+                        className={cn(
+                          'flex h-6 cursor-pointer items-center gap-2 rounded pr-2 pl-8 text-xs hover:bg-accent/50',
+                          !isIncluded && 'opacity-50'
+                        )}
+                        onDoubleClick={() => onOpen(file.path, match)}
+                      >
+                        <input
+                          type="checkbox"
+                          className="h-3.5 w-3.5 shrink-0 accent-primary"
+                          checked={isIncluded}
+                          onChange={() => onToggleMatch(key)}
+                        />
+                        <span
+                          className="min-w-0 flex-1 truncate whitespace-pre"
+                          style={{ fontFamily: editorSettings.fontFamily }}
+                        >
+                          <ReplaceLine match={match} />
+                        </span>
+                        <span className="shrink-0 text-muted-foreground">{match.line}</span>
+                      </div>
+                    );
+                  })}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
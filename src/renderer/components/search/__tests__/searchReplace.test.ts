@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyReplacements,
+  buildSearchRegExp,
+  expandReplacement,
+  findReplaceMatches,
+} from '../searchReplace';
+
+const PLAIN = { caseSensitive: false, wholeWord: false, regex: false };
+
+describe('buildSearchRegExp', () => {
+  it('escapes plain queries', () => {
+    expect(buildSearchRegExp('a.b(', PLAIN).test('xa.b(y')).toBe(true);
+    expect(buildSearchRegExp('a.b(', PLAIN).test('axb(')).toBe(false);
+  });
+
+  it('honours whole word and case options', () => {
+    const regex = buildSearchRegExp('foo', { ...PLAIN, wholeWord: true, caseSensitive: true });
+    expect('foo foobar Foo'.match(regex)).toEqual(['foo']);
+  });
+
+  it('throws on invalid regex', () => {
+    expect(() => buildSearchRegExp('(', { ...PLAIN, regex: true })).toThrow(SyntaxError);
+  });
+});
+
+describe('expandReplacement', () => {
+  const match = /(?<key>\w+)=(\w+)/.exec('name=value') as RegExpExecArray;
+
+  it('expands numbered and named groups', () => {
+    expect(expandReplacement('$2:$<key>', match)).toBe('value:name');
+    expect(expandReplacement('[$&] $$1', match)).toBe('[name=value] $1');
+  });
+
+  it('falls back to one digit groups and leaves unknown groups alone', () => {
+    expect(expandReplacement('$10', match)).toBe('name0');
+    expect(expandReplacement('$3 $<missing>', match)).toBe('$3 $<missing>');
+  });
+});
+
+describe('findReplaceMatches / applyReplacements', () => {
+  const content = 'const a = 1;\r\nlet b = a + a;\n';
+
+  it('reports every match with its line and column', () => {
+    const regex = buildSearchRegExp('\\ba\\b', { ...PLAIN, regex: true });
+    const matches = findReplaceMatches(content, regex, 'x');
+    expect(matches.map((m) => [m.line, m.column])).toEqual([
+      [1, 6],
+      [2, 8],
+      [2, 12],
+    ]);
+    expect(matches[0].lineContent).toBe('const a = 1;');
+  });
+
+  it('applies only the selected matches', () => {
+    const regex = buildSearchRegExp('(\\w) = (\\d)', { ...PLAIN, regex: true });
+    const matches = findReplaceMatches(content, regex, '$1 := $2');
+    expect(applyReplacements(content, matches)).toBe('const a := 1;\r\nlet b = a + a;\n');
+
+    const all = findReplaceMatches(content, buildSearchRegExp('a', PLAIN), 'c');
+    expect(applyReplacements(content, [all[1]])).toBe('const a = 1;\r\nlet b = c + a;\n');
+  });
+
+  it('ignores empty matches', () => {
+    const regex = buildSearchRegExp('^', { ...PLAIN, regex: true });
+    expect(findReplaceMatches(content, regex, '> ')).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import type { SearchOptions } from './useGlobalSearch';
+
+export interface ReplaceMatch {
+  index: number; // offset in the file content
+  length: number;
+  line: number; // 1-based
+  column: number; // 0-based, in characters
+  lineContent: string;
+  replacement: string;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the JS RegExp used to preview and apply replacements.
+ * Throws a SyntaxError when the regex query is invalid. The search itself runs
+ * ripgrep (Rust regex syntax), which differs for e.g. lookarounds, backreferences
+ * and `\p{...}` classes; useSearchReplace blocks replacing when the two disagree.
+ */
+export function buildSearchRegExp(
+  query: string,
+  options: Pick<SearchOptions, 'caseSensitive' | 'wholeWord' | 'regex'>
+): RegExp {
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  // Multiline so ^ and $ match at line boundaries, like ripgrep
+  return new RegExp(source, options.caseSensitive ? 'gm' : 'gim');
+}
+
+/**
+ * Expands a replacement template for one match.
+ * Supports $&, $1-$99, $<name> and $$ (same syntax as String.prototype.replace).
+ */
+export function expandReplacement(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|<([^>]*)>|(\d{1,2}))/g, (token, kind, name, digits) => {
+    if (kind === '$') return '$';
+    if (kind === '&') return match[0];
+    if (name !== undefined) {
+      return match.groups && name in match.groups ? (match.groups[name] ?? '') : token;
+    }
+    // Prefer two-digit groups when they exist, otherwise fall back to one digit
+    const group = Number(digits);
+    if (group > 0 && group < match.length) return match[group] ?? '';
+    const single = Number(digits[0]);
+    if (digits.length === 2 && single > 0 && single < match.length) {
+      return (match[single] ?? '') + digits[1];
+    }
+    return token;
+  });
+}
+
+export function findReplaceMatches(
+  content: string,
+  regex: RegExp,
+  template: string
+): ReplaceMatch[] {
+  const matches: ReplaceMatch[] = [];
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  let lineIndex = 0;
+  regex.lastIndex = 0;
+  for (let match = regex.exec(content); match; match = regex.exec(content)) {
+    // Skip empty matches (e.g. `^` or `\b`) so replace never loops
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    while (lineIndex + 1 < lineStarts.length && lineStarts[lineIndex + 1] <= match.index) {
+      lineIndex++;
+    }
+    const lineStart = lineStarts[lineIndex];
+    const lineEnd = content.indexOf('\n', lineStart);
+    matches.push({
+      index: match.index,
+      length: match[0].length,
+      line: lineIndex + 1,
+      column: match.index - lineStart,
+      lineContent: content
+        .slice(lineStart, lineEnd === -1 ? undefined : lineEnd)
+        .replace(/\r$/, ''),
+      replacement: expandReplacement(template, match),
+    });
+  }
+  return matches;
+}
+
+/** Applies the given matches (as returned by findReplaceMatches) to the content */
+export function applyReplacements(content: string, matches: ReplaceMatch[]): string {
+  const sorted = [...matches].sort((a, b) => a.index - b.index);
+  let result = '';
+  let cursor = 0;
+  for (const match of sorted) {
+    result += content.slice(cursor, match.index) + match.replacement;
+    cursor = match.index + match.length;
+  }
+  return result + content.slice(cursor);
+}
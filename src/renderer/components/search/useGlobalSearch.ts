@@ -150,6 +150,14 @@ export function useGlobalSearch(rootPath: string | undefined) {
     [search]
   );
 
+  // Re-run the current search (e.g. after files were changed by a replace)
+  const refresh = useCallback(() => {
+    const { query, mode, options } = stateRef.current;
+    if (query.trim()) {
+      search(query, mode, options);
+    }
+  }, [search]);
+
   const setSelectedIndex = useCallback((index: number) => {
     setState((prev) => ({ ...prev, selectedIndex: index }));
   }, []);
@@ -207,6 +215,7 @@ export function useGlobalSearch(rootPath: string | undefined) {
     setQuery,
     setMode,
     setOptions,
+    refresh,
     setSelectedIndex,
     moveSelection,
     getSelectedItem,
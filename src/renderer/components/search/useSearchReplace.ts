@@ -0,0 +1,281 @@
+import type { ContentSearchResult, FileBatchWriteEntry } from '@shared/types';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useEditorStore } from '@/stores/editor';
+import {
+  applyReplacements,
+  buildSearchRegExp,
+  findReplaceMatches,
+  type ReplaceMatch,
+} from './searchReplace';
+import type { SearchOptions } from './useGlobalSearch';
+
+interface LoadedFile {
+  path: string;
+  relativePath: string;
+  content: string;
+  encoding: string;
+  // Open in an editor tab: edited in memory instead of on disk
+  openInTab: boolean;
+}
+
+export interface ReplaceFilePreview extends LoadedFile {
+  matches: ReplaceMatch[];
+}
+
+interface TabEdit {
+  path: string;
+  before: string;
+  beforeDirty: boolean;
+  after: string;
+}
+
+interface ReplaceBatch {
+  disk: Array<FileBatchWriteEntry & { before: string }>;
+  tabs: TabEdit[];
+}
+
+export interface ReplaceSummary {
+  count: number;
+  files: number;
+}
+
+export function getMatchKey(path: string, match: ReplaceMatch): string {
+  return `${path}:${match.index}`;
+}
+
+export function useSearchReplace({
+  enabled,
+  rootPath,
+  query,
+  replacement,
+  options,
+  contentResults,
+}: {
+  enabled: boolean;
+  rootPath: string | undefined;
+  query: string;
+  replacement: string;
+  options: SearchOptions;
+  // Each new search result reloads the files; the results themselves are capped
+  contentResults: ContentSearchResult | null;
+}) {
+  const [files, setFiles] = useState<LoadedFile[]>([]);
+  // The file list could not be completed (search timed out), replacing would miss files
+  const [truncated, setTruncated] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  // Kept in a ref so undo also works from callbacks created before the batch (e.g. toasts)
+  const lastBatchRef = useRef<ReplaceBatch | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+
+  // Read when results arrive, so a query change loads once (after its search finished)
+  const searchRef = useRef({ rootPath, query, options });
+  searchRef.current = { rootPath, query, options };
+
+  // Load the content of every file with search hits (open tabs win over disk). The
+  // content search stops at 500 matches, so replace runs its own uncapped file search.
+  useEffect(() => {
+    const { rootPath: root, query: searchQuery, options: searchOptions } = searchRef.current;
+    if (!enabled || !contentResults || !root) {
+      setFiles([]);
+      setTruncated(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    const load = async (): Promise<{ loaded: LoadedFile[]; truncated: boolean }> => {
+      const list = await window.electronAPI.search.contentFiles({
+        rootPath: root,
+        query: searchQuery,
+        caseSensitive: searchOptions.caseSensitive,
+        wholeWord: searchOptions.wholeWord,
+        regex: searchOptions.regex,
+        filePattern: searchOptions.filePattern || undefined,
+        useGitignore: searchOptions.useGitignore,
+      });
+      const { tabs } = useEditorStore.getState();
+      const loaded = await Promise.all(
+        list.files.map(async ({ path, relativePath }): Promise<LoadedFile | null> => {
+          const tab = tabs.find((t) => t.path === path);
+          if (tab) {
+            return {
+              path,
+              relativePath,
+              content: tab.content,
+              encoding: tab.encoding ?? 'utf-8',
+              openInTab: true,
+            };
+          }
+          try {
+            const { content, encoding, isBinary } = await window.electronAPI.file.read(path);
+            if (isBinary) return null;
+            return { path, relativePath, content, encoding, openInTab: false };
+          } catch {
+            return null;
+          }
+        })
+      );
+      return {
+        loaded: loaded.filter((file): file is LoadedFile => file !== null),
+        truncated: list.truncated,
+      };
+    };
+
+    load()
+      .catch(() => ({ loaded: [] as LoadedFile[], truncated: true }))
+      .then(({ loaded, truncated }) => {
+        if (cancelled) return;
+        setFiles(loaded);
+        setTruncated(truncated);
+        setExcluded(new Set());
+        setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, contentResults]);
+
+  const { regex, error } = useMemo(() => {
+    if (!query) return { regex: null, error: null };
+    try {
+      return { regex: buildSearchRegExp(query, options), error: null };
+    } catch (err) {
+      return { regex: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [query, options]);
+
+  // Search runs ripgrep's regex syntax and the preview a JS RegExp. Files ripgrep matched on
+  // disk but the preview can't are reported, since replacing would silently skip them.
+  const { previews, unmatchedFiles } = useMemo(() => {
+    if (!regex) return { previews: [] as ReplaceFilePreview[], unmatchedFiles: [] as string[] };
+    const withMatches = files.map((file) => ({
+      ...file,
+      matches: findReplaceMatches(file.content, regex, replacement),
+    }));
+    return {
+      previews: withMatches.filter((file) => file.matches.length > 0),
+      // Open tabs may differ from disk on purpose, so only closed files count
+      unmatchedFiles: withMatches
+        .filter((file) => file.matches.length === 0 && !file.openInTab)
+        .map((file) => file.relativePath),
+    };
+  }, [files, regex, replacement]);
+
+  const selected = useMemo<ReplaceSummary>(() => {
+    let count = 0;
+    let fileCount = 0;
+    for (const file of previews) {
+      const n = file.matches.filter((m) => !excluded.has(getMatchKey(file.path, m))).length;
+      count += n;
+      if (n > 0) fileCount++;
+    }
+    return { count, files: fileCount };
+  }, [previews, excluded]);
+
+  const toggleMatch = useCallback((key: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  }, []);
+
+  const toggleFile = useCallback((file: ReplaceFilePreview) => {
+    setExcluded((prev) => {
+      const keys = file.matches.map((m) => getMatchKey(file.path, m));
+      const allExcluded = keys.every((key) => prev.has(key));
+      const next = new Set(prev);
+      for (const key of keys) {
+        if (allExcluded) next.delete(key);
+        else next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  /**
+   * Applies all selected replacements as one batch. Closed files are written through
+   * the files IPC (all or nothing); files open in tabs are edited in memory and left
+   * modified so unsaved work is never overwritten on disk.
+   */
+  const applyAll = useCallback(async (): Promise<ReplaceSummary> => {
+    const { tabs } = useEditorStore.getState();
+    const batch: ReplaceBatch = { disk: [], tabs: [] };
+
+    for (const file of previews) {
+      const matches = file.matches.filter((m) => !excluded.has(getMatchKey(file.path, m)));
+      if (matches.length === 0) continue;
+      const after = applyReplacements(file.content, matches);
+
+      const tab = tabs.find((t) => t.path === file.path);
+      if (tab) {
+        if (tab.content !== file.content) {
+          throw new Error(`File changed since preview: ${file.relativePath}`);
+        }
+        batch.tabs.push({ path: file.path, before: tab.content, beforeDirty: tab.isDirty, after });
+      } else {
+        batch.disk.push({
+          path: file.path,
+          content: after,
+          encoding: file.encoding,
+          expectedContent: file.content,
+          before: file.content,
+        });
+      }
+    }
+
+    await window.electronAPI.file.batchWrite(
+      batch.disk.map(({ before: _before, ...entry }) => entry)
+    );
+    const { updateFileContent } = useEditorStore.getState();
+    for (const edit of batch.tabs) {
+      updateFileContent(edit.path, edit.after, true);
+    }
+
+    lastBatchRef.current = batch;
+    setCanUndo(true);
+    return selected;
+  }, [previews, excluded, selected]);
+
+  /** Reverts the last applied batch in one step */
+  const undoLast = useCallback(async () => {
+    const lastBatch = lastBatchRef.current;
+    if (!lastBatch) return;
+    lastBatchRef.current = null;
+    setCanUndo(false);
+
+    await window.electronAPI.file.batchWrite(
+      lastBatch.disk.map((entry) => ({
+        path: entry.path,
+        content: entry.before,
+        encoding: entry.encoding,
+        expectedContent: entry.content,
+      }))
+    );
+    const { tabs, updateFileContent } = useEditorStore.getState();
+    for (const edit of lastBatch.tabs) {
+      // Leave tabs alone if they were edited after the replace
+      const tab = tabs.find((t) => t.path === edit.path);
+      if (tab?.content === edit.after) {
+        updateFileContent(edit.path, edit.before, edit.beforeDirty);
+      }
+    }
+  }, []);
+
+  return {
+    previews,
+    truncated,
+    unmatchedFiles,
+    isLoading,
+    error,
+    excluded,
+    selected,
+    canUndo,
+    toggleMatch,
+    toggleFile,
+    applyAll,
+    undoLast,
+  };
+}
@@ -1,3 +1,4 @@
+import { isAIApiProvider } from '@shared/types';
 import { useEffect, useState } from 'react';
 import { Input } from '@/components/ui/input';
 import {
@@ -10,8 +11,10 @@ import {
 import { Switch } from '@/components/ui/switch';
 import { useI18n } from '@/i18n';
 import {
+  type AIApiProvider,
   type AIProvider,
   type ClaudeEffort,
+  type CodeReviewMode,
   defaultBranchNameGeneratorSettings,
   defaultCodeReviewPromptEn,
   defaultCodeReviewPromptZh,
@@ -23,6 +26,7 @@ import {
   useSettingsStore,
   validateCodeReviewPrompt,
 } from '@/stores/settings';
+import { SecretInput } from './SecretInput';
 
 // Provider options
 const PROVIDERS: { value: AIProvider; label: string }[] = [
@@ -30,6 +34,22 @@ const PROVIDERS: { value: AIProvider; label: string }[] = [
   { value: 'codex-cli', label: 'Codex CLI' },
   { value: 'cursor-cli', label: 'Cursor CLI' },
   { value: 'gemini-cli', label: 'Gemini CLI' },
+  { value: 'openai-compatible', label: 'OpenAI Compatible' },
+  { value: 'anthropic-api', label: 'Anthropic API' },
+];
+
+// HTTP providers, configured once and shared by every AI feature
+const API_PROVIDERS: { value: AIApiProvider; label: string; baseUrlPlaceholder: string }[] = [
+  {
+    value: 'openai-compatible',
+    label: 'OpenAI Compatible',
+    baseUrlPlaceholder: 'http://localhost:11434/v1',
+  },
+  {
+    value: 'anthropic-api',
+    label: 'Anthropic API',
+    baseUrlPlaceholder: 'https://api.anthropic.com',
+  },
 ];
 
 // Model options per provider
@@ -54,6 +74,9 @@ const MODELS_BY_PROVIDER: Record<AIProvider, { value: string; label: string }[]>
     { value: 'gemini-3-pro-preview', label: 'Gemini 3 Pro Preview' },
     { value: 'gemini-3-flash-preview', label: 'Gemini 3 Flash Preview' },
   ],
+  // Model comes from the provider endpoint settings
+  'openai-compatible': [],
+  'anthropic-api': [],
 };
 
 // Reasoning effort options for Codex CLI
@@ -94,6 +117,8 @@ export function AISettings() {
     setBranchNameGenerator,
     todoPolish,
     setTodoPolish,
+    aiApiProviders,
+    setAiApiProvider,
   } = useSettingsStore();
 
   // Validation state for code review prompt
@@ -225,6 +250,60 @@ export function AISettings() {
         </div>
       </div>
 
+      {/* API Providers Section */}
+      <div className="border-t pt-6">
+        <div>
+          <h4 className="text-base font-medium">{t('API Providers')}</h4>
+          <p className="text-sm text-muted-foreground">
+            {t(
+              'Call a model endpoint directly instead of an agent CLI, e.g. OpenAI, Anthropic, Ollama or LM Studio'
+            )}
+          </p>
+        </div>
+
+        <div className="mt-4 space-y-6">
+          {API_PROVIDERS.map((provider) => {
+            const config = aiApiProviders[provider.value];
+            return (
+              <div key={provider.value} className="space-y-4">
+                <span className="text-sm font-medium">{provider.label}</span>
+
+                <div className="grid grid-cols-[140px_1fr] items-center gap-4">
+                  <span className="text-sm font-medium">{t('Base URL')}</span>
+                  <Input
+                    value={config.baseUrl}
+                    onChange={(e) => setAiApiProvider(provider.value, { baseUrl: e.target.value })}
+                    placeholder={provider.baseUrlPlaceholder}
+                  />
+                </div>
+
+                <div className="grid grid-cols-[140px_1fr] items-center gap-4">
+                  <span className="text-sm font-medium">{t('API Key')}</span>
+                  <div className="space-y-1.5">
+                    <SecretInput
+                      value={config.apiKey}
+                      onChange={(apiKey) => setAiApiProvider(provider.value, { apiKey })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {t('Leave empty for local servers that do not require a key')}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-[140px_1fr] items-center gap-4">
+                  <span className="text-sm font-medium">{t('Model')}</span>
+                  <Input
+                    value={config.model}
+                    onChange={(e) => setAiApiProvider(provider.value, { model: e.target.value })}
+                    className="w-64"
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
       {/* Commit Message Generator Section */}
       <div className="border-t pt-6">
         <div>
@@ -275,36 +354,38 @@ export function AISettings() {
               </div>
             </div>
 
-            {/* Model */}
-            <div className="grid grid-cols-[140px_1fr] items-center gap-4">
-              <span className="text-sm font-medium">{t('Model')}</span>
-              <div className="space-y-1.5">
-                <Select
-                  value={commitMessageGenerator.model}
-                  onValueChange={(v) => v && setCommitMessageGenerator({ model: v })}
-                >
-                  <SelectTrigger className="w-40">
-                    <SelectValue>
-                      {MODELS_BY_PROVIDER[commitMessageGenerator.provider ?? 'claude-code']?.find(
-                        (m) => m.value === commitMessageGenerator.model
-                      )?.label ?? commitMessageGenerator.model}
-                    </SelectValue>
-                  </SelectTrigger>
-                  <SelectPopup>
-                    {MODELS_BY_PROVIDER[commitMessageGenerator.provider ?? 'claude-code']?.map(
-                      (m) => (
-                        <SelectItem key={m.value} value={m.value}>
-                          {m.label}
-                        </SelectItem>
-                      )
-                    )}
-                  </SelectPopup>
-                </Select>
-                <p className="text-xs text-muted-foreground">
-                  {t('Model for generating commit messages')}
-                </p>
+            {/* Model - HTTP providers use the model of their endpoint */}
+            {!isAIApiProvider(commitMessageGenerator.provider ?? 'claude-code') && (
+              <div className="grid grid-cols-[140px_1fr] items-center gap-4">
+                <span className="text-sm font-medium">{t('Model')}</span>
+                <div className="space-y-1.5">
+                  <Select
+                    value={commitMessageGenerator.model}
+                    onValueChange={(v) => v && setCommitMessageGenerator({ model: v })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue>
+                        {MODELS_BY_PROVIDER[commitMessageGenerator.provider ?? 'claude-code']?.find(
+                          (m) => m.value === commitMessageGenerator.model
+                        )?.label ?? commitMessageGenerator.model}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectPopup>
+                      {MODELS_BY_PROVIDER[commitMessageGenerator.provider ?? 'claude-code']?.map(
+                        (m) => (
+                          <SelectItem key={m.value} value={m.value}>
+                            {m.label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectPopup>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {t('Model for generating commit messages')}
+                  </p>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Reasoning Level - Only for Codex CLI */}
             {commitMessageGenerator.provider === 'codex-cli' && (
@@ -480,32 +561,34 @@ export function AISettings() {
               </div>
             </div>
 
-            {/* Model */}
-            <div className="grid grid-cols-[140px_1fr] items-center gap-4">
-              <span className="text-sm font-medium">{t('Model')}</span>
-              <div className="space-y-1.5">
-                <Select
-                  value={codeReview.model}
-                  onValueChange={(v) => v && setCodeReview({ model: v })}
-                >
-                  <SelectTrigger className="w-40">
-                    <SelectValue>
-                      {MODELS_BY_PROVIDER[codeReview.provider ?? 'claude-code']?.find(
-                        (m) => m.value === codeReview.model
-                      )?.label ?? codeReview.model}
-                    </SelectValue>
-                  </SelectTrigger>
-                  <SelectPopup>
-                    {MODELS_BY_PROVIDER[codeReview.provider ?? 'claude-code']?.map((m) => (
-                      <SelectItem key={m.value} value={m.value}>
-                        {m.label}
-                      </SelectItem>
-                    ))}
-                  </SelectPopup>
-                </Select>
-                <p className="text-xs text-muted-foreground">{t('Model for code review')}</p>
+            {/* Model - HTTP providers use the model of their endpoint */}
+            {!isAIApiProvider(codeReview.provider ?? 'claude-code') && (
+              <div className="grid grid-cols-[140px_1fr] items-center gap-4">
+                <span className="text-sm font-medium">{t('Model')}</span>
+                <div className="space-y-1.5">
+                  <Select
+                    value={codeReview.model}
+                    onValueChange={(v) => v && setCodeReview({ model: v })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue>
+                        {MODELS_BY_PROVIDER[codeReview.provider ?? 'claude-code']?.find(
+                          (m) => m.value === codeReview.model
+                        )?.label ?? codeReview.model}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectPopup>
+                      {MODELS_BY_PROVIDER[codeReview.provider ?? 'claude-code']?.map((m) => (
+                        <SelectItem key={m.value} value={m.value}>
+                          {m.label}
+                        </SelectItem>
+                      ))}
+                    </SelectPopup>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{t('Model for code review')}</p>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Reasoning Level - Only for Codex CLI */}
             {codeReview.provider === 'codex-cli' && (
@@ -556,67 +639,97 @@ export function AISettings() {
               </div>
             </div>
 
-            {/* Code Review Prompt */}
-            <div className="space-y-1.5">
-              <span className="text-sm font-medium">{t('Code Review Prompt')}</span>
+            {/* Output Mode */}
+            <div className="grid grid-cols-[140px_1fr] items-center gap-4">
+              <span className="text-sm font-medium">{t('Output')}</span>
               <div className="space-y-1.5">
-                <textarea
-                  value={codeReview.prompt ?? ''}
-                  onChange={(e) => setCodeReview({ prompt: e.target.value })}
-                  maxLength={8000}
-                  className="w-full h-40 rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                  placeholder={t(
-                    'Enter a prompt template for code review.\nAvailable variables:\n• {language} - Review output language\n• {git_diff} - Git diff of changes\n• {git_log} - Commit history'
+                <Select
+                  value={codeReview.mode ?? 'markdown'}
+                  onValueChange={(v) => v && setCodeReview({ mode: v as CodeReviewMode })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue>
+                      {codeReview.mode === 'structured' ? t('Findings') : t('Markdown')}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectPopup>
+                    <SelectItem value="markdown">{t('Markdown')}</SelectItem>
+                    <SelectItem value="structured">{t('Findings')}</SelectItem>
+                  </SelectPopup>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {t(
+                    'Findings are shown inline in the editor and diff view and can be applied or sent to an agent; custom prompts need markdown'
                   )}
-                />
+                </p>
+              </div>
+            </div>
 
-                {/* Character counter */}
-                <div className="flex items-center justify-between text-xs">
-                  <span className="text-muted-foreground">
-                    {codeReview.prompt.length ?? ''}/8000 {t('characters')}
-                  </span>
-                </div>
+            {/* Code Review Prompt - markdown mode only */}
+            {codeReview.mode !== 'structured' && (
+              <div className="space-y-1.5">
+                <span className="text-sm font-medium">{t('Code Review Prompt')}</span>
+                <div className="space-y-1.5">
+                  <textarea
+                    value={codeReview.prompt ?? ''}
+                    onChange={(e) => setCodeReview({ prompt: e.target.value })}
+                    maxLength={8000}
+                    className="w-full h-40 rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                    placeholder={t(
+                      'Enter a prompt template for code review.\nAvailable variables:\n• {language} - Review output language\n• {git_diff} - Git diff of changes\n• {git_log} - Commit history'
+                    )}
+                  />
 
-                {/* Validation messages */}
-                {promptValidation && !promptValidation.valid && (
-                  <div className="text-xs text-destructive space-y-0.5">
-                    {promptValidation.errors.map((error) => (
-                      <div key={error}>⚠️ {error}</div>
-                    ))}
-                  </div>
-                )}
-                {promptValidation && promptValidation.warnings.length > 0 && (
-                  <div className="text-xs text-amber-500 space-y-0.5">
-                    {promptValidation.warnings.map((warning) => (
-                      <div key={warning}>⚠️ {warning}</div>
-                    ))}
+                  {/* Character counter */}
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">
+                      {codeReview.prompt.length ?? ''}/8000 {t('characters')}
+                    </span>
                   </div>
-                )}
 
-                <div className="flex items-center justify-between">
-                  <p className="text-xs text-muted-foreground">
-                    {t('Customize the AI prompt for code review')}
-                  </p>
-                  <button
-                    type="button"
-                    onClick={() => {
-                      const confirmMessage = t(
-                        'This will restore the default AI prompt for code review. Your custom prompt will be lost.'
-                      );
-                      if (window.confirm(confirmMessage)) {
-                        setCodeReview({
-                          prompt:
-                            locale === 'zh' ? defaultCodeReviewPromptZh : defaultCodeReviewPromptEn,
-                        });
-                      }
-                    }}
-                    className="text-xs text-muted-foreground hover:text-primary underline"
-                  >
-                    {t('Restore default prompt')}
-                  </button>
+                  {/* Validation messages */}
+                  {promptValidation && !promptValidation.valid && (
+                    <div className="text-xs text-destructive space-y-0.5">
+                      {promptValidation.errors.map((error) => (
+                        <div key={error}>⚠️ {error}</div>
+                      ))}
+                    </div>
+                  )}
+                  {promptValidation && promptValidation.warnings.length > 0 && (
+                    <div className="text-xs text-amber-500 space-y-0.5">
+                      {promptValidation.warnings.map((warning) => (
+                        <div key={warning}>⚠️ {warning}</div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-muted-foreground">
+                      {t('Customize the AI prompt for code review')}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        const confirmMessage = t(
+                          'This will restore the default AI prompt for code review. Your custom prompt will be lost.'
+                        );
+                        if (window.confirm(confirmMessage)) {
+                          setCodeReview({
+                            prompt:
+                              locale === 'zh'
+                                ? defaultCodeReviewPromptZh
+                                : defaultCodeReviewPromptEn,
+                          });
+                        }
+                      }}
+                      className="text-xs text-muted-foreground hover:text-primary underline"
+                    >
+                      {t('Restore default prompt')}
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
         )}
       </div>
@@ -671,34 +784,38 @@ export function AISettings() {
               </div>
             </div>
 
-            {/* Model */}
-            <div className="grid grid-cols-[140px_1fr] items-center gap-4">
-              <span className="text-sm font-medium">{t('Model')}</span>
-              <div className="space-y-1.5">
-                <Select
-                  value={branchNameGenerator.model}
-                  onValueChange={(v) => v && setBranchNameGenerator({ model: v })}
-                >
-                  <SelectTrigger className="w-40">
-                    <SelectValue>
-                      {MODELS_BY_PROVIDER[branchNameGenerator.provider ?? 'claude-code']?.find(
-                        (m) => m.value === branchNameGenerator.model
-                      )?.label ?? branchNameGenerator.model}
-                    </SelectValue>
-                  </SelectTrigger>
-                  <SelectPopup>
-                    {MODELS_BY_PROVIDER[branchNameGenerator.provider ?? 'claude-code']?.map((m) => (
-                      <SelectItem key={m.value} value={m.value}>
-                        {m.label}
-                      </SelectItem>
-                    ))}
-                  </SelectPopup>
-                </Select>
-                <p className="text-xs text-muted-foreground">
-                  {t('Model for generating branch names')}
-                </p>
+            {/* Model - HTTP providers use the model of their endpoint */}
+            {!isAIApiProvider(branchNameGenerator.provider ?? 'claude-code') && (
+              <div className="grid grid-cols-[140px_1fr] items-center gap-4">
+                <span className="text-sm font-medium">{t('Model')}</span>
+                <div className="space-y-1.5">
+                  <Select
+                    value={branchNameGenerator.model}
+                    onValueChange={(v) => v && setBranchNameGenerator({ model: v })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue>
+                        {MODELS_BY_PROVIDER[branchNameGenerator.provider ?? 'claude-code']?.find(
+                          (m) => m.value === branchNameGenerator.model
+                        )?.label ?? branchNameGenerator.model}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectPopup>
+                      {MODELS_BY_PROVIDER[branchNameGenerator.provider ?? 'claude-code']?.map(
+                        (m) => (
+                          <SelectItem key={m.value} value={m.value}>
+                            {m.label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectPopup>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {t('Model for generating branch names')}
+                  </p>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Reasoning Level - Only for Codex CLI */}
             {branchNameGenerator.provider === 'codex-cli' && (
@@ -824,34 +941,36 @@ export function AISettings() {
               </div>
             </div>
 
-            {/* Model */}
-            <div className="grid grid-cols-[140px_1fr] items-center gap-4">
-              <span className="text-sm font-medium">{t('Model')}</span>
-              <div className="space-y-1.5">
-                <Select
-                  value={todoPolish.model}
-                  onValueChange={(v) => v && setTodoPolish({ model: v })}
-                >
-                  <SelectTrigger className="w-40">
-                    <SelectValue>
-                      {MODELS_BY_PROVIDER[todoPolish.provider ?? 'claude-code']?.find(
-                        (m) => m.value === todoPolish.model
-                      )?.label ?? todoPolish.model}
-                    </SelectValue>
-                  </SelectTrigger>
-                  <SelectPopup>
-                    {MODELS_BY_PROVIDER[todoPolish.provider ?? 'claude-code']?.map((m) => (
-                      <SelectItem key={m.value} value={m.value}>
-                        {m.label}
-                      </SelectItem>
-                    ))}
-                  </SelectPopup>
-                </Select>
-                <p className="text-xs text-muted-foreground">
-                  {t('Model for polishing task content')}
-                </p>
+            {/* Model - HTTP providers use the model of their endpoint */}
+            {!isAIApiProvider(todoPolish.provider ?? 'claude-code') && (
+              <div className="grid grid-cols-[140px_1fr] items-center gap-4">
+                <span className="text-sm font-medium">{t('Model')}</span>
+                <div className="space-y-1.5">
+                  <Select
+                    value={todoPolish.model}
+                    onValueChange={(v) => v && setTodoPolish({ model: v })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue>
+                        {MODELS_BY_PROVIDER[todoPolish.provider ?? 'claude-code']?.find(
+                          (m) => m.value === todoPolish.model
+                        )?.label ?? todoPolish.model}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectPopup>
+                      {MODELS_BY_PROVIDER[todoPolish.provider ?? 'claude-code']?.map((m) => (
+                        <SelectItem key={m.value} value={m.value}>
+                          {m.label}
+                        </SelectItem>
+                      ))}
+                    </SelectPopup>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {t('Model for polishing task content')}
+                  </p>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Reasoning Level - Only for Codex CLI */}
             {todoPolish.provider === 'codex-cli' && (
@@ -37,7 +37,10 @@ interface BuiltinAgentFormProps {
   agentName: string;
   customPath?: string;
   customArgs?: string;
-  onSubmit: (config: { customPath?: string; customArgs?: string }) => void;
+  acpMode?: boolean;
+  // ACP adapter command; undefined when the agent only runs in a terminal
+  acpCommand?: string;
+  onSubmit: (config: { customPath?: string; customArgs?: string; acpMode?: boolean }) => void;
   onCancel: () => void;
 }
 
@@ -45,18 +48,22 @@ function BuiltinAgentForm({
   agentName,
   customPath: initialPath,
   customArgs: initialArgs,
+  acpMode: initialAcpMode,
+  acpCommand,
   onSubmit,
   onCancel,
 }: BuiltinAgentFormProps) {
   const { t } = useI18n();
   const [customPath, setCustomPath] = React.useState(initialPath ?? '');
   const [customArgs, setCustomArgs] = React.useState(initialArgs ?? '');
+  const [acpMode, setAcpMode] = React.useState(initialAcpMode ?? false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSubmit({
       customPath: customPath.trim() || undefined,
       customArgs: customArgs.trim() || undefined,
+      acpMode: acpCommand ? acpMode : undefined,
     });
   };
 
@@ -88,6 +95,19 @@ function BuiltinAgentForm({
         />
         <p className="text-xs text-muted-foreground">{t('Extra arguments passed to the agent')}</p>
       </div>
+      {acpCommand && (
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1">
+            <span className="text-sm font-medium">{t('Structured session (ACP)')}</span>
+            <p className="text-xs text-muted-foreground">
+              {t('Chat view with tool approvals instead of a terminal. Requires {{command}}.', {
+                command: acpCommand,
+              })}
+            </p>
+          </div>
+          <Switch checked={acpMode} onCheckedChange={setAcpMode} />
+        </div>
+      )}
       <div className="flex justify-end gap-2 pt-1">
         <Button type="button" variant="outline" size="sm" onClick={onCancel}>
           {t('Cancel')}
@@ -193,6 +213,20 @@ export function AgentSettings() {
   const [editingAgent, setEditingAgent] = React.useState<CustomAgent | null>(null);
   const [editingBuiltinAgent, setEditingBuiltinAgent] = React.useState<string | null>(null);
   const [isAddingAgent, setIsAddingAgent] = React.useState(false);
+  // ACP adapter command per builtin agent that supports structured sessions
+  const [acpCommands, setAcpCommands] = React.useState<Record<string, string>>({});
+
+  React.useEffect(() => {
+    window.electronAPI.agent.list().then((agents) => {
+      const commands: Record<string, string> = {};
+      for (const agent of agents) {
+        if (agent.acp) {
+          commands[agent.id] = [agent.acp.command, ...(agent.acp.args ?? [])].join(' ');
+        }
+      }
+      setAcpCommands(commands);
+    });
+  }, []);
 
   // Detect a single agent (auto-disable if not installed)
   const detectSingleAgent = React.useCallback(
@@ -465,7 +499,8 @@ export function AgentSettings() {
                             <Pencil
                               className={cn(
                                 'h-3 w-3',
-                                (config?.customPath || config?.customArgs) && 'text-primary'
+                                (config?.customPath || config?.customArgs || config?.acpMode) &&
+                                  'text-primary'
                               )}
                             />
                           </Button>
@@ -569,7 +604,8 @@ export function AgentSettings() {
                               className={cn(
                                 'h-3 w-3',
                                 (agentSettings[agentId]?.customPath ||
-                                  agentSettings[agentId]?.customArgs) &&
+                                  agentSettings[agentId]?.customArgs ||
+                                  agentSettings[agentId]?.acpMode) &&
                                   'text-primary'
                               )}
                             />
@@ -873,6 +909,8 @@ export function AgentSettings() {
                 }
                 customPath={agentSettings[editingBuiltinAgent]?.customPath}
                 customArgs={agentSettings[editingBuiltinAgent]?.customArgs}
+                acpMode={agentSettings[editingBuiltinAgent]?.acpMode}
+                acpCommand={acpCommands[editingBuiltinAgent]}
                 onSubmit={(config) => {
                   setAgentCustomConfig(editingBuiltinAgent, config);
                   setEditingBuiltinAgent(null);
@@ -0,0 +1,39 @@
+import type { ClaudeConfigScope } from '@shared/types';
+import { getPathBasename } from '@shared/utils/path';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useI18n } from '@/i18n';
+
+interface ClaudeScopeTabsProps {
+  scope: ClaudeConfigScope;
+  onScopeChange: (scope: ClaudeConfigScope) => void;
+  /** Root of the current worktree; project scope is unavailable without one */
+  projectRoot?: string;
+}
+
+/**
+ * Switch between user-level (`~/.claude`) and project-level Claude config
+ */
+export function ClaudeScopeTabs({ scope, onScopeChange, projectRoot }: ClaudeScopeTabsProps) {
+  const { t } = useI18n();
+
+  return (
+    <Tabs value={scope} onValueChange={(value) => onScopeChange(value as ClaudeConfigScope)}>
+      <TabsList className="w-full">
+        <TabsTrigger value="user" className="flex-1">
+          {t('User')}
+        </TabsTrigger>
+        <TabsTrigger
+          value="project"
+          className="min-w-0 flex-1 gap-1"
+          disabled={!projectRoot}
+          title={projectRoot ?? t('Open a worktree to manage project config')}
+        >
+          {t('Project')}
+          {projectRoot && (
+            <span className="truncate text-muted-foreground">({getPathBasename(projectRoot)})</span>
+          )}
+        </TabsTrigger>
+      </TabsList>
+    </Tabs>
+  );
+}
@@ -1,3 +1,4 @@
+import type { LanguageServerConfig } from '@shared/types';
 import * as React from 'react';
 import { useMemo } from 'react';
 import { Input } from '@/components/ui/input';
@@ -24,6 +25,53 @@ import {
 } from '@/stores/settings';
 import { AUTO_SAVE_DELAY_DEFAULT } from './constants';
 
+function LanguageServerRow({
+  server,
+  onChange,
+}: {
+  server: LanguageServerConfig;
+  onChange: (updates: Partial<LanguageServerConfig>) => void;
+}) {
+  const commandLine = [server.command, ...server.args].join(' ');
+  const [localCommand, setLocalCommand] = React.useState(commandLine);
+
+  React.useEffect(() => {
+    setLocalCommand(commandLine);
+  }, [commandLine]);
+
+  const applyCommand = () => {
+    const [command = '', ...args] = localCommand.trim().split(/\s+/);
+    if (command !== server.command || args.join(' ') !== server.args.join(' ')) {
+      onChange({ command, args });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-[120px_1fr] items-center gap-4">
+      <div className="min-w-0">
+        <div className="truncate text-sm font-medium">{server.name}</div>
+        <div className="truncate text-xs text-muted-foreground" title={server.languages.join(', ')}>
+          {server.languages.join(', ')}
+        </div>
+      </div>
+      <div className="flex items-center gap-3">
+        <Input
+          value={localCommand}
+          onChange={(e) => setLocalCommand(e.target.value)}
+          onBlur={applyCommand}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              applyCommand();
+            }
+          }}
+          className="flex-1 font-mono"
+        />
+        <Switch checked={server.enabled} onCheckedChange={(enabled) => onChange({ enabled })} />
+      </div>
+    </div>
+  );
+}
+
 export function EditorSettings() {
   const { editorSettings, setEditorSettings } = useSettingsStore();
   const { t } = useI18n();
@@ -752,6 +800,30 @@ export function EditorSettings() {
           </div>
         </div>
       )}
+
+      {/* Language Servers Section */}
+      <div className="border-t pt-6">
+        <h3 className="text-lg font-medium">{t('Language Servers')}</h3>
+        <p className="text-sm text-muted-foreground">
+          {t(
+            'Hover, completion, references, rename and diagnostics from language servers in your PATH. Started per worktree when a matching file is opened.'
+          )}
+        </p>
+      </div>
+
+      {editorSettings.languageServers.map((server) => (
+        <LanguageServerRow
+          key={server.id}
+          server={server}
+          onChange={(updates) =>
+            setEditorSettings({
+              languageServers: editorSettings.languageServers.map((s) =>
+                s.id === server.id ? { ...s, ...updates } : s
+              ),
+            })
+          }
+        />
+      ))}
     </div>
   );
 }
@@ -5,7 +5,9 @@ import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useI18n } from '@/i18n';
+import { sealSecret } from '@/lib/secrets';
 import { useSettingsStore } from '@/stores/settings';
+import { SecretInput } from './SecretInput';
 
 interface HapiStatus {
   running: boolean;
@@ -55,16 +57,14 @@ export function HapiSettings() {
 
   // Local state for inputs
   const [localPort, setLocalPort] = React.useState(String(hapiSettings.webappPort));
-  const [localToken, setLocalToken] = React.useState(hapiSettings.cliApiToken);
-  const [localTelegramToken, setLocalTelegramToken] = React.useState(hapiSettings.telegramBotToken);
+  // Generated access token, shown until the settings page is closed
+  const [generatedToken, setGeneratedToken] = React.useState('');
   const [localWebappUrl, setLocalWebappUrl] = React.useState(hapiSettings.webappUrl);
   const [localAllowedChatIds, setLocalAllowedChatIds] = React.useState(hapiSettings.allowedChatIds);
 
   // Sync local state with store
   React.useEffect(() => {
     setLocalPort(String(hapiSettings.webappPort));
-    setLocalToken(hapiSettings.cliApiToken);
-    setLocalTelegramToken(hapiSettings.telegramBotToken);
     setLocalWebappUrl(hapiSettings.webappUrl);
     setLocalAllowedChatIds(hapiSettings.allowedChatIds);
   }, [hapiSettings]);
@@ -115,12 +115,18 @@ export function HapiSettings() {
   const getConfig = React.useCallback(() => {
     return {
       webappPort: Number(localPort) || 3006,
-      cliApiToken: localToken,
-      telegramBotToken: localTelegramToken,
+      cliApiToken: hapiSettings.cliApiToken,
+      telegramBotToken: hapiSettings.telegramBotToken,
       webappUrl: localWebappUrl,
       allowedChatIds: localAllowedChatIds,
     };
-  }, [localPort, localToken, localTelegramToken, localWebappUrl, localAllowedChatIds]);
+  }, [
+    localPort,
+    hapiSettings.cliApiToken,
+    hapiSettings.telegramBotToken,
+    localWebappUrl,
+    localAllowedChatIds,
+  ]);
 
   const saveSettings = React.useCallback(() => {
     const config = getConfig();
@@ -185,12 +191,13 @@ export function HapiSettings() {
     setHapiSettings({ runnerEnabled: checked });
   };
 
-  const handleGenerateToken = () => {
+  const handleGenerateToken = async () => {
     const token = Array.from(crypto.getRandomValues(new Uint8Array(32)))
       .map((b) => b.toString(16).padStart(2, '0'))
       .join('');
-    setLocalToken(token);
-    setHapiSettings({ cliApiToken: token });
+    const ref = await sealSecret(token, hapiSettings.cliApiToken);
+    setGeneratedToken(token);
+    setHapiSettings({ cliApiToken: ref });
   };
 
   // Cloudflared handlers
@@ -404,12 +411,10 @@ export function HapiSettings() {
                   </p>
                   <div className="grid grid-cols-[100px_1fr] items-center gap-4">
                     <span className="text-sm font-medium">{t('Tunnel Token')}</span>
-                    <Input
-                      type="password"
+                    <SecretInput
                       value={hapiSettings.tunnelToken}
-                      onChange={(e) => setHapiSettings({ tunnelToken: e.target.value })}
+                      onChange={(tunnelToken) => setHapiSettings({ tunnelToken })}
                       placeholder="eyJhIjoiNj..."
-                      className="font-mono text-xs"
                       disabled={cfStatus.running}
                     />
                   </div>
@@ -461,13 +466,16 @@ export function HapiSettings() {
               <span className="text-sm font-medium">{t('Access Token')}</span>
               <div className="space-y-1.5">
                 <div className="flex gap-2">
-                  <Input
+                  <SecretInput
                     type="text"
-                    value={localToken}
-                    onChange={(e) => setLocalToken(e.target.value)}
-                    onBlur={() => setHapiSettings({ cliApiToken: localToken })}
+                    value={hapiSettings.cliApiToken}
+                    onChange={(cliApiToken) => {
+                      setGeneratedToken('');
+                      setHapiSettings({ cliApiToken });
+                    }}
+                    draft={generatedToken}
                     placeholder={t('Auto-generated if empty')}
-                    className="flex-1 font-mono text-xs"
+                    className="flex-1"
                   />
                   <Button variant="outline" size="sm" onClick={handleGenerateToken}>
                     {t('Generate')}
@@ -483,13 +491,10 @@ export function HapiSettings() {
             <div className="grid grid-cols-[140px_1fr] items-center gap-4">
               <span className="text-sm font-medium">{t('Telegram Bot Token')}</span>
               <div className="space-y-1.5">
-                <Input
-                  type="password"
-                  value={localTelegramToken}
-                  onChange={(e) => setLocalTelegramToken(e.target.value)}
-                  onBlur={() => setHapiSettings({ telegramBotToken: localTelegramToken })}
+                <SecretInput
+                  value={hapiSettings.telegramBotToken}
+                  onChange={(telegramBotToken) => setHapiSettings({ telegramBotToken })}
                   placeholder={t('Optional')}
-                  className="font-mono text-xs"
                 />
                 <p className="text-xs text-muted-foreground">
                   {t('Telegram bot token (optional)')}
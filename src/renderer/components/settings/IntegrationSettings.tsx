@@ -20,6 +20,7 @@ import { Switch } from '@/components/ui/switch';
 import { useI18n } from '@/i18n';
 import { useSettingsStore } from '@/stores/settings';
 import { ProviderList } from './claude-provider';
+import { CommandsSection } from './commands';
 import { KeybindingInput } from './KeybindingsSettings';
 import { McpSection } from './mcp';
 import { PluginsSection } from './plugins';
@@ -591,6 +592,9 @@ export function IntegrationSettings({ scrollToProvider }: IntegrationSettingsPro
 
       {/* Prompts */}
       <PromptsSection />
+
+      {/* Commands & Skills */}
+      <CommandsSection />
     </div>
   );
 }
@@ -0,0 +1,84 @@
+import { isSecretRef } from '@shared/utils/secretRef';
+import { X } from 'lucide-react';
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useI18n } from '@/i18n';
+import { releaseSecret, sealSecret } from '@/lib/secrets';
+import { cn } from '@/lib/utils';
+
+interface SecretInputProps {
+  /** Stored settings value: a vault reference, legacy plaintext or '' */
+  value: string;
+  /** Called with the new reference once the typed value is stored, or '' when cleared */
+  onChange: (value: string) => void;
+  /** Value to show until the user edits it, e.g. a freshly generated token */
+  draft?: string;
+  type?: 'password' | 'text';
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Input for credentials kept in the secret vault. Stored values are never shown;
+ * a new value is sealed into the vault on blur, replacing the previous entry.
+ */
+export function SecretInput({
+  value,
+  onChange,
+  draft: initialDraft = '',
+  type = 'password',
+  placeholder,
+  disabled,
+  className,
+}: SecretInputProps) {
+  const { t } = useI18n();
+  const stored = isSecretRef(value);
+  const [draft, setDraft] = React.useState(stored ? initialDraft : value);
+
+  React.useEffect(() => {
+    setDraft(isSecretRef(value) ? initialDraft : value);
+  }, [value, initialDraft]);
+
+  const handleBlur = async () => {
+    if (!draft || draft === initialDraft || draft === value) return;
+    try {
+      onChange(await sealSecret(draft, value));
+    } catch (error) {
+      console.error('[SecretInput] Failed to store secret:', error);
+    }
+  };
+
+  const handleClear = async () => {
+    setDraft('');
+    onChange('');
+    await releaseSecret(value);
+  };
+
+  return (
+    <div className={cn('flex items-center gap-1', className)}>
+      <Input
+        type={type}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={handleBlur}
+        placeholder={stored ? t('Stored securely') : placeholder}
+        className="flex-1 font-mono text-xs"
+        disabled={disabled}
+      />
+      {(stored || draft) && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={handleClear}
+          disabled={disabled}
+          title={t('Clear')}
+        >
+          <X />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import type { ClaudeProvider } from '@shared/types';
+import { isSecretRef } from '@shared/utils/secretRef';
 import { Eye, EyeOff } from 'lucide-react';
 import * as React from 'react';
 import { Button } from '@/components/ui/button';
@@ -15,6 +16,7 @@ import {
 import { Field, FieldLabel } from '@/components/ui/field';
 import { Input } from '@/components/ui/input';
 import { useI18n } from '@/i18n';
+import { sealSecret } from '@/lib/secrets';
 import { useSettingsStore } from '@/stores/settings';
 
 interface ProviderDialogProps {
@@ -33,6 +35,7 @@ export function ProviderDialog({
   const { t } = useI18n();
   const addClaudeProvider = useSettingsStore((s) => s.addClaudeProvider);
   const updateClaudeProvider = useSettingsStore((s) => s.updateClaudeProvider);
+  const claudeProviders = useSettingsStore((s) => s.claudeCodeIntegration.providers);
 
   const isEditing = !!provider;
 
@@ -41,6 +44,8 @@ export function ProviderDialog({
   const [name, setName] = React.useState('');
   const [baseUrl, setBaseUrl] = React.useState('');
   const [authToken, setAuthToken] = React.useState('');
+  // Vault reference of the saved token, kept unless a new token is typed
+  const [storedToken, setStoredToken] = React.useState('');
   const [model, setModel] = React.useState('');
   const [smallFastModel, setSmallFastModel] = React.useState('');
   const [defaultSonnetModel, setDefaultSonnetModel] = React.useState('');
@@ -54,7 +59,8 @@ export function ProviderDialog({
       if (provider) {
         setName(provider.name);
         setBaseUrl(provider.baseUrl);
-        setAuthToken(provider.authToken);
+        setStoredToken(isSecretRef(provider.authToken) ? provider.authToken : '');
+        setAuthToken(isSecretRef(provider.authToken) ? '' : provider.authToken);
         setModel(provider.model ?? '');
         setSmallFastModel(provider.smallFastModel ?? '');
         setDefaultSonnetModel(provider.defaultSonnetModel ?? '');
@@ -65,7 +71,8 @@ export function ProviderDialog({
         // 这些字段仅在用户手动添加配置时才设置
         setName('');
         setBaseUrl(initialValues.baseUrl ?? '');
-        setAuthToken(initialValues.authToken ?? '');
+        setStoredToken(isSecretRef(initialValues.authToken) ? initialValues.authToken : '');
+        setAuthToken(isSecretRef(initialValues.authToken) ? '' : (initialValues.authToken ?? ''));
         setModel('');
         setSmallFastModel('');
         setDefaultSonnetModel(initialValues.defaultSonnetModel ?? '');
@@ -74,6 +81,7 @@ export function ProviderDialog({
       } else {
         setName('');
         setBaseUrl('');
+        setStoredToken('');
         setAuthToken('');
         setModel('');
         setSmallFastModel('');
@@ -85,16 +93,26 @@ export function ProviderDialog({
   }, [open, provider, initialValues]);
 
   const handleSave = async () => {
-    if (!name.trim() || !baseUrl.trim() || !authToken.trim()) {
+    if (!name.trim() || !baseUrl.trim() || !(authToken.trim() || storedToken)) {
       return;
     }
 
+    // Overwrite the saved entry in place unless another provider shares it
+    const previousRef = claudeProviders.some(
+      (p) => p.id !== provider?.id && p.authToken === storedToken
+    )
+      ? undefined
+      : storedToken;
+    const sealedToken = authToken.trim()
+      ? await sealSecret(authToken.trim(), previousRef)
+      : storedToken;
+
     const providerData: ClaudeProvider = {
       id: provider?.id ?? crypto.randomUUID(),
       ...(provider && { enabled: provider.enabled, displayOrder: provider.displayOrder }),
       name: name.trim(),
       baseUrl: baseUrl.trim(),
-      authToken: authToken.trim(),
+      authToken: sealedToken,
       model: model.trim() || undefined,
       smallFastModel: smallFastModel.trim() || undefined,
       defaultSonnetModel: defaultSonnetModel.trim() || undefined,
@@ -111,7 +129,7 @@ export function ProviderDialog({
     onOpenChange(false);
   };
 
-  const isValid = name.trim() && baseUrl.trim() && authToken.trim();
+  const isValid = name.trim() && baseUrl.trim() && (authToken.trim() || storedToken);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -150,7 +168,7 @@ export function ProviderDialog({
                 type={showToken ? 'text' : 'password'}
                 value={authToken}
                 onChange={(e) => setAuthToken(e.target.value)}
-                placeholder="sk-ant-..."
+                placeholder={storedToken ? t('Stored securely') : 'sk-ant-...'}
                 className="pr-10"
               />
               <button
@@ -32,6 +32,7 @@ import {
   isClaudeProviderMatch,
   markClaudeProviderSwitch,
 } from '@/lib/claudeProvider';
+import { releaseSecret } from '@/lib/secrets';
 import { cn } from '@/lib/utils';
 import { useSettingsStore } from '@/stores/settings';
 import { ProviderDialog } from './ProviderDialog';
@@ -252,6 +253,10 @@ export function ProviderList({ className }: ProviderListProps) {
   // 删除 Provider
   const handleDelete = (provider: ClaudeProvider) => {
     removeClaudeProvider(provider.id);
+    // Providers saved from the current config may share a vault entry
+    if (!providers.some((p) => p.id !== provider.id && p.authToken === provider.authToken)) {
+      void releaseSecret(provider.authToken);
+    }
   };
 
   // 处理拖拽重排序
@@ -0,0 +1,189 @@
+import type {
+  ClaudeCommandEntry,
+  ClaudeCommandRef,
+  ClaudeConfigScope,
+  ClaudeSlashCompletionKind,
+} from '@shared/types';
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Field, FieldLabel } from '@/components/ui/field';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+
+// 与主进程一致：名称只能作为单个路径片段
+const NAME_PATTERN = /^[\w.-]+$/;
+
+interface CommandEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entry: ClaudeCommandEntry | null;
+  defaultScope: ClaudeConfigScope;
+  projectRoot?: string;
+  onSaved: () => void;
+}
+
+export function CommandEditorDialog({
+  open,
+  onOpenChange,
+  entry,
+  defaultScope,
+  projectRoot,
+  onSaved,
+}: CommandEditorDialogProps) {
+  const { t } = useI18n();
+  const isEditing = !!entry;
+
+  const [kind, setKind] = React.useState<ClaudeSlashCompletionKind>('command');
+  const [scope, setScope] = React.useState<ClaudeConfigScope>('user');
+  const [name, setName] = React.useState('');
+  const [content, setContent] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    if (entry) {
+      setKind(entry.kind);
+      setScope(entry.scope);
+      setName(entry.name);
+      setContent('');
+      window.electronAPI.claudeConfig.commands
+        .read(entry, projectRoot)
+        .then((text) => setContent(text ?? ''));
+    } else {
+      setKind('command');
+      setScope(defaultScope);
+      setName('');
+      setContent('');
+    }
+  }, [open, entry, defaultScope, projectRoot]);
+
+  const handleSubmit = async () => {
+    const ref: ClaudeCommandRef = { kind, name: name.trim(), scope };
+    setSaving(true);
+    try {
+      const success = await window.electronAPI.claudeConfig.commands.write(
+        ref,
+        content,
+        projectRoot
+      );
+      if (success) {
+        toastManager.add({ type: 'success', title: t('Command saved') });
+        onSaved();
+        onOpenChange(false);
+      } else {
+        toastManager.add({ type: 'error', title: t('Failed to save command') });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isValid = NAME_PATTERN.test(name.trim()) && (scope === 'user' || !!projectRoot);
+  const configDir = scope === 'project' ? '.claude' : '~/.claude';
+  const targetPath =
+    kind === 'skill'
+      ? `${configDir}/skills/${name.trim() || '<name>'}/SKILL.md`
+      : `${configDir}/commands/${name.trim() || '<name>'}.md`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="max-w-2xl" zIndexLevel="nested">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? t('Edit Command') : t('Add Command')}</DialogTitle>
+          <DialogDescription>
+            {t('Custom slash commands and skills for Claude Code')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogPanel className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Field>
+              <FieldLabel>{t('Type')}</FieldLabel>
+              <Select
+                value={kind}
+                onValueChange={(v) => setKind(v as ClaudeSlashCompletionKind)}
+                disabled={isEditing}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="command">{t('Command')}</SelectItem>
+                  <SelectItem value="skill">{t('Skill')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field>
+              <FieldLabel>{t('Scope')}</FieldLabel>
+              <Select
+                value={scope}
+                onValueChange={(v) => setScope(v as ClaudeConfigScope)}
+                disabled={isEditing}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="user">{t('User')}</SelectItem>
+                  <SelectItem value="project" disabled={!projectRoot}>
+                    {t('Project')}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+          </div>
+
+          <Field>
+            <FieldLabel>{t('Name')} *</FieldLabel>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="save-context"
+              disabled={isEditing}
+            />
+          </Field>
+
+          <Field>
+            <FieldLabel>{t('Content')}</FieldLabel>
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="w-full h-64 rounded-md border bg-background px-3 py-2 text-sm font-mono resize-none focus:outline-none focus:ring-2 focus:ring-ring"
+              placeholder={
+                kind === 'skill'
+                  ? '---\nname: my-skill\ndescription: ...\n---'
+                  : '# Description\n\nInstructions...'
+              }
+            />
+            <p className="text-xs text-muted-foreground mt-1">{entry?.filePath ?? targetPath}</p>
+          </Field>
+        </DialogPanel>
+
+        <DialogFooter variant="bare">
+          <DialogClose render={<Button variant="outline">{t('Cancel')}</Button>} />
+          <Button onClick={handleSubmit} disabled={!isValid || saving}>
+            {t('Save')}
+          </Button>
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import type { ClaudeCommandEntry, ClaudeConfigScope } from '@shared/types';
+import {
+  ArrowRightLeft,
+  ChevronDown,
+  ChevronRight,
+  Edit2,
+  Plus,
+  Sparkles,
+  SquareSlash,
+  Trash2,
+} from 'lucide-react';
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+import { useWorktreeStore } from '@/stores/worktree';
+import { ClaudeScopeTabs } from '../ClaudeScopeTabs';
+import { CommandEditorDialog } from './CommandEditorDialog';
+
+export function CommandsSection() {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = React.useState(false);
+  const [dialogOpen, setDialogOpen] = React.useState(false);
+  const [editingEntry, setEditingEntry] = React.useState<ClaudeCommandEntry | null>(null);
+  const [entries, setEntries] = React.useState<ClaudeCommandEntry[]>([]);
+  const [scope, setScope] = React.useState<ClaudeConfigScope>('user');
+  const currentWorktreePath = useWorktreeStore((s) => s.currentWorktree?.path);
+
+  const loadEntries = React.useCallback(async () => {
+    try {
+      setEntries(await window.electronAPI.claudeConfig.commands.list(currentWorktreePath));
+    } catch (error) {
+      console.error('Failed to load commands:', error);
+    }
+  }, [currentWorktreePath]);
+
+  React.useEffect(() => {
+    if (!currentWorktreePath) setScope('user');
+  }, [currentWorktreePath]);
+
+  // 展开时加载，并在 ~/.claude 下的命令变化时刷新
+  React.useEffect(() => {
+    if (!expanded) return;
+    loadEntries();
+    return window.electronAPI.claudeCompletions.onUpdated(() => {
+      loadEntries();
+    });
+  }, [expanded, loadEntries]);
+
+  const scopeEntries = entries.filter((entry) => entry.scope === scope);
+
+  const handleAdd = () => {
+    setEditingEntry(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (entry: ClaudeCommandEntry) => {
+    setEditingEntry(entry);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (entry: ClaudeCommandEntry) => {
+    const success = await window.electronAPI.claudeConfig.commands.delete(
+      entry,
+      currentWorktreePath
+    );
+    if (success) {
+      toastManager.add({ type: 'success', title: t('Command removed') });
+    } else {
+      toastManager.add({ type: 'error', title: t('Failed to remove command') });
+    }
+    await loadEntries();
+  };
+
+  const handleMove = async (entry: ClaudeCommandEntry) => {
+    const toScope: ClaudeConfigScope = entry.scope === 'project' ? 'user' : 'project';
+    const exists = entries.some(
+      (e) => e.scope === toScope && e.kind === entry.kind && e.name === entry.name
+    );
+    if (exists) {
+      toastManager.add({
+        type: 'error',
+        title: t('"{{name}}" already exists there', { name: entry.name }),
+      });
+      return;
+    }
+
+    const success = await window.electronAPI.claudeConfig.commands.move(
+      entry,
+      toScope,
+      currentWorktreePath
+    );
+    if (success) {
+      toastManager.add({ type: 'success', title: t('Command moved') });
+    } else {
+      toastManager.add({ type: 'error', title: t('Failed to move command') });
+    }
+    await loadEntries();
+  };
+
+  return (
+    <div className="border-t pt-4 mt-4">
+      <button
+        type="button"
+        className="flex w-full items-center justify-between"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <div className="flex items-center gap-2">
+          {expanded ? (
+            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+          )}
+          <SquareSlash className="h-4 w-4" />
+          <span className="text-sm font-medium">{t('Commands & Skills')}</span>
+          {expanded && <span className="text-xs text-muted-foreground">({entries.length})</span>}
+        </div>
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleAdd();
+          }}
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-2">
+          <ClaudeScopeTabs
+            scope={scope}
+            onScopeChange={setScope}
+            projectRoot={currentWorktreePath}
+          />
+          {scopeEntries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {t('No commands or skills')}
+            </p>
+          ) : (
+            scopeEntries.map((entry) => (
+              <div
+                key={entry.filePath}
+                className="flex items-center justify-between rounded-md px-3 py-2 bg-muted/50 hover:bg-muted"
+              >
+                <div className="flex items-center gap-1.5 min-w-0 flex-1">
+                  {entry.kind === 'skill' ? (
+                    <Sparkles className="h-3.5 w-3.5 shrink-0 text-purple-500" />
+                  ) : (
+                    <SquareSlash className="h-3.5 w-3.5 shrink-0 text-green-500" />
+                  )}
+                  <div className="min-w-0">
+                    <span className="text-sm font-medium font-mono truncate block">
+                      /{entry.name}
+                    </span>
+                    {entry.description && (
+                      <span className="text-xs text-muted-foreground truncate block">
+                        {entry.description}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 ml-2">
+                  {currentWorktreePath && (
+                    <Button
+                      variant="ghost"
+                      size="icon-xs"
+                      onClick={() => handleMove(entry)}
+                      title={entry.scope === 'project' ? t('Move to user') : t('Move to project')}
+                    >
+                      <ArrowRightLeft className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon-xs" onClick={() => handleEdit(entry)}>
+                    <Edit2 className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(entry)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <CommandEditorDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        entry={editingEntry}
+        defaultScope={scope}
+        projectRoot={currentWorktreePath}
+        onSaved={loadEntries}
+      />
+    </div>
+  );
+}
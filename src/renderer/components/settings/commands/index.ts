@@ -0,0 +1,2 @@
+export { CommandEditorDialog } from './CommandEditorDialog';
+export { CommandsSection } from './CommandsSection';
@@ -0,0 +1,350 @@
+import type {
+  McpInspectorSnapshot,
+  McpInspectorTool,
+  McpServer,
+  McpToolCallResult,
+} from '@shared/types';
+import { AlertCircle, CheckCircle2, Play, RefreshCw } from 'lucide-react';
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+type InspectorStatus = 'connecting' | 'ready' | 'error';
+
+/** 根据 inputSchema 生成参数模板，方便填写 */
+function schemaToTemplate(schema: Record<string, unknown> | undefined): string {
+  const properties = (schema?.properties ?? {}) as Record<string, { type?: unknown }>;
+  const template: Record<string, unknown> = {};
+  for (const [key, property] of Object.entries(properties)) {
+    switch (property.type) {
+      case 'number':
+      case 'integer':
+        template[key] = 0;
+        break;
+      case 'boolean':
+        template[key] = false;
+        break;
+      case 'array':
+        template[key] = [];
+        break;
+      case 'object':
+        template[key] = {};
+        break;
+      default:
+        template[key] = '';
+    }
+  }
+  return JSON.stringify(template, null, 2);
+}
+
+interface McpInspectorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  server: McpServer | null;
+  /** Working directory for stdio servers */
+  cwd?: string;
+}
+
+export function McpInspectorDialog({ open, onOpenChange, server, cwd }: McpInspectorDialogProps) {
+  const { t } = useI18n();
+  const [status, setStatus] = React.useState<InspectorStatus>('connecting');
+  const [snapshot, setSnapshot] = React.useState<McpInspectorSnapshot | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [stderr, setStderr] = React.useState('');
+  const [attempt, setAttempt] = React.useState(0);
+  const [selectedTool, setSelectedTool] = React.useState<McpInspectorTool | null>(null);
+  const [argsText, setArgsText] = React.useState('{}');
+  const [argsError, setArgsError] = React.useState<string | null>(null);
+  const [calling, setCalling] = React.useState(false);
+  const [callResult, setCallResult] = React.useState<McpToolCallResult | null>(null);
+  const sessionIdRef = React.useRef<string | null>(null);
+
+  // 打开时启动/连接服务器，关闭或重试时停止
+  // biome-ignore lint/correctness/useExhaustiveDependencies: attempt restarts the session on retry
+  React.useEffect(() => {
+    if (!open || !server) return;
+    let cancelled = false;
+
+    setStatus('connecting');
+    setSnapshot(null);
+    setError(null);
+    setStderr('');
+    setSelectedTool(null);
+    setCallResult(null);
+
+    window.electronAPI.mcpInspector.start(server, cwd).then(
+      (result) => {
+        if (cancelled) {
+          if (result.ok) window.electronAPI.mcpInspector.stop(result.snapshot.sessionId);
+          return;
+        }
+        setStderr(result.stderr);
+        if (result.ok) {
+          sessionIdRef.current = result.snapshot.sessionId;
+          setSnapshot(result.snapshot);
+          setStatus('ready');
+        } else {
+          setError(result.error);
+          setStatus('error');
+        }
+      },
+      (err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+        setStatus('error');
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      if (sessionIdRef.current) {
+        window.electronAPI.mcpInspector.stop(sessionIdRef.current);
+        sessionIdRef.current = null;
+      }
+    };
+  }, [open, server, cwd, attempt]);
+
+  const handleSelectTool = (tool: McpInspectorTool) => {
+    setSelectedTool(tool);
+    setArgsText(schemaToTemplate(tool.inputSchema));
+    setArgsError(null);
+    setCallResult(null);
+  };
+
+  const handleCall = async () => {
+    if (!selectedTool || !sessionIdRef.current) return;
+    let args: Record<string, unknown>;
+    try {
+      const parsed = JSON.parse(argsText || '{}');
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('not an object');
+      }
+      args = parsed;
+    } catch {
+      setArgsError(t('Arguments must be a JSON object'));
+      return;
+    }
+
+    setArgsError(null);
+    setCalling(true);
+    try {
+      const result = await window.electronAPI.mcpInspector.callTool(
+        sessionIdRef.current,
+        selectedTool.name,
+        args
+      );
+      setCallResult(result);
+      setStderr(result.stderr);
+    } finally {
+      setCalling(false);
+    }
+  };
+
+  const tools = snapshot?.tools ?? [];
+  const prompts = snapshot?.prompts ?? [];
+  const resources = snapshot?.resources ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="max-w-3xl" zIndexLevel="nested">
+        <DialogHeader>
+          <DialogTitle>{t('Test MCP Server')}</DialogTitle>
+          <DialogDescription>{server?.name}</DialogDescription>
+        </DialogHeader>
+
+        <DialogPanel className="space-y-4">
+          {/* 连接状态 */}
+          {status === 'connecting' && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              {t('Connecting...')}
+            </div>
+          )}
+          {status === 'error' && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/5 px-3 py-2 text-sm">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+              <span className="break-all">{error}</span>
+            </div>
+          )}
+          {status === 'ready' && snapshot && (
+            <div className="flex items-center gap-2 text-sm">
+              <CheckCircle2 className="h-4 w-4 text-green-500" />
+              <span className="font-medium">
+                {snapshot.serverInfo?.name ?? server?.name}
+                {snapshot.serverInfo?.version && ` ${snapshot.serverInfo.version}`}
+              </span>
+              {snapshot.protocolVersion && (
+                <span className="text-xs text-muted-foreground">
+                  ({t('Protocol')} {snapshot.protocolVersion})
+                </span>
+              )}
+            </div>
+          )}
+
+          {status === 'ready' && (
+            <Tabs defaultValue="tools">
+              <TabsList className="w-full">
+                <TabsTrigger value="tools" className="flex-1">
+                  {t('Tools')} ({tools.length})
+                </TabsTrigger>
+                <TabsTrigger value="prompts" className="flex-1">
+                  {t('Prompts')} ({prompts.length})
+                </TabsTrigger>
+                <TabsTrigger value="resources" className="flex-1">
+                  {t('Resources')} ({resources.length})
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="tools" className="mt-3">
+                <div className="grid grid-cols-[12rem_1fr] gap-3">
+                  <div className="max-h-80 space-y-1 overflow-y-auto">
+                    {tools.map((tool) => (
+                      <button
+                        key={tool.name}
+                        type="button"
+                        className={cn(
+                          'w-full truncate rounded-md px-2 py-1.5 text-left font-mono text-sm',
+                          selectedTool?.name === tool.name
+                            ? 'bg-accent text-accent-foreground'
+                            : 'hover:bg-muted'
+                        )}
+                        onClick={() => handleSelectTool(tool)}
+                      >
+                        {tool.name}
+                      </button>
+                    ))}
+                  </div>
+                  {selectedTool ? (
+                    <div className="min-w-0 space-y-2">
+                      {selectedTool.description && (
+                        <p className="text-sm text-muted-foreground">{selectedTool.description}</p>
+                      )}
+                      {selectedTool.inputSchema && (
+                        <pre className="max-h-40 overflow-auto rounded-md bg-muted p-2 text-xs">
+                          {JSON.stringify(selectedTool.inputSchema, null, 2)}
+                        </pre>
+                      )}
+                      <Textarea
+                        value={argsText}
+                        onChange={(e) => setArgsText(e.target.value)}
+                        className="min-h-24 font-mono text-xs"
+                      />
+                      {argsError && <p className="text-xs text-destructive">{argsError}</p>}
+                      <Button size="sm" onClick={handleCall} disabled={calling}>
+                        <Play className="mr-1.5 h-3.5 w-3.5" />
+                        {t('Call tool')}
+                      </Button>
+                      {callResult && (
+                        <div className="space-y-1">
+                          <p className="text-xs text-muted-foreground">
+                            {callResult.ok && !callResult.isError
+                              ? t('Completed in {{ms}} ms', { ms: callResult.durationMs })
+                              : t('Failed after {{ms}} ms', { ms: callResult.durationMs })}
+                          </p>
+                          <pre
+                            className={cn(
+                              'max-h-60 overflow-auto rounded-md bg-muted p-2 text-xs',
+                              (!callResult.ok || callResult.isError) && 'text-destructive'
+                            )}
+                          >
+                            {callResult.ok
+                              ? JSON.stringify(callResult.result, null, 2)
+                              : callResult.error}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="py-4 text-center text-sm text-muted-foreground">
+                      {tools.length > 0 ? t('Select a tool to call it') : t('No tools')}
+                    </p>
+                  )}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="prompts" className="mt-3 max-h-80 space-y-2 overflow-y-auto">
+                {prompts.length === 0 ? (
+                  <p className="py-4 text-center text-sm text-muted-foreground">
+                    {t('No prompts')}
+                  </p>
+                ) : (
+                  prompts.map((prompt) => (
+                    <div key={prompt.name} className="rounded-md bg-muted/50 px-3 py-2">
+                      <span className="font-mono text-sm">{prompt.name}</span>
+                      {prompt.description && (
+                        <p className="text-xs text-muted-foreground">{prompt.description}</p>
+                      )}
+                      {prompt.arguments && prompt.arguments.length > 0 && (
+                        <p className="mt-1 font-mono text-xs text-muted-foreground">
+                          {prompt.arguments
+                            .map((arg) => (arg.required ? `${arg.name}*` : arg.name))
+                            .join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="resources" className="mt-3 max-h-80 space-y-2 overflow-y-auto">
+                {resources.length === 0 ? (
+                  <p className="py-4 text-center text-sm text-muted-foreground">
+                    {t('No resources')}
+                  </p>
+                ) : (
+                  resources.map((resource) => (
+                    <div key={resource.uri} className="rounded-md bg-muted/50 px-3 py-2">
+                      <span className="text-sm">{resource.name ?? resource.uri}</span>
+                      <p className="truncate font-mono text-xs text-muted-foreground">
+                        {resource.uri}
+                        {resource.mimeType && ` · ${resource.mimeType}`}
+                      </p>
+                      {resource.description && (
+                        <p className="text-xs text-muted-foreground">{resource.description}</p>
+                      )}
+                    </div>
+                  ))
+                )}
+              </TabsContent>
+            </Tabs>
+          )}
+
+          {/* stdio 服务器的 stderr 输出 */}
+          {stderr && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">{t('Server output')}</p>
+              <pre className="max-h-40 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-2 font-mono text-xs">
+                {stderr}
+              </pre>
+            </div>
+          )}
+        </DialogPanel>
+
+        <DialogFooter variant="bare">
+          <Button
+            variant="outline"
+            onClick={() => setAttempt((n) => n + 1)}
+            disabled={status === 'connecting'}
+          >
+            <RefreshCw className="mr-1.5 h-3.5 w-3.5" />
+            {t('Retry')}
+          </Button>
+          <DialogClose render={<Button>{t('Close')}</Button>} />
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
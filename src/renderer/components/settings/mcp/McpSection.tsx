@@ -1,21 +1,34 @@
-import type { McpServer, McpServerConfig } from '@shared/types';
+import type {
+  ClaudeConfigScope,
+  ConfigurableAgentId,
+  McpServer,
+  McpServerConfig,
+} from '@shared/types';
 import { isHttpMcpConfig, isHttpMcpServer } from '@shared/types';
 import {
+  ArrowRightLeft,
   ChevronDown,
   ChevronRight,
   Edit2,
   Globe,
   Plus,
   Server,
+  Share2,
+  Stethoscope,
   Terminal,
   Trash2,
 } from 'lucide-react';
 import * as React from 'react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toastManager } from '@/components/ui/toast';
 import { useI18n } from '@/i18n';
+import { releaseMcpServerSecrets, sealMcpServerSecrets } from '@/lib/secrets';
 import { useSettingsStore } from '@/stores/settings';
+import { useWorktreeStore } from '@/stores/worktree';
+import { ClaudeScopeTabs } from '../ClaudeScopeTabs';
+import { McpInspectorDialog } from './McpInspectorDialog';
 import { McpServerDialog } from './McpServerDialog';
 
 /**
@@ -43,12 +56,28 @@ function configToServer(id: string, config: McpServerConfig): McpServer {
   };
 }
 
+type McpAgent = 'claude' | ConfigurableAgentId;
+
+const MCP_AGENTS: { id: McpAgent; label: string }[] = [
+  { id: 'claude', label: 'Claude' },
+  { id: 'codex', label: 'Codex' },
+  { id: 'gemini', label: 'Gemini' },
+];
+
 export function McpSection() {
   const { t } = useI18n();
   const [expanded, setExpanded] = React.useState(false);
   const [dialogOpen, setDialogOpen] = React.useState(false);
   const [editingServer, setEditingServer] = React.useState<McpServer | null>(null);
+  const [inspectingServer, setInspectingServer] = React.useState<McpServer | null>(null);
   const [initialized, setInitialized] = React.useState(false);
+  const [scope, setScope] = React.useState<ClaudeConfigScope>('user');
+  // 项目级服务器直接来自 <project>/.mcp.json，不保存到设置中
+  const [projectServers, setProjectServers] = React.useState<McpServer[]>([]);
+  // Codex / Gemini 的服务器直接来自各自的配置文件
+  const [agent, setAgent] = React.useState<McpAgent>('claude');
+  const [agentServers, setAgentServers] = React.useState<McpServer[]>([]);
+  const currentWorktreePath = useWorktreeStore((s) => s.currentWorktree?.path);
 
   const mcpServers = useSettingsStore((s) => s.mcpServers);
   const addMcpServer = useSettingsStore((s) => s.addMcpServer);
@@ -74,7 +103,7 @@ export function McpSection() {
         // 将 ~/.claude.json 中的配置转换为 McpServer 格式并添加到 store
         for (const [id, config] of Object.entries(existingConfig)) {
           if (!existingIds.has(id)) {
-            const server = configToServer(id, config);
+            const server = await sealMcpServerSecrets(configToServer(id, config));
             addMcpServer(server);
           }
         }
@@ -89,7 +118,45 @@ export function McpSection() {
     loadExistingMcpServers();
   }, [initialized, mcpServers, addMcpServer]);
 
+  const loadProjectServers = React.useCallback(async () => {
+    if (!currentWorktreePath) {
+      setProjectServers([]);
+      return;
+    }
+    const config = await window.electronAPI.claudeConfig.mcp.read(currentWorktreePath);
+    setProjectServers(Object.entries(config).map(([id, c]) => configToServer(id, c)));
+  }, [currentWorktreePath]);
+
+  const loadAgentServers = React.useCallback(async () => {
+    if (agent === 'claude') return;
+    const config = await window.electronAPI.agentConfig.mcp.read(agent);
+    setAgentServers(Object.entries(config).map(([id, c]) => configToServer(id, c)));
+  }, [agent]);
+
+  React.useEffect(() => {
+    if (!currentWorktreePath) setScope('user');
+  }, [currentWorktreePath]);
+
+  React.useEffect(() => {
+    if (expanded) {
+      loadAgentServers().catch((error) => {
+        console.error(`Failed to load ${agent} MCP servers:`, error);
+      });
+    }
+  }, [expanded, agent, loadAgentServers]);
+
+  // 用户级也需要项目列表，用于移动前检查重名
+  React.useEffect(() => {
+    if (expanded) {
+      loadProjectServers().catch((error) => {
+        console.error('Failed to load project MCP servers:', error);
+      });
+    }
+  }, [expanded, loadProjectServers]);
+
   const enabledCount = mcpServers.filter((s) => s.enabled).length;
+  const servers =
+    agent !== 'claude' ? agentServers : scope === 'project' ? projectServers : mcpServers;
 
   const handleToggle = async (id: string, enabled: boolean) => {
     // 找到要更新的服务器
@@ -114,12 +181,48 @@ export function McpSection() {
   };
 
   const handleDelete = async (id: string) => {
+    if (agent !== 'claude') {
+      await window.electronAPI.agentConfig.mcp.delete(agent, id);
+      await loadAgentServers();
+      toastManager.add({ type: 'success', title: t('MCP server removed') });
+      return;
+    }
+    if (scope === 'project') {
+      const projectServer = projectServers.find((s) => s.id === id);
+      await window.electronAPI.claudeConfig.mcp.delete(id, currentWorktreePath);
+      // 从用户级移来的服务器仍引用密钥库中的凭据
+      if (projectServer) await releaseMcpServerSecrets(projectServer);
+      await loadProjectServers();
+      toastManager.add({ type: 'success', title: t('MCP server removed') });
+      return;
+    }
+    const server = mcpServers.find((s) => s.id === id);
     removeMcpServer(id);
     await window.electronAPI.claudeConfig.mcp.delete(id);
+    if (server) await releaseMcpServerSecrets(server);
     toastManager.add({ type: 'success', title: t('MCP server removed') });
   };
 
-  const handleSave = async (server: McpServer) => {
+  const handleSave = async (input: McpServer) => {
+    if (agent !== 'claude') {
+      await window.electronAPI.agentConfig.mcp.upsert(agent, input);
+      await loadAgentServers();
+      setDialogOpen(false);
+      toastManager.add({ type: 'success', title: t('MCP server saved') });
+      return;
+    }
+    if (scope === 'project') {
+      // .mcp.json 随仓库共享，直接写入明文
+      await window.electronAPI.claudeConfig.mcp.upsert(
+        { ...input, enabled: true },
+        currentWorktreePath
+      );
+      await loadProjectServers();
+      setDialogOpen(false);
+      toastManager.add({ type: 'success', title: t('MCP server saved') });
+      return;
+    }
+    const server = await sealMcpServerSecrets(input, editingServer);
     if (editingServer) {
       updateMcpServer(server.id, server);
     } else {
@@ -131,6 +234,79 @@ export function McpSection() {
     toastManager.add({ type: 'success', title: t('MCP server saved') });
   };
 
+  const handleMove = async (server: McpServer) => {
+    if (!currentWorktreePath) return;
+    const targetServers = scope === 'project' ? mcpServers : projectServers;
+    if (targetServers.some((s) => s.id === server.id)) {
+      toastManager.add({
+        type: 'error',
+        title: t('MCP server "{{name}}" already exists there', { name: server.id }),
+      });
+      return;
+    }
+
+    if (scope === 'project') {
+      const sealed = await sealMcpServerSecrets(server);
+      addMcpServer(sealed);
+      await window.electronAPI.claudeConfig.mcp.upsert(sealed);
+      await window.electronAPI.claudeConfig.mcp.delete(server.id, currentWorktreePath);
+    } else {
+      // .mcp.json 会提交到仓库，主进程将密钥引用写为 ${VAR} 占位符，密钥仍保留在密钥库中
+      await window.electronAPI.claudeConfig.mcp.upsert(
+        { ...server, enabled: true },
+        currentWorktreePath
+      );
+      removeMcpServer(server.id);
+      await window.electronAPI.claudeConfig.mcp.delete(server.id);
+      const variables = Object.keys(
+        await window.electronAPI.claudeConfig.mcp.getProjectEnv(currentWorktreePath, server.id)
+      );
+      if (variables.length > 0) {
+        await loadProjectServers();
+        toastManager.add({
+          type: 'warning',
+          title: t('MCP server moved'),
+          description: t(
+            'Credentials were written to .mcp.json as environment variables: {{names}}. Claude sessions started here get them automatically; set them yourself anywhere else.',
+            { names: variables.join(', ') }
+          ),
+        });
+        return;
+      }
+    }
+    await loadProjectServers();
+    toastManager.add({ type: 'success', title: t('MCP server moved') });
+  };
+
+  // 将服务器写入其他所有 Agent 的用户级配置，同名服务器会被覆盖
+  const handleSync = async (server: McpServer) => {
+    const targets = MCP_AGENTS.map((a) => a.id).filter(
+      (id): id is ConfigurableAgentId => id !== 'claude' && id !== agent
+    );
+    const results = await Promise.all(
+      targets.map((target) =>
+        window.electronAPI.agentConfig.mcp.upsert(target, { ...server, enabled: true })
+      )
+    );
+
+    if (agent !== 'claude') {
+      const previous = mcpServers.find((s) => s.id === server.id);
+      const sealed = await sealMcpServerSecrets({ ...server, enabled: true }, previous);
+      if (previous) {
+        updateMcpServer(sealed.id, sealed);
+      } else {
+        addMcpServer(sealed);
+      }
+      results.push(await window.electronAPI.claudeConfig.mcp.upsert(sealed));
+    }
+
+    if (results.every(Boolean)) {
+      toastManager.add({ type: 'success', title: t('MCP server synced to all agents') });
+    } else {
+      toastManager.add({ type: 'error', title: t('Failed to sync MCP server to some agents') });
+    }
+  };
+
   return (
     <div className="border-t pt-4 mt-4">
       <button
@@ -164,12 +340,28 @@ export function McpSection() {
 
       {expanded && (
         <div className="mt-3 space-y-2">
-          {mcpServers.length === 0 ? (
+          <Tabs value={agent} onValueChange={(value) => setAgent(value as McpAgent)}>
+            <TabsList className="w-full">
+              {MCP_AGENTS.map(({ id, label }) => (
+                <TabsTrigger key={id} value={id} className="flex-1">
+                  {label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          {agent === 'claude' && (
+            <ClaudeScopeTabs
+              scope={scope}
+              onScopeChange={setScope}
+              projectRoot={currentWorktreePath}
+            />
+          )}
+          {servers.length === 0 ? (
             <p className="text-sm text-muted-foreground text-center py-4">
               {t('No MCP servers configured')}
             </p>
           ) : (
-            mcpServers.map((server) => {
+            servers.map((server) => {
               const isHttp = isHttpMcpServer(server);
               return (
                 <div
@@ -177,10 +369,12 @@ export function McpSection() {
                   className="flex items-center justify-between rounded-md px-3 py-2 bg-muted/50 hover:bg-muted"
                 >
                   <div className="flex items-center gap-2 min-w-0 flex-1">
-                    <Switch
-                      checked={server.enabled}
-                      onCheckedChange={(checked) => handleToggle(server.id, checked)}
-                    />
+                    {agent === 'claude' && scope === 'user' && (
+                      <Switch
+                        checked={server.enabled}
+                        onCheckedChange={(checked) => handleToggle(server.id, checked)}
+                      />
+                    )}
                     <div className="flex items-center gap-1.5 min-w-0">
                       {isHttp ? (
                         <Globe className="h-3.5 w-3.5 shrink-0 text-blue-500" />
@@ -196,6 +390,32 @@ export function McpSection() {
                     </div>
                   </div>
                   <div className="flex items-center gap-1 ml-2">
+                    <Button
+                      variant="ghost"
+                      size="icon-xs"
+                      onClick={() => setInspectingServer(server)}
+                      title={t('Test')}
+                    >
+                      <Stethoscope className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-xs"
+                      onClick={() => handleSync(server)}
+                      title={t('Sync to all agents')}
+                    >
+                      <Share2 className="h-3.5 w-3.5" />
+                    </Button>
+                    {agent === 'claude' && currentWorktreePath && (
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        onClick={() => handleMove(server)}
+                        title={scope === 'project' ? t('Move to user') : t('Move to project')}
+                      >
+                        <ArrowRightLeft className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
                     <Button variant="ghost" size="icon-xs" onClick={() => handleEdit(server)}>
                       <Edit2 className="h-3.5 w-3.5" />
                     </Button>
@@ -221,6 +441,13 @@ export function McpSection() {
         server={editingServer}
         onSave={handleSave}
       />
+
+      <McpInspectorDialog
+        open={!!inspectingServer}
+        onOpenChange={(open) => !open && setInspectingServer(null)}
+        server={inspectingServer}
+        cwd={currentWorktreePath}
+      />
     </div>
   );
 }
@@ -20,6 +20,10 @@ interface PromptEditorDialogProps {
   onOpenChange: (open: boolean) => void;
   preset: PromptPreset | null;
   initialContent?: string | null;
+  /** Project memory file the preset is applied to; omitted for ~/.claude/CLAUDE.md */
+  targetFile?: string;
+  /** User-level instruction file of another agent, e.g. ~/.codex/AGENTS.md */
+  targetPath?: string;
   onSave: (preset: PromptPreset) => void;
 }
 
@@ -28,6 +32,8 @@ export function PromptEditorDialog({
   onOpenChange,
   preset,
   initialContent,
+  targetFile,
+  targetPath,
   onSave,
 }: PromptEditorDialogProps) {
   const { t } = useI18n();
@@ -98,7 +104,11 @@ export function PromptEditorDialog({
               placeholder="# CLAUDE.md&#10;&#10;Your instructions here..."
             />
             <p className="text-xs text-muted-foreground mt-1">
-              {t('This content will be written to ~/.claude/CLAUDE.md')}
+              {targetFile
+                ? t('This content will be written to the project {{file}}', { file: targetFile })
+                : targetPath
+                  ? t('This content will be written to {{file}}', { file: targetPath })
+                  : t('This content will be written to ~/.claude/CLAUDE.md')}
             </p>
           </Field>
         </DialogPanel>
@@ -1,4 +1,9 @@
-import type { PromptPreset } from '@shared/types';
+import type {
+  ClaudeConfigScope,
+  ConfigurableAgentId,
+  ProjectMemoryFile,
+  PromptPreset,
+} from '@shared/types';
 import {
   AlertCircle,
   Check,
@@ -12,12 +17,32 @@ import {
 } from 'lucide-react';
 import * as React from 'react';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toastManager } from '@/components/ui/toast';
 import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
 import { useSettingsStore } from '@/stores/settings';
+import { useWorktreeStore } from '@/stores/worktree';
+import { ClaudeScopeTabs } from '../ClaudeScopeTabs';
 import { PromptEditorDialog } from './PromptEditorDialog';
 
+const PROJECT_MEMORY_FILES: ProjectMemoryFile[] = ['CLAUDE.md', 'AGENTS.md'];
+
+type InstructionsAgent = 'claude' | ConfigurableAgentId;
+
+// 用户级指令文件：预设可应用到任一 Agent
+const USER_INSTRUCTION_FILES: Record<InstructionsAgent, string> = {
+  claude: '~/.claude/CLAUDE.md',
+  codex: '~/.codex/AGENTS.md',
+  gemini: '~/.gemini/GEMINI.md',
+};
+
 export function PromptsSection() {
   const { t } = useI18n();
   const [expanded, setExpanded] = React.useState(false);
@@ -25,6 +50,13 @@ export function PromptsSection() {
   const [editingPreset, setEditingPreset] = React.useState<PromptPreset | null>(null);
   const [currentContent, setCurrentContent] = React.useState<string | null>(null);
   const [saveFromCurrent, setSaveFromCurrent] = React.useState(false);
+  const [scope, setScope] = React.useState<ClaudeConfigScope>('user');
+  const [projectFile, setProjectFile] = React.useState<ProjectMemoryFile>('CLAUDE.md');
+  const [userAgent, setUserAgent] = React.useState<InstructionsAgent>('claude');
+  const currentWorktreePath = useWorktreeStore((s) => s.currentWorktree?.path);
+  const projectRoot = scope === 'project' ? currentWorktreePath : undefined;
+  // Codex / Gemini 的用户级指令文件
+  const otherAgent = scope === 'user' && userAgent !== 'claude' ? userAgent : undefined;
 
   const promptPresets = useSettingsStore((s) => s.promptPresets);
   const addPromptPreset = useSettingsStore((s) => s.addPromptPreset);
@@ -32,14 +64,34 @@ export function PromptsSection() {
   const removePromptPreset = useSettingsStore((s) => s.removePromptPreset);
   const setPromptPresetEnabled = useSettingsStore((s) => s.setPromptPresetEnabled);
 
-  const activePreset = promptPresets.find((p) => p.enabled);
+  // ~/.claude/CLAUDE.md 记录已激活的预设；项目级及其他 Agent 按文件内容匹配
+  const userActivePreset = promptPresets.find((p) => p.enabled);
+  const activePreset =
+    scope === 'project' || otherAgent
+      ? promptPresets.find((p) => currentContent !== null && p.content === currentContent)
+      : userActivePreset;
+  const isPresetActive = (preset: PromptPreset) => preset.id === activePreset?.id;
+
+  // 没有打开的 worktree 时回到用户级
+  React.useEffect(() => {
+    if (!currentWorktreePath) setScope('user');
+  }, [currentWorktreePath]);
 
-  // 读取当前 CLAUDE.md 内容
+  // 读取当前 CLAUDE.md / 项目记忆文件 / 其他 Agent 指令文件内容
   React.useEffect(() => {
     if (expanded) {
-      window.electronAPI.claudeConfig.prompts.read().then(setCurrentContent);
+      setCurrentContent(null);
+      const read = otherAgent
+        ? window.electronAPI.agentConfig.instructions.read(otherAgent)
+        : window.electronAPI.claudeConfig.prompts.read(projectRoot, projectFile);
+      read.then(setCurrentContent);
     }
-  }, [expanded]);
+  }, [expanded, projectRoot, projectFile, otherAgent]);
+
+  const writeCurrentFile = (content: string) =>
+    otherAgent
+      ? window.electronAPI.agentConfig.instructions.write(otherAgent, content)
+      : window.electronAPI.claudeConfig.prompts.write(content, projectRoot, projectFile);
 
   // 检查当前内容是否未保存
   const hasUnsavedConfig = React.useMemo(() => {
@@ -75,10 +127,10 @@ export function PromptsSection() {
     const preset = promptPresets.find((p) => p.id === id);
     if (!preset) return;
 
-    // 写入到 CLAUDE.md
-    const success = await window.electronAPI.claudeConfig.prompts.write(preset.content);
+    // 写入到 CLAUDE.md（项目级为所选记忆文件）
+    const success = await writeCurrentFile(preset.content);
     if (success) {
-      setPromptPresetEnabled(id);
+      if (scope === 'user' && !otherAgent) setPromptPresetEnabled(id);
       setCurrentContent(preset.content);
       toastManager.add({ type: 'success', title: t('Prompt activated') });
     } else {
@@ -89,11 +141,14 @@ export function PromptsSection() {
   const handleSave = async (preset: PromptPreset) => {
     if (editingPreset) {
       updatePromptPreset(preset.id, preset);
-      // 如果是激活的预设，同步到文件
-      if (preset.enabled) {
-        await window.electronAPI.claudeConfig.prompts.write(preset.content);
+      // 如果是当前作用域激活的预设，同步到文件
+      if (isPresetActive(editingPreset)) {
+        await writeCurrentFile(preset.content);
         setCurrentContent(preset.content);
       }
+    } else if (scope === 'project' || otherAgent) {
+      // 项目级及其他 Agent 不记录激活状态，从当前文件保存的预设内容一致即视为激活
+      addPromptPreset(preset);
     } else {
       // 如果是从当前内容保存，或者是第一个预设，自动激活
       const shouldActivate = saveFromCurrent || promptPresets.length === 0;
@@ -124,8 +179,8 @@ export function PromptsSection() {
           )}
           <FileText className="h-4 w-4" />
           <span className="text-sm font-medium">{t('Prompts')}</span>
-          {activePreset && (
-            <span className="text-xs text-muted-foreground">({activePreset.name})</span>
+          {userActivePreset && (
+            <span className="text-xs text-muted-foreground">({userActivePreset.name})</span>
           )}
         </div>
         <Button
@@ -142,13 +197,60 @@ export function PromptsSection() {
 
       {expanded && (
         <div className="mt-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="min-w-0 flex-1">
+              <ClaudeScopeTabs
+                scope={scope}
+                onScopeChange={setScope}
+                projectRoot={currentWorktreePath}
+              />
+            </div>
+            {scope === 'project' && (
+              <Select
+                value={projectFile}
+                onValueChange={(v) => setProjectFile(v as ProjectMemoryFile)}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECT_MEMORY_FILES.map((file) => (
+                    <SelectItem key={file} value={file}>
+                      {file}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {scope === 'user' && (
+              <Select value={userAgent} onValueChange={(v) => setUserAgent(v as InstructionsAgent)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(USER_INSTRUCTION_FILES).map(([agent, file]) => (
+                    <SelectItem key={agent} value={agent}>
+                      {file}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
           {/* 未保存提示 */}
           {hasUnsavedConfig && (
             <div className="flex items-center justify-between rounded-md border border-dashed border-yellow-500/50 bg-yellow-500/5 px-3 py-2">
               <div className="flex items-center gap-2">
                 <AlertCircle className="h-4 w-4 text-yellow-500" />
                 <span className="text-sm text-muted-foreground">
-                  {t('Current CLAUDE.md not saved')}
+                  {scope === 'project'
+                    ? t('Current {{file}} not saved', { file: projectFile })
+                    : otherAgent
+                      ? t('Current {{file}} not saved', {
+                          file: USER_INSTRUCTION_FILES[otherAgent],
+                        })
+                      : t('Current CLAUDE.md not saved')}
                 </span>
               </div>
               <Button variant="outline" size="sm" onClick={handleSaveFromCurrent}>
@@ -169,22 +271,24 @@ export function PromptsSection() {
                 key={preset.id}
                 className={cn(
                   'flex items-center justify-between rounded-md px-3 py-2',
-                  preset.enabled ? 'bg-accent text-accent-foreground' : 'bg-muted/50 hover:bg-muted'
+                  isPresetActive(preset)
+                    ? 'bg-accent text-accent-foreground'
+                    : 'bg-muted/50 hover:bg-muted'
                 )}
               >
                 <div
                   className="flex items-center gap-2 min-w-0 flex-1 cursor-pointer"
-                  onClick={() => !preset.enabled && handleActivate(preset.id)}
+                  onClick={() => !isPresetActive(preset) && handleActivate(preset.id)}
                   role="button"
                   tabIndex={0}
                   onKeyDown={(e) => {
-                    if (!preset.enabled && (e.key === 'Enter' || e.key === ' ')) {
+                    if (!isPresetActive(preset) && (e.key === 'Enter' || e.key === ' ')) {
                       e.preventDefault();
                       handleActivate(preset.id);
                     }
                   }}
                 >
-                  {preset.enabled ? (
+                  {isPresetActive(preset) ? (
                     <Check className="h-4 w-4 shrink-0" />
                   ) : (
                     <div className="h-4 w-4 rounded-full border border-muted-foreground shrink-0" />
@@ -215,6 +319,8 @@ export function PromptsSection() {
         onOpenChange={setDialogOpen}
         preset={editingPreset}
         initialContent={saveFromCurrent ? currentContent : undefined}
+        targetFile={scope === 'project' ? projectFile : undefined}
+        targetPath={otherAgent ? USER_INSTRUCTION_FILES[otherAgent] : undefined}
         onSave={handleSave}
       />
     </div>
@@ -1,5 +1,6 @@
 import type { FileChange, FileChangeStatus } from '@shared/types';
 import {
+  Archive,
   CheckCircle,
   Eye,
   FileEdit,
@@ -35,6 +36,7 @@ interface ChangesListProps {
   onUnstage: (paths: string[]) => void;
   onDiscard: (paths: string[]) => void;
   onDeleteUntracked?: (paths: string[]) => void;
+  onStash?: (paths?: string[]) => void;
   onRefresh?: () => void;
   isRefreshing?: boolean;
   repoPath?: string;
@@ -69,6 +71,7 @@ function FileItem({
   actionIcon: ActionIcon,
   actionTitle,
   onDiscard,
+  onStash,
 }: {
   file: FileChange;
   isSelected: boolean;
@@ -77,6 +80,7 @@ function FileItem({
   actionIcon: React.ElementType;
   actionTitle: string;
   onDiscard?: () => void;
+  onStash?: () => void;
 }) {
   const { t } = useI18n();
   const Icon = statusIcons[file.status];
@@ -105,6 +109,19 @@ function FileItem({
 
       {/* Action buttons */}
       <div className="hidden shrink-0 items-center group-hover:flex">
+        {onStash && (
+          <button
+            type="button"
+            className="flex h-5 w-5 items-center justify-center rounded text-muted-foreground/60 hover:text-foreground transition-colors"
+            onClick={(e) => {
+              e.stopPropagation();
+              onStash();
+            }}
+            title={t('Stash changes')}
+          >
+            <Archive className="h-3.5 w-3.5" />
+          </button>
+        )}
         {onDiscard && (
           <button
             type="button"
@@ -143,6 +160,7 @@ export function ChangesList({
   onUnstage,
   onDiscard,
   onDeleteUntracked,
+  onStash,
   onRefresh,
   isRefreshing,
   repoPath,
@@ -192,6 +210,9 @@ export function ChangesList({
     onDeleteUntracked,
   });
 
+  const isEmpty =
+    staged.length === 0 && trackedChanges.length === 0 && untrackedChanges.length === 0;
+
   // If tree mode, use ChangesTree component
   if (viewMode === 'tree') {
     return (
@@ -218,6 +239,17 @@ export function ChangesList({
             <List />
             {t('List view')}
           </Button>
+          {onStash && (
+            <Button
+              variant="outline"
+              size="icon-xs"
+              onClick={() => onStash()}
+              disabled={isEmpty}
+              title={t('Stash changes')}
+            >
+              <Archive />
+            </Button>
+          )}
           {onRefresh && (
             <Button
               variant="outline"
@@ -254,9 +286,6 @@ export function ChangesList({
     );
   }
 
-  const isEmpty =
-    staged.length === 0 && trackedChanges.length === 0 && untrackedChanges.length === 0;
-
   return (
     <div className="flex h-full min-h-0 flex-col">
       {/* View Mode Toggle */}
@@ -290,6 +319,17 @@ export function ChangesList({
             </>
           )}
         </Button>
+        {onStash && (
+          <Button
+            variant="outline"
+            size="icon-xs"
+            onClick={() => onStash()}
+            disabled={isEmpty}
+            title={t('Stash changes')}
+          >
+            <Archive />
+          </Button>
+        )}
         {onRefresh && (
           <Button
             variant="outline"
@@ -337,6 +377,7 @@ export function ChangesList({
                       onAction={() => onUnstage([file.path])}
                       actionIcon={Minus}
                       actionTitle={t('Unstage')}
+                      onStash={onStash ? () => onStash([file.path]) : undefined}
                     />
                   ))}
                 </div>
@@ -381,6 +422,7 @@ export function ChangesList({
                       actionIcon={Plus}
                       actionTitle={t('Stage')}
                       onDiscard={() => onDiscard([file.path])}
+                      onStash={onStash ? () => onStash([file.path]) : undefined}
                     />
                   ))}
                 </div>
@@ -429,6 +471,7 @@ export function ChangesList({
                       onDiscard={
                         onDeleteUntracked ? () => onDeleteUntracked([file.path]) : undefined
                       }
+                      onStash={onStash ? () => onStash([file.path]) : undefined}
                     />
                   ))}
                 </div>
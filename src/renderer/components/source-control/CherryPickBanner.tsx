@@ -0,0 +1,112 @@
+import { Check, Cherry, X } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { toastManager } from '@/components/ui/toast';
+import {
+  useWorktreeCherryPickContinue,
+  useWorktreeCherryPickState,
+  useWorktreeMergeAbort,
+} from '@/hooks/useWorktree';
+import { useI18n } from '@/i18n';
+import { CherryPickConflictEditor } from './CherryPickConflictEditor';
+
+interface CherryPickBannerProps {
+  workdir: string;
+  isActive?: boolean;
+  onChange?: () => void;
+}
+
+export function CherryPickBanner({ workdir, isActive = true, onChange }: CherryPickBannerProps) {
+  const { t } = useI18n();
+  const { data: state } = useWorktreeCherryPickState(workdir, isActive);
+  const abortMutation = useWorktreeMergeAbort();
+  const continueMutation = useWorktreeCherryPickContinue();
+  const [editorOpen, setEditorOpen] = useState(false);
+
+  if (!state?.inProgress) return null;
+
+  const conflicts = state.conflicts ?? [];
+  const isBusy = abortMutation.isPending || continueMutation.isPending;
+
+  const handleAbort = async () => {
+    try {
+      await abortMutation.mutateAsync({ workdir });
+      onChange?.();
+    } catch (err) {
+      toastManager.add({
+        type: 'error',
+        title: t('Abort failed'),
+        description: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  const handleContinue = async () => {
+    try {
+      const result = await continueMutation.mutateAsync({ worktreePath: workdir });
+      if (result.success) {
+        toastManager.add({ type: 'success', title: t('Cherry-pick completed') });
+      } else if (result.conflicts && result.conflicts.length > 0) {
+        setEditorOpen(true);
+      } else if (result.error) {
+        toastManager.add({
+          type: 'error',
+          title: t('Cherry-pick failed'),
+          description: result.error,
+        });
+      }
+      onChange?.();
+    } catch (err) {
+      toastManager.add({
+        type: 'error',
+        title: t('Cherry-pick failed'),
+        description: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  return (
+    <>
+      <div className="mx-2 mt-2 flex items-center gap-2 rounded-md border border-blue-500/20 bg-blue-500/10 px-3 py-2 text-xs text-blue-600 dark:text-blue-400">
+        <Cherry className="h-3.5 w-3.5 shrink-0" />
+        <div className="min-w-0 flex-1">
+          <span className="font-medium">{t('Cherry-pick in progress')}</span>
+          {state.currentCommit && (
+            <span className="ml-1 font-mono">{state.currentCommit.slice(0, 8)}</span>
+          )}
+          <div className="text-blue-600/80 dark:text-blue-400/80">
+            {conflicts.length > 0
+              ? t('{{count}} conflicted file(s)', { count: conflicts.length })
+              : t('Conflicts resolved')}
+            {!!state.remaining && ` · ${t('{{count}} queued', { count: state.remaining })}`}
+          </div>
+        </div>
+        {conflicts.length > 0 ? (
+          <Button size="xs" variant="outline" disabled={isBusy} onClick={() => setEditorOpen(true)}>
+            {t('Resolve')}
+          </Button>
+        ) : (
+          <Button size="xs" variant="outline" disabled={isBusy} onClick={handleContinue}>
+            <Check className="h-3.5 w-3.5" />
+            {t('Continue')}
+          </Button>
+        )}
+        <Button size="xs" variant="ghost" disabled={isBusy} onClick={handleAbort}>
+          <X className="h-3.5 w-3.5" />
+          {t('Abort')}
+        </Button>
+      </div>
+
+      {editorOpen && conflicts.length > 0 && (
+        <CherryPickConflictEditor
+          worktreePath={workdir}
+          conflicts={conflicts}
+          onClose={() => {
+            setEditorOpen(false);
+            onChange?.();
+          }}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,84 @@
+import type { MergeConflict } from '@shared/types';
+import { useState } from 'react';
+import { Dialog, DialogPopup } from '@/components/ui/dialog';
+import { toastManager } from '@/components/ui/toast';
+import { MergeEditor } from '@/components/worktree/MergeEditor';
+import {
+  useWorktreeCherryPickContinue,
+  useWorktreeMergeAbort,
+  useWorktreeResolveConflict,
+} from '@/hooks/useWorktree';
+import { useI18n } from '@/i18n';
+
+interface CherryPickConflictEditorProps {
+  worktreePath: string;
+  branch?: string | null;
+  conflicts: MergeConflict[];
+  onClose: () => void;
+}
+
+export function CherryPickConflictEditor({
+  worktreePath,
+  branch,
+  conflicts: initialConflicts,
+  onClose,
+}: CherryPickConflictEditorProps) {
+  const { t } = useI18n();
+  const resolveMutation = useWorktreeResolveConflict();
+  const abortMutation = useWorktreeMergeAbort();
+  const continueMutation = useWorktreeCherryPickContinue();
+  // Bumped on every stop so the merge editor remounts with fresh state
+  const [step, setStep] = useState(0);
+  const [conflicts, setConflicts] = useState(initialConflicts);
+
+  const handleResolve = async (file: string, content: string) => {
+    await resolveMutation.mutateAsync({ workdir: worktreePath, resolution: { file, content } });
+  };
+
+  const handleAbort = async () => {
+    await abortMutation.mutateAsync({ workdir: worktreePath });
+    onClose();
+  };
+
+  const handleContinue = async () => {
+    const result = await continueMutation.mutateAsync({ worktreePath });
+    if (result.success) {
+      toastManager.add({
+        type: 'success',
+        title: t('Cherry-pick completed'),
+        description: branch ?? worktreePath,
+      });
+      onClose();
+    } else if (result.conflicts && result.conflicts.length > 0) {
+      // A queued commit stopped on new conflicts
+      setConflicts(result.conflicts);
+      setStep((prev) => prev + 1);
+    } else if (result.error) {
+      toastManager.add({
+        type: 'error',
+        title: t('Cherry-pick failed'),
+        description: result.error,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={() => {}}>
+      <DialogPopup className="h-[90vh] max-w-[95vw] p-0" showCloseButton={false}>
+        <MergeEditor
+          key={step}
+          mode="cherry-pick"
+          conflicts={conflicts}
+          workdir={worktreePath}
+          targetBranch={branch ?? undefined}
+          onResolve={handleResolve}
+          onComplete={handleContinue}
+          onAbort={handleAbort}
+          getConflictContent={(file) =>
+            window.electronAPI.worktree.getConflictContent(worktreePath, file)
+          }
+        />
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+import type { GitLogEntry, MergeConflict } from '@shared/types';
+import { getPathBasename } from '@shared/utils/path';
+import { GitBranch } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Field, FieldLabel } from '@/components/ui/field';
+import {
+  Select,
+  SelectItem,
+  SelectPopup,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toastManager } from '@/components/ui/toast';
+import { useWorktreeCherryPick } from '@/hooks/useWorktree';
+import { useI18n } from '@/i18n';
+import { Z_INDEX } from '@/lib/z-index';
+import { useWorktreeStore } from '@/stores/worktree';
+
+interface CherryPickDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Worktree the commits come from; excluded from the targets
+  workdir: string;
+  // In apply order (oldest first)
+  commits: GitLogEntry[];
+  onConflicts: (worktreePath: string, branch: string | null, conflicts: MergeConflict[]) => void;
+  onSuccess?: () => void;
+}
+
+export function CherryPickDialog({
+  open,
+  onOpenChange,
+  workdir,
+  commits,
+  onConflicts,
+  onSuccess,
+}: CherryPickDialogProps) {
+  const { t } = useI18n();
+  const worktrees = useWorktreeStore((s) => s.worktrees);
+  const cherryPickMutation = useWorktreeCherryPick();
+  const [targetPath, setTargetPath] = useState('');
+  const [recordOrigin, setRecordOrigin] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const targets = useMemo(
+    () => worktrees.filter((wt) => wt.path !== workdir && !wt.prunable),
+    [worktrees, workdir]
+  );
+  const target = targets.find((wt) => wt.path === targetPath);
+
+  useEffect(() => {
+    if (open) {
+      setTargetPath('');
+      setRecordOrigin(true);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target) return;
+    setError(null);
+
+    try {
+      const result = await cherryPickMutation.mutateAsync({
+        workdir,
+        options: {
+          worktreePath: target.path,
+          commits: commits.map((commit) => commit.hash),
+          recordOrigin,
+        },
+      });
+
+      if (result.success) {
+        toastManager.add({
+          type: 'success',
+          title: t('Cherry-pick completed'),
+          description: t('Applied {{count}} commit(s) to {{branch}}', {
+            count: commits.length,
+            branch: target.branch ?? getPathBasename(target.path),
+          }),
+        });
+        onOpenChange(false);
+        onSuccess?.();
+      } else if (result.conflicts && result.conflicts.length > 0) {
+        onOpenChange(false);
+        onConflicts(target.path, target.branch, result.conflicts);
+      } else if (result.error) {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('Cherry-pick failed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{t('Cherry-pick into...')}</DialogTitle>
+            <DialogDescription>
+              {commits.length === 1
+                ? t('Apply {{hash}} to another worktree', { hash: commits[0].hash.slice(0, 8) })
+                : t('Apply {{count}} commits to another worktree', { count: commits.length })}
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogPanel className="space-y-4">
+            <div className="max-h-32 space-y-0.5 overflow-y-auto rounded-md border p-1.5">
+              {commits.map((commit) => (
+                <div key={commit.hash} className="flex items-center gap-2 text-xs">
+                  <code className="shrink-0 text-muted-foreground">{commit.hash.slice(0, 8)}</code>
+                  <span className="min-w-0 truncate">{commit.message}</span>
+                </div>
+              ))}
+            </div>
+
+            <Field>
+              <FieldLabel>{t('Target worktree')}</FieldLabel>
+              <Select value={targetPath} onValueChange={(v) => setTargetPath(v || '')}>
+                <SelectTrigger>
+                  <SelectValue>
+                    {target
+                      ? (target.branch ?? getPathBasename(target.path))
+                      : t('Choose worktree...')}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectPopup zIndex={Z_INDEX.DROPDOWN_IN_MODAL}>
+                  {targets.map((wt) => (
+                    <SelectItem key={wt.path} value={wt.path}>
+                      <GitBranch className="mr-2 h-4 w-4" />
+                      <span className="truncate">{wt.branch ?? getPathBasename(wt.path)}</span>
+                    </SelectItem>
+                  ))}
+                </SelectPopup>
+              </Select>
+              {targets.length === 0 && (
+                <p className="text-xs text-muted-foreground">{t('No other worktrees')}</p>
+              )}
+            </Field>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={recordOrigin}
+                onCheckedChange={(checked) => setRecordOrigin(checked === true)}
+              />
+              <span>{t('Record origin commit in message (-x)')}</span>
+            </label>
+
+            {error && <div className="text-sm text-destructive break-all">{error}</div>}
+          </DialogPanel>
+
+          <DialogFooter>
+            <DialogClose render={<Button variant="outline">{t('Cancel')}</Button>} />
+            <Button type="submit" disabled={!target || cherryPickMutation.isPending}>
+              {cherryPickMutation.isPending ? t('Cherry-picking...') : t('Cherry-pick')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -1,5 +1,7 @@
+import type { CodeReviewScope, ReviewFinding } from '@shared/types';
 import {
   AlertCircle,
+  AlertTriangle,
   CheckCircle,
   Copy,
   Expand,
@@ -43,8 +45,11 @@ import { useCodeReview } from '@/hooks/useCodeReview';
 import { useI18n } from '@/i18n';
 import { useActiveSessionId } from '@/stores/agentSessions';
 import { stopCodeReview, useCodeReviewContinueStore } from '@/stores/codeReviewContinue';
+import { useNavigationStore } from '@/stores/navigation';
 import { useSettingsStore } from '@/stores/settings';
 import { useTerminalWriteStore } from '@/stores/terminalWrite';
+import { ReviewFindingList } from './ReviewFindingList';
+import { ReviewScopeSelect } from './ReviewScopeSelect';
 
 const markdownComponents: Components = {
   pre: ({ children }) => <>{children}</>,
@@ -133,9 +138,10 @@ interface CodeReviewModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   repoPath: string | undefined;
+  scope?: CodeReviewScope; // What to review when the modal starts a new review
 }
 
-export function CodeReviewModal({ open, onOpenChange, repoPath }: CodeReviewModalProps) {
+export function CodeReviewModal({ open, onOpenChange, repoPath, scope }: CodeReviewModalProps) {
   const sessionId = useActiveSessionId(repoPath);
   const { t } = useI18n();
   const { content, status, error, startReview, reset } = useCodeReview({ repoPath });
@@ -145,6 +151,10 @@ export function CodeReviewModal({ open, onOpenChange, repoPath }: CodeReviewModa
 
   const reviewRepoPath = useCodeReviewContinueStore((s) => s.review.repoPath);
   const reviewSessionId = useCodeReviewContinueStore((s) => s.review.sessionId); // For continue conversation
+  const reviewMode = useCodeReviewContinueStore((s) => s.review.mode);
+  const reviewScope = useCodeReviewContinueStore((s) => s.review.scope);
+  const findings = useCodeReviewContinueStore((s) => s.review.findings);
+  const navigateToFile = useNavigationStore((s) => s.navigateToFile);
   const minimize = useCodeReviewContinueStore((s) => s.minimize);
   const isMinimized = useCodeReviewContinueStore((s) => s.isMinimized);
   const requestContinue = useCodeReviewContinueStore((s) => s.requestContinue);
@@ -164,9 +174,9 @@ export function CodeReviewModal({ open, onOpenChange, repoPath }: CodeReviewModa
 
   useEffect(() => {
     if (open && status === 'idle' && !isMinimized) {
-      startReview();
+      startReview(scope);
     }
-  }, [open, status, isMinimized, startReview]);
+  }, [open, status, isMinimized, startReview, scope]);
 
   useEffect(() => {
     if (!open && !isMinimized) {
@@ -231,8 +241,8 @@ export function CodeReviewModal({ open, onOpenChange, repoPath }: CodeReviewModa
     reset();
     // Use queueMicrotask to ensure reset() state updates are flushed
     // before startReview() checks the status (which must be 'idle')
-    queueMicrotask(() => startReview());
-  }, [reset, startReview, status]);
+    queueMicrotask(() => startReview(reviewScope));
+  }, [reset, startReview, status, reviewScope]);
 
   const handleConfirmRestart = useCallback(() => {
     setShowRestartConfirm(false);
@@ -240,8 +250,17 @@ export function CodeReviewModal({ open, onOpenChange, repoPath }: CodeReviewModa
     reset();
     // Use queueMicrotask to ensure reset() state updates are flushed
     // before startReview() checks the status (which must be 'idle')
-    queueMicrotask(() => startReview());
-  }, [reset, startReview]);
+    queueMicrotask(() => startReview(reviewScope));
+  }, [reset, startReview, reviewScope]);
+
+  const handleScopeChange = useCallback(
+    (nextScope: CodeReviewScope) => {
+      stopCodeReview();
+      reset();
+      queueMicrotask(() => startReview(nextScope));
+    },
+    [reset, startReview]
+  );
 
   const handleStop = useCallback(() => {
     stopCodeReview();
@@ -261,6 +280,19 @@ export function CodeReviewModal({ open, onOpenChange, repoPath }: CodeReviewModa
     [status, isCurrentRepo, handleMinimize, onOpenChange]
   );
 
+  const handleNavigateToFinding = useCallback(
+    (finding: ReviewFinding) => {
+      if (!reviewRepoPath) return;
+      navigateToFile({
+        path: `${reviewRepoPath}/${finding.file}`,
+        line: finding.startLine,
+        endLine: finding.endLine,
+      });
+      handleMinimize();
+    },
+    [reviewRepoPath, navigateToFile, handleMinimize]
+  );
+
   const handleContinueConversation = useCallback(() => {
     if (reviewSessionId) {
       requestContinue(reviewSessionId, codeReviewSettings.provider ?? undefined);
@@ -335,6 +367,13 @@ export function CodeReviewModal({ open, onOpenChange, repoPath }: CodeReviewModa
               </span>
             </DialogTitle>
             <DialogDescription>{statusText()}</DialogDescription>
+            {isCurrentRepo && (
+              <ReviewScopeSelect
+                repoPath={repoPath}
+                scope={reviewScope}
+                onChange={handleScopeChange}
+              />
+            )}
           </DialogHeader>
 
           <div
@@ -349,8 +388,27 @@ export function CodeReviewModal({ open, onOpenChange, repoPath }: CodeReviewModa
                     <AlertCircle className="h-4 w-4" />
                     <span>{error}</span>
                   </div>
+                ) : reviewMode === 'structured' && findings && reviewRepoPath ? (
+                  <ReviewFindingList
+                    findings={findings}
+                    repoPath={reviewRepoPath}
+                    sessionId={sessionId}
+                    onNavigate={handleNavigateToFinding}
+                  />
+                ) : reviewMode === 'structured' && content && status !== 'complete' ? (
+                  <pre className="whitespace-pre-wrap break-words font-mono text-xs text-muted-foreground">
+                    {content}
+                  </pre>
                 ) : content ? (
                   <div className="text-sm text-foreground select-text">
+                    {reviewMode === 'structured' && (
+                      <div className="mb-3 flex items-center gap-2 text-warning-foreground">
+                        <AlertTriangle className="h-4 w-4" />
+                        <span>
+                          {t('Could not read findings from the output, showing it as is')}
+                        </span>
+                      </div>
+                    )}
                     <Markdown
                       remarkPlugins={[remarkGfm, remarkBreaks]}
                       components={markdownComponents}
@@ -384,6 +442,7 @@ export function CodeReviewModal({ open, onOpenChange, repoPath }: CodeReviewModa
             {(codeReviewSettings.provider === 'claude-code' ||
               codeReviewSettings.provider === 'cursor-cli') &&
               status === 'complete' &&
+              reviewSessionId &&
               content && (
                 <Button variant="outline" onClick={handleContinueConversation}>
                   <MessageSquare className="h-4 w-4 mr-2" />
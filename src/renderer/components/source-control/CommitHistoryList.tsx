@@ -1,5 +1,6 @@
-import type { CommitFileChange, GitLogEntry } from '@shared/types';
+import type { CodeReviewScope, CommitFileChange, GitLogEntry, MergeConflict } from '@shared/types';
 import {
+  Cherry,
   Copy,
   FileEdit,
   FilePlus,
@@ -7,14 +8,20 @@ import {
   GitCommit,
   Loader2,
   RotateCcw,
+  ScanSearch,
   Undo2,
 } from 'lucide-react';
-import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { toastManager } from '@/components/ui/toast';
 import { Tooltip, TooltipPopup, TooltipTrigger } from '@/components/ui/tooltip';
 import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
+import { stopCodeReview, useCodeReviewContinueStore } from '@/stores/codeReviewContinue';
+import { useSettingsStore } from '@/stores/settings';
+import { CherryPickConflictEditor } from './CherryPickConflictEditor';
+import { CherryPickDialog } from './CherryPickDialog';
+import { CodeReviewModal } from './CodeReviewModal';
 import { type ResetMode, ResetModeDialog } from './ResetModeDialog';
 
 interface CommitHistoryListProps {
@@ -70,6 +77,51 @@ export function CommitHistoryList({
     open: boolean;
     commit: GitLogEntry | null;
   }>({ open: false, commit: null });
+  // Commits marked with Ctrl/Cmd+click for multi-commit cherry-picks
+  const [markedHashes, setMarkedHashes] = useState<Set<string>>(() => new Set());
+  const [cherryPickDialog, setCherryPickDialog] = useState<{
+    open: boolean;
+    commits: GitLogEntry[];
+  }>({ open: false, commits: [] });
+  const [cherryPickConflicts, setCherryPickConflicts] = useState<{
+    worktreePath: string;
+    branch: string | null;
+    conflicts: MergeConflict[];
+  } | null>(null);
+  const codeReviewEnabled = useSettingsStore((s) => s.codeReview.enabled);
+  const [reviewDialog, setReviewDialog] = useState<{
+    open: boolean;
+    scope: CodeReviewScope;
+  }>({ open: false, scope: { type: 'changes' } });
+
+  // Drop marks that scrolled out of the loaded history (e.g. after switching worktree)
+  const commitHashes = useMemo(() => new Set(commits.map((c) => c.hash)), [commits]);
+  useEffect(() => {
+    setMarkedHashes((prev) => {
+      const next = new Set([...prev].filter((hash) => commitHashes.has(hash)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [commitHashes]);
+
+  const handleCommitClick = useCallback(
+    (e: React.MouseEvent, hash: string) => {
+      if (e.metaKey || e.ctrlKey) {
+        setMarkedHashes((prev) => {
+          const next = new Set(prev);
+          if (next.has(hash)) {
+            next.delete(hash);
+          } else {
+            next.add(hash);
+          }
+          return next;
+        });
+        return;
+      }
+      setMarkedHashes((prev) => (prev.size === 0 ? prev : new Set()));
+      onCommitClick(hash);
+    },
+    [onCommitClick]
+  );
 
   const handleContextMenu = useCallback((e: React.MouseEvent, commit: GitLogEntry) => {
     e.preventDefault();
@@ -162,6 +214,33 @@ export function CommitHistoryList({
     setResetDialog({ open: false, commit: null });
   }, []);
 
+  const handleCherryPickClick = useCallback(() => {
+    if (!contextMenu.commit) return;
+    // Pick every marked commit when the clicked one is marked, oldest first
+    const picked = markedHashes.has(contextMenu.commit.hash)
+      ? commits.filter((c) => markedHashes.has(c.hash)).reverse()
+      : [contextMenu.commit];
+    setCherryPickDialog({ open: true, commits: picked });
+    closeContextMenu();
+  }, [contextMenu.commit, markedHashes, commits, closeContextMenu]);
+
+  const handleReviewClick = useCallback(() => {
+    if (!contextMenu.commit) return;
+    // Marked commits are reviewed as one range, from the oldest to the newest (history is newest first)
+    const marked = markedHashes.has(contextMenu.commit.hash)
+      ? commits.filter((c) => markedHashes.has(c.hash))
+      : [];
+    const scope: CodeReviewScope =
+      marked.length > 1
+        ? { type: 'range', from: marked[marked.length - 1].hash, to: marked[0].hash }
+        : { type: 'commit', hash: contextMenu.commit.hash };
+    // Replace any running or minimized review with the requested one
+    stopCodeReview();
+    useCodeReviewContinueStore.getState().resetReview();
+    setReviewDialog({ open: true, scope });
+    closeContextMenu();
+  }, [contextMenu.commit, markedHashes, commits, closeContextMenu]);
+
   // Adjust context menu position to prevent overflow
   useLayoutEffect(() => {
     if (!contextMenu.open || !contextMenuRef.current) return;
@@ -242,6 +321,7 @@ export function CommitHistoryList({
         <div className="space-y-0.5 p-2">
           {commits.map((commit) => {
             const isSelected = selectedHash === commit.hash;
+            const isMarked = markedHashes.has(commit.hash);
             const isExpanded = expandedCommitHash === commit.hash;
             return (
               <div key={commit.hash} className="border-b border-border/50 last:border-0">
@@ -249,9 +329,10 @@ export function CommitHistoryList({
                   <TooltipTrigger
                     className={cn(
                       'group flex w-full items-start rounded-sm px-3 py-2 text-left transition-colors',
-                      isSelected ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+                      isSelected ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50',
+                      isMarked && 'ring-1 ring-inset ring-primary/50'
                     )}
-                    onClick={() => onCommitClick(commit.hash)}
+                    onClick={(e) => handleCommitClick(e, commit.hash)}
                     onContextMenu={(e) => handleContextMenu(e, commit)}
                   >
                     {/* Message & Metadata */}
@@ -413,6 +494,16 @@ export function CommitHistoryList({
               {workdir && (
                 <>
                   <div className="my-1 h-px bg-border" />
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent/50"
+                    onClick={handleCherryPickClick}
+                  >
+                    <Cherry className="h-4 w-4" />
+                    {markedHashes.size > 1 && markedHashes.has(contextMenu.commit.hash)
+                      ? t('Cherry-pick {{count}} commits into...', { count: markedHashes.size })
+                      : t('Cherry-pick into...')}
+                  </button>
                   <button
                     type="button"
                     className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent/50"
@@ -421,6 +512,18 @@ export function CommitHistoryList({
                     <Undo2 className="h-4 w-4" />
                     {t('Revert commit')}
                   </button>
+                  {codeReviewEnabled && (
+                    <button
+                      type="button"
+                      className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent/50"
+                      onClick={handleReviewClick}
+                    >
+                      <ScanSearch className="h-4 w-4" />
+                      {markedHashes.size > 1 && markedHashes.has(contextMenu.commit.hash)
+                        ? t('Review marked commit range')
+                        : t('Review commit')}
+                    </button>
+                  )}
                   <button
                     type="button"
                     className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm text-destructive hover:bg-destructive/10"
@@ -446,6 +549,48 @@ export function CommitHistoryList({
           onCancel={handleResetCancel}
         />
       )}
+
+      {/* Cherry-pick dialog */}
+      {workdir && (
+        <CherryPickDialog
+          open={cherryPickDialog.open}
+          onOpenChange={(open) => setCherryPickDialog((prev) => ({ ...prev, open }))}
+          workdir={workdir}
+          commits={cherryPickDialog.commits}
+          onConflicts={(worktreePath, branch, conflicts) => {
+            setMarkedHashes(new Set());
+            setCherryPickConflicts({ worktreePath, branch, conflicts });
+          }}
+          onSuccess={() => setMarkedHashes(new Set())}
+        />
+      )}
+
+      {/* Code review of a commit or a marked range; mounted only while open so it
+          does not reset reviews that belong to the changes view */}
+      {workdir && reviewDialog.open && (
+        <CodeReviewModal
+          open
+          onOpenChange={(open) => {
+            if (open) return;
+            if (!useCodeReviewContinueStore.getState().isMinimized) {
+              useCodeReviewContinueStore.getState().resetReview();
+            }
+            setReviewDialog((prev) => ({ ...prev, open: false }));
+          }}
+          repoPath={workdir}
+          scope={reviewDialog.scope}
+        />
+      )}
+
+      {/* Cherry-pick conflict editor */}
+      {cherryPickConflicts && (
+        <CherryPickConflictEditor
+          worktreePath={cherryPickConflicts.worktreePath}
+          branch={cherryPickConflicts.branch}
+          conflicts={cherryPickConflicts.conflicts}
+          onClose={() => setCherryPickConflicts(null)}
+        />
+      )}
     </>
   );
 }
@@ -1,5 +1,7 @@
 import { DiffEditor } from '@monaco-editor/react';
 import type { FileChange, GitSubmodule } from '@shared/types';
+import { joinPath } from '@shared/utils/path';
+import { useQuery } from '@tanstack/react-query';
 import {
   ChevronDown,
   ChevronRight,
@@ -8,12 +10,12 @@ import {
   FileX2,
   FolderGit2,
   FoldVertical,
+  GitPullRequest,
   Loader2,
   MessageSquare,
   Plus,
   Send,
   Shrink,
-  X,
 } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { createRoot, type Root } from 'react-dom/client';
@@ -30,14 +32,27 @@ import {
 } from '@/components/ui/dialog';
 import { Empty, EmptyDescription, EmptyHeader, EmptyMedia } from '@/components/ui/empty';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { toastManager } from '@/components/ui/toast';
+import { useGitBranches } from '@/hooks/useGit';
+import { useBranchPullRequest, useSubmitPullRequestReview } from '@/hooks/usePullRequest';
 import { useFileChanges, useFileDiff } from '@/hooks/useSourceControl';
 import { useSubmoduleChanges, useSubmoduleFileDiff, useSubmodules } from '@/hooks/useSubmodules';
 import { useI18n } from '@/i18n';
 import { getXtermTheme, isTerminalThemeDark } from '@/lib/ghosttyTheme';
+import {
+  buildPullRequestReviewComments,
+  buildReviewMessage,
+  getAnchorText,
+  locateThread,
+  type ReviewAnchorLocation,
+  type ReviewThread,
+} from '@/lib/reviewThreads';
 import { cn } from '@/lib/utils';
 import { useActiveSessionId } from '@/stores/agentSessions';
+import { useReviewCommentsStore, useReviewThreads } from '@/stores/reviewComments';
 import { useSettingsStore } from '@/stores/settings';
 import { useTerminalWriteStore } from '@/stores/terminalWrite';
+import { ReviewThreadCard } from './ReviewThreadCard';
 
 type DiffEditorInstance = ReturnType<typeof monaco.editor.createDiffEditor>;
 
@@ -48,16 +63,6 @@ interface DiffReviewModalProps {
   onSend?: () => void;
 }
 
-interface CommentData {
-  id: string;
-  filePath: string;
-  submodulePath?: string; // 子模块路径，用于区分主仓库和子模块
-  startLine: number;
-  endLine: number;
-  text: string;
-  timestamp: Date;
-}
-
 // 扩展 FileChange 类型，支持子模块
 interface ExtendedFileChange extends FileChange {
   submodulePath?: string; // 子模块路径
@@ -166,7 +171,7 @@ interface SubmoduleGroupProps {
   onToggle: () => void;
   selectedFile: ExtendedFileChange | null;
   onSelectFile: (file: ExtendedFileChange) => void;
-  allComments: CommentData[];
+  threads: ReviewThread[];
 }
 
 function SubmoduleGroup({
@@ -176,12 +181,12 @@ function SubmoduleGroup({
   onToggle,
   selectedFile,
   onSelectFile,
-  allComments,
+  threads,
 }: SubmoduleGroupProps) {
   const { data: changes } = useSubmoduleChanges(rootPath, submodule.path);
 
-  const submoduleCommentCount = allComments.filter(
-    (c) => c.submodulePath === submodule.path
+  const submoduleCommentCount = threads.filter(
+    (c) => c.submodulePath === submodule.path && !c.resolved
   ).length;
 
   return (
@@ -213,8 +218,8 @@ function SubmoduleGroup({
       {expanded && changes && changes.length > 0 && (
         <div className="pl-4">
           {changes.map((file) => {
-            const fileCommentCount = allComments.filter(
-              (c) => c.filePath === file.path && c.submodulePath === submodule.path
+            const fileCommentCount = threads.filter(
+              (c) => c.filePath === file.path && c.submodulePath === submodule.path && !c.resolved
             ).length;
             const extendedFile: ExtendedFileChange = {
               ...file,
@@ -257,37 +262,6 @@ function SubmoduleGroup({
   );
 }
 
-// Comment Display Component
-function CommentItem({ comment, onDelete }: { comment: CommentData; onDelete: () => void }) {
-  const { t } = useI18n();
-  const lineDisplay =
-    comment.startLine === comment.endLine
-      ? `L${comment.startLine}`
-      : `L${comment.startLine}-L${comment.endLine}`;
-
-  return (
-    <div className="flex gap-3 group/item p-2 rounded hover:bg-muted/50">
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2 mb-0.5">
-          <span className="text-xs font-medium text-muted-foreground">{lineDisplay}</span>
-          <span className="text-xs text-muted-foreground">
-            {comment.timestamp.toLocaleTimeString()}
-          </span>
-          <button
-            type="button"
-            className="ml-auto p-1 rounded hover:bg-muted opacity-0 group-hover/item:opacity-100 transition-opacity"
-            onClick={onDelete}
-            title={t('Delete')}
-          >
-            <X className="h-3 w-3 text-muted-foreground" />
-          </button>
-        </div>
-        <p className="text-sm whitespace-pre-wrap">{comment.text}</p>
-      </div>
-    </div>
-  );
-}
-
 export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffReviewModalProps) {
   const { t } = useI18n();
   const sessionId = useActiveSessionId(rootPath);
@@ -296,7 +270,8 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
   const focus = useTerminalWriteStore((state) => state.focus);
 
   const [selectedFile, setSelectedFile] = useState<ExtendedFileChange | null>(null);
-  const [allComments, setAllComments] = useState<CommentData[]>([]);
+  const threads = useReviewThreads(rootPath);
+  const { addThread, addReply, setResolved, deleteThread } = useReviewCommentsStore();
   const [isThemeReady, setIsThemeReady] = useState(false);
   const [editorReady, setEditorReady] = useState(false);
   const [expandedSubmodules, setExpandedSubmodules] = useState<Set<string>>(new Set());
@@ -370,13 +345,35 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
     return changesData.changes;
   }, [changesData]);
 
-  // Comments for current file
-  const currentFileComments = useMemo(() => {
+  // HEAD when a thread is created, so reviewers can tell which round it belongs to
+  const { data: headCommit = null } = useQuery({
+    queryKey: ['git', 'head', rootPath],
+    queryFn: async () => {
+      const [head] = await window.electronAPI.git.getLog(rootPath!, 1);
+      return head?.hash ?? null;
+    },
+    enabled: open && !!rootPath,
+  });
+
+  // Threads for current file
+  const currentFileThreads = useMemo(() => {
     if (!selectedFile) return [];
-    return allComments.filter(
+    return threads.filter(
       (c) => c.filePath === selectedFile.path && c.submodulePath === selectedFile.submodulePath
     );
-  }, [allComments, selectedFile]);
+  }, [threads, selectedFile]);
+
+  // Where each thread of the current file sits in the modified content
+  const threadLocations = useMemo(() => {
+    const locations = new Map<string, ReviewAnchorLocation>();
+    if (!diff || diff.isBinary) return locations;
+    for (const thread of currentFileThreads) {
+      locations.set(thread.id, locateThread(thread, diff.modified));
+    }
+    return locations;
+  }, [currentFileThreads, diff]);
+
+  const unresolvedThreads = useMemo(() => threads.filter((c) => !c.resolved), [threads]);
 
   // Define theme on mount
   useEffect(() => {
@@ -420,7 +417,6 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
       modelRef.current = { original: null, modified: null };
 
       setSelectedFile(null);
-      setAllComments([]);
       setEditorReady(false);
       setExpandedSubmodules(new Set());
       setHoveredLine(null);
@@ -496,35 +492,50 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
     }
   }, [hideUnchangedRegions]);
 
-  // Handle add comment (store locally, not send immediately)
+  // Handle add comment (saved for the worktree, not sent immediately)
   const handleAddComment = useCallback(
     (startLine: number, endLine: number, text: string) => {
-      if (!selectedFile) return;
+      if (!selectedFile || !rootPath || !text) return;
 
-      const newComment: CommentData = {
-        id: crypto.randomUUID(),
+      addThread(rootPath, {
         filePath: selectedFile.path,
         submodulePath: selectedFile.submodulePath,
         startLine,
         endLine,
+        anchorText: diff ? getAnchorText(diff.modified, startLine, endLine) : '',
+        commit: headCommit,
         text,
-        timestamp: new Date(),
-      };
-
-      setAllComments((prev) => [...prev, newComment]);
+      });
       setCommentingLine(null);
     },
-    [selectedFile]
+    [selectedFile, rootPath, diff, headCommit, addThread]
   );
 
-  // Handle delete comment
-  const handleDeleteComment = useCallback((id: string) => {
-    setAllComments((prev) => prev.filter((c) => c.id !== id));
-  }, []);
+  const revealThread = useCallback(
+    (thread: ReviewThread) => {
+      const location = threadLocations.get(thread.id);
+      if (!location || location.status === 'outdated') return;
+      const modifiedEditor = editorRef.current?.getModifiedEditor();
+      modifiedEditor?.revealLineInCenter(location.startLine);
+    },
+    [threadLocations]
+  );
 
-  // Store delete handler in ref for event delegation
-  const deleteHandlerRef = useRef(handleDeleteComment);
-  deleteHandlerRef.current = handleDeleteComment;
+  const renderThread = useCallback(
+    (thread: ReviewThread, onSelect?: () => void) =>
+      rootPath ? (
+        <ReviewThreadCard
+          key={thread.id}
+          thread={thread}
+          location={threadLocations.get(thread.id) ?? null}
+          onReply={(text) => addReply(rootPath, thread.id, text)}
+          onToggleResolved={() => setResolved(rootPath, thread.id, !thread.resolved)}
+          onDelete={() => deleteThread(rootPath, thread.id)}
+          onSelect={onSelect}
+        />
+      ) : null,
+    [rootPath, threadLocations, addReply, setResolved, deleteThread]
+  );
 
   // Line comment button widget - hover over gutter
   useEffect(() => {
@@ -833,7 +844,7 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
     };
   }, [editorReady, open, selectedFile, t, handleAddComment]);
 
-  // Display inline comments using viewZones
+  // Display inline threads using viewZones (outdated threads only appear in the side list)
   const viewZoneIdsRef = useRef<string[]>([]);
 
   useEffect(() => {
@@ -842,85 +853,58 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
     if (!editor) return;
 
     const modifiedEditor = editor.getModifiedEditor();
-    const commentsForFile = currentFileComments;
-
-    // Clear existing view zones
-    modifiedEditor.changeViewZones((accessor) => {
-      for (const id of viewZoneIdsRef.current) {
-        accessor.removeZone(id);
-      }
-      viewZoneIdsRef.current = [];
-    });
 
-    if (commentsForFile.length === 0) return;
-
-    // Group comments by end line
-    const commentsByLine = new Map<number, CommentData[]>();
-    for (const comment of commentsForFile) {
-      const line = comment.endLine;
-      const existing = commentsByLine.get(line) || [];
-      commentsByLine.set(line, [...existing, comment]);
+    // Group threads by the line they currently end on
+    const threadsByLine = new Map<number, ReviewThread[]>();
+    for (const thread of currentFileThreads) {
+      const location = threadLocations.get(thread.id);
+      if (!location || location.status === 'outdated') continue;
+      const existing = threadsByLine.get(location.endLine) || [];
+      threadsByLine.set(location.endLine, [...existing, thread]);
     }
 
-    // Add view zones for each line with comments
+    const roots: Root[] = [];
+    const observers: ResizeObserver[] = [];
+
     modifiedEditor.changeViewZones((accessor) => {
-      for (const [lineNumber, comments] of commentsByLine) {
+      for (const [lineNumber, lineThreads] of threadsByLine) {
         const domNode = document.createElement('div');
         domNode.className = 'inline-comment-zone';
         domNode.style.cssText = 'padding: 4px 8px; position: relative; z-index: 10;';
 
-        const container = document.createElement('div');
-        container.className = 'space-y-2';
-
-        for (const comment of comments) {
-          const commentDiv = document.createElement('div');
-          commentDiv.className =
-            'flex items-start gap-2 rounded-md border bg-muted/50 p-2 text-sm max-w-md';
-
-          const lineRef =
-            comment.startLine === comment.endLine
-              ? `L${comment.startLine}`
-              : `L${comment.startLine}-L${comment.endLine}`;
-
-          commentDiv.innerHTML = `
-            <svg class="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M7.9 20A9 9 0 1 0 4 16.1L2 22Z"/></svg>
-            <div class="flex-1 min-w-0">
-              <div class="flex items-center gap-2 mb-0.5">
-                <span class="text-xs font-medium text-primary">${lineRef}</span>
-              </div>
-              <p class="whitespace-pre-wrap text-foreground line-clamp-3">${comment.text.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</p>
-            </div>
-          `;
-
-          // Create delete button
-          const deleteBtn = document.createElement('button');
-          deleteBtn.type = 'button';
-          deleteBtn.className = 'p-1 rounded hover:bg-destructive/20 transition-colors shrink-0';
-          deleteBtn.title = t('Delete');
-          deleteBtn.innerHTML = `<svg class="h-3 w-3 text-muted-foreground hover:text-destructive" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>`;
-
-          const commentId = comment.id;
-          deleteBtn.onclick = () => deleteHandlerRef.current(commentId);
+        const content = document.createElement('div');
+        content.className = 'space-y-2';
+        domNode.appendChild(content);
 
-          commentDiv.appendChild(deleteBtn);
-          container.appendChild(commentDiv);
-        }
-
-        domNode.appendChild(container);
-
-        const heightInLines = Math.max(2, comments.length * 3);
-
-        const zoneId = accessor.addZone({
+        const zone: monaco.editor.IViewZone = {
           afterLineNumber: lineNumber,
-          heightInLines,
+          heightInPx: lineThreads.length * 48,
           domNode,
-        });
-
+        };
+        const zoneId = accessor.addZone(zone);
         viewZoneIdsRef.current.push(zoneId);
+
+        const root = createRoot(content);
+        root.render(lineThreads.map((thread) => renderThread(thread)));
+        roots.push(root);
+
+        // Cards grow when expanded or replied to; keep the zone height in sync
+        const observer = new ResizeObserver(() => {
+          const height = content.offsetHeight + 8;
+          if (height === zone.heightInPx) return;
+          zone.heightInPx = height;
+          modifiedEditor.changeViewZones((a) => a.layoutZone(zoneId));
+        });
+        observer.observe(content);
+        observers.push(observer);
       }
     });
 
     return () => {
+      for (const observer of observers) observer.disconnect();
+      queueMicrotask(() => {
+        for (const root of roots) root.unmount();
+      });
       const editor = editorRef.current;
       if (!editor) return;
       try {
@@ -936,7 +920,7 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
         viewZoneIdsRef.current = [];
       }
     };
-  }, [editorReady, open, selectedFile, currentFileComments, t]);
+  }, [editorReady, open, selectedFile, currentFileThreads, threadLocations, renderThread]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -960,9 +944,9 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
     };
   }, []);
 
-  // Send all comments
-  const handleSendAllComments = useCallback(() => {
-    if (!sessionId || allComments.length === 0) return;
+  // Send unresolved threads; they stay saved until resolved so the next round can follow up
+  const handleSendUnresolved = useCallback(() => {
+    if (!sessionId || unresolvedThreads.length === 0) return;
 
     const writer = useTerminalWriteStore.getState().writers.get(sessionId);
     if (!writer) {
@@ -970,39 +954,79 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
       return;
     }
 
-    // Group comments by file (including submodule path)
-    const byFile = new Map<string, CommentData[]>();
-    for (const comment of allComments) {
-      const key = comment.submodulePath
-        ? `${comment.submodulePath}/${comment.filePath}`
-        : comment.filePath;
-      const existing = byFile.get(key) || [];
-      byFile.set(key, [...existing, comment]);
-    }
-
-    // Build message
-    const lines: string[] = [];
-    for (const [filePath, comments] of byFile) {
-      for (const c of comments) {
-        const lineRef =
-          c.startLine === c.endLine ? `L${c.startLine}` : `L${c.startLine}-L${c.endLine}`;
-        lines.push(`${filePath}#${lineRef}`);
-        lines.push(`User comment: "${c.text}"`);
-        lines.push('');
-      }
-    }
-
-    const message = lines.join('\n').trim();
+    const message = buildReviewMessage(
+      unresolvedThreads,
+      (thread) => threadLocations.get(thread.id) ?? null
+    );
     write(sessionId, `${message}\r`);
 
-    setAllComments([]);
     onOpenChange(false);
     onSend?.();
 
     setTimeout(() => {
       focus(sessionId);
     }, 100);
-  }, [sessionId, allComments, write, onOpenChange, onSend, focus]);
+  }, [sessionId, unresolvedThreads, threadLocations, write, onOpenChange, onSend, focus]);
+
+  // Post unresolved threads as one review on the branch's open PR
+  const { data: branches } = useGitBranches(open ? (rootPath ?? null) : null);
+  const currentBranch = branches?.find((b) => b.current)?.name ?? null;
+  const { data: pullRequest } = useBranchPullRequest(
+    open ? (rootPath ?? null) : null,
+    currentBranch
+  );
+  const submitReviewMutation = useSubmitPullRequestReview();
+  const canPostToPullRequest = pullRequest?.state === 'OPEN';
+
+  const handlePostToPullRequest = useCallback(async () => {
+    if (!rootPath || !pullRequest || unresolvedThreads.length === 0) return;
+
+    // Threads of other files are located against their content on disk
+    const locations = new Map(threadLocations);
+    for (const thread of unresolvedThreads) {
+      if (thread.submodulePath || locations.has(thread.id)) continue;
+      try {
+        const { content } = await window.electronAPI.file.read(joinPath(rootPath, thread.filePath));
+        locations.set(thread.id, locateThread(thread, content));
+      } catch {
+        // Deleted file: the thread can't be placed on the diff
+        locations.set(thread.id, {
+          status: 'outdated',
+          startLine: thread.startLine,
+          endLine: thread.endLine,
+        });
+      }
+    }
+
+    const comments = buildPullRequestReviewComments(
+      unresolvedThreads,
+      (thread) => locations.get(thread.id) ?? null
+    );
+    if (comments.length === 0) {
+      toastManager.add({
+        title: t('Nothing to post'),
+        description: t('Only unresolved comments on current code can be posted'),
+        type: 'info',
+        timeout: 3000,
+      });
+      return;
+    }
+
+    submitReviewMutation.mutate(
+      { workdir: rootPath, prNumber: pullRequest.number, comments },
+      {
+        onSuccess: () =>
+          toastManager.add({
+            title: t('Posted {{count}} comments to #{{number}}', {
+              count: comments.length,
+              number: pullRequest.number,
+            }),
+            type: 'success',
+            timeout: 3000,
+          }),
+      }
+    );
+  }, [rootPath, pullRequest, unresolvedThreads, threadLocations, submitReviewMutation, t]);
 
   // 切换子模块展开/折叠
   const toggleSubmodule = useCallback((submodulePath: string) => {
@@ -1018,7 +1042,7 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
   }, []);
 
   const isEmpty = mainRepoChanges.length === 0 && submodulesWithChanges.length === 0;
-  const hasComments = allComments.length > 0;
+  const hasUnresolved = unresolvedThreads.length > 0;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange} disablePointerDismissal>
@@ -1052,9 +1076,9 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
                 {t('files')}
               </span>
             )}
-            {hasComments && (
+            {hasUnresolved && (
               <span className="rounded bg-primary/20 px-1.5 py-0.5 text-xs font-normal text-primary">
-                {allComments.length} {t('comments')}
+                {t('{{count}} unresolved', { count: unresolvedThreads.length })}
               </span>
             )}
           </DialogTitle>
@@ -1079,8 +1103,8 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
                 <div className="py-1">
                   {/* 主仓库文件 */}
                   {mainRepoChanges.map((file) => {
-                    const fileCommentCount = allComments.filter(
-                      (c) => c.filePath === file.path && !c.submodulePath
+                    const fileCommentCount = threads.filter(
+                      (c) => c.filePath === file.path && !c.submodulePath && !c.resolved
                     ).length;
                     return (
                       <button
@@ -1122,7 +1146,7 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
                       onToggle={() => toggleSubmodule(submodule.path)}
                       selectedFile={selectedFile}
                       onSelectFile={setSelectedFile}
-                      allComments={allComments}
+                      threads={threads}
                     />
                   ))}
                 </div>
@@ -1130,20 +1154,16 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
             </ScrollArea>
 
             {/* Comments list for current file */}
-            {currentFileComments.length > 0 && (
+            {currentFileThreads.length > 0 && (
               <div className="border-t">
                 <div className="h-9 flex items-center px-3 border-b text-sm font-medium text-muted-foreground">
-                  {t('Comments')} ({currentFileComments.length})
+                  {t('Comments')} ({currentFileThreads.length})
                 </div>
-                <ScrollArea className="max-h-48">
+                <ScrollArea className="max-h-72">
                   <div className="p-2 space-y-1">
-                    {currentFileComments.map((comment) => (
-                      <CommentItem
-                        key={comment.id}
-                        comment={comment}
-                        onDelete={() => handleDeleteComment(comment.id)}
-                      />
-                    ))}
+                    {currentFileThreads.map((thread) =>
+                      renderThread(thread, () => revealThread(thread))
+                    )}
                   </div>
                 </ScrollArea>
               </div>
@@ -1239,9 +1259,24 @@ export function DiffReviewModal({ open, onOpenChange, rootPath, onSend }: DiffRe
             {t('Hover over line numbers or select code to add comments')}
           </div>
           <DialogClose render={<Button variant="outline">{t('Close')}</Button>} />
-          <Button onClick={handleSendAllComments} disabled={!hasComments || !sessionId}>
+          {canPostToPullRequest && (
+            <Button
+              variant="outline"
+              onClick={handlePostToPullRequest}
+              disabled={!hasUnresolved || submitReviewMutation.isPending}
+              title={pullRequest.title}
+            >
+              {submitReviewMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+              ) : (
+                <GitPullRequest className="h-4 w-4 mr-1.5" />
+              )}
+              {t('Post to #{{number}}', { number: pullRequest.number })}
+            </Button>
+          )}
+          <Button onClick={handleSendUnresolved} disabled={!hasUnresolved || !sessionId}>
             <Send className="h-4 w-4 mr-1.5" />
-            {t('Send')} {hasComments && `(${allComments.length})`}
+            {t('Send unresolved')} {hasUnresolved && `(${unresolvedThreads.length})`}
           </Button>
         </DialogFooter>
       </DialogPopup>
@@ -17,6 +17,7 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { createRoot, type Root } from 'react-dom/client';
 import { CommentForm } from '@/components/files/EditorLineComment';
 import { monaco } from '@/components/files/monacoSetup';
+import { useReviewFindingMarkers } from '@/components/files/useReviewFindingMarkers';
 import {
   Empty,
   EmptyDescription,
@@ -116,6 +117,7 @@ interface DiffViewerProps {
   skipFetch?: boolean;
   isCommitView?: boolean; // Add flag to indicate commit history view
   commitHash?: string | null; // Used to scope Monaco models in commit view
+  viewLabel?: string; // Replaces the (staged)/(commit history) header label
 }
 
 export function DiffViewer({
@@ -130,6 +132,7 @@ export function DiffViewer({
   skipFetch = false,
   isCommitView = false,
   commitHash = null,
+  viewLabel,
 }: DiffViewerProps) {
   const sessionId = useActiveSessionId(rootPath);
   const { t } = useI18n();
@@ -404,6 +407,14 @@ export function DiffViewer({
     );
   }, [editorReady, commentingLine, sessionId, file, handleSubmitComment]);
 
+  // Findings of the last structured code review, on the working tree side only
+  useReviewFindingMarkers({
+    editor: editorReady ? (editorRef.current?.getModifiedEditor() ?? null) : null,
+    rootPath,
+    relativePath: file?.path ?? null,
+    enabled: !isCommitView,
+  });
+
   // Cleanup comment state when file changes
   // biome-ignore lint/correctness/useExhaustiveDependencies: intentionally trigger cleanup when file changes
   useEffect(() => {
@@ -1096,7 +1107,9 @@ export function DiffViewer({
       <div className="flex h-10 shrink-0 items-center justify-between border-b px-4">
         <div className="flex items-center">
           <span className="text-sm font-medium">{file.path}</span>
-          {isCommitView ? (
+          {viewLabel ? (
+            <span className="ml-2 text-xs text-muted-foreground">{viewLabel}</span>
+          ) : isCommitView ? (
             <span className="ml-2 text-xs text-muted-foreground">{t('(commit history)')}</span>
           ) : (
             <span className="ml-2 text-xs text-muted-foreground">
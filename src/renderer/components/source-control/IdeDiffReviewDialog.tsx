@@ -0,0 +1,80 @@
+import { getPathBasename } from '@shared/utils/path';
+import { Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useI18n } from '@/i18n';
+import { useIdeDiffStore } from '@/stores/ideDiff';
+import { DiffViewer } from './DiffViewer';
+
+/**
+ * Shows edits proposed by Claude Code (openDiff) and answers the tool call
+ * with the user's decision.
+ */
+export function IdeDiffReviewDialog() {
+  const { t } = useI18n();
+  const review = useIdeDiffStore((s) => s.reviews[0]);
+  const pendingCount = useIdeDiffStore((s) => s.reviews.length);
+  const removeReview = useIdeDiffStore((s) => s.removeReview);
+
+  if (!review) return null;
+
+  const fileName = getPathBasename(review.filePath);
+  const rootPath = review.filePath.slice(0, review.filePath.length - fileName.length - 1);
+
+  const decide = (accepted: boolean) => {
+    window.electronAPI.mcp.sendToolResponse({
+      requestId: review.requestId,
+      result: accepted ? { accepted: true, contents: review.newContents } : { accepted: false },
+    });
+    removeReview(review.requestId);
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && decide(false)}>
+      <DialogPopup className="flex h-[85vh] max-w-[90vw] flex-col" showCloseButton={false}>
+        <DialogHeader>
+          <DialogTitle>{t('Review proposed edit')}</DialogTitle>
+          <DialogDescription className="truncate">
+            {review.filePath}
+            {pendingCount > 1 && ` · ${t('{{count}} more pending', { count: pendingCount - 1 })}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 border-y">
+          <DiffViewer
+            key={review.requestId}
+            rootPath={rootPath}
+            file={{ path: fileName, staged: false }}
+            diff={{
+              path: fileName,
+              original: review.originalContents,
+              modified: review.newContents,
+            }}
+            skipFetch
+            isCommitView
+            commitHash={review.requestId}
+            viewLabel={review.tabName}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => decide(false)}>
+            <X className="h-4 w-4" />
+            {t('Reject')}
+          </Button>
+          <Button onClick={() => decide(true)}>
+            <Check className="h-4 w-4" />
+            {t('Accept')}
+          </Button>
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
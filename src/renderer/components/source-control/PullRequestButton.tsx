@@ -0,0 +1,50 @@
+import { GitPullRequestArrow } from 'lucide-react';
+import { useState } from 'react';
+import { PullRequestBadge } from '@/components/git/PullRequestBadge';
+import { useBranchPullRequest, useGhCliStatus } from '@/hooks/usePullRequest';
+import { useI18n } from '@/i18n';
+import { PullRequestDialog } from './PullRequestDialog';
+
+interface PullRequestButtonProps {
+  workdir: string;
+  branch: string | null;
+}
+
+/**
+ * Shows the PR of the current branch (or a create action) when gh is available.
+ */
+export function PullRequestButton({ workdir, branch }: PullRequestButtonProps) {
+  const { t } = useI18n();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { data: ghStatus } = useGhCliStatus(workdir);
+  const { data: pullRequest } = useBranchPullRequest(workdir, branch);
+
+  if (!branch || !ghStatus?.authenticated) return null;
+
+  return (
+    <>
+      {pullRequest ? (
+        <PullRequestBadge
+          pullRequest={pullRequest}
+          className="px-1.5 py-1"
+          onClick={() => setDialogOpen(true)}
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDialogOpen(true)}
+          className="flex items-center rounded-md px-1.5 py-1 text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+          title={t('Create pull request')}
+        >
+          <GitPullRequestArrow className="h-3.5 w-3.5" />
+        </button>
+      )}
+      <PullRequestDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        workdir={workdir}
+        branch={branch}
+      />
+    </>
+  );
+}
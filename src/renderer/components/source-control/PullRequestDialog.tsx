@@ -0,0 +1,555 @@
+import type { PullRequestCheck, PullRequestMergeMethod } from '@shared/types';
+import {
+  CheckCircle2,
+  CircleDashed,
+  CircleMinus,
+  ExternalLink,
+  Loader2,
+  MessageSquare,
+  Sparkles,
+  XCircle,
+} from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { PullRequestBadge } from '@/components/git/PullRequestBadge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectItem,
+  SelectPopup,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { toastManager } from '@/components/ui/toast';
+import { useGitBranches } from '@/hooks/useGit';
+import {
+  useBranchPullRequest,
+  useClosePullRequest,
+  useCreatePullRequest,
+  useGhCliStatus,
+  useMergePullRequest,
+  usePullRequestDetails,
+  usePullRequestDiff,
+} from '@/hooks/usePullRequest';
+import { useI18n } from '@/i18n';
+import { getIssueReference } from '@/lib/todoTasks';
+import { cn } from '@/lib/utils';
+import { useSettingsStore } from '@/stores/settings';
+
+interface PullRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workdir: string;
+  branch: string;
+}
+
+const CHECK_ICONS: Record<PullRequestCheck['state'], { Icon: typeof CheckCircle2; color: string }> =
+  {
+    success: { Icon: CheckCircle2, color: 'text-emerald-600 dark:text-emerald-400' },
+    failure: { Icon: XCircle, color: 'text-red-600 dark:text-red-400' },
+    pending: { Icon: CircleDashed, color: 'text-yellow-600 dark:text-yellow-400' },
+    skipped: { Icon: CircleMinus, color: 'text-muted-foreground' },
+    neutral: { Icon: CircleMinus, color: 'text-muted-foreground' },
+  };
+
+function getDiffLineClass(line: string): string {
+  if (line.startsWith('diff --git')) return 'mt-3 font-semibold text-foreground';
+  if (line.startsWith('@@')) return 'text-blue-600 dark:text-blue-400';
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-muted-foreground';
+  if (line.startsWith('+')) return 'bg-emerald-500/10 text-emerald-700 dark:text-emerald-300';
+  if (line.startsWith('-')) return 'bg-red-500/10 text-red-700 dark:text-red-300';
+  return 'text-muted-foreground';
+}
+
+export function PullRequestDialog({ open, onOpenChange, workdir, branch }: PullRequestDialogProps) {
+  const { t } = useI18n();
+  const { data: ghStatus, isLoading: ghStatusLoading } = useGhCliStatus(open ? workdir : null);
+  const { data: pullRequest, isLoading: pullRequestLoading } = useBranchPullRequest(
+    open ? workdir : null,
+    branch
+  );
+  const isLoading = ghStatusLoading || pullRequestLoading;
+  const [creatingNew, setCreatingNew] = useState(false);
+
+  useEffect(() => {
+    if (open) setCreatingNew(false);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="sm:max-w-3xl">
+        {isLoading ? (
+          <DialogPanel className="flex h-40 items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </DialogPanel>
+        ) : ghStatus && !ghStatus.authenticated ? (
+          <DialogPanel className="flex h-40 flex-col items-center justify-center gap-1 text-sm">
+            <span>
+              {ghStatus.installed
+                ? t('GitHub CLI not authenticated')
+                : t('GitHub CLI not installed')}
+            </span>
+            {ghStatus.installed && (
+              <span className="text-muted-foreground">
+                {t('Please authenticate with GitHub CLI:')}{' '}
+                <code className="rounded bg-muted px-1">gh auth login</code>
+              </span>
+            )}
+          </DialogPanel>
+        ) : pullRequest && !creatingNew ? (
+          <PullRequestView
+            workdir={workdir}
+            prNumber={pullRequest.number}
+            // Once merged or closed, further work on the branch goes into a new PR
+            onCreateNew={pullRequest.state !== 'OPEN' ? () => setCreatingNew(true) : undefined}
+          />
+        ) : (
+          <CreatePullRequestForm
+            workdir={workdir}
+            branch={branch}
+            onCreated={() => {
+              setCreatingNew(false);
+              toastManager.add({
+                title: t('Pull request created'),
+                type: 'success',
+                timeout: 3000,
+              });
+            }}
+          />
+        )}
+      </DialogPopup>
+    </Dialog>
+  );
+}
+
+function CreatePullRequestForm({
+  workdir,
+  branch,
+  onCreated,
+}: {
+  workdir: string;
+  branch: string;
+  onCreated: () => void;
+}) {
+  const { t } = useI18n();
+  const { commitMessageGenerator, aiPerformance } = useSettingsStore();
+  const { data: branches = [] } = useGitBranches(workdir);
+  const createMutation = useCreatePullRequest();
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [base, setBase] = useState('');
+  const [draft, setDraft] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  // Issue of the todo task this worktree was created for
+  const [linkedIssue, setLinkedIssue] = useState<number | null>(null);
+  const [referenceIssue, setReferenceIssue] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI.todo
+      .getTaskByWorktree(workdir)
+      .then((task) => {
+        if (!cancelled) setLinkedIssue(task?.issueNumber ?? null);
+      })
+      .catch(() => {
+        // No linked task
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workdir]);
+
+  const defaultBase = useMemo(() => {
+    const remoteNames = branches.map((b) => b.name.replace(/^remotes\/origin\//, ''));
+    return (
+      remoteNames.find((name) => name === 'main') ??
+      remoteNames.find((name) => name === 'master') ??
+      'main'
+    );
+  }, [branches]);
+
+  useEffect(() => {
+    setBase((current) => current || defaultBase);
+  }, [defaultBase]);
+
+  const handleGenerate = async () => {
+    if (isGenerating || !base.trim()) return;
+    setIsGenerating(true);
+    try {
+      const result = await window.electronAPI.git.generatePullRequestDescription(workdir, {
+        base: base.trim(),
+        maxDiffLines: commitMessageGenerator.maxDiffLines,
+        timeout: commitMessageGenerator.timeout,
+        provider: commitMessageGenerator.provider,
+        model: commitMessageGenerator.model,
+        reasoningEffort: commitMessageGenerator.reasoningEffort,
+        bareEnabled: aiPerformance.bareEnabled,
+        effortEnabled: aiPerformance.effortEnabled,
+        effortLevel: aiPerformance.effortLevel,
+      });
+      if (result.success) {
+        setTitle(result.title ?? '');
+        setBody(result.body ?? '');
+      } else {
+        toastManager.add({
+          title: t('Failed to generate description'),
+          description: result.error === 'timeout' ? t('Generation timed out') : result.error,
+          type: 'error',
+          timeout: 5000,
+        });
+      }
+    } catch (error) {
+      toastManager.add({
+        title: t('Failed to generate description'),
+        description: error instanceof Error ? error.message : String(error),
+        type: 'error',
+        timeout: 5000,
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const canCreate = !!title.trim() && !!base.trim() && !createMutation.isPending;
+
+  const handleCreate = () => {
+    if (!canCreate) return;
+    let finalBody = body.trim();
+    const reference =
+      linkedIssue !== null && referenceIssue ? getIssueReference(finalBody, linkedIssue) : null;
+    if (reference) {
+      finalBody = finalBody ? `${finalBody}\n\n${reference}` : reference;
+    }
+    createMutation.mutate(
+      {
+        workdir,
+        branch,
+        options: { title: title.trim(), body: finalBody, base: base.trim(), draft },
+      },
+      { onSuccess: onCreated }
+    );
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{t('Create pull request')}</DialogTitle>
+        <DialogDescription>
+          {t('Push {{branch}} and open a pull request on GitHub.', { branch })}
+        </DialogDescription>
+      </DialogHeader>
+      <DialogPanel className="space-y-3">
+        <div className="flex items-center gap-2">
+          <span className="shrink-0 text-sm text-muted-foreground">{t('Base branch')}</span>
+          <Input value={base} onChange={(e) => setBase(e.target.value)} className="w-48" />
+          <div className="flex-1" />
+          {commitMessageGenerator.enabled && (
+            <Button variant="outline" size="sm" onClick={handleGenerate} disabled={isGenerating}>
+              {isGenerating ? (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Sparkles className="mr-1.5 h-3.5 w-3.5" />
+              )}
+              {t('Generate with AI')}
+            </Button>
+          )}
+        </div>
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder={t('Title')}
+          autoFocus
+        />
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder={t('Description (Markdown)')}
+          className="min-h-48 font-mono text-xs"
+        />
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={draft} onCheckedChange={(checked) => setDraft(checked === true)} />
+          <span>{t('Create as draft')}</span>
+        </label>
+        {linkedIssue !== null && (
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={referenceIssue}
+              onCheckedChange={(checked) => setReferenceIssue(checked === true)}
+            />
+            <span>{t('Close issue #{{number}} when merged', { number: linkedIssue })}</span>
+          </label>
+        )}
+      </DialogPanel>
+      <DialogFooter variant="bare">
+        <DialogClose render={<Button variant="outline" />}>{t('Cancel')}</DialogClose>
+        <Button onClick={handleCreate} disabled={!canCreate}>
+          {createMutation.isPending && <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />}
+          {t('Create pull request')}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+function PullRequestView({
+  workdir,
+  prNumber,
+  onCreateNew,
+}: {
+  workdir: string;
+  prNumber: number;
+  onCreateNew?: () => void;
+}) {
+  const { t } = useI18n();
+  const { data: details, isLoading, error } = usePullRequestDetails(workdir, prNumber);
+  const [tab, setTab] = useState('checks');
+  const { data: diff, isLoading: diffLoading } = usePullRequestDiff(
+    tab === 'diff' ? workdir : null,
+    prNumber
+  );
+  const mergeMutation = useMergePullRequest();
+  const closeMutation = useClosePullRequest();
+  const [mergeMethod, setMergeMethod] = useState<PullRequestMergeMethod>('squash');
+
+  const mergeMethodLabels: Record<PullRequestMergeMethod, string> = {
+    squash: t('Squash and merge'),
+    merge: t('Create a merge commit'),
+    rebase: t('Rebase and merge'),
+  };
+
+  if (isLoading || !details) {
+    return (
+      <DialogPanel className="flex h-40 items-center justify-center text-sm text-muted-foreground">
+        {error ? (
+          error instanceof Error ? (
+            error.message
+          ) : (
+            String(error)
+          )
+        ) : (
+          <Loader2 className="h-5 w-5 animate-spin" />
+        )}
+      </DialogPanel>
+    );
+  }
+
+  const isOpen = details.state === 'OPEN';
+  const isBusy = mergeMutation.isPending || closeMutation.isPending;
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2 pr-8">
+          <PullRequestBadge pullRequest={details} className="text-sm" />
+          <span className="truncate">{details.title}</span>
+        </DialogTitle>
+        <DialogDescription className="flex items-center gap-2">
+          <span className="truncate">
+            {details.author} · {details.headRefName} → {details.baseRefName}
+          </span>
+          <span className="text-emerald-600 dark:text-emerald-400">+{details.additions}</span>
+          <span className="text-red-600 dark:text-red-400">-{details.deletions}</span>
+          <button
+            type="button"
+            className="ml-auto flex shrink-0 items-center gap-1 hover:text-foreground"
+            onClick={() => window.electronAPI.shell.openExternal(details.url)}
+          >
+            <ExternalLink className="h-3.5 w-3.5" />
+            {t('Open on GitHub')}
+          </button>
+        </DialogDescription>
+      </DialogHeader>
+      <DialogPanel>
+        <Tabs value={tab} onValueChange={(v) => setTab(v as string)}>
+          <TabsList className="w-full">
+            <TabsTrigger value="checks" className="flex-1">
+              {t('Checks')} ({details.checks.length})
+            </TabsTrigger>
+            <TabsTrigger value="comments" className="flex-1">
+              {t('Comments')} ({details.comments.length + details.reviews.length})
+            </TabsTrigger>
+            <TabsTrigger value="diff" className="flex-1">
+              {t('Diff')}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="checks" className="mt-3">
+            <ScrollArea className="h-80">
+              {details.mergeable === 'CONFLICTING' && (
+                <div className="mb-2 rounded-md border border-red-500/20 bg-red-500/10 px-3 py-2 text-xs text-red-600 dark:text-red-400">
+                  {t('This branch has conflicts that must be resolved')}
+                </div>
+              )}
+              {details.checks.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  {t('No checks reported')}
+                </p>
+              ) : (
+                <ul className="space-y-1">
+                  {details.checks.map((check, index) => {
+                    const { Icon, color } = CHECK_ICONS[check.state];
+                    return (
+                      <li
+                        key={`${check.workflow ?? ''}/${check.name}/${index}`}
+                        className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-accent/50"
+                      >
+                        <Icon className={cn('h-4 w-4 shrink-0', color)} />
+                        <span className="truncate">
+                          {check.workflow ? `${check.workflow} / ${check.name}` : check.name}
+                        </span>
+                        {check.url && (
+                          <button
+                            type="button"
+                            className="ml-auto shrink-0 text-muted-foreground hover:text-foreground"
+                            onClick={() => window.electronAPI.shell.openExternal(check.url!)}
+                            title={t('Details')}
+                          >
+                            <ExternalLink className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="comments" className="mt-3">
+            <ScrollArea className="h-80">
+              {details.comments.length === 0 && details.reviews.length === 0 ? (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  {t('No comments yet')}
+                </p>
+              ) : (
+                <div className="space-y-2 pr-3">
+                  {details.reviews.map((review) => (
+                    <div
+                      key={`${review.author}-${review.submittedAt}`}
+                      className="rounded-md border px-3 py-2 text-sm"
+                    >
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="font-medium text-foreground">{review.author}</span>
+                        <span>
+                          {review.state === 'APPROVED'
+                            ? t('approved')
+                            : review.state === 'CHANGES_REQUESTED'
+                              ? t('requested changes')
+                              : t('reviewed')}
+                        </span>
+                      </div>
+                      {review.body && <p className="mt-1 whitespace-pre-wrap">{review.body}</p>}
+                    </div>
+                  ))}
+                  {details.comments.map((comment) => (
+                    <div key={comment.id} className="rounded-md border px-3 py-2 text-sm">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <MessageSquare className="h-3 w-3" />
+                        <span className="font-medium text-foreground">{comment.author}</span>
+                        {comment.path && (
+                          <span className="truncate font-mono">
+                            {comment.path}
+                            {comment.line ? `#L${comment.line}` : ''}
+                          </span>
+                        )}
+                        <span className="ml-auto shrink-0">
+                          {new Date(comment.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="mt-1 whitespace-pre-wrap">{comment.body}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="diff" className="mt-3">
+            <ScrollArea className="h-80">
+              {diffLoading ? (
+                <div className="flex h-40 items-center justify-center">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <pre className="font-mono text-xs leading-5">
+                  {(diff ?? '').split('\n').map((line, index) => (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: diff lines are static
+                    <div key={index} className={cn('px-2', getDiffLineClass(line))}>
+                      {line || ' '}
+                    </div>
+                  ))}
+                </pre>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogPanel>
+      <DialogFooter variant="bare">
+        {isOpen && (
+          <Button
+            variant="outline"
+            className="mr-auto text-destructive"
+            disabled={isBusy}
+            onClick={() => closeMutation.mutate({ workdir, prNumber })}
+          >
+            {t('Close pull request')}
+          </Button>
+        )}
+        <DialogClose render={<Button variant="outline" />}>{t('Close')}</DialogClose>
+        {onCreateNew && <Button onClick={onCreateNew}>{t('New pull request')}</Button>}
+        {isOpen && (
+          <>
+            <Select
+              value={mergeMethod}
+              onValueChange={(v) => setMergeMethod(v as PullRequestMergeMethod)}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue>{mergeMethodLabels[mergeMethod]}</SelectValue>
+              </SelectTrigger>
+              <SelectPopup>
+                {(Object.keys(mergeMethodLabels) as PullRequestMergeMethod[]).map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {mergeMethodLabels[method]}
+                  </SelectItem>
+                ))}
+              </SelectPopup>
+            </Select>
+            <Button
+              disabled={isBusy || details.isDraft || details.mergeable === 'CONFLICTING'}
+              onClick={() =>
+                mergeMutation.mutate(
+                  { workdir, prNumber, method: mergeMethod },
+                  {
+                    onSuccess: () =>
+                      toastManager.add({
+                        title: t('Pull request merged'),
+                        type: 'success',
+                        timeout: 3000,
+                      }),
+                  }
+                )
+              }
+            >
+              {mergeMutation.isPending && <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />}
+              {t('Merge')}
+            </Button>
+          </>
+        )}
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,189 @@
+import type { ReviewFinding, ReviewFindingSeverity } from '@shared/types';
+import { Check, ChevronRight, FileCode, Loader2, Send, Wand2 } from 'lucide-react';
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CodeBlock } from '@/components/ui/code-block';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+import { buildFindingFixPrompt } from '@/lib/reviewFindings';
+import { cn } from '@/lib/utils';
+import { useTerminalWriteStore } from '@/stores/terminalWrite';
+
+const SEVERITY_VARIANTS: Record<ReviewFindingSeverity, 'error' | 'warning' | 'info' | 'secondary'> =
+  {
+    critical: 'error',
+    major: 'warning',
+    minor: 'info',
+    info: 'secondary',
+  };
+
+interface ReviewFindingListProps {
+  findings: ReviewFinding[];
+  repoPath: string;
+  sessionId: string | null | undefined; // Agent session that receives fix requests
+  onNavigate: (finding: ReviewFinding) => void;
+}
+
+export function ReviewFindingList({
+  findings,
+  repoPath,
+  sessionId,
+  onNavigate,
+}: ReviewFindingListProps) {
+  const { t } = useI18n();
+  const write = useTerminalWriteStore((s) => s.write);
+  const hasWriter = useTerminalWriteStore((s) => (sessionId ? s.writers.has(sessionId) : false));
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [applyingId, setApplyingId] = useState<string | null>(null);
+  const [appliedIds, setAppliedIds] = useState<Set<string>>(new Set());
+
+  if (findings.length === 0) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+        <Check className="h-4 w-4 text-green-500" />
+        {t('No issues found')}
+      </div>
+    );
+  }
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleApplyPatch = async (finding: ReviewFinding) => {
+    if (!finding.patch) return;
+    setApplyingId(finding.id);
+    try {
+      await window.electronAPI.git.applyPatch(repoPath, finding.patch);
+      setAppliedIds((prev) => new Set(prev).add(finding.id));
+      toastManager.add({
+        type: 'success',
+        title: t('Patch applied'),
+        description: `${finding.file}:${finding.startLine}`,
+        timeout: 2000,
+      });
+    } catch (error) {
+      toastManager.add({
+        type: 'error',
+        title: t('Failed to apply patch'),
+        description: error instanceof Error ? error.message : String(error),
+        timeout: 5000,
+      });
+    } finally {
+      setApplyingId(null);
+    }
+  };
+
+  const handleSendToAgent = (finding: ReviewFinding) => {
+    if (!sessionId || !hasWriter) return;
+    write(sessionId, `${buildFindingFixPrompt(finding)}\r`);
+    toastManager.add({
+      type: 'success',
+      title: t('Sent to agent'),
+      description: finding.title,
+      timeout: 2000,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {t('{{count}} findings', { count: findings.length })}
+      </p>
+      {findings.map((finding) => {
+        const expanded = expandedIds.has(finding.id);
+        const location =
+          finding.endLine > finding.startLine
+            ? `${finding.file}:${finding.startLine}-${finding.endLine}`
+            : `${finding.file}:${finding.startLine}`;
+
+        return (
+          <div key={finding.id} className="rounded-md border">
+            <div className="flex items-start gap-2 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => toggleExpanded(finding.id)}
+                className="mt-0.5 shrink-0 text-muted-foreground hover:text-foreground"
+                aria-label={expanded ? t('Collapse') : t('Expand')}
+              >
+                <ChevronRight
+                  className={cn('h-4 w-4 transition-transform', expanded && 'rotate-90')}
+                />
+              </button>
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <Badge variant={SEVERITY_VARIANTS[finding.severity]} size="sm">
+                    {finding.severity}
+                  </Badge>
+                  <Badge variant="outline" size="sm">
+                    {finding.category}
+                  </Badge>
+                  <button
+                    type="button"
+                    onClick={() => onNavigate(finding)}
+                    className="flex min-w-0 items-center gap-1 font-mono text-xs text-muted-foreground hover:text-foreground hover:underline"
+                    title={t('Open in editor')}
+                  >
+                    <FileCode className="h-3 w-3 shrink-0" />
+                    <span className="truncate">{location}</span>
+                  </button>
+                </div>
+                <div className="text-sm font-medium">{finding.title}</div>
+                {expanded && (
+                  <div className="space-y-2 pt-1">
+                    {finding.suggestion && finding.suggestion !== finding.title && (
+                      <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                        {finding.suggestion}
+                      </p>
+                    )}
+                    {finding.patch && <CodeBlock code={finding.patch} language="diff" />}
+                  </div>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                {finding.patch && (
+                  <Button
+                    variant="outline"
+                    size="xs"
+                    onClick={() => handleApplyPatch(finding)}
+                    disabled={applyingId !== null || appliedIds.has(finding.id)}
+                  >
+                    {applyingId === finding.id ? (
+                      <Loader2 className="animate-spin" />
+                    ) : appliedIds.has(finding.id) ? (
+                      <Check />
+                    ) : (
+                      <Wand2 />
+                    )}
+                    {appliedIds.has(finding.id) ? t('Applied') : t('Apply patch')}
+                  </Button>
+                )}
+                {sessionId && (
+                  <Button
+                    variant="outline"
+                    size="xs"
+                    onClick={() => handleSendToAgent(finding)}
+                    disabled={!hasWriter}
+                    title={t('Send to agent to fix')}
+                  >
+                    <Send />
+                    {t('Fix')}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import type { CodeReviewScope } from '@shared/types';
+import { GitBranch as GitBranchIcon } from 'lucide-react';
+import { useMemo } from 'react';
+import {
+  Select,
+  SelectItem,
+  SelectPopup,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useGitBranches } from '@/hooks/useGit';
+import { useI18n } from '@/i18n';
+
+// Bases tried in order when switching to a branch comparison
+const PREFERRED_BASES = ['main', 'master', 'remotes/origin/main', 'remotes/origin/master'];
+
+// Commit and range scopes come from the history list and share one entry
+type ScopeKind = 'changes' | 'staged' | 'unstaged' | 'branch' | 'commits';
+
+interface ReviewScopeSelectProps {
+  repoPath: string | undefined;
+  scope: CodeReviewScope;
+  onChange: (scope: CodeReviewScope) => void;
+  disabled?: boolean;
+}
+
+export function ReviewScopeSelect({ repoPath, scope, onChange, disabled }: ReviewScopeSelectProps) {
+  const { t } = useI18n();
+  const { data: branches = [] } = useGitBranches(repoPath ?? null);
+
+  const baseBranches = useMemo(
+    () => branches.filter((b) => !b.current && !b.name.endsWith('/HEAD')).map((b) => b.name),
+    [branches]
+  );
+
+  const kind: ScopeKind =
+    scope.type === 'commit' || scope.type === 'range' ? 'commits' : scope.type;
+  const commitsLabel =
+    scope.type === 'commit'
+      ? t('Commit {{hash}}', { hash: scope.hash.slice(0, 7) })
+      : scope.type === 'range'
+        ? t('Commits {{from}}..{{to}}', { from: scope.from.slice(0, 7), to: scope.to.slice(0, 7) })
+        : '';
+
+  const kindLabels: Record<ScopeKind, string> = {
+    changes: t('Uncommitted changes'),
+    staged: t('Staged changes'),
+    unstaged: t('Unstaged changes'),
+    branch: t('Compare with branch'),
+    commits: commitsLabel,
+  };
+
+  const handleKindChange = (value: ScopeKind | null) => {
+    if (!value || value === kind) return;
+    if (value === 'branch') {
+      const base = PREFERRED_BASES.find((name) => baseBranches.includes(name)) ?? baseBranches[0];
+      if (base) onChange({ type: 'branch', base });
+      return;
+    }
+    if (value !== 'commits') {
+      onChange({ type: value });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={kind} onValueChange={handleKindChange} disabled={disabled}>
+        <SelectTrigger size="sm" className="w-auto min-w-40">
+          <SelectValue>{kindLabels[kind]}</SelectValue>
+        </SelectTrigger>
+        <SelectPopup>
+          <SelectItem value="changes">{kindLabels.changes}</SelectItem>
+          <SelectItem value="staged">{kindLabels.staged}</SelectItem>
+          <SelectItem value="unstaged">{kindLabels.unstaged}</SelectItem>
+          <SelectItem value="branch" disabled={baseBranches.length === 0}>
+            {kindLabels.branch}
+          </SelectItem>
+          {kind === 'commits' && <SelectItem value="commits">{commitsLabel}</SelectItem>}
+        </SelectPopup>
+      </Select>
+      {scope.type === 'branch' && (
+        <Select
+          value={scope.base}
+          onValueChange={(base: string | null) => {
+            if (base && base !== scope.base) onChange({ type: 'branch', base });
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger size="sm" className="w-auto min-w-32">
+            <GitBranchIcon className="h-3.5 w-3.5 shrink-0" />
+            <SelectValue>{scope.base.replace(/^remotes\//, '')}</SelectValue>
+          </SelectTrigger>
+          <SelectPopup>
+            {baseBranches.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name.replace(/^remotes\//, '')}
+              </SelectItem>
+            ))}
+          </SelectPopup>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { Check, ChevronDown, ChevronRight, MessageSquare, RotateCcw, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useI18n } from '@/i18n';
+import { formatLineRef, type ReviewAnchorLocation, type ReviewThread } from '@/lib/reviewThreads';
+import { cn } from '@/lib/utils';
+
+interface ReviewThreadCardProps {
+  thread: ReviewThread;
+  location: ReviewAnchorLocation | null;
+  onReply: (text: string) => void;
+  onToggleResolved: () => void;
+  onDelete: () => void;
+  onSelect?: () => void;
+  className?: string;
+}
+
+export function ReviewThreadCard({
+  thread,
+  location,
+  onReply,
+  onToggleResolved,
+  onDelete,
+  onSelect,
+  className,
+}: ReviewThreadCardProps) {
+  const { t } = useI18n();
+  // Resolved threads start collapsed
+  const [expanded, setExpanded] = useState(!thread.resolved);
+  const [replying, setReplying] = useState(false);
+  const [replyText, setReplyText] = useState('');
+
+  const startLine = location?.startLine ?? thread.startLine;
+  const endLine = location?.endLine ?? thread.endLine;
+  const isOutdated = location?.status === 'outdated';
+  const [first, ...replies] = thread.comments;
+
+  const handleReply = () => {
+    const text = replyText.trim();
+    if (!text) return;
+    onReply(text);
+    setReplyText('');
+    setReplying(false);
+  };
+
+  return (
+    <div
+      className={cn(
+        'max-w-md rounded-md border bg-muted/50 text-sm',
+        thread.resolved && 'opacity-70',
+        className
+      )}
+    >
+      <div className="flex items-center gap-1.5 px-2 py-1.5">
+        <button
+          type="button"
+          className="flex min-w-0 flex-1 items-center gap-1.5 text-left"
+          onClick={() => {
+            setExpanded((prev) => !prev);
+            onSelect?.();
+          }}
+        >
+          {expanded ? (
+            <ChevronDown className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          ) : (
+            <ChevronRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          )}
+          <span className="text-xs font-medium text-primary">
+            {formatLineRef(startLine, endLine)}
+          </span>
+          {thread.resolved && (
+            <span className="rounded bg-green-500/15 px-1 text-xs text-green-600 dark:text-green-400">
+              {t('Resolved')}
+            </span>
+          )}
+          {isOutdated && (
+            <span className="rounded bg-yellow-500/15 px-1 text-xs text-yellow-600 dark:text-yellow-400">
+              {t('Outdated')}
+            </span>
+          )}
+          {!expanded && first && (
+            <span className="min-w-0 truncate text-xs text-muted-foreground">{first.text}</span>
+          )}
+        </button>
+        {thread.commit && (
+          <code className="shrink-0 text-xs text-muted-foreground">
+            {thread.commit.slice(0, 7)}
+          </code>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="space-y-2 border-t px-2 py-2">
+          {first && <p className="whitespace-pre-wrap text-foreground">{first.text}</p>}
+          {replies.map((reply) => (
+            <div key={reply.id} className="border-l-2 pl-2">
+              <p className="whitespace-pre-wrap text-foreground">{reply.text}</p>
+              <span className="text-xs text-muted-foreground">
+                {new Date(reply.createdAt).toLocaleString()}
+              </span>
+            </div>
+          ))}
+
+          {replying ? (
+            <div className="space-y-1.5">
+              <textarea
+                className="h-16 w-full resize-none rounded border bg-background p-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                placeholder={t('Reply...')}
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                    e.preventDefault();
+                    handleReply();
+                  }
+                  if (e.key === 'Escape') setReplying(false);
+                }}
+              />
+              <div className="flex justify-end gap-1.5">
+                <Button size="xs" variant="ghost" onClick={() => setReplying(false)}>
+                  {t('Cancel')}
+                </Button>
+                <Button size="xs" disabled={!replyText.trim()} onClick={handleReply}>
+                  {t('Reply')}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1">
+              <Button size="xs" variant="ghost" onClick={() => setReplying(true)}>
+                <MessageSquare className="h-3 w-3" />
+                {t('Reply')}
+              </Button>
+              <Button size="xs" variant="ghost" onClick={onToggleResolved}>
+                {thread.resolved ? (
+                  <>
+                    <RotateCcw className="h-3 w-3" />
+                    {t('Unresolve')}
+                  </>
+                ) : (
+                  <>
+                    <Check className="h-3 w-3" />
+                    {t('Resolve')}
+                  </>
+                )}
+              </Button>
+              <Button
+                size="xs"
+                variant="ghost"
+                className="ml-auto text-muted-foreground hover:text-destructive"
+                onClick={onDelete}
+                title={t('Delete')}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
+import type { GitStash, GitStashFile } from '@shared/types';
 import { getPathBasename, joinPath, normalizePath } from '@shared/utils/path';
 import { useQueryClient } from '@tanstack/react-query';
-import { ChevronDown, GitBranch, GripVertical, History, PanelLeft } from 'lucide-react';
+import { Archive, ChevronDown, GitBranch, GripVertical, History, PanelLeft } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   getStoredBoolean,
@@ -34,6 +35,12 @@ import {
   useGitPush,
 } from '@/hooks/useGit';
 import { useCommitDiff, useCommitFiles, useGitHistoryInfinite } from '@/hooks/useGitHistory';
+import {
+  useGitStashCreate,
+  useStashFileDiff,
+  useStashFiles,
+  useStashList,
+} from '@/hooks/useGitStash';
 import { useGitSync } from '@/hooks/useGitSync';
 import { useSharedFileWatch } from '@/hooks/useSharedFileWatch';
 import {
@@ -59,11 +66,15 @@ import { useSettingsStore } from '@/stores/settings';
 import { useSourceControlStore } from '@/stores/sourceControl';
 import { BranchSwitcher } from './BranchSwitcher';
 import { ChangesList } from './ChangesList';
+import { CherryPickBanner } from './CherryPickBanner';
 import { CommitBox } from './CommitBox';
 import { CommitDiffViewer } from './CommitDiffViewer';
 import { CommitHistoryList } from './CommitHistoryList';
 import { DiffViewer } from './DiffViewer';
+import { PullRequestButton } from './PullRequestButton';
 import { RepositoryList } from './RepositoryList';
+import { StashDialog } from './StashDialog';
+import { StashList } from './StashList';
 import type { Repository } from './types';
 import { usePanelResize } from './usePanelResize';
 
@@ -91,6 +102,9 @@ export function SourceControlPanel({
   const [historyExpanded, setHistoryExpanded] = useState(() =>
     getStoredBoolean(STORAGE_KEYS.SC_HISTORY_EXPANDED, false)
   );
+  const [stashesExpanded, setStashesExpanded] = useState(() =>
+    getStoredBoolean(STORAGE_KEYS.SC_STASHES_EXPANDED, false)
+  );
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
 
   // Branch checkout state - tracks which repo is being checked out
@@ -112,6 +126,13 @@ export function SourceControlPanel({
   const [selectedCommitFile, setSelectedCommitFile] = useState<string | null>(null);
   const [expandedCommitHash, setExpandedCommitHash] = useState<string | null>(null);
 
+  // Stash view state
+  const [expandedStash, setExpandedStash] = useState<GitStash | null>(null);
+  const [selectedStashFile, setSelectedStashFile] = useState<GitStashFile | null>(null);
+  const [stashDialog, setStashDialog] = useState<{ open: boolean; paths?: string[] }>({
+    open: false,
+  });
+
   // Submodule commit history state
   const [selectedSubmoduleCommit, _setSelectedSubmoduleCommit] = useState<{
     hash: string;
@@ -566,6 +587,35 @@ export function SourceControlPanel({
     selectedSubmodulePath ?? undefined
   );
 
+  // Stashes of the selected repository
+  const {
+    data: stashes = [],
+    isLoading: stashesLoading,
+    refetch: refetchStashes,
+  } = useStashList(selectedRepoPath ?? null, isActive);
+
+  const { data: stashFiles = [], isLoading: stashFilesLoading } = useStashFiles(
+    selectedRepoPath ?? null,
+    expandedStash?.hash ?? null
+  );
+
+  const { data: stashFileDiff } = useStashFileDiff(
+    selectedRepoPath ?? null,
+    expandedStash?.hash ?? null,
+    selectedStashFile?.path ?? null,
+    selectedStashFile?.untracked
+  );
+
+  const stashCreateMutation = useGitStashCreate();
+
+  // Collapse the expanded stash once it has been popped or dropped
+  useEffect(() => {
+    if (expandedStash && !stashes.some((s) => s.hash === expandedStash.hash)) {
+      setExpandedStash(null);
+      setSelectedStashFile(null);
+    }
+  }, [stashes, expandedStash]);
+
   // Submodule commit diff
   const { data: _submoduleCommitDiff, isLoading: _submoduleCommitDiffLoading } = useCommitDiff(
     rootPath ?? null,
@@ -592,6 +642,8 @@ export function SourceControlPanel({
       setSelectedCommitFile(null);
       setExpandedCommitHash(null);
       setSelectedSubmoduleFile(null);
+      setExpandedStash(null);
+      setSelectedStashFile(null);
     },
     [repositories, setSelectedFile]
   );
@@ -901,6 +953,8 @@ export function SourceControlPanel({
       setSelectedCommitFile(null);
       setExpandedCommitHash(null);
       setSelectedSubmoduleFile(null);
+      setExpandedStash(null);
+      setSelectedStashFile(null);
       if (selectedSubmodulePath) {
         setSelectedSubmoduleFile({ ...file, submodulePath: selectedSubmodulePath });
       } else {
@@ -923,11 +977,77 @@ export function SourceControlPanel({
         setExpandedCommitHash(hash);
         setSelectedCommitHash(hash);
         setSelectedCommitFile(null);
+        setExpandedStash(null);
+        setSelectedStashFile(null);
       }
     },
     [expandedCommitHash]
   );
 
+  // Handle stash click - toggle expansion, preview replaces the commit view
+  const handleStashClick = useCallback(
+    (stash: GitStash) => {
+      setSelectedStashFile(null);
+      if (expandedStash?.hash === stash.hash) {
+        setExpandedStash(null);
+        return;
+      }
+      setExpandedStash(stash);
+      setExpandedCommitHash(null);
+      setSelectedCommitHash(null);
+      setSelectedCommitFile(null);
+    },
+    [expandedStash]
+  );
+
+  const handleStashFileClick = useCallback(
+    (file: GitStashFile) => {
+      setSelectedStashFile(file);
+      setNavigationDirection('next');
+    },
+    [setNavigationDirection]
+  );
+
+  const refreshAfterStash = useCallback(() => {
+    refetch();
+    refetchStatus();
+    refetchStashes();
+    if (rootPath) {
+      queryClient.invalidateQueries({
+        queryKey: ['git', 'file-diff', selectedRepoPath ?? rootPath],
+      });
+      queryClient.invalidateQueries({ queryKey: ['git', 'submodule', 'changes', rootPath] });
+      queryClient.invalidateQueries({ queryKey: ['git', 'submodule', 'diff', rootPath] });
+    }
+  }, [refetch, refetchStatus, refetchStashes, rootPath, selectedRepoPath, queryClient]);
+
+  const handleStash = useCallback((paths?: string[]) => {
+    setStashDialog({ open: true, paths });
+  }, []);
+
+  const handleStashConfirm = useCallback(
+    async ({ message, includeUntracked }: { message: string; includeUntracked: boolean }) => {
+      if (!selectedRepoPath) return;
+      try {
+        await stashCreateMutation.mutateAsync({
+          workdir: selectedRepoPath,
+          options: { message, includeUntracked, paths: stashDialog.paths },
+        });
+        setStashDialog({ open: false });
+        refreshAfterStash();
+        toastManager.add({
+          title: t('Changes stashed'),
+          description: message || undefined,
+          type: 'success',
+          timeout: 3000,
+        });
+      } catch {
+        // Error toast is shown by useGitStashCreate
+      }
+    },
+    [selectedRepoPath, stashCreateMutation, stashDialog.paths, refreshAfterStash, t]
+  );
+
   // Handle file click in commit history view
   const handleCommitFileClick = useCallback(
     (filePath: string) => {
@@ -1099,6 +1219,9 @@ export function SourceControlPanel({
                 onSync={() => selectedRepoPath && handleSync(selectedRepoPath)}
                 onPublish={() => selectedRepoPath && handlePublish(selectedRepoPath)}
               />
+              {!selectedSubmodulePath && rootPath && (
+                <PullRequestButton workdir={rootPath} branch={selectedRepo?.branch ?? null} />
+              )}
             </div>
 
             <div
@@ -1125,6 +1248,17 @@ export function SourceControlPanel({
                   })}
                 </div>
               )}
+              {!selectedSubmodulePath && selectedRepoPath && (
+                <CherryPickBanner
+                  workdir={selectedRepoPath}
+                  isActive={isActive}
+                  onChange={() => {
+                    refetch();
+                    refetchCommits();
+                    refetchStatus();
+                  }}
+                />
+              )}
               <div className="flex-1 overflow-hidden min-h-0">
                 <ChangesList
                   staged={staged}
@@ -1135,6 +1269,7 @@ export function SourceControlPanel({
                   onUnstage={handleUnstage}
                   onDiscard={handleDiscard}
                   onDeleteUntracked={handleDeleteUntracked}
+                  onStash={handleStash}
                   onRefresh={async () => {
                     if (selectedSubmodulePath) {
                       refetchSubmoduleChanges();
@@ -1175,6 +1310,61 @@ export function SourceControlPanel({
             </div>
           </div>
 
+          {/* Stashes Section (Collapsible) */}
+          <div
+            className={cn(
+              'flex min-h-0 flex-col overflow-hidden border-b transition-[flex-grow] duration-200 ease-out',
+              stashesExpanded ? 'flex-1 basis-0' : 'flex-none'
+            )}
+          >
+            <div className="group flex items-center shrink-0 rounded-sm hover:bg-accent/50 transition-colors">
+              <button
+                type="button"
+                onClick={() => {
+                  const next = !stashesExpanded;
+                  setStashesExpanded(next);
+                  localStorage.setItem(STORAGE_KEYS.SC_STASHES_EXPANDED, String(next));
+                }}
+                className="flex flex-1 items-center gap-2 px-4 py-2 text-left focus:outline-none"
+              >
+                <ChevronDown
+                  className={cn(
+                    'h-4 w-4 text-muted-foreground/60 group-hover:text-foreground transition-all duration-200',
+                    !stashesExpanded && '-rotate-90'
+                  )}
+                />
+                <Archive className="h-4 w-4" />
+                <span className="text-sm font-medium">{t('Stashes')}</span>
+                {stashes.length > 0 && (
+                  <span className="text-xs text-muted-foreground">({stashes.length})</span>
+                )}
+              </button>
+            </div>
+
+            <div
+              className={cn(
+                'relative overflow-hidden transition-opacity duration-150',
+                stashesExpanded ? 'flex-1 min-h-0 opacity-100' : 'h-0 opacity-0 pointer-events-none'
+              )}
+            >
+              <div className="absolute inset-0">
+                <StashList
+                  workdir={selectedRepoPath ?? rootPath}
+                  currentBranch={selectedRepo?.branch ?? null}
+                  stashes={stashes}
+                  isLoading={stashesLoading}
+                  expandedStashHash={expandedStash?.hash ?? null}
+                  stashFiles={stashFiles}
+                  stashFilesLoading={stashFilesLoading}
+                  selectedFile={selectedStashFile}
+                  onStashClick={handleStashClick}
+                  onFileClick={handleStashFileClick}
+                  onRefresh={refreshAfterStash}
+                />
+              </div>
+            </div>
+          </div>
+
           {/* History Section (Collapsible) */}
           <div
             className={cn(
@@ -1277,6 +1467,18 @@ export function SourceControlPanel({
                 hasNextFile={currentCommitFileIndex < commitFiles.length - 1}
               />
             </div>
+          ) : expandedStash && selectedStashFile ? (
+            <div className="flex-1 overflow-hidden">
+              <DiffViewer
+                rootPath={selectedRepoPath ?? rootPath ?? ''}
+                file={{ path: selectedStashFile.path, staged: false }}
+                diff={stashFileDiff ?? undefined}
+                skipFetch={true}
+                isActive={isActive}
+                isCommitView={true}
+                commitHash={expandedStash.hash}
+              />
+            </div>
           ) : selectedSubmoduleFile && rootPath ? (
             <div className="flex-1 overflow-hidden">
               <DiffViewer
@@ -1303,6 +1505,14 @@ export function SourceControlPanel({
         </div>
       </div>
 
+      <StashDialog
+        open={stashDialog.open}
+        paths={stashDialog.paths}
+        isPending={stashCreateMutation.isPending}
+        onConfirm={handleStashConfirm}
+        onCancel={() => setStashDialog({ open: false })}
+      />
+
       {/* Discard/Delete Confirmation Dialog */}
       <AlertDialog open={dialogOpen} onOpenChange={handleDialogOpenChange}>
         <AlertDialogPopup>
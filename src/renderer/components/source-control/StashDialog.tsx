@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useI18n } from '@/i18n';
+
+interface StashDialogProps {
+  open: boolean;
+  // When set, only these paths are stashed
+  paths?: string[];
+  isPending?: boolean;
+  onConfirm: (options: { message: string; includeUntracked: boolean }) => void;
+  onCancel: () => void;
+}
+
+export function StashDialog({ open, paths, isPending, onConfirm, onCancel }: StashDialogProps) {
+  const { t } = useI18n();
+  const [message, setMessage] = useState('');
+  const [includeUntracked, setIncludeUntracked] = useState(true);
+
+  useEffect(() => {
+    if (open) {
+      setMessage('');
+      setIncludeUntracked(true);
+    }
+  }, [open]);
+
+  const handleConfirm = () => {
+    if (isPending) return;
+    onConfirm({ message: message.trim(), includeUntracked });
+  };
+
+  const description =
+    paths && paths.length > 0
+      ? paths.length === 1
+        ? t('Stash changes to {{path}}.', { path: paths[0] })
+        : t('Stash changes to {{count}} files.', { count: paths.length })
+      : t('Stash all changes in the working tree.');
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && onCancel()}>
+      <DialogPopup className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('Stash changes')}</DialogTitle>
+          <DialogDescription className="break-all">{description}</DialogDescription>
+        </DialogHeader>
+        <DialogPanel className="space-y-3">
+          <Input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+            placeholder={t('Stash message (optional)')}
+            autoFocus
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={includeUntracked}
+              onCheckedChange={(checked) => setIncludeUntracked(checked === true)}
+            />
+            <span>{t('Include untracked files')}</span>
+          </label>
+        </DialogPanel>
+        <DialogFooter variant="bare">
+          <DialogClose render={<Button variant="outline" />}>{t('Cancel')}</DialogClose>
+          <Button onClick={handleConfirm} disabled={isPending}>
+            {t('Stash')}
+          </Button>
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -0,0 +1,346 @@
+import type { GitStash, GitStashFile } from '@shared/types';
+import {
+  AlertTriangle,
+  Archive,
+  ArchiveRestore,
+  FileEdit,
+  FilePlus,
+  FileX,
+  Loader2,
+  Trash2,
+  Undo2,
+} from 'lucide-react';
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogClose,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogPopup,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toastManager } from '@/components/ui/toast';
+import { useGitStashApply, useGitStashDrop, useGitStashPop } from '@/hooks/useGitStash';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface StashListProps {
+  workdir: string;
+  // Branch checked out in this worktree; refs/stash is shared by every worktree
+  currentBranch: string | null;
+  stashes: GitStash[];
+  isLoading?: boolean;
+  // Inline files expansion
+  expandedStashHash: string | null;
+  stashFiles?: GitStashFile[];
+  stashFilesLoading?: boolean;
+  selectedFile?: GitStashFile | null;
+  onStashClick: (stash: GitStash) => void;
+  onFileClick: (file: GitStashFile) => void;
+  onRefresh?: () => void;
+}
+
+export function StashList({
+  workdir,
+  currentBranch,
+  stashes,
+  isLoading = false,
+  expandedStashHash,
+  stashFiles = [],
+  stashFilesLoading = false,
+  selectedFile,
+  onStashClick,
+  onFileClick,
+  onRefresh,
+}: StashListProps) {
+  const { t } = useI18n();
+  const applyMutation = useGitStashApply();
+  const popMutation = useGitStashPop();
+  const dropMutation = useGitStashDrop();
+  const [dropTarget, setDropTarget] = useState<GitStash | null>(null);
+
+  const isBusy = applyMutation.isPending || popMutation.isPending || dropMutation.isPending;
+
+  const handleApply = async (stash: GitStash) => {
+    await applyMutation.mutateAsync({ workdir, hash: stash.hash });
+    toastManager.add({
+      title: t('Stash applied'),
+      description: stash.message,
+      type: 'success',
+      timeout: 3000,
+    });
+    onRefresh?.();
+  };
+
+  const handlePop = async (stash: GitStash) => {
+    await popMutation.mutateAsync({ workdir, hash: stash.hash });
+    toastManager.add({
+      title: stash.isAutoStash ? t('Changes restored') : t('Stash popped'),
+      description: stash.message,
+      type: 'success',
+      timeout: 3000,
+    });
+    onRefresh?.();
+  };
+
+  const handleDropConfirm = async () => {
+    if (!dropTarget) return;
+    const stash = dropTarget;
+    setDropTarget(null);
+    await dropMutation.mutateAsync({ workdir, hash: stash.hash });
+    onRefresh?.();
+  };
+
+  // Errors are reported by the mutation hooks
+  const run = (action: () => Promise<void>) => {
+    action().catch(() => {});
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (stashes.length === 0) {
+    return (
+      <div className="flex h-full min-h-[80px] flex-col items-center justify-center text-muted-foreground">
+        <Archive className="mb-2 h-8 w-8 opacity-50" />
+        <p className="text-sm">{t('No stashes')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <ScrollArea className="h-full min-h-0">
+        <div className="space-y-0.5 p-2">
+          {stashes.map((stash) => {
+            const isExpanded = expandedStashHash === stash.hash;
+            // Only offer one-click restore in the worktree whose merge made the auto-stash
+            const canRestore =
+              stash.isAutoStash && !!stash.branch && stash.branch === currentBranch;
+            return (
+              <div key={stash.hash} className="border-b border-border/50 last:border-0">
+                <div
+                  className={cn(
+                    'group flex w-full cursor-pointer items-start gap-2 rounded-sm px-3 py-2 text-left transition-colors',
+                    isExpanded ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+                  )}
+                  onClick={() => onStashClick(stash)}
+                  onKeyDown={(e) => e.key === 'Enter' && onStashClick(stash)}
+                  role="button"
+                  tabIndex={0}
+                  title={`${stash.ref} · ${stash.message}`}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm">{stash.message || stash.ref}</p>
+                    <div
+                      className={cn(
+                        'mt-0.5 flex items-center gap-2 text-xs',
+                        isExpanded ? 'text-accent-foreground/70' : 'text-muted-foreground'
+                      )}
+                    >
+                      <span className="font-mono">{stash.ref}</span>
+                      {stash.branch && (
+                        <>
+                          <span>·</span>
+                          <span className="truncate">{stash.branch}</span>
+                        </>
+                      )}
+                      {stash.isAutoStash && (
+                        <span
+                          className="inline-flex shrink-0 items-center gap-1 rounded-full bg-yellow-500/10 px-1.5 py-0.5 text-[10px] font-medium text-yellow-600 dark:text-yellow-400"
+                          title={
+                            canRestore
+                              ? undefined
+                              : t(
+                                  'Made by a merge on {{branch}}, not the branch of this worktree. Restore it from that worktree.',
+                                  { branch: stash.branch ?? 'HEAD' }
+                                )
+                          }
+                        >
+                          {!canRestore && <AlertTriangle className="h-3 w-3" />}
+                          {t('Merge auto-stash')}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Action buttons */}
+                  <div
+                    className={cn(
+                      'shrink-0 items-center gap-0.5',
+                      canRestore ? 'flex' : 'hidden group-hover:flex'
+                    )}
+                  >
+                    {canRestore ? (
+                      <Button
+                        variant="outline"
+                        size="xs"
+                        disabled={isBusy}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          run(() => handlePop(stash));
+                        }}
+                        title={t('Restore stashed changes and remove the stash')}
+                      >
+                        <ArchiveRestore />
+                        {t('Restore')}
+                      </Button>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          className="flex h-5 w-5 items-center justify-center rounded text-muted-foreground/60 hover:text-foreground transition-colors"
+                          disabled={isBusy}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            run(() => handleApply(stash));
+                          }}
+                          title={t('Apply stash')}
+                        >
+                          <Undo2 className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          type="button"
+                          className="flex h-5 w-5 items-center justify-center rounded text-muted-foreground/60 hover:text-foreground transition-colors"
+                          disabled={isBusy}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            run(() => handlePop(stash));
+                          }}
+                          title={t('Pop stash')}
+                        >
+                          <ArchiveRestore className="h-3.5 w-3.5" />
+                        </button>
+                      </>
+                    )}
+                    <button
+                      type="button"
+                      className="flex h-5 w-5 items-center justify-center rounded text-muted-foreground/60 hover:text-destructive transition-colors"
+                      disabled={isBusy}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setDropTarget(stash);
+                      }}
+                      title={t('Drop stash')}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Inline File List Expansion */}
+                {isExpanded && (
+                  <div className="px-3 pb-2">
+                    {stashFilesLoading ? (
+                      <div className="flex items-center justify-center py-4">
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      </div>
+                    ) : stashFiles.length === 0 ? (
+                      <div className="flex items-center justify-center py-4 text-muted-foreground">
+                        <p className="text-xs">{t('No file changes in this stash')}</p>
+                      </div>
+                    ) : (
+                      <div className="mt-1 space-y-0.5 rounded-sm bg-muted/30 p-1">
+                        {stashFiles.map((file) => {
+                          const Icon = getFileIcon(file.status);
+                          const isFileSelected =
+                            selectedFile?.path === file.path &&
+                            !!selectedFile.untracked === !!file.untracked;
+                          return (
+                            <button
+                              type="button"
+                              key={`${file.untracked ? 'untracked' : 'tracked'}-${file.path}`}
+                              className={cn(
+                                'flex h-7 w-full items-center gap-2 rounded-sm px-2 text-sm text-left transition-colors',
+                                isFileSelected
+                                  ? 'bg-accent text-accent-foreground'
+                                  : 'hover:bg-accent/50'
+                              )}
+                              onClick={() => onFileClick(file)}
+                              title={file.path}
+                            >
+                              <Icon
+                                className={cn(
+                                  'h-3.5 w-3.5 shrink-0',
+                                  isFileSelected ? '' : getStatusColor(file.status)
+                                )}
+                              />
+                              <span
+                                className={cn(
+                                  'shrink-0 font-mono text-[10px]',
+                                  isFileSelected ? '' : getStatusColor(file.status)
+                                )}
+                              >
+                                {file.untracked ? 'U' : file.status}
+                              </span>
+                              <span className="min-w-0 flex-1 truncate text-xs">{file.path}</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      {/* Drop confirmation */}
+      <AlertDialog open={!!dropTarget} onOpenChange={(open) => !open && setDropTarget(null)}>
+        <AlertDialogPopup>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('Drop stash')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('Are you sure you want to drop {{ref}}? This cannot be undone.', {
+                ref: dropTarget?.ref ?? '',
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogClose render={<Button variant="outline">{t('Cancel')}</Button>} />
+            <Button variant="destructive" onClick={() => run(handleDropConfirm)}>
+              {t('Drop')}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogPopup>
+      </AlertDialog>
+    </>
+  );
+}
+
+function getFileIcon(status: GitStashFile['status']) {
+  switch (status) {
+    case 'A':
+      return FilePlus;
+    case 'D':
+      return FileX;
+    default:
+      return FileEdit;
+  }
+}
+
+function getStatusColor(status: GitStashFile['status']) {
+  switch (status) {
+    case 'A':
+      return 'text-green-500';
+    case 'D':
+      return 'text-red-500';
+    case 'M':
+      return 'text-orange-500';
+    case 'R':
+    case 'C':
+      return 'text-blue-500';
+    default:
+      return 'text-muted-foreground';
+  }
+}
@@ -0,0 +1,58 @@
+import { ArrowDown } from 'lucide-react';
+import { useCallback } from 'react';
+import { useTerminalScrollToBottom } from '@/hooks/useTerminalScrollToBottom';
+import { useXterm } from '@/hooks/useXterm';
+import { useI18n } from '@/i18n';
+import { type TaskRun, useTaskRunnerStore } from '@/stores/taskRunner';
+
+interface TaskTerminalProps {
+  run: TaskRun;
+  isActive: boolean;
+}
+
+/**
+ * Output of a single task run. The pty exits with the task, so its exit code
+ * drives the status badge; file:line references in the output open in the editor.
+ */
+export function TaskTerminal({ run, isActive }: TaskTerminalProps) {
+  const { t } = useI18n();
+  const { key } = run;
+
+  const handleInit = useCallback(
+    (ptyId: string) => useTaskRunnerStore.getState().setPtyId(key, ptyId),
+    [key]
+  );
+  const handleExit = useCallback(
+    (exitCode?: number) => useTaskRunnerStore.getState().finish(key, exitCode),
+    [key]
+  );
+
+  const { containerRef, settings, terminal } = useXterm({
+    cwd: run.cwd,
+    isActive,
+    initialCommand: run.task.command,
+    exitAfterCommand: true,
+    onInit: handleInit,
+    onExit: handleExit,
+  });
+  const { showScrollToBottom, handleScrollToBottom } = useTerminalScrollToBottom(terminal);
+
+  return (
+    <div
+      className="relative h-full w-full"
+      style={{ backgroundColor: settings.theme.background, contain: 'strict' }}
+    >
+      <div ref={containerRef} className="h-full w-full" />
+      {showScrollToBottom && (
+        <button
+          type="button"
+          onClick={handleScrollToBottom}
+          className="absolute bottom-3 right-3 flex h-8 w-8 items-center justify-center rounded-full bg-primary/80 text-primary-foreground shadow-lg transition-all hover:bg-primary hover:scale-105 active:scale-95"
+          title={t('Scroll to bottom')}
+        >
+          <ArrowDown className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import type { ProjectTask, ProjectTaskDiscovery, ProjectTaskSource } from '@shared/types';
+import { ListChecks, Loader2, Play, RefreshCw, RotateCcw, Square, X } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from '@/components/ui/empty';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import {
+  getTaskRunKey,
+  type TaskRun,
+  type TaskRunStatus,
+  useTaskRunnerStore,
+} from '@/stores/taskRunner';
+import { TaskTerminal } from './TaskTerminal';
+
+interface TasksPanelProps {
+  cwd?: string;
+  isActive?: boolean;
+}
+
+const SOURCE_ORDER: ProjectTaskSource[] = ['package', 'make', 'just', 'cargo', 'go'];
+
+const STATUS_VARIANTS = {
+  running: 'info',
+  success: 'success',
+  failed: 'error',
+  stopped: 'outline',
+} as const satisfies Record<TaskRunStatus, string>;
+
+function TaskStatusBadge({ run }: { run: TaskRun }) {
+  const { t } = useI18n();
+  const labels: Record<TaskRunStatus, string> = {
+    running: t('Running'),
+    success: t('Success'),
+    failed: t('Failed'),
+    stopped: t('Stopped'),
+  };
+
+  return (
+    <Badge variant={STATUS_VARIANTS[run.status]} size="sm">
+      {run.status === 'running' && <Loader2 className="animate-spin" />}
+      {run.status === 'failed' && run.exitCode !== undefined
+        ? `${labels.failed} (${run.exitCode})`
+        : labels[run.status]}
+    </Badge>
+  );
+}
+
+/** Runnable scripts of the active worktree, each running in its own pty */
+export function TasksPanel({ cwd, isActive = false }: TasksPanelProps) {
+  const { t } = useI18n();
+  const runs = useTaskRunnerStore((s) => s.runs);
+  const [discovery, setDiscovery] = useState<ProjectTaskDiscovery | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Selected task per worktree
+  const [selectedIds, setSelectedIds] = useState<Record<string, string>>({});
+
+  const loadTasks = useCallback(async () => {
+    if (!cwd) return;
+    setIsLoading(true);
+    try {
+      setDiscovery(await window.electronAPI.tasks.discover(cwd));
+    } catch (error) {
+      setDiscovery(null);
+      toastManager.add({
+        type: 'error',
+        title: t('Failed to load tasks'),
+        description: error instanceof Error ? error.message : String(error),
+        timeout: 5000,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cwd, t]);
+
+  useEffect(() => {
+    setDiscovery(null);
+    loadTasks();
+  }, [loadTasks]);
+
+  const groups = useMemo(() => {
+    const tasks = discovery?.tasks ?? [];
+    return SOURCE_ORDER.map((source) => ({
+      source,
+      tasks: tasks.filter((task) => task.source === source),
+    })).filter((group) => group.tasks.length > 0);
+  }, [discovery]);
+
+  const sourceLabels: Record<ProjectTaskSource, string> = {
+    package: discovery?.packageManager
+      ? `package.json (${discovery.packageManager})`
+      : 'package.json',
+    make: 'Makefile',
+    just: 'justfile',
+    cargo: 'Cargo',
+    go: 'Go',
+  };
+
+  const selectedId = cwd ? selectedIds[cwd] : undefined;
+  const selectedRun = cwd && selectedId ? runs[getTaskRunKey(cwd, selectedId)] : undefined;
+
+  const select = (taskId: string) => {
+    if (cwd) setSelectedIds((prev) => ({ ...prev, [cwd]: taskId }));
+  };
+
+  const handleRun = (task: ProjectTask) => {
+    if (!cwd) return;
+    useTaskRunnerStore.getState().run(cwd, task);
+    select(task.id);
+  };
+
+  const handleStop = (run: TaskRun) => {
+    useTaskRunnerStore.getState().stop(run.key);
+  };
+
+  if (!cwd) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <Empty className="border-0">
+          <EmptyMedia variant="icon">
+            <ListChecks className="h-4.5 w-4.5" />
+          </EmptyMedia>
+          <EmptyHeader>
+            <EmptyTitle>{t('Tasks')}</EmptyTitle>
+            <EmptyDescription>{t('Select a Worktree to run its tasks')}</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full w-full">
+      <div className="flex w-64 shrink-0 flex-col border-r">
+        <div className="flex h-9 shrink-0 items-center justify-between border-b px-3">
+          <span className="text-sm font-medium">{t('Tasks')}</span>
+          <Button
+            variant="ghost"
+            size="icon-xs"
+            onClick={loadTasks}
+            disabled={isLoading}
+            title={t('Refresh')}
+          >
+            <RefreshCw className={cn(isLoading && 'animate-spin')} />
+          </Button>
+        </div>
+        <ScrollArea className="min-h-0 flex-1">
+          {groups.length === 0 ? (
+            <p className="px-3 py-8 text-center text-xs text-muted-foreground">
+              {isLoading
+                ? t('Loading...')
+                : t('No tasks found in package.json, Makefile, justfile, Cargo.toml or go.mod')}
+            </p>
+          ) : (
+            <div className="space-y-3 p-1">
+              {groups.map((group) => (
+                <div key={group.source}>
+                  <div className="px-2 py-1 text-xs font-medium text-muted-foreground">
+                    {sourceLabels[group.source]}
+                  </div>
+                  {group.tasks.map((task) => {
+                    const run = runs[getTaskRunKey(cwd, task.id)];
+                    const isRunning = run?.status === 'running';
+                    return (
+                      <div
+                        key={task.id}
+                        className={cn(
+                          'group flex items-center gap-1 rounded-sm',
+                          selectedId === task.id ? 'bg-accent' : 'hover:bg-accent/50'
+                        )}
+                      >
+                        <button
+                          type="button"
+                          onClick={() => select(task.id)}
+                          onDoubleClick={() => !isRunning && handleRun(task)}
+                          className="min-w-0 flex-1 px-2 py-1 text-left"
+                          title={task.command}
+                        >
+                          <div className="flex items-center gap-1.5">
+                            <span className="truncate text-sm">{task.name}</span>
+                            {run && <TaskStatusBadge run={run} />}
+                          </div>
+                          {task.description && (
+                            <div className="truncate text-xs text-muted-foreground">
+                              {task.description}
+                            </div>
+                          )}
+                        </button>
+                        <div
+                          className={cn(
+                            'flex shrink-0 pr-1',
+                            !isRunning && 'opacity-0 group-hover:opacity-100'
+                          )}
+                        >
+                          {isRunning ? (
+                            <Button
+                              variant="ghost"
+                              size="icon-xs"
+                              onClick={() => handleStop(run)}
+                              title={t('Stop')}
+                            >
+                              <Square />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="icon-xs"
+                              onClick={() => handleRun(task)}
+                              title={t('Run')}
+                            >
+                              <Play />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </div>
+
+      <div className="flex min-w-0 flex-1 flex-col">
+        {selectedRun && (
+          <div className="flex h-9 shrink-0 items-center gap-2 border-b px-3">
+            <span className="truncate font-mono text-xs text-muted-foreground">
+              {selectedRun.task.command}
+            </span>
+            <TaskStatusBadge run={selectedRun} />
+            <div className="ml-auto flex shrink-0 items-center gap-1">
+              {selectedRun.status === 'running' ? (
+                <Button variant="ghost" size="xs" onClick={() => handleStop(selectedRun)}>
+                  <Square />
+                  {t('Stop')}
+                </Button>
+              ) : (
+                <>
+                  <Button variant="ghost" size="xs" onClick={() => handleRun(selectedRun.task)}>
+                    <RotateCcw />
+                    {t('Run again')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon-xs"
+                    onClick={() => useTaskRunnerStore.getState().remove(selectedRun.key)}
+                    title={t('Close')}
+                  >
+                    <X />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+        <div className="relative min-h-0 flex-1">
+          {/* Keep every run mounted so its pty and output survive selection changes */}
+          {Object.values(runs).map((run) => {
+            const isVisible = run.key === selectedRun?.key;
+            return (
+              <div
+                key={`${run.key}:${run.runId}`}
+                className={cn(
+                  'absolute inset-2',
+                  !isVisible && 'invisible pointer-events-none opacity-0'
+                )}
+              >
+                <TaskTerminal run={run} isActive={isActive && isVisible} />
+              </div>
+            );
+          })}
+          {!selectedRun && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Empty className="border-0">
+                <EmptyMedia variant="icon">
+                  <Play className="h-4.5 w-4.5" />
+                </EmptyMedia>
+                <EmptyHeader>
+                  <EmptyTitle>{t('No task output')}</EmptyTitle>
+                  <EmptyDescription>{t('Run a task to see its output here')}</EmptyDescription>
+                </EmptyHeader>
+              </Empty>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
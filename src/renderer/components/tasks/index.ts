@@ -0,0 +1 @@
+export { TasksPanel } from './TasksPanel';
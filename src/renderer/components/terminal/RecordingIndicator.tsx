@@ -0,0 +1,21 @@
+import { useI18n } from '@/i18n';
+
+interface RecordingIndicatorProps {
+  onStop: () => void;
+}
+
+export function RecordingIndicator({ onStop }: RecordingIndicatorProps) {
+  const { t } = useI18n();
+
+  return (
+    <button
+      type="button"
+      onClick={onStop}
+      className="absolute top-2 left-3 z-10 flex items-center gap-1.5 rounded-full bg-background/80 px-2 py-0.5 text-xs font-medium text-destructive shadow-sm backdrop-blur transition-colors hover:bg-background"
+      title={t('Stop recording')}
+    >
+      <span className="h-2 w-2 animate-pulse rounded-full bg-destructive" />
+      REC
+    </button>
+  );
+}
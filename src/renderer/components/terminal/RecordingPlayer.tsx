@@ -0,0 +1,177 @@
+import { Terminal } from '@xterm/xterm';
+import { Pause, Play, RotateCcw } from 'lucide-react';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectItem,
+  SelectPopup,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useI18n } from '@/i18n';
+import { type Asciicast, countEventsUntil, formatPlaybackTime, parseResize } from '@/lib/asciicast';
+import { defaultDarkTheme, getXtermTheme } from '@/lib/ghosttyTheme';
+import { useSettingsStore } from '@/stores/settings';
+import '@xterm/xterm/css/xterm.css';
+
+const SPEEDS = ['0.5', '1', '2', '4', '8'];
+
+interface RecordingPlayerProps {
+  cast: Asciicast;
+}
+
+/**
+ * Replays an asciicast recording in a read-only xterm. Seeking backwards resets
+ * the terminal and re-applies every event up to the target time.
+ */
+export function RecordingPlayer({ cast }: RecordingPlayerProps) {
+  const { t } = useI18n();
+  const terminalTheme = useSettingsStore((s) => s.terminalTheme);
+  const terminalFontSize = useSettingsStore((s) => s.terminalFontSize);
+  const terminalFontFamily = useSettingsStore((s) => s.terminalFontFamily);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  // Playback position: time on the timeline and number of events already written
+  const positionRef = useRef({ time: 0, index: 0 });
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState('1');
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const terminal = new Terminal({
+      cols: cast.width,
+      rows: cast.height,
+      theme: getXtermTheme(terminalTheme) ?? defaultDarkTheme,
+      fontSize: terminalFontSize,
+      fontFamily: terminalFontFamily,
+      disableStdin: true,
+      cursorBlink: false,
+      scrollback: 10000,
+    });
+    terminal.open(container);
+    terminalRef.current = terminal;
+    positionRef.current = { time: 0, index: 0 };
+    setTime(0);
+    setPlaying(true);
+
+    return () => {
+      terminal.dispose();
+      terminalRef.current = null;
+    };
+  }, [cast, terminalTheme, terminalFontSize, terminalFontFamily]);
+
+  const seek = useCallback(
+    (target: number) => {
+      const terminal = terminalRef.current;
+      if (!terminal) return;
+
+      const clamped = Math.max(0, Math.min(target, cast.duration));
+      const index = countEventsUntil(cast.events, clamped);
+      let from = positionRef.current.index;
+      if (index < from) {
+        terminal.reset();
+        terminal.resize(cast.width, cast.height);
+        from = 0;
+      }
+
+      let output = '';
+      for (let i = from; i < index; i++) {
+        const event = cast.events[i];
+        if (event.type === 'o') {
+          output += event.data;
+        } else if (event.type === 'r') {
+          const size = parseResize(event.data);
+          if (size) {
+            if (output) terminal.write(output);
+            output = '';
+            terminal.resize(size.cols, size.rows);
+          }
+        }
+      }
+      if (output) terminal.write(output);
+
+      positionRef.current = { time: clamped, index };
+      setTime(clamped);
+    },
+    [cast]
+  );
+
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = positionRef.current.time + ((now - last) / 1000) * Number(speed);
+      last = now;
+      seek(next);
+      if (next >= cast.duration) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, cast, seek]);
+
+  const handleTogglePlay = () => {
+    if (!playing && positionRef.current.time >= cast.duration) {
+      seek(0);
+    }
+    setPlaying((value) => !value);
+  };
+
+  const finished = !playing && time >= cast.duration;
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-2">
+      <div
+        className="min-h-0 flex-1 overflow-auto rounded-md p-2"
+        style={{ backgroundColor: (getXtermTheme(terminalTheme) ?? defaultDarkTheme).background }}
+      >
+        <div ref={containerRef} className="w-fit" />
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon-sm"
+          onClick={handleTogglePlay}
+          title={playing ? t('Pause') : t('Play')}
+        >
+          {playing ? <Pause /> : finished ? <RotateCcw /> : <Play />}
+        </Button>
+        <span className="w-24 shrink-0 text-xs tabular-nums text-muted-foreground">
+          {formatPlaybackTime(time)} / {formatPlaybackTime(cast.duration)}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={cast.duration || 0}
+          step={0.1}
+          value={time}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="h-1 flex-1 cursor-pointer appearance-none rounded-full bg-input accent-primary"
+          aria-label={t('Seek')}
+        />
+        <Select value={speed} onValueChange={(value: string | null) => value && setSpeed(value)}>
+          <SelectTrigger size="sm" className="w-20 min-w-20">
+            <SelectValue>{`${speed}x`}</SelectValue>
+          </SelectTrigger>
+          <SelectPopup>
+            {SPEEDS.map((value) => (
+              <SelectItem key={value} value={value}>
+                {`${value}x`}
+              </SelectItem>
+            ))}
+          </SelectPopup>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import type { TerminalRecordingInfo } from '@shared/types';
+import { Download, Film, Loader2, Trash2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogDescription,
+  DialogHeader,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+import { type Asciicast, parseAsciicast } from '@/lib/asciicast';
+import { cn } from '@/lib/utils';
+import { RecordingPlayer } from './RecordingPlayer';
+
+// Replays skip pauses longer than this many seconds
+const IDLE_TIME_LIMIT = 2;
+
+interface RecordingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cwd: string;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Terminal and agent session recordings of a worktree, with a replay viewer */
+export function RecordingsDialog({ open, onOpenChange, cwd }: RecordingsDialogProps) {
+  const { t } = useI18n();
+  const [recordings, setRecordings] = useState<TerminalRecordingInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selected, setSelected] = useState<TerminalRecordingInfo | null>(null);
+  const [cast, setCast] = useState<Asciicast | null>(null);
+  const [castError, setCastError] = useState<string | null>(null);
+
+  const loadRecordings = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setRecordings(await window.electronAPI.terminal.listRecordings(cwd));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [cwd]);
+
+  useEffect(() => {
+    if (open) {
+      loadRecordings();
+    } else {
+      setSelected(null);
+      setCast(null);
+    }
+  }, [open, loadRecordings]);
+
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    setCast(null);
+    setCastError(null);
+    window.electronAPI.terminal
+      .readRecording(selected.path)
+      .then((text) => {
+        if (!cancelled) setCast(parseAsciicast(text, IDLE_TIME_LIMIT));
+      })
+      .catch((error) => {
+        if (!cancelled) setCastError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selected]);
+
+  const handleExport = async (recording: TerminalRecordingInfo) => {
+    try {
+      const savedPath = await window.electronAPI.terminal.exportRecording(recording.path);
+      if (savedPath) {
+        toastManager.add({
+          type: 'success',
+          title: t('Recording exported'),
+          description: savedPath,
+          timeout: 3000,
+        });
+      }
+    } catch (error) {
+      toastManager.add({
+        type: 'error',
+        title: t('Export failed'),
+        description: error instanceof Error ? error.message : String(error),
+        timeout: 5000,
+      });
+    }
+  };
+
+  const handleDelete = async (recording: TerminalRecordingInfo) => {
+    try {
+      await window.electronAPI.terminal.deleteRecording(recording.path);
+      if (selected?.path === recording.path) {
+        setSelected(null);
+        setCast(null);
+      }
+      await loadRecordings();
+    } catch (error) {
+      toastManager.add({
+        type: 'error',
+        title: t('Delete failed'),
+        description: error instanceof Error ? error.message : String(error),
+        timeout: 5000,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="flex h-[85vh] max-w-6xl flex-col">
+        <DialogHeader>
+          <DialogTitle>{t('Terminal recordings')}</DialogTitle>
+          <DialogDescription>{t('Recordings are saved in .enso/recordings')}</DialogDescription>
+        </DialogHeader>
+        <div className="flex min-h-0 flex-1 gap-3 px-6 pb-6">
+          <ScrollArea className="w-64 shrink-0 rounded-md border">
+            {isLoading && recordings.length === 0 ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : recordings.length === 0 ? (
+              <p className="px-3 py-8 text-center text-xs text-muted-foreground">
+                {t('No recordings yet. Right-click a terminal to start recording.')}
+              </p>
+            ) : (
+              <div className="space-y-0.5 p-1">
+                {recordings.map((recording) => (
+                  <div
+                    key={recording.path}
+                    className={cn(
+                      'group flex items-center gap-1 rounded-sm',
+                      selected?.path === recording.path ? 'bg-accent' : 'hover:bg-accent/50'
+                    )}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setSelected(recording)}
+                      className="min-w-0 flex-1 px-2 py-1.5 text-left"
+                    >
+                      <div className="truncate text-sm">{recording.title}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(recording.createdAt).toLocaleString()} ·{' '}
+                        {formatSize(recording.size)}
+                      </div>
+                    </button>
+                    <div className="flex shrink-0 pr-1 opacity-0 group-hover:opacity-100">
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        onClick={() => handleExport(recording)}
+                        title={t('Export')}
+                      >
+                        <Download />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-xs"
+                        onClick={() => handleDelete(recording)}
+                        title={t('Delete')}
+                      >
+                        <Trash2 />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+          <div className="flex min-w-0 flex-1 flex-col">
+            {cast ? (
+              <RecordingPlayer cast={cast} />
+            ) : castError ? (
+              <p className="m-auto text-sm text-destructive">{castError}</p>
+            ) : selected ? (
+              <Loader2 className="m-auto h-5 w-5 animate-spin text-muted-foreground" />
+            ) : (
+              <div className="m-auto flex flex-col items-center gap-2 text-muted-foreground">
+                <Film className="h-8 w-8 opacity-50" />
+                <span className="text-sm">{t('Select a recording to replay')}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -1,9 +1,11 @@
 import { ArrowDown } from 'lucide-react';
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { useTerminalRecording } from '@/hooks/useTerminalRecording';
 import { useTerminalScrollToBottom } from '@/hooks/useTerminalScrollToBottom';
 import { useXterm } from '@/hooks/useXterm';
 import { useI18n } from '@/i18n';
 import { useSettingsStore } from '@/stores/settings';
+import { RecordingIndicator } from './RecordingIndicator';
 import { TerminalSearchBar, type TerminalSearchBarRef } from './TerminalSearchBar';
 
 interface ShellTerminalProps {
@@ -42,6 +44,17 @@ export function ShellTerminal({
     return true;
   }, []);
 
+  // Last title reported by the shell, used to name recordings
+  const titleRef = useRef('');
+  const handleTitleChange = useCallback(
+    (title: string) => {
+      titleRef.current = title;
+      onTitleChange?.(title);
+    },
+    [onTitleChange]
+  );
+  const getTitle = useCallback(() => titleRef.current || 'terminal', []);
+
   const {
     containerRef,
     isLoading,
@@ -52,12 +65,13 @@ export function ShellTerminal({
     terminal,
     clear,
     refreshRenderer,
+    getPtyId,
   } = useXterm({
     cwd,
     isActive,
     initialCommand,
     onExit,
-    onTitleChange,
+    onTitleChange: handleTitleChange,
     onInit,
     onSplit,
     onMerge,
@@ -68,6 +82,11 @@ export function ShellTerminal({
   const searchBarRef = useRef<TerminalSearchBarRef>(null);
   const _xtermKeybindings = useSettingsStore((state) => state.xtermKeybindings);
   const { showScrollToBottom, handleScrollToBottom } = useTerminalScrollToBottom(terminal);
+  const { isRecording, canRecord, toggleRecording } = useTerminalRecording({
+    getPtyId,
+    cwd,
+    getTitle,
+  });
 
   // Handle keyboard shortcuts
   const handleKeyDown = useCallback(
@@ -97,6 +116,11 @@ export function ShellTerminal({
         { id: 'separator-0', label: '', type: 'separator' },
         { id: 'clear', label: t('Clear terminal') },
         { id: 'refresh', label: t('Refresh terminal') },
+        {
+          id: 'record',
+          label: isRecording ? t('Stop recording') : t('Start recording'),
+          disabled: !canRecord,
+        },
         { id: 'separator-1', label: '', type: 'separator' },
         { id: 'copy', label: t('Copy'), disabled: !terminal?.hasSelection() },
         { id: 'paste', label: t('Paste') },
@@ -118,6 +142,9 @@ export function ShellTerminal({
         case 'refresh':
           refreshRenderer();
           break;
+        case 'record':
+          toggleRecording();
+          break;
         case 'copy':
           if (terminal?.hasSelection()) {
             const selection = terminal.getSelection();
@@ -134,7 +161,18 @@ export function ShellTerminal({
           break;
       }
     },
-    [terminal, clear, refreshRenderer, t, onSplit, onMerge, canMerge]
+    [
+      terminal,
+      clear,
+      refreshRenderer,
+      t,
+      onSplit,
+      onMerge,
+      canMerge,
+      isRecording,
+      canRecord,
+      toggleRecording,
+    ]
   );
 
   useEffect(() => {
@@ -157,6 +195,7 @@ export function ShellTerminal({
       style={{ backgroundColor: settings.theme.background, contain: 'strict' }}
     >
       <div ref={containerRef} className="h-full w-full" />
+      {isRecording && <RecordingIndicator onStop={toggleRecording} />}
       <TerminalSearchBar
         ref={searchBarRef}
         isOpen={isSearchOpen}
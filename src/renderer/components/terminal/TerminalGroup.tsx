@@ -1,11 +1,12 @@
 import { motion } from 'framer-motion';
-import { List, Plus, Terminal, X } from 'lucide-react';
+import { Film, List, Plus, Terminal, X } from 'lucide-react';
 import { useCallback, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useI18n } from '@/i18n';
 import { springFast } from '@/lib/motion';
 import { cn } from '@/lib/utils';
 import { useSettingsStore } from '@/stores/settings';
+import { RecordingsDialog } from './RecordingsDialog';
 import type { TerminalGroup as TerminalGroupType, TerminalTab } from './types';
 import { getNextTabName } from './types';
 
@@ -38,6 +39,7 @@ export function TerminalGroup({
   const inputRef = useRef<HTMLInputElement>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
+  const [recordingsOpen, setRecordingsOpen] = useState(false);
   const [draggedId, setDraggedId] = useState<string | null>(null);
   const [dropTargetId, setDropTargetId] = useState<string | null>(null);
 
@@ -357,8 +359,19 @@ export function TerminalGroup({
             })}
           </div>
 
-          {/* New Tab Button */}
+          {/* New Tab and Recordings Buttons */}
           <div className="flex items-center border-l border-border px-1">
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                setRecordingsOpen(true);
+              }}
+              className="flex h-7 w-7 items-center justify-center rounded text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+              title={t('Terminal recordings')}
+            >
+              <Film className="h-4 w-4" />
+            </button>
             <button
               type="button"
               onClick={(e) => {
@@ -390,6 +403,8 @@ export function TerminalGroup({
           </Button>
         </div>
       )}
+
+      <RecordingsDialog open={recordingsOpen} onOpenChange={setRecordingsOpen} cwd={cwd} />
     </div>
   );
 }
@@ -0,0 +1,95 @@
+import { CircleCheck, Loader2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+import type { TodoTask } from './types';
+
+interface CloseIssueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repoPath: string;
+  task: TodoTask | null;
+}
+
+/**
+ * Asks whether to close the GitHub issue of a task that was just moved to done,
+ * optionally leaving a comment on it.
+ */
+export function CloseIssueDialog({ open, onOpenChange, repoPath, task }: CloseIssueDialogProps) {
+  const { t } = useI18n();
+  const [comment, setComment] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+
+  useEffect(() => {
+    if (open && task) {
+      setComment(task.branch ? t('Done in {{branch}}', { branch: task.branch }) : '');
+    }
+  }, [open, task, t]);
+
+  const issueNumber = task?.issueNumber;
+  if (issueNumber === undefined) return null;
+
+  const handleClose = async () => {
+    setIsClosing(true);
+    try {
+      await window.electronAPI.git.closeIssue(repoPath, issueNumber, comment);
+      toastManager.add({
+        type: 'success',
+        title: t('Issue #{{number}} closed', { number: issueNumber }),
+        timeout: 3000,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toastManager.add({
+        type: 'error',
+        title: t('Failed to close issue'),
+        description: error instanceof Error ? error.message : String(error),
+        timeout: 5000,
+      });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('Close issue #{{number}}?', { number: issueNumber })}</DialogTitle>
+          <DialogDescription>{task?.title}</DialogDescription>
+        </DialogHeader>
+        <DialogPanel>
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={t('Comment (optional)')}
+            className="min-h-24 text-sm"
+          />
+        </DialogPanel>
+        <DialogFooter variant="bare">
+          <DialogClose render={<Button variant="outline" />}>{t('Keep open')}</DialogClose>
+          <Button onClick={handleClose} disabled={isClosing}>
+            {isClosing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <CircleCheck className="mr-2 h-4 w-4" />
+            )}
+            {t('Close issue')}
+          </Button>
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -12,19 +12,36 @@ import {
   useSensors,
 } from '@dnd-kit/core';
 import { arrayMove, sortableKeyboardCoordinates } from '@dnd-kit/sortable';
-import { ListOrdered, Plus, Square } from 'lucide-react';
+import {
+  CircleDot,
+  Columns3,
+  Layers,
+  ListOrdered,
+  Loader2,
+  Plus,
+  Square,
+  Tag,
+  X,
+} from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { toastManager } from '@/components/ui/toast';
 import { useAutoExecuteTask } from '@/hooks/useAutoExecuteTask';
+import { useParallelExecuteTasks } from '@/hooks/useParallelExecuteTasks';
+import { useTaskRunRecorder } from '@/hooks/useTaskRunRecorder';
 import { useI18n } from '@/i18n';
-import { selectTasks, useTodoStore } from '@/stores/todo';
+import { collectLabels, getBoardStatuses, isTaskBlocked } from '@/lib/todoTasks';
+import { cn } from '@/lib/utils';
+import { selectColumns, selectTasks, useTodoStore } from '@/stores/todo';
+import { CloseIssueDialog } from './CloseIssueDialog';
 import { KanbanColumn } from './KanbanColumn';
+import { ParallelExecuteDialog } from './ParallelExecuteDialog';
 import { TaskCard } from './TaskCard';
 import { TaskDialog } from './TaskDialog';
-import { TASK_STATUS_LIST, type TaskStatus, type TodoTask } from './types';
+import type { TaskStatus, TodoTask } from './types';
 import { useEnabledAgents } from './useEnabledAgents';
 
-const STATUS_LABELS: Record<TaskStatus, string> = {
+const STATUS_LABELS: Record<string, string> = {
   todo: 'To Do',
   'in-progress': 'In Progress',
   done: 'Done',
@@ -34,14 +51,23 @@ interface KanbanBoardProps {
   repoPath: string;
   worktreePath?: string;
   onSwitchToAgent?: () => void;
+  onSwitchWorktree?: (worktreePath: string) => void;
 }
 
-export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanBoardProps) {
+export function KanbanBoard({
+  repoPath,
+  worktreePath,
+  onSwitchToAgent,
+  onSwitchWorktree,
+}: KanbanBoardProps) {
   const { t } = useI18n();
   const tasks = useTodoStore((s) => selectTasks(s, repoPath));
+  const columns = useTodoStore((s) => selectColumns(s, repoPath));
+  const statuses = useMemo(() => getBoardStatuses(columns), [columns]);
   const moveTask = useTodoStore((s) => s.moveTask);
   const reorderTasks = useTodoStore((s) => s.reorderTasks);
   const loadTasks = useTodoStore((s) => s.loadTasks);
+  const importIssues = useTodoStore((s) => s.importIssues);
   const enabledAgents = useEnabledAgents();
 
   // Auto-execute hook
@@ -52,6 +78,22 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
     enabledAgents
   );
 
+  // Parallel execute hook
+  const {
+    parallelExecute,
+    startParallelExecute,
+    stop: stopParallelExecute,
+  } = useParallelExecuteTasks(repoPath, enabledAgents);
+  const [parallelDialogOpen, setParallelDialogOpen] = useState(false);
+  useTaskRunRecorder(repoPath);
+  const activeParallelCount = useMemo(
+    () =>
+      Object.values(parallelExecute.runs).filter(
+        (run) => run.phase === 'preparing' || run.phase === 'running'
+      ).length,
+    [parallelExecute.runs]
+  );
+
   // Load tasks from SQLite on mount / repoPath change
   useEffect(() => {
     loadTasks(repoPath);
@@ -61,6 +103,9 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
   const [editingTask, setEditingTask] = useState<TodoTask | null>(null);
   const [defaultStatus, setDefaultStatus] = useState<TaskStatus>('todo');
   const [activeId, setActiveId] = useState<string | null>(null);
+  const [isImportingIssues, setIsImportingIssues] = useState(false);
+  // Task moved to done whose GitHub issue may be closed
+  const [closingIssueTask, setClosingIssueTask] = useState<TodoTask | null>(null);
 
   // Track pending cross-column move during drag (not yet committed)
   const [pendingMove, setPendingMove] = useState<{
@@ -72,29 +117,58 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
   // Snapshot of tasks at drag start for cancel rollback
   const dragStartSnapshotRef = useRef<TodoTask[] | null>(null);
 
+  // Label filter: show tasks carrying any of the selected labels
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
+  const labels = useMemo(() => collectLabels(tasks), [tasks]);
+
+  // Drop filters for labels that no longer exist
+  useEffect(() => {
+    setLabelFilter((prev) => {
+      const next = prev.filter((label) => labels.includes(label));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [labels]);
+
+  // Newly added column opens in rename mode
+  const [editingColumnId, setEditingColumnId] = useState<string | null>(null);
+  const handleAddColumn = useCallback(() => {
+    const column = useTodoStore.getState().addColumn(repoPath, t('New Column'));
+    setEditingColumnId(column.id);
+  }, [repoPath, t]);
+
+  const toggleLabelFilter = useCallback((label: string) => {
+    setLabelFilter((prev) =>
+      prev.includes(label) ? prev.filter((l) => l !== label) : [...prev, label]
+    );
+  }, []);
+
   // Merge pending move into displayed tasks
   const displayTasks = useMemo(() => {
-    if (!pendingMove) return tasks;
-    return tasks.map((t) =>
+    const visible =
+      labelFilter.length === 0
+        ? tasks
+        : tasks.filter((t) => t.labels.some((label) => labelFilter.includes(label)));
+    if (!pendingMove) return visible;
+    return visible.map((t) =>
       t.id === pendingMove.taskId ? { ...t, status: pendingMove.toStatus } : t
     );
-  }, [tasks, pendingMove]);
+  }, [tasks, pendingMove, labelFilter]);
 
   const tasksByStatus = useMemo(() => {
-    const grouped: Record<TaskStatus, TodoTask[]> = {
-      todo: [],
-      'in-progress': [],
-      done: [],
-    };
+    const grouped: Record<string, TodoTask[]> = {};
+    for (const status of statuses) {
+      grouped[status] = [];
+    }
     for (const task of displayTasks) {
-      grouped[task.status]?.push(task);
+      // Tasks of a column removed elsewhere show up in todo
+      (grouped[task.status] ?? grouped.todo).push(task);
     }
     // Sort by order within each column
-    for (const status of TASK_STATUS_LIST) {
+    for (const status of statuses) {
       grouped[status].sort((a, b) => a.order - b.order);
     }
     return grouped;
-  }, [displayTasks]);
+  }, [displayTasks, statuses]);
 
   const activeTask = useMemo(
     () => (activeId ? (displayTasks.find((t) => t.id === activeId) ?? null) : null),
@@ -111,10 +185,10 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
     (id: string): TaskStatus | null => {
       const task = displayTasks.find((t) => t.id === id);
       if (task) return task.status;
-      if (TASK_STATUS_LIST.includes(id as TaskStatus)) return id as TaskStatus;
+      if (statuses.includes(id)) return id;
       return null;
     },
-    [displayTasks]
+    [displayTasks, statuses]
   );
 
   const handleDragStart = useCallback(
@@ -133,8 +207,8 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
       const activeColumn = findColumn(String(active.id));
       let overColumn = findColumn(String(over.id));
 
-      if (TASK_STATUS_LIST.includes(String(over.id) as TaskStatus)) {
-        overColumn = String(over.id) as TaskStatus;
+      if (statuses.includes(String(over.id))) {
+        overColumn = String(over.id);
       }
 
       if (!activeColumn || !overColumn || activeColumn === overColumn) return;
@@ -153,7 +227,7 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
         toStatus: overColumn,
       });
     },
-    [findColumn, displayTasks]
+    [findColumn, displayTasks, statuses]
   );
 
   const handleDragEnd = useCallback(
@@ -172,6 +246,14 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
         const overItems = tasksByStatus[currentPendingMove.toStatus];
         const newOrder = overItems.length > 0 ? overItems[overItems.length - 1].order + 1 : 0;
         moveTask(repoPath, currentPendingMove.taskId, currentPendingMove.toStatus, newOrder);
+        const movedTask = tasks.find((t) => t.id === currentPendingMove.taskId);
+        if (
+          currentPendingMove.toStatus === 'done' &&
+          currentPendingMove.fromStatus !== 'done' &&
+          movedTask?.issueNumber !== undefined
+        ) {
+          setClosingIssueTask(movedTask);
+        }
         return;
       }
 
@@ -179,8 +261,8 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
       const activeColumn = findColumn(String(active.id));
       let overColumn = findColumn(String(over.id));
 
-      if (TASK_STATUS_LIST.includes(String(over.id) as TaskStatus)) {
-        overColumn = String(over.id) as TaskStatus;
+      if (statuses.includes(String(over.id))) {
+        overColumn = String(over.id);
       }
 
       if (!activeColumn || !overColumn) return;
@@ -200,7 +282,7 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
         }
       }
     },
-    [findColumn, tasksByStatus, reorderTasks, moveTask, repoPath, pendingMove]
+    [findColumn, tasksByStatus, reorderTasks, moveTask, repoPath, pendingMove, statuses, tasks]
   );
 
   const handleDragCancel = useCallback((_event: DragCancelEvent) => {
@@ -228,8 +310,39 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
   const handleStartAutoExecute = useCallback(() => {
     if (todoTasks.length === 0) return;
     const taskIds = todoTasks.map((t) => t.id);
-    startAutoExecute(taskIds);
-  }, [todoTasks, startAutoExecute]);
+    if (!startAutoExecute(taskIds) && todoTasks.every((task) => isTaskBlocked(task, tasks))) {
+      toastManager.add({
+        type: 'warning',
+        title: t('All todo tasks are blocked'),
+        description: t('Finish the tasks they depend on first'),
+      });
+    }
+  }, [todoTasks, tasks, startAutoExecute, t]);
+
+  const handleImportIssues = useCallback(async () => {
+    setIsImportingIssues(true);
+    try {
+      const issues = await window.electronAPI.git.listIssues(repoPath);
+      const count = importIssues(repoPath, issues);
+      toastManager.add({
+        type: 'success',
+        title:
+          count > 0
+            ? t('Imported {{count}} issues', { count })
+            : t('All open issues are already on the board'),
+        timeout: 3000,
+      });
+    } catch (error) {
+      toastManager.add({
+        type: 'error',
+        title: t('Failed to import issues'),
+        description: error instanceof Error ? error.message : String(error),
+        timeout: 5000,
+      });
+    } finally {
+      setIsImportingIssues(false);
+    }
+  }, [repoPath, importIssues, t]);
 
   return (
     <div className="flex h-full flex-col">
@@ -237,6 +350,42 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
       <div className="flex items-center justify-between border-b px-4 py-2">
         <h2 className="text-sm font-medium text-foreground">{t('Todo')}</h2>
         <div className="flex items-center gap-2">
+          {/* Parallel execute controls */}
+          {(parallelExecute.running || activeParallelCount > 0) && (
+            <div className="flex items-center gap-1">
+              <span className="text-xs text-muted-foreground">
+                {t('{{running}} running · {{queued}} queued', {
+                  running: activeParallelCount,
+                  queued: parallelExecute.queue.length,
+                })}
+              </span>
+              {parallelExecute.running && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1 text-xs text-destructive hover:text-destructive"
+                  onClick={stopParallelExecute}
+                  title={t('Stop starting queued tasks')}
+                >
+                  <Square className="h-3.5 w-3.5" />
+                  {t('Stop')}
+                </Button>
+              )}
+            </div>
+          )}
+          {!autoExecute.running && !parallelExecute.running && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 text-xs"
+              onClick={() => setParallelDialogOpen(true)}
+              disabled={todoTasks.length === 0 || enabledAgents.length === 0}
+              title={enabledAgents.length === 0 ? t('No enabled agents') : undefined}
+            >
+              <Layers className="h-3.5 w-3.5" />
+              {t('Run in Parallel')}
+            </Button>
+          )}
           {/* Auto-execute controls */}
           {autoExecute.running ? (
             <div className="flex items-center gap-1">
@@ -274,6 +423,25 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
               {t('Auto Execute')}
             </Button>
           )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={handleImportIssues}
+            disabled={isImportingIssues}
+            title={t('Import open GitHub issues as tasks')}
+          >
+            {isImportingIssues ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <CircleDot className="h-3.5 w-3.5" />
+            )}
+            {t('Import Issues')}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={handleAddColumn}>
+            <Columns3 className="h-3.5 w-3.5" />
+            {t('Add Column')}
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -286,6 +454,40 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
         </div>
       </div>
 
+      {/* Label filter */}
+      {labels.length > 0 && (
+        <div className="flex items-center gap-2 border-b px-4 py-1.5 text-xs text-muted-foreground">
+          <Tag className="h-3 w-3 shrink-0" />
+          <div className="flex flex-wrap gap-1">
+            {labels.map((label) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleLabelFilter(label)}
+                className={cn(
+                  'rounded px-1.5 py-0.5 text-[10px] transition-colors',
+                  labelFilter.includes(label)
+                    ? 'bg-primary/15 text-primary'
+                    : 'bg-muted hover:bg-accent hover:text-foreground'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {labelFilter.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setLabelFilter([])}
+              className="ml-auto flex items-center gap-0.5 hover:text-foreground"
+            >
+              <X className="h-3 w-3" />
+              {t('Clear')}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Auto-execute queue display */}
       {autoExecute.running && autoExecute.queue.length > 0 && (
         <div className="border-b bg-muted/30 px-4 py-1.5">
@@ -320,20 +522,29 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
         onDragCancel={handleDragCancel}
       >
         <div className="flex flex-1 overflow-x-auto">
-          {TASK_STATUS_LIST.map((status) => (
-            <KanbanColumn
-              key={status}
-              status={status}
-              title={t(STATUS_LABELS[status])}
-              tasks={tasksByStatus[status]}
-              onAddTask={() => handleAddTask(status)}
-              onEditTask={handleEditTask}
-              onDeleteTask={(taskId) => useTodoStore.getState().deleteTask(repoPath, taskId)}
-              repoPath={repoPath}
-              worktreePath={worktreePath}
-              onSwitchToAgent={onSwitchToAgent}
-            />
-          ))}
+          {statuses.map((status) => {
+            const column = columns.find((c) => c.id === status);
+            return (
+              <KanbanColumn
+                key={status}
+                status={status}
+                title={column ? column.title : t(STATUS_LABELS[status])}
+                isCustom={!!column}
+                isEditingTitle={editingColumnId === status}
+                onEditingTitleChange={(editing) => setEditingColumnId(editing ? status : null)}
+                onRename={(title) => useTodoStore.getState().renameColumn(repoPath, status, title)}
+                onDeleteColumn={() => useTodoStore.getState().deleteColumn(repoPath, status)}
+                tasks={tasksByStatus[status]}
+                onAddTask={() => handleAddTask(status)}
+                onEditTask={handleEditTask}
+                onDeleteTask={(taskId) => useTodoStore.getState().deleteTask(repoPath, taskId)}
+                repoPath={repoPath}
+                worktreePath={worktreePath}
+                onSwitchToAgent={onSwitchToAgent}
+                onSwitchWorktree={onSwitchWorktree}
+              />
+            );
+          })}
         </div>
 
         <DragOverlay>
@@ -357,6 +568,21 @@ export function KanbanBoard({ repoPath, worktreePath, onSwitchToAgent }: KanbanB
         defaultStatus={defaultStatus}
         repoPath={repoPath}
       />
+
+      <ParallelExecuteDialog
+        open={parallelDialogOpen}
+        onOpenChange={setParallelDialogOpen}
+        tasks={todoTasks}
+        defaultLimit={parallelExecute.limit}
+        onStart={startParallelExecute}
+      />
+
+      <CloseIssueDialog
+        open={closingIssueTask !== null}
+        onOpenChange={(open) => !open && setClosingIssueTask(null)}
+        repoPath={repoPath}
+        task={closingIssueTask}
+      />
     </div>
   );
 }
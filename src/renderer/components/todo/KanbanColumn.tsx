@@ -1,7 +1,7 @@
 import { useDroppable } from '@dnd-kit/core';
 import { SortableContext, verticalListSortingStrategy } from '@dnd-kit/sortable';
-import { Plus } from 'lucide-react';
-import { useMemo } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
@@ -11,6 +11,12 @@ import type { TaskStatus, TodoTask } from './types';
 interface KanbanColumnProps {
   status: TaskStatus;
   title: string;
+  /** User-defined column, can be renamed and deleted */
+  isCustom?: boolean;
+  isEditingTitle?: boolean;
+  onEditingTitleChange?: (editing: boolean) => void;
+  onRename?: (title: string) => void;
+  onDeleteColumn?: () => void;
   tasks: TodoTask[];
   onAddTask: () => void;
   onEditTask: (task: TodoTask) => void;
@@ -18,11 +24,17 @@ interface KanbanColumnProps {
   repoPath: string;
   worktreePath?: string;
   onSwitchToAgent?: () => void;
+  onSwitchWorktree?: (worktreePath: string) => void;
 }
 
 export function KanbanColumn({
   status,
   title,
+  isCustom,
+  isEditingTitle,
+  onEditingTitleChange,
+  onRename,
+  onDeleteColumn,
   tasks,
   onAddTask,
   onEditTask,
@@ -30,28 +42,76 @@ export function KanbanColumn({
   repoPath,
   worktreePath,
   onSwitchToAgent,
+  onSwitchWorktree,
 }: KanbanColumnProps) {
   const { t } = useI18n();
   const taskIds = useMemo(() => tasks.map((t) => t.id), [tasks]);
 
   const { setNodeRef, isOver } = useDroppable({ id: status });
 
+  const [draftTitle, setDraftTitle] = useState(title);
+  const titleInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    if (isEditingTitle) setDraftTitle(title);
+  }, [isEditingTitle, title]);
+  useEffect(() => {
+    if (isEditingTitle) titleInputRef.current?.select();
+  }, [isEditingTitle]);
+
+  const commitTitle = () => {
+    const trimmed = draftTitle.trim();
+    if (trimmed && trimmed !== title) onRename?.(trimmed);
+    onEditingTitleChange?.(false);
+  };
+
   return (
     <div className="flex min-w-[240px] flex-1 flex-col border-r border-border/50 last:border-r-0">
       {/* Column header */}
-      <div className="flex items-center justify-between border-b border-border/50 px-2 py-1.5">
-        <div className="flex items-center gap-1.5">
-          <span className="text-xs font-medium text-foreground">{title}</span>
+      <div className="group/column flex items-center justify-between border-b border-border/50 px-2 py-1.5">
+        <div className="flex min-w-0 items-center gap-1.5">
+          {isEditingTitle ? (
+            <input
+              ref={titleInputRef}
+              className="h-5 w-32 rounded-sm border bg-transparent px-1 text-xs outline-none ring-ring focus:ring-1"
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onBlur={commitTitle}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitTitle();
+                if (e.key === 'Escape') onEditingTitleChange?.(false);
+              }}
+            />
+          ) : (
+            <span
+              className="truncate text-xs font-medium text-foreground"
+              onDoubleClick={isCustom ? () => onEditingTitleChange?.(true) : undefined}
+              title={isCustom ? t('Double-click to rename') : undefined}
+            >
+              {title}
+            </span>
+          )}
           <span className="text-[10px] text-muted-foreground/60">{tasks.length}</span>
         </div>
-        <button
-          type="button"
-          onClick={onAddTask}
-          className="flex h-5 w-5 items-center justify-center rounded-sm text-muted-foreground/60 hover:bg-accent/50 hover:text-foreground transition-colors"
-          title={t('New Task')}
-        >
-          <Plus className="h-3 w-3" />
-        </button>
+        <div className="flex items-center">
+          {isCustom && (
+            <button
+              type="button"
+              onClick={onDeleteColumn}
+              className="flex h-5 w-5 items-center justify-center rounded-sm text-muted-foreground/60 opacity-0 transition-opacity hover:bg-destructive/10 hover:text-destructive group-hover/column:opacity-100"
+              title={t('Delete column')}
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onAddTask}
+            className="flex h-5 w-5 items-center justify-center rounded-sm text-muted-foreground/60 hover:bg-accent/50 hover:text-foreground transition-colors"
+            title={t('New Task')}
+          >
+            <Plus className="h-3 w-3" />
+          </button>
+        </div>
       </div>
 
       {/* Task list */}
@@ -70,6 +130,7 @@ export function KanbanColumn({
                 repoPath={repoPath}
                 worktreePath={worktreePath}
                 onSwitchToAgent={onSwitchToAgent}
+                onSwitchWorktree={onSwitchWorktree}
               />
             ))}
             {tasks.length === 0 && (
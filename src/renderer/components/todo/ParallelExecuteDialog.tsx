@@ -0,0 +1,134 @@
+import { Layers } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectItem,
+  SelectPopup,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useI18n } from '@/i18n';
+import type { TodoTask } from './types';
+
+const MAX_PARALLEL_LIMIT = 6;
+const LIMIT_OPTIONS = Array.from({ length: MAX_PARALLEL_LIMIT }, (_, i) => String(i + 1));
+
+interface ParallelExecuteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tasks: TodoTask[];
+  defaultLimit: number;
+  onStart: (taskIds: string[], limit: number) => void;
+}
+
+export function ParallelExecuteDialog({
+  open,
+  onOpenChange,
+  tasks,
+  defaultLimit,
+  onStart,
+}: ParallelExecuteDialogProps) {
+  const { t } = useI18n();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [limit, setLimit] = useState(defaultLimit);
+
+  // Select every todo task when the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(new Set(tasks.map((task) => task.id)));
+      setLimit(defaultLimit);
+    }
+  }, [open, tasks, defaultLimit]);
+
+  const toggleTask = (taskId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(taskId);
+      } else {
+        next.delete(taskId);
+      }
+      return next;
+    });
+  };
+
+  const handleStart = () => {
+    // Keep board order
+    onStart(
+      tasks.filter((task) => selectedIds.has(task.id)).map((task) => task.id),
+      limit
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('Run in Parallel')}</DialogTitle>
+          <DialogDescription>
+            {t('Each task runs in a new worktree with its own agent session')}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogPanel className="space-y-4">
+          <ScrollArea className="max-h-64 rounded-md border">
+            <div className="p-1">
+              {tasks.map((task) => (
+                <label
+                  key={task.id}
+                  className="flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent/50"
+                >
+                  <Checkbox
+                    checked={selectedIds.has(task.id)}
+                    onCheckedChange={(checked) => toggleTask(task.id, checked === true)}
+                  />
+                  <span className="truncate">{task.title}</span>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <div className="text-sm font-medium">{t('Max concurrent tasks')}</div>
+              <p className="text-xs text-muted-foreground">
+                {t('Remaining tasks start as running ones finish')}
+              </p>
+            </div>
+            <Select value={String(limit)} onValueChange={(v) => setLimit(Number(v))}>
+              <SelectTrigger className="w-20">
+                <SelectValue>{String(limit)}</SelectValue>
+              </SelectTrigger>
+              <SelectPopup>
+                {LIMIT_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectPopup>
+            </Select>
+          </div>
+        </DialogPanel>
+        <DialogFooter variant="bare">
+          <DialogClose render={<Button variant="outline" />}>{t('Cancel')}</DialogClose>
+          <Button onClick={handleStart} disabled={selectedIds.size === 0}>
+            <Layers className="mr-2 h-4 w-4" />
+            {t('Start {{count}} tasks', { count: selectedIds.size })}
+          </Button>
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -1,13 +1,30 @@
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical, Pencil, Play, Trash2 } from 'lucide-react';
-import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import {
+  AlertCircle,
+  CalendarDays,
+  CircleDot,
+  GitBranch,
+  GripVertical,
+  History,
+  ListTree,
+  Loader2,
+  Lock,
+  Pencil,
+  Play,
+  Trash2,
+} from 'lucide-react';
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { normalizePath } from '@/App/storage';
+import { ActivityIndicator } from '@/components/ui/activity-indicator';
 import { useI18n } from '@/i18n';
+import { getOpenBlockers } from '@/lib/todoTasks';
 import { cn } from '@/lib/utils';
 import { useAgentSessionsStore } from '@/stores/agentSessions';
-import { useTodoStore } from '@/stores/todo';
+import { selectParallelExecute, selectTasks, useTodoStore } from '@/stores/todo';
+import { useWorktreeActivityStore } from '@/stores/worktreeActivity';
+import { TaskRunHistoryDialog } from './TaskRunHistoryDialog';
 import type { TaskPriority, TodoTask } from './types';
 import { type ResolvedAgent, useEnabledAgents } from './useEnabledAgents';
 
@@ -28,6 +45,11 @@ function formatRelativeTime(timestamp: number): string {
   return `${days}d ago`;
 }
 
+function startOfToday(): number {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
 interface TaskCardProps {
   task: TodoTask;
   isOverlay?: boolean;
@@ -36,6 +58,7 @@ interface TaskCardProps {
   repoPath: string;
   worktreePath?: string;
   onSwitchToAgent?: () => void;
+  onSwitchWorktree?: (worktreePath: string) => void;
 }
 
 export function TaskCard({
@@ -46,10 +69,32 @@ export function TaskCard({
   repoPath,
   worktreePath,
   onSwitchToAgent,
+  onSwitchWorktree,
 }: TaskCardProps) {
   const { t } = useI18n();
+  const allTasks = useTodoStore((s) => selectTasks(s, repoPath));
+  const openBlockers = useMemo(() => getOpenBlockers(task, allTasks), [task, allTasks]);
+  const parentTask = useMemo(
+    () => (task.parentId ? allTasks.find((t) => t.id === task.parentId) : undefined),
+    [task.parentId, allTasks]
+  );
+  const subtasks = useMemo(
+    () => allTasks.filter((t) => t.parentId === task.id),
+    [task.id, allTasks]
+  );
+  const isOverdue =
+    task.dueDate !== undefined && task.status !== 'done' && task.dueDate < startOfToday();
+  const parallelRun = useTodoStore((s) => selectParallelExecute(s, repoPath).runs[task.id]);
+  const taskWorktreePath = task.worktreePath ?? parallelRun?.worktreePath;
+  const activityState = useWorktreeActivityStore((s) =>
+    taskWorktreePath ? (s.activityStates[taskWorktreePath] ?? 'idle') : 'idle'
+  );
+  const diffStats = useWorktreeActivityStore((s) =>
+    taskWorktreePath ? s.diffStats[taskWorktreePath] : undefined
+  );
   const enabledAgents = useEnabledAgents();
   const [showAgentMenu, setShowAgentMenu] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const portalRef = useRef<HTMLDivElement>(null);
   const triggerRef = useRef<HTMLButtonElement>(null);
@@ -183,6 +228,99 @@ export function TaskCard({
             </span>
           )}
         </div>
+        {/* Labels, due date, dependencies and subtasks */}
+        {(task.labels.length > 0 ||
+          task.issueNumber !== undefined ||
+          task.dueDate !== undefined ||
+          openBlockers.length > 0 ||
+          parentTask ||
+          subtasks.length > 0) && (
+          <div className="mt-0.5 flex flex-wrap items-center gap-1.5 text-[10px] text-muted-foreground">
+            {task.issueNumber !== undefined && (
+              <span className="flex items-center gap-0.5 tabular-nums" title={t('GitHub issue')}>
+                <CircleDot className="h-3 w-3" />#{task.issueNumber}
+              </span>
+            )}
+            {openBlockers.length > 0 && (
+              <span
+                className="flex items-center gap-0.5 text-amber-600 dark:text-amber-400"
+                title={`${t('Blocked by')}: ${openBlockers.map((b) => b.title).join(', ')}`}
+              >
+                <Lock className="h-3 w-3" />
+                {t('Blocked')}
+              </span>
+            )}
+            {parentTask && (
+              <span className="flex min-w-0 items-center gap-0.5" title={t('Subtask of')}>
+                <ListTree className="h-3 w-3 shrink-0" />
+                <span className="max-w-32 truncate">{parentTask.title}</span>
+              </span>
+            )}
+            {subtasks.length > 0 && (
+              <span className="flex items-center gap-0.5 tabular-nums" title={t('Subtasks')}>
+                <ListTree className="h-3 w-3" />
+                {subtasks.filter((st) => st.status === 'done').length}/{subtasks.length}
+              </span>
+            )}
+            {task.dueDate !== undefined && (
+              <span
+                className={cn('flex items-center gap-0.5', isOverdue && 'text-destructive')}
+                title={isOverdue ? t('Overdue') : t('Due date')}
+              >
+                <CalendarDays className="h-3 w-3" />
+                {new Date(task.dueDate).toLocaleDateString()}
+              </span>
+            )}
+            {task.labels.map((label) => (
+              <span key={label} className="rounded bg-muted px-1 py-px">
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
+        {/* Worktree the task runs in (parallel execution) */}
+        {(taskWorktreePath || parallelRun) && (
+          <div className="mt-0.5 flex items-center gap-1.5 text-[10px] text-muted-foreground">
+            {parallelRun?.phase === 'preparing' && (
+              <span className="flex items-center gap-1">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                {t('Creating worktree...')}
+              </span>
+            )}
+            {taskWorktreePath && (
+              <>
+                <ActivityIndicator state={activityState} size="sm" />
+                <button
+                  type="button"
+                  onClick={() => onSwitchWorktree?.(taskWorktreePath)}
+                  disabled={!onSwitchWorktree}
+                  className="flex min-w-0 items-center gap-0.5 rounded-sm hover:text-foreground hover:underline disabled:no-underline"
+                  title={t('Open worktree')}
+                >
+                  <GitBranch className="h-3 w-3 shrink-0" />
+                  <span className="truncate">{task.branch ?? parallelRun?.branch}</span>
+                </button>
+                {diffStats && diffStats.insertions > 0 && (
+                  <span className="text-emerald-600 dark:text-emerald-400">
+                    +{diffStats.insertions}
+                  </span>
+                )}
+                {diffStats && diffStats.deletions > 0 && (
+                  <span className="text-red-600 dark:text-red-400">-{diffStats.deletions}</span>
+                )}
+              </>
+            )}
+            {parallelRun?.phase === 'failed' && (
+              <span
+                className="flex min-w-0 items-center gap-1 text-destructive"
+                title={parallelRun.error}
+              >
+                <AlertCircle className="h-3 w-3 shrink-0" />
+                <span className="truncate">{parallelRun.error}</span>
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Time */}
@@ -246,6 +384,14 @@ export function TaskCard({
               )}
           </div>
         )}
+        <button
+          type="button"
+          onClick={() => setHistoryOpen(true)}
+          className="flex h-6 w-6 items-center justify-center rounded-sm text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+          title={t('Run history')}
+        >
+          <History className="h-3 w-3" />
+        </button>
         <button
           type="button"
           onClick={onEdit}
@@ -263,6 +409,15 @@ export function TaskCard({
           <Trash2 className="h-3 w-3" />
         </button>
       </div>
+
+      {!isOverlay && (
+        <TaskRunHistoryDialog
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          repoPath={repoPath}
+          task={task}
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,7 @@
 import { Loader2, Sparkles } from 'lucide-react';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Dialog,
   DialogDescription,
@@ -10,10 +11,18 @@ import {
   DialogPopup,
   DialogTitle,
 } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectItem,
+  SelectPopup,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toastManager } from '@/components/ui/toast';
 import { useI18n } from '@/i18n';
+import { parseLabels, wouldCreateDependencyCycle } from '@/lib/todoTasks';
 import { useSettingsStore } from '@/stores/settings';
-import { useTodoStore } from '@/stores/todo';
+import { selectTasks, useTodoStore } from '@/stores/todo';
 import type { TaskPriority, TaskStatus, TodoTask } from './types';
 
 interface TaskDialogProps {
@@ -24,6 +33,22 @@ interface TaskDialogProps {
   repoPath: string;
 }
 
+const NO_PARENT = '__none__';
+
+/** `<input type="date">` value for a local-midnight timestamp */
+function toDateInputValue(timestamp?: number): string {
+  if (timestamp === undefined) return '';
+  const date = new Date(timestamp);
+  const pad2 = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
+
+function fromDateInputValue(value: string): number | undefined {
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return undefined;
+  return new Date(year, month - 1, day).getTime();
+}
+
 const PRIORITY_OPTIONS: { value: TaskPriority; label: string }[] = [
   { value: 'low', label: 'Low' },
   { value: 'medium', label: 'Medium' },
@@ -39,7 +64,22 @@ export function TaskDialog({ open, onOpenChange, task, defaultStatus, repoPath }
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [priority, setPriority] = useState<TaskPriority>('medium');
+  const [labelsInput, setLabelsInput] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [parentId, setParentId] = useState<string>(NO_PARENT);
+  const [blockedBy, setBlockedBy] = useState<string[]>([]);
   const [isPolishing, setIsPolishing] = useState(false);
+  const allTasks = useTodoStore((s) => selectTasks(s, repoPath));
+
+  // Subtasks are one level deep: a parent must not be a subtask or have this task as parent
+  const parentOptions = useMemo(
+    () => allTasks.filter((t) => t.id !== task?.id && !t.parentId),
+    [allTasks, task?.id]
+  );
+  const blockerOptions = useMemo(
+    () => allTasks.filter((t) => t.id !== task?.id),
+    [allTasks, task?.id]
+  );
 
   useEffect(() => {
     if (open) {
@@ -48,10 +88,18 @@ export function TaskDialog({ open, onOpenChange, task, defaultStatus, repoPath }
         setTitle(task.title);
         setDescription(task.description);
         setPriority(task.priority);
+        setLabelsInput(task.labels.join(', '));
+        setDueDate(toDateInputValue(task.dueDate));
+        setParentId(task.parentId ?? NO_PARENT);
+        setBlockedBy(task.blockedBy);
       } else {
         setTitle('');
         setDescription('');
         setPriority('medium');
+        setLabelsInput('');
+        setDueDate('');
+        setParentId(NO_PARENT);
+        setBlockedBy([]);
       }
     }
   }, [open, task]);
@@ -60,25 +108,29 @@ export function TaskDialog({ open, onOpenChange, task, defaultStatus, repoPath }
     const trimmedTitle = title.trim();
     if (!trimmedTitle) return;
 
+    const fields = {
+      title: trimmedTitle,
+      description: description.trim(),
+      priority,
+      labels: parseLabels(labelsInput),
+      dueDate: fromDateInputValue(dueDate),
+      parentId: parentId === NO_PARENT ? undefined : parentId,
+      blockedBy,
+    };
     if (task) {
-      updateTask(repoPath, task.id, {
-        title: trimmedTitle,
-        description: description.trim(),
-        priority,
-      });
+      updateTask(repoPath, task.id, fields);
     } else {
-      addTask(repoPath, {
-        title: trimmedTitle,
-        description: description.trim(),
-        priority,
-        status: defaultStatus,
-      });
+      addTask(repoPath, { ...fields, status: defaultStatus });
     }
     onOpenChange(false);
   }, [
     title,
     description,
     priority,
+    labelsInput,
+    dueDate,
+    parentId,
+    blockedBy,
     task,
     repoPath,
     defaultStatus,
@@ -210,6 +262,91 @@ export function TaskDialog({ open, onOpenChange, task, defaultStatus, repoPath }
                 ))}
               </div>
             </div>
+
+            {/* Labels + due date */}
+            <div className="flex gap-3">
+              <div className="flex flex-1 flex-col gap-1.5">
+                <label className="text-sm font-medium text-foreground">{t('Labels')}</label>
+                <input
+                  className="h-9 w-full rounded-md border bg-transparent px-3 text-sm outline-none ring-ring focus:ring-2 placeholder:text-muted-foreground"
+                  placeholder={t('e.g. frontend, bug')}
+                  value={labelsInput}
+                  onChange={(e) => setLabelsInput(e.target.value)}
+                />
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <label className="text-sm font-medium text-foreground">{t('Due date')}</label>
+                <input
+                  type="date"
+                  className="h-9 rounded-md border bg-transparent px-3 text-sm outline-none ring-ring focus:ring-2"
+                  value={dueDate}
+                  onChange={(e) => setDueDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {/* Parent task */}
+            {parentOptions.length > 0 && (
+              <div className="flex flex-col gap-1.5">
+                <label className="text-sm font-medium text-foreground">{t('Subtask of')}</label>
+                <Select value={parentId} onValueChange={(v) => setParentId(v ?? NO_PARENT)}>
+                  <SelectTrigger>
+                    <SelectValue>
+                      {parentId === NO_PARENT
+                        ? t('No parent task')
+                        : (allTasks.find((t) => t.id === parentId)?.title ?? parentId)}
+                    </SelectValue>
+                  </SelectTrigger>
+                  <SelectPopup>
+                    <SelectItem value={NO_PARENT}>{t('No parent task')}</SelectItem>
+                    {parentOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.title}
+                      </SelectItem>
+                    ))}
+                  </SelectPopup>
+                </Select>
+              </div>
+            )}
+
+            {/* Blocked by */}
+            {blockerOptions.length > 0 && (
+              <div className="flex flex-col gap-1.5">
+                <label className="text-sm font-medium text-foreground">{t('Blocked by')}</label>
+                <div className="max-h-32 overflow-y-auto rounded-md border p-1">
+                  {blockerOptions.map((option) => {
+                    const checked = blockedBy.includes(option.id);
+                    // Existing tasks can't depend on something that waits on them
+                    const createsCycle =
+                      !!task &&
+                      !checked &&
+                      wouldCreateDependencyCycle(allTasks, task.id, option.id);
+                    return (
+                      <label
+                        key={option.id}
+                        className={`flex items-center gap-2 rounded-sm px-2 py-1 text-sm ${
+                          createsCycle ? 'opacity-50' : 'cursor-pointer hover:bg-accent/50'
+                        }`}
+                        title={createsCycle ? t('Would create a dependency cycle') : undefined}
+                      >
+                        <Checkbox
+                          checked={checked}
+                          disabled={createsCycle}
+                          onCheckedChange={(value) =>
+                            setBlockedBy((prev) =>
+                              value === true
+                                ? [...prev, option.id]
+                                : prev.filter((id) => id !== option.id)
+                            )
+                          }
+                        />
+                        <span className="truncate">{option.title}</span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </div>
         </DialogPanel>
 
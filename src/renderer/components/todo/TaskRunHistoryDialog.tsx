@@ -0,0 +1,202 @@
+import { CheckCircle2, ChevronRight, FileDiff, Loader2, XCircle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useI18n } from '@/i18n';
+import { formatCost, formatDuration, formatTokens } from '@/lib/statusFormat';
+import { cn } from '@/lib/utils';
+import { selectTaskRuns, useTodoStore } from '@/stores/todo';
+import type { TodoTask, TodoTaskRun } from './types';
+
+interface TaskRunHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repoPath: string;
+  task: TodoTask;
+}
+
+const FILE_STATUS_COLORS: Record<string, string> = {
+  A: 'text-emerald-600 dark:text-emerald-400',
+  D: 'text-red-600 dark:text-red-400',
+  R: 'text-blue-600 dark:text-blue-400',
+};
+
+/**
+ * Agent runs of a task: when and with what it ran, what it cost, which files it
+ * changed and what it reported at the end.
+ */
+export function TaskRunHistoryDialog({
+  open,
+  onOpenChange,
+  repoPath,
+  task,
+}: TaskRunHistoryDialogProps) {
+  const { t } = useI18n();
+  const runs = useTodoStore((s) => selectTaskRuns(s, task.id));
+  const loadTaskRuns = useTodoStore((s) => s.loadTaskRuns);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) loadTaskRuns(repoPath, task.id);
+  }, [open, repoPath, task.id, loadTaskRuns]);
+
+  // Newest run starts expanded
+  useEffect(() => {
+    if (open) setExpandedRunId((current) => current ?? runs[0]?.id ?? null);
+  }, [open, runs]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="max-w-2xl" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>{t('Run history')}</DialogTitle>
+          <DialogDescription>{task.title}</DialogDescription>
+        </DialogHeader>
+        <DialogPanel>
+          {runs.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {t('This task has not been run by an agent yet')}
+            </p>
+          ) : (
+            <ScrollArea className="max-h-[60vh]">
+              <div className="space-y-2">
+                {runs.map((run) => (
+                  <TaskRunItem
+                    key={run.id}
+                    run={run}
+                    expanded={expandedRunId === run.id}
+                    onToggle={() =>
+                      setExpandedRunId((current) => (current === run.id ? null : run.id))
+                    }
+                  />
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogPanel>
+        <DialogFooter variant="bare">
+          <DialogClose render={<Button variant="outline">{t('Close')}</Button>} />
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
+
+function TaskRunItem({
+  run,
+  expanded,
+  onToggle,
+}: {
+  run: TodoTaskRun;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const { t } = useI18n();
+
+  const statusIcon =
+    run.status === 'running' ? (
+      <Loader2 className="h-3.5 w-3.5 shrink-0 animate-spin text-muted-foreground" />
+    ) : run.status === 'completed' ? (
+      <CheckCircle2 className="h-3.5 w-3.5 shrink-0 text-emerald-600 dark:text-emerald-400" />
+    ) : (
+      <XCircle className="h-3.5 w-3.5 shrink-0 text-red-600 dark:text-red-400" />
+    );
+  const statusLabel = {
+    running: t('Running'),
+    completed: t('Completed'),
+    failed: t('Not completed'),
+  }[run.status];
+
+  return (
+    <div className="rounded-md border">
+      <button
+        type="button"
+        onClick={onToggle}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs hover:bg-accent/50"
+      >
+        <ChevronRight
+          className={cn('h-3 w-3 shrink-0 transition-transform', expanded && 'rotate-90')}
+        />
+        <span title={statusLabel}>{statusIcon}</span>
+        <span className="font-medium">{new Date(run.startedAt).toLocaleString()}</span>
+        <span className="truncate text-muted-foreground">{run.agentName}</span>
+        <span className="ml-auto flex shrink-0 items-center gap-2 tabular-nums text-muted-foreground">
+          {run.endedAt !== undefined && <span>{formatDuration(run.endedAt - run.startedAt)}</span>}
+          {run.costUsd !== undefined && <span>{formatCost(run.costUsd)}</span>}
+          {run.changedFiles.length > 0 && (
+            <span className="flex items-center gap-0.5">
+              <FileDiff className="h-3 w-3" />
+              {run.changedFiles.length}
+            </span>
+          )}
+        </span>
+      </button>
+      {expanded && (
+        <div className="space-y-3 border-t px-3 py-2 text-xs">
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+            <span>
+              {t('Status')}: {statusLabel}
+            </span>
+            {run.model && (
+              <span>
+                {t('Model')}: {run.model}
+              </span>
+            )}
+            {run.inputTokens !== undefined && run.outputTokens !== undefined && (
+              <span>
+                {t('Tokens (in/out)')}: {formatTokens(run.inputTokens, run.outputTokens)}
+              </span>
+            )}
+            <span className="truncate" title={run.cwd}>
+              {run.cwd}
+            </span>
+          </div>
+
+          <div className="space-y-1">
+            <div className="font-medium">{t('Changed files')}</div>
+            {run.changedFiles.length === 0 ? (
+              <p className="text-muted-foreground">
+                {run.status === 'running' ? t('Available when the run ends') : t('No changes')}
+              </p>
+            ) : (
+              <div className="space-y-0.5 font-mono">
+                {run.changedFiles.map((file) => (
+                  <div key={file.path} className="flex gap-2">
+                    <span
+                      className={cn(
+                        'w-3 shrink-0',
+                        FILE_STATUS_COLORS[file.status] ?? 'text-yellow-600 dark:text-yellow-400'
+                      )}
+                    >
+                      {file.status}
+                    </span>
+                    <span className="truncate">{file.path}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {run.finalMessage && (
+            <div className="space-y-1">
+              <div className="font-medium">{t('Final message')}</div>
+              <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words rounded-md bg-muted p-2 font-sans">
+                {run.finalMessage}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,9 +14,15 @@ interface TodoPanelProps {
   worktreePath?: string;
   isActive?: boolean;
   onSwitchToAgent?: () => void;
+  onSwitchWorktree?: (worktreePath: string) => void;
 }
 
-export function TodoPanel({ repoPath, worktreePath, onSwitchToAgent }: TodoPanelProps) {
+export function TodoPanel({
+  repoPath,
+  worktreePath,
+  onSwitchToAgent,
+  onSwitchWorktree,
+}: TodoPanelProps) {
   const { t } = useI18n();
 
   if (!repoPath) {
@@ -41,6 +47,7 @@ export function TodoPanel({ repoPath, worktreePath, onSwitchToAgent }: TodoPanel
         repoPath={repoPath}
         worktreePath={worktreePath}
         onSwitchToAgent={onSwitchToAgent}
+        onSwitchWorktree={onSwitchWorktree}
       />
     </div>
   );
@@ -1,5 +1,9 @@
+import type { TodoColumnData, TodoTaskRunData } from '@shared/types';
+
 export type TaskPriority = 'low' | 'medium' | 'high';
-export type TaskStatus = 'todo' | 'in-progress' | 'done';
+export type BuiltinTaskStatus = 'todo' | 'in-progress' | 'done';
+/** A built-in status or the ID of a user-defined column */
+export type TaskStatus = BuiltinTaskStatus | (string & {});
 
 export interface TodoTask {
   id: string;
@@ -12,9 +16,26 @@ export interface TodoTask {
   order: number;
   /** ID of the session executing this task (set when auto-execute starts) */
   sessionId?: string;
+  /** Worktree the task ran in (set by parallel execution) */
+  worktreePath?: string;
+  /** Branch created for the task's worktree */
+  branch?: string;
+  labels: string[];
+  /** Parent task ID when this task is a subtask */
+  parentId?: string;
+  /** IDs of tasks that must be done before this one can start */
+  blockedBy: string[];
+  /** Due date as a timestamp (local midnight) */
+  dueDate?: number;
+  /** GitHub issue the task was imported from */
+  issueNumber?: number;
 }
 
-export const TASK_STATUS_LIST: TaskStatus[] = ['todo', 'in-progress', 'done'];
+export type TodoColumn = TodoColumnData;
+
+export type TodoTaskRun = TodoTaskRunData;
+
+export const TASK_STATUS_LIST: BuiltinTaskStatus[] = ['todo', 'in-progress', 'done'];
 
 /** Auto-execute state per repo */
 export interface AutoExecuteState {
@@ -27,3 +48,27 @@ export interface AutoExecuteState {
   /** Session ID of the current execution */
   currentSessionId: string | null;
 }
+
+export type ParallelTaskPhase = 'preparing' | 'running' | 'done' | 'failed';
+
+/** One task of a parallel run, executed in its own worktree */
+export interface ParallelTaskRun {
+  taskId: string;
+  phase: ParallelTaskPhase;
+  branch?: string;
+  worktreePath?: string;
+  sessionId?: string;
+  error?: string;
+}
+
+/** Parallel execution state per repo */
+export interface ParallelExecuteState {
+  /** Whether queued tasks are still being started */
+  running: boolean;
+  /** Maximum number of tasks executing at the same time */
+  limit: number;
+  /** Task IDs waiting for a free slot */
+  queue: string[];
+  /** Runs keyed by task ID, kept after they finish so the board can link to the worktree */
+  runs: Record<string, ParallelTaskRun>;
+}
@@ -34,6 +34,7 @@ import { Field, FieldDescription, FieldLabel } from '@/components/ui/field';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useI18n } from '@/i18n';
+import { buildBranchNamePrompt, buildWorktreePath } from '@/lib/worktreeTask';
 import { Z_INDEX } from '@/lib/z-index';
 import { useSettingsStore } from '@/stores/settings';
 
@@ -107,13 +108,9 @@ export function CreateWorktreeDialog({
   const pathSep = isWindows ? '\\' : '/';
   const getWorktreePath = (branchName: string) => {
     if (!home) return '';
-    // Extract last directory name from projectName when a full path is passed in.
-    const normalizedName = projectName.replace(/\\/g, '/');
-    const projectBaseName = normalizedName.split('/').filter(Boolean).pop() || projectName;
-
     // Use configured path or default to ~/ensoai/workspaces
     const basePath = defaultWorktreePath || [home, 'ensoai', 'workspaces'].join(pathSep);
-    return [basePath, projectBaseName, branchName].join(pathSep);
+    return buildWorktreePath(basePath, projectName, branchName, pathSep);
   };
 
   // Branch item type for combobox
@@ -324,17 +321,7 @@ export function CreateWorktreeDialog({
 
     setGeneratingBranchName(true);
     try {
-      const trimmedDescription = newBranchName.trim();
-      const now = new Date();
-      const pad2 = (value: number) => String(value).padStart(2, '0');
-      const currentDate = `${now.getFullYear()}${pad2(now.getMonth() + 1)}${pad2(now.getDate())}`;
-      const currentTime = `${pad2(now.getHours())}:${pad2(now.getMinutes())}:${pad2(
-        now.getSeconds()
-      )}`;
-      const prompt = branchNameGenerator.prompt
-        .replaceAll('{description}', trimmedDescription)
-        .replaceAll('{current_date}', currentDate)
-        .replaceAll('{current_time}', currentTime);
+      const prompt = buildBranchNamePrompt(branchNameGenerator.prompt, newBranchName.trim());
       const result = await window.electronAPI.git.generateBranchName(workdir, {
         prompt,
         provider: branchNameGenerator.provider,
@@ -0,0 +1,72 @@
+import type { DevServerPort } from '@shared/types';
+import { ExternalLink, Eye } from 'lucide-react';
+import { useState } from 'react';
+import { Menu, MenuItem, MenuPopup, MenuTrigger } from '@/components/ui/menu';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import { useWorktreePorts } from '@/stores/devServers';
+import { DevServerPreviewDialog } from './DevServerPreviewDialog';
+
+interface DevServerPortsProps {
+  worktreePath: string;
+  // Shown in the preview title, usually the branch name
+  label?: string | null;
+  className?: string;
+}
+
+/** Ports of the dev servers running in a worktree, each opening in the browser or a preview */
+export function DevServerPorts({ worktreePath, label, className }: DevServerPortsProps) {
+  const { t } = useI18n();
+  const ports = useWorktreePorts(worktreePath);
+  const [preview, setPreview] = useState<DevServerPort | null>(null);
+
+  if (ports.length === 0 && !preview) return null;
+
+  return (
+    <>
+      <span className={cn('flex shrink-0 items-center gap-1', className)}>
+        {ports.map((port) => (
+          <Menu key={port.port}>
+            <MenuTrigger
+              render={
+                <button
+                  type="button"
+                  className="rounded bg-sky-500/15 px-1 py-0.5 font-mono text-[10px] font-medium text-sky-600 hover:opacity-80 dark:text-sky-400"
+                  title={port.url}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  :{port.port}
+                </button>
+              }
+            />
+            <MenuPopup>
+              <MenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setPreview(port);
+                }}
+              >
+                <Eye className="mr-2 h-4 w-4" />
+                {t('Preview')}
+              </MenuItem>
+              <MenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  window.electronAPI.shell.openExternal(port.url);
+                }}
+              >
+                <ExternalLink className="mr-2 h-4 w-4" />
+                {t('Open in browser')}
+              </MenuItem>
+            </MenuPopup>
+          </Menu>
+        ))}
+      </span>
+      <DevServerPreviewDialog
+        url={preview?.url ?? null}
+        title={preview ? (label ? `${label} · :${preview.port}` : `:${preview.port}`) : ''}
+        onOpenChange={(open) => !open && setPreview(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,128 @@
+import type { WebviewTag } from 'electron';
+import { Crosshair, ExternalLink, RotateCw } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogHeader, DialogPopup, DialogTitle } from '@/components/ui/dialog';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import { WEB_INSPECTOR_PREVIEW_SCRIPT } from '@/lib/webInspectorScript';
+import { useSettingsStore } from '@/stores/settings';
+
+interface DevServerPreviewDialogProps {
+  url: string | null;
+  title: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Embedded preview of a dev server. With the Web Inspector enabled, the element
+ * picker can be injected so picked elements go to the active agent session.
+ */
+export function DevServerPreviewDialog({ url, title, onOpenChange }: DevServerPreviewDialogProps) {
+  const { t } = useI18n();
+  const webInspectorEnabled = useSettingsStore((s) => s.webInspectorEnabled);
+  const webviewRef = useRef<WebviewTag | null>(null);
+  const [pickerEnabled, setPickerEnabled] = useState(false);
+  const [currentUrl, setCurrentUrl] = useState(url);
+
+  useEffect(() => {
+    setCurrentUrl(url);
+    setPickerEnabled(false);
+  }, [url]);
+
+  // Re-inject the picker after every navigation while it is enabled
+  useEffect(() => {
+    const webview = webviewRef.current;
+    if (!webview || !url) return;
+
+    const inject = () => {
+      if (pickerEnabled && webInspectorEnabled) {
+        webview.executeJavaScript(WEB_INSPECTOR_PREVIEW_SCRIPT).catch((error) => {
+          console.warn('[DevServerPreview] Failed to inject Web Inspector:', error);
+        });
+      }
+    };
+    const handleNavigate = (event: { url: string }) => setCurrentUrl(event.url);
+
+    webview.addEventListener('dom-ready', inject);
+    webview.addEventListener('did-navigate', handleNavigate);
+    webview.addEventListener('did-navigate-in-page', handleNavigate);
+    return () => {
+      webview.removeEventListener('dom-ready', inject);
+      webview.removeEventListener('did-navigate', handleNavigate);
+      webview.removeEventListener('did-navigate-in-page', handleNavigate);
+    };
+  }, [url, pickerEnabled, webInspectorEnabled]);
+
+  const handleTogglePicker = () => {
+    const webview = webviewRef.current;
+    if (!webview) return;
+    if (pickerEnabled) {
+      // The userscript has no teardown; reloading removes it
+      setPickerEnabled(false);
+      webview.reload();
+    } else {
+      setPickerEnabled(true);
+      webview.executeJavaScript(WEB_INSPECTOR_PREVIEW_SCRIPT).catch((error) => {
+        console.warn('[DevServerPreview] Failed to inject Web Inspector:', error);
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!url} onOpenChange={onOpenChange}>
+      <DialogPopup
+        className="flex h-[85vh] max-w-6xl flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <div className="flex min-h-0 flex-1 flex-col gap-2 px-6 pb-6">
+          <div className="flex items-center gap-1">
+            <span className="min-w-0 flex-1 truncate rounded-md border bg-muted/40 px-2 py-1 font-mono text-xs text-muted-foreground">
+              {currentUrl}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => webviewRef.current?.reload()}
+              title={t('Reload')}
+            >
+              <RotateCw />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={handleTogglePicker}
+              disabled={!webInspectorEnabled}
+              className={cn(pickerEnabled && 'bg-accent text-primary')}
+              title={
+                webInspectorEnabled
+                  ? t('Web Inspector element picker')
+                  : t('Enable Web Inspector in settings to pick elements')
+              }
+            >
+              <Crosshair />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              onClick={() => currentUrl && window.electronAPI.shell.openExternal(currentUrl)}
+              title={t('Open in browser')}
+            >
+              <ExternalLink />
+            </Button>
+          </div>
+          {url && (
+            <webview
+              ref={webviewRef as React.Ref<HTMLWebViewElement>}
+              src={url}
+              className="min-h-0 flex-1 overflow-hidden rounded-md border bg-white"
+            />
+          )}
+        </div>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -0,0 +1,357 @@
+import {
+  closestCenter,
+  DndContext,
+  type DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import type {
+  GitBranch as GitBranchType,
+  GitWorktree,
+  RebaseTodoAction,
+  RebaseTodoItem,
+  WorktreeRebaseResult,
+} from '@shared/types';
+import { GitBranch, GripVertical, ListOrdered, Loader2 } from 'lucide-react';
+import * as React from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Field, FieldDescription, FieldLabel } from '@/components/ui/field';
+import {
+  Select,
+  SelectItem,
+  SelectPopup,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { toastManager } from '@/components/ui/toast';
+import { useWorktreeRebase, useWorktreeRebaseCommits } from '@/hooks/useWorktree';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import { Z_INDEX } from '@/lib/z-index';
+
+const ACTION_COLORS: Record<RebaseTodoAction, string> = {
+  pick: 'text-foreground',
+  reword: 'text-blue-500',
+  squash: 'text-orange-500',
+  fixup: 'text-orange-500',
+  drop: 'text-red-500',
+};
+
+interface InteractiveRebaseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  repoPath: string;
+  worktree: GitWorktree;
+  branches: GitBranchType[];
+  onConflicts?: (result: WorktreeRebaseResult, worktreePath: string) => void;
+  onSuccess?: () => void;
+}
+
+export function InteractiveRebaseDialog({
+  open,
+  onOpenChange,
+  repoPath,
+  worktree,
+  branches,
+  onConflicts,
+  onSuccess,
+}: InteractiveRebaseDialogProps) {
+  const { t } = useI18n();
+  const [targetBranch, setTargetBranch] = React.useState<string>('');
+  const [items, setItems] = React.useState<RebaseTodoItem[]>([]);
+  const [autoStash, setAutoStash] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const rebaseMutation = useWorktreeRebase();
+
+  const { data: commitData, isFetching: commitsLoading } = useWorktreeRebaseCommits(
+    open ? repoPath : null,
+    worktree.path,
+    targetBranch || null
+  );
+  const commits = React.useMemo(() => commitData ?? [], [commitData]);
+
+  const mainBranch = React.useMemo(() => {
+    return branches.find((b) => b.name === 'main' || b.name === 'master' || b.name === 'develop');
+  }, [branches]);
+
+  const availableBranches = React.useMemo(() => {
+    return branches.filter((b) => b.name !== worktree.branch && !b.name.startsWith('remotes/'));
+  }, [branches, worktree.branch]);
+
+  React.useEffect(() => {
+    if (open && !targetBranch && mainBranch) {
+      setTargetBranch(mainBranch.name);
+    }
+  }, [open, targetBranch, mainBranch]);
+
+  // Reset the plan whenever the commit range changes
+  React.useEffect(() => {
+    setItems(
+      commits.map((commit) => ({
+        hash: commit.hash,
+        action: 'pick' as const,
+        message: commit.fullMessage || commit.message,
+      }))
+    );
+    setError(null);
+  }, [commits]);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+    setItems((prev) => {
+      const oldIndex = prev.findIndex((item) => item.hash === active.id);
+      const newIndex = prev.findIndex((item) => item.hash === over.id);
+      return arrayMove(prev, oldIndex, newIndex);
+    });
+  };
+
+  const updateItem = (hash: string, patch: Partial<RebaseTodoItem>) => {
+    setItems((prev) => prev.map((item) => (item.hash === hash ? { ...item, ...patch } : item)));
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setTargetBranch('');
+      setAutoStash(true);
+      setError(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!targetBranch || items.length === 0) return;
+
+    try {
+      const result = await rebaseMutation.mutateAsync({
+        workdir: repoPath,
+        options: { worktreePath: worktree.path, targetBranch, todo: items, autoStash },
+      });
+
+      if (result.success) {
+        toastManager.add({
+          type: 'success',
+          title: t('Rebase completed'),
+          description: t('{{branch}} was rebased onto {{target}}', {
+            branch: worktree.branch || '',
+            target: targetBranch,
+          }),
+        });
+        handleOpenChange(false);
+        onSuccess?.();
+      } else if (result.conflicts && result.conflicts.length > 0) {
+        handleOpenChange(false);
+        onConflicts?.(result, worktree.path);
+      } else if (result.error) {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('Rebase failed'));
+    }
+  };
+
+  const actionOptions: { value: RebaseTodoAction; label: string }[] = [
+    { value: 'pick', label: t('Pick') },
+    { value: 'reword', label: t('Reword') },
+    { value: 'squash', label: t('Squash') },
+    { value: 'fixup', label: t('Fixup') },
+    { value: 'drop', label: t('Drop') },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogPopup className="sm:max-w-2xl">
+        <form onSubmit={handleSubmit} className="flex min-h-0 flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ListOrdered className="h-5 w-5" />
+              {t('Interactive Rebase')}
+            </DialogTitle>
+            <DialogDescription>
+              {t('Reorder, squash, reword or drop commits of "{{branch}}" before rebasing', {
+                branch: worktree.branch || 'unknown',
+              })}
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogPanel className="space-y-4">
+            <Field>
+              <FieldLabel>{t('Onto branch')}</FieldLabel>
+              <Select value={targetBranch} onValueChange={(v) => setTargetBranch(v || '')}>
+                <SelectTrigger>
+                  <SelectValue>{targetBranch || t('Choose target branch...')}</SelectValue>
+                </SelectTrigger>
+                <SelectPopup zIndex={Z_INDEX.DROPDOWN_IN_MODAL}>
+                  {availableBranches.map((branch) => (
+                    <SelectItem key={branch.name} value={branch.name}>
+                      <GitBranch className="mr-2 h-4 w-4" />
+                      {branch.name}
+                    </SelectItem>
+                  ))}
+                </SelectPopup>
+              </Select>
+              <FieldDescription>{t('Commits are applied from top to bottom')}</FieldDescription>
+            </Field>
+
+            <div className="max-h-[45vh] min-h-24 overflow-y-auto rounded-md border">
+              {commitsLoading ? (
+                <div className="flex h-24 items-center justify-center">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : items.length === 0 ? (
+                <div className="flex h-24 items-center justify-center text-sm text-muted-foreground">
+                  {t('No commits to rebase')}
+                </div>
+              ) : (
+                <DndContext
+                  sensors={sensors}
+                  collisionDetection={closestCenter}
+                  onDragEnd={handleDragEnd}
+                >
+                  <SortableContext
+                    items={items.map((item) => item.hash)}
+                    strategy={verticalListSortingStrategy}
+                  >
+                    <div className="divide-y">
+                      {items.map((item) => (
+                        <RebaseTodoRow
+                          key={item.hash}
+                          item={item}
+                          subject={commits.find((c) => c.hash === item.hash)?.message ?? ''}
+                          actionOptions={actionOptions}
+                          onChange={(patch) => updateItem(item.hash, patch)}
+                        />
+                      ))}
+                    </div>
+                  </SortableContext>
+                </DndContext>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={autoStash}
+                onCheckedChange={(checked) => setAutoStash(checked === true)}
+              />
+              {t('Auto stash uncommitted changes')}
+            </label>
+
+            {error && <div className="text-sm text-destructive">{error}</div>}
+          </DialogPanel>
+
+          <DialogFooter>
+            <DialogClose render={<Button variant="outline">{t('Cancel')}</Button>} />
+            <Button
+              type="submit"
+              disabled={rebaseMutation.isPending || commitsLoading || items.length === 0}
+            >
+              {rebaseMutation.isPending ? t('Rebasing...') : t('Start Rebase')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogPopup>
+    </Dialog>
+  );
+}
+
+interface RebaseTodoRowProps {
+  item: RebaseTodoItem;
+  subject: string;
+  actionOptions: { value: RebaseTodoAction; label: string }[];
+  onChange: (patch: Partial<RebaseTodoItem>) => void;
+}
+
+function RebaseTodoRow({ item, subject, actionOptions, onChange }: RebaseTodoRowProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: item.hash,
+  });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  const isMelded = item.action === 'squash' || item.action === 'fixup';
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn('bg-background px-2 py-1.5', isDragging && 'relative z-10 opacity-80 shadow')}
+    >
+      <div className={cn('flex items-center gap-2', isMelded && 'pl-6')}>
+        <button
+          type="button"
+          className="flex h-6 w-4 shrink-0 cursor-grab items-center justify-center text-muted-foreground/60 hover:text-foreground"
+          {...attributes}
+          {...listeners}
+        >
+          <GripVertical className="h-4 w-4" />
+        </button>
+        <Select
+          value={item.action}
+          onValueChange={(v) => v && onChange({ action: v as RebaseTodoAction })}
+        >
+          <SelectTrigger size="sm" className={cn('w-24 min-w-24', ACTION_COLORS[item.action])}>
+            <SelectValue>{actionOptions.find((o) => o.value === item.action)?.label}</SelectValue>
+          </SelectTrigger>
+          <SelectPopup zIndex={Z_INDEX.DROPDOWN_IN_MODAL}>
+            {actionOptions.map((opt) => (
+              <SelectItem key={opt.value} value={opt.value}>
+                {opt.label}
+              </SelectItem>
+            ))}
+          </SelectPopup>
+        </Select>
+        <code className="shrink-0 text-xs text-muted-foreground">{item.hash.slice(0, 8)}</code>
+        <span
+          className={cn(
+            'min-w-0 flex-1 truncate text-sm',
+            item.action === 'drop' && 'text-muted-foreground line-through'
+          )}
+          title={subject}
+        >
+          {subject}
+        </span>
+      </div>
+      {item.action === 'reword' && (
+        <Textarea
+          className="mt-1.5 font-mono text-xs"
+          size="sm"
+          rows={3}
+          value={item.message}
+          onChange={(e) => onChange({ message: e.target.value })}
+        />
+      )}
+    </div>
+  );
+}
@@ -213,6 +213,14 @@ function findConflictChunks(base: string, theirs: string, ours: string): Conflic
   return chunks;
 }
 
+type MergeEditorMode = 'merge' | 'rebase' | 'cherry-pick';
+
+const MODE_ACTION_LABELS: Record<MergeEditorMode, { abort: string; complete: string }> = {
+  merge: { abort: 'Abort Merge', complete: 'Complete Merge' },
+  rebase: { abort: 'Abort Rebase', complete: 'Continue Rebase' },
+  'cherry-pick': { abort: 'Abort Cherry-pick', complete: 'Continue Cherry-pick' },
+};
+
 interface MergeEditorProps {
   conflicts: MergeConflict[];
   workdir: string;
@@ -222,6 +230,8 @@ interface MergeEditorProps {
   onComplete: (message: string) => void;
   onAbort: () => void;
   getConflictContent: (file: string) => Promise<MergeConflictContent>;
+  // Rebase and cherry-pick stops reuse the original commit message, so the input is hidden
+  mode?: MergeEditorMode;
 }
 
 export function MergeEditor({
@@ -233,6 +243,7 @@ export function MergeEditor({
   onComplete,
   onAbort,
   getConflictContent,
+  mode = 'merge',
 }: MergeEditorProps) {
   const { t } = useI18n();
   const { terminalTheme, editorSettings } = useSettingsStore();
@@ -244,6 +255,7 @@ export function MergeEditor({
   const [isSaving, setIsSaving] = useState(false);
   const [currentChunkIndex, setCurrentChunkIndex] = useState(0);
   const [previewSource, setPreviewSource] = useState<'theirs' | 'ours' | null>(null);
+  const needsMessage = mode === 'merge';
   const [commitMessage, setCommitMessage] = useState(`Merge branch '${sourceBranch || 'unknown'}'`);
 
   const theirsEditorRef = useRef<EditorInstance | null>(null);
@@ -713,24 +725,26 @@ export function MergeEditor({
           </span>
         </div>
         <div className="flex items-center gap-2">
-          <Input
-            value={commitMessage}
-            onChange={(e) => setCommitMessage(e.target.value)}
-            placeholder={t('Commit message...')}
-            className="w-64"
-            size="sm"
-          />
+          {needsMessage && (
+            <Input
+              value={commitMessage}
+              onChange={(e) => setCommitMessage(e.target.value)}
+              placeholder={t('Commit message...')}
+              className="w-64"
+              size="sm"
+            />
+          )}
           <Button variant="outline" size="xs" onClick={onAbort}>
             <X className="h-3.5 w-3.5" />
-            {t('Abort Merge')}
+            {t(MODE_ACTION_LABELS[mode].abort)}
           </Button>
           <Button
             size="xs"
             onClick={() => onComplete(commitMessage)}
-            disabled={!allResolved || !commitMessage.trim()}
+            disabled={!allResolved || (needsMessage && !commitMessage.trim())}
           >
             <Check className="h-3.5 w-3.5" />
-            {t('Complete Merge')}
+            {t(MODE_ACTION_LABELS[mode].complete)}
           </Button>
         </div>
       </div>
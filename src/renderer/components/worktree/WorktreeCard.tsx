@@ -9,13 +9,16 @@ import {
   Terminal,
   Trash2,
 } from 'lucide-react';
+import { PullRequestBadge } from '@/components/git/PullRequestBadge';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { GlowCard, useGlowEffectEnabled } from '@/components/ui/glow-card';
 import { Menu, MenuItem, MenuPopup, MenuSeparator, MenuTrigger } from '@/components/ui/menu';
 import { useWorktreeOutputState } from '@/hooks/useOutputState';
+import { useBranchPullRequest } from '@/hooks/usePullRequest';
 import { useI18n } from '@/i18n';
 import { cn } from '@/lib/utils';
+import { DevServerPorts } from './DevServerPorts';
 
 interface WorktreeCardProps {
   worktree: GitWorktree;
@@ -57,6 +60,10 @@ export function WorktreeCard({
     : 0;
   const outputState = useWorktreeOutputState(worktree.path);
   const glowEnabled = useGlowEffectEnabled();
+  const { data: pullRequest } = useBranchPullRequest(
+    worktree.path,
+    worktree.isMainWorktree ? null : worktree.branch
+  );
 
   // Common card content
   const cardContent = (
@@ -76,6 +83,7 @@ export function WorktreeCard({
               {t('Primary')}
             </Badge>
           )}
+          {pullRequest && <PullRequestBadge pullRequest={pullRequest} />}
           {worktree.isLocked && <Lock className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
         </div>
 
@@ -187,6 +195,7 @@ export function WorktreeCard({
             {t('{{count}} commits behind', { count: status.behind })}
           </span>
         )}
+        <DevServerPorts worktreePath={worktree.path} label={branchName} className="ml-auto" />
       </div>
     </>
   );
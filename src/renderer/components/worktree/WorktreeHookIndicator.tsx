@@ -0,0 +1,194 @@
+import type { WorktreeHookName, WorktreeHookRun } from '@shared/types';
+import { AlertTriangle, Loader2, RotateCcw, ShieldCheck } from 'lucide-react';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogClose,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogPanel,
+  DialogPopup,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+import { cn } from '@/lib/utils';
+import { useWorktreeHookRuns } from '@/stores/worktreeHooks';
+
+interface WorktreeHookIndicatorProps {
+  worktreePath: string;
+  branch?: string | null;
+  className?: string;
+}
+
+function isFailed(run: WorktreeHookRun | undefined): run is WorktreeHookRun {
+  return run?.status === 'failed' || run?.status === 'timeout';
+}
+
+/**
+ * Shows the lifecycle hook state of a worktree: setting up while post-create runs,
+ * waiting for approval of a new config, not ready when it failed, a warning for
+ * other failed hooks. Opens the log on click.
+ */
+export function WorktreeHookIndicator({
+  worktreePath,
+  branch,
+  className,
+}: WorktreeHookIndicatorProps) {
+  const { t } = useI18n();
+  const runs = useWorktreeHookRuns(worktreePath);
+  const [logOpen, setLogOpen] = useState(false);
+
+  const postCreate = runs['post-create'];
+  const running = Object.values(runs).find((run) => run?.status === 'running');
+  const approval = Object.values(runs).find((run) => run?.status === 'approval');
+  const failed = isFailed(postCreate) ? postCreate : Object.values(runs).find(isFailed);
+  const shown = running ?? approval ?? failed;
+  if (!shown) return null;
+
+  const open = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setLogOpen(true);
+  };
+
+  let content: React.ReactNode;
+  if (running) {
+    content = (
+      <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        {running.hook === 'post-create' ? t('Setting up') : running.hook}
+      </span>
+    );
+  } else if (shown.status === 'approval') {
+    content = (
+      <span className="flex items-center gap-1 rounded bg-yellow-500/20 px-1.5 py-0.5 text-[10px] font-medium text-yellow-700 dark:text-yellow-400">
+        <ShieldCheck className="h-3 w-3" />
+        {t('Needs approval')}
+      </span>
+    );
+  } else if (shown.hook === 'post-create') {
+    content = (
+      <span className="rounded bg-destructive/20 px-1.5 py-0.5 text-[10px] font-medium uppercase text-destructive">
+        {t('Not ready')}
+      </span>
+    );
+  } else {
+    content = <AlertTriangle className="h-3 w-3 text-yellow-600 dark:text-yellow-400" />;
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        className={cn('flex shrink-0 items-center rounded hover:opacity-80', className)}
+        title={t('{{hook}} hook', { hook: shown.hook })}
+        onClick={open}
+      >
+        {content}
+      </button>
+      <WorktreeHookLogDialog
+        open={logOpen}
+        onOpenChange={setLogOpen}
+        hook={shown.hook}
+        run={runs[shown.hook]}
+        branch={branch}
+      />
+    </>
+  );
+}
+
+interface WorktreeHookLogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  hook: WorktreeHookName;
+  run: WorktreeHookRun | undefined;
+  branch?: string | null;
+}
+
+function WorktreeHookLogDialog({
+  open,
+  onOpenChange,
+  hook,
+  run,
+  branch,
+}: WorktreeHookLogDialogProps) {
+  const { t } = useI18n();
+
+  const statusLabel: Record<WorktreeHookRun['status'], string> = {
+    running: t('Running'),
+    success: t('Succeeded'),
+    failed: t('Failed'),
+    timeout: t('Timed out'),
+    approval: t('Needs approval'),
+  };
+
+  const needsApproval = run?.status === 'approval';
+
+  const handleRetry = () => {
+    if (!run) return;
+    const start = needsApproval
+      ? window.electronAPI.worktree.approveHook
+      : window.electronAPI.worktree.runHook;
+    start(run.repoPath, run.worktreePath, hook, branch).catch((error) => {
+      toastManager.add({
+        type: 'error',
+        title: t('{{hook}} hook failed', { hook }),
+        description: error instanceof Error ? error.message : String(error),
+        timeout: 5000,
+      });
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogPopup className="max-w-2xl" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>{t('{{hook}} hook', { hook })}</DialogTitle>
+          <DialogDescription>
+            {run
+              ? `${statusLabel[run.status]}${run.exitCode !== null ? ` · ${t('Exit code')} ${run.exitCode}` : ''}`
+              : null}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogPanel className="space-y-3">
+          {needsApproval ? (
+            <p className="text-sm text-muted-foreground">
+              {t(
+                'This repository wants to run these commands from .enso/config.json. Review them before approving; any change to the file needs a new approval.'
+              )}
+            </p>
+          ) : (
+            run?.error && <p className="text-sm text-destructive">{run.error}</p>
+          )}
+          {run && run.commands.length > 0 && (
+            <div className="space-y-1">
+              {run.commands.map((command) => (
+                <code key={command} className="block truncate text-xs text-muted-foreground">
+                  $ {command}
+                </code>
+              ))}
+            </div>
+          )}
+          <pre className="max-h-96 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-3 font-mono text-xs">
+            {run?.output || t('No output')}
+          </pre>
+        </DialogPanel>
+        <DialogFooter variant="bare">
+          <DialogClose render={<Button variant="outline">{t('Close')}</Button>} />
+          <Button onClick={handleRetry} disabled={!run || run.status === 'running'}>
+            {run?.status === 'running' ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : needsApproval ? (
+              <ShieldCheck className="mr-2 h-4 w-4" />
+            ) : (
+              <RotateCcw className="mr-2 h-4 w-4" />
+            )}
+            {needsApproval ? t('Approve and run') : t('Retry')}
+          </Button>
+        </DialogFooter>
+      </DialogPopup>
+    </Dialog>
+  );
+}
@@ -1,5 +1,9 @@
 export { CreateWorktreeDialog } from './CreateWorktreeDialog';
+export { DevServerPorts } from './DevServerPorts';
+export { DevServerPreviewDialog } from './DevServerPreviewDialog';
+export { InteractiveRebaseDialog } from './InteractiveRebaseDialog';
 export { MergeEditor } from './MergeEditor';
 export { MergeWorktreeDialog } from './MergeWorktreeDialog';
 export { WorktreeCard } from './WorktreeCard';
+export { WorktreeHookIndicator } from './WorktreeHookIndicator';
 export { WorktreeList } from './WorktreeList';
@@ -0,0 +1,92 @@
+import type {
+  AcpPermissionRequest,
+  AcpSessionCreateOptions,
+  AcpSessionStatus,
+  AgentMessage,
+} from '@shared/types';
+import { useCallback, useEffect, useState } from 'react';
+
+export interface AcpSessionState {
+  status: AcpSessionStatus;
+  error: string | null;
+  messages: AgentMessage[];
+  permissions: AcpPermissionRequest[];
+}
+
+const INITIAL_STATE: AcpSessionState = {
+  status: 'starting',
+  error: null,
+  messages: [],
+  permissions: [],
+};
+
+/**
+ * Starts a structured ACP session for the lifetime of the component and
+ * mirrors its transcript, status and pending permission requests.
+ */
+export function useAcpSession(id: string, options: AcpSessionCreateOptions) {
+  const [state, setState] = useState<AcpSessionState>(INITIAL_STATE);
+  const { agentId, cwd } = options;
+
+  useEffect(() => {
+    setState(INITIAL_STATE);
+    const unsubscribe = window.electronAPI.agent.acp.onEvent(({ id: eventId, event }) => {
+      if (eventId !== id) return;
+      setState((prev) => {
+        switch (event.type) {
+          case 'status':
+            return { ...prev, status: event.status, error: event.error ?? null };
+          case 'message': {
+            const index = prev.messages.findIndex((m) => m.id === event.message.id);
+            const messages =
+              index === -1
+                ? [...prev.messages, event.message]
+                : prev.messages.map((m, i) => (i === index ? event.message : m));
+            return { ...prev, messages };
+          }
+          case 'permission':
+            return { ...prev, permissions: [...prev.permissions, event.request] };
+          case 'permissionResolved':
+            return {
+              ...prev,
+              permissions: prev.permissions.filter((p) => p.requestId !== event.requestId),
+            };
+        }
+      });
+    });
+
+    window.electronAPI.agent.acp.create(id, { agentId, cwd }).catch((err) => {
+      setState((prev) => ({
+        ...prev,
+        status: 'error',
+        error: err instanceof Error ? err.message : String(err),
+      }));
+    });
+
+    return () => {
+      unsubscribe();
+      window.electronAPI.agent.acp.destroy(id);
+    };
+  }, [id, agentId, cwd]);
+
+  const prompt = useCallback(
+    async (text: string) => {
+      try {
+        await window.electronAPI.agent.acp.prompt(id, text);
+      } catch (err) {
+        setState((prev) => ({ ...prev, error: err instanceof Error ? err.message : String(err) }));
+      }
+    },
+    [id]
+  );
+
+  const cancel = useCallback(() => window.electronAPI.agent.acp.cancel(id), [id]);
+
+  const respondPermission = useCallback(
+    (requestId: string, optionId: string | null) =>
+      window.electronAPI.agent.acp.respondPermission(id, requestId, optionId),
+    [id]
+  );
+
+  return { ...state, prompt, cancel, respondPermission };
+}
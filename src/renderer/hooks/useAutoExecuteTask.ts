@@ -2,14 +2,15 @@ import type { AgentStopNotificationData } from '@shared/types/agent';
 import { TASK_COMPLETION_MARKER } from '@shared/types/agent';
 import { useCallback, useEffect, useRef } from 'react';
 import type { ResolvedAgent } from '@/components/todo/useEnabledAgents';
+import { findRunnableTaskId } from '@/lib/todoTasks';
 import { useAgentSessionsStore } from '@/stores/agentSessions';
-import { INITIAL_AUTO_EXECUTE, useTodoStore } from '@/stores/todo';
+import { INITIAL_AUTO_EXECUTE, selectTasks, useTodoStore } from '@/stores/todo';
 
 /**
  * Find the UI session ID matching a Claude CLI session ID.
  * Claude CLI session ID (from hooks) differs from our UI session ID (crypto.randomUUID).
  */
-function findUISessionId(cliSessionId: string): string | undefined {
+export function findUISessionId(cliSessionId: string): string | undefined {
   const session = useAgentSessionsStore
     .getState()
     .sessions.find((s) => s.sessionId === cliSessionId || s.id === cliSessionId);
@@ -101,6 +102,13 @@ export function useAutoExecuteTask(
         pendingCommand: taskContext,
       });
 
+      useTodoStore.getState().startTaskRun(repoPath, taskId, {
+        sessionId,
+        agentId: agent.agentId,
+        agentName: agent.name,
+        cwd: worktreePath,
+      });
+
       // Update task status and link session
       updateTask(repoPath, taskId, { status: 'in-progress', sessionId });
       setCurrentExecution(repoPath, taskId, sessionId);
@@ -164,20 +172,27 @@ export function useAutoExecuteTask(
     handleAgentStopRef.current = handleAgentStop;
   }, [handleAgentStop]);
 
-  // Start auto-execute with a list of tasks
+  // Start auto-execute with a list of tasks, returns false when nothing could start
   const startAutoExecute = useCallback(
-    (taskIds: string[]) => {
+    (taskIds: string[]): boolean => {
       if (taskIds.length === 0 || !enabledAgents || enabledAgents.length === 0) {
-        return;
+        return false;
       }
 
-      const [firstTaskId, ...rest] = taskIds;
+      // Tasks waiting on unfinished blockers stay queued until those are done
+      const tasks = selectTasks(useTodoStore.getState(), repoPath);
+      const firstTaskId = findRunnableTaskId(taskIds, tasks);
+      if (!firstTaskId) return false;
 
       // Queue only remaining tasks (exclude the first one being executed now)
-      useTodoStore.getState().startAutoExecute(repoPath, rest);
+      useTodoStore.getState().startAutoExecute(
+        repoPath,
+        taskIds.filter((id) => id !== firstTaskId)
+      );
 
       // Execute first task
       executeTask(firstTaskId);
+      return true;
     },
     [repoPath, enabledAgents, executeTask]
   );
@@ -1,3 +1,4 @@
+import type { CodeReviewScope } from '@shared/types';
 import { useCallback } from 'react';
 import {
   startCodeReview,
@@ -14,7 +15,7 @@ interface UseCodeReviewReturn {
   content: string;
   status: 'idle' | 'initializing' | 'streaming' | 'complete' | 'error';
   error: string | null;
-  startReview: () => Promise<void>;
+  startReview: (scope?: CodeReviewScope) => Promise<void>;
   stopReview: () => void;
   reset: () => void;
 }
@@ -25,30 +26,36 @@ export function useCodeReview({ repoPath }: UseCodeReviewOptions): UseCodeReview
   const review = useCodeReviewContinueStore((s) => s.review);
   const resetReview = useCodeReviewContinueStore((s) => s.resetReview);
 
-  const startReview = useCallback(async () => {
-    if (!repoPath) return;
+  const startReview = useCallback(
+    async (scope?: CodeReviewScope) => {
+      if (!repoPath) return;
 
-    await startCodeReview(repoPath, {
-      provider: codeReviewSettings.provider,
-      model: codeReviewSettings.model,
-      reasoningEffort: codeReviewSettings.reasoningEffort,
-      bareEnabled: aiPerformance.bareEnabled,
-      effortEnabled: aiPerformance.effortEnabled,
-      effortLevel: aiPerformance.effortLevel,
-      language: codeReviewSettings.language ?? '中文',
-      prompt: codeReviewSettings.prompt,
-    });
-  }, [
-    repoPath,
-    codeReviewSettings.provider,
-    codeReviewSettings.model,
-    codeReviewSettings.reasoningEffort,
-    codeReviewSettings.language,
-    codeReviewSettings.prompt,
-    aiPerformance.bareEnabled,
-    aiPerformance.effortEnabled,
-    aiPerformance.effortLevel,
-  ]);
+      await startCodeReview(repoPath, {
+        provider: codeReviewSettings.provider,
+        model: codeReviewSettings.model,
+        reasoningEffort: codeReviewSettings.reasoningEffort,
+        bareEnabled: aiPerformance.bareEnabled,
+        effortEnabled: aiPerformance.effortEnabled,
+        effortLevel: aiPerformance.effortLevel,
+        language: codeReviewSettings.language ?? '中文',
+        prompt: codeReviewSettings.prompt,
+        mode: codeReviewSettings.mode,
+        scope,
+      });
+    },
+    [
+      repoPath,
+      codeReviewSettings.provider,
+      codeReviewSettings.model,
+      codeReviewSettings.reasoningEffort,
+      codeReviewSettings.language,
+      codeReviewSettings.prompt,
+      codeReviewSettings.mode,
+      aiPerformance.bareEnabled,
+      aiPerformance.effortEnabled,
+      aiPerformance.effortLevel,
+    ]
+  );
 
   return {
     content: review.content,
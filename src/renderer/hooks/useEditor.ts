@@ -81,7 +81,8 @@ export function useEditor() {
       line?: number,
       column?: number,
       matchLength?: number,
-      previewMode?: 'off' | 'split' | 'fullscreen'
+      previewMode?: 'off' | 'split' | 'fullscreen',
+      endLine?: number
     ) => {
       const existingTab = tabs.find((t) => t.path === path);
 
@@ -106,7 +107,7 @@ export function useEditor() {
 
       // Set pending cursor position if line is specified
       if (line !== undefined) {
-        setPendingCursor({ path, line, column, matchLength, previewMode });
+        setPendingCursor({ path, line, column, matchLength, previewMode, endLine });
       }
     },
     [tabs, setActiveFile, openFile, setPendingCursor, refreshFileContent]
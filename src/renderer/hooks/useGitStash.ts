@@ -0,0 +1,151 @@
+import type { GitStashCreateOptions } from '@shared/types';
+import { type QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toastManager } from '@/components/ui/toast';
+import { useShouldPoll } from '@/hooks/useWindowFocus';
+import { useI18n } from '@/i18n';
+
+function invalidateStashQueries(queryClient: QueryClient, workdir: string) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['git', 'stash-list', workdir] }),
+    queryClient.invalidateQueries({ queryKey: ['git', 'file-changes', workdir] }),
+    queryClient.invalidateQueries({ queryKey: ['git', 'status', workdir] }),
+    queryClient.invalidateQueries({ queryKey: ['git', 'file-diff', workdir] }),
+  ]);
+}
+
+export function useStashList(workdir: string | null, isActive = true) {
+  const shouldPoll = useShouldPoll();
+
+  return useQuery({
+    queryKey: ['git', 'stash-list', workdir],
+    queryFn: async () => {
+      if (!workdir) return [];
+      return window.electronAPI.git.listStashes(workdir);
+    },
+    enabled: !!workdir,
+    // Stashes can also be created from a terminal or by a merge, keep it loosely in sync
+    refetchInterval: isActive && shouldPoll ? 10000 : false,
+    refetchIntervalInBackground: false,
+    staleTime: 2000,
+  });
+}
+
+/**
+ * Fetch files stored in a stash
+ * @param workdir Working directory path
+ * @param stashHash Stash commit hash, used as cache key since stash@{n} shifts on push/drop
+ */
+export function useStashFiles(workdir: string | null, stashHash: string | null) {
+  return useQuery({
+    queryKey: ['git', 'stash-files', workdir, stashHash],
+    queryFn: async () => {
+      if (!workdir || !stashHash) return [];
+      return window.electronAPI.git.getStashFiles(workdir, stashHash);
+    },
+    enabled: !!workdir && !!stashHash,
+  });
+}
+
+export function useStashFileDiff(
+  workdir: string | null,
+  stashHash: string | null,
+  filePath: string | null,
+  untracked = false
+) {
+  return useQuery({
+    queryKey: ['git', 'stash-diff', workdir, stashHash, filePath, untracked],
+    queryFn: async () => {
+      if (!workdir || !stashHash || !filePath) return null;
+      return window.electronAPI.git.getStashFileDiff(workdir, stashHash, filePath, untracked);
+    },
+    enabled: !!workdir && !!stashHash && !!filePath,
+  });
+}
+
+export function useGitStashCreate() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  return useMutation({
+    mutationFn: async ({
+      workdir,
+      options,
+    }: {
+      workdir: string;
+      options?: GitStashCreateOptions;
+    }) => {
+      await window.electronAPI.git.createStash(workdir, options);
+    },
+    onSuccess: (_, { workdir }) => invalidateStashQueries(queryClient, workdir),
+    onError: (error) => {
+      toastManager.add({
+        title: t('Stash failed'),
+        description: error instanceof Error ? error.message : t('Unknown error'),
+        type: 'error',
+        timeout: 5000,
+      });
+    },
+  });
+}
+
+export function useGitStashApply() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  return useMutation({
+    mutationFn: async ({ workdir, hash }: { workdir: string; hash: string }) => {
+      await window.electronAPI.git.applyStash(workdir, hash);
+    },
+    onSettled: (_, __, { workdir }) => invalidateStashQueries(queryClient, workdir),
+    onError: (error) => {
+      toastManager.add({
+        title: t('Apply stash failed'),
+        description: error instanceof Error ? error.message : t('Unknown error'),
+        type: 'error',
+        timeout: 5000,
+      });
+    },
+  });
+}
+
+export function useGitStashPop() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  return useMutation({
+    mutationFn: async ({ workdir, hash }: { workdir: string; hash: string }) => {
+      await window.electronAPI.git.popStash(workdir, hash);
+    },
+    // A conflicting pop still writes to the worktree, so refresh in either case
+    onSettled: (_, __, { workdir }) => invalidateStashQueries(queryClient, workdir),
+    onError: (error) => {
+      toastManager.add({
+        title: t('Pop stash failed'),
+        description: error instanceof Error ? error.message : t('Unknown error'),
+        type: 'error',
+        timeout: 5000,
+      });
+    },
+  });
+}
+
+export function useGitStashDrop() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  return useMutation({
+    mutationFn: async ({ workdir, hash }: { workdir: string; hash: string }) => {
+      await window.electronAPI.git.dropStash(workdir, hash);
+    },
+    onSuccess: (_, { workdir }) =>
+      queryClient.invalidateQueries({ queryKey: ['git', 'stash-list', workdir] }),
+    onError: (error) => {
+      toastManager.add({
+        title: t('Drop stash failed'),
+        description: error instanceof Error ? error.message : t('Unknown error'),
+        type: 'error',
+        timeout: 5000,
+      });
+    },
+  });
+}
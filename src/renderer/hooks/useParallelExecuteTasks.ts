@@ -0,0 +1,230 @@
+import type { AgentStopNotificationData } from '@shared/types/agent';
+import { useQueryClient } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { ResolvedAgent } from '@/components/todo/useEnabledAgents';
+import { useI18n } from '@/i18n';
+import {
+  buildBranchNamePrompt,
+  buildWorktreePath,
+  getTaskBranchName,
+  getUniqueBranchName,
+} from '@/lib/worktreeTask';
+import { useAgentSessionsStore } from '@/stores/agentSessions';
+import { useSettingsStore } from '@/stores/settings';
+import { selectParallelExecute, selectTasks, useTodoStore } from '@/stores/todo';
+import { useWorktreeActivityStore } from '@/stores/worktreeActivity';
+import { buildAutoExecutePrompt, findUISessionId } from './useAutoExecuteTask';
+
+const DIFF_STATS_POLL_INTERVAL_MS = 10000;
+
+/**
+ * Hook to run Todo tasks in parallel, each in its own worktree and agent session
+ *
+ * Tasks are started as slots free up (capped by the run's limit). A task is marked
+ * done when its session stops with the completion marker, otherwise it goes back
+ * to todo; either way its worktree stays linked so the result can be inspected.
+ */
+export function useParallelExecuteTasks(repoPath: string, enabledAgents?: ResolvedAgent[]) {
+  const { t } = useI18n();
+  const queryClient = useQueryClient();
+  const parallelExecute = useTodoStore((s) => selectParallelExecute(s, repoPath));
+  const updateTask = useTodoStore((s) => s.updateTask);
+  const updateParallelRun = useTodoStore((s) => s.updateParallelRun);
+  const fetchDiffStats = useWorktreeActivityStore((s) => s.fetchDiffStats);
+
+  // Use ref to break circular dependency between startTask and fillSlots
+  const fillSlotsRef = useRef<() => void>(() => {});
+
+  const getBranchName = useCallback(
+    async (title: string, description: string, taskId: string): Promise<string> => {
+      const { branchNameGenerator, aiPerformance } = useSettingsStore.getState();
+      try {
+        const result = await window.electronAPI.git.generateBranchName(repoPath, {
+          prompt: buildBranchNamePrompt(
+            branchNameGenerator.prompt,
+            description ? `${title}\n${description}` : title
+          ),
+          provider: branchNameGenerator.provider,
+          model: branchNameGenerator.model,
+          reasoningEffort: branchNameGenerator.reasoningEffort,
+          bareEnabled: aiPerformance.bareEnabled,
+          effortEnabled: aiPerformance.effortEnabled,
+          effortLevel: aiPerformance.effortLevel,
+        });
+        const branchName = result.branchName?.trim();
+        if (result.success && branchName) return branchName;
+      } catch {
+        // Fall back to a name derived from the title
+      }
+      return getTaskBranchName(title, taskId);
+    },
+    [repoPath]
+  );
+
+  // Create the task's worktree and start an agent session in it
+  const startTask = useCallback(
+    async (taskId: string) => {
+      const task = selectTasks(useTodoStore.getState(), repoPath).find((t) => t.id === taskId);
+      const agent = enabledAgents?.find((a) => a.isDefault) ?? enabledAgents?.[0];
+
+      try {
+        if (!task) throw new Error(t('Task not found'));
+        if (!agent) throw new Error(t('No enabled agents'));
+
+        const home = window.electronAPI.env.HOME;
+        if (!home) throw new Error(t('Cannot determine the worktree location'));
+
+        const generated = await getBranchName(task.title, task.description, task.id);
+        const branches = await window.electronAPI.git.getBranches(repoPath);
+        // Branches picked by other tasks of this run may not exist yet
+        const taken = new Set(branches.map((b) => b.name));
+        for (const run of Object.values(
+          selectParallelExecute(useTodoStore.getState(), repoPath).runs
+        )) {
+          if (run.branch) taken.add(run.branch);
+        }
+        const branch = getUniqueBranchName(generated, taken);
+        updateParallelRun(repoPath, taskId, { branch });
+
+        const sep = window.electronAPI.env.platform === 'win32' ? '\\' : '/';
+        const basePath =
+          useSettingsStore.getState().defaultWorktreePath ||
+          [home, 'ensoai', 'workspaces'].join(sep);
+        const worktreePath = buildWorktreePath(basePath, repoPath, branch, sep);
+
+        await window.electronAPI.worktree.add(repoPath, { path: worktreePath, newBranch: branch });
+        queryClient.invalidateQueries({ queryKey: ['worktree', 'list', repoPath] });
+        queryClient.invalidateQueries({ queryKey: ['worktree', 'listMultiple', repoPath] });
+
+        const sessionId = crypto.randomUUID();
+        useAgentSessionsStore.getState().addSession({
+          id: sessionId,
+          sessionId,
+          name: `Task: ${task.title}`,
+          userRenamed: true,
+          agentId: agent.agentId,
+          agentCommand: agent.command,
+          customPath: agent.customPath,
+          customArgs: agent.customArgs,
+          initialized: false,
+          repoPath,
+          cwd: worktreePath,
+          environment: agent.environment,
+          pendingCommand: buildAutoExecutePrompt(task.title, task.description),
+        });
+
+        useTodoStore.getState().startTaskRun(repoPath, taskId, {
+          sessionId,
+          agentId: agent.agentId,
+          agentName: agent.name,
+          cwd: worktreePath,
+        });
+        updateTask(repoPath, taskId, { status: 'in-progress', sessionId, worktreePath, branch });
+        updateParallelRun(repoPath, taskId, { phase: 'running', worktreePath, sessionId });
+      } catch (error) {
+        updateParallelRun(repoPath, taskId, {
+          phase: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+        fillSlotsRef.current();
+      }
+    },
+    [repoPath, enabledAgents, t, getBranchName, queryClient, updateTask, updateParallelRun]
+  );
+
+  const fillSlots = useCallback(() => {
+    for (const taskId of useTodoStore.getState().takeParallelTasks(repoPath)) {
+      startTask(taskId);
+    }
+  }, [repoPath, startTask]);
+
+  useEffect(() => {
+    fillSlotsRef.current = fillSlots;
+  }, [fillSlots]);
+
+  const startParallelExecute = useCallback(
+    (taskIds: string[], limit: number) => {
+      if (taskIds.length === 0 || !enabledAgents || enabledAgents.length === 0) return;
+      useTodoStore.getState().startParallelExecute(repoPath, taskIds, limit);
+      fillSlots();
+    },
+    [repoPath, enabledAgents, fillSlots]
+  );
+
+  // Stops starting queued tasks, sessions already running keep going
+  const stop = useCallback(() => {
+    useTodoStore.getState().stopParallelExecute(repoPath);
+  }, [repoPath]);
+
+  const handleAgentStop = useCallback(
+    (data: AgentStopNotificationData) => {
+      const uiSessionId = findUISessionId(data.sessionId);
+      if (!uiSessionId) return;
+
+      const { runs } = selectParallelExecute(useTodoStore.getState(), repoPath);
+      const run = Object.values(runs).find(
+        (r) => r.phase === 'running' && r.sessionId === uiSessionId
+      );
+      if (!run) return;
+
+      if (data.taskCompletionStatus === 'completed') {
+        updateTask(repoPath, run.taskId, { status: 'done', sessionId: undefined });
+        updateParallelRun(repoPath, run.taskId, { phase: 'done' });
+      } else {
+        // No completion marker - revert task, keep the worktree for inspection
+        updateTask(repoPath, run.taskId, { status: 'todo', sessionId: undefined });
+        updateParallelRun(repoPath, run.taskId, {
+          phase: 'failed',
+          error: t('Agent stopped before completing the task'),
+        });
+      }
+      if (run.worktreePath) {
+        fetchDiffStats([run.worktreePath]);
+      }
+      fillSlots();
+    },
+    [repoPath, t, updateTask, updateParallelRun, fetchDiffStats, fillSlots]
+  );
+
+  // Use ref for handler to avoid re-subscription on every callback change
+  const handleAgentStopRef = useRef(handleAgentStop);
+  useEffect(() => {
+    handleAgentStopRef.current = handleAgentStop;
+  }, [handleAgentStop]);
+
+  const activeWorktreePaths = useMemo(
+    () =>
+      Object.values(parallelExecute.runs)
+        .filter((run) => run.phase === 'running' && run.worktreePath)
+        .map((run) => run.worktreePath as string),
+    [parallelExecute.runs]
+  );
+  const hasActiveRuns = activeWorktreePaths.length > 0;
+
+  // Listen for agent stop events - only subscribe while sessions are running
+  useEffect(() => {
+    if (!hasActiveRuns) return;
+
+    const unsubscribe = window.electronAPI.notification.onAgentStop((data) =>
+      handleAgentStopRef.current(data)
+    );
+    return unsubscribe;
+  }, [hasActiveRuns]);
+
+  // Keep diff stats of running tasks fresh for the board
+  useEffect(() => {
+    if (activeWorktreePaths.length === 0) return;
+
+    fetchDiffStats(activeWorktreePaths);
+    const interval = setInterval(() => {
+      fetchDiffStats(activeWorktreePaths);
+    }, DIFF_STATS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [activeWorktreePaths, fetchDiffStats]);
+
+  return {
+    parallelExecute,
+    startParallelExecute,
+    stop,
+  };
+}
@@ -0,0 +1,145 @@
+import type {
+  PullRequestCreateOptions,
+  PullRequestMergeMethod,
+  PullRequestReviewCommentInput,
+} from '@shared/types';
+import { type QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+
+function invalidatePullRequestQueries(queryClient: QueryClient, workdir: string) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['git', 'pr-for-branch', workdir] }),
+    queryClient.invalidateQueries({ queryKey: ['git', 'pr-details', workdir] }),
+    queryClient.invalidateQueries({ queryKey: ['git', 'pr-diff', workdir] }),
+  ]);
+}
+
+function showError(title: string, error: unknown, fallback: string) {
+  toastManager.add({
+    title,
+    description: error instanceof Error ? error.message : fallback,
+    type: 'error',
+    timeout: 5000,
+  });
+}
+
+export function useGhCliStatus(workdir: string | null) {
+  return useQuery({
+    queryKey: ['git', 'gh-status', workdir],
+    queryFn: () => window.electronAPI.git.getGhStatus(workdir!),
+    enabled: !!workdir,
+    // Installing or logging in to gh is rare; re-checked when the app regains focus
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * PR whose head is the branch. Only queried when gh is installed and authenticated.
+ */
+export function useBranchPullRequest(workdir: string | null, branch: string | null | undefined) {
+  const { data: ghStatus } = useGhCliStatus(branch ? workdir : null);
+
+  return useQuery({
+    queryKey: ['git', 'pr-for-branch', workdir, branch],
+    queryFn: () => window.electronAPI.git.getPullRequestForBranch(workdir!, branch!),
+    enabled: !!workdir && !!branch && !!ghStatus?.authenticated,
+    staleTime: 60 * 1000,
+    retry: false,
+  });
+}
+
+export function usePullRequestDetails(workdir: string | null, prNumber: number | null) {
+  return useQuery({
+    queryKey: ['git', 'pr-details', workdir, prNumber],
+    queryFn: () => window.electronAPI.git.getPullRequestDetails(workdir!, prNumber!),
+    enabled: !!workdir && prNumber !== null,
+    // Checks keep changing while CI runs
+    refetchInterval: 30000,
+    refetchIntervalInBackground: false,
+    retry: false,
+  });
+}
+
+export function usePullRequestDiff(workdir: string | null, prNumber: number | null) {
+  return useQuery({
+    queryKey: ['git', 'pr-diff', workdir, prNumber],
+    queryFn: () => window.electronAPI.git.getPullRequestDiff(workdir!, prNumber!),
+    enabled: !!workdir && prNumber !== null,
+    retry: false,
+  });
+}
+
+export function useCreatePullRequest() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  return useMutation({
+    mutationFn: ({
+      workdir,
+      branch,
+      options,
+    }: {
+      workdir: string;
+      branch: string;
+      options: PullRequestCreateOptions;
+    }) => window.electronAPI.git.createPullRequest(workdir, branch, options),
+    onSuccess: (_, { workdir }) =>
+      Promise.all([
+        invalidatePullRequestQueries(queryClient, workdir),
+        // Creating a PR pushes the branch
+        queryClient.invalidateQueries({ queryKey: ['git', 'status', workdir] }),
+      ]),
+    onError: (error) => showError(t('Failed to create pull request'), error, t('Unknown error')),
+  });
+}
+
+export function useSubmitPullRequestReview() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  return useMutation({
+    mutationFn: ({
+      workdir,
+      prNumber,
+      comments,
+    }: {
+      workdir: string;
+      prNumber: number;
+      comments: PullRequestReviewCommentInput[];
+    }) => window.electronAPI.git.submitPullRequestReview(workdir, prNumber, comments),
+    onSuccess: (_, { workdir }) => invalidatePullRequestQueries(queryClient, workdir),
+    onError: (error) => showError(t('Failed to post review'), error, t('Unknown error')),
+  });
+}
+
+export function useMergePullRequest() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  return useMutation({
+    mutationFn: ({
+      workdir,
+      prNumber,
+      method,
+    }: {
+      workdir: string;
+      prNumber: number;
+      method: PullRequestMergeMethod;
+    }) => window.electronAPI.git.mergePullRequest(workdir, prNumber, method),
+    onSettled: (_, __, { workdir }) => invalidatePullRequestQueries(queryClient, workdir),
+    onError: (error) => showError(t('Failed to merge pull request'), error, t('Unknown error')),
+  });
+}
+
+export function useClosePullRequest() {
+  const queryClient = useQueryClient();
+  const { t } = useI18n();
+
+  return useMutation({
+    mutationFn: ({ workdir, prNumber }: { workdir: string; prNumber: number }) =>
+      window.electronAPI.git.closePullRequest(workdir, prNumber),
+    onSettled: (_, __, { workdir }) => invalidatePullRequestQueries(queryClient, workdir),
+    onError: (error) => showError(t('Failed to close pull request'), error, t('Unknown error')),
+  });
+}
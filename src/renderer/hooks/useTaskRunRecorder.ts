@@ -0,0 +1,31 @@
+import { useEffect, useMemo } from 'react';
+import { selectTasks, useTodoStore } from '@/stores/todo';
+import { findUISessionId } from './useAutoExecuteTask';
+
+/**
+ * Closes task run records when their agent session stops, whether or not the
+ * auto-execute or parallel run that started them is still going.
+ */
+export function useTaskRunRecorder(repoPath: string) {
+  const tasks = useTodoStore((s) => selectTasks(s, repoPath));
+  const taskRuns = useTodoStore((s) => s.taskRuns);
+
+  const hasRunningRuns = useMemo(
+    () => tasks.some((task) => taskRuns[task.id]?.some((run) => run.status === 'running')),
+    [tasks, taskRuns]
+  );
+
+  useEffect(() => {
+    if (!hasRunningRuns) return;
+
+    return window.electronAPI.notification.onAgentStop((data) => {
+      const uiSessionId = findUISessionId(data.sessionId);
+      if (!uiSessionId) return;
+      useTodoStore.getState().finishTaskRun(repoPath, uiSessionId, {
+        status: data.taskCompletionStatus === 'completed' ? 'completed' : 'failed',
+        cliSessionId: data.sessionId,
+        finalMessage: data.lastAssistantMessage,
+      });
+    });
+  }, [repoPath, hasRunningRuns]);
+}
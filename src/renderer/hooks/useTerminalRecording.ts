@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { toastManager } from '@/components/ui/toast';
+import { useI18n } from '@/i18n';
+import { useTerminalRecordingStore } from '@/stores/terminalRecording';
+
+interface UseTerminalRecordingOptions {
+  getPtyId: () => string | null;
+  cwd: string | undefined; // recordings are saved under <cwd>/.enso/recordings
+  getTitle: () => string;
+}
+
+interface UseTerminalRecordingReturn {
+  isRecording: boolean;
+  canRecord: boolean;
+  toggleRecording: () => Promise<void>;
+}
+
+export function useTerminalRecording({
+  getPtyId,
+  cwd,
+  getTitle,
+}: UseTerminalRecordingOptions): UseTerminalRecordingReturn {
+  const { t } = useI18n();
+  const isRecording = useTerminalRecordingStore((s) => {
+    const ptyId = getPtyId();
+    return ptyId ? s.recordings.has(ptyId) : false;
+  });
+  const recordedPtyIdRef = useRef<string | null>(null);
+
+  // The main process stops recording when the PTY exits or is destroyed
+  useEffect(() => {
+    const { clear } = useTerminalRecordingStore.getState();
+    const cleanup = window.electronAPI.terminal.onExit(({ id }) => {
+      if (id === recordedPtyIdRef.current) clear(id);
+    });
+    return () => {
+      cleanup();
+      if (recordedPtyIdRef.current) clear(recordedPtyIdRef.current);
+    };
+  }, []);
+
+  const toggleRecording = useCallback(async () => {
+    const ptyId = getPtyId();
+    if (!ptyId || !cwd) return;
+    const { start, stop } = useTerminalRecordingStore.getState();
+
+    try {
+      if (isRecording) {
+        const info = await stop(ptyId);
+        recordedPtyIdRef.current = null;
+        toastManager.add({
+          type: 'success',
+          title: t('Recording saved'),
+          description: info?.name,
+          timeout: 3000,
+        });
+      } else {
+        const info = await start(ptyId, cwd, getTitle());
+        recordedPtyIdRef.current = ptyId;
+        toastManager.add({
+          type: 'info',
+          title: t('Recording started'),
+          description: info.name,
+          timeout: 2000,
+        });
+      }
+    } catch (error) {
+      toastManager.add({
+        type: 'error',
+        title: t('Recording failed'),
+        description: error instanceof Error ? error.message : String(error),
+        timeout: 5000,
+      });
+    }
+  }, [getPtyId, cwd, getTitle, isRecording, t]);
+
+  return { isRecording, canRecord: !!cwd, toggleRecording };
+}
@@ -1,13 +1,16 @@
 import type {
   ConflictResolution,
   GitWorktree,
+  WorktreeCherryPickOptions,
   WorktreeCreateOptions,
   WorktreeMergeCleanupOptions,
   WorktreeMergeOptions,
+  WorktreeRebaseOptions,
   WorktreeRemoveOptions,
 } from '@shared/types';
 import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useMemo } from 'react';
+import { useShouldPoll } from '@/hooks/useWindowFocus';
 import { useWorktreeStore } from '@/stores/worktree';
 
 export function useWorktreeList(workdir: string | null) {
@@ -127,7 +130,7 @@ export function useWorktreeRemove() {
       workdir: string;
       options: WorktreeRemoveOptions;
     }) => {
-      await window.electronAPI.worktree.remove(workdir, options);
+      return window.electronAPI.worktree.remove(workdir, options);
     },
     onSuccess: (_, { workdir }) => {
       queryClient.invalidateQueries({ queryKey: ['worktree', 'list', workdir] });
@@ -221,7 +224,9 @@ export function useWorktreeMergeAbort() {
     },
     onSuccess: (_, { workdir }) => {
       queryClient.invalidateQueries({ queryKey: ['worktree', 'mergeState', workdir] });
+      queryClient.invalidateQueries({ queryKey: ['worktree', 'cherryPickState', workdir] });
       queryClient.invalidateQueries({ queryKey: ['worktree', 'conflicts', workdir] });
+      queryClient.invalidateQueries({ queryKey: ['git', 'status', workdir] });
     },
   });
 }
@@ -250,3 +255,111 @@ export function useWorktreeMergeContinue() {
     },
   });
 }
+
+export function useWorktreeRebaseCommits(
+  workdir: string | null,
+  worktreePath: string | null,
+  targetBranch: string | null
+) {
+  return useQuery({
+    queryKey: ['worktree', 'rebaseCommits', workdir, worktreePath, targetBranch],
+    queryFn: async () => {
+      if (!workdir || !worktreePath || !targetBranch) return [];
+      return window.electronAPI.worktree.getRebaseCommits(workdir, worktreePath, targetBranch);
+    },
+    enabled: !!workdir && !!worktreePath && !!targetBranch,
+    staleTime: 0,
+  });
+}
+
+export function useWorktreeRebase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      workdir,
+      options,
+    }: {
+      workdir: string;
+      options: WorktreeRebaseOptions;
+    }) => {
+      return window.electronAPI.worktree.startRebase(workdir, options);
+    },
+    onSuccess: (_, { workdir, options }) => {
+      queryClient.invalidateQueries({ queryKey: ['worktree', 'list', workdir] });
+      queryClient.invalidateQueries({ queryKey: ['worktree', 'rebaseCommits', workdir] });
+      queryClient.invalidateQueries({ queryKey: ['git', 'log-infinite', options.worktreePath] });
+      queryClient.invalidateQueries({ queryKey: ['git', 'status', options.worktreePath] });
+    },
+  });
+}
+
+export function useWorktreeRebaseContinue() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ worktreePath }: { worktreePath: string }) => {
+      return window.electronAPI.worktree.continueRebase(worktreePath);
+    },
+    onSuccess: (_, { worktreePath }) => {
+      queryClient.invalidateQueries({ queryKey: ['worktree', 'conflicts', worktreePath] });
+      queryClient.invalidateQueries({ queryKey: ['git', 'log-infinite', worktreePath] });
+      queryClient.invalidateQueries({ queryKey: ['git', 'status', worktreePath] });
+    },
+  });
+}
+
+export function useWorktreeCherryPickState(worktreePath: string | null, isActive = true) {
+  const shouldPoll = useShouldPoll();
+
+  return useQuery({
+    queryKey: ['worktree', 'cherryPickState', worktreePath],
+    queryFn: async () => {
+      if (!worktreePath) return { inProgress: false };
+      return window.electronAPI.worktree.getCherryPickState(worktreePath);
+    },
+    enabled: !!worktreePath,
+    // A cherry-pick can also be started from a terminal, keep the banner loosely in sync
+    refetchInterval: isActive && shouldPoll ? 10000 : false,
+    refetchIntervalInBackground: false,
+  });
+}
+
+export function useWorktreeCherryPick() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      workdir,
+      options,
+    }: {
+      workdir: string;
+      options: WorktreeCherryPickOptions;
+    }) => {
+      return window.electronAPI.worktree.cherryPick(workdir, options);
+    },
+    onSuccess: (_, { options }) => {
+      queryClient.invalidateQueries({
+        queryKey: ['worktree', 'cherryPickState', options.worktreePath],
+      });
+      queryClient.invalidateQueries({ queryKey: ['git', 'log-infinite', options.worktreePath] });
+      queryClient.invalidateQueries({ queryKey: ['git', 'status', options.worktreePath] });
+    },
+  });
+}
+
+export function useWorktreeCherryPickContinue() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ worktreePath }: { worktreePath: string }) => {
+      return window.electronAPI.worktree.continueCherryPick(worktreePath);
+    },
+    onSuccess: (_, { worktreePath }) => {
+      queryClient.invalidateQueries({ queryKey: ['worktree', 'cherryPickState', worktreePath] });
+      queryClient.invalidateQueries({ queryKey: ['worktree', 'conflicts', worktreePath] });
+      queryClient.invalidateQueries({ queryKey: ['git', 'log-infinite', worktreePath] });
+      queryClient.invalidateQueries({ queryKey: ['git', 'status', worktreePath] });
+    },
+  });
+}
@@ -40,7 +40,9 @@ export interface UseXtermOptions {
   env?: Record<string, string>;
   isActive?: boolean;
   initialCommand?: string;
-  onExit?: () => void;
+  /** Close the pty when initialCommand finishes, reporting its exit code to onExit */
+  exitAfterCommand?: boolean;
+  onExit?: (exitCode?: number) => void;
   onData?: (data: string) => void;
   onCustomKey?: (
     event: KeyboardEvent,
@@ -80,6 +82,8 @@ export interface UseXtermResult {
   clear: () => void;
   /** Manually refresh renderer (clear WebGL atlas + refresh) */
   refreshRenderer: () => void;
+  /** Current pty id, null until the shell has started */
+  getPtyId: () => string | null;
 }
 
 function useTerminalSettings() {
@@ -122,6 +126,7 @@ export function useXterm({
   env,
   isActive = true,
   initialCommand,
+  exitAfterCommand = false,
   onExit,
   onData,
   onCustomKey,
@@ -187,6 +192,8 @@ export function useXterm({
   const writeBufferRef = useRef('');
   const isFlushPendingRef = useRef(false);
 
+  const getPtyId = useCallback(() => ptyIdRef.current, []);
+
   const write = useCallback((data: string) => {
     if (ptyIdRef.current) {
       window.electronAPI.terminal.write(ptyIdRef.current, data);
@@ -596,6 +603,7 @@ export function useXterm({
         rows: terminal.rows,
         env,
         initialCommand: initialCommandRef.current,
+        exitAfterCommand,
       });
 
       if (isUnmountedRef.current || createRequestId !== createRequestIdRef.current) {
@@ -670,7 +678,7 @@ export function useXterm({
               onDataRef.current?.(bufferedData);
               writeBufferRef.current = '';
             }
-            onExitRef.current?.();
+            onExitRef.current?.(event.exitCode);
           }, 30);
         }
       });
@@ -693,7 +701,7 @@ export function useXterm({
       terminal.writeln(`\x1b[31mFailed to start terminal.\x1b[0m`);
       terminal.writeln(`\x1b[33mError: ${error}\x1b[0m`);
     }
-  }, [cwd, command, shellConfig, commandKey, terminalRenderer]);
+  }, [cwd, command, shellConfig, commandKey, terminalRenderer, exitAfterCommand]);
 
   useEffect(() => {
     const shouldActivate = isActive || initialCommandRef.current;
@@ -911,5 +919,6 @@ export function useXterm({
     clearSearch,
     clear,
     refreshRenderer,
+    getPtyId,
   };
 }
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { countEventsUntil, formatPlaybackTime, parseAsciicast, parseResize } from '../asciicast';
+
+const CAST = [
+  '{"version":2,"width":100,"height":30,"timestamp":1700000000,"title":"build"}',
+  '[0.5,"o","$ pnpm build\\r\\n"]',
+  'not json',
+  '[1.0,"x","unknown type"]',
+  '[1.5,"r","120x40"]',
+  '[61.5,"o","done\\r\\n"]',
+  '',
+].join('\n');
+
+describe('parseAsciicast', () => {
+  it('reads the header and events', () => {
+    const cast = parseAsciicast(CAST);
+
+    expect(cast).toMatchObject({ width: 100, height: 30, title: 'build', duration: 61.5 });
+    expect(cast.events).toEqual([
+      { time: 0.5, type: 'o', data: '$ pnpm build\r\n' },
+      { time: 1.5, type: 'r', data: '120x40' },
+      { time: 61.5, type: 'o', data: 'done\r\n' },
+    ]);
+  });
+
+  it('shortens pauses longer than the idle limit', () => {
+    const cast = parseAsciicast(CAST, 2);
+
+    expect(cast.events.map((e) => e.time)).toEqual([0.5, 1.5, 3.5]);
+    expect(cast.duration).toBe(3.5);
+  });
+
+  it('rejects files without a v2 header', () => {
+    expect(() => parseAsciicast('[0.1,"o","x"]')).toThrow('Unsupported asciicast version');
+    expect(() => parseAsciicast('')).toThrow('Invalid asciicast header');
+  });
+});
+
+describe('countEventsUntil', () => {
+  it('counts events at or before a time', () => {
+    const { events } = parseAsciicast(CAST);
+
+    expect(countEventsUntil(events, 0)).toBe(0);
+    expect(countEventsUntil(events, 1.5)).toBe(2);
+    expect(countEventsUntil(events, 100)).toBe(3);
+  });
+});
+
+describe('parseResize', () => {
+  it('parses COLSxROWS', () => {
+    expect(parseResize('120x40')).toEqual({ cols: 120, rows: 40 });
+    expect(parseResize('wide')).toBeNull();
+  });
+});
+
+describe('formatPlaybackTime', () => {
+  it('formats minutes and hours', () => {
+    expect(formatPlaybackTime(5.9)).toBe('0:05');
+    expect(formatPlaybackTime(125)).toBe('2:05');
+    expect(formatPlaybackTime(3725)).toBe('1:02:05');
+  });
+});
@@ -0,0 +1,122 @@
+import type { ReviewFinding } from '@shared/types';
+import { describe, expect, it } from 'vitest';
+import {
+  buildFindingFixPrompt,
+  getFileFindings,
+  parseReviewFindings,
+  toRepoRelativePath,
+} from '../reviewFindings';
+
+describe('parseReviewFindings', () => {
+  it('extracts the array from fenced or surrounding text', () => {
+    const text = [
+      'Here are the findings:',
+      '```json',
+      '[{"file":"src/a.ts","startLine":3,"endLine":5,"severity":"major","category":"bug",',
+      '"title":"Off by one","suggestion":"Use <=","patch":"--- a/src/a.ts\\n+++ b/src/a.ts"}]',
+      '```',
+    ].join('\n');
+
+    expect(parseReviewFindings(text)).toEqual([
+      {
+        id: 'finding-0',
+        file: 'src/a.ts',
+        startLine: 3,
+        endLine: 5,
+        severity: 'major',
+        category: 'bug',
+        title: 'Off by one',
+        suggestion: 'Use <=',
+        patch: '--- a/src/a.ts\n+++ b/src/a.ts',
+      },
+    ]);
+  });
+
+  it('normalizes fields and drops entries without a location or message', () => {
+    const findings = parseReviewFindings(
+      JSON.stringify([
+        { file: 'b/src/b.ts', line: '7', severity: 'HIGH', suggestion: 'Check for null\nmore' },
+        { file: 'src/c.ts', title: 'No line' },
+        { startLine: 1, title: 'No file' },
+        { file: 'src/d.ts', startLine: 4 },
+        'not an object',
+      ])
+    );
+
+    expect(findings).toEqual([
+      {
+        id: 'finding-0',
+        file: 'src/b.ts',
+        startLine: 7,
+        endLine: 7,
+        severity: 'info',
+        category: 'general',
+        title: 'Check for null',
+        suggestion: 'Check for null\nmore',
+      },
+    ]);
+  });
+
+  it('sorts by severity, then file and line', () => {
+    const findings = parseReviewFindings(
+      JSON.stringify([
+        { file: 'b.ts', startLine: 1, severity: 'minor', title: 'x' },
+        { file: 'b.ts', startLine: 9, severity: 'critical', title: 'y' },
+        { file: 'a.ts', startLine: 5, severity: 'critical', title: 'z' },
+      ])
+    );
+
+    expect(findings?.map((f) => `${f.file}:${f.startLine}`)).toEqual([
+      'a.ts:5',
+      'b.ts:9',
+      'b.ts:1',
+    ]);
+  });
+
+  it('returns null without a JSON array', () => {
+    expect(parseReviewFindings('The code looks good.')).toBeNull();
+    expect(parseReviewFindings('[not json]')).toBeNull();
+    expect(parseReviewFindings('[]')).toEqual([]);
+  });
+});
+
+const FINDING: ReviewFinding = {
+  id: 'finding-0',
+  file: 'src/a.ts',
+  startLine: 3,
+  endLine: 5,
+  severity: 'major',
+  category: 'bug',
+  title: 'Off by one',
+  suggestion: 'Use <= instead of <',
+};
+
+describe('toRepoRelativePath', () => {
+  it('strips the root, including Windows separators', () => {
+    expect(toRepoRelativePath('/repo/', '/repo/src/a.ts')).toBe('src/a.ts');
+    expect(toRepoRelativePath('C:\\repo', 'C:\\repo\\src\\a.ts')).toBe('src/a.ts');
+    expect(toRepoRelativePath('/repo', '/repository/a.ts')).toBeNull();
+  });
+});
+
+describe('getFileFindings', () => {
+  it('matches findings by repository-relative path', () => {
+    expect(getFileFindings([FINDING], './src/a.ts')).toEqual([FINDING]);
+    expect(getFileFindings([FINDING], 'src/b.ts')).toEqual([]);
+  });
+});
+
+describe('buildFindingFixPrompt', () => {
+  it('includes the location, title and suggestion', () => {
+    expect(buildFindingFixPrompt(FINDING)).toBe(
+      [
+        'Fix this code review finding (major, bug) at src/a.ts#L3-L5:',
+        'Off by one',
+        'Suggestion: Use <= instead of <',
+      ].join('\n')
+    );
+    expect(buildFindingFixPrompt({ ...FINDING, endLine: 3, suggestion: 'Off by one' })).toBe(
+      'Fix this code review finding (major, bug) at src/a.ts#L3:\nOff by one'
+    );
+  });
+});
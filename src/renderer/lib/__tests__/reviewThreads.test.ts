@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildPullRequestReviewComments,
+  buildReviewMessage,
+  getAnchorText,
+  locateThread,
+  type ReviewThread,
+} from '../reviewThreads';
+
+const FILE = ['import a', 'const x = 1;', 'const y = 2;', 'export { x, y };'].join('\n');
+
+function thread(overrides: Partial<ReviewThread>): ReviewThread {
+  return {
+    id: 't1',
+    filePath: 'src/a.ts',
+    startLine: 2,
+    endLine: 3,
+    anchorText: getAnchorText(FILE, 2, 3),
+    commit: null,
+    comments: [{ id: 'c1', text: 'Rename these', createdAt: 0 }],
+    resolved: false,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('locateThread', () => {
+  it('keeps threads whose lines are unchanged', () => {
+    expect(locateThread(thread({}), FILE)).toEqual({ status: 'current', startLine: 2, endLine: 3 });
+  });
+
+  it('follows lines that moved', () => {
+    const moved = `// header\n\n${FILE}`;
+    expect(locateThread(thread({}), moved)).toEqual({ status: 'moved', startLine: 4, endLine: 5 });
+  });
+
+  it('picks the closest match when the lines appear twice', () => {
+    const twice = `${FILE}\n${FILE}`;
+    const t = thread({ startLine: 7, endLine: 8 });
+    expect(locateThread(t, twice)).toEqual({ status: 'moved', startLine: 6, endLine: 7 });
+  });
+
+  it('marks threads outdated when the lines are gone', () => {
+    const edited = FILE.replace('const y = 2;', 'const y = 3;');
+    expect(locateThread(thread({}), edited).status).toBe('outdated');
+  });
+
+  it('does not relocate blank anchors', () => {
+    const t = thread({ startLine: 1, endLine: 1, anchorText: '' });
+    expect(locateThread(t, 'a\n\nb').status).toBe('outdated');
+  });
+});
+
+describe('buildReviewMessage', () => {
+  it('includes replies, submodule paths and outdated notes', () => {
+    const threads = [
+      thread({
+        comments: [
+          { id: 'c1', text: 'Rename these', createdAt: 0 },
+          { id: 'c2', text: 'Use camelCase', createdAt: 1 },
+        ],
+      }),
+      thread({ id: 't2', submodulePath: 'lib/sub', startLine: 4, endLine: 4 }),
+    ];
+    const message = buildReviewMessage(threads, (t) =>
+      t.id === 't2' ? { status: 'outdated', startLine: 4, endLine: 4 } : null
+    );
+    expect(message).toBe(
+      [
+        'src/a.ts#L2-L3',
+        'User comment: "Rename these"',
+        'Reply: "Use camelCase"',
+        '',
+        'lib/sub/src/a.ts#L4',
+        '(The code has changed since this comment was written)',
+        'User comment: "Rename these"',
+      ].join('\n')
+    );
+  });
+});
+
+describe('buildPullRequestReviewComments', () => {
+  it('uses current locations and skips submodule and outdated threads', () => {
+    const moved = thread({
+      id: 'moved',
+      comments: [
+        { id: 'c1', text: 'Rename these', createdAt: 0 },
+        { id: 'c2', text: 'Both of them', createdAt: 1 },
+      ],
+    });
+    const single = thread({ id: 'single', startLine: 1, endLine: 1, anchorText: 'import a' });
+    const outdated = thread({ id: 'outdated' });
+    const submodule = thread({ id: 'sub', submodulePath: 'libs/core' });
+
+    const comments = buildPullRequestReviewComments([moved, single, outdated, submodule], (t) =>
+      t.id === 'moved'
+        ? { status: 'moved', startLine: 5, endLine: 6 }
+        : t.id === 'outdated'
+          ? { status: 'outdated', startLine: 2, endLine: 3 }
+          : null
+    );
+
+    expect(comments).toEqual([
+      { path: 'src/a.ts', line: 6, startLine: 5, body: 'Rename these\n\nBoth of them' },
+      { path: 'src/a.ts', line: 1, startLine: undefined, body: 'Rename these' },
+    ]);
+  });
+});
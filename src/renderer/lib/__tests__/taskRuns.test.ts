@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { StatusData } from '@/stores/agentStatus';
+import { formatDuration } from '../statusFormat';
+import { getRunUsage } from '../taskRuns';
+
+describe('getRunUsage', () => {
+  it('takes model, cost and token totals from the status line', () => {
+    const status = {
+      model: { id: 'claude-x', displayName: 'Claude X' },
+      contextWindow: {
+        totalInputTokens: 1200,
+        totalOutputTokens: 340,
+        contextWindowSize: 200000,
+        currentUsage: null,
+      },
+      cost: {
+        totalCostUsd: 0.42,
+        totalDurationMs: 60000,
+        totalApiDurationMs: 30000,
+        totalLinesAdded: 10,
+        totalLinesRemoved: 2,
+      },
+      updatedAt: 0,
+    } as StatusData;
+
+    expect(getRunUsage(status)).toEqual({
+      model: 'Claude X',
+      costUsd: 0.42,
+      inputTokens: 1200,
+      outputTokens: 340,
+    });
+  });
+
+  it('tolerates missing or partial status', () => {
+    expect(getRunUsage(undefined)).toEqual({});
+    expect(getRunUsage({ updatedAt: 0 } as StatusData)).toEqual({
+      model: undefined,
+      costUsd: undefined,
+      inputTokens: undefined,
+      outputTokens: undefined,
+    });
+  });
+});
+
+describe('formatDuration', () => {
+  it('uses the largest sensible units', () => {
+    expect(formatDuration(42_000)).toBe('42s');
+    expect(formatDuration(125_000)).toBe('2m5s');
+    expect(formatDuration(3_900_000)).toBe('1h5m');
+  });
+});
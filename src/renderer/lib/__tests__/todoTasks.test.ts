@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { TodoTask } from '@/components/todo/types';
+import {
+  findRunnableTaskId,
+  getBoardStatuses,
+  getIssueReference,
+  getOpenBlockers,
+  parseLabels,
+  planIssueImport,
+  wouldCreateDependencyCycle,
+} from '../todoTasks';
+
+function task(id: string, overrides: Partial<TodoTask> = {}): TodoTask {
+  return {
+    id,
+    title: id,
+    description: '',
+    priority: 'medium',
+    status: 'todo',
+    createdAt: 0,
+    updatedAt: 0,
+    order: 0,
+    labels: [],
+    blockedBy: [],
+    ...overrides,
+  };
+}
+
+describe('dependencies', () => {
+  const tasks = [
+    task('a'),
+    task('b', { blockedBy: ['a'] }),
+    task('c', { blockedBy: ['b', 'gone'] }),
+    task('d', { status: 'done' }),
+    task('e', { blockedBy: ['d'] }),
+  ];
+
+  it('only counts blockers that exist and are not done', () => {
+    expect(getOpenBlockers(tasks[2], tasks).map((t) => t.id)).toEqual(['b']);
+    expect(getOpenBlockers(tasks[4], tasks)).toEqual([]);
+  });
+
+  it('detects transitive cycles', () => {
+    expect(wouldCreateDependencyCycle(tasks, 'a', 'c')).toBe(true);
+    expect(wouldCreateDependencyCycle(tasks, 'a', 'a')).toBe(true);
+    expect(wouldCreateDependencyCycle(tasks, 'c', 'e')).toBe(false);
+  });
+
+  it('picks the first queued task that is not blocked', () => {
+    expect(findRunnableTaskId(['c', 'b', 'e'], tasks)).toBe('e');
+    expect(findRunnableTaskId(['c', 'b'], tasks)).toBeNull();
+    expect(findRunnableTaskId(['deleted', 'a'], tasks)).toBe('deleted');
+  });
+});
+
+describe('board helpers', () => {
+  it('parses labels and orders columns', () => {
+    expect(parseLabels(' ui, bug ,,ui，docs')).toEqual(['ui', 'bug', 'docs']);
+    expect(
+      getBoardStatuses([
+        { id: 'qa', title: 'QA', order: 1 },
+        { id: 'review', title: 'Review', order: 0 },
+      ])
+    ).toEqual(['todo', 'in-progress', 'review', 'qa', 'done']);
+  });
+});
+
+describe('GitHub issues', () => {
+  const issue = (number: number, title: string, labels: string[] = []) => ({
+    number,
+    title,
+    body: '',
+    url: `https://github.com/o/r/issues/${number}`,
+    author: 'dave',
+    labels,
+    updatedAt: '2026-01-01T00:00:00Z',
+  });
+
+  it('adds new issues and syncs titles and labels of linked tasks', () => {
+    const tasks = [
+      task('a', { issueNumber: 1, title: 'Old title', labels: ['local'] }),
+      task('b', { issueNumber: 2, title: 'Same', labels: ['bug'] }),
+      task('c'),
+    ];
+    const plan = planIssueImport(tasks, [
+      issue(1, 'New title', ['bug']),
+      issue(2, 'Same', ['bug']),
+      issue(3, 'Fresh'),
+    ]);
+    expect(plan.added.map((i) => i.number)).toEqual([3]);
+    expect(plan.updated).toEqual([{ taskId: 'a', title: 'New title', labels: ['local', 'bug'] }]);
+  });
+
+  it('references the issue only once in a PR body', () => {
+    expect(getIssueReference('Adds a thing', 12)).toBe('Closes #12');
+    expect(getIssueReference('Fixes #12', 12)).toBeNull();
+    expect(getIssueReference('See #123', 12)).toBe('Closes #12');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { buildWorktreePath, getTaskBranchName, getUniqueBranchName } from '../worktreeTask';
+
+describe('buildWorktreePath', () => {
+  it('uses the last segment of the project path', () => {
+    expect(buildWorktreePath('/home/me/ws', '/code/enso', 'feat-x', '/')).toBe(
+      '/home/me/ws/enso/feat-x'
+    );
+    expect(buildWorktreePath('C:\\ws', 'C:\\code\\enso\\', 'fix', '\\')).toBe('C:\\ws\\enso\\fix');
+  });
+});
+
+describe('getTaskBranchName', () => {
+  it('slugifies the title and falls back to the task ID', () => {
+    expect(getTaskBranchName('Fix login redirect on Safari!', 'abc')).toBe(
+      'task/fix-login-redirect-on-safari'
+    );
+    expect(getTaskBranchName('修复登录', '0123456789')).toBe('task/01234567');
+  });
+});
+
+describe('getUniqueBranchName', () => {
+  it('adds the first free numeric suffix', () => {
+    expect(getUniqueBranchName('task/a', new Set())).toBe('task/a');
+    expect(getUniqueBranchName('task/a', new Set(['task/a', 'task/a-2']))).toBe('task/a-3');
+  });
+});
@@ -0,0 +1,97 @@
+export type AsciicastEventType = 'o' | 'i' | 'r' | 'm';
+
+export interface AsciicastEvent {
+  time: number; // seconds from the start of the playback timeline
+  type: AsciicastEventType;
+  data: string;
+}
+
+export interface Asciicast {
+  width: number;
+  height: number;
+  title: string;
+  events: AsciicastEvent[];
+  duration: number;
+}
+
+const EVENT_TYPES: AsciicastEventType[] = ['o', 'i', 'r', 'm'];
+
+/**
+ * Parses an asciicast v2 file. Pauses longer than idleTimeLimit seconds are
+ * shortened to that limit, so long unattended agent runs replay without dead air.
+ * Malformed event lines are skipped; a missing or invalid header throws.
+ */
+export function parseAsciicast(text: string, idleTimeLimit = Infinity): Asciicast {
+  const lines = text.split('\n');
+  let header: Record<string, unknown>;
+  try {
+    header = JSON.parse(lines[0]);
+  } catch {
+    throw new Error('Invalid asciicast header');
+  }
+  if (!header || header.version !== 2) {
+    throw new Error('Unsupported asciicast version');
+  }
+
+  const events: AsciicastEvent[] = [];
+  let lastTime = 0;
+  let shifted = 0;
+  for (const line of lines.slice(1)) {
+    if (!line.trim()) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(parsed) || parsed.length < 3) continue;
+    const [time, type, data] = parsed;
+    if (typeof time !== 'number' || typeof data !== 'string') continue;
+    if (!EVENT_TYPES.includes(type)) continue;
+
+    const gap = Math.max(0, time - lastTime);
+    shifted += Math.min(gap, idleTimeLimit);
+    lastTime = Math.max(lastTime, time);
+    events.push({ time: shifted, type, data });
+  }
+
+  return {
+    width: typeof header.width === 'number' ? header.width : 80,
+    height: typeof header.height === 'number' ? header.height : 24,
+    title: typeof header.title === 'string' ? header.title : '',
+    events,
+    duration: events.length > 0 ? events[events.length - 1].time : 0,
+  };
+}
+
+/** Number of events that happen at or before the given time */
+export function countEventsUntil(events: AsciicastEvent[], time: number): number {
+  let low = 0;
+  let high = events.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (events[mid].time <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/** Terminal size from a resize event ("120x40"), or null if malformed */
+export function parseResize(data: string): { cols: number; rows: number } | null {
+  const match = data.match(/^(\d+)x(\d+)$/);
+  if (!match) return null;
+  return { cols: Number(match[1]), rows: Number(match[2]) };
+}
+
+export function formatPlaybackTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = String(m).padStart(h > 0 ? 2 : 1, '0');
+  const ss = String(s).padStart(2, '0');
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}
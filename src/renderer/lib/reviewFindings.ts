@@ -0,0 +1,105 @@
+import type { ReviewFinding, ReviewFindingSeverity } from '@shared/types';
+
+const SEVERITIES: ReviewFindingSeverity[] = ['critical', 'major', 'minor', 'info'];
+
+function toLine(value: unknown): number | null {
+  const line = typeof value === 'string' ? Number.parseInt(value, 10) : value;
+  return typeof line === 'number' && Number.isFinite(line) ? Math.max(1, Math.floor(line)) : null;
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// Paths as they appear in diff headers (a/src/x.ts) or relative to cwd (./src/x.ts)
+export function normalizeFindingPath(file: string): string {
+  return file
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(?:[ab]\/|\.\/)/, '');
+}
+
+/**
+ * Parses the findings of a structured review. Models sometimes wrap the JSON in
+ * fences or prose, so the outermost array is extracted first. Returns null when
+ * there is no JSON array at all; malformed entries are dropped.
+ */
+export function parseReviewFindings(text: string): ReviewFinding[] | null {
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start === -1 || end <= start) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed)) return null;
+
+  const findings: ReviewFinding[] = [];
+  parsed.forEach((item, index) => {
+    if (!item || typeof item !== 'object') return;
+    const raw = item as Record<string, unknown>;
+
+    const file = normalizeFindingPath(toText(raw.file));
+    const startLine = toLine(raw.startLine ?? raw.line);
+    if (!file || startLine === null) return;
+
+    const suggestion = toText(raw.suggestion);
+    const title = toText(raw.title) || suggestion.split('\n')[0];
+    if (!title) return;
+
+    const severity = toText(raw.severity).toLowerCase() as ReviewFindingSeverity;
+    const patch = toText(raw.patch);
+
+    findings.push({
+      id: `finding-${index}`,
+      file,
+      startLine,
+      endLine: Math.max(startLine, toLine(raw.endLine) ?? startLine),
+      severity: SEVERITIES.includes(severity) ? severity : 'info',
+      category: toText(raw.category) || 'general',
+      title,
+      suggestion,
+      ...(patch && { patch }),
+    });
+  });
+
+  // Most severe first, then in file order
+  return findings.sort(
+    (a, b) =>
+      SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+      a.file.localeCompare(b.file) ||
+      a.startLine - b.startLine
+  );
+}
+
+/** Path of a file relative to the repository root, or null when it is outside */
+export function toRepoRelativePath(rootPath: string, filePath: string): string | null {
+  const root = rootPath.replace(/\\/g, '/').replace(/\/+$/, '');
+  const file = filePath.replace(/\\/g, '/');
+  if (!file.startsWith(`${root}/`)) return null;
+  return file.slice(root.length + 1);
+}
+
+export function getFileFindings(findings: ReviewFinding[], relativePath: string): ReviewFinding[] {
+  const path = normalizeFindingPath(relativePath);
+  return findings.filter((finding) => finding.file === path);
+}
+
+/** Message sent to an agent session asking it to fix one finding */
+export function buildFindingFixPrompt(finding: ReviewFinding): string {
+  const location =
+    finding.endLine > finding.startLine
+      ? `${finding.file}#L${finding.startLine}-L${finding.endLine}`
+      : `${finding.file}#L${finding.startLine}`;
+  const lines = [
+    `Fix this code review finding (${finding.severity}, ${finding.category}) at ${location}:`,
+    finding.title,
+  ];
+  if (finding.suggestion && finding.suggestion !== finding.title) {
+    lines.push(`Suggestion: ${finding.suggestion}`);
+  }
+  return lines.join('\n');
+}
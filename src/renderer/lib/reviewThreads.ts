@@ -0,0 +1,138 @@
+import type { PullRequestReviewCommentInput } from '@shared/types';
+
+export interface ReviewComment {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+/** A review comment thread anchored to lines of a changed file */
+export interface ReviewThread {
+  id: string;
+  filePath: string; // relative to the worktree (or submodule) root
+  submodulePath?: string;
+  startLine: number;
+  endLine: number;
+  // Text of the anchored lines when the thread was created, used to follow the code
+  anchorText: string;
+  // HEAD of the worktree when the thread was created
+  commit: string | null;
+  comments: ReviewComment[]; // first entry is the original comment
+  resolved: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ReviewAnchorStatus = 'current' | 'moved' | 'outdated';
+
+export interface ReviewAnchorLocation {
+  status: ReviewAnchorStatus;
+  startLine: number;
+  endLine: number;
+}
+
+function splitLines(content: string): string[] {
+  return content.split(/\r?\n/);
+}
+
+export function getAnchorText(content: string, startLine: number, endLine: number): string {
+  return splitLines(content)
+    .slice(startLine - 1, endLine)
+    .join('\n');
+}
+
+/**
+ * Finds where a thread's anchored lines are in the current file content.
+ * Lines that are unchanged stay `current`; lines found elsewhere are `moved`
+ * (the closest match wins); lines that no longer exist are `outdated`.
+ */
+export function locateThread(
+  thread: Pick<ReviewThread, 'startLine' | 'endLine' | 'anchorText'>,
+  content: string
+): ReviewAnchorLocation {
+  const { startLine, endLine, anchorText } = thread;
+  const lines = splitLines(content);
+  const anchorLines = splitLines(anchorText);
+
+  const matchesAt = (start: number) =>
+    anchorLines.every((line, i) => lines[start - 1 + i] === line);
+
+  if (matchesAt(startLine)) {
+    return { status: 'current', startLine, endLine };
+  }
+
+  // Blank anchors match anywhere; don't guess where they went
+  if (anchorText.trim()) {
+    let best: number | null = null;
+    for (let start = 1; start + anchorLines.length - 1 <= lines.length; start++) {
+      if (!matchesAt(start)) continue;
+      if (best === null || Math.abs(start - startLine) < Math.abs(best - startLine)) {
+        best = start;
+      }
+    }
+    if (best !== null) {
+      return { status: 'moved', startLine: best, endLine: best + anchorLines.length - 1 };
+    }
+  }
+
+  return { status: 'outdated', startLine, endLine };
+}
+
+export function formatLineRef(startLine: number, endLine: number): string {
+  return startLine === endLine ? `L${startLine}` : `L${startLine}-L${endLine}`;
+}
+
+/**
+ * Builds the message sent to an agent session for a set of threads.
+ * `locate` returns the current position of each thread (or null when unknown).
+ */
+export function buildReviewMessage(
+  threads: ReviewThread[],
+  locate: (thread: ReviewThread) => ReviewAnchorLocation | null = () => null
+): string {
+  const lines: string[] = [];
+  for (const thread of threads) {
+    const location = locate(thread);
+    const path = thread.submodulePath
+      ? `${thread.submodulePath}/${thread.filePath}`
+      : thread.filePath;
+    const startLine = location?.startLine ?? thread.startLine;
+    const endLine = location?.endLine ?? thread.endLine;
+    lines.push(`${path}#${formatLineRef(startLine, endLine)}`);
+    if (location?.status === 'outdated') {
+      lines.push('(The code has changed since this comment was written)');
+    }
+    const [first, ...replies] = thread.comments;
+    if (first) lines.push(`User comment: "${first.text}"`);
+    for (const reply of replies) {
+      lines.push(`Reply: "${reply.text}"`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n').trim();
+}
+
+/**
+ * Converts threads into inline comments for a GitHub review. Submodule threads
+ * and threads whose code is gone can't be placed on the PR diff and are skipped.
+ */
+export function buildPullRequestReviewComments(
+  threads: ReviewThread[],
+  locate: (thread: ReviewThread) => ReviewAnchorLocation | null
+): PullRequestReviewCommentInput[] {
+  const comments: PullRequestReviewCommentInput[] = [];
+  for (const thread of threads) {
+    if (thread.submodulePath) continue;
+    const location = locate(thread);
+    if (location?.status === 'outdated') continue;
+    const startLine = location?.startLine ?? thread.startLine;
+    const endLine = location?.endLine ?? thread.endLine;
+    comments.push({
+      path: thread.filePath,
+      line: endLine,
+      startLine: startLine < endLine ? startLine : undefined,
+      body: thread.comments.map((comment) => comment.text).join('\n\n'),
+    });
+  }
+  return comments;
+}
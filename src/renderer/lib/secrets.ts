@@ -0,0 +1,72 @@
+import type { McpServer } from '@shared/types';
+import { isHttpMcpServer } from '@shared/types';
+import { isSecretRef } from '@shared/utils/secretRef';
+
+/**
+ * Store a secret in the vault and return the reference to keep in settings.
+ * References and empty values are returned unchanged; `previousRef` is
+ * overwritten in place so edits don't leave orphaned entries.
+ */
+export async function sealSecret(value: string, previousRef?: string): Promise<string> {
+  if (!value || isSecretRef(value)) return value;
+  return window.electronAPI.secrets.store(
+    value,
+    isSecretRef(previousRef) ? previousRef : undefined
+  );
+}
+
+/** Seal every value of a record (MCP env / headers), reusing references per key */
+export async function sealSecretRecord(
+  record: Record<string, string> | undefined,
+  previous?: Record<string, string>
+): Promise<Record<string, string> | undefined> {
+  if (!record) return record;
+  const entries = await Promise.all(
+    Object.entries(record).map(
+      async ([key, value]) => [key, await sealSecret(value, previous?.[key])] as const
+    )
+  );
+  const removed = Object.entries(previous ?? {}).filter(
+    ([key, value]) => isSecretRef(value) && !(key in record)
+  );
+  await Promise.all(removed.map(([, value]) => releaseSecret(value)));
+  return Object.fromEntries(entries);
+}
+
+/** Delete the vault entry behind a reference, if any */
+export async function releaseSecret(value: string | undefined): Promise<void> {
+  if (value && isSecretRef(value)) {
+    await window.electronAPI.secrets.delete(value);
+  }
+}
+
+export async function releaseSecretRecord(
+  record: Record<string, string> | undefined
+): Promise<void> {
+  await Promise.all(Object.values(record ?? {}).map(releaseSecret));
+}
+
+function getMcpServerSecrets(server: McpServer): Record<string, string> | undefined {
+  return isHttpMcpServer(server) ? server.headers : server.env;
+}
+
+/** Seal the headers (HTTP/SSE) or env (stdio) of an MCP server */
+export async function sealMcpServerSecrets(
+  server: McpServer,
+  previous?: McpServer | null
+): Promise<McpServer> {
+  const sameTransport = previous && isHttpMcpServer(previous) === isHttpMcpServer(server);
+  if (previous && !sameTransport) {
+    await releaseSecretRecord(getMcpServerSecrets(previous));
+  }
+  const previousSecrets = sameTransport ? getMcpServerSecrets(previous) : undefined;
+
+  if (isHttpMcpServer(server)) {
+    return { ...server, headers: await sealSecretRecord(server.headers, previousSecrets) };
+  }
+  return { ...server, env: await sealSecretRecord(server.env, previousSecrets) };
+}
+
+export async function releaseMcpServerSecrets(server: McpServer): Promise<void> {
+  await releaseSecretRecord(getMcpServerSecrets(server));
+}
@@ -0,0 +1,15 @@
+import type { TodoTaskRunUpdates } from '@shared/types';
+import type { StatusData } from '@/stores/agentStatus';
+
+/** Model, cost and token totals of a run from the agent's last status line update */
+export function getRunUsage(
+  status: StatusData | undefined
+): Pick<TodoTaskRunUpdates, 'model' | 'costUsd' | 'inputTokens' | 'outputTokens'> {
+  if (!status) return {};
+  return {
+    model: status.model?.displayName || status.model?.id || undefined,
+    costUsd: status.cost?.totalCostUsd,
+    inputTokens: status.contextWindow?.totalInputTokens,
+    outputTokens: status.contextWindow?.totalOutputTokens,
+  };
+}
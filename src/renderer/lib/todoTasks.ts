@@ -0,0 +1,107 @@
+import type { GitHubIssue } from '@shared/types';
+import type { TodoColumn, TodoTask } from '@/components/todo/types';
+
+/** Blockers of `task` that exist and are not done yet */
+export function getOpenBlockers(task: TodoTask, tasks: TodoTask[]): TodoTask[] {
+  if (task.blockedBy.length === 0) return [];
+  const blockerIds = new Set(task.blockedBy);
+  return tasks.filter((t) => blockerIds.has(t.id) && t.status !== 'done');
+}
+
+export function isTaskBlocked(task: TodoTask, tasks: TodoTask[]): boolean {
+  return getOpenBlockers(task, tasks).length > 0;
+}
+
+/**
+ * Whether making `taskId` blocked by `blockerId` would close a dependency loop,
+ * i.e. the blocker already waits on the task (directly or transitively).
+ */
+export function wouldCreateDependencyCycle(
+  tasks: TodoTask[],
+  taskId: string,
+  blockerId: string
+): boolean {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const visited = new Set<string>();
+  const stack = [blockerId];
+  while (stack.length > 0) {
+    const id = stack.pop() as string;
+    if (id === taskId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(byId.get(id)?.blockedBy ?? []));
+  }
+  return false;
+}
+
+/**
+ * First task ID in `queue` that can start now. Deleted tasks are returned too so
+ * the caller can skip them. Null when every queued task waits on a blocker.
+ */
+export function findRunnableTaskId(queue: string[], tasks: TodoTask[]): string | null {
+  for (const taskId of queue) {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task || !isTaskBlocked(task, tasks)) return taskId;
+  }
+  return null;
+}
+
+/** Labels used on the board, sorted */
+export function collectLabels(tasks: TodoTask[]): string[] {
+  return Array.from(new Set(tasks.flatMap((t) => t.labels))).sort((a, b) => a.localeCompare(b));
+}
+
+/** Parses comma separated label input, dropping blanks and duplicates */
+export function parseLabels(input: string): string[] {
+  return Array.from(
+    new Set(
+      input
+        .split(/[,，]/)
+        .map((label) => label.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/** Board column order: todo, in-progress, user-defined columns, done */
+export function getBoardStatuses(columns: TodoColumn[]): string[] {
+  const custom = [...columns].sort((a, b) => a.order - b.order).map((c) => c.id);
+  return ['todo', 'in-progress', ...custom, 'done'];
+}
+
+export interface IssueImportPlan {
+  /** Open issues that have no task yet */
+  added: GitHubIssue[];
+  /** Linked tasks whose title or labels changed on GitHub */
+  updated: { taskId: string; title: string; labels: string[] }[];
+}
+
+/**
+ * Matches open issues to the tasks imported from them. Local descriptions are
+ * left alone, GitHub labels are added to the task's own labels.
+ */
+export function planIssueImport(tasks: TodoTask[], issues: GitHubIssue[]): IssueImportPlan {
+  const byIssue = new Map<number, TodoTask>();
+  for (const task of tasks) {
+    if (task.issueNumber !== undefined) byIssue.set(task.issueNumber, task);
+  }
+
+  const plan: IssueImportPlan = { added: [], updated: [] };
+  for (const issue of issues) {
+    const task = byIssue.get(issue.number);
+    if (!task) {
+      plan.added.push(issue);
+      continue;
+    }
+    const labels = Array.from(new Set([...task.labels, ...issue.labels]));
+    if (task.title !== issue.title || labels.length !== task.labels.length) {
+      plan.updated.push({ taskId: task.id, title: issue.title, labels });
+    }
+  }
+  return plan;
+}
+
+/** `Closes #N` keyword for a PR body, unless the body already references the issue */
+export function getIssueReference(body: string, issueNumber: number): string | null {
+  return new RegExp(`#${issueNumber}(?!\\d)`).test(body) ? null : `Closes #${issueNumber}`;
+}
@@ -0,0 +1,39 @@
+import userScript from '../../../scripts/web-inspector.user.js?raw';
+
+// Minimal Greasemonkey API for running the Web Inspector userscript inside the
+// dev server preview. The picker is always enabled there and its settings are
+// kept in the page's localStorage.
+const GM_SHIM = `
+const GM_PREFIX = 'enso-inspector:';
+function GM_getValue(key, fallback) {
+  if (key === 'enabledSites') return { [window.location.host]: true };
+  try {
+    const value = window.localStorage.getItem(GM_PREFIX + key);
+    return value === null ? fallback : JSON.parse(value);
+  } catch {
+    return fallback;
+  }
+}
+function GM_setValue(key, value) {
+  try {
+    window.localStorage.setItem(GM_PREFIX + key, JSON.stringify(value));
+  } catch {}
+}
+function GM_registerMenuCommand() {
+  return null;
+}
+function GM_unregisterMenuCommand() {}
+function GM_xmlhttpRequest({ method, url, headers, data, onload, onerror }) {
+  fetch(url, { method, headers, body: data })
+    .then((res) => onload && onload({ status: res.status }))
+    .catch(() => onerror && onerror());
+}
+`;
+
+/** Script injected into a preview page to show the Web Inspector element picker */
+export const WEB_INSPECTOR_PREVIEW_SCRIPT = `(() => {
+  if (window.__ensoWebInspector) return;
+  window.__ensoWebInspector = true;
+${GM_SHIM}
+${userScript}
+})();`;
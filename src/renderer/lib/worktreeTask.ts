@@ -0,0 +1,50 @@
+/**
+ * Worktree path for a new branch: {basePath}/{projectName}/{branchName}.
+ * `projectName` may be a full repository path, only its last segment is used.
+ */
+export function buildWorktreePath(
+  basePath: string,
+  projectName: string,
+  branchName: string,
+  sep: '/' | '\\'
+): string {
+  const normalizedName = projectName.replace(/\\/g, '/');
+  const projectBaseName = normalizedName.split('/').filter(Boolean).pop() || projectName;
+  return [basePath, projectBaseName, branchName].join(sep);
+}
+
+/**
+ * Branch name derived from a task title, used when the AI branch name generator
+ * is unavailable. Non-ASCII titles fall back to the task ID.
+ */
+export function getTaskBranchName(title: string, taskId: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .split('-')
+    .slice(0, 6)
+    .join('-');
+  return `task/${slug || taskId.slice(0, 8)}`;
+}
+
+/** Appends a numeric suffix until the name is not taken */
+export function getUniqueBranchName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  let index = 2;
+  while (taken.has(`${name}-${index}`)) {
+    index++;
+  }
+  return `${name}-${index}`;
+}
+
+/** Fills the branch name generator prompt template */
+export function buildBranchNamePrompt(template: string, description: string, now = new Date()) {
+  const pad2 = (value: number) => String(value).padStart(2, '0');
+  const currentDate = `${now.getFullYear()}${pad2(now.getMonth() + 1)}${pad2(now.getDate())}`;
+  const currentTime = `${pad2(now.getHours())}:${pad2(now.getMinutes())}:${pad2(now.getSeconds())}`;
+  return template
+    .replaceAll('{description}', description)
+    .replaceAll('{current_date}', currentDate)
+    .replaceAll('{current_time}', currentTime);
+}
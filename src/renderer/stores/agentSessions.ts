@@ -197,7 +197,14 @@ export const useAgentSessionsStore = create<AgentSessionsState>()(
           (max, s) => Math.max(max, s.displayOrder ?? 0),
           -1
         );
-        const newSession = { ...session, displayOrder: maxOrder + 1 };
+        // New Claude sessions keep the provider bound to the worktree's active session
+        const activeId = state.activeIds[makeActiveKey(session.repoPath, session.cwd)];
+        const providerId =
+          session.providerId ??
+          (session.agentCommand?.startsWith('claude')
+            ? worktreeSessions.find((s) => s.id === activeId)?.providerId
+            : undefined);
+        const newSession = { ...session, providerId, displayOrder: maxOrder + 1 };
         return {
           sessions: [...state.sessions, newSession],
           activeIds: {
@@ -1,5 +1,6 @@
-import type { AIProvider } from '@shared/types';
+import type { AIProvider, CodeReviewMode, CodeReviewScope, ReviewFinding } from '@shared/types';
 import { create } from 'zustand';
+import { parseReviewFindings } from '@/lib/reviewFindings';
 
 export type ReviewStatus = 'idle' | 'initializing' | 'streaming' | 'complete' | 'error';
 
@@ -10,6 +11,10 @@ interface CodeReviewState {
   repoPath: string | null;
   reviewId: string | null; // IPC flow control ID (timestamp format)
   sessionId: string | null; // Claude session ID (UUID) for "Continue Conversation"
+  mode: CodeReviewMode;
+  scope: CodeReviewScope;
+  // Parsed when a structured review completes; null if the output was not valid JSON
+  findings: ReviewFinding[] | null;
 }
 
 interface ContinueConversationState {
@@ -49,6 +54,9 @@ const initialReviewState: CodeReviewState = {
   repoPath: null,
   reviewId: null,
   sessionId: null,
+  mode: 'markdown',
+  scope: { type: 'changes' },
+  findings: null,
 };
 
 const initialContinueConversationState: ContinueConversationState = {
@@ -137,6 +145,8 @@ export async function startCodeReview(
     effortLevel?: string;
     language: string;
     prompt?: string;
+    mode?: CodeReviewMode;
+    scope?: CodeReviewScope;
   }
 ): Promise<void> {
   const store = useCodeReviewContinueStore.getState();
@@ -145,11 +155,16 @@ export async function startCodeReview(
   store.setReviewId(null);
   store.setSessionId(null);
 
+  const mode = settings.mode ?? 'markdown';
+  const scope = settings.scope ?? initialReviewState.scope;
   store.updateReview({
     content: '',
     status: 'initializing',
     error: null,
     repoPath,
+    mode,
+    scope,
+    findings: null,
   });
 
   if (cleanupFn) {
@@ -189,7 +204,15 @@ export async function startCodeReview(
           error: `Process exited with code ${event.exitCode}`,
         });
       } else if (currentStatus !== 'error') {
-        store.updateReview({ status: 'complete' });
+        // Chunked reviews run one session per chunk; none of them holds the whole review
+        if (event.continuable === false) {
+          store.setSessionId(null);
+        }
+        const { content } = useCodeReviewContinueStore.getState().review;
+        store.updateReview({
+          status: 'complete',
+          findings: mode === 'structured' ? parseReviewFindings(content) : null,
+        });
       }
       // Keep reviewId for "Continue Conversation" feature
       // It will be cleared when starting a new review or resetting
@@ -209,6 +232,8 @@ export async function startCodeReview(
       reviewId,
       sessionId, // Pass sessionId for Claude session persistence
       prompt: settings.prompt, // Pass custom prompt template
+      mode,
+      scope,
     });
 
     if (!result.success) {
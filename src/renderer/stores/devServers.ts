@@ -0,0 +1,57 @@
+import type { DevServerPort } from '@shared/types';
+import { useMemo } from 'react';
+import { create } from 'zustand';
+import { normalizePath } from '@/App/storage';
+
+interface SessionPorts {
+  cwd: string;
+  ports: DevServerPort[];
+}
+
+interface DevServersState {
+  // Detected dev server ports by PTY id
+  sessions: Record<string, SessionPorts>;
+  setSessionPorts: (id: string, cwd: string, ports: DevServerPort[]) => void;
+}
+
+export const useDevServersStore = create<DevServersState>((set) => ({
+  sessions: {},
+
+  setSessionPorts: (id, cwd, ports) =>
+    set((state) => {
+      if (ports.length === 0) {
+        if (!state.sessions[id]) return state;
+        const { [id]: _, ...rest } = state.sessions;
+        return { sessions: rest };
+      }
+      return { sessions: { ...state.sessions, [id]: { cwd, ports } } };
+    }),
+}));
+
+/** Dev server ports of all terminal and agent sessions running in a worktree */
+export function useWorktreePorts(worktreePath: string | undefined): DevServerPort[] {
+  const sessions = useDevServersStore((s) => s.sessions);
+
+  return useMemo(() => {
+    if (!worktreePath) return [];
+    const target = normalizePath(worktreePath);
+    const ports = new Map<number, DevServerPort>();
+    for (const session of Object.values(sessions)) {
+      if (normalizePath(session.cwd) !== target) continue;
+      for (const port of session.ports) {
+        if (!ports.has(port.port)) ports.set(port.port, port);
+      }
+    }
+    return [...ports.values()].sort((a, b) => a.port - b.port);
+  }, [sessions, worktreePath]);
+}
+
+/**
+ * Initialize dev server port listener
+ * Call this once on app startup
+ */
+export function initDevServersListener(): () => void {
+  return window.electronAPI.terminal.onPortsChanged(({ id, cwd, ports }) => {
+    useDevServersStore.getState().setSessionPorts(id, cwd, ports);
+  });
+}
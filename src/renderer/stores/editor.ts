@@ -18,6 +18,7 @@ export interface PendingCursor {
   line: number;
   column?: number;
   matchLength?: number;
+  endLine?: number; // select whole lines from line to endLine
   previewMode?: 'off' | 'split' | 'fullscreen';
 }
 
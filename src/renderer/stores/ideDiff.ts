@@ -0,0 +1,27 @@
+import { create } from 'zustand';
+
+// Edit proposed by Claude Code through the IDE bridge's openDiff tool
+export interface IdeDiffReview {
+  requestId: string;
+  filePath: string;
+  tabName: string;
+  originalContents: string;
+  newContents: string;
+}
+
+interface IdeDiffState {
+  // Reviews waiting for the user, shown one at a time in arrival order
+  reviews: IdeDiffReview[];
+
+  addReview: (review: IdeDiffReview) => void;
+  removeReview: (requestId: string) => void;
+}
+
+export const useIdeDiffStore = create<IdeDiffState>((set) => ({
+  reviews: [],
+
+  addReview: (review) => set((state) => ({ reviews: [...state.reviews, review] })),
+
+  removeReview: (requestId) =>
+    set((state) => ({ reviews: state.reviews.filter((r) => r.requestId !== requestId) })),
+}));
@@ -4,6 +4,7 @@ export interface FileNavigationRequest {
   path: string;
   line?: number;
   column?: number;
+  endLine?: number; // select whole lines from line to endLine
   previewMode?: 'off' | 'split' | 'fullscreen';
 }
 
@@ -0,0 +1,111 @@
+import { create } from 'zustand';
+import { normalizePath } from '@/App/storage';
+import type { ReviewThread } from '@/lib/reviewThreads';
+
+const REVIEW_COMMENTS_KEY = 'enso-review-comments';
+
+// Threads indexed by normalized worktree path
+type ThreadsByWorktree = Record<string, ReviewThread[]>;
+
+const EMPTY_THREADS: ReviewThread[] = [];
+
+function loadFromStorage(): ThreadsByWorktree {
+  try {
+    const saved = localStorage.getItem(REVIEW_COMMENTS_KEY);
+    if (!saved) return {};
+    const parsed = JSON.parse(saved) as ThreadsByWorktree;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveToStorage(threads: ThreadsByWorktree): void {
+  localStorage.setItem(REVIEW_COMMENTS_KEY, JSON.stringify(threads));
+}
+
+export type NewReviewThread = Pick<
+  ReviewThread,
+  'filePath' | 'submodulePath' | 'startLine' | 'endLine' | 'anchorText' | 'commit'
+> & { text: string };
+
+interface ReviewCommentsState {
+  threads: ThreadsByWorktree;
+
+  addThread: (worktreePath: string, thread: NewReviewThread) => void;
+  addReply: (worktreePath: string, threadId: string, text: string) => void;
+  setResolved: (worktreePath: string, threadId: string, resolved: boolean) => void;
+  deleteThread: (worktreePath: string, threadId: string) => void;
+}
+
+export const useReviewCommentsStore = create<ReviewCommentsState>((set) => {
+  const updateThreads = (
+    worktreePath: string,
+    updater: (threads: ReviewThread[]) => ReviewThread[]
+  ) =>
+    set((state) => {
+      const key = normalizePath(worktreePath);
+      const next = updater(state.threads[key] ?? []);
+      const threads = { ...state.threads };
+      if (next.length > 0) {
+        threads[key] = next;
+      } else {
+        delete threads[key];
+      }
+      return { threads };
+    });
+
+  const updateThread = (
+    worktreePath: string,
+    threadId: string,
+    updater: (thread: ReviewThread) => ReviewThread
+  ) =>
+    updateThreads(worktreePath, (threads) =>
+      threads.map((t) => (t.id === threadId ? { ...updater(t), updatedAt: Date.now() } : t))
+    );
+
+  return {
+    threads: loadFromStorage(),
+
+    addThread: (worktreePath, { text, ...anchor }) => {
+      const now = Date.now();
+      updateThreads(worktreePath, (threads) => [
+        ...threads,
+        {
+          ...anchor,
+          id: crypto.randomUUID(),
+          comments: [{ id: crypto.randomUUID(), text, createdAt: now }],
+          resolved: false,
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]);
+    },
+
+    addReply: (worktreePath, threadId, text) =>
+      updateThread(worktreePath, threadId, (thread) => ({
+        ...thread,
+        comments: [...thread.comments, { id: crypto.randomUUID(), text, createdAt: Date.now() }],
+        // Replying reopens the conversation
+        resolved: false,
+      })),
+
+    setResolved: (worktreePath, threadId, resolved) =>
+      updateThread(worktreePath, threadId, (thread) => ({ ...thread, resolved })),
+
+    deleteThread: (worktreePath, threadId) =>
+      updateThreads(worktreePath, (threads) => threads.filter((t) => t.id !== threadId)),
+  };
+});
+
+useReviewCommentsStore.subscribe((state, prev) => {
+  if (state.threads !== prev.threads) {
+    saveToStorage(state.threads);
+  }
+});
+
+export function useReviewThreads(worktreePath: string | null | undefined): ReviewThread[] {
+  return useReviewCommentsStore((s) =>
+    worktreePath ? (s.threads[normalizePath(worktreePath)] ?? EMPTY_THREADS) : EMPTY_THREADS
+  );
+}
@@ -1,5 +1,5 @@
 import { normalizeLocale } from '@shared/i18n';
-import type { ProxySettings } from '@shared/types';
+import type { AIApiProviderSettings, LanguageServerConfig, ProxySettings } from '@shared/types';
 import type {
   AgentDetectionStatus,
   AgentSettings,
@@ -223,6 +223,7 @@ export const defaultCodeReviewSettings: CodeReviewSettings = {
   model: 'haiku',
   language: '中文',
   prompt: defaultCodeReviewPromptZh,
+  mode: 'markdown',
 };
 
 // Default AI performance settings
@@ -232,6 +233,20 @@ export const defaultAiPerformanceSettings: AIPerformanceSettings = {
   effortLevel: 'low',
 };
 
+// Default HTTP provider endpoints, used when a feature picks an API provider
+export const defaultAiApiProviderSettings: AIApiProviderSettings = {
+  'openai-compatible': {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    model: '',
+  },
+  'anthropic-api': {
+    baseUrl: 'https://api.anthropic.com',
+    apiKey: '',
+    model: 'claude-haiku-4-5',
+  },
+};
+
 // Default Hapi settings
 export const defaultHapiSettings: HapiSettings = {
   enabled: false,
@@ -259,6 +274,50 @@ export const defaultProxySettings: ProxySettings = {
   useProxyForUpdates: false,
 };
 
+// Built-in language servers; disabled until the user turns them on
+export const defaultLanguageServers: LanguageServerConfig[] = [
+  {
+    id: 'typescript',
+    name: 'TypeScript',
+    languages: ['typescript', 'typescriptreact', 'javascript', 'javascriptreact'],
+    command: 'typescript-language-server',
+    args: ['--stdio'],
+    enabled: false,
+  },
+  {
+    id: 'python',
+    name: 'Pyright',
+    languages: ['python'],
+    command: 'pyright-langserver',
+    args: ['--stdio'],
+    enabled: false,
+  },
+  {
+    id: 'go',
+    name: 'gopls',
+    languages: ['go'],
+    command: 'gopls',
+    args: [],
+    enabled: false,
+  },
+  {
+    id: 'rust',
+    name: 'rust-analyzer',
+    languages: ['rust'],
+    command: 'rust-analyzer',
+    args: [],
+    enabled: false,
+  },
+  {
+    id: 'cpp',
+    name: 'clangd',
+    languages: ['c', 'cpp'],
+    command: 'clangd',
+    args: [],
+    enabled: false,
+  },
+];
+
 // Default editor settings
 export const defaultEditorSettings: EditorSettings = {
   // Display
@@ -297,6 +356,8 @@ export const defaultEditorSettings: EditorSettings = {
   autoSaveDelay: 1000,
   // Git
   gitBlameEnabled: false,
+  // Language servers
+  languageServers: defaultLanguageServers,
 };
 
 // Default keybindings
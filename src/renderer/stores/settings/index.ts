@@ -11,6 +11,7 @@ import {
 import { updateRendererLogging } from '@/utils/logging';
 import {
   defaultAgentSettings,
+  defaultAiApiProviderSettings,
   defaultAiPerformanceSettings,
   defaultBranchNameGeneratorSettings,
   defaultClaudeCodeIntegrationSettings,
@@ -32,7 +33,7 @@ import {
   getDefaultLocale,
   getDefaultShellConfig,
 } from './defaults';
-import { cleanupLegacyFields, migrateSettings } from './migration';
+import { cleanupLegacyFields, migrateSecretsToVault, migrateSettings } from './migration';
 import { electronStorage } from './storage';
 import type {
   BackgroundSizeMode,
@@ -151,6 +152,9 @@ function getInitialState() {
     // AI Performance Optimization
     aiPerformance: defaultAiPerformanceSettings,
 
+    // HTTP AI providers
+    aiApiProviders: defaultAiApiProviderSettings,
+
     // App Settings
     autoUpdateEnabled: true,
     hapiSettings: defaultHapiSettings,
@@ -322,6 +326,7 @@ export const useSettingsStore = create<SettingsState>()(
               ...current[agentId],
               customPath: config.customPath || undefined,
               customArgs: config.customArgs || undefined,
+              acpMode: config.acpMode || undefined,
             },
           },
         });
@@ -478,6 +483,15 @@ export const useSettingsStore = create<SettingsState>()(
           aiPerformance: { ...state.aiPerformance, ...settings },
         })),
 
+      // HTTP AI Provider Setter
+      setAiApiProvider: (provider, settings) =>
+        set((state) => ({
+          aiApiProviders: {
+            ...state.aiApiProviders,
+            [provider]: { ...state.aiApiProviders[provider], ...settings },
+          },
+        })),
+
       // App Setters
       setAutoUpdateEnabled: (autoUpdateEnabled) => {
         set({ autoUpdateEnabled });
@@ -797,6 +811,16 @@ export const useSettingsStore = create<SettingsState>()(
             console.warn('Failed to cleanup legacy fields:', err);
           });
 
+          // Move plaintext credentials into the secret vault (async)
+          migrateSecretsToVault(state)
+            .then((migrate) => {
+              // Apply to the current settings, not the snapshot taken before sealing
+              if (migrate) useSettingsStore.setState((current) => migrate(current));
+            })
+            .catch((err) => {
+              console.warn('Failed to migrate secrets to vault:', err);
+            });
+
           // Auto-detect best shell on Windows for new users
           const shellAutoDetectKey = 'enso-shell-auto-detected';
           if (
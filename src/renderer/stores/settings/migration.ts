@@ -1,3 +1,6 @@
+import { type AIApiProvider, isHttpMcpServer } from '@shared/types';
+import { isSecretRef } from '@shared/utils/secretRef';
+import { sealSecret } from '@/lib/secrets';
 import type { SettingsState, TerminalKeybinding, XtermKeybindings } from './types';
 
 /**
@@ -194,6 +197,16 @@ export function migrateSettings(
       ...currentState.todoPolish,
       ...persisted.todoPolish,
     },
+    aiApiProviders: {
+      'openai-compatible': {
+        ...currentState.aiApiProviders['openai-compatible'],
+        ...persisted.aiApiProviders?.['openai-compatible'],
+      },
+      'anthropic-api': {
+        ...currentState.aiApiProviders['anthropic-api'],
+        ...persisted.aiApiProviders?.['anthropic-api'],
+      },
+    },
     hapiSettings: {
       ...currentState.hapiSettings,
       ...persisted.hapiSettings,
@@ -330,3 +343,92 @@ export async function cleanupLegacyFields(): Promise<void> {
     }
   }
 }
+
+type SecretMigration = (current: SettingsState) => Partial<SettingsState>;
+
+/**
+ * Move plaintext credentials from settings into the secret vault
+ * Sealing is async, so the result is applied to the settings current at that time:
+ * a value edited in the meantime keeps the edit (and is migrated next launch).
+ * @returns Updater building the settings updates, or null when nothing needs migrating
+ */
+export async function migrateSecretsToVault(state: SettingsState): Promise<SecretMigration | null> {
+  // Sealed values by location, with the plaintext they replace
+  const sealed = new Map<string, { value: string; ref: string }>();
+  const seal = async (location: string, value: string | undefined) => {
+    if (value && !isSecretRef(value)) {
+      sealed.set(location, { value, ref: await sealSecret(value) });
+    }
+  };
+  const swap = <T extends string | undefined>(location: string, current: T): T | string => {
+    const entry = sealed.get(location);
+    return entry && entry.value === current ? entry.ref : current;
+  };
+  const swapRecord = (prefix: string, record: Record<string, string> | undefined) =>
+    record &&
+    Object.fromEntries(
+      Object.entries(record).map(([key, value]) => [key, swap(`${prefix}:${key}`, value)])
+    );
+
+  await Promise.all(
+    state.claudeCodeIntegration.providers.map((p) => seal(`claude:${p.id}`, p.authToken))
+  );
+  const { cliApiToken, telegramBotToken, tunnelToken } = state.hapiSettings;
+  await Promise.all([
+    seal('hapi:cliApiToken', cliApiToken),
+    seal('hapi:telegramBotToken', telegramBotToken),
+    seal('hapi:tunnelToken', tunnelToken),
+  ]);
+  const apiProviders = Object.keys(state.aiApiProviders) as AIApiProvider[];
+  await Promise.all(apiProviders.map((key) => seal(`ai:${key}`, state.aiApiProviders[key].apiKey)));
+  await Promise.all(
+    state.mcpServers.flatMap((server) =>
+      Object.entries((isHttpMcpServer(server) ? server.headers : server.env) ?? {}).map(
+        ([key, value]) => seal(`mcp:${server.id}:${key}`, value)
+      )
+    )
+  );
+
+  if (sealed.size === 0) return null;
+
+  return (current) => {
+    const has = (prefix: string) => Array.from(sealed.keys()).some((l) => l.startsWith(prefix));
+    const updates: Partial<SettingsState> = {};
+
+    if (has('claude:')) {
+      updates.claudeCodeIntegration = {
+        ...current.claudeCodeIntegration,
+        providers: current.claudeCodeIntegration.providers.map((p) => ({
+          ...p,
+          authToken: swap(`claude:${p.id}`, p.authToken),
+        })),
+      };
+    }
+    if (has('hapi:')) {
+      updates.hapiSettings = {
+        ...current.hapiSettings,
+        cliApiToken: swap('hapi:cliApiToken', current.hapiSettings.cliApiToken),
+        telegramBotToken: swap('hapi:telegramBotToken', current.hapiSettings.telegramBotToken),
+        tunnelToken: swap('hapi:tunnelToken', current.hapiSettings.tunnelToken),
+      };
+    }
+    if (has('ai:')) {
+      const aiApiProviders = { ...current.aiApiProviders };
+      for (const key of Object.keys(aiApiProviders) as AIApiProvider[]) {
+        aiApiProviders[key] = {
+          ...aiApiProviders[key],
+          apiKey: swap(`ai:${key}`, aiApiProviders[key].apiKey),
+        };
+      }
+      updates.aiApiProviders = aiApiProviders;
+    }
+    if (has('mcp:')) {
+      updates.mcpServers = current.mcpServers.map((server) =>
+        isHttpMcpServer(server)
+          ? { ...server, headers: swapRecord(`mcp:${server.id}`, server.headers) }
+          : { ...server, env: swapRecord(`mcp:${server.id}`, server.env) }
+      );
+    }
+    return updates;
+  };
+}
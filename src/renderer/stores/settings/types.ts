@@ -3,12 +3,20 @@ import type {
   BuiltinAgentId,
   CustomAgent,
   GitHostMapping,
+  LanguageServerConfig,
   McpServer,
   PromptPreset,
   ProxySettings,
   ShellConfig,
 } from '@shared/types';
-import type { ClaudeEffort, CommonAISettings } from '@shared/types/ai';
+import type {
+  AIApiProvider,
+  AIApiProviderConfig,
+  AIApiProviderSettings,
+  ClaudeEffort,
+  CodeReviewMode,
+  CommonAISettings,
+} from '@shared/types/ai';
 
 // AI Performance Optimization Settings
 export interface AIPerformanceSettings {
@@ -124,6 +132,8 @@ export interface AgentConfig {
   customPath?: string;
   /** Additional arguments to pass to the agent CLI */
   customArgs?: string;
+  /** Start new sessions over the Agent Client Protocol instead of a terminal */
+  acpMode?: boolean;
 }
 
 export type AgentSettings = Record<string, AgentConfig>;
@@ -174,6 +184,8 @@ export interface EditorSettings {
   autoSaveDelay: number;
   // Git
   gitBlameEnabled: boolean;
+  // Language servers (started per worktree from the user's PATH)
+  languageServers: LanguageServerConfig[];
 }
 
 // Status Line display field settings
@@ -234,7 +246,8 @@ export interface BranchNameGeneratorSettings extends CommonAISettings {
 export interface CodeReviewSettings extends CommonAISettings {
   enabled: boolean;
   language: string;
-  prompt: string; // Custom prompt template
+  prompt: string; // Custom prompt template, used in markdown mode
+  mode: CodeReviewMode;
 }
 
 // Validation result for code review prompt template
@@ -343,6 +356,9 @@ export interface SettingsState {
   // AI Performance Optimization
   aiPerformance: AIPerformanceSettings;
 
+  // HTTP AI providers
+  aiApiProviders: AIApiProviderSettings;
+
   // App Settings
   autoUpdateEnabled: boolean;
   hapiSettings: HapiSettings;
@@ -443,7 +459,7 @@ export interface SettingsState {
   setAgentDefault: (agentId: string) => void;
   setAgentCustomConfig: (
     agentId: string,
-    config: { customPath?: string; customArgs?: string }
+    config: { customPath?: string; customArgs?: string; acpMode?: boolean }
   ) => void;
   setAgentDetectionStatus: (agentId: string, info: AgentDetectionInfo) => void;
   clearAgentDetectionStatus: (agentId: string) => void;
@@ -476,6 +492,9 @@ export interface SettingsState {
   // Setters - AI Performance
   setAiPerformance: (settings: Partial<AIPerformanceSettings>) => void;
 
+  // Setters - HTTP AI providers
+  setAiApiProvider: (provider: AIApiProvider, settings: Partial<AIApiProviderConfig>) => void;
+
   // Setters - App
   setAutoUpdateEnabled: (enabled: boolean) => void;
   setHapiSettings: (settings: Partial<HapiSettings>) => void;
@@ -559,7 +578,14 @@ export interface SettingsState {
 }
 
 // Re-export types from @shared/types
-export type { AIProvider, ClaudeEffort, CommonAISettings, ReasoningEffort } from '@shared/types';
+export type {
+  AIApiProvider,
+  AIProvider,
+  ClaudeEffort,
+  CodeReviewMode,
+  CommonAISettings,
+  ReasoningEffort,
+} from '@shared/types';
 
 // Builtin agent IDs
 export const BUILTIN_AGENT_IDS: BuiltinAgentId[] = [
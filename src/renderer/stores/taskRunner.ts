@@ -0,0 +1,82 @@
+import type { ProjectTask } from '@shared/types';
+import { create } from 'zustand';
+
+export type TaskRunStatus = 'running' | 'success' | 'failed' | 'stopped';
+
+export interface TaskRun {
+  key: string;
+  cwd: string;
+  task: ProjectTask;
+  // Incremented on every run so the output terminal is recreated with a fresh pty
+  runId: number;
+  status: TaskRunStatus;
+  exitCode?: number;
+  ptyId?: string;
+}
+
+interface TaskRunnerStore {
+  // Latest run of each task, by getTaskRunKey(cwd, taskId)
+  runs: Record<string, TaskRun>;
+  run: (cwd: string, task: ProjectTask) => string;
+  setPtyId: (key: string, ptyId: string) => void;
+  finish: (key: string, exitCode?: number) => void;
+  stop: (key: string) => Promise<void>;
+  remove: (key: string) => void;
+}
+
+export function getTaskRunKey(cwd: string, taskId: string): string {
+  return `${cwd}::${taskId}`;
+}
+
+/**
+ * Runs project tasks in named ptys, one per task and worktree. Running a task
+ * again reuses its slot: the previous pty is replaced and its output cleared.
+ */
+export const useTaskRunnerStore = create<TaskRunnerStore>((set, get) => ({
+  runs: {},
+
+  run: (cwd, task) => {
+    const key = getTaskRunKey(cwd, task.id);
+    const previous = get().runs[key];
+    set((state) => ({
+      runs: {
+        ...state.runs,
+        [key]: { key, cwd, task, runId: (previous?.runId ?? 0) + 1, status: 'running' },
+      },
+    }));
+    return key;
+  },
+
+  setPtyId: (key, ptyId) => {
+    set((state) => {
+      const run = state.runs[key];
+      if (!run) return state;
+      return { runs: { ...state.runs, [key]: { ...run, ptyId } } };
+    });
+  },
+
+  finish: (key, exitCode) => {
+    set((state) => {
+      const run = state.runs[key];
+      if (!run || run.status !== 'running') return state;
+      const status: TaskRunStatus = exitCode === 0 ? 'success' : 'failed';
+      return { runs: { ...state.runs, [key]: { ...run, status, exitCode } } };
+    });
+  },
+
+  stop: async (key) => {
+    const run = get().runs[key];
+    if (!run || run.status !== 'running') return;
+    set((state) => ({ runs: { ...state.runs, [key]: { ...run, status: 'stopped' } } }));
+    if (run.ptyId) {
+      await window.electronAPI.terminal.destroy(run.ptyId);
+    }
+  },
+
+  remove: (key) => {
+    set((state) => {
+      const { [key]: _removed, ...runs } = state.runs;
+      return { runs };
+    });
+  },
+}));
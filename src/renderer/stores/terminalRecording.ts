@@ -0,0 +1,45 @@
+import type { TerminalRecordingInfo } from '@shared/types';
+import { create } from 'zustand';
+
+interface TerminalRecordingStore {
+  // Active recordings by PTY id
+  recordings: Map<string, TerminalRecordingInfo>;
+  start: (ptyId: string, workdir: string, title: string) => Promise<TerminalRecordingInfo>;
+  stop: (ptyId: string) => Promise<TerminalRecordingInfo | null>;
+  // Forget a recording the main process already stopped (PTY exited)
+  clear: (ptyId: string) => void;
+}
+
+/**
+ * Tracks which terminal and agent sessions are being recorded, so the
+ * recording indicator and context menu stay in sync across components.
+ */
+export const useTerminalRecordingStore = create<TerminalRecordingStore>((set, get) => ({
+  recordings: new Map(),
+
+  start: async (ptyId, workdir, title) => {
+    const info = await window.electronAPI.terminal.startRecording(ptyId, workdir, title);
+    set((state) => {
+      const recordings = new Map(state.recordings);
+      recordings.set(ptyId, info);
+      return { recordings };
+    });
+    return info;
+  },
+
+  stop: async (ptyId) => {
+    if (!get().recordings.has(ptyId)) return null;
+    const info = await window.electronAPI.terminal.stopRecording(ptyId);
+    get().clear(ptyId);
+    return info;
+  },
+
+  clear: (ptyId) => {
+    set((state) => {
+      if (!state.recordings.has(ptyId)) return state;
+      const recordings = new Map(state.recordings);
+      recordings.delete(ptyId);
+      return { recordings };
+    });
+  },
+}));
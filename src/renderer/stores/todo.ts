@@ -1,34 +1,63 @@
+import type { GitHubIssue, TodoTaskRunUpdates, TodoTaskUpdates } from '@shared/types';
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { normalizePath, STORAGE_KEYS } from '@/App/storage';
-import type { AutoExecuteState, TaskStatus, TodoTask } from '@/components/todo/types';
+import type {
+  AutoExecuteState,
+  ParallelExecuteState,
+  ParallelTaskRun,
+  TaskStatus,
+  TodoColumn,
+  TodoTask,
+  TodoTaskRun,
+} from '@/components/todo/types';
+import { getRunUsage } from '@/lib/taskRuns';
+import { findRunnableTaskId, isTaskBlocked, planIssueImport } from '@/lib/todoTasks';
+import { useAgentStatusStore } from './agentStatus';
 
 const EMPTY_TASKS: TodoTask[] = [];
+const EMPTY_COLUMNS: TodoColumn[] = [];
+const EMPTY_RUNS: TodoTaskRun[] = [];
+
+type TaskUpdates = Partial<Omit<TodoTask, 'id' | 'createdAt' | 'updatedAt' | 'order'>>;
 
 interface TodoState {
   /** In-memory cache: key = normalized repoPath, value = tasks array */
   tasks: Record<string, TodoTask[]>;
 
+  /** User-defined Kanban columns per repo */
+  columns: Record<string, TodoColumn[]>;
+
   /** Track which repos have been loaded from DB */
   _loaded: Set<string>;
 
   /** Auto-execute state per repo path */
   autoExecute: Record<string, AutoExecuteState>;
 
+  /** Parallel execution state per repo path */
+  parallelExecute: Record<string, ParallelExecuteState>;
+
+  /** Agent run history per task ID, newest first */
+  taskRuns: Record<string, TodoTaskRun[]>;
+
   // Task Actions
   loadTasks: (repoPath: string) => Promise<void>;
   addTask: (
     repoPath: string,
-    task: Omit<TodoTask, 'id' | 'createdAt' | 'updatedAt' | 'order'>
+    task: Omit<TodoTask, 'id' | 'createdAt' | 'updatedAt' | 'order' | 'labels' | 'blockedBy'> &
+      Partial<Pick<TodoTask, 'labels' | 'blockedBy'>>
   ) => TodoTask;
-  updateTask: (
-    repoPath: string,
-    taskId: string,
-    updates: Partial<Pick<TodoTask, 'title' | 'description' | 'priority' | 'status' | 'sessionId'>>
-  ) => void;
+  updateTask: (repoPath: string, taskId: string, updates: TaskUpdates) => void;
   deleteTask: (repoPath: string, taskId: string) => void;
   moveTask: (repoPath: string, taskId: string, newStatus: TaskStatus, newOrder: number) => void;
   reorderTasks: (repoPath: string, status: TaskStatus, orderedIds: string[]) => void;
+  /** Adds todo tasks for new issues and syncs linked ones, returns how many were added */
+  importIssues: (repoPath: string, issues: GitHubIssue[]) => number;
+
+  // Column Actions
+  addColumn: (repoPath: string, title: string) => TodoColumn;
+  renameColumn: (repoPath: string, columnId: string, title: string) => void;
+  deleteColumn: (repoPath: string, columnId: string) => void;
 
   // Auto-Execute Actions
   startAutoExecute: (repoPath: string, taskIds: string[]) => void;
@@ -37,6 +66,37 @@ interface TodoState {
   advanceQueue: (repoPath: string) => string | null;
   reorderAutoExecuteQueue: (repoPath: string, fromIndex: number, toIndex: number) => void;
   removeFromAutoExecuteQueue: (repoPath: string, taskId: string) => void;
+
+  // Parallel Execute Actions
+  startParallelExecute: (repoPath: string, taskIds: string[], limit: number) => void;
+  stopParallelExecute: (repoPath: string) => void;
+  /** Dequeues as many tasks as there are free slots and marks them preparing */
+  takeParallelTasks: (repoPath: string) => string[];
+  updateParallelRun: (repoPath: string, taskId: string, updates: Partial<ParallelTaskRun>) => void;
+
+  // Task Run History Actions
+  loadTaskRuns: (repoPath: string, taskId: string) => Promise<void>;
+  /** Records the start of an agent run and snapshots its working tree */
+  startTaskRun: (
+    repoPath: string,
+    taskId: string,
+    run: Pick<TodoTaskRun, 'sessionId' | 'agentId' | 'agentName' | 'cwd'>
+  ) => void;
+  updateTaskRun: (
+    repoPath: string,
+    taskId: string,
+    runId: string,
+    updates: TodoTaskRunUpdates
+  ) => void;
+  /**
+   * Closes the running run of the session with its usage, final message and changed
+   * files. Does nothing when no task of the repo has a running run in that session.
+   */
+  finishTaskRun: (
+    repoPath: string,
+    sessionId: string,
+    result: { status: 'completed' | 'failed'; cliSessionId: string; finalMessage?: string }
+  ) => void;
 }
 
 /** Initial auto-execute state (exported for use in useAutoExecuteTask hook) */
@@ -47,10 +107,48 @@ export const INITIAL_AUTO_EXECUTE: AutoExecuteState = {
   currentSessionId: null,
 };
 
+export const INITIAL_PARALLEL_EXECUTE: ParallelExecuteState = {
+  running: false,
+  limit: 3,
+  queue: [],
+  runs: {},
+};
+
+function countActiveRuns(state: ParallelExecuteState): number {
+  return Object.values(state.runs).filter(
+    (run) => run.phase === 'preparing' || run.phase === 'running'
+  ).length;
+}
+
 function getKey(repoPath: string): string {
   return normalizePath(repoPath);
 }
 
+// Fields stored in SQLite; undefined clears an optional field, so send null for it
+const PERSISTED_FIELDS = [
+  'title',
+  'description',
+  'priority',
+  'status',
+  'labels',
+  'parentId',
+  'blockedBy',
+  'branch',
+  'worktreePath',
+  'dueDate',
+  'issueNumber',
+] as const satisfies readonly (keyof TodoTaskUpdates & keyof TodoTask)[];
+
+function toPersistedUpdates(updates: TaskUpdates): TodoTaskUpdates {
+  const persisted: Record<string, unknown> = {};
+  for (const field of PERSISTED_FIELDS) {
+    if (field in updates) {
+      persisted[field] = updates[field] ?? null;
+    }
+  }
+  return persisted as TodoTaskUpdates;
+}
+
 /** One-time migration from localStorage to SQLite */
 async function migrateLocalStorage(): Promise<void> {
   try {
@@ -70,20 +168,27 @@ migrateLocalStorage();
 export const useTodoStore = create<TodoState>()(
   subscribeWithSelector((set, get) => ({
     tasks: {},
+    columns: {},
     _loaded: new Set<string>(),
     autoExecute: {},
+    parallelExecute: {},
+    taskRuns: {},
 
     loadTasks: async (repoPath) => {
       const key = getKey(repoPath);
       if (get()._loaded.has(key)) return;
 
       try {
-        const tasks = (await window.electronAPI.todo.getTasks(key)) as TodoTask[];
+        const [tasks, columns] = await Promise.all([
+          window.electronAPI.todo.getTasks(key) as Promise<TodoTask[]>,
+          window.electronAPI.todo.getColumns(key),
+        ]);
         set((state) => {
           const newLoaded = new Set(state._loaded);
           newLoaded.add(key);
           return {
             tasks: { ...state.tasks, [key]: tasks },
+            columns: { ...state.columns, [key]: columns },
             _loaded: newLoaded,
           };
         });
@@ -107,6 +212,11 @@ export const useTodoStore = create<TodoState>()(
         createdAt: Date.now(),
         updatedAt: Date.now(),
         order: maxOrder + 1,
+        labels: taskData.labels ?? [],
+        parentId: taskData.parentId,
+        blockedBy: taskData.blockedBy ?? [],
+        dueDate: taskData.dueDate,
+        issueNumber: taskData.issueNumber,
       };
 
       // Optimistic update
@@ -137,8 +247,10 @@ export const useTodoStore = create<TodoState>()(
         },
       }));
 
+      const persisted = toPersistedUpdates(updates);
+      if (Object.keys(persisted).length === 0) return;
       window.electronAPI.todo
-        .updateTask(key, taskId, updates)
+        .updateTask(key, taskId, persisted)
         .catch((err) => console.error('[TodoStore] updateTask IPC failed:', err));
     },
 
@@ -147,10 +259,21 @@ export const useTodoStore = create<TodoState>()(
       const existing = get().tasks[key];
       if (!existing) return;
 
+      // Subtasks go with their parent; the main process mirrors this
+      const removed = new Set([taskId]);
+      for (const t of existing) {
+        if (t.parentId === taskId) removed.add(t.id);
+      }
       set((state) => ({
         tasks: {
           ...state.tasks,
-          [key]: (state.tasks[key] ?? []).filter((t) => t.id !== taskId),
+          [key]: (state.tasks[key] ?? [])
+            .filter((t) => !removed.has(t.id))
+            .map((t) =>
+              t.blockedBy.some((id) => removed.has(id))
+                ? { ...t, blockedBy: t.blockedBy.filter((id) => !removed.has(id)) }
+                : t
+            ),
         },
       }));
 
@@ -203,6 +326,83 @@ export const useTodoStore = create<TodoState>()(
         .catch((err) => console.error('[TodoStore] reorderTasks IPC failed:', err));
     },
 
+    importIssues: (repoPath, issues) => {
+      const key = getKey(repoPath);
+      const { added, updated } = planIssueImport(get().tasks[key] ?? [], issues);
+
+      for (const { taskId, title, labels } of updated) {
+        get().updateTask(repoPath, taskId, { title, labels });
+      }
+      for (const issue of added) {
+        get().addTask(repoPath, {
+          title: issue.title,
+          description: issue.body.trim(),
+          priority: 'medium',
+          status: 'todo',
+          labels: issue.labels,
+          issueNumber: issue.number,
+        });
+      }
+      return added.length;
+    },
+
+    // Column Actions
+    addColumn: (repoPath, title) => {
+      const key = getKey(repoPath);
+      const existing = get().columns[key] ?? [];
+      const column: TodoColumn = {
+        id: `column-${crypto.randomUUID()}`,
+        title,
+        order: existing.reduce((max, c) => Math.max(max, c.order), -1) + 1,
+      };
+
+      set((state) => ({
+        columns: { ...state.columns, [key]: [...(state.columns[key] ?? []), column] },
+      }));
+
+      window.electronAPI.todo
+        .addColumn(key, column)
+        .catch((err) => console.error('[TodoStore] addColumn IPC failed:', err));
+
+      return column;
+    },
+
+    renameColumn: (repoPath, columnId, title) => {
+      const key = getKey(repoPath);
+      set((state) => ({
+        columns: {
+          ...state.columns,
+          [key]: (state.columns[key] ?? []).map((c) => (c.id === columnId ? { ...c, title } : c)),
+        },
+      }));
+
+      window.electronAPI.todo
+        .updateColumn(key, columnId, { title })
+        .catch((err) => console.error('[TodoStore] updateColumn IPC failed:', err));
+    },
+
+    deleteColumn: (repoPath, columnId) => {
+      const key = getKey(repoPath);
+      const now = Date.now();
+      // Tasks of a deleted column go back to todo
+      set((state) => ({
+        columns: {
+          ...state.columns,
+          [key]: (state.columns[key] ?? []).filter((c) => c.id !== columnId),
+        },
+        tasks: {
+          ...state.tasks,
+          [key]: (state.tasks[key] ?? []).map((t) =>
+            t.status === columnId ? { ...t, status: 'todo', updatedAt: now } : t
+          ),
+        },
+      }));
+
+      window.electronAPI.todo
+        .deleteColumn(key, columnId, 'todo')
+        .catch((err) => console.error('[TodoStore] deleteColumn IPC failed:', err));
+    },
+
     // Auto-Execute Actions
     startAutoExecute: (repoPath, taskIds) => {
       const key = getKey(repoPath);
@@ -272,7 +472,24 @@ export const useTodoStore = create<TodoState>()(
         return null;
       }
 
-      const [nextTaskId, ...remaining] = current.queue;
+      // Skip tasks still waiting on a blocker; stop when every queued task does
+      const nextTaskId = findRunnableTaskId(current.queue, get().tasks[key] ?? EMPTY_TASKS);
+      if (!nextTaskId) {
+        set((state) => ({
+          autoExecute: {
+            ...state.autoExecute,
+            [key]: {
+              running: false,
+              queue: [],
+              currentTaskId: null,
+              currentSessionId: null,
+            },
+          },
+        }));
+        return null;
+      }
+
+      const remaining = current.queue.filter((id) => id !== nextTaskId);
       set((state) => ({
         autoExecute: {
           ...state.autoExecute,
@@ -323,6 +540,166 @@ export const useTodoStore = create<TodoState>()(
         };
       });
     },
+
+    // Parallel Execute Actions
+    startParallelExecute: (repoPath, taskIds, limit) => {
+      const key = getKey(repoPath);
+      set((state) => {
+        const current = state.parallelExecute[key] ?? INITIAL_PARALLEL_EXECUTE;
+        // Restarting a task replaces its previous run
+        const runs = { ...current.runs };
+        for (const taskId of taskIds) {
+          delete runs[taskId];
+        }
+        return {
+          parallelExecute: {
+            ...state.parallelExecute,
+            [key]: {
+              running: true,
+              limit: Math.max(1, limit),
+              queue: [...current.queue, ...taskIds.filter((id) => !current.queue.includes(id))],
+              runs,
+            },
+          },
+        };
+      });
+    },
+
+    stopParallelExecute: (repoPath) => {
+      const key = getKey(repoPath);
+      set((state) => {
+        const current = state.parallelExecute[key];
+        if (!current) return state;
+        return {
+          parallelExecute: {
+            ...state.parallelExecute,
+            [key]: { ...current, running: false, queue: [] },
+          },
+        };
+      });
+    },
+
+    takeParallelTasks: (repoPath) => {
+      const key = getKey(repoPath);
+      const current = get().parallelExecute[key];
+      if (!current?.running) return [];
+
+      const activeCount = countActiveRuns(current);
+      const tasks = get().tasks[key] ?? EMPTY_TASKS;
+      // Tasks still waiting on a blocker stay queued until it is done
+      const taken: string[] = [];
+      for (const taskId of current.queue) {
+        if (activeCount + taken.length >= current.limit) break;
+        const task = tasks.find((t) => t.id === taskId);
+        if (!task || !isTaskBlocked(task, tasks)) taken.push(taskId);
+      }
+      const remaining = current.queue.filter((id) => !taken.includes(id));
+      // Nothing running can unblock the rest, give up on them
+      const stalled = taken.length === 0 && activeCount === 0;
+      if (taken.length === 0 && remaining.length > 0 && !stalled) return [];
+
+      const runs = { ...current.runs };
+      for (const taskId of taken) {
+        runs[taskId] = { taskId, phase: 'preparing' };
+      }
+      set((state) => ({
+        parallelExecute: {
+          ...state.parallelExecute,
+          [key]: {
+            ...current,
+            // Nothing left to start once the queue drains
+            running: remaining.length > 0 && !stalled,
+            queue: stalled ? [] : remaining,
+            runs,
+          },
+        },
+      }));
+      return taken;
+    },
+
+    updateParallelRun: (repoPath, taskId, updates) => {
+      const key = getKey(repoPath);
+      set((state) => {
+        const current = state.parallelExecute[key];
+        const run = current?.runs[taskId];
+        if (!current || !run) return state;
+        return {
+          parallelExecute: {
+            ...state.parallelExecute,
+            [key]: { ...current, runs: { ...current.runs, [taskId]: { ...run, ...updates } } },
+          },
+        };
+      });
+    },
+
+    loadTaskRuns: async (repoPath, taskId) => {
+      try {
+        const runs = await window.electronAPI.todo.getTaskRuns(getKey(repoPath), taskId);
+        set((state) => ({ taskRuns: { ...state.taskRuns, [taskId]: runs } }));
+      } catch (err) {
+        console.error('[TodoStore] Failed to load runs for', taskId, err);
+      }
+    },
+
+    startTaskRun: (repoPath, taskId, info) => {
+      const key = getKey(repoPath);
+      const run: TodoTaskRun = {
+        id: crypto.randomUUID(),
+        taskId,
+        ...info,
+        status: 'running',
+        startedAt: Date.now(),
+        changedFiles: [],
+      };
+
+      set((state) => ({
+        taskRuns: { ...state.taskRuns, [taskId]: [run, ...(state.taskRuns[taskId] ?? [])] },
+      }));
+
+      window.electronAPI.todo
+        .addTaskRun(key, run)
+        .then(() => window.electronAPI.git.createWorkingTreeSnapshot(run.cwd))
+        .then((snapshot) => get().updateTaskRun(repoPath, taskId, run.id, { snapshot }))
+        .catch((err) => console.error('[TodoStore] startTaskRun failed:', err));
+    },
+
+    updateTaskRun: (repoPath, taskId, runId, updates) => {
+      const key = getKey(repoPath);
+      set((state) => ({
+        taskRuns: {
+          ...state.taskRuns,
+          [taskId]: (state.taskRuns[taskId] ?? []).map((r) =>
+            r.id === runId ? { ...r, ...updates } : r
+          ),
+        },
+      }));
+
+      window.electronAPI.todo
+        .updateTaskRun(key, runId, updates)
+        .catch((err) => console.error('[TodoStore] updateTaskRun IPC failed:', err));
+    },
+
+    finishTaskRun: (repoPath, sessionId, result) => {
+      const taskIds = new Set(selectTasks(get(), repoPath).map((t) => t.id));
+      const run = Object.values(get().taskRuns)
+        .flat()
+        .find((r) => r.sessionId === sessionId && r.status === 'running' && taskIds.has(r.taskId));
+      if (!run) return;
+
+      const { getStatus } = useAgentStatusStore.getState();
+      get().updateTaskRun(repoPath, run.taskId, run.id, {
+        status: result.status,
+        endedAt: Date.now(),
+        finalMessage: result.finalMessage,
+        ...getRunUsage(getStatus(result.cliSessionId) ?? getStatus(sessionId)),
+      });
+
+      if (!run.snapshot) return;
+      window.electronAPI.git
+        .getChangedFilesSince(run.cwd, run.snapshot)
+        .then((changedFiles) => get().updateTaskRun(repoPath, run.taskId, run.id, { changedFiles }))
+        .catch((err) => console.error('[TodoStore] Failed to collect changed files:', err));
+    },
   }))
 );
 
@@ -337,3 +714,20 @@ export function selectAutoExecute(state: TodoState, repoPath: string): AutoExecu
   const key = getKey(repoPath);
   return state.autoExecute[key] ?? INITIAL_AUTO_EXECUTE;
 }
+
+/** Selector: get parallel execution state for a repo */
+export function selectParallelExecute(state: TodoState, repoPath: string): ParallelExecuteState {
+  const key = getKey(repoPath);
+  return state.parallelExecute[key] ?? INITIAL_PARALLEL_EXECUTE;
+}
+
+/** Stable selector: returns cached EMPTY_COLUMNS when repo has no custom columns */
+export function selectColumns(state: TodoState, repoPath: string): TodoColumn[] {
+  const key = getKey(repoPath);
+  return state.columns[key] ?? EMPTY_COLUMNS;
+}
+
+/** Run history of a task, newest first */
+export function selectTaskRuns(state: TodoState, taskId: string): TodoTaskRun[] {
+  return state.taskRuns[taskId] ?? EMPTY_RUNS;
+}
@@ -0,0 +1,39 @@
+import type { WorktreeHookName, WorktreeHookRun } from '@shared/types';
+import { create } from 'zustand';
+import { normalizePath } from '@/App/storage';
+
+type HookRuns = Partial<Record<WorktreeHookName, WorktreeHookRun>>;
+
+interface WorktreeHooksState {
+  // Latest run of each lifecycle hook, keyed by normalized worktree path
+  runs: Record<string, HookRuns>;
+  setRun: (run: WorktreeHookRun) => void;
+  setRuns: (runs: WorktreeHookRun[]) => void;
+}
+
+export const useWorktreeHooksStore = create<WorktreeHooksState>((set) => ({
+  runs: {},
+  setRun: (run) =>
+    set((state) => {
+      const key = normalizePath(run.worktreePath);
+      const current = state.runs[key]?.[run.hook];
+      // Updates of an older run can arrive after a retry started
+      if (current && current.id !== run.id && current.startedAt > run.startedAt) return state;
+      return { runs: { ...state.runs, [key]: { ...state.runs[key], [run.hook]: run } } };
+    }),
+  setRuns: (runs) =>
+    set(() => {
+      const next: Record<string, HookRuns> = {};
+      for (const run of runs) {
+        const key = normalizePath(run.worktreePath);
+        next[key] = { ...next[key], [run.hook]: run };
+      }
+      return { runs: next };
+    }),
+}));
+
+const EMPTY_RUNS: HookRuns = {};
+
+export function useWorktreeHookRuns(worktreePath: string): HookRuns {
+  return useWorktreeHooksStore((s) => s.runs[normalizePath(worktreePath)] ?? EMPTY_RUNS);
+}
@@ -155,6 +155,33 @@ export const zhTranslations: Record<string, string> = {
   'Reset successful': 'Reset 成功',
   'Reset failed': 'Reset 失败',
   'Reset to {{mode}} mode': '已 Reset 到 {{mode}} 模式',
+  Stashes: '贮藏',
+  Stash: '贮藏',
+  'Stash changes': '贮藏更改',
+  'Stash changes to {{path}}.': '贮藏 {{path}} 的更改。',
+  'Stash changes to {{count}} files.': '贮藏 {{count}} 个文件的更改。',
+  'Stash all changes in the working tree.': '贮藏工作区中的所有更改。',
+  'Stash message (optional)': '贮藏说明（可选）',
+  'Include untracked files': '包含未跟踪文件',
+  'No stashes': '暂无贮藏',
+  'No file changes in this stash': '此贮藏中没有文件更改',
+  'Merge auto-stash': '合并自动贮藏',
+  'Made by a merge on {{branch}}, not the branch of this worktree. Restore it from that worktree.':
+    '由 {{branch}} 上的合并创建，不是当前工作树的分支。请在对应的工作树中恢复。',
+  'Restore stashed changes and remove the stash': '恢复贮藏的更改并删除该贮藏',
+  'Apply stash': '应用贮藏',
+  'Pop stash': '弹出贮藏',
+  'Drop stash': '删除贮藏',
+  Drop: '删除',
+  'Are you sure you want to drop {{ref}}? This cannot be undone.':
+    '确定要删除 {{ref}} 吗？此操作无法撤销。',
+  'Stash applied': '贮藏已应用',
+  'Stash popped': '贮藏已弹出',
+  'Changes restored': '更改已恢复',
+  'Stash failed': '贮藏失败',
+  'Apply stash failed': '应用贮藏失败',
+  'Pop stash failed': '弹出贮藏失败',
+  'Drop stash failed': '删除贮藏失败',
   'Path copied to clipboard': '路径已复制到剪贴板',
   'Reveal in Finder': '在 Finder 中显示',
   'Reveal in Explorer': '在资源管理器中显示',
@@ -942,6 +969,9 @@ export const zhTranslations: Record<string, string> = {
   // Auto Save section
   'Auto Save': '自动保存',
   'Auto save settings': '自动保存设置',
+  'Language Servers': '语言服务器',
+  'Hover, completion, references, rename and diagnostics from language servers in your PATH. Started per worktree when a matching file is opened.':
+    '使用 PATH 中的语言服务器提供悬停提示、补全、引用、重命名和诊断。打开对应文件时按 worktree 启动。',
   'Auto save': '自动保存',
   'After delay': '延迟后',
   'On focus change': '失去焦点时',
@@ -978,6 +1008,56 @@ export const zhTranslations: Record<string, string> = {
   'Resolve Conflicts': '解决冲突',
   'Abort Merge': '中止合并',
   'Complete Merge': '完成合并',
+  'Abort Rebase': '中止变基',
+  'Continue Rebase': '继续变基',
+  'Interactive Rebase': '交互式变基',
+  'Interactive Rebase...': '交互式变基...',
+  'Reorder, squash, reword or drop commits of "{{branch}}" before rebasing':
+    '变基前对 "{{branch}}" 的提交进行重排、压缩、改写或丢弃',
+  'Onto branch': '变基到分支',
+  'Commits are applied from top to bottom': '提交将按从上到下的顺序应用',
+  'No commits to rebase': '没有需要变基的提交',
+  Pick: '保留',
+  Reword: '改写',
+  Fixup: '合并（丢弃信息）',
+  'Start Rebase': '开始变基',
+  'Rebasing...': '变基中...',
+  'Rebase completed': '变基完成',
+  'Rebase failed': '变基失败',
+  '{{branch}} was rebased onto {{target}}': '{{branch}} 已变基到 {{target}}',
+  'Cherry-pick': '拣选',
+  'Cherry-pick into...': '拣选到...',
+  'Cherry-pick {{count}} commits into...': '拣选 {{count}} 个提交到...',
+  'Cherry-picking...': '拣选中...',
+  'Cherry-pick completed': '拣选完成',
+  'Cherry-pick failed': '拣选失败',
+  'Cherry-pick in progress': '拣选进行中',
+  'Review proposed edit': '审阅建议的修改',
+  'Allow {{tool}}?': '允许 {{tool}}？',
+  'Starting agent...': '正在启动 Agent...',
+  'Open in terminal mode': '以终端模式打开',
+  'Message the agent...': '给 Agent 发消息...',
+  'Structured session (ACP)': '结构化会话 (ACP)',
+  'Chat view with tool approvals instead of a terminal. Requires {{command}}.':
+    '使用带工具审批的对话视图代替终端。需要 {{command}}。',
+  '{{count}} more pending': '还有 {{count}} 个待处理',
+  Reject: '拒绝',
+  'Abort Cherry-pick': '中止拣选',
+  'Continue Cherry-pick': '继续拣选',
+  'Apply {{hash}} to another worktree': '将 {{hash}} 应用到其他 Worktree',
+  'Apply {{count}} commits to another worktree': '将 {{count}} 个提交应用到其他 Worktree',
+  'Applied {{count}} commit(s) to {{branch}}': '已将 {{count}} 个提交应用到 {{branch}}',
+  'Target worktree': '目标 Worktree',
+  'Choose worktree...': '选择 Worktree...',
+  'No other worktrees': '没有其他 Worktree',
+  'Record origin commit in message (-x)': '在提交信息中记录来源提交 (-x)',
+  '{{count}} conflicted file(s)': '{{count}} 个冲突文件',
+  '{{count}} queued': '{{count}} 个待处理',
+  'Conflicts resolved': '冲突已解决',
+  Resolve: '解决',
+  Continue: '继续',
+  Abort: '中止',
+  'Abort failed': '中止失败',
   'Commit message...': '提交信息...',
   'Previous conflict': '上一个冲突',
   'Next conflict': '下一个冲突',
@@ -1008,8 +1088,8 @@ export const zhTranslations: Record<string, string> = {
   'Auto stash uncommitted changes': '自动暂存未提交的更改',
   'Automatically stash and restore uncommitted changes': '合并前自动暂存更改，完成后自动恢复',
   'Changes stashed': '更改已暂存',
-  'Your uncommitted changes were stashed. After resolving conflicts, run "git stash pop" in:':
-    '您未提交的更改已被暂存。解决冲突后，请在以下目录运行 "git stash pop":',
+  'Your uncommitted changes were stashed. After resolving conflicts, restore them from Version Control > Stashes in:':
+    '您未提交的更改已被暂存。解决冲突后，请在版本控制 > 贮藏中恢复以下目录的更改:',
   // Global Search
   'Search file name...': '搜索文件名...',
   'Search in files...': '在文件中搜索...',
@@ -1023,6 +1103,19 @@ export const zhTranslations: Record<string, string> = {
   Navigate: '导航',
   Open: '打开',
   'File mask': '文件过滤',
+  'Toggle replace': '切换替换',
+  'The search did not finish, so replacing could miss files. Narrow it with a file filter.':
+    '搜索未完成，替换可能会遗漏文件。请使用文件过滤缩小范围。',
+  'Search (ripgrep syntax) matched {{count}} files the replace preview (JavaScript syntax) does not, e.g. {{file}}. Adjust the regular expression to replace.':
+    '搜索（ripgrep 语法）匹配到 {{count}} 个替换预览（JavaScript 语法）无法匹配的文件，例如 {{file}}。请调整正则表达式后再替换。',
+  'Replace with...': '替换为...',
+  'Replace with ($1 for groups)...': '替换为（$1 引用分组）...',
+  'Replace {{count}}': '替换 {{count}} 处',
+  'Replaced {{count}} occurrences in {{files}} files': '已在 {{files}} 个文件中替换 {{count}} 处',
+  'Replace failed': '替换失败',
+  'Undo replace': '撤销替换',
+  Undo: '撤销',
+  'Undo failed': '撤销失败',
   'No results': '无结果',
   'No files found': '未找到文件',
   'Type to search files': '输入以搜索文件',
@@ -1111,6 +1204,66 @@ export const zhTranslations: Record<string, string> = {
   'Select a pull request': '请选择一个 Pull Request',
   'Leave empty to use the PR branch name:': '留空则使用 PR 分支名:',
   optional: '可选',
+  // Worktree lifecycle hooks
+  '{{hook}} hook': '{{hook}} 钩子',
+  '{{hook}} hook failed': '{{hook}} 钩子执行失败',
+  'Setting up': '初始化中',
+  'Not ready': '未就绪',
+  'Needs approval': '待批准',
+  'Approve and run': '批准并运行',
+  'This repository wants to run these commands from .enso/config.json. Review them before approving; any change to the file needs a new approval.':
+    '该仓库要运行 .enso/config.json 中的以下命令。请在批准前检查；文件有任何变更都需要重新批准。',
+  'pre-remove hook was skipped': '已跳过 pre-remove 钩子',
+  'Delete anyway': '仍然删除',
+  Running: '运行中',
+  Succeeded: '成功',
+  'Exit code': '退出码',
+  'No output': '无输出',
+  'Lifecycle hooks': '生命周期钩子',
+  'Configured in .enso/config.json and shared with everyone using the repository':
+    '在 .enso/config.json 中配置，并与仓库的所有使用者共享',
+  'copy {{file}}': '复制 {{file}}',
+  'Timeout: {{seconds}}s': '超时：{{seconds}} 秒',
+  'No .enso/config.json found. Add one to run scripts when worktrees are created, removed, merged or activated.':
+    '未找到 .enso/config.json。添加后可在创建、删除、合并或激活 Worktree 时运行脚本。',
+  // Pull request panel
+  'Open pull request': '打开的 Pull Request',
+  'Draft pull request': '草稿 Pull Request',
+  'Merged pull request': '已合并的 Pull Request',
+  'Closed pull request': '已关闭的 Pull Request',
+  'Create pull request': '创建 Pull Request',
+  'New pull request': '新建 Pull Request',
+  'Push {{branch}} and open a pull request on GitHub.':
+    '推送 {{branch}} 并在 GitHub 上创建 Pull Request。',
+  'Pull request created': 'Pull Request 已创建',
+  'Failed to create pull request': '创建 Pull Request 失败',
+  'Failed to generate description': '生成描述失败',
+  Title: '标题',
+  'Description (Markdown)': '描述（Markdown）',
+  'Create as draft': '创建为草稿',
+  'Open on GitHub': '在 GitHub 中打开',
+  Checks: '检查',
+  Comments: '评论',
+  Diff: '差异',
+  Details: '详情',
+  'This branch has conflicts that must be resolved': '该分支存在必须解决的冲突',
+  'No checks reported': '暂无检查结果',
+  'No comments yet': '暂无评论',
+  approved: '已批准',
+  'requested changes': '请求修改',
+  reviewed: '已评审',
+  'Squash and merge': '压缩合并',
+  'Create a merge commit': '创建合并提交',
+  'Rebase and merge': '变基合并',
+  'Pull request merged': 'Pull Request 已合并',
+  'Failed to merge pull request': '合并 Pull Request 失败',
+  'Close pull request': '关闭 Pull Request',
+  'Failed to close pull request': '关闭 Pull Request 失败',
+  'Post to #{{number}}': '发布到 #{{number}}',
+  'Posted {{count}} comments to #{{number}}': '已发布 {{count}} 条评论到 #{{number}}',
+  'Failed to post review': '发布评审失败',
+  'Nothing to post': '没有可发布的评论',
+  'Only unresolved comments on current code can be posted': '只能发布针对当前代码的未解决评论',
   // Worktree settings
   'Git worktree save location settings': 'Git Worktree 保存位置设置',
   'Git auto refresh': 'Git 自动刷新',
@@ -1276,6 +1429,12 @@ export const zhTranslations: Record<string, string> = {
   'Hover over line numbers and click + to add comments': '悬停行号并点击 + 添加评论',
   You: '你',
   'Add comment': '添加评论',
+  Reply: '回复',
+  Unresolve: '重新打开',
+  Outdated: '已过时',
+  '{{count}} unresolved': '{{count}} 条未解决',
+  'Send unresolved': '发送未解决的评论',
+  'Save for review': '保存到审查',
   'Show split preview': '显示分屏预览',
   'Switch to fullscreen preview': '切换到全屏预览',
   'Close preview': '关闭预览',
@@ -1361,6 +1520,179 @@ export const zhTranslations: Record<string, string> = {
   'Queue: {{count}}': '队列: {{count}}',
   Queue: '队列',
   '{{count}} more': '还有 {{count}} 个',
+  // Parallel Execute
+  'Run in Parallel': '并行执行',
+  'Each task runs in a new worktree with its own agent session':
+    '每个任务在新的 Worktree 中使用独立的 Agent 会话运行',
+  'Max concurrent tasks': '最大并发任务数',
+  'Remaining tasks start as running ones finish': '正在运行的任务完成后再启动剩余任务',
+  'Start {{count}} tasks': '启动 {{count}} 个任务',
+  '{{running}} running · {{queued}} queued': '{{running}} 个运行中 · {{queued}} 个排队中',
+  'Stop starting queued tasks': '停止启动排队中的任务',
+  'Creating worktree...': '正在创建 Worktree...',
+  'Open worktree': '打开 Worktree',
+  'Task not found': '任务不存在',
+  'Cannot determine the worktree location': '无法确定 Worktree 位置',
+  'Agent stopped before completing the task': 'Agent 在任务完成前已停止',
+  // Todo labels, dependencies and columns
+  'Add Column': '添加列',
+  'New Column': '新列',
+  'Double-click to rename': '双击重命名',
+  'Delete column': '删除列',
+  Labels: '标签',
+  'e.g. frontend, bug': '例如：frontend, bug',
+  'Due date': '截止日期',
+  Overdue: '已逾期',
+  'Subtask of': '父任务',
+  'No parent task': '无父任务',
+  Subtasks: '子任务',
+  Blocked: '被阻塞',
+  'Blocked by': '依赖于',
+  'Would create a dependency cycle': '会形成循环依赖',
+  'All todo tasks are blocked': '所有待办任务都被阻塞',
+  'Finish the tasks they depend on first': '请先完成它们所依赖的任务',
+  // Todo GitHub issues
+  'Import Issues': '导入 Issue',
+  'Import open GitHub issues as tasks': '将 GitHub 上打开的 Issue 导入为任务',
+  'Imported {{count}} issues': '已导入 {{count}} 个 Issue',
+  'All open issues are already on the board': '所有打开的 Issue 都已在看板中',
+  'Failed to import issues': '导入 Issue 失败',
+  'GitHub issue': 'GitHub Issue',
+  'Close issue #{{number}}?': '关闭 Issue #{{number}}？',
+  'Comment (optional)': '评论（可选）',
+  'Done in {{branch}}': '已在 {{branch}} 中完成',
+  'Keep open': '保持打开',
+  'Close issue': '关闭 Issue',
+  'Issue #{{number}} closed': 'Issue #{{number}} 已关闭',
+  'Failed to close issue': '关闭 Issue 失败',
+  'Close issue #{{number}} when merged': '合并后关闭 Issue #{{number}}',
+  // Todo run history
+  'Run history': '运行记录',
+  'This task has not been run by an agent yet': '该任务尚未由 Agent 运行过',
+  'Not completed': '未完成',
+  'Tokens (in/out)': 'Token（输入/输出）',
+  'Changed files': '变更文件',
+  'Available when the run ends': '运行结束后可用',
+  'Final message': '最终消息',
+  // AI API providers
+  'API Providers': 'API 服务',
+  'Call a model endpoint directly instead of an agent CLI, e.g. OpenAI, Anthropic, Ollama or LM Studio':
+    '直接调用模型接口而非 Agent CLI，例如 OpenAI、Anthropic、Ollama 或 LM Studio',
+  'API Key': 'API 密钥',
+  'Leave empty for local servers that do not require a key': '本地服务无需密钥时可留空',
+  // Structured code review
+  Output: '输出',
+  Markdown: 'Markdown',
+  Findings: '问题列表',
+  'Findings are shown inline in the editor and diff view and can be applied or sent to an agent; custom prompts need markdown':
+    '问题会标注在编辑器和差异视图中，可直接应用补丁或发送给 Agent 修复；自定义提示词需使用 Markdown 输出',
+  'Could not read findings from the output, showing it as is':
+    '无法从输出中解析问题列表，按原样显示',
+  'No issues found': '未发现问题',
+  '{{count}} findings': '{{count}} 个问题',
+  'Apply patch': '应用补丁',
+  Applied: '已应用',
+  'Patch applied': '补丁已应用',
+  'Failed to apply patch': '应用补丁失败',
+  'Send to agent to fix': '发送给 Agent 修复',
+  'Sent to agent': '已发送给 Agent',
+  Fix: '修复',
+  // Code review scope
+  'Commit {{hash}}': '提交 {{hash}}',
+  'Commits {{from}}..{{to}}': '提交 {{from}}..{{to}}',
+  'Uncommitted changes': '未提交的更改',
+  'Compare with branch': '与分支比较',
+  'Review commit': '审查提交',
+  'Review marked commit range': '审查标记的提交范围',
+  // Terminal recordings
+  'Start recording': '开始录制',
+  'Stop recording': '停止录制',
+  'Recording started': '已开始录制',
+  'Recording saved': '录制已保存',
+  'Recording failed': '录制失败',
+  'Terminal recordings': '终端录制',
+  'Recordings are saved in .enso/recordings': '录制文件保存在 .enso/recordings',
+  'No recordings yet. Right-click a terminal to start recording.':
+    '暂无录制。右键点击终端即可开始录制。',
+  'Select a recording to replay': '选择要回放的录制',
+  'Recording exported': '录制已导出',
+  'Export failed': '导出失败',
+  'Export recording': '导出录制',
+  Export: '导出',
+  Pause: '暂停',
+  Play: '播放',
+  Seek: '跳转',
+  // Project tasks
+  Tasks: '任务',
+  Success: '成功',
+  Run: '运行',
+  'Run again': '重新运行',
+  'Failed to load tasks': '加载任务失败',
+  'Select a Worktree to run its tasks': '选择一个 Worktree 以运行其任务',
+  'No tasks found in package.json, Makefile, justfile, Cargo.toml or go.mod':
+    '未在 package.json、Makefile、justfile、Cargo.toml 或 go.mod 中找到任务',
+  'No task output': '暂无任务输出',
+  'Run a task to see its output here': '运行任务后在此查看输出',
+  // Dev server ports
+  'Open in browser': '在浏览器中打开',
+  'Web Inspector element picker': 'Web Inspector 元素选择器',
+  'Enable Web Inspector in settings to pick elements': '在设置中启用 Web Inspector 以选择元素',
+  // Per-session Claude provider
+  'Provider switched for this session': '已为当前会话切换 Provider',
+  '{{name}} (this session)': '{{name}}（当前会话）',
+  '{{name}} (global settings)': '{{name}}（全局设置）',
+  'Global settings': '全局设置',
+  'Managed settings override the provider of this session': '托管策略设置覆盖了当前会话的 Provider',
+  'Failed to apply provider to this session': '无法为当前会话应用 Provider',
+  'Apply to global settings': '应用到全局设置',
+  // Credential vault
+  'Stored securely': '已安全存储',
+  // Project-scoped Claude config
+  Project: '项目',
+  User: '用户',
+  Scope: '作用域',
+  Skill: '技能',
+  'Open a worktree to manage project config': '打开 worktree 后可管理项目级配置',
+  'Current {{file}} not saved': '当前 {{file}} 未保存',
+  'This content will be written to the project {{file}}': '此内容将写入项目的 {{file}}',
+  'MCP server "{{name}}" already exists there': '目标位置已存在 MCP 服务器 "{{name}}"',
+  'MCP server moved': 'MCP 服务器已移动',
+  'Credentials were written to .mcp.json as environment variables: {{names}}. Claude sessions started here get them automatically; set them yourself anywhere else.':
+    '凭据已以环境变量的形式写入 .mcp.json：{{names}}。在此启动的 Claude 会话会自动获得这些变量，在其他地方使用时请自行设置。',
+  'Move to user': '移动到用户级',
+  'Move to project': '移动到项目级',
+  'Commands & Skills': '命令与技能',
+  'No commands or skills': '暂无命令或技能',
+  'Add Command': '添加命令',
+  'Edit Command': '编辑命令',
+  'Custom slash commands and skills for Claude Code': 'Claude Code 的自定义斜杠命令与技能',
+  'Command saved': '命令已保存',
+  'Failed to save command': '保存命令失败',
+  'Command removed': '命令已删除',
+  'Failed to remove command': '删除命令失败',
+  'Command moved': '命令已移动',
+  'Failed to move command': '移动命令失败',
+  '"{{name}}" already exists there': '目标位置已存在 "{{name}}"',
+  // Codex / Gemini config
+  'This content will be written to {{file}}': '此内容将写入 {{file}}',
+  'Sync to all agents': '同步到所有 Agent',
+  'MCP server synced to all agents': 'MCP 服务器已同步到所有 Agent',
+  'Failed to sync MCP server to some agents': '部分 Agent 同步 MCP 服务器失败',
+  // MCP inspector
+  'Test MCP Server': '测试 MCP 服务器',
+  'Connecting...': '连接中...',
+  Protocol: '协议',
+  Tools: '工具',
+  Resources: '资源',
+  'Call tool': '调用工具',
+  'Arguments must be a JSON object': '参数必须是 JSON 对象',
+  'Completed in {{ms}} ms': '耗时 {{ms}} ms',
+  'Failed after {{ms}} ms': '{{ms}} ms 后失败',
+  'Select a tool to call it': '选择一个工具进行调用',
+  'No tools': '没有工具',
+  'No prompts': '没有提示词',
+  'No resources': '没有资源',
+  'Server output': '服务器输出',
   // Git Clone Settings
   'Git Clone': 'Git 克隆',
   'Base directory': '基础目录',
@@ -5,6 +5,8 @@ export interface AgentMetadata {
   icon: string;
   binary: string;
   defaultModel?: string;
+  /** Command that starts the agent as an Agent Client Protocol server; absent = PTY only */
+  acp?: AgentAcpCommand;
   capabilities: {
     chat: boolean;
     codeEdit: boolean;
@@ -14,6 +16,11 @@ export interface AgentMetadata {
   };
 }
 
+export interface AgentAcpCommand {
+  command: string;
+  args?: string[];
+}
+
 export interface AgentMessage {
   id: string;
   role: 'user' | 'assistant';
@@ -39,6 +46,37 @@ export interface AgentSession {
   updatedAt: number;
 }
 
+/** Lifecycle of a structured (ACP) agent session */
+export type AcpSessionStatus = 'starting' | 'ready' | 'prompting' | 'error' | 'closed';
+
+export interface AcpSessionCreateOptions {
+  agentId: string;
+  cwd: string;
+  /** Overrides the registry command, e.g. a custom path to the adapter */
+  command?: string;
+  args?: string[];
+}
+
+export interface AcpPermissionOption {
+  optionId: string;
+  name: string;
+  kind: 'allow_once' | 'allow_always' | 'reject_once' | 'reject_always';
+}
+
+/** Agent asks the user before running a tool call */
+export interface AcpPermissionRequest {
+  requestId: string;
+  toolCall: ToolCall;
+  options: AcpPermissionOption[];
+}
+
+export type AcpSessionEvent =
+  | { type: 'status'; status: AcpSessionStatus; error?: string }
+  /** Full snapshot of a message that was added or updated */
+  | { type: 'message'; message: AgentMessage }
+  | { type: 'permission'; request: AcpPermissionRequest }
+  | { type: 'permissionResolved'; requestId: string };
+
 /** Task completion marker used in auto-execute mode */
 export const TASK_COMPLETION_MARKER = '[ENSO_TASK_COMPLETE]';
 
@@ -48,4 +86,6 @@ export interface AgentStopNotificationData {
   cwd?: string;
   /** Task completion status from session log analysis */
   taskCompletionStatus?: 'completed' | 'unknown';
+  /** Last assistant text message from the session log */
+  lastAssistantMessage?: string;
 }
@@ -0,0 +1,6 @@
+/**
+ * Agents other than Claude whose MCP servers and instruction files can be managed
+ * - codex: ~/.codex/config.toml [mcp_servers] + ~/.codex/AGENTS.md
+ * - gemini: ~/.gemini/settings.json mcpServers + ~/.gemini/GEMINI.md
+ */
+export type ConfigurableAgentId = 'codex' | 'gemini';
@@ -1,4 +1,22 @@
-export type AIProvider = 'claude-code' | 'codex-cli' | 'cursor-cli' | 'gemini-cli';
+export type AICLIProvider = 'claude-code' | 'codex-cli' | 'cursor-cli' | 'gemini-cli';
+
+// Providers called over HTTP directly, no agent CLI needed
+export type AIApiProvider = 'openai-compatible' | 'anthropic-api';
+
+export type AIProvider = AICLIProvider | AIApiProvider;
+
+export function isAIApiProvider(provider: AIProvider): provider is AIApiProvider {
+  return provider === 'openai-compatible' || provider === 'anthropic-api';
+}
+
+// Endpoint of an HTTP provider, the model here is used by every AI feature
+export interface AIApiProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+}
+
+export type AIApiProviderSettings = Record<AIApiProvider, AIApiProviderConfig>;
 
 export type ClaudeModelId = 'haiku' | 'sonnet' | 'opus';
 export type CodexModelId = 'gpt-5.2' | 'gpt-5.2-codex';
@@ -33,3 +51,30 @@ export interface CommonAICLIOptions extends AIOptimizationOptions {
   model: ModelId;
   reasoningEffort?: ReasoningEffort;
 }
+
+// Code review output: free-form markdown, or findings returned as JSON
+export type CodeReviewMode = 'markdown' | 'structured';
+
+// What a code review looks at. 'changes' is the working tree against HEAD plus the
+// branch's commit log; 'range' covers from..to inclusive, oldest commit first.
+export type CodeReviewScope =
+  | { type: 'changes' }
+  | { type: 'staged' }
+  | { type: 'unstaged' }
+  | { type: 'commit'; hash: string }
+  | { type: 'range'; from: string; to: string }
+  | { type: 'branch'; base: string };
+
+export type ReviewFindingSeverity = 'critical' | 'major' | 'minor' | 'info';
+
+export interface ReviewFinding {
+  id: string;
+  file: string; // relative to the repository root
+  startLine: number; // line numbers in the new version of the file
+  endLine: number;
+  severity: ReviewFindingSeverity;
+  category: string;
+  title: string;
+  suggestion: string;
+  patch?: string; // unified diff that applies with `git apply`
+}
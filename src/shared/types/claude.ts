@@ -29,6 +29,16 @@ export interface ClaudeSettingsEnv {
   [key: string]: string | undefined;
 }
 
+/**
+ * Settings file that binds a Claude provider to one agent session
+ * Passed with `--settings`, which outranks user and project settings.
+ */
+export interface ClaudeSessionSettings {
+  settingsPath: string;
+  /** Provider env keys still overridden by a higher layer (managed settings) */
+  overriddenKeys: string[];
+}
+
 /**
  * Claude `settings.json` (partial)
  */
@@ -40,9 +50,22 @@ export interface ClaudeSettings {
   [key: string]: unknown;
 }
 
+/**
+ * Where a Claude config item lives
+ * - `user`: `~/.claude` and `~/.claude.json`
+ * - `project`: the worktree root (`CLAUDE.md`, `.claude/commands`, `.claude/skills`, `.mcp.json`)
+ */
+export type ClaudeConfigScope = 'user' | 'project';
+
+/**
+ * Project memory files read by Claude Code and other agents
+ */
+export type ProjectMemoryFile = 'CLAUDE.md' | 'AGENTS.md';
+
 /**
  * Claude Code CLI `/` completion items
- * - Supports built-in seeds and user-defined items (from `~/.claude/commands`, `~/.claude/skills`)
+ * - Supports built-in seeds and user/project-defined items (from `commands` and `skills` under
+ *   `~/.claude` or `<project>/.claude`)
  * - Only used for UI hints and insert text; it does not change CLI behavior
  */
 export type ClaudeSlashCompletionKind = 'command' | 'skill';
@@ -56,7 +79,9 @@ export interface ClaudeSlashCompletionItem {
   /** Optional description */
   description?: string;
   /** Data source */
-  source: 'builtin' | 'user' | 'learned';
+  source: 'builtin' | 'user' | 'project' | 'learned';
+  /** Markdown file of user/project items */
+  filePath?: string;
 }
 
 export interface ClaudeSlashCompletionsSnapshot {
@@ -64,3 +89,19 @@ export interface ClaudeSlashCompletionsSnapshot {
   /** Generated timestamp (ms) */
   updatedAt: number;
 }
+
+/**
+ * Identifies a custom command (`commands/<name>.md`) or skill (`skills/<name>/SKILL.md`)
+ */
+export interface ClaudeCommandRef {
+  kind: ClaudeSlashCompletionKind;
+  /** File name without `.md` for commands, directory name for skills */
+  name: string;
+  scope: ClaudeConfigScope;
+}
+
+export interface ClaudeCommandEntry extends ClaudeCommandRef {
+  /** Markdown file holding the command or skill */
+  filePath: string;
+  description?: string;
+}
@@ -12,6 +12,14 @@ export interface FileChangeEvent {
   path: string;
 }
 
+export interface FileBatchWriteEntry {
+  path: string;
+  content: string;
+  encoding?: string;
+  // Only write when the file still has this content; otherwise the whole batch is rejected
+  expectedContent?: string;
+}
+
 export interface FileReadResult {
   content: string;
   encoding: string;
@@ -86,6 +86,12 @@ export interface CommitFileChange {
   status: FileChangeStatus;
 }
 
+/** Working tree state to diff against later, see `GitService.getChangedFilesSince` */
+export interface WorkingTreeSnapshot {
+  ref: string; // stash commit of the dirty tree, or HEAD when clean
+  untracked: string[];
+}
+
 export interface CommitDetail {
   hash: string;
   date: string;
@@ -97,6 +103,34 @@ export interface CommitDetail {
   fullDiff: string;
 }
 
+// Stash types
+/**
+ * Message used by WorktreeService.merge for the stashes it creates before merging.
+ * Kept here so the stash list can recognise and label them.
+ */
+export const MERGE_AUTO_STASH_MESSAGE = 'Auto stash before merge';
+
+export interface GitStash {
+  index: number;
+  ref: string; // stash@{n}
+  hash: string;
+  date: string;
+  message: string;
+  branch: string | null; // branch the stash was created on
+  isAutoStash: boolean; // created by merge auto-stash
+}
+
+export interface GitStashFile extends CommitFileChange {
+  untracked?: boolean; // stored in the stash's untracked-files commit (stash^3)
+}
+
+export interface GitStashCreateOptions {
+  message?: string;
+  paths?: string[]; // limit the stash to these paths
+  includeUntracked?: boolean;
+  keepIndex?: boolean;
+}
+
 // Pull Request types
 export interface PullRequest {
   number: number;
@@ -106,6 +140,76 @@ export interface PullRequest {
   author: string;
   updatedAt: string;
   isDraft: boolean;
+  url?: string;
+}
+
+export type PullRequestCheckState = 'pending' | 'success' | 'failure' | 'skipped' | 'neutral';
+
+export interface PullRequestCheck {
+  name: string;
+  workflow?: string;
+  state: PullRequestCheckState;
+  url?: string;
+}
+
+export interface PullRequestComment {
+  id: string;
+  author: string;
+  body: string;
+  createdAt: string;
+  url?: string;
+  // Set for review comments attached to a line of the diff
+  path?: string;
+  line?: number;
+}
+
+export interface PullRequestReview {
+  author: string;
+  state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED' | 'PENDING';
+  body: string;
+  submittedAt: string;
+}
+
+export interface PullRequestDetails extends PullRequest {
+  url: string;
+  body: string;
+  baseRefName: string;
+  headRefOid: string;
+  mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+  reviewDecision: 'APPROVED' | 'CHANGES_REQUESTED' | 'REVIEW_REQUIRED' | null;
+  additions: number;
+  deletions: number;
+  checks: PullRequestCheck[];
+  reviews: PullRequestReview[];
+  comments: PullRequestComment[];
+}
+
+export interface PullRequestCreateOptions {
+  title: string;
+  body: string;
+  base: string;
+  draft?: boolean;
+}
+
+/** An inline comment on the PR head, lines are 1-based in the new version of the file */
+export interface PullRequestReviewCommentInput {
+  path: string;
+  line: number;
+  startLine?: number;
+  body: string;
+}
+
+export type PullRequestMergeMethod = 'merge' | 'squash' | 'rebase';
+
+/** An open GitHub issue as listed by `gh issue list` */
+export interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  author: string;
+  labels: string[];
+  updatedAt: string;
 }
 
 export interface GhCliStatus {
@@ -1,4 +1,5 @@
 export * from './agent';
+export * from './agentConfig';
 export * from './ai';
 export * from './app';
 export * from './claude';
@@ -6,11 +7,15 @@ export * from './cli';
 export * from './file';
 export * from './git';
 export * from './ipc';
+export * from './lsp';
 export * from './mcp';
 export * from './plugins';
 export * from './prompts';
 export * from './search';
+export * from './secrets';
 export * from './shell';
+export * from './tasks';
 export * from './tempWorkspace';
 export * from './terminal';
+export * from './todo';
 export * from './worktree';
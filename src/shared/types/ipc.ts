@@ -20,6 +20,9 @@ export const IPC_CHANNELS = {
   GIT_COMMIT_FILES: 'git:commit:files',
   GIT_COMMIT_DIFF: 'git:commit:diff',
   GIT_DIFF_STATS: 'git:diff:stats',
+  GIT_SNAPSHOT_CREATE: 'git:snapshot:create',
+  GIT_CHANGED_FILES_SINCE: 'git:snapshot:changed-files',
+  GIT_APPLY_PATCH: 'git:apply-patch',
   GIT_GENERATE_COMMIT_MSG: 'git:generate-commit-msg',
   GIT_GENERATE_BRANCH_NAME: 'git:generate-branch-name',
   GIT_CODE_REVIEW_START: 'git:code-review:start',
@@ -28,6 +31,16 @@ export const IPC_CHANNELS = {
   GIT_GH_STATUS: 'git:gh:status',
   GIT_PR_LIST: 'git:pr:list',
   GIT_PR_FETCH: 'git:pr:fetch',
+  GIT_PR_FOR_BRANCH: 'git:pr:for-branch',
+  GIT_PR_DETAILS: 'git:pr:details',
+  GIT_PR_DIFF: 'git:pr:diff',
+  GIT_PR_CREATE: 'git:pr:create',
+  GIT_PR_REVIEW: 'git:pr:review',
+  GIT_PR_MERGE: 'git:pr:merge',
+  GIT_PR_CLOSE: 'git:pr:close',
+  GIT_ISSUE_LIST: 'git:issue:list',
+  GIT_ISSUE_CLOSE: 'git:issue:close',
+  GIT_GENERATE_PR_DESCRIPTION: 'git:generate-pr-description',
   // Git Clone
   GIT_CLONE: 'git:clone',
   GIT_CLONE_PROGRESS: 'git:clone:progress',
@@ -37,6 +50,14 @@ export const IPC_CHANNELS = {
   // Git Revert & Reset
   GIT_REVERT: 'git:revert',
   GIT_RESET: 'git:reset',
+  // Git Stash
+  GIT_STASH_LIST: 'git:stash:list',
+  GIT_STASH_FILES: 'git:stash:files',
+  GIT_STASH_FILE_DIFF: 'git:stash:file-diff',
+  GIT_STASH_CREATE: 'git:stash:create',
+  GIT_STASH_APPLY: 'git:stash:apply',
+  GIT_STASH_POP: 'git:stash:pop',
+  GIT_STASH_DROP: 'git:stash:drop',
 
   // Git Auto Fetch
   GIT_AUTO_FETCH_SET_ENABLED: 'git:autoFetch:setEnabled',
@@ -64,6 +85,11 @@ export const IPC_CHANNELS = {
   WORKTREE_ADD: 'worktree:add',
   WORKTREE_REMOVE: 'worktree:remove',
   WORKTREE_ACTIVATE: 'worktree:activate',
+  WORKTREE_HOOK_APPROVE: 'worktree:hook:approve',
+  WORKTREE_HOOK_CONFIG: 'worktree:hook:config',
+  WORKTREE_HOOK_RUN: 'worktree:hook:run',
+  WORKTREE_HOOK_RUNS: 'worktree:hook:runs',
+  WORKTREE_HOOK_UPDATE: 'worktree:hook:update',
   WORKTREE_MERGE: 'worktree:merge',
   WORKTREE_MERGE_STATE: 'worktree:merge:state',
   WORKTREE_MERGE_CONFLICTS: 'worktree:merge:conflicts',
@@ -71,6 +97,12 @@ export const IPC_CHANNELS = {
   WORKTREE_MERGE_RESOLVE: 'worktree:merge:resolve',
   WORKTREE_MERGE_ABORT: 'worktree:merge:abort',
   WORKTREE_MERGE_CONTINUE: 'worktree:merge:continue',
+  WORKTREE_REBASE_COMMITS: 'worktree:rebase:commits',
+  WORKTREE_REBASE_START: 'worktree:rebase:start',
+  WORKTREE_REBASE_CONTINUE: 'worktree:rebase:continue',
+  WORKTREE_CHERRY_PICK: 'worktree:cherryPick',
+  WORKTREE_CHERRY_PICK_STATE: 'worktree:cherryPick:state',
+  WORKTREE_CHERRY_PICK_CONTINUE: 'worktree:cherryPick:continue',
 
   // Temporary Workspace
   TEMP_WORKSPACE_CREATE: 'temp:workspace:create',
@@ -88,6 +120,7 @@ export const IPC_CHANNELS = {
   FILE_COPY: 'file:copy',
   FILE_BATCH_MOVE: 'file:batchMove',
   FILE_BATCH_COPY: 'file:batchCopy',
+  FILE_BATCH_WRITE: 'file:batchWrite',
   FILE_CHECK_CONFLICTS: 'file:checkConflicts',
   FILE_DELETE: 'file:delete',
   FILE_LIST: 'file:list',
@@ -104,7 +137,14 @@ export const IPC_CHANNELS = {
   TERMINAL_DESTROY: 'terminal:destroy',
   TERMINAL_DATA: 'terminal:data',
   TERMINAL_EXIT: 'terminal:exit',
+  TERMINAL_PORTS_CHANGED: 'terminal:ports-changed',
   TERMINAL_GET_ACTIVITY: 'terminal:getActivity',
+  TERMINAL_RECORDING_START: 'terminal:recording:start',
+  TERMINAL_RECORDING_STOP: 'terminal:recording:stop',
+  TERMINAL_RECORDING_LIST: 'terminal:recording:list',
+  TERMINAL_RECORDING_READ: 'terminal:recording:read',
+  TERMINAL_RECORDING_DELETE: 'terminal:recording:delete',
+  TERMINAL_RECORDING_EXPORT: 'terminal:recording:export',
 
   // Agent
   AGENT_LIST: 'agent:list',
@@ -112,6 +152,12 @@ export const IPC_CHANNELS = {
   AGENT_ASK_USER_QUESTION_NOTIFICATION: 'agent:askUserQuestion:notification',
   AGENT_PRE_TOOL_USE_NOTIFICATION: 'agent:preToolUse:notification',
   AGENT_STATUS_UPDATE: 'agent:status:update',
+  AGENT_ACP_CREATE: 'agent:acp:create',
+  AGENT_ACP_PROMPT: 'agent:acp:prompt',
+  AGENT_ACP_CANCEL: 'agent:acp:cancel',
+  AGENT_ACP_PERMISSION_RESPOND: 'agent:acp:permission:respond',
+  AGENT_ACP_DESTROY: 'agent:acp:destroy',
+  AGENT_ACP_EVENT: 'agent:acp:event',
 
   // App
   APP_GET_PATH: 'app:getPath',
@@ -192,6 +238,9 @@ export const IPC_CHANNELS = {
   MCP_BRIDGE_GET_STATUS: 'mcp:bridge:getStatus',
   MCP_SELECTION_CHANGED: 'mcp:selection:changed',
   MCP_AT_MENTIONED: 'mcp:at:mentioned',
+  MCP_TOOL_REQUEST: 'mcp:tool:request',
+  MCP_TOOL_RESPONSE: 'mcp:tool:response',
+  MCP_TOOL_CANCEL: 'mcp:tool:cancel',
   MCP_STOP_HOOK_SET: 'mcp:stopHook:set',
   MCP_STATUSLINE_HOOK_SET: 'mcp:statusLineHook:set',
   MCP_STATUSLINE_HOOK_STATUS: 'mcp:statusLineHook:status',
@@ -201,6 +250,8 @@ export const IPC_CHANNELS = {
   // Claude Provider
   CLAUDE_PROVIDER_READ_SETTINGS: 'claude:provider:readSettings',
   CLAUDE_PROVIDER_APPLY: 'claude:provider:apply',
+  CLAUDE_PROVIDER_SESSION_SETTINGS: 'claude:provider:sessionSettings',
+  CLAUDE_PROVIDER_SESSION_SETTINGS_DELETE: 'claude:provider:sessionSettings:delete',
   CLAUDE_PROVIDER_SETTINGS_CHANGED: 'claude:provider:settingsChanged',
 
   // Claude MCP Management
@@ -208,6 +259,7 @@ export const IPC_CHANNELS = {
   CLAUDE_MCP_SYNC: 'claude:mcp:sync',
   CLAUDE_MCP_UPSERT: 'claude:mcp:upsert',
   CLAUDE_MCP_DELETE: 'claude:mcp:delete',
+  CLAUDE_MCP_PROJECT_ENV: 'claude:mcp:projectEnv',
 
   // Claude Prompts Management
   CLAUDE_PROMPTS_READ: 'claude:prompts:read',
@@ -220,6 +272,25 @@ export const IPC_CHANNELS = {
   CLAUDE_COMPLETIONS_LEARN: 'claude:completions:learn',
   CLAUDE_COMPLETIONS_UPDATED: 'claude:completions:updated',
 
+  // Claude custom commands and skills
+  CLAUDE_COMMANDS_LIST: 'claude:commands:list',
+  CLAUDE_COMMANDS_READ: 'claude:commands:read',
+  CLAUDE_COMMANDS_WRITE: 'claude:commands:write',
+  CLAUDE_COMMANDS_DELETE: 'claude:commands:delete',
+  CLAUDE_COMMANDS_MOVE: 'claude:commands:move',
+
+  // Codex / Gemini MCP servers and instruction files
+  AGENT_CONFIG_MCP_READ: 'agentConfig:mcp:read',
+  AGENT_CONFIG_MCP_UPSERT: 'agentConfig:mcp:upsert',
+  AGENT_CONFIG_MCP_DELETE: 'agentConfig:mcp:delete',
+  AGENT_CONFIG_INSTRUCTIONS_READ: 'agentConfig:instructions:read',
+  AGENT_CONFIG_INSTRUCTIONS_WRITE: 'agentConfig:instructions:write',
+
+  // MCP server health check and inspector
+  MCP_INSPECTOR_START: 'mcpInspector:start',
+  MCP_INSPECTOR_CALL_TOOL: 'mcpInspector:callTool',
+  MCP_INSPECTOR_STOP: 'mcpInspector:stop',
+
   // Claude Plugins Management
   CLAUDE_PLUGINS_LIST: 'claude:plugins:list',
   CLAUDE_PLUGINS_SET_ENABLED: 'claude:plugins:setEnabled',
@@ -234,6 +305,14 @@ export const IPC_CHANNELS = {
   // Search
   SEARCH_FILES: 'search:files',
   SEARCH_CONTENT: 'search:content',
+  SEARCH_CONTENT_FILES: 'search:content-files',
+
+  // Language servers
+  LSP_OPEN_DOCUMENT: 'lsp:openDocument',
+  LSP_CHANGE_DOCUMENT: 'lsp:changeDocument',
+  LSP_CLOSE_DOCUMENT: 'lsp:closeDocument',
+  LSP_REQUEST: 'lsp:request',
+  LSP_DIAGNOSTICS: 'lsp:diagnostics',
 
   // Hapi Remote Sharing
   HAPI_CHECK_GLOBAL: 'hapi:checkGlobal',
@@ -260,14 +339,30 @@ export const IPC_CHANNELS = {
 
   // Todo
   TODO_GET_TASKS: 'todo:getTasks',
+  TODO_GET_TASK_BY_WORKTREE: 'todo:getTaskByWorktree',
   TODO_ADD_TASK: 'todo:addTask',
   TODO_UPDATE_TASK: 'todo:updateTask',
   TODO_DELETE_TASK: 'todo:deleteTask',
   TODO_MOVE_TASK: 'todo:moveTask',
   TODO_REORDER_TASKS: 'todo:reorderTasks',
   TODO_MIGRATE: 'todo:migrate',
+  TODO_GET_COLUMNS: 'todo:getColumns',
+  TODO_ADD_COLUMN: 'todo:addColumn',
+  TODO_UPDATE_COLUMN: 'todo:updateColumn',
+  TODO_DELETE_COLUMN: 'todo:deleteColumn',
+  TODO_GET_TASK_RUNS: 'todo:getTaskRuns',
+  TODO_ADD_TASK_RUN: 'todo:addTaskRun',
+  TODO_UPDATE_TASK_RUN: 'todo:updateTaskRun',
   TODO_AI_POLISH: 'todo:aiPolish',
 
+  // Project tasks
+  TASKS_DISCOVER: 'tasks:discover',
+
+  // Credential vault
+  SECRETS_STORE: 'secrets:store',
+  SECRETS_DELETE: 'secrets:delete',
+  SECRETS_STATUS: 'secrets:status',
+
   // Logging
   LOG_UPDATE_CONFIG: 'log:update-config',
   LOG_OPEN_FOLDER: 'log:open-folder',
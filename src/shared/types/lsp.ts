@@ -0,0 +1,120 @@
+// Language server configured in editor settings
+export interface LanguageServerConfig {
+  id: string;
+  name: string;
+  // Monaco language ids handled by this server
+  languages: string[];
+  command: string;
+  args: string[];
+  enabled: boolean;
+}
+
+// Subset of the Language Server Protocol types used by the editor bridge.
+// Positions are 0-based, as in LSP.
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export interface LspLocation {
+  uri: string;
+  range: LspRange;
+}
+
+export interface LspLocationLink {
+  targetUri: string;
+  targetRange: LspRange;
+  targetSelectionRange: LspRange;
+  originSelectionRange?: LspRange;
+}
+
+export interface LspMarkupContent {
+  kind: 'plaintext' | 'markdown';
+  value: string;
+}
+
+export type LspMarkedString = string | { language: string; value: string };
+
+export interface LspHover {
+  contents: LspMarkupContent | LspMarkedString | LspMarkedString[];
+  range?: LspRange;
+}
+
+export interface LspTextEdit {
+  range: LspRange;
+  newText: string;
+}
+
+export interface LspWorkspaceEdit {
+  changes?: Record<string, LspTextEdit[]>;
+  documentChanges?: Array<{
+    textDocument: { uri: string; version?: number | null };
+    edits: LspTextEdit[];
+  }>;
+}
+
+export interface LspCompletionItem {
+  label: string | { label: string; detail?: string; description?: string };
+  kind?: number;
+  detail?: string;
+  documentation?: string | LspMarkupContent;
+  sortText?: string;
+  filterText?: string;
+  insertText?: string;
+  insertTextFormat?: number; // 1 = plain text, 2 = snippet
+  textEdit?: LspTextEdit | { newText: string; insert: LspRange; replace: LspRange };
+  additionalTextEdits?: LspTextEdit[];
+}
+
+export interface LspCompletionList {
+  isIncomplete: boolean;
+  items: LspCompletionItem[];
+}
+
+export interface LspDiagnostic {
+  range: LspRange;
+  severity?: 1 | 2 | 3 | 4; // error | warning | information | hint
+  code?: string | number;
+  source?: string;
+  message: string;
+}
+
+export interface LspDiagnosticsEvent {
+  uri: string;
+  diagnostics: LspDiagnostic[];
+}
+
+// Identifies a running server: one per worktree and server config
+export interface LspServerTarget {
+  rootPath: string;
+  serverId: string;
+}
+
+export interface LspOpenDocumentParams {
+  rootPath: string;
+  server: LanguageServerConfig;
+  uri: string;
+  languageId: string;
+  version: number;
+  text: string;
+}
+
+export interface LspChangeDocumentParams extends LspServerTarget {
+  uri: string;
+  version: number;
+  text: string;
+}
+
+export interface LspCloseDocumentParams extends LspServerTarget {
+  uri: string;
+}
+
+export interface LspRequestParams extends LspServerTarget {
+  method: string;
+  params: unknown;
+}
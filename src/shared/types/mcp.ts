@@ -87,3 +87,91 @@ export function isHttpMcpServer(server: McpServer): server is McpHttpServer {
 export function isStdioMcpServer(server: McpServer): server is McpStdioServer {
   return server.transportType === 'stdio';
 }
+
+/**
+ * IDE 桥接工具名称（由渲染进程处理的 tools/call）
+ */
+export type IdeToolName =
+  | 'openFile'
+  | 'openDiff'
+  | 'getOpenEditors'
+  | 'getDiagnostics'
+  | 'saveDocument';
+
+/**
+ * 主进程转发给渲染进程的工具调用，文件路径已解析为绝对路径
+ */
+export interface IdeToolRequest {
+  requestId: string;
+  tool: IdeToolName;
+  args: Record<string, unknown>;
+}
+
+/**
+ * 渲染进程返回的工具调用结果
+ */
+export interface IdeToolResponse {
+  requestId: string;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * openDiff 的审阅结果：接受时带回最终内容
+ */
+export type IdeDiffDecision = { accepted: true; contents: string } | { accepted: false };
+
+/**
+ * MCP 检查器：服务器暴露的工具
+ */
+export interface McpInspectorTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+/**
+ * MCP 检查器：服务器暴露的提示词模板
+ */
+export interface McpInspectorPrompt {
+  name: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+/**
+ * MCP 检查器：服务器暴露的资源
+ */
+export interface McpInspectorResource {
+  uri: string;
+  name?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * 握手成功后的服务器信息
+ */
+export interface McpInspectorSnapshot {
+  sessionId: string;
+  protocolVersion?: string;
+  serverInfo?: { name: string; version?: string };
+  instructions?: string;
+  tools: McpInspectorTool[];
+  prompts: McpInspectorPrompt[];
+  resources: McpInspectorResource[];
+}
+
+/**
+ * 启动检查的结果；stderr 为 stdio 服务器的输出末尾
+ */
+export type McpInspectResult =
+  | { ok: true; snapshot: McpInspectorSnapshot; stderr: string }
+  | { ok: false; error: string; stderr: string };
+
+/**
+ * tools/call 的结果；isError 表示工具本身报告了错误
+ */
+export type McpToolCallResult =
+  | { ok: true; result: unknown; isError: boolean; durationMs: number; stderr: string }
+  | { ok: false; error: string; durationMs: number; stderr: string };
@@ -45,3 +45,9 @@ export interface ContentSearchResult {
   totalFiles: number;
   truncated: boolean;
 }
+
+// 全局替换使用的文件列表（不受内容搜索的结果数限制）
+export interface ContentSearchFileList {
+  files: Array<{ path: string; relativePath: string }>;
+  truncated: boolean; // 搜索超时或失败，列表不完整
+}
@@ -0,0 +1,6 @@
+// Where the credential vault keeps its encryption key: OS keyring or a local key file
+export type SecretVaultBackend = 'keychain' | 'file';
+
+export interface SecretVaultStatus {
+  backend: SecretVaultBackend;
+}
@@ -0,0 +1,16 @@
+export type ProjectTaskSource = 'package' | 'make' | 'just' | 'cargo' | 'go';
+
+export type PackageManager = 'pnpm' | 'npm' | 'yarn' | 'bun';
+
+export interface ProjectTask {
+  id: string; // `${source}:${name}`, unique within a worktree
+  name: string;
+  command: string; // shell command run from the worktree root
+  source: ProjectTaskSource;
+  description?: string;
+}
+
+export interface ProjectTaskDiscovery {
+  tasks: ProjectTask[];
+  packageManager?: PackageManager; // set when a package.json was found
+}
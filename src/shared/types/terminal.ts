@@ -8,12 +8,36 @@ export interface TerminalCreateOptions {
   cwd?: string;
   shell?: string;
   args?: string[];
+  /** Indexes of `args` that hold a vault reference; references elsewhere in args stay as typed */
+  secretArgs?: number[];
   cols?: number;
   rows?: number;
+  /** Values may be vault references, resolved right before spawning */
   env?: Record<string, string>;
   shellConfig?: import('./shell').ShellConfig;
   /** Command to execute after shell is ready */
   initialCommand?: string;
+  /** Exit with the status of initialCommand instead of staying in the shell */
+  exitAfterCommand?: boolean;
+}
+
+export interface TerminalRecordingInfo {
+  path: string; // absolute path of the asciicast (.cast) file
+  name: string;
+  title: string;
+  size: number; // bytes; 0 while still recording
+  createdAt: number;
+}
+
+export interface DevServerPort {
+  port: number;
+  url: string; // as printed by the server when announced, otherwise http://localhost:<port>
+}
+
+export interface TerminalPortsEvent {
+  id: string;
+  cwd: string;
+  ports: DevServerPort[];
 }
 
 export interface TerminalResizeOptions {
@@ -0,0 +1,85 @@
+import type { CommitFileChange, WorkingTreeSnapshot } from './git';
+
+/** Task as stored by TodoService (status and priority are plain strings on this side) */
+export interface TodoTaskData {
+  id: string;
+  title: string;
+  description: string;
+  priority: string;
+  status: string;
+  order: number;
+  createdAt: number;
+  updatedAt: number;
+  labels: string[];
+  /** Parent task ID when this task is a subtask */
+  parentId?: string;
+  /** IDs of tasks that must be done before this one can start */
+  blockedBy: string[];
+  branch?: string;
+  worktreePath?: string;
+  /** Due date as a timestamp (local midnight) */
+  dueDate?: number;
+  /** GitHub issue the task was imported from */
+  issueNumber?: number;
+}
+
+/** Fields that can be updated; null clears an optional field */
+export interface TodoTaskUpdates {
+  title?: string;
+  description?: string;
+  priority?: string;
+  status?: string;
+  labels?: string[];
+  parentId?: string | null;
+  blockedBy?: string[];
+  branch?: string | null;
+  worktreePath?: string | null;
+  dueDate?: number | null;
+  issueNumber?: number | null;
+}
+
+/** User-defined Kanban column, its ID is used as the task status */
+export interface TodoColumnData {
+  id: string;
+  title: string;
+  order: number;
+}
+
+export type TodoTaskRunStatus = 'running' | 'completed' | 'failed';
+
+/** One agent execution of a task (auto-execute or parallel run) */
+export interface TodoTaskRunData {
+  id: string;
+  taskId: string;
+  sessionId: string;
+  agentId: string;
+  agentName: string;
+  cwd: string;
+  status: TodoTaskRunStatus;
+  startedAt: number;
+  endedAt?: number;
+  /** Working tree at start, changed files are computed against it */
+  snapshot?: WorkingTreeSnapshot;
+  model?: string;
+  costUsd?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  changedFiles: CommitFileChange[];
+  /** Last assistant message of the session */
+  finalMessage?: string;
+}
+
+export type TodoTaskRunUpdates = Partial<
+  Pick<
+    TodoTaskRunData,
+    | 'status'
+    | 'endedAt'
+    | 'snapshot'
+    | 'model'
+    | 'costUsd'
+    | 'inputTokens'
+    | 'outputTokens'
+    | 'changedFiles'
+    | 'finalMessage'
+  >
+>;
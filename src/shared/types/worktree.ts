@@ -19,6 +19,13 @@ export interface WorktreeRemoveOptions {
   force?: boolean;
   deleteBranch?: boolean;
   branch?: string;
+  // Remove even when the pre-remove hook fails; unlike force, keeps git's dirty check
+  ignoreHookFailure?: boolean;
+}
+
+export interface WorktreeRemoveResult {
+  // Set when pre-remove was skipped because the config is invalid or not approved
+  hookWarning?: string;
 }
 
 // Merge types
@@ -87,3 +94,80 @@ export interface WorktreeMergeCleanupOptions {
   deleteWorktreeAfterMerge?: boolean;
   deleteBranchAfterMerge?: boolean;
 }
+
+// Interactive rebase types
+export type RebaseTodoAction = 'pick' | 'reword' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoItem {
+  hash: string;
+  action: RebaseTodoAction;
+  message: string; // commit subject; for 'reword' the new full message
+}
+
+export interface WorktreeRebaseOptions {
+  worktreePath: string;
+  targetBranch: string; // branch the worktree branch is rebased onto
+  todo: RebaseTodoItem[]; // in apply order (oldest first)
+  autoStash?: boolean;
+}
+
+export interface WorktreeRebaseResult {
+  success: boolean;
+  conflicts?: MergeConflict[];
+  error?: string;
+}
+
+// Cherry-pick types
+export interface WorktreeCherryPickOptions {
+  worktreePath: string; // worktree the commits are applied to
+  commits: string[]; // in apply order (oldest first)
+  recordOrigin?: boolean; // append "(cherry picked from commit ...)" (-x)
+}
+
+export interface WorktreeCherryPickResult {
+  success: boolean;
+  conflicts?: MergeConflict[];
+  error?: string;
+}
+
+export interface CherryPickState {
+  inProgress: boolean;
+  currentCommit?: string; // commit that stopped on conflicts
+  remaining?: number; // commits still queued after the current one
+  conflicts?: MergeConflict[];
+}
+
+// Lifecycle hooks, configured per repository in a checked-in `.enso/config.json`
+export type WorktreeHookName = 'post-create' | 'pre-remove' | 'post-merge' | 'on-activate';
+
+export const WORKTREE_HOOK_NAMES: WorktreeHookName[] = [
+  'post-create',
+  'pre-remove',
+  'post-merge',
+  'on-activate',
+];
+
+export interface EnsoRepoConfig {
+  // Each hook is one command or a list run in order, stopping at the first failure
+  hooks: Partial<Record<WorktreeHookName, string[]>>;
+  // Paths relative to the repository copied from the main worktree before post-create (e.g. .env)
+  copyFiles: string[];
+  hookTimeout: number; // seconds, per hook run
+}
+
+// `approval` waits for the user to trust the repository's current config
+export type WorktreeHookStatus = 'running' | 'success' | 'failed' | 'timeout' | 'approval';
+
+export interface WorktreeHookRun {
+  id: string;
+  hook: WorktreeHookName;
+  repoPath: string;
+  worktreePath: string;
+  commands: string[];
+  status: WorktreeHookStatus;
+  exitCode: number | null;
+  output: string;
+  error?: string;
+  startedAt: number;
+  finishedAt?: number;
+}
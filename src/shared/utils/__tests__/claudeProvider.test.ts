@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { ClaudeProvider } from '../../types/claude';
+import {
+  getClaudeProviderEnv,
+  getOverriddenProviderKeys,
+  mergeClaudeSettingsEnv,
+} from '../claudeProvider';
+
+const sessionProvider: ClaudeProvider = {
+  id: 'proxy',
+  name: 'Proxy',
+  baseUrl: 'https://proxy.example.com',
+  authToken: 'proxy-token',
+  defaultSonnetModel: 'proxy-sonnet',
+};
+
+const globalEnv = {
+  ANTHROPIC_BASE_URL: 'https://api.anthropic.com',
+  ANTHROPIC_AUTH_TOKEN: 'global-token',
+  DISABLE_TELEMETRY: '1',
+};
+
+describe('session provider precedence', () => {
+  it('uses the session provider over the one applied to global settings', () => {
+    const sessionEnv = getClaudeProviderEnv(sessionProvider);
+    // user settings.json, project settings, --settings file, no managed settings
+    const effective = mergeClaudeSettingsEnv([globalEnv, undefined, sessionEnv, undefined]);
+
+    expect(effective).toEqual({ ...sessionEnv, DISABLE_TELEMETRY: '1' });
+    expect(getOverriddenProviderKeys(sessionEnv, effective)).toEqual([]);
+  });
+
+  it('reports the keys managed settings still override', () => {
+    const sessionEnv = getClaudeProviderEnv(sessionProvider);
+    const effective = mergeClaudeSettingsEnv([
+      globalEnv,
+      sessionEnv,
+      { ANTHROPIC_BASE_URL: 'https://gateway.corp.example.com' },
+    ]);
+
+    expect(getOverriddenProviderKeys(sessionEnv, effective)).toEqual(['ANTHROPIC_BASE_URL']);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { buildShellCommand, getShellQuoteStyle, quoteShellArg } from '../shellQuote';
+
+describe('getShellQuoteStyle', () => {
+  it('recognizes Windows shells by executable name', () => {
+    expect(getShellQuoteStyle('C:\\Program Files\\PowerShell\\7\\pwsh.exe')).toBe('powershell');
+    expect(getShellQuoteStyle('powershell.exe')).toBe('powershell');
+    expect(getShellQuoteStyle('C:\\Windows\\System32\\cmd.exe')).toBe('cmd');
+    expect(getShellQuoteStyle('/bin/zsh')).toBe('posix');
+    expect(getShellQuoteStyle('wsl.exe')).toBe('posix');
+  });
+});
+
+describe('quoteShellArg', () => {
+  it('leaves plain arguments alone', () => {
+    expect(quoteShellArg('--stdio')).toBe('--stdio');
+    expect(quoteShellArg('~/bin/server')).toBe('~/bin/server');
+  });
+
+  it('quotes per shell', () => {
+    expect(quoteShellArg("it's $HOME", 'posix')).toBe(`'it'\\''s $HOME'`);
+    expect(quoteShellArg("it's $HOME", 'powershell')).toBe(`'it''s $HOME'`);
+    expect(quoteShellArg('say "hi" & exit', 'cmd')).toBe('"say ""hi"" & exit"');
+  });
+});
+
+describe('buildShellCommand', () => {
+  it('invokes a quoted program through the PowerShell call operator', () => {
+    expect(buildShellCommand('C:\\Tools\\my server.exe', ['-y'], 'powershell')).toBe(
+      "& 'C:\\Tools\\my server.exe' -y"
+    );
+    expect(buildShellCommand('npx', ['-y', '@acme/mcp'], 'posix')).toBe("npx -y '@acme/mcp'");
+  });
+});
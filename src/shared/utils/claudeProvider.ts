@@ -0,0 +1,62 @@
+/**
+ * Claude provider utility functions
+ * Shared by the global settings.json writer and per-session settings files
+ */
+
+import type { ClaudeProvider } from '../types/claude';
+
+/**
+ * Environment variables that point Claude Code at a provider
+ * @param provider Provider config
+ * @returns Env entries, optional models only when set
+ */
+export function getClaudeProviderEnv(provider: ClaudeProvider): Record<string, string> {
+  const env: Record<string, string> = {
+    ANTHROPIC_BASE_URL: provider.baseUrl,
+    ANTHROPIC_AUTH_TOKEN: provider.authToken,
+  };
+
+  if (provider.smallFastModel) {
+    env.ANTHROPIC_SMALL_FAST_MODEL = provider.smallFastModel;
+  }
+  if (provider.defaultSonnetModel) {
+    env.ANTHROPIC_DEFAULT_SONNET_MODEL = provider.defaultSonnetModel;
+  }
+  if (provider.defaultOpusModel) {
+    env.ANTHROPIC_DEFAULT_OPUS_MODEL = provider.defaultOpusModel;
+  }
+  if (provider.defaultHaikuModel) {
+    env.ANTHROPIC_DEFAULT_HAIKU_MODEL = provider.defaultHaikuModel;
+  }
+
+  return env;
+}
+
+/**
+ * Merge the `env` blocks of Claude Code settings layers
+ * @param layers Settings env from lowest to highest precedence
+ * @returns The env Claude Code ends up applying
+ */
+export function mergeClaudeSettingsEnv(
+  layers: Array<Record<string, string | undefined> | undefined>
+): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer ?? {})) {
+      if (value !== undefined) env[key] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Provider keys whose effective value differs from the one a session asked for
+ * @param expected Env written for the session
+ * @param effective Result of mergeClaudeSettingsEnv over every layer
+ */
+export function getOverriddenProviderKeys(
+  expected: Record<string, string>,
+  effective: Record<string, string>
+): string[] {
+  return Object.keys(expected).filter((key) => effective[key] !== expected[key]);
+}
@@ -0,0 +1,37 @@
+/**
+ * Credential vault reference utilities
+ * Settings keep these opaque references; only the main process resolves them.
+ */
+
+export const SECRET_REF_PREFIX = 'enso-secret:';
+
+/** Matches every reference inside a larger string, e.g. a `Bearer <ref>` header */
+export const SECRET_REF_PATTERN = /enso-secret:[0-9a-f-]{36}/g;
+
+/**
+ * Check whether a settings value is a vault reference
+ * @param value Settings value
+ * @returns True for `enso-secret:<id>`
+ */
+export function isSecretRef(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.startsWith(SECRET_REF_PREFIX) &&
+    value.length === SECRET_REF_PREFIX.length + 36
+  );
+}
+
+/**
+ * Build a reference from a vault entry id
+ */
+export function createSecretRef(id: string): string {
+  return `${SECRET_REF_PREFIX}${id}`;
+}
+
+/**
+ * Get the vault entry id of a reference
+ * @returns The id, or null when the value is not a reference
+ */
+export function parseSecretRef(value: unknown): string | null {
+  return isSecretRef(value) ? value.slice(SECRET_REF_PREFIX.length) : null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Platform-aware quoting for command strings handed to the user's shell.
+ * Free of runtime imports so both processes and pure modules (and their tests)
+ * can use it; main/utils/shell.ts re-exports it for the main process.
+ */
+
+export type ShellQuoteStyle = 'posix' | 'powershell' | 'cmd';
+
+// Arguments made only of these characters mean the same thing unquoted in every
+// supported shell. `~` stays unquoted so POSIX shells still expand home paths.
+const SAFE_ARG = /^[\w./:~-]+$/;
+
+/**
+ * Pick the quoting rules for a shell executable (path or bare name)
+ */
+export function getShellQuoteStyle(shell: string): ShellQuoteStyle {
+  const name = (shell.split(/[\\/]/).pop() ?? shell).toLowerCase();
+  if (/^(pwsh|powershell)(\.exe)?$/.test(name)) return 'powershell';
+  if (/^cmd(\.exe)?$/.test(name)) return 'cmd';
+  return 'posix';
+}
+
+/**
+ * Quote one argument so the shell passes it through literally
+ */
+export function quoteShellArg(arg: string, style: ShellQuoteStyle = 'posix'): string {
+  if (SAFE_ARG.test(arg)) return arg;
+  switch (style) {
+    case 'powershell':
+      // PowerShell also treats typographic single quotes as quote characters
+      return `'${arg.replace(/['\u2018\u2019\u201A\u201B]/g, '$&$&')}'`;
+    case 'cmd':
+      return `"${arg.replace(/"/g, '""')}"`;
+    default:
+      return `'${arg.replace(/'/g, `'\\''`)}'`;
+  }
+}
+
+/**
+ * Build a command line running `command` with `args` in the given shell
+ */
+export function buildShellCommand(
+  command: string,
+  args: string[],
+  style: ShellQuoteStyle = 'posix'
+): string {
+  const parts = [command, ...args].map((arg) => quoteShellArg(arg, style));
+  // A quoted program name is just a string in PowerShell; `&` invokes it
+  if (style === 'powershell' && parts[0] !== command) {
+    parts[0] = `& ${parts[0]}`;
+  }
+  return parts.join(' ');
+}